@@ -81,7 +81,11 @@ describe('Agent Flow Integration Tests', () => {
       expect(classification.agentType).toBe('joke');
 
       // Step 2: Get appropriate content from RAG
-      const ragContent = ragService.searchForAgent('joke', userMessage, true);
+      const ragContent = await ragService.searchForAgent(
+        'joke',
+        userMessage,
+        true,
+      );
       if (ragContent) {
         expect(ragContent).toHaveProperty('content');
         // RAG content may return more specific categories like 'dad_joke' instead of 'joke'
@@ -129,7 +133,11 @@ describe('Agent Flow Integration Tests', () => {
       expect(classification.agentType).toBe('trivia');
 
       // Step 2: Get appropriate content from RAG
-      const ragContent = ragService.searchForAgent('trivia', userMessage, true);
+      const ragContent = await ragService.searchForAgent(
+        'trivia',
+        userMessage,
+        true,
+      );
       if (ragContent) {
         // RAG content may return more specific categories like 'space' for trivia
         expect(['trivia', 'space', 'science']).toContain(ragContent.category);
@@ -156,7 +164,11 @@ describe('Agent Flow Integration Tests', () => {
       expect(classification.agentType).toBe('gif');
 
       // Step 2: Get appropriate content from RAG
-      const ragContent = ragService.searchForAgent('gif', userMessage, true);
+      const ragContent = await ragService.searchForAgent(
+        'gif',
+        userMessage,
+        true,
+      );
       if (ragContent) {
         // RAG content may return more specific categories like 'funny' for gifs
         expect(['gif', 'funny', 'meme']).toContain(ragContent.category);
@@ -271,7 +283,7 @@ describe('Agent Flow Integration Tests', () => {
         expect(classification.agentType).toBe(testCase.expectedAgent);
 
         // Get RAG content
-        const ragContent = ragService.searchForAgent(
+        const ragContent = await ragService.searchForAgent(
           testCase.expectedAgent as any,
           testCase.message,
           true,
@@ -311,7 +323,7 @@ describe('Agent Flow Integration Tests', () => {
       );
 
       // Should still get some content (fallback)
-      const ragContent = ragService.searchForAgent(
+      const ragContent = await ragService.searchForAgent(
         'joke',
         obscureMessage,
         true,
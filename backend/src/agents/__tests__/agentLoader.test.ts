@@ -0,0 +1,334 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AgentLoader, agentLoader, parseAgentDefinition } from '../agentLoader';
+import { AGENTS, getAgent, isAgentType, listAgents } from '../config';
+import { logger } from '../../logger';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+const mockLogger = logger as jest.Mocked<typeof logger>;
+
+const FORTUNE_TELLER = `id: fortune_teller
+name: Fortune Teller
+description: Reads your fortune in tea leaves and tarot cards
+systemPrompt: You are a theatrical but kind fortune teller.
+model: gpt-4o-mini
+temperature: 0.9
+keywords: [Fortune, tarot]
+`;
+
+describe('parseAgentDefinition', () => {
+  const valid = {
+    id: 'fortune_teller',
+    name: 'Fortune Teller',
+    description: 'Reads your fortune',
+    systemPrompt: 'You are a fortune teller.',
+    model: 'gpt-4o-mini',
+  };
+
+  it('fills in the defaults and uses the id as the type', () => {
+    expect(parseAgentDefinition(valid)).toEqual({
+      ...valid,
+      type: 'fortune_teller',
+      temperature: 0.7,
+      maxTokens: 1000,
+    });
+  });
+
+  it('keeps the optional settings and lower-cases keywords', () => {
+    const agent = parseAgentDefinition({
+      ...valid,
+      provider: 'anthropic',
+      fallbackProvider: 'openai',
+      temperature: 0,
+      maxTokens: 400,
+      tools: ['roll_dice'],
+      keywords: [' Tarot Reading '],
+      maxToolIterations: 2,
+      cacheSystem: true,
+    });
+
+    expect(agent).toMatchObject({
+      provider: 'anthropic',
+      fallbackProvider: 'openai',
+      temperature: 0,
+      maxTokens: 400,
+      tools: ['roll_dice'],
+      keywords: ['tarot reading'],
+      maxToolIterations: 2,
+      cacheSystem: true,
+    });
+  });
+
+  it('reports every problem at once', () => {
+    expect(() =>
+      parseAgentDefinition({
+        id: 'Fortune Teller',
+        name: '',
+        systemPrompt: 'You are a fortune teller.',
+        model: 'gpt-4o-mini',
+        provider: 'cohere',
+        temperature: 3,
+        maxTokens: 1.5,
+        tools: 'roll_dice',
+        system_prompt: 'typo',
+      }),
+    ).toThrow(
+      [
+        'unknown field "system_prompt"',
+        '"id" must be 2-40 lower-case letters, digits or underscores, starting with a letter',
+        '"name" must be a non-empty string',
+        '"description" is required',
+        '"provider" must be one of openai, anthropic, foundry, local, mock',
+        '"temperature" must be a number from 0 to 2',
+        '"maxTokens" must be a whole number above 0',
+        '"tools" must be a list of strings',
+      ].join('; '),
+    );
+  });
+
+  it('accepts a validation policy and checks its fields', () => {
+    const validationPolicy = {
+      steps: ['regenerate', 'fallback', 'canned'],
+      maxAttempts: 2,
+      fallbackProvider: 'anthropic',
+      fallbackModel: 'claude-sonnet-4-6',
+      cannedResponse: 'Let me get a human.',
+    };
+
+    expect(
+      parseAgentDefinition({ ...valid, validationPolicy }).validationPolicy,
+    ).toEqual(validationPolicy);
+    expect(() =>
+      parseAgentDefinition({
+        ...valid,
+        validationPolicy: {
+          steps: ['retry'],
+          maxAttempts: -1,
+          fallbackProvider: 'cohere',
+          cannedResponse: '',
+          canned: 'typo',
+        },
+      }),
+    ).toThrow(
+      [
+        'unknown field "validationPolicy.canned"',
+        '"validationPolicy.steps" must be a list of regenerate, fallback, canned',
+        '"validationPolicy.maxAttempts" must be a whole number',
+        '"validationPolicy.fallbackProvider" must be one of openai, anthropic, foundry, local, mock',
+        '"validationPolicy.cannedResponse" must be a non-empty string',
+      ].join('; '),
+    );
+    expect(() =>
+      parseAgentDefinition({ ...valid, validationPolicy: ['regenerate'] }),
+    ).toThrow('"validationPolicy" must be an object');
+  });
+
+  it('rejects a file that is not a single object', () => {
+    expect(() => parseAgentDefinition([valid])).toThrow(
+      'An agent file must hold a single object',
+    );
+  });
+});
+
+describe('AgentLoader', () => {
+  let dir: string;
+
+  const write = (file: string, content: string): void =>
+    fs.writeFileSync(path.join(dir, file), content);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agents-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads YAML and JSON agent files and ignores other files', () => {
+    write('fortune_teller.yaml', FORTUNE_TELLER);
+    write(
+      'poet.json',
+      JSON.stringify({
+        id: 'poet',
+        name: 'Poet',
+        description: 'Writes short poems',
+        systemPrompt: 'You are a poet.',
+        model: 'gpt-4o-mini',
+      }),
+    );
+    write('README.md', '# Agents');
+
+    const loader = new AgentLoader(dir);
+    loader.load();
+
+    expect(loader.list().map(agent => agent.id)).toEqual([
+      'fortune_teller',
+      'poet',
+    ]);
+    expect(loader.get('fortune_teller')).toMatchObject({
+      name: 'Fortune Teller',
+      temperature: 0.9,
+      keywords: ['fortune', 'tarot'],
+    });
+  });
+
+  it('skips invalid files and logs why', () => {
+    write('fortune_teller.yaml', FORTUNE_TELLER);
+    write('broken.yaml', 'id: broken\nname: Broken\n');
+
+    const loader = new AgentLoader(dir);
+    loader.load();
+
+    expect(loader.list().map(agent => agent.id)).toEqual(['fortune_teller']);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      { file: 'broken.yaml', kept: false },
+      expect.stringContaining('"description" is required'),
+    );
+  });
+
+  it('keeps the last good version of a file that an edit broke', () => {
+    write('fortune_teller.yaml', FORTUNE_TELLER);
+    const loader = new AgentLoader(dir);
+    loader.load();
+
+    write('fortune_teller.yaml', 'id: fortune_teller\ntemperature: hot\n');
+    loader.load();
+
+    expect(loader.get('fortune_teller')?.name).toBe('Fortune Teller');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      { file: 'fortune_teller.yaml', kept: true },
+      expect.any(String),
+    );
+  });
+
+  it('drops agents whose files were removed', () => {
+    write('fortune_teller.yaml', FORTUNE_TELLER);
+    const loader = new AgentLoader(dir);
+    loader.load();
+
+    fs.unlinkSync(path.join(dir, 'fortune_teller.yaml'));
+    loader.load();
+
+    expect(loader.get('fortune_teller')).toBeUndefined();
+  });
+
+  it('skips a second file with the same id', () => {
+    write('a.yaml', FORTUNE_TELLER);
+    write('b.yaml', FORTUNE_TELLER.replace('Fortune Teller', 'Impostor'));
+
+    const loader = new AgentLoader(dir);
+    loader.load();
+
+    expect(loader.get('fortune_teller')?.name).toBe('Fortune Teller');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      { file: 'b.yaml', id: 'fortune_teller' },
+      expect.stringContaining('already defines'),
+    );
+  });
+
+  it('treats a missing directory as no agent files', () => {
+    const loader = new AgentLoader(path.join(dir, 'missing'));
+    loader.load();
+    loader.watch();
+
+    expect(loader.list()).toEqual([]);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      { dir: path.join(dir, 'missing') },
+      expect.stringContaining('No agent directory to watch'),
+    );
+    loader.close();
+  });
+
+  it('reloads when a file changes while watching', async () => {
+    const loader = new AgentLoader(dir);
+    loader.load();
+    loader.watch();
+
+    try {
+      write('fortune_teller.yaml', FORTUNE_TELLER);
+      const deadline = Date.now() + 5000;
+      while (!loader.get('fortune_teller') && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(loader.get('fortune_teller')?.name).toBe('Fortune Teller');
+    } finally {
+      loader.close();
+    }
+  });
+});
+
+describe('agent files in the agent config', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agents-'));
+    fs.writeFileSync(path.join(dir, 'fortune_teller.yaml'), FORTUNE_TELLER);
+    fs.writeFileSync(
+      path.join(dir, 'joke.yaml'),
+      `id: joke
+name: Pun Machine
+description: Nothing but puns
+systemPrompt: You only tell puns.
+model: gpt-4o-mini
+`,
+    );
+    fs.writeFileSync(
+      path.join(dir, 'account_support.yaml'),
+      `id: account_support
+name: Account Desk
+description: Account help
+systemPrompt: You help with accounts.
+model: gpt-4o-mini
+`,
+    );
+    process.env.AGENTS_DIR = dir;
+    agentLoader.load();
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    agentLoader.load();
+    delete process.env.AGENTS_DIR;
+  });
+
+  it('adds new agents after the built-in ones', () => {
+    expect(getAgent('fortune_teller').name).toBe('Fortune Teller');
+    expect(isAgentType('fortune_teller')).toBe(true);
+
+    const ids = listAgents().map(agent => agent.id);
+    expect(ids).toHaveLength(Object.keys(AGENTS).length + 1);
+    expect(ids[ids.length - 1]).toBe('fortune_teller');
+  });
+
+  it('lets a file replace a built-in agent', () => {
+    expect(getAgent('joke').name).toBe('Pun Machine');
+    expect(listAgents().find(agent => agent.id === 'joke')?.name).toBe(
+      'Pun Machine',
+    );
+    expect(AGENTS.joke.name).not.toBe('Pun Machine');
+  });
+
+  it('keeps the built-in validation policy unless the file sets one', () => {
+    expect(getAgent('account_support').name).toBe('Account Desk');
+    expect(getAgent('account_support').validationPolicy).toEqual(
+      AGENTS.account_support.validationPolicy,
+    );
+    expect(
+      listAgents().find(agent => agent.id === 'account_support')
+        ?.validationPolicy,
+    ).toEqual(AGENTS.account_support.validationPolicy);
+  });
+
+  it('does not treat object prototype keys as agents', () => {
+    expect(isAgentType('constructor')).toBe(false);
+    expect(() => getAgent('toString')).toThrow(
+      "Agent type 'toString' not found",
+    );
+  });
+});
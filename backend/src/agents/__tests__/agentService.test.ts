@@ -1,11 +1,17 @@
 import { AgentService } from '../agentService';
 import { classifyMessage } from '../classifier';
 import { getAgent } from '../config';
+import { agentLoader } from '../agentLoader';
 import { ConversationManager } from '../conversationManager';
 import { GoalSeekingSystem } from '../goalSeekingSystem';
 import { routeMessage } from '../router';
-import { AgentType } from '../types';
+import { AgentId, DEFAULT_CANNED_RESPONSE } from '../types';
+import { MEMORY_HEADING } from '../userMemory';
 import { Message } from '../../types';
+import { BLOCKED_OUTPUT_MESSAGE } from '../../moderation/moderation';
+import { MockProvider, parseMockScript } from '../../llm/mockProvider';
+import { usageService } from '../../usage/usageService';
+import { DEFAULT_MOCK_SCRIPTS } from '../../llm/mockScripts';
 import {
   createAgentSpan,
   createValidationSpan,
@@ -19,7 +25,11 @@ jest.mock('../classifier');
 jest.mock('../config');
 jest.mock('../conversationManager');
 jest.mock('../goalSeekingSystem');
-jest.mock('../ragService');
+// Keep the real prompt helpers; only the content service is replaced.
+jest.mock('../ragService', () => ({
+  ...jest.requireActual('../ragService'),
+  ragService: {},
+}));
 jest.mock('../dndService');
 jest.mock('../../validation/responseValidator');
 jest.mock('../jokeLearningSystem');
@@ -33,6 +43,7 @@ jest.mock('../../llm', () => ({
     resolve: jest.fn(),
   },
 }));
+jest.mock('../../usage/usageService');
 jest.mock('../../tools', () => ({
   toolRegistry: {
     getForAgent: jest.fn().mockReturnValue([]),
@@ -96,6 +107,7 @@ const mockGoalSeekingSystem = {
 
 const mockRagService = {
   searchForAgent: jest.fn(),
+  retrieveForAgent: jest.fn(),
   getContentForAgent: jest.fn(),
 } as any;
 
@@ -111,12 +123,19 @@ const mockDndService = {
 
 const mockResponseValidator = {
   validateResponse: jest.fn(),
+  evaluateResponse: jest.fn(),
+  recordDecision: jest.fn(),
 } as any;
 
 const mockJokeLearningSystem = {
   generateAdaptivePrompt: jest.fn(),
 } as any;
 
+const mockUserMemoryService = {
+  recall: jest.fn(),
+  remember: jest.fn(),
+} as any;
+
 const mockSpan = {
   setAttributes: jest.fn(),
   setAttribute: jest.fn(),
@@ -154,13 +173,17 @@ Object.defineProperty(require('../jokeLearningSystem'), 'jokeLearningSystem', {
   value: mockJokeLearningSystem,
   writable: true,
 });
+Object.defineProperty(require('../userMemory'), 'userMemoryService', {
+  value: mockUserMemoryService,
+  writable: true,
+});
 
 // Helper to build a fresh ConversationContext in the NEW shape (no handoff
 // flags). Test authors can override any field they care about.
 function makeContext(overrides: Partial<any> = {}): any {
   return {
     userId: 'test-user',
-    currentAgent: 'general' as AgentType,
+    currentAgent: 'general' as AgentId,
     conversationTopic: 'general',
     lastMessageTime: new Date(),
     messageCount: 0,
@@ -236,7 +259,7 @@ describe('AgentService', () => {
     mockEndSpan.mockReturnValue(undefined);
 
     mockClassifyMessage.mockResolvedValue({
-      agentType: 'joke' as AgentType,
+      agentType: 'joke' as AgentId,
       confidence: 0.9,
       reasoning: 'User wants a joke',
     });
@@ -244,7 +267,7 @@ describe('AgentService', () => {
     mockGetAgent.mockReturnValue({
       id: 'joke',
       name: 'Adaptive Joke Master',
-      type: 'joke' as AgentType,
+      type: 'joke' as AgentId,
       description: 'Comedy agent for jokes',
       systemPrompt: 'You are a joke master',
       model: 'gpt-3.5-turbo',
@@ -258,26 +281,34 @@ describe('AgentService', () => {
     });
 
     mockRagService.getContentForAgent.mockReturnValue('Sample RAG content');
+    mockRagService.retrieveForAgent.mockResolvedValue([]);
 
     mockResponseValidator.validateResponse.mockReturnValue({
       issues: [],
     });
+    // No judge in these tests: evaluation is the heuristic result.
+    mockResponseValidator.evaluateResponse.mockImplementation(
+      async (...args: unknown[]) =>
+        mockResponseValidator.validateResponse(...args),
+    );
 
     mockJokeLearningSystem.generateAdaptivePrompt.mockReturnValue(
       'Adaptive joke prompt',
     );
 
+    mockUserMemoryService.recall.mockResolvedValue([]);
+    mockUserMemoryService.remember.mockResolvedValue([]);
+
     mockConversationManager.getContext.mockReturnValue(null);
     mockConversationManager.initializeContext.mockImplementation(
-      (_userId: string, agent: AgentType = 'general') =>
+      (_userId: string, agent: AgentId = 'general') =>
         makeContext({ currentAgent: agent }),
     );
     mockConversationManager.completeHandoff.mockImplementation(
-      (_userId: string, agent: AgentType) =>
-        makeContext({ currentAgent: agent }),
+      (_userId: string, agent: AgentId) => makeContext({ currentAgent: agent }),
     );
     mockConversationManager.updateContext.mockImplementation(
-      (_userId: string, _msg: string, _resp: string, agent: AgentType) =>
+      (_userId: string, _msg: string, _resp: string, agent: AgentId) =>
         makeContext({ currentAgent: agent }),
     );
 
@@ -359,7 +390,10 @@ describe('AgentService', () => {
         confidence: 0.9,
       });
 
-      expect(mockClassifyMessage).toHaveBeenCalledWith('Tell me a joke');
+      expect(mockClassifyMessage).toHaveBeenCalledWith('Tell me a joke', {
+        tier: undefined,
+        usage: undefined,
+      });
       expect(mockGetAgent).toHaveBeenCalledWith('joke');
       expect(mockOpenAI.chat.completions.create).toHaveBeenCalled();
     });
@@ -375,7 +409,7 @@ describe('AgentService', () => {
       mockGetAgent.mockReturnValue({
         id: 'trivia',
         name: 'Trivia Master',
-        type: 'trivia' as AgentType,
+        type: 'trivia' as AgentId,
         description: 'Educational trivia agent',
         systemPrompt: 'You are a trivia master',
         model: 'gpt-3.5-turbo',
@@ -394,16 +428,25 @@ describe('AgentService', () => {
       expect(mockGetAgent).toHaveBeenCalledWith('trivia');
     });
 
-    it('should generate demo response when no API key', async () => {
+    it('should answer from the mock provider when no API key', async () => {
       delete process.env.OPENAI_API_KEY;
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({
+        provider: new MockProvider(DEFAULT_MOCK_SCRIPTS, {
+          latencyMs: 0,
+          chunkDelayMs: 0,
+        }),
+      });
 
       const result = await testAgentService.processMessage(
         'Tell me a joke',
         [],
       );
 
-      // The demo response uses RAG content first, then falls back to agent name
-      expect(result.content).toContain('😄');
+      // No curated jokes are retrieved, so the script's own joke is used
+      expect(result.content).toBe(
+        "Why don't scientists trust atoms? Because they make up everything!",
+      );
       expect(result.agentUsed).toBe('joke');
       expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
     });
@@ -421,6 +464,66 @@ describe('AgentService', () => {
       expect(result.agentUsed).toBe('joke');
     });
 
+    it("should record the provider's usage for the conversation owner", async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Knock knock' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 8 },
+      });
+
+      await testAgentService.processMessage(
+        'Tell me a joke',
+        [],
+        undefined,
+        'conv-123',
+        'socket-1',
+        undefined,
+        { ownerId: 'user-123' },
+      );
+
+      expect(usageService.record).toHaveBeenCalledWith(
+        { userId: 'user-123', conversationId: 'conv-123', agentType: 'joke' },
+        expect.any(String),
+        'gpt-3.5-turbo',
+        { input: 120, output: 8 },
+      );
+    });
+
+    it('should charge usage to the provider that answered after a failover', async () => {
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({
+        provider: {
+          id: 'anthropic',
+          async *stream() {
+            yield { type: 'text_delta', text: 'Knock knock' };
+            yield {
+              type: 'done',
+              usage: { input: 120, output: 8 },
+              provider: 'openai',
+              model: 'gpt-4o-mini',
+            };
+          },
+        },
+      });
+
+      await testAgentService.processMessage(
+        'Tell me a joke',
+        [],
+        undefined,
+        'conv-123',
+        'socket-1',
+        undefined,
+        { ownerId: 'user-123' },
+      );
+
+      expect(usageService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123' }),
+        'openai',
+        'gpt-4o-mini',
+        { input: 120, output: 8 },
+      );
+    });
+
     it('should handle conversation history correctly', async () => {
       process.env.OPENAI_API_KEY = 'test-key';
 
@@ -455,7 +558,7 @@ describe('AgentService', () => {
       expect(callArgs.messages[3].content).toBe('Follow up');
     });
 
-    it('should limit conversation history to last 10 messages', async () => {
+    it('should keep the whole history when it fits the token budget', async () => {
       process.env.OPENAI_API_KEY = 'test-key';
 
       mockOpenAI.chat.completions.create.mockResolvedValue({
@@ -463,7 +566,7 @@ describe('AgentService', () => {
         usage: { total_tokens: 30 },
       });
 
-      // Create 15 messages
+      // Create 15 messages; the old fixed window would have cut this to 10
       const history: Message[] = Array.from({ length: 15 }, (_, i) => ({
         id: `${i + 1}`,
         role: i % 2 === 0 ? 'user' : 'assistant',
@@ -472,12 +575,60 @@ describe('AgentService', () => {
         conversationId: 'conv-123',
       }));
 
-      await testAgentService.processMessage('Current message', history);
+      const result = await testAgentService.processMessage(
+        'Current message',
+        history,
+      );
 
       const callArgs = mockOpenAI.chat.completions.create.mock.calls[0][0];
-      // Should have: 1 system + 10 history + 1 current = 12 total
-      expect(callArgs.messages).toHaveLength(12);
-      expect(callArgs.messages[1].content).toBe('Message 6'); // Should start from message 6
+      // 1 system + 15 history + 1 current
+      expect(callArgs.messages).toHaveLength(17);
+      expect(callArgs.messages[1].content).toBe('Message 1');
+      expect(callArgs.messages[0].content).toBe('You are a joke master');
+      expect(result.summary).toBeUndefined();
+    });
+
+    it('should fold older turns into a rolling summary when over budget', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '400';
+
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Response' } }],
+        usage: { total_tokens: 30 },
+      });
+
+      const history: Message[] = Array.from({ length: 40 }, (_, i) => ({
+        id: `${i + 1}`,
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i + 1} ${'with some padding '.repeat(3)}`,
+        timestamp: new Date(),
+        conversationId: 'conv-123',
+      }));
+
+      try {
+        const result = await testAgentService.processMessage(
+          'Current message',
+          history,
+        );
+
+        const callArgs = mockOpenAI.chat.completions.create.mock.calls[0][0];
+        const sent = callArgs.messages.slice(1, -1);
+        expect(sent.length).toBeLessThan(40);
+        expect(sent[sent.length - 1].content).toContain('Message 40');
+        expect(callArgs.messages[callArgs.messages.length - 1].content).toBe(
+          'Current message',
+        );
+        expect(callArgs.messages[0].content).toContain(
+          'Summary of the earlier conversation:',
+        );
+        expect(result.summary).toEqual({
+          content: expect.stringContaining('Assistant: Message'),
+          throughMessageId: `${40 - sent.length}`,
+          updatedAt: expect.any(Date),
+        });
+      } finally {
+        delete process.env.CONTEXT_MAX_INPUT_TOKENS;
+      }
     });
 
     it('should use adaptive prompt for joke agent with userId', async () => {
@@ -502,6 +653,136 @@ describe('AgentService', () => {
       ).toHaveBeenCalledWith(userId, 'You are a joke master');
     });
 
+    it('should ground the reply in curated content and record what it used', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      mockRagService.retrieveForAgent.mockResolvedValue([
+        {
+          id: 'joke_002',
+          type: 'joke',
+          content: 'What do you call a fake noodle? An impasta!',
+          tags: ['food'],
+        },
+        {
+          id: 'joke_010',
+          type: 'joke',
+          content: "Why don't eggs tell jokes? They'd crack each other up!",
+          tags: ['eggs'],
+        },
+      ]);
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content:
+                'Here is one: what do you call a fake noodle? An impasta! 🍝',
+            },
+          },
+        ],
+        usage: { total_tokens: 25 },
+      });
+
+      const result = await testAgentService.processMessage(
+        'Tell me a food joke',
+        [],
+        'joke',
+      );
+
+      expect(mockRagService.retrieveForAgent).toHaveBeenCalledWith(
+        'joke',
+        'Tell me a food joke',
+      );
+      const system =
+        mockOpenAI.chat.completions.create.mock.calls[0][0].messages[0].content;
+      expect(system).toContain(
+        '- [joke_002] What do you call a fake noodle? An impasta!',
+      );
+      expect(system).toContain('[joke_010]');
+      expect(result.ragContentIds).toEqual(['joke_002']);
+    });
+
+    it('should not record curated content when none was retrieved', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'How can I help?' } }],
+        usage: { total_tokens: 5 },
+      });
+
+      const result = await testAgentService.processMessage(
+        'Hello',
+        [],
+        'general',
+      );
+
+      const system =
+        mockOpenAI.chat.completions.create.mock.calls[0][0].messages[0].content;
+      expect(system).not.toContain('Curated content');
+      expect(result).not.toHaveProperty('ragContentIds');
+    });
+
+    it('should add the owner memories to the system prompt and remember new ones', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Try some Coltrane' } }],
+        usage: { total_tokens: 25 },
+      });
+      mockUserMemoryService.recall.mockResolvedValue([
+        {
+          id: 'mem-1',
+          userId: 'anon_abc',
+          kind: 'preference',
+          key: 'favorite:music_genre',
+          content: 'Favorite music genre: jazz',
+          agentType: 'music_guru',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      await testAgentService.processMessage(
+        'Recommend something',
+        [],
+        'music_guru',
+        'conv-123',
+        'socket-1',
+        undefined,
+        { ownerId: 'anon_abc' },
+      );
+
+      expect(mockUserMemoryService.recall).toHaveBeenCalledWith(
+        'anon_abc',
+        'music_guru',
+      );
+      const system =
+        mockOpenAI.chat.completions.create.mock.calls[0][0].messages[0].content;
+      expect(system).toContain(MEMORY_HEADING);
+      expect(system).toContain('- Favorite music genre: jazz');
+      expect(mockUserMemoryService.remember).toHaveBeenCalledWith(
+        'anon_abc',
+        'Recommend something',
+        'music_guru',
+        'conv-123',
+      );
+    });
+
+    it('should leave memory alone without an owner id', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Hi' } }],
+        usage: { total_tokens: 5 },
+      });
+
+      await testAgentService.processMessage(
+        'My name is Sam',
+        [],
+        undefined,
+        'conv-123',
+        'socket-1',
+      );
+
+      expect(mockUserMemoryService.recall).not.toHaveBeenCalled();
+      expect(mockUserMemoryService.remember).not.toHaveBeenCalled();
+    });
+
     it('should validate response when conversationId and userId provided', async () => {
       process.env.OPENAI_API_KEY = 'test-key';
 
@@ -525,6 +806,48 @@ describe('AgentService', () => {
         'conv-123',
         'user-123',
         false,
+        { runId: expect.any(String), attempt: 0, action: 'initial' },
+      );
+      expect(mockResponseValidator.recordDecision).toHaveBeenCalledWith(
+        expect.any(String),
+        'accepted',
+      );
+    });
+
+    it('should validate a reply without a conversation when asked to', async () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Test response' } }],
+        usage: { total_tokens: 20 },
+      });
+
+      await testAgentService.processMessage(
+        'Test',
+        [],
+        undefined,
+        undefined,
+        'user-123',
+      );
+      expect(mockResponseValidator.validateResponse).not.toHaveBeenCalled();
+
+      await testAgentService.processMessage(
+        'Test',
+        [],
+        undefined,
+        undefined,
+        'user-123',
+        undefined,
+        { validate: true },
+      );
+      expect(mockResponseValidator.validateResponse).toHaveBeenCalledWith(
+        'joke',
+        'Test',
+        'Test response',
+        '',
+        'user-123',
+        false,
+        { runId: expect.any(String), attempt: 0, action: 'initial' },
       );
     });
 
@@ -554,6 +877,740 @@ describe('AgentService', () => {
     });
   });
 
+  describe('streaming', () => {
+    // Scripted fake provider: yields the given events in order, optionally
+    // pausing before each one so the test can observe relay timing.
+    const scriptedProvider = (
+      events: Array<{ evt: any; delayMs?: number }>,
+    ): any => ({
+      id: 'anthropic',
+      stream: jest.fn(async function* () {
+        for (const { evt, delayMs } of events) {
+          if (delayMs) {
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+          }
+          yield evt;
+        }
+      }),
+    });
+
+    // Scripted multi-turn provider: each stream() call plays the next turn.
+    const scriptedTurns = (turns: any[][]): any => {
+      let call = 0;
+      return {
+        id: 'anthropic',
+        stream: jest.fn(async function* () {
+          const turn = turns[Math.min(call, turns.length - 1)];
+          call++;
+          yield* turn;
+        }),
+      };
+    };
+
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-key';
+    });
+
+    it('should relay each text_delta to onTextDelta as it arrives', async () => {
+      const received: Array<{ text: string; at: number }> = [];
+      const provider = scriptedProvider([
+        { evt: { type: 'text_delta', text: 'Why did ' } },
+        { evt: { type: 'text_delta', text: 'the chicken ' }, delayMs: 20 },
+        { evt: { type: 'text_delta', text: 'cross?' }, delayMs: 20 },
+        { evt: { type: 'done', usage: { input: 10, output: 3 } } },
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      const start = Date.now();
+      const result = await testAgentService.processMessage(
+        'Tell me a joke',
+        [],
+        'joke',
+        undefined,
+        undefined,
+        undefined,
+        { onTextDelta: text => received.push({ text, at: Date.now() }) },
+      );
+      const finished = Date.now();
+
+      expect(received.map(r => r.text)).toEqual([
+        'Why did ',
+        'the chicken ',
+        'cross?',
+      ]);
+      // The first fragment is relayed before the provider finishes.
+      expect(received[0].at - start).toBeLessThan(finished - start);
+      expect(result.content).toBe('Why did the chicken cross?');
+    });
+
+    it('should record time to first token from the provider stream', async () => {
+      const { metricsEmit } = require('../../metrics/prometheus');
+      const ttftSpy = jest.spyOn(metricsEmit.llm, 'timeToFirstToken');
+      const provider = scriptedProvider([
+        { evt: { type: 'text_delta', text: 'Hello' }, delayMs: 30 },
+        { evt: { type: 'text_delta', text: ' there' } },
+        { evt: { type: 'done' } },
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      await testAgentService.processMessage('Hi', [], 'joke');
+
+      expect(ttftSpy).toHaveBeenCalledTimes(1);
+      const [providerId, model, seconds] = ttftSpy.mock.calls[0];
+      expect(providerId).toBe('anthropic');
+      expect(model).toBe('gpt-3.5-turbo');
+      expect(seconds).toBeGreaterThanOrEqual(0.025);
+    });
+
+    it('should stream text from every turn of the tool loop', async () => {
+      const { toolRegistry } = require('../../tools');
+      toolRegistry.get.mockReturnValue({
+        execute: jest.fn().mockResolvedValue({
+          attachment: {
+            id: 'd1',
+            type: 'dice',
+            notation: 'd20',
+            rolls: [7],
+            total: 7,
+          },
+        }),
+      });
+      const provider = scriptedTurns([
+        [
+          { type: 'text_delta', text: 'Rolling...' },
+          { type: 'tool_call', id: 'call_1', name: 'roll_dice', input: {} },
+          { type: 'done' },
+        ],
+        [{ type: 'text_delta', text: 'A 7. Ouch.' }, { type: 'done' }],
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+      const onTextDelta = jest.fn();
+
+      const result = await testAgentService.processMessage(
+        'roll a d20',
+        [],
+        'joke',
+        undefined,
+        undefined,
+        undefined,
+        { onTextDelta },
+      );
+
+      expect(onTextDelta.mock.calls.map(c => c[0])).toEqual([
+        'Rolling...',
+        '\n\nA 7. Ouch.',
+      ]);
+      expect(result.content).toBe('Rolling...\n\nA 7. Ouch.');
+      toolRegistry.get.mockReturnValue(null);
+    });
+
+    it('should notify onHandoff before dispatching to the new agent', async () => {
+      const order: string[] = [];
+      mockConversationManager.getContext.mockReturnValue(
+        makeContext({ currentAgent: 'joke', messageCount: 3 }),
+      );
+      mockRouteMessage.mockResolvedValueOnce({
+        selectedAgent: 'trivia',
+        handoff: true,
+        confidence: 0.9,
+        reason: 'keyword intent match: trivia',
+        source: 'keyword',
+      });
+      const provider = scriptedProvider([
+        { evt: { type: 'text_delta', text: 'Fact!' } },
+        { evt: { type: 'done' } },
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      await testAgentService.processMessageWithConversation(
+        'test-user',
+        'tell me a fact',
+        [],
+        'conv-123',
+        undefined,
+        {
+          onHandoff: handoff => order.push(`handoff:${handoff.target}`),
+          onTextDelta: text => order.push(`text:${text}`),
+        },
+      );
+
+      expect(order).toEqual(['handoff:trivia', 'text:Fact!']);
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-key';
+    });
+
+    it('should stop streaming and return the partial text when aborted', async () => {
+      const controller = new AbortController();
+      const provider = {
+        id: 'anthropic',
+        stream: jest.fn(async function* () {
+          yield { type: 'text_delta', text: 'Once upon' };
+          controller.abort();
+          yield { type: 'text_delta', text: ' a time' };
+          yield { type: 'done' };
+        }),
+      };
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+      const onTextDelta = jest.fn();
+
+      const result = await testAgentService.processMessage(
+        'tell me a story',
+        [],
+        'joke',
+        'conv-123',
+        'test-user',
+        undefined,
+        { onTextDelta, signal: controller.signal },
+      );
+
+      expect(provider.stream).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal }),
+      );
+      expect(onTextDelta.mock.calls.map(c => c[0])).toEqual(['Once upon']);
+      expect(result.content).toBe('Once upon');
+      expect(result.cancelled).toBe(true);
+      expect(mockResponseValidator.validateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should treat a provider abort error as a cancellation', async () => {
+      const controller = new AbortController();
+      const provider = {
+        id: 'anthropic',
+        stream: jest.fn(async function* () {
+          yield { type: 'text_delta', text: 'Partial' };
+          controller.abort();
+          throw new Error('Request was aborted.');
+        }),
+      };
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      const result = await testAgentService.processMessage(
+        'hi',
+        [],
+        'joke',
+        undefined,
+        undefined,
+        undefined,
+        { signal: controller.signal },
+      );
+
+      expect(result.content).toBe('Partial');
+      expect(result.cancelled).toBe(true);
+    });
+
+    it('should abandon a pending tool call and skip the next turn', async () => {
+      const { toolRegistry } = require('../../tools');
+      const controller = new AbortController();
+      toolRegistry.get.mockReturnValue({
+        execute: jest.fn(() => {
+          setTimeout(() => controller.abort(), 10);
+          return new Promise(() => undefined);
+        }),
+      });
+      const provider = {
+        id: 'anthropic',
+        stream: jest.fn(async function* () {
+          yield { type: 'text_delta', text: 'Rolling...' };
+          yield {
+            type: 'tool_call',
+            id: 'call_1',
+            name: 'roll_dice',
+            input: {},
+          };
+          yield { type: 'done' };
+        }),
+      };
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await testAgentService.processMessage(
+        'roll a d20',
+        [],
+        'joke',
+        undefined,
+        undefined,
+        undefined,
+        { signal: controller.signal },
+      );
+
+      expect(provider.stream).toHaveBeenCalledTimes(1);
+      expect(result.content).toBe('Rolling...');
+      expect(result.cancelled).toBe(true);
+      expect(result.attachments).toBeUndefined();
+      toolRegistry.get.mockReturnValue(null);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('tool-calling loop', () => {
+    const { toolRegistry } = require('../../tools');
+
+    // Each stream() call plays the next scripted turn; the message list is
+    // snapshotted per call because the loop keeps appending to it.
+    const scriptedTurns = (turns: any[][]) => {
+      const seenMessages: any[][] = [];
+      const provider = {
+        id: 'anthropic',
+        stream: jest.fn(async function* (opts: any) {
+          seenMessages.push([...opts.messages]);
+          const turn =
+            turns[Math.min(seenMessages.length - 1, turns.length - 1)];
+          yield* turn;
+        }),
+      };
+      return { provider, seenMessages };
+    };
+
+    const diceTool = {
+      execute: jest.fn().mockResolvedValue({
+        attachment: {
+          id: 'att-1',
+          type: 'dice',
+          notation: 'd20',
+          rolls: [17],
+          total: 17,
+          purpose: 'Attack roll',
+        },
+      }),
+    };
+
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      toolRegistry.get.mockImplementation((name: string) =>
+        name === 'roll_dice' ? diceTool : null,
+      );
+    });
+
+    afterEach(() => {
+      toolRegistry.get.mockReturnValue(null);
+    });
+
+    it('should feed tool results back and return the follow-up answer', async () => {
+      const { provider, seenMessages } = scriptedTurns([
+        [
+          {
+            type: 'tool_call',
+            id: 'call_1',
+            name: 'roll_dice',
+            input: { notation: 'd20', purpose: 'Attack roll' },
+          },
+          { type: 'done' },
+        ],
+        [
+          { type: 'text_delta', text: 'A 17 — your blade finds its mark!' },
+          { type: 'done' },
+        ],
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      const result = await testAgentService.processMessage(
+        'I attack the goblin',
+        [],
+        'dnd_master',
+      );
+
+      expect(provider.stream).toHaveBeenCalledTimes(2);
+      expect(diceTool.execute).toHaveBeenCalledWith(
+        { notation: 'd20', purpose: 'Attack roll' },
+        { conversationId: undefined, userId: undefined },
+      );
+
+      const secondTurn = seenMessages[1];
+      expect(secondTurn).toHaveLength(3);
+      expect(secondTurn[1]).toEqual({
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_1',
+            name: 'roll_dice',
+            input: { notation: 'd20', purpose: 'Attack roll' },
+          },
+        ],
+      });
+      expect(secondTurn[2].role).toBe('tool');
+      expect(secondTurn[2].tool_call_id).toBe('call_1');
+      const toolPayload = JSON.parse(secondTurn[2].content);
+      expect(toolPayload[0].attachment).toMatchObject({
+        type: 'dice',
+        total: 17,
+      });
+      expect(toolPayload[0].attachment.id).toBeUndefined();
+
+      expect(result.content).toBe('A 17 — your blade finds its mark!');
+      expect(result.attachments).toHaveLength(1);
+      expect(result.attachments?.[0]).toMatchObject({ type: 'dice' });
+    });
+
+    it('should run tools for the conversation and pass their data to the model only', async () => {
+      diceTool.execute.mockResolvedValueOnce({
+        attachment: {
+          id: 'att-2',
+          type: 'card',
+          kind: 'game_score',
+          title: '20 Questions',
+          fields: [],
+        },
+        data: { secret: 'penguin' },
+      });
+      const { provider, seenMessages } = scriptedTurns([
+        [
+          { type: 'tool_call', id: 'call_1', name: 'roll_dice', input: {} },
+          { type: 'done' },
+        ],
+        [
+          { type: 'text_delta', text: "I'm thinking of an animal." },
+          { type: 'done' },
+        ],
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      const result = await testAgentService.processMessage(
+        "Let's play 20 questions",
+        [],
+        'dnd_master',
+        'conv-123',
+        'user-123',
+      );
+
+      expect(diceTool.execute).toHaveBeenCalledWith(
+        {},
+        { conversationId: 'conv-123', userId: 'user-123' },
+      );
+      const toolPayload = JSON.parse(seenMessages[1][2].content);
+      expect(toolPayload[0].data).toEqual({ secret: 'penguin' });
+      expect(result.content).not.toContain('penguin');
+      expect(result.attachments?.[0]).not.toHaveProperty('data');
+    });
+
+    it('should stop after the agent maxToolIterations', async () => {
+      mockGetAgent.mockReturnValue({
+        id: 'dnd_master',
+        name: 'D&D Master',
+        type: 'dnd_master' as AgentId,
+        description: 'RPG agent',
+        systemPrompt: 'You are a dungeon master',
+        model: 'claude-sonnet-4-6',
+        maxTokens: 500,
+        temperature: 0.8,
+        tools: ['roll_dice'],
+        maxToolIterations: 2,
+      });
+      const { provider } = scriptedTurns([
+        [
+          { type: 'tool_call', id: 'call_n', name: 'roll_dice', input: {} },
+          { type: 'done' },
+        ],
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+
+      const result = await testAgentService.processMessage(
+        'roll forever',
+        [],
+        'dnd_master',
+      );
+
+      // Two tool rounds plus the final turn whose calls are ignored.
+      expect(provider.stream).toHaveBeenCalledTimes(3);
+      expect(diceTool.execute).toHaveBeenCalledTimes(2);
+      expect(result.attachments).toHaveLength(2);
+      expect(result.content).toBe('Here you go:');
+    });
+
+    it('should report tool failures to the model instead of aborting', async () => {
+      diceTool.execute.mockRejectedValueOnce(new Error('dice fell off table'));
+      const { provider, seenMessages } = scriptedTurns([
+        [
+          { type: 'tool_call', id: 'call_1', name: 'roll_dice', input: {} },
+          { type: 'done' },
+        ],
+        [
+          { type: 'text_delta', text: 'The dice rolled away, try again!' },
+          { type: 'done' },
+        ],
+      ]);
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({ provider });
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await testAgentService.processMessage(
+        'roll',
+        [],
+        'dnd_master',
+      );
+
+      expect(JSON.parse(seenMessages[1][2].content).error).toContain(
+        'dice fell off table',
+      );
+      expect(result.content).toBe('The dice rolled away, try again!');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('validation policy', () => {
+    const highSeverity = {
+      type: 'appropriateness',
+      severity: 'high',
+      message: 'Response contains inappropriate language',
+      suggestion: 'Use professional and respectful language',
+    };
+
+    const reply = (content: string) => ({
+      choices: [{ message: { content } }],
+    });
+
+    const process = () =>
+      testAgentService.processMessage(
+        'Help me',
+        [],
+        undefined,
+        'conv-123',
+        'user-123',
+      );
+
+    const loggedAttempts = () =>
+      mockResponseValidator.validateResponse.mock.calls.map(
+        (call: any[]) => call[6],
+      );
+
+    beforeEach(() => {
+      global.process.env.OPENAI_API_KEY = 'test-key';
+      // Anything rude fails with a high-severity issue.
+      mockResponseValidator.validateResponse.mockImplementation(
+        (_agent: AgentId, _message: string, response: string) => ({
+          issues: /shut up/i.test(response) ? [highSeverity] : [],
+        }),
+      );
+    });
+
+    it('should regenerate with the validator suggestions as corrections', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(reply('Shut up and read the docs.'))
+        .mockResolvedValueOnce(reply('Happy to help, here is what to do.'));
+
+      const result = await process();
+
+      expect(result.content).toBe('Happy to help, here is what to do.');
+      const retry = mockOpenAI.chat.completions.create.mock.calls[1][0];
+      expect(retry.toolChoice).toBe('none');
+      expect(retry.messages[0].content).toContain(
+        '- Response contains inappropriate language (Use professional and respectful language)',
+      );
+      expect(loggedAttempts()).toEqual([
+        expect.objectContaining({ attempt: 0, action: 'initial' }),
+        expect.objectContaining({
+          attempt: 1,
+          action: 'regenerate',
+          provider: 'openai',
+          model: 'gpt-3.5-turbo',
+        }),
+      ]);
+      expect(mockResponseValidator.recordDecision).toHaveBeenCalledWith(
+        loggedAttempts()[0].runId,
+        'accepted',
+      );
+      expect(mockAddSpanEvent).toHaveBeenCalledWith(
+        mockSpan,
+        'validation.decision',
+        { decision: 'accepted', attempts: 2, action: 'regenerate' },
+      );
+    });
+
+    it('should retry on the fallback provider and model', async () => {
+      const fallbackProvider = {
+        id: 'anthropic',
+        stream: jest.fn(async function* () {
+          yield { type: 'text_delta', text: 'Here is a calm answer.' };
+        }),
+      };
+      mockGetAgent.mockReturnValue({
+        ...mockGetAgent('joke'),
+        validationPolicy: {
+          steps: ['fallback'],
+          maxAttempts: 1,
+          fallbackProvider: 'anthropic',
+          fallbackModel: 'claude-sonnet-4-6',
+        },
+      });
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockImplementation((id?: string) =>
+        id === 'anthropic'
+          ? { provider: fallbackProvider }
+          : { provider: mockProvider },
+      );
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply('Shut up.'));
+
+      const result = await process();
+
+      expect(result.content).toBe('Here is a calm answer.');
+      expect(fallbackProvider.stream).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude-sonnet-4-6' }),
+      );
+      expect(loggedAttempts()[1]).toMatchObject({
+        action: 'fallback',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-6',
+      });
+    });
+
+    it('should fall back to the canned response once retries are spent', async () => {
+      mockGetAgent.mockReturnValue({
+        ...mockGetAgent('joke'),
+        validationPolicy: {
+          steps: ['regenerate', 'regenerate', 'regenerate', 'canned'],
+          maxAttempts: 2,
+          cannedResponse: 'Let me get a human to help with that.',
+        },
+      });
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply('Shut up.'));
+
+      const result = await process();
+
+      expect(result.content).toBe('Let me get a human to help with that.');
+      // The original reply plus maxAttempts corrections, never more.
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(3);
+      expect(loggedAttempts().map((a: any) => a.action)).toEqual([
+        'initial',
+        'regenerate',
+        'regenerate',
+        'canned',
+      ]);
+      expect(mockResponseValidator.recordDecision).toHaveBeenCalledWith(
+        expect.any(String),
+        'canned',
+      );
+    });
+
+    it('should send the last reply when the policy is exhausted', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(reply('Shut up.'));
+
+      const result = await process();
+
+      expect(result.content).toBe('Shut up.');
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+      expect(mockResponseValidator.recordDecision).toHaveBeenCalledWith(
+        expect.any(String),
+        'exhausted',
+      );
+    });
+
+    it('should move on to the next step when a retry fails', async () => {
+      mockGetAgent.mockReturnValue({
+        ...mockGetAgent('joke'),
+        validationPolicy: { steps: ['regenerate', 'canned'], maxAttempts: 1 },
+      });
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(reply('Shut up.'))
+        .mockRejectedValueOnce(new Error('rate limited'));
+
+      const result = await process();
+
+      expect(result.content).toBe(DEFAULT_CANNED_RESPONSE);
+      expect(mockAddSpanEvent).toHaveBeenCalledWith(
+        mockSpan,
+        'validation.attempt_failed',
+        { attempt: 1, action: 'regenerate', error: 'rate limited' },
+      );
+      expect(loggedAttempts().map((a: any) => a.attempt)).toEqual([0, 2]);
+    });
+
+    it('should apply the policy to scripted replies too', async () => {
+      delete global.process.env.OPENAI_API_KEY;
+      const { providerRegistry } = require('../../llm');
+      providerRegistry.resolve.mockReturnValue({
+        provider: new MockProvider(
+          [parseMockScript({ name: 'rude', turns: [{ text: 'Shut up.' }] })],
+          { latencyMs: 0, chunkDelayMs: 0 },
+        ),
+      });
+      mockGetAgent.mockReturnValue({
+        ...mockGetAgent('joke'),
+        validationPolicy: { steps: ['regenerate', 'canned'], maxAttempts: 1 },
+      });
+
+      const result = await process();
+
+      expect(result.content).toBe(DEFAULT_CANNED_RESPONSE);
+      expect(loggedAttempts().map((a: any) => a.action)).toEqual([
+        'initial',
+        'regenerate',
+        'canned',
+      ]);
+    });
+  });
+
+  describe('output moderation', () => {
+    const reply = (content: string) => ({
+      choices: [{ message: { content } }],
+    });
+
+    beforeEach(() => {
+      global.process.env.OPENAI_API_KEY = 'test-key';
+      mockResponseValidator.validateResponse.mockReturnValue({ issues: [] });
+    });
+
+    it('should withhold a reply that breaks the content policy', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(
+        reply('Honestly, all immigrants are vermin.'),
+      );
+
+      const result = await testAgentService.processMessage(
+        'Tell me a joke',
+        [],
+        undefined,
+        'conv-123',
+        'user-123',
+        'authenticated',
+      );
+
+      expect(result.blocked).toBe('hate');
+      expect(result.content).toBe(BLOCKED_OUTPUT_MESSAGE);
+      expect(mockAddSpanEvent).toHaveBeenCalledWith(
+        mockSpan,
+        'agent.output_blocked',
+        { category: 'hate' },
+      );
+    });
+
+    it('should redact PII from the reply by tier', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(
+        reply('Write to help@example.com, card 4242 4242 4242 4242.'),
+      );
+      const process = (tier: 'anonymous' | 'authenticated') =>
+        testAgentService.processMessage(
+          'Help me',
+          [],
+          undefined,
+          'conv-123',
+          'user-123',
+          tier,
+        );
+
+      expect((await process('anonymous')).content).toBe(
+        'Write to [REDACTED_EMAIL], card [REDACTED_CARD].',
+      );
+      const result = await process('authenticated');
+      expect(result.content).toBe(
+        'Write to help@example.com, card [REDACTED_CARD].',
+      );
+      expect(result.blocked).toBeUndefined();
+    });
+  });
+
   describe('getAvailableAgents', () => {
     it('should return list of available agents', () => {
       const agents = testAgentService.getAvailableAgents();
@@ -584,6 +1641,43 @@ describe('AgentService', () => {
       expect(agentIds).toContain('account_support');
       expect(agentIds).toContain('billing_support');
     });
+
+    it('should include changes and additions from agent files', () => {
+      const fileAgent = (id: string, name: string) => ({
+        id,
+        type: id,
+        name,
+        description: `${name} from a file`,
+        systemPrompt: 'You are an agent from a file.',
+        model: 'gpt-4o-mini',
+        temperature: 0.7,
+        maxTokens: 1000,
+      });
+      const files = [
+        fileAgent('fortune_teller', 'Fortune Teller'),
+        fileAgent('joke', 'Pun Machine'),
+        fileAgent('youtube_guru', 'Video Finder'),
+      ];
+      jest.spyOn(agentLoader, 'list').mockReturnValue(files);
+      jest
+        .spyOn(agentLoader, 'get')
+        .mockImplementation(id => files.find(agent => agent.id === id));
+
+      try {
+        const agents = testAgentService.getAvailableAgents();
+
+        expect(agents.find(agent => agent.id === 'joke')).toEqual({
+          id: 'joke',
+          name: 'Pun Machine',
+          description: 'Pun Machine from a file',
+        });
+        expect(agents[agents.length - 1].id).toBe('fortune_teller');
+        // Built-ins not listed here stay unlisted when a file replaces them.
+        expect(agents.map(agent => agent.id)).not.toContain('youtube_guru');
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
   });
 
   describe('processMessageWithGoalSeeking', () => {
@@ -602,7 +1696,7 @@ describe('AgentService', () => {
       mockGoalSeekingSystem.generateProactiveActions.mockResolvedValue([
         {
           type: 'entertainment_offer' as const,
-          agentType: 'joke' as AgentType,
+          agentType: 'joke' as AgentId,
           message: 'Want a joke?',
           timing: 'immediate' as const,
         },
@@ -634,13 +1728,13 @@ describe('AgentService', () => {
       mockGoalSeekingSystem.generateProactiveActions.mockResolvedValue([
         {
           type: 'entertainment_offer' as const,
-          agentType: 'joke' as AgentType,
+          agentType: 'joke' as AgentId,
           message: 'Want a joke?',
           timing: 'immediate' as const,
         },
         {
           type: 'technical_check' as const,
-          agentType: 'general' as AgentType,
+          agentType: 'general' as AgentId,
           message: 'Need technical help?',
           timing: 'immediate' as const,
         },
@@ -675,7 +1769,7 @@ describe('AgentService', () => {
     const userId = 'test-user';
     const action = {
       type: 'entertainment_offer' as const,
-      agentType: 'joke' as AgentType,
+      agentType: 'joke' as AgentId,
       message: 'Want to hear a joke?',
       timing: 'immediate' as const,
     };
@@ -757,7 +1851,10 @@ describe('AgentService', () => {
         userId,
         'general',
       );
-      expect(mockRouteMessage).toHaveBeenCalledWith('Hello', 'general', []);
+      expect(mockRouteMessage).toHaveBeenCalledWith('Hello', 'general', [], {
+        tier: undefined,
+        usage: { userId, conversationId: 'conv-123' },
+      });
       expect(mockConversationManager.updateContext).toHaveBeenCalled();
       expect(result.content).toBe('Conversation response');
     });
@@ -779,6 +1876,7 @@ describe('AgentService', () => {
         'Tell me another joke',
         'joke',
         [],
+        expect.objectContaining({ usage: expect.objectContaining({ userId }) }),
       );
       expect(result.agentUsed).toBe('joke');
     });
@@ -1,50 +1,50 @@
-// Mock OpenAI first, before any imports
-const mockOpenAICreate = jest.fn();
-
-// Mock the entire OpenAI module
-jest.mock('openai', () => {
-  return {
-    __esModule: true,
-    default: jest.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: mockOpenAICreate,
-        },
-      },
-    })),
+jest.mock('../../llm', () => ({
+  providerRegistry: { isConfigured: jest.fn(), resolve: jest.fn() },
+}));
+jest.mock('../../usage/usageService');
+
+import {
+  classifyMessage,
+  CLASSIFIER_USAGE_AGENT,
+  parseClassification,
+} from '../classifier';
+import { AgentId, MessageClassification } from '../types';
+import { providerRegistry } from '../../llm';
+import { LLMProvider, LLMStreamOptions } from '../../llm/provider';
+import { usageService } from '../../usage/usageService';
+
+const mockIsConfigured = providerRegistry.isConfigured as jest.Mock;
+const mockResolve = providerRegistry.resolve as jest.Mock;
+
+// Fake provider: records each request and streams back `reply` in two
+// chunks, or an error when there is none.
+const fakeProvider = (reply: string | null) => {
+  const requests: LLMStreamOptions[] = [];
+  const provider: LLMProvider = {
+    id: 'openai',
+    async *stream(opts) {
+      requests.push(opts);
+      if (reply === null) {
+        yield { type: 'error', error: 'API Error' };
+        return;
+      }
+      yield { type: 'text_delta', text: reply.slice(0, 10) };
+      yield { type: 'text_delta', text: reply.slice(10) };
+      yield { type: 'done', usage: { input: 120, output: 30 } };
+    },
   };
-});
-
-import { classifyMessage } from '../classifier';
-import { AgentType, MessageClassification } from '../types';
+  return { provider, requests };
+};
 
 describe('Message Classifier', () => {
-  let originalEnv: string | undefined;
-
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Store original environment
-    originalEnv = process.env.OPENAI_API_KEY;
-
-    // Clear the mock
-    mockOpenAICreate.mockClear();
-  });
-
-  afterEach(() => {
-    // Restore original environment
-    if (originalEnv !== undefined) {
-      process.env.OPENAI_API_KEY = originalEnv;
-    } else {
-      delete process.env.OPENAI_API_KEY;
-    }
+    // No provider configured: keyword matching answers
+    mockIsConfigured.mockReturnValue(false);
   });
 
-  describe('Fallback Classification (No OpenAI)', () => {
-    beforeEach(() => {
-      delete process.env.OPENAI_API_KEY;
-    });
-
+  describe('Fallback Classification (No Provider)', () => {
     describe('Website Support Classification', () => {
       it('should classify programming-related messages as website_support', async () => {
         const testCases = [
@@ -284,98 +284,200 @@ describe('Message Classifier', () => {
     });
   });
 
-  describe('OpenAI Integration', () => {
+  describe('Model Classification', () => {
+    const REPLY = JSON.stringify({
+      agentType: 'joke',
+      confidence: 0.95,
+      reasoning: 'User is requesting a joke',
+      secondaryIntents: [{ agentType: 'trivia', confidence: 0.4 }],
+    });
+
     beforeEach(() => {
-      process.env.OPENAI_API_KEY = 'test-api-key';
+      mockIsConfigured.mockImplementation(id => id === 'openai');
+    });
+
+    afterEach(() => {
+      delete process.env.CLASSIFIER_PROVIDER;
+      delete process.env.CLASSIFIER_MODEL;
+      delete process.env.LLM_TIERED;
     });
 
-    it('should use OpenAI classification when API key is available', async () => {
-      const mockClassification = {
+    it('should classify through the registry with schema-constrained output', async () => {
+      const { provider, requests } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider });
+
+      const result = await classifyMessage('Tell me a joke');
+
+      expect(result).toEqual({
         agentType: 'joke',
         confidence: 0.95,
         reasoning: 'User is requesting a joke',
-      };
-
-      mockOpenAICreate.mockResolvedValue({
-        choices: [
-          {
-            message: {
-              content: JSON.stringify(mockClassification),
-            },
-          },
-        ],
+        secondaryIntents: [{ agentType: 'trivia', confidence: 0.4 }],
       });
+      expect(mockResolve).toHaveBeenCalledWith('openai', undefined);
+      expect(requests[0]).toEqual(
+        expect.objectContaining({
+          model: 'gpt-4o-mini',
+          messages: [{ role: 'user', content: 'Tell me a joke' }],
+          temperature: 0,
+          agentType: CLASSIFIER_USAGE_AGENT,
+          responseFormat: {
+            name: 'message_classification',
+            schema: expect.objectContaining({
+              required: [
+                'agentType',
+                'confidence',
+                'reasoning',
+                'secondaryIntents',
+              ],
+            }),
+          },
+        }),
+      );
+      expect(requests[0].system).toContain('"dnd_master"');
+    });
 
-      const result = await classifyMessage('Tell me a joke');
+    it('should use the first configured provider and its small model', async () => {
+      mockIsConfigured.mockImplementation(id => id === 'anthropic');
+      const { provider, requests } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider });
 
-      expect(mockOpenAICreate).toHaveBeenCalledWith({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: expect.stringContaining('Tell me a joke'),
-          },
-        ],
-        max_tokens: 200,
-        temperature: 0.1,
-      });
+      await classifyMessage('Tell me a joke');
 
-      expect(result).toEqual(mockClassification);
+      expect(mockResolve).toHaveBeenCalledWith('anthropic', undefined);
+      expect(requests[0].model).toBe('claude-haiku-4-5');
     });
 
-    it('should fall back to keyword matching when OpenAI API fails', async () => {
-      mockOpenAICreate.mockRejectedValue(new Error('API Error'));
+    it('should honour CLASSIFIER_PROVIDER and CLASSIFIER_MODEL', async () => {
+      process.env.CLASSIFIER_PROVIDER = 'foundry';
+      process.env.CLASSIFIER_MODEL = 'Phi-4';
+      const { provider, requests } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider });
 
-      const result = await classifyMessage('Tell me a joke');
+      await classifyMessage('Tell me a joke');
 
-      expect(result.agentType).toBe('joke');
-      expect(result.reasoning).toContain('joke keywords');
+      expect(mockResolve).toHaveBeenCalledWith('foundry', undefined);
+      expect(requests[0].model).toBe('Phi-4');
     });
 
-    it('should fall back when OpenAI returns invalid JSON', async () => {
-      mockOpenAICreate.mockResolvedValue({
-        choices: [
-          {
-            message: {
-              content: 'Invalid JSON response',
-            },
-          },
-        ],
-      });
+    it('should only match keywords with CLASSIFIER_PROVIDER=off', async () => {
+      process.env.CLASSIFIER_PROVIDER = 'off';
 
       const result = await classifyMessage('Tell me a joke');
 
-      expect(result.agentType).toBe('joke');
       expect(result.reasoning).toContain('joke keywords');
+      expect(mockResolve).not.toHaveBeenCalled();
+    });
+
+    it('should send anonymous callers to the free provider when tiered', async () => {
+      process.env.LLM_TIERED = 'true';
+      const { provider } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider });
+
+      await classifyMessage('Tell me a joke', { tier: 'anonymous' });
+
+      expect(mockResolve).toHaveBeenCalledWith('foundry', 'openai');
     });
 
-    it('should fall back when OpenAI returns empty response', async () => {
-      mockOpenAICreate.mockResolvedValue({
-        choices: [],
+    it("should charge the call to the user's usage", async () => {
+      const { provider } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider });
+
+      await classifyMessage('Tell me a joke', {
+        usage: { userId: 'user-1', conversationId: 'conv-1' },
       });
 
+      expect(usageService.record).toHaveBeenCalledWith(
+        {
+          userId: 'user-1',
+          conversationId: 'conv-1',
+          agentType: CLASSIFIER_USAGE_AGENT,
+        },
+        'openai',
+        'gpt-4o-mini',
+        { input: 120, output: 30 },
+      );
+    });
+
+    it('should leave demo mode to keyword matching', async () => {
+      const { provider, requests } = fakeProvider(REPLY);
+      mockResolve.mockReturnValue({ provider: { ...provider, id: 'mock' } });
+
       const result = await classifyMessage('Tell me a joke');
 
-      expect(result.agentType).toBe('joke');
       expect(result.reasoning).toContain('joke keywords');
+      expect(requests).toHaveLength(0);
     });
 
-    it('should handle OpenAI timeout errors', async () => {
-      mockOpenAICreate.mockRejectedValue(new Error('Request timeout'));
+    it.each([
+      ['the provider reports an error', null],
+      ['the reply is not JSON', 'Invalid JSON response'],
+      ['the reply names an unknown agent', '{"agentType":"pirate"}'],
+    ])('should fall back to keyword matching when %s', async (_, reply) => {
+      const { provider } = fakeProvider(reply);
+      mockResolve.mockReturnValue({ provider });
 
       const result = await classifyMessage('Tell me a programming joke');
 
-      // Should fall back to keyword classification
-      expect(result.agentType).toBe('joke'); // Joke has higher priority than technical
+      // Joke has higher priority than technical
+      expect(result.agentType).toBe('joke');
       expect(result.reasoning).toContain('joke keywords');
     });
   });
 
-  describe('Classification Consistency', () => {
-    beforeEach(() => {
-      delete process.env.OPENAI_API_KEY; // Use fallback for consistency testing
+  describe('parseClassification', () => {
+    const agents = ['general', 'joke', 'trivia', 'gif'];
+
+    it('should read JSON wrapped in prose or code fences', () => {
+      const result = parseClassification(
+        'Sure:\n```json\n{"agentType":"gif","confidence":0.8,"reasoning":"wants a gif"}\n```',
+        agents,
+      );
+
+      expect(result).toEqual({
+        agentType: 'gif',
+        confidence: 0.8,
+        reasoning: 'wants a gif',
+        secondaryIntents: [],
+      });
+    });
+
+    it('should clamp confidences and tidy secondary intents', () => {
+      const result = parseClassification(
+        JSON.stringify({
+          agentType: 'joke',
+          confidence: 1.4,
+          reasoning: 'two asks',
+          secondaryIntents: [
+            { agentType: 'gif', confidence: 0.3 },
+            { agentType: 'joke', confidence: 0.9 },
+            { agentType: 'pirate', confidence: 0.9 },
+            { agentType: 'trivia', confidence: -1 },
+            { agentType: 'trivia', confidence: 0.5 },
+            { agentType: 'gif' },
+          ],
+        }),
+        agents,
+      );
+
+      expect(result.confidence).toBe(1);
+      expect(result.secondaryIntents).toEqual([
+        { agentType: 'gif', confidence: 0.3 },
+        { agentType: 'trivia', confidence: 0 },
+      ]);
     });
 
+    it('should reject a reply without an agent or confidence', () => {
+      expect(() => parseClassification('no json here', agents)).toThrow(
+        'no JSON object',
+      );
+      expect(() => parseClassification('{"agentType":"joke"}', agents)).toThrow(
+        'no confidence',
+      );
+    });
+  });
+
+  describe('Classification Consistency', () => {
     it('should return consistent results for similar messages', async () => {
       const similarMessages = [
         'Tell me a joke',
@@ -438,7 +540,7 @@ describe('Message Classifier', () => {
         expect(result.confidence).toBeLessThanOrEqual(1);
 
         // Validate agentType is one of the expected types
-        const validAgentTypes: AgentType[] = [
+        const validAgentTypes: AgentId[] = [
           'general',
           'joke',
           'trivia',
@@ -456,8 +558,6 @@ describe('Message Classifier', () => {
 
   describe('Performance', () => {
     it('should classify messages within reasonable time', async () => {
-      delete process.env.OPENAI_API_KEY; // Use fast fallback
-
       const start = Date.now();
       await classifyMessage('Tell me a joke');
       const duration = Date.now() - start;
@@ -466,8 +566,6 @@ describe('Message Classifier', () => {
     });
 
     it('should handle multiple concurrent classifications', async () => {
-      delete process.env.OPENAI_API_KEY;
-
       const messages = Array(10)
         .fill(0)
         .map((_, i) => `Test message ${i}`);
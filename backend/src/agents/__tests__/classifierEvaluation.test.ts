@@ -0,0 +1,201 @@
+jest.mock('../../llm', () => ({
+  providerRegistry: { isConfigured: jest.fn(), resolve: jest.fn() },
+}));
+
+import {
+  evaluateClassifier,
+  formatEvaluation,
+  LabeledMessage,
+  parseDataset,
+  scoreClassifications,
+} from '../classifierEvaluation';
+import { CLASSIFICATION_EXAMPLES } from '../classifier';
+import { BUILT_IN_AGENT_TYPES, MessageClassification } from '../types';
+import dataset from '../classifierDataset.json';
+
+const predicted = (
+  agentType: string,
+  secondary: string[] = [],
+): MessageClassification => ({
+  agentType,
+  confidence: 0.8,
+  reasoning: 'test',
+  secondaryIntents: secondary.map(agent => ({
+    agentType: agent,
+    confidence: 0.5,
+  })),
+});
+
+const DATASET: LabeledMessage[] = [
+  { message: 'tell me a joke', agentType: 'joke' },
+  { message: 'a pun please', agentType: 'joke', secondary: ['gif'] },
+  { message: 'a fun fact', agentType: 'trivia' },
+  { message: 'hello', agentType: 'general' },
+];
+
+describe('classifierEvaluation', () => {
+  describe('scoreClassifications', () => {
+    it('should report accuracy, per-agent precision and recall', () => {
+      const evaluation = scoreClassifications(DATASET, [
+        predicted('joke'),
+        predicted('trivia', ['gif']),
+        predicted('trivia'),
+        predicted('gif'),
+      ]);
+
+      expect(evaluation.total).toBe(4);
+      expect(evaluation.accuracy).toBe(0.5);
+      expect(evaluation.perAgent).toEqual([
+        { agentType: 'joke', precision: 1, recall: 0.5, f1: 2 / 3, support: 2 },
+        {
+          agentType: 'trivia',
+          precision: 0.5,
+          recall: 1,
+          f1: 2 / 3,
+          support: 1,
+        },
+        { agentType: 'general', precision: 0, recall: 0, f1: 0, support: 1 },
+        { agentType: 'gif', precision: 0, recall: 0, f1: 0, support: 0 },
+      ]);
+    });
+
+    it('should count expected against predicted agents', () => {
+      const evaluation = scoreClassifications(DATASET, [
+        predicted('joke'),
+        predicted('trivia'),
+        predicted('trivia'),
+        predicted('gif'),
+      ]);
+
+      expect(evaluation.confusion.joke).toEqual({
+        joke: 1,
+        trivia: 1,
+        general: 0,
+        gif: 0,
+      });
+      expect(evaluation.confusion.general.gif).toBe(1);
+      expect(evaluation.misses).toEqual([
+        {
+          message: 'a pun please',
+          expected: 'joke',
+          predicted: 'trivia',
+          confidence: 0.8,
+        },
+        {
+          message: 'hello',
+          expected: 'general',
+          predicted: 'gif',
+          confidence: 0.8,
+        },
+      ]);
+    });
+
+    it('should score the labeled secondary intents it found', () => {
+      const found = scoreClassifications(DATASET, [
+        predicted('joke'),
+        predicted('joke', ['gif']),
+        predicted('trivia'),
+        predicted('general'),
+      ]);
+      const missed = scoreClassifications(
+        DATASET,
+        DATASET.map(() => predicted('joke')),
+      );
+
+      expect(found.secondaryIntents).toEqual({
+        expected: 1,
+        found: 1,
+        recall: 1,
+      });
+      expect(missed.secondaryIntents.recall).toBe(0);
+    });
+
+    it('should refuse predictions that do not line up with the dataset', () => {
+      expect(() => scoreClassifications(DATASET, [predicted('joke')])).toThrow(
+        'Expected 4 classifications, got 1',
+      );
+    });
+  });
+
+  describe('evaluateClassifier', () => {
+    it('should classify every message and keep the dataset order', async () => {
+      const classify = jest.fn(async (message: string) =>
+        predicted(DATASET.find(entry => entry.message === message)!.agentType),
+      );
+
+      const evaluation = await evaluateClassifier(DATASET, classify, 3);
+
+      expect(classify).toHaveBeenCalledTimes(4);
+      expect(evaluation.accuracy).toBe(1);
+      expect(evaluation.misses).toEqual([]);
+    });
+  });
+
+  describe('formatEvaluation', () => {
+    it('should print the scores, the confusion matrix and the misses', () => {
+      const text = formatEvaluation(
+        scoreClassifications(DATASET, [
+          predicted('joke'),
+          predicted('joke', ['gif']),
+          predicted('trivia'),
+          predicted('joke'),
+        ]),
+        'Classifier: test',
+      );
+
+      expect(text).toContain('4 messages, accuracy 75.0%');
+      expect(text).toMatch(/joke\s+0\.67\s+1\.00\s+0\.80\s+2/);
+      expect(text).toMatch(/ 3\. general\s+1\s+\.\s+\.$/m);
+      expect(text).toContain('Secondary intents: 1/1 found (100.0%)');
+      expect(text).toContain('"hello": expected general, got joke (0.80)');
+    });
+  });
+
+  describe('parseDataset', () => {
+    it('should list every problem with a dataset', () => {
+      expect(() =>
+        parseDataset([
+          { message: '', agentType: 'joke' },
+          { message: 'hi', secondary: 'gif' },
+        ]),
+      ).toThrow(
+        'Invalid classifier dataset: entry 0 needs a "message"; entry 1 needs an "agentType"; entry 1 "secondary" must be a list of agent ids',
+      );
+      expect(() => parseDataset({})).toThrow('must be a list');
+    });
+
+    it('should accept the bundled dataset, which covers every built-in agent', () => {
+      const entries = parseDataset(dataset);
+      const builtIn: readonly string[] = BUILT_IN_AGENT_TYPES;
+
+      for (const agent of BUILT_IN_AGENT_TYPES) {
+        expect(
+          entries.filter(entry => entry.agentType === agent).length,
+        ).toBeGreaterThanOrEqual(5);
+      }
+      for (const entry of entries) {
+        expect(builtIn).toContain(entry.agentType);
+        (entry.secondary ?? []).forEach(agent =>
+          expect(builtIn).toContain(agent),
+        );
+      }
+    });
+
+    it('should share no messages with the prompt examples', () => {
+      const normalize = (message: string) =>
+        message
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, ' ')
+          .trim();
+      const examples = new Set(
+        CLASSIFICATION_EXAMPLES.map(([message]) => normalize(message)),
+      );
+
+      expect(
+        parseDataset(dataset).filter(entry =>
+          examples.has(normalize(entry.message)),
+        ),
+      ).toEqual([]);
+    });
+  });
+});
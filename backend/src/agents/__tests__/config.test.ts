@@ -1,5 +1,5 @@
 import { getAgent, AGENTS } from '../config';
-import { Agent, AgentType } from '../types';
+import { Agent, AgentId, BUILT_IN_AGENT_TYPES } from '../types';
 
 describe('Agent Configuration', () => {
   describe('AGENTS Configuration Object', () => {
@@ -29,6 +29,12 @@ describe('Agent Configuration', () => {
       });
     });
 
+    it('should define exactly the built-in agent types', () => {
+      expect(Object.keys(AGENTS).sort()).toEqual(
+        [...BUILT_IN_AGENT_TYPES].sort(),
+      );
+    });
+
     it('should have consistent structure for all agents', () => {
       Object.values(AGENTS).forEach((agent: Agent) => {
         // Required properties
@@ -163,6 +169,9 @@ describe('Agent Configuration', () => {
         expect(dnd.model).toMatch(/claude-sonnet|gpt-4/);
         expect(dnd.maxTokens).toBeGreaterThan(1000); // Needs longer responses
         expect(dnd.tools).toContain('roll_dice');
+        expect(dnd.tools).toEqual(
+          expect.arrayContaining(['apply_damage', 'skill_check', 'next_turn']),
+        );
       });
 
       it('should configure YouTube guru as tool-driven with live search', () => {
@@ -495,9 +504,9 @@ describe('Agent Configuration', () => {
   });
 
   describe('Type Safety', () => {
-    it('should have agent types matching TypeScript AgentType union', () => {
+    it('should have agent types matching TypeScript AgentId union', () => {
       // This test ensures our config matches the type definitions
-      const agentTypes = Object.keys(AGENTS) as AgentType[];
+      const agentTypes = Object.keys(AGENTS) as AgentId[];
 
       agentTypes.forEach(agentType => {
         const agent = getAgent(agentType);
@@ -0,0 +1,227 @@
+import {
+  buildContextWindow,
+  ConversationSummarizer,
+  extractiveSummarizer,
+  inputBudgetFor,
+  SUMMARY_HEADING,
+} from '../contextWindow';
+import { ConversationSummary, Message } from '../../types';
+
+const makeHistory = (count: number, padding = 40): Message[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `m${i + 1}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `turn ${i + 1} ${'x'.repeat(padding)}`,
+    timestamp: new Date('2024-01-01'),
+    conversationId: 'conv-1',
+  }));
+
+describe('contextWindow', () => {
+  const originalCap = process.env.CONTEXT_MAX_INPUT_TOKENS;
+
+  afterEach(() => {
+    if (originalCap === undefined) {
+      delete process.env.CONTEXT_MAX_INPUT_TOKENS;
+    } else {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = originalCap;
+    }
+  });
+
+  describe('inputBudgetFor', () => {
+    it('should reserve the reply tokens out of the model context window', () => {
+      delete process.env.CONTEXT_MAX_INPUT_TOKENS;
+
+      expect(inputBudgetFor('gpt-3.5-turbo', 1000)).toBe(
+        Math.floor((16_385 - 1000) * 0.95),
+      );
+      expect(inputBudgetFor('claude-sonnet-4-6', 1000)).toBeGreaterThan(
+        inputBudgetFor('gpt-3.5-turbo', 1000),
+      );
+    });
+
+    it('should honour CONTEXT_MAX_INPUT_TOKENS as an upper bound', () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '2000';
+
+      expect(inputBudgetFor('claude-sonnet-4-6', 1000)).toBe(1900);
+    });
+  });
+
+  describe('buildContextWindow', () => {
+    const base = {
+      systemPrompt: 'You are helpful.',
+      message: 'latest question',
+      providerId: 'openai' as const,
+      model: 'gpt-4o-mini',
+      maxOutputTokens: 500,
+    };
+
+    it('should send every turn when the history fits', async () => {
+      const summarize = jest.fn<
+        ReturnType<ConversationSummarizer>,
+        Parameters<ConversationSummarizer>
+      >();
+
+      const window = await buildContextWindow({
+        ...base,
+        history: makeHistory(6),
+        summarize,
+      });
+
+      expect(window.system).toBe('You are helpful.');
+      expect(window.messages).toHaveLength(7);
+      expect(window.messages[6]).toEqual({
+        role: 'user',
+        content: 'latest question',
+      });
+      expect(window.summaryUpdated).toBe(false);
+      expect(window.summary).toBeUndefined();
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('should fold the oldest turns into a summary when over budget', async () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '500';
+      const history = makeHistory(40);
+      const summarize: ConversationSummarizer = jest.fn(
+        async (_previous, messages) => `folded ${messages.length}`,
+      );
+
+      const window = await buildContextWindow({
+        ...base,
+        history,
+        summarize,
+      });
+
+      const kept = window.stats.keptMessages;
+      expect(kept).toBeGreaterThan(0);
+      expect(kept).toBeLessThan(40);
+      expect(window.stats.foldedMessages).toBe(40 - kept);
+      expect(window.stats.estimatedInputTokens).toBeLessThanOrEqual(
+        window.stats.inputBudget,
+      );
+      expect(summarize).toHaveBeenCalledWith(
+        undefined,
+        history.slice(0, 40 - kept),
+        expect.any(Number),
+      );
+      expect(window.summary).toEqual({
+        content: `folded ${40 - kept}`,
+        throughMessageId: history[39 - kept].id,
+        updatedAt: expect.any(Date),
+      });
+      expect(window.summaryUpdated).toBe(true);
+      expect(window.system).toBe(
+        `You are helpful.\n\n${SUMMARY_HEADING}\nfolded ${40 - kept}`,
+      );
+      // The newest turn and the incoming message are always kept
+      expect(window.messages[window.messages.length - 2].content).toContain(
+        'turn 40',
+      );
+    });
+
+    it('should reuse a stored summary while the turns after it still fit', async () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '500';
+      const history = makeHistory(40);
+      const first = await buildContextWindow({ ...base, history });
+
+      // Two more turns arrive; the fold left room for them
+      const longer = [...history, ...makeHistory(42).slice(40)];
+      const summarize = jest.fn<
+        ReturnType<ConversationSummarizer>,
+        Parameters<ConversationSummarizer>
+      >();
+      const second = await buildContextWindow({
+        ...base,
+        history: longer,
+        summary: first.summary,
+        summarize,
+      });
+
+      expect(summarize).not.toHaveBeenCalled();
+      expect(second.summaryUpdated).toBe(false);
+      expect(second.summary).toBe(first.summary);
+      expect(second.stats.foldedMessages).toBe(first.stats.foldedMessages);
+    });
+
+    it('should extend a stored summary with only the newly dropped turns', async () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '500';
+      const history = makeHistory(80);
+      const stored: ConversationSummary = {
+        content: 'earlier',
+        throughMessageId: 'm10',
+        updatedAt: new Date('2024-01-01'),
+      };
+      const summarize: ConversationSummarizer = jest.fn(
+        async (previous, messages) => `${previous} + ${messages.length}`,
+      );
+
+      const window = await buildContextWindow({
+        ...base,
+        history,
+        summary: stored,
+        summarize,
+      });
+
+      const folded = window.stats.foldedMessages;
+      expect(summarize).toHaveBeenCalledWith(
+        'earlier',
+        history.slice(10, folded),
+        expect.any(Number),
+      );
+      expect(window.summary!.content).toBe(`earlier + ${folded - 10}`);
+      expect(window.summary!.throughMessageId).toBe(`m${folded}`);
+    });
+
+    it('should rebuild the summary when its cut-off is no longer in the history', async () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '500';
+      const summarize: ConversationSummarizer = jest.fn(async () => 'fresh');
+
+      const window = await buildContextWindow({
+        ...base,
+        history: makeHistory(40),
+        summary: {
+          content: 'stale',
+          throughMessageId: 'gone',
+          updatedAt: new Date(),
+        },
+        summarize,
+      });
+
+      expect(summarize).toHaveBeenCalledWith(
+        undefined,
+        expect.any(Array),
+        expect.any(Number),
+      );
+      expect(window.summary!.content).toBe('fresh');
+    });
+
+    it('should keep the latest turn even when it alone exceeds the budget', async () => {
+      process.env.CONTEXT_MAX_INPUT_TOKENS = '50';
+
+      const window = await buildContextWindow({
+        ...base,
+        history: makeHistory(4),
+        message: 'y'.repeat(2000),
+      });
+
+      expect(window.messages).toHaveLength(1);
+      expect(window.messages[0].content).toHaveLength(2000);
+      expect(window.stats.foldedMessages).toBe(4);
+    });
+  });
+
+  describe('extractiveSummarizer', () => {
+    it('should append a clipped line per message and drop the oldest to fit', async () => {
+      const long = makeHistory(1, 500);
+      const summary = await extractiveSummarizer('- User: hi', long, 1000);
+
+      const lines = summary.split('\n');
+      expect(lines[0]).toBe('- User: hi');
+      expect(lines[1].startsWith('- User: turn 1')).toBe(true);
+      expect(lines[1].endsWith('…')).toBe(true);
+
+      const tight = await extractiveSummarizer(undefined, makeHistory(30), 40);
+      expect(tight.split('\n').length).toBeLessThan(30);
+      expect(tight).toContain('turn 30');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { DndCampaignService } from '../dndCampaign';
+import { Character, Encounter } from '../dndService';
+import { MemoryCampaignStore } from '../../storage/memoryCampaignStore';
+
+const character = (overrides: Partial<Character> = {}): Character => ({
+  name: 'Thorin Ironforge',
+  race: 'Dwarf',
+  class: 'Fighter',
+  level: 1,
+  // DEX +1, CON +2, WIS -1
+  stats: { STR: 16, DEX: 12, CON: 14, INT: 10, WIS: 8, CHA: 10 },
+  hitPoints: 12,
+  armorClass: 16,
+  equipment: ['Longsword', 'Shield'],
+  trait: 'Stubborn',
+  background: 'Soldier',
+  ...overrides,
+});
+
+const goblin = {
+  name: 'Goblin',
+  hitPoints: 7,
+  armorClass: 15,
+  attackBonus: 4,
+  damage: '1d6+2',
+  description: 'Small and green',
+};
+
+const ambush: Encounter = {
+  type: 'combat',
+  title: 'Goblin Ambush',
+  description: 'Goblins leap out!',
+  setting: 'Forest path',
+  options: ['Fight', 'Flee'],
+  enemies: [goblin, goblin],
+};
+
+/** Each d20 comes from `rolls` in turn (then 1s). */
+const dice =
+  (...rolls: number[]) =>
+  () =>
+    ((rolls.shift() ?? 1) - 1) / 20;
+
+describe('DndCampaignService', () => {
+  const ref = { ownerId: 'user-1', conversationId: 'conv-1' };
+  let store: MemoryCampaignStore;
+
+  beforeEach(() => {
+    store = new MemoryCampaignStore();
+  });
+
+  describe('party', () => {
+    it('should keep characters in the conversation campaign', async () => {
+      const service = new DndCampaignService(store);
+
+      await service.addCharacter(ref, character());
+      const { character: second } = await service.addCharacter(
+        ref,
+        character(),
+      );
+
+      expect(second).toMatchObject({
+        name: 'Thorin Ironforge 2',
+        maxHitPoints: 12,
+        inventory: ['Longsword', 'Shield'],
+        xp: 0,
+      });
+      const campaign = await store.get('user-1', 'conv-1');
+      expect(campaign?.party.map(c => c.name)).toEqual([
+        'Thorin Ironforge',
+        'Thorin Ironforge 2',
+      ]);
+      expect(await service.get({ ownerId: 'user-1' })).toMatchObject({
+        id: 'user_user-1',
+        party: [],
+      });
+    });
+
+    it('should clamp damage and healing to 0 and the maximum', async () => {
+      const service = new DndCampaignService(store);
+      await service.addCharacter(ref, character());
+
+      const hit = await service.adjustHitPoints(ref, 'thorin', 20);
+      expect(hit.change).toMatchObject({ hitPoints: 0, down: true });
+
+      const healed = await service.adjustHitPoints(
+        ref,
+        'Thorin Ironforge',
+        -30,
+      );
+      expect(healed.change).toMatchObject({
+        side: 'party',
+        hitPoints: 12,
+        down: false,
+      });
+    });
+
+    it('should name the party when a character is not found', async () => {
+      const service = new DndCampaignService(store);
+      await service.addCharacter(ref, character());
+
+      await expect(service.adjustHitPoints(ref, 'Gandalf', 3)).rejects.toThrow(
+        'No party member named "Gandalf"; the party is Thorin Ironforge',
+      );
+    });
+
+    it('should add and remove inventory, reporting items not carried', async () => {
+      const service = new DndCampaignService(store);
+      await service.addCharacter(ref, character());
+
+      const { character: thorin, missing } = await service.updateInventory(
+        ref,
+        'Thorin',
+        ['Healing Potion'],
+        ['shield', 'Rope'],
+      );
+
+      expect(thorin.inventory).toEqual(['Longsword', 'Healing Potion']);
+      expect(missing).toEqual(['Rope']);
+    });
+
+    it('should level up as XP crosses the thresholds', async () => {
+      const service = new DndCampaignService(store);
+      await service.addCharacter(ref, character());
+
+      const { campaign, levelUps } = await service.awardXp(ref, 900);
+
+      expect(levelUps).toEqual([{ name: 'Thorin Ironforge', level: 3 }]);
+      // d10 average (6) + CON (+2) per level
+      expect(campaign.party[0]).toMatchObject({
+        level: 3,
+        xp: 900,
+        maxHitPoints: 28,
+        hitPoints: 28,
+      });
+    });
+  });
+
+  describe('skill checks', () => {
+    it('should add the ability modifier and keep the higher roll with advantage', async () => {
+      const service = new DndCampaignService(store, dice(4, 15));
+      await service.addCharacter(ref, character());
+
+      const check = await service.skillCheck(
+        ref,
+        'Thorin',
+        'Sleight of Hand',
+        15,
+        'advantage',
+      );
+
+      expect(check).toEqual({
+        character: 'Thorin Ironforge',
+        skill: 'sleight_of_hand',
+        ability: 'DEX',
+        rolls: [4, 15],
+        modifier: 1,
+        total: 16,
+        dc: 15,
+        success: true,
+      });
+    });
+
+    it('should accept an ability and reject unknown skills', async () => {
+      const service = new DndCampaignService(store, dice(10));
+      await service.addCharacter(ref, character());
+
+      expect(await service.skillCheck(ref, 'Thorin', 'wis', 10)).toMatchObject({
+        ability: 'WIS',
+        total: 9,
+        success: false,
+      });
+      await expect(
+        service.skillCheck(ref, 'Thorin', 'juggling', 10),
+      ).rejects.toThrow('Unknown skill "juggling"');
+    });
+  });
+
+  describe('encounters', () => {
+    it('should order by initiative, numbering repeated enemies and putting the party first on ties', async () => {
+      // Thorin rolls 11 (+1 DEX), the goblins 12 and 5
+      const service = new DndCampaignService(store, dice(11, 12, 5));
+      await service.addCharacter(ref, character());
+
+      const campaign = await service.startEncounter(ref, ambush);
+
+      expect(campaign.encounter).toMatchObject({
+        title: 'Goblin Ambush',
+        round: 1,
+        turn: 0,
+      });
+      expect(
+        campaign.encounter?.order.map(c => [c.name, c.initiative]),
+      ).toEqual([
+        ['Thorin Ironforge', 12],
+        ['Goblin', 12],
+        ['Goblin 2', 5],
+      ]);
+    });
+
+    it('should skip combatants who are down and start a new round after the last', async () => {
+      const service = new DndCampaignService(store, dice(11, 12, 5));
+      await service.addCharacter(ref, character());
+      await service.startEncounter(ref, ambush);
+
+      const { change } = await service.adjustHitPoints(ref, 'goblin', 7);
+      expect(change).toMatchObject({ name: 'Goblin', down: true });
+      expect(change.encounterWon).toBeUndefined();
+
+      expect((await service.nextTurn(ref)).current.name).toBe('Goblin 2');
+      const wrapped = await service.nextTurn(ref);
+      expect(wrapped.current.name).toBe('Thorin Ironforge');
+      expect(wrapped.campaign.encounter?.round).toBe(2);
+
+      const won = await service.adjustHitPoints(ref, 'Goblin 2', 50);
+      expect(won.change.encounterWon).toBe(true);
+    });
+
+    it('should award XP only to survivors when the encounter ends', async () => {
+      const service = new DndCampaignService(store);
+      await service.addCharacter(ref, character());
+      await service.addCharacter(ref, character({ name: 'Mira Swift' }));
+      await service.startEncounter(ref, ambush);
+      await service.adjustHitPoints(ref, 'Mira', 12);
+
+      const { campaign, levelUps } = await service.endEncounter(ref, 300);
+
+      expect(campaign.encounter).toBeUndefined();
+      expect(campaign.party.map(c => c.xp)).toEqual([300, 0]);
+      expect(levelUps).toEqual([{ name: 'Thorin Ironforge', level: 2 }]);
+      await expect(service.nextTurn(ref)).rejects.toThrow(
+        'No encounter in progress',
+      );
+    });
+
+    it('should need a party to fight', async () => {
+      const service = new DndCampaignService(store);
+
+      await expect(service.startEncounter(ref, ambush)).rejects.toThrow(
+        'The party is empty',
+      );
+    });
+  });
+});
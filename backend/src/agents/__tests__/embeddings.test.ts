@@ -0,0 +1,55 @@
+import { HashedBagOfWordsEmbedder, tokenize } from '../embeddings';
+import { VectorIndex } from '../vectorIndex';
+
+const cosine = (a: number[], b: number[]): number =>
+  a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('HashedBagOfWordsEmbedder', () => {
+  const embedder = new HashedBagOfWordsEmbedder();
+
+  it('drops stop words and stems plurals', () => {
+    expect(tokenize('Tell me about the planets')).toEqual(['planet']);
+  });
+
+  it('is deterministic and unit length', async () => {
+    const [a] = await embedder.embed(['Venus orbits the Sun']);
+    const [b] = await embedder.embed(['Venus orbits the Sun']);
+
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it('places related concepts closer than unrelated ones', async () => {
+    const [query, space, food] = await embedder.embed([
+      'outer space',
+      'A day on Venus is longer than its year',
+      'Honey never spoils',
+    ]);
+
+    expect(cosine(query, space)).toBeGreaterThan(cosine(query, food));
+  });
+});
+
+describe('VectorIndex', () => {
+  it('returns the top-k matches by cosine similarity', () => {
+    const index = new VectorIndex();
+    index.upsert('x', [1, 0]);
+    index.upsert('y', [0, 2]);
+    index.upsert('xy', [1, 1]);
+
+    const matches = index.topK([3, 0], 2);
+
+    expect(matches.map(m => m.id)).toEqual(['x', 'xy']);
+    expect(matches[0].score).toBeCloseTo(1);
+  });
+
+  it('honours the filter and removals', () => {
+    const index = new VectorIndex();
+    index.upsert('x', [1, 0]);
+    index.upsert('y', [0, 1]);
+    index.remove('y');
+
+    expect(index.topK([0, 1], 5, id => id !== 'x')).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+});
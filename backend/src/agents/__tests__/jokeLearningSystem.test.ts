@@ -0,0 +1,54 @@
+import { JokeLearningSystem } from '../jokeLearningSystem';
+
+describe('JokeLearningSystem', () => {
+  let system: JokeLearningSystem;
+
+  beforeEach(() => {
+    system = new JokeLearningSystem();
+  });
+
+  it('tracks curated jokes by content id across messages', () => {
+    system.recordReaction({
+      messageId: 'msg-1',
+      userId: 'user-1',
+      reactionType: 'laugh',
+      timestamp: new Date(),
+      contentId: 'joke_007',
+    });
+    system.recordReaction({
+      messageId: 'msg-2',
+      userId: 'user-2',
+      reactionType: 'dislike',
+      timestamp: new Date(),
+      contentId: 'joke_007',
+    });
+
+    const performance = system.getJokePerformance('joke_007');
+
+    expect(performance).toMatchObject({
+      content:
+        'Why do programmers prefer dark mode? Because light attracts bugs!',
+      category: 'tech_joke',
+      totalShows: 2,
+      positiveReactions: 1,
+      negativeReactions: 1,
+      successRate: 0.5,
+    });
+  });
+
+  it('keeps per-message tracking for jokes without a content id', () => {
+    system.recordReaction({
+      messageId: 'msg-1',
+      userId: 'user-1',
+      reactionType: 'love',
+      timestamp: new Date(),
+      jokeType: 'pun',
+      jokeCategory: 'wordplay',
+    });
+
+    expect(system.getJokePerformance('wordplay_pun_msg-1')).toMatchObject({
+      content: '',
+      totalShows: 1,
+    });
+  });
+});
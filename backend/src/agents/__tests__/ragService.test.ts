@@ -1,4 +1,12 @@
-import { RAGService, ContentItem, SearchQuery } from '../ragService';
+import {
+  RAGService,
+  ContentItem,
+  SearchQuery,
+  findUsedContent,
+  withCuratedContent,
+} from '../ragService';
+import { EmbeddingProvider, HashedBagOfWordsEmbedder } from '../embeddings';
+import { MemoryRagContentStore } from '../../storage/memoryRagContentStore';
 
 describe('RAGService', () => {
   let ragService: RAGService;
@@ -41,14 +49,14 @@ describe('RAGService', () => {
   });
 
   describe('Search Functionality', () => {
-    test('should find content matches', () => {
+    test('should find content matches', async () => {
       const query: SearchQuery = {
         text: 'programmers',
         type: 'joke',
         limit: 5,
       };
 
-      const results = ragService.search(query);
+      const results = await ragService.search(query);
 
       expect(results.length).toBeGreaterThan(0);
       results.forEach(result => {
@@ -57,21 +65,76 @@ describe('RAGService', () => {
       });
     });
 
-    test('should respect search limits', () => {
+    test('should respect search limits', async () => {
       const query: SearchQuery = {
         text: 'funny',
         limit: 3,
       };
 
-      const results = ragService.search(query);
+      const results = await ragService.search(query);
 
       expect(results.length).toBeLessThanOrEqual(3);
     });
   });
 
+  describe('Semantic Search', () => {
+    test('should find space trivia for "something about outer space"', async () => {
+      const results = await ragService.search({
+        text: 'something about outer space',
+        type: 'trivia',
+      });
+
+      expect(results[0].item.id).toBe('trivia_008');
+    });
+
+    test('should find space trivia without sharing a keyword', async () => {
+      const results = await ragService.search({
+        text: 'stars and galaxies',
+        type: 'trivia',
+      });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].item.category).toBe('space');
+    });
+
+    test('should rank newly added content semantically', async () => {
+      await ragService.addContent({
+        id: 'trivia_test_mars',
+        type: 'trivia',
+        content: 'Mars has the tallest volcano known, Olympus Mons.',
+        category: 'geology',
+        tags: ['volcano', 'mountain'],
+        rating: 4,
+      });
+
+      const results = await ragService.search({
+        text: 'the red planet',
+        type: 'trivia',
+        category: 'geology',
+      });
+
+      expect(results.map(r => r.item.id)).toEqual(['trivia_test_mars']);
+    });
+
+    test('should fall back to lexical ranking when embedding fails', async () => {
+      const failing: EmbeddingProvider = {
+        id: 'failing',
+        embed: jest.fn().mockRejectedValue(new Error('offline')),
+      };
+      const lexicalOnly = new RAGService(failing);
+
+      const results = await lexicalOnly.search({
+        text: 'programmers',
+        type: 'joke',
+      });
+
+      expect(results[0].item.id).toBe('joke_007');
+    });
+  });
+
   describe('Agent-Specific Search', () => {
-    test('should return appropriate content for joke agent', () => {
-      const content = ragService.searchForAgent(
+    test('should return appropriate content for joke agent', async () => {
+      const content = await ragService.searchForAgent(
         'joke',
         'tell me something funny',
         true,
@@ -82,8 +145,8 @@ describe('RAGService', () => {
       expect(content?.rating).toBeGreaterThanOrEqual(4);
     });
 
-    test('should return appropriate content for trivia agent', () => {
-      const content = ragService.searchForAgent(
+    test('should return appropriate content for trivia agent', async () => {
+      const content = await ragService.searchForAgent(
         'trivia',
         'tell me something interesting',
         true,
@@ -94,8 +157,8 @@ describe('RAGService', () => {
       expect(content?.rating).toBeGreaterThanOrEqual(4);
     });
 
-    test('should return appropriate content for gif agent', () => {
-      const content = ragService.searchForAgent(
+    test('should return appropriate content for gif agent', async () => {
+      const content = await ragService.searchForAgent(
         'gif',
         'show me something funny',
         true,
@@ -106,8 +169,8 @@ describe('RAGService', () => {
       expect(content?.rating).toBeGreaterThanOrEqual(4);
     });
 
-    test('should fallback to random content when no match found', () => {
-      const content = ragService.searchForAgent(
+    test('should fallback to random content when no match found', async () => {
+      const content = await ragService.searchForAgent(
         'joke',
         'xyz-no-match-query',
         true,
@@ -117,8 +180,8 @@ describe('RAGService', () => {
       expect(content?.type).toBe('joke');
     });
 
-    test('should return null when no fallback requested', () => {
-      const content = ragService.searchForAgent(
+    test('should return null when no fallback requested', async () => {
+      const content = await ragService.searchForAgent(
         'joke',
         'xyz-no-match-query',
         false,
@@ -128,6 +191,54 @@ describe('RAGService', () => {
     });
   });
 
+  describe('Prompt Grounding', () => {
+    test('should retrieve riddles and quotes for their agents', async () => {
+      const riddles = await ragService.retrieveForAgent(
+        'riddle_master',
+        'give me a riddle about a map',
+      );
+      const quotes = await ragService.retrieveForAgent(
+        'quote_master',
+        'a quote about patience while waiting',
+      );
+
+      expect(riddles[0].id).toBe('riddle_006');
+      expect(quotes[0].id).toBe('quote_002');
+    });
+
+    test('should retrieve nothing for agents without curated content', async () => {
+      await expect(
+        ragService.retrieveForAgent('billing_support', 'refund please'),
+      ).resolves.toEqual([]);
+    });
+
+    test('should list items with their ids in the system prompt', () => {
+      const riddle = ragService.getContentById('riddle_001')!;
+
+      const prompt = withCuratedContent('You are the Riddle Master', [riddle]);
+
+      expect(prompt).toContain('You are the Riddle Master');
+      expect(prompt).toContain(
+        "- [riddle_001] What has keys but can't open locks? (answer: A piano)",
+      );
+      expect(withCuratedContent('Base', [])).toBe('Base');
+    });
+
+    test('should detect which items a reply used', () => {
+      const items = [
+        ragService.getContentById('joke_007')!,
+        ragService.getContentById('joke_002')!,
+        ragService.getContentById('gif_001')!,
+      ];
+      const reply =
+        'Why do programmers prefer dark mode? Because light attracts bugs! ' +
+        '![laugh](https://media.giphy.com/media/3o7abKhOpu0NwenH3O/giphy.gif)';
+
+      expect(findUsedContent(reply, items)).toEqual(['joke_007', 'gif_001']);
+      expect(findUsedContent('Something original', items)).toEqual([]);
+    });
+  });
+
   describe('Random Content Retrieval', () => {
     test('should return random jokes', () => {
       const joke = ragService.getRandomContent('joke');
@@ -146,8 +257,32 @@ describe('RAGService', () => {
     });
   });
 
+  describe('Quiz Content', () => {
+    test('should only offer items with an answer, and trivia with a question', async () => {
+      await ragService.addContent({
+        id: 'trivia_no_question',
+        type: 'trivia',
+        content: 'Sloths can hold their breath for forty minutes.',
+        tags: [],
+        metadata: { answer: '40 minutes' },
+      });
+
+      const trivia = await ragService.listQuizContent('trivia');
+      const riddles = await ragService.listQuizContent('riddle');
+
+      expect(trivia.length).toBeGreaterThan(0);
+      expect(trivia.map(item => item.id)).not.toContain('trivia_no_question');
+      trivia.forEach(item => {
+        expect(item.metadata.question).toEqual(expect.any(String));
+        expect(item.metadata.answer).toEqual(expect.any(String));
+      });
+      expect(riddles.every(item => item.type === 'riddle')).toBe(true);
+      expect(riddles.length).toBeGreaterThan(0);
+    });
+  });
+
   describe('Content Management', () => {
-    test('should add new content successfully', () => {
+    test('should add new content successfully', async () => {
       const newJoke: ContentItem = {
         id: 'test_joke_001',
         type: 'joke',
@@ -157,12 +292,103 @@ describe('RAGService', () => {
         rating: 5,
       };
 
-      ragService.addContent(newJoke);
+      await expect(ragService.addContent(newJoke)).resolves.toEqual(newJoke);
 
       const stats = ragService.getStats();
       expect(stats.joke).toBe(11); // 10 original + 1 new
     });
 
+    test('should reject content that duplicates an id or text', async () => {
+      const existing = ragService.getContentById('joke_001')!;
+
+      await expect(
+        ragService.addContent({ ...existing, id: 'joke_copy' }),
+      ).resolves.toBeNull();
+      await expect(
+        ragService.addContent({ ...existing, content: 'Fresh text' }),
+      ).resolves.toBeNull();
+    });
+
+    test('should seed an empty store and write edits through to it', async () => {
+      const store = new MemoryRagContentStore();
+      const service = new RAGService(new HashedBagOfWordsEmbedder(), store);
+      await service.ready;
+
+      expect(await store.list()).toHaveLength(42);
+
+      await service.updateContent('joke_001', { rating: 3, tags: ['atoms'] });
+      await service.removeContent('joke_002');
+
+      expect(await store.get('joke_001')).toMatchObject({
+        rating: 3,
+        tags: ['atoms'],
+      });
+      expect(await store.get('joke_002')).toBeNull();
+      expect(service.getContentById('joke_002')).toBeNull();
+    });
+
+    test('should serve stored content instead of the built-in corpus', async () => {
+      const store = new MemoryRagContentStore();
+      await store.put({
+        id: 'joke_only',
+        type: 'joke',
+        content: 'The only joke left',
+        tags: [],
+      });
+
+      const service = new RAGService(new HashedBagOfWordsEmbedder(), store);
+
+      expect(await service.listContent()).toEqual([
+        expect.objectContaining({ id: 'joke_only' }),
+      ]);
+      const [match] = await service.search({ text: 'the only joke' });
+      expect(match.item.id).toBe('joke_only');
+    });
+
+    test('should import by upserting ids and skipping duplicate text', async () => {
+      const result = await ragService.importContent([
+        {
+          id: 'joke_001',
+          type: 'joke',
+          content: 'A rewritten atom joke',
+          tags: [],
+        },
+        {
+          type: 'trivia',
+          content: 'Octopuses can taste with their arms.',
+          tags: [],
+        },
+        {
+          type: 'joke',
+          content: 'What do you call a fake noodle? An impasta!',
+          tags: [],
+        },
+      ]);
+
+      expect(result.updated).toEqual(['joke_001']);
+      expect(result.added).toEqual([
+        expect.stringMatching(/^trivia_[0-9a-f]{12}$/),
+      ]);
+      expect(result.skipped).toHaveLength(1);
+      expect(ragService.getContentById('joke_001')?.content).toBe(
+        'A rewritten atom joke',
+      );
+      expect(await ragService.listContent({ type: 'trivia' })).toHaveLength(11);
+    });
+
+    test('should list content by type and category', async () => {
+      const animals = await ragService.listContent({
+        type: 'trivia',
+        category: 'animals',
+      });
+
+      expect(animals.map(item => item.id)).toEqual([
+        'trivia_001',
+        'trivia_007',
+        'trivia_010',
+      ]);
+    });
+
     test('should retrieve top-rated content', () => {
       const topJokes = ragService.getTopRated('joke', 3);
 
@@ -1,6 +1,7 @@
 import { routeMessage, logRoutingDecision } from '../router';
 import { classifyMessage } from '../classifier';
-import { AgentType } from '../types';
+import { agentLoader } from '../agentLoader';
+import { AgentId } from '../types';
 
 jest.mock('../classifier');
 jest.mock('../../tracing/tracer', () => ({
@@ -18,7 +19,7 @@ describe('routeMessage', () => {
     // Default classifier fallback: no confident answer. Individual tests
     // override when they want classifier-path behavior.
     mockClassifyMessage.mockResolvedValue({
-      agentType: 'general' as AgentType,
+      agentType: 'general' as AgentId,
       confidence: 0.3,
       reasoning: 'fallback',
     });
@@ -93,7 +94,7 @@ describe('routeMessage', () => {
 
   it('uses classifier result when no keyword matches and confidence is high', async () => {
     mockClassifyMessage.mockResolvedValueOnce({
-      agentType: 'website_support' as AgentType,
+      agentType: 'website_support' as AgentId,
       confidence: 0.8,
       reasoning: 'classified: support intent',
     });
@@ -110,7 +111,7 @@ describe('routeMessage', () => {
 
   it('falls through to sticky when classifier returns general', async () => {
     mockClassifyMessage.mockResolvedValueOnce({
-      agentType: 'general' as AgentType,
+      agentType: 'general' as AgentId,
       confidence: 0.8,
       reasoning: 'no specialist needed',
     });
@@ -143,6 +144,48 @@ describe('routeMessage', () => {
     expect(decision.source).toBe('keyword');
   });
 
+  describe('with agent files', () => {
+    const fortuneTeller = {
+      id: 'fortune_teller',
+      type: 'fortune_teller',
+      name: 'Fortune Teller',
+      description: 'Reads your fortune',
+      systemPrompt: 'You are a fortune teller.',
+      model: 'gpt-4o-mini',
+      temperature: 0.9,
+      maxTokens: 1000,
+      keywords: ['tarot', 'fortune'],
+    };
+
+    beforeEach(() => {
+      jest.spyOn(agentLoader, 'list').mockReturnValue([fortuneTeller]);
+      jest
+        .spyOn(agentLoader, 'get')
+        .mockImplementation(id =>
+          id === fortuneTeller.id ? fortuneTeller : undefined,
+        );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("routes on a file-defined agent's keywords", async () => {
+      const decision = await routeMessage('read my tarot cards', 'general');
+      expect(decision.selectedAgent).toBe('fortune_teller');
+      expect(decision.handoff).toBe(true);
+      expect(decision.source).toBe('keyword');
+    });
+
+    it('ranks file-defined agents after the built-ins on a tie', async () => {
+      const decision = await routeMessage(
+        'tell me a joke about my fortune',
+        'general',
+      );
+      expect(decision.selectedAgent).toBe('joke');
+    });
+  });
+
   describe('bare greetings stay sticky (no classifier call)', () => {
     it.each([
       ['Hello', 'story_teller'],
@@ -155,12 +198,12 @@ describe('routeMessage', () => {
       // High-confidence mis-classification to operator_support — the
       // greeting short-circuit must ignore it.
       mockClassifyMessage.mockResolvedValue({
-        agentType: 'operator_support' as AgentType,
+        agentType: 'operator_support' as AgentId,
         confidence: 0.9,
         reasoning: 'mock mis-classification',
       });
 
-      const decision = await routeMessage(msg, currentAgent as AgentType);
+      const decision = await routeMessage(msg, currentAgent as AgentId);
       expect(decision.selectedAgent).toBe(currentAgent);
       expect(decision.handoff).toBe(false);
       expect(decision.source).toBe('sticky');
@@ -183,13 +226,13 @@ describe('logRoutingDecision', () => {
   it('logs a handoff line when decision.handoff is true', () => {
     logRoutingDecision(
       {
-        selectedAgent: 'youtube_guru' as AgentType,
+        selectedAgent: 'youtube_guru' as AgentId,
         handoff: true,
         confidence: 0.9,
         reason: 'keyword match',
         source: 'keyword',
       },
-      { currentAgent: 'joke' as AgentType, userId: 'u1' },
+      { currentAgent: 'joke' as AgentId, userId: 'u1' },
     );
     const calls = logSpy.mock.calls.flat().join('\n');
     expect(calls).toMatch(/ROUTER handoff joke → youtube_guru/);
@@ -198,13 +241,13 @@ describe('logRoutingDecision', () => {
   it('logs a stick line when decision.handoff is false', () => {
     logRoutingDecision(
       {
-        selectedAgent: 'joke' as AgentType,
+        selectedAgent: 'joke' as AgentId,
         handoff: false,
         confidence: 0.5,
         reason: 'sticky default',
         source: 'sticky',
       },
-      { currentAgent: 'joke' as AgentType, userId: 'u1' },
+      { currentAgent: 'joke' as AgentId, userId: 'u1' },
     );
     const calls = logSpy.mock.calls.flat().join('\n');
     expect(calls).toMatch(/ROUTER stick with joke/);
@@ -0,0 +1,206 @@
+import {
+  extractMemories,
+  MEMORY_HEADING,
+  UserMemoryService,
+  withMemories,
+} from '../userMemory';
+import { MemoryUserMemoryStore } from '../../storage/memoryUserMemoryStore';
+import { UserMemoryStore } from '../../storage/userMemoryStore';
+
+describe('userMemory', () => {
+  describe('extractMemories', () => {
+    it('should pick up a name and where the user lives for any agent', () => {
+      expect(
+        extractMemories(
+          'Hi, my name is Sam Lee and I live in Leeds.',
+          'general',
+        ),
+      ).toEqual([
+        { kind: 'fact', key: 'name', content: 'Name: Sam Lee' },
+        { kind: 'fact', key: 'location', content: 'Lives in Leeds' },
+      ]);
+    });
+
+    it('should not mistake "call me later" for a name', () => {
+      expect(extractMemories('Can you call me later?', 'general')).toEqual([]);
+    });
+
+    it('should file music favourites under the music guru', () => {
+      expect(
+        extractMemories('My favorite genre is jazz fusion!', 'general'),
+      ).toEqual([
+        {
+          kind: 'preference',
+          key: 'favorite:genre',
+          content: 'Favorite genre: jazz fusion',
+          agentType: 'music_guru',
+        },
+      ]);
+      expect(
+        extractMemories('my favourite food is ramen', 'music_guru')[0],
+      ).not.toHaveProperty('agentType');
+    });
+
+    it('should record likes and dislikes but skip vague objects', () => {
+      const memories = extractMemories(
+        'I really love Radiohead. I hate country music. I like that one.',
+        'music_guru',
+      );
+
+      expect(memories).toEqual([
+        {
+          kind: 'preference',
+          key: 'taste:radiohead',
+          content: 'Likes Radiohead',
+          agentType: 'music_guru',
+        },
+        {
+          kind: 'preference',
+          key: 'taste:country_music',
+          content: 'Dislikes country music',
+          agentType: 'music_guru',
+        },
+      ]);
+    });
+
+    it('should remember a D&D character only at the D&D table', () => {
+      const message = "I'm playing a half-elf rogue named Vex";
+
+      expect(extractMemories(message, 'dnd_master')).toEqual([
+        {
+          kind: 'thread',
+          key: 'dnd:character',
+          content: 'D&D character: a half-elf rogue named Vex',
+          agentType: 'dnd_master',
+        },
+      ]);
+      expect(extractMemories(message, 'general')).toEqual([]);
+    });
+
+    it('should open a support thread from a problem report', () => {
+      expect(
+        extractMemories(
+          'I was double charged for my March invoice. Can you help?',
+          'billing_support',
+        ),
+      ).toEqual([
+        {
+          kind: 'thread',
+          key: 'open_issue:billing_support',
+          content:
+            'Open billing issue: I was double charged for my March invoice.',
+          agentType: 'billing_support',
+        },
+      ]);
+      expect(extractMemories('Thanks, all set now', 'billing_support')).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('withMemories', () => {
+    it('should leave the prompt alone when there is nothing to add', () => {
+      expect(withMemories('You are helpful.', [])).toBe('You are helpful.');
+    });
+
+    it('should append each memory under the heading', () => {
+      const now = new Date();
+      const prompt = withMemories('You are helpful.', [
+        {
+          id: 'm1',
+          userId: 'u1',
+          kind: 'fact',
+          key: 'name',
+          content: 'Name: Sam',
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+
+      expect(prompt.startsWith(`You are helpful.\n\n${MEMORY_HEADING}\n`)).toBe(
+        true,
+      );
+      expect(prompt).toContain('- Name: Sam');
+    });
+  });
+
+  describe('UserMemoryService', () => {
+    let store: MemoryUserMemoryStore;
+    let service: UserMemoryService;
+
+    beforeEach(() => {
+      store = new MemoryUserMemoryStore();
+      service = new UserMemoryService(store);
+    });
+
+    it('should store extracted memories against the owner and conversation', async () => {
+      await service.remember(
+        'anon_1',
+        'My favorite band is Muse',
+        'music_guru',
+        'conv-1',
+      );
+
+      expect(await store.list('anon_1')).toEqual([
+        expect.objectContaining({
+          userId: 'anon_1',
+          key: 'favorite:band',
+          content: 'Favorite band: Muse',
+          agentType: 'music_guru',
+          sourceConversationId: 'conv-1',
+        }),
+      ]);
+    });
+
+    it('should recall shared memories plus the current agent own ones', async () => {
+      await service.remember('u1', 'My name is Sam', 'general');
+      await service.remember('u1', 'My favorite genre is jazz', 'music_guru');
+      await service.remember(
+        'u1',
+        'My character is Thorin the dwarf',
+        'dnd_master',
+      );
+
+      const forMusic = await service.recall('u1', 'music_guru');
+      expect(forMusic.map(m => m.key).sort()).toEqual([
+        'favorite:genre',
+        'name',
+      ]);
+      const forDnd = await service.recall('u1', 'dnd_master');
+      expect(forDnd.map(m => m.key).sort()).toEqual(['dnd:character', 'name']);
+    });
+
+    it('should close an open support issue once it is resolved', async () => {
+      await service.remember(
+        'u1',
+        'My card payment failed twice',
+        'billing_support',
+      );
+      expect(await store.list('u1')).toHaveLength(1);
+
+      await service.remember(
+        'u1',
+        'Update: the payment is resolved',
+        'billing_support',
+      );
+
+      expect(await store.list('u1')).toEqual([]);
+    });
+
+    it('should swallow storage failures', async () => {
+      const broken: UserMemoryStore = {
+        list: jest.fn().mockRejectedValue(new Error('down')),
+        upsert: jest.fn().mockRejectedValue(new Error('down')),
+        delete: jest.fn(),
+        clear: jest.fn(),
+      };
+      const failing = new UserMemoryService(broken);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(failing.recall('u1', 'general')).resolves.toEqual([]);
+      await expect(
+        failing.remember('u1', 'My name is Sam', 'general'),
+      ).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,338 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { Agent, LLM_PROVIDER_IDS, VALIDATION_STEPS } from './types';
+import { logger } from '../logger';
+
+/**
+ * Agents defined in files rather than in config.ts, so a persona can be
+ * added or tuned without a code change. Each `.yaml`, `.yml` or `.json`
+ * file in `AGENTS_DIR` (default `agents/`) holds one agent:
+ *
+ *   id: fortune_teller
+ *   name: Fortune Teller
+ *   description: Reads your fortune in tea leaves and tarot cards
+ *   systemPrompt: You are a theatrical but kind fortune teller...
+ *   model: gpt-4o-mini
+ *   provider: openai          # optional, like fallbackProvider
+ *   temperature: 0.9          # optional, default 0.7
+ *   maxTokens: 800            # optional, default 1000
+ *   tools: [roll_dice]        # optional
+ *   keywords: [fortune, tarot] # optional, for the router
+ *   validationPolicy:          # optional, see ValidationPolicy
+ *     steps: [regenerate, canned]
+ *     maxAttempts: 1
+ *
+ * A file whose id is a built-in agent's replaces that agent, keeping the
+ * built-in validation policy unless the file sets its own. Files are
+ * checked against the schema below; one that fails is skipped (or, when it
+ * was edited, keeps its last good version) and the problems are logged.
+ * `watch()` reloads the directory whenever something in it changes.
+ */
+
+const AGENT_FILE = /\.(ya?ml|json)$/i;
+const AGENT_ID = /^[a-z][a-z0-9_]{1,39}$/;
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+/** Editors write a file in several steps; reload once they are done. */
+const RELOAD_DELAY_MS = 200;
+
+const FIELDS = new Set([
+  'id',
+  'name',
+  'description',
+  'systemPrompt',
+  'model',
+  'provider',
+  'fallbackProvider',
+  'temperature',
+  'maxTokens',
+  'tools',
+  'keywords',
+  'maxToolIterations',
+  'cacheSystem',
+  'validationPolicy',
+]);
+
+const POLICY_FIELDS = new Set([
+  'steps',
+  'maxAttempts',
+  'fallbackProvider',
+  'fallbackModel',
+  'cannedResponse',
+]);
+
+/**
+ * Check a parsed agent file and fill in its defaults. Throws with every
+ * problem found, so one edit can fix them all.
+ */
+export function parseAgentDefinition(raw: unknown): Agent {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('An agent file must hold a single object');
+  }
+  const def = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const key of Object.keys(def)) {
+    if (!FIELDS.has(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+  const text = (key: string): void => {
+    const value = def[key];
+    if (value === undefined) {
+      problems.push(`"${key}" is required`);
+    } else if (typeof value !== 'string' || value.trim() === '') {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  };
+  const optionalText = (value: unknown, key: string): void => {
+    if (
+      value !== undefined &&
+      (typeof value !== 'string' || value.trim() === '')
+    ) {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  };
+  const list = (key: string): void => {
+    const value = def[key];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) ||
+        value.some(item => typeof item !== 'string' || item.trim() === ''))
+    ) {
+      problems.push(`"${key}" must be a list of strings`);
+    }
+  };
+  const provider = (key: string, value: unknown = def[key]): void => {
+    if (
+      value !== undefined &&
+      !(LLM_PROVIDER_IDS as readonly unknown[]).includes(value)
+    ) {
+      problems.push(`"${key}" must be one of ${LLM_PROVIDER_IDS.join(', ')}`);
+    }
+  };
+  const positiveInteger = (key: string): void => {
+    const value = def[key];
+    if (
+      value !== undefined &&
+      !(typeof value === 'number' && Number.isInteger(value) && value > 0)
+    ) {
+      problems.push(`"${key}" must be a whole number above 0`);
+    }
+  };
+
+  text('id');
+  if (typeof def.id === 'string' && !AGENT_ID.test(def.id)) {
+    problems.push(
+      '"id" must be 2-40 lower-case letters, digits or underscores, starting with a letter',
+    );
+  }
+  text('name');
+  text('description');
+  text('systemPrompt');
+  text('model');
+  provider('provider');
+  provider('fallbackProvider');
+  if (
+    def.temperature !== undefined &&
+    !(
+      typeof def.temperature === 'number' &&
+      def.temperature >= 0 &&
+      def.temperature <= 2
+    )
+  ) {
+    problems.push('"temperature" must be a number from 0 to 2');
+  }
+  positiveInteger('maxTokens');
+  positiveInteger('maxToolIterations');
+  list('tools');
+  list('keywords');
+  if (def.cacheSystem !== undefined && typeof def.cacheSystem !== 'boolean') {
+    problems.push('"cacheSystem" must be true or false');
+  }
+  const policy = def.validationPolicy;
+  if (policy !== undefined) {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      problems.push('"validationPolicy" must be an object');
+    } else {
+      const fields = policy as Record<string, unknown>;
+      for (const key of Object.keys(fields)) {
+        if (!POLICY_FIELDS.has(key)) {
+          problems.push(`unknown field "validationPolicy.${key}"`);
+        }
+      }
+      if (
+        !Array.isArray(fields.steps) ||
+        fields.steps.length === 0 ||
+        fields.steps.some(
+          step => !(VALIDATION_STEPS as readonly unknown[]).includes(step),
+        )
+      ) {
+        problems.push(
+          `"validationPolicy.steps" must be a list of ${VALIDATION_STEPS.join(', ')}`,
+        );
+      }
+      if (
+        !(
+          typeof fields.maxAttempts === 'number' &&
+          Number.isInteger(fields.maxAttempts) &&
+          fields.maxAttempts >= 0
+        )
+      ) {
+        problems.push('"validationPolicy.maxAttempts" must be a whole number');
+      }
+      provider('validationPolicy.fallbackProvider', fields.fallbackProvider);
+      optionalText(fields.fallbackModel, 'validationPolicy.fallbackModel');
+      optionalText(fields.cannedResponse, 'validationPolicy.cannedResponse');
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const id = def.id as string;
+  return {
+    id,
+    type: id,
+    name: def.name as string,
+    description: def.description as string,
+    systemPrompt: def.systemPrompt as string,
+    model: def.model as string,
+    temperature: (def.temperature as number | undefined) ?? DEFAULT_TEMPERATURE,
+    maxTokens: (def.maxTokens as number | undefined) ?? DEFAULT_MAX_TOKENS,
+    ...(def.provider !== undefined && {
+      provider: def.provider as Agent['provider'],
+    }),
+    ...(def.fallbackProvider !== undefined && {
+      fallbackProvider: def.fallbackProvider as Agent['fallbackProvider'],
+    }),
+    ...(def.tools !== undefined && { tools: def.tools as string[] }),
+    ...(def.keywords !== undefined && {
+      keywords: (def.keywords as string[]).map(k => k.trim().toLowerCase()),
+    }),
+    ...(def.maxToolIterations !== undefined && {
+      maxToolIterations: def.maxToolIterations as number,
+    }),
+    ...(def.cacheSystem !== undefined && {
+      cacheSystem: def.cacheSystem as boolean,
+    }),
+    ...(def.validationPolicy !== undefined && {
+      validationPolicy: def.validationPolicy as Agent['validationPolicy'],
+    }),
+  };
+}
+
+export class AgentLoader {
+  /** The last good definition in each file, by file name. */
+  private byFile = new Map<string, Agent>();
+  private byId = new Map<string, Agent>();
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  /** Defaults to `AGENTS_DIR`, read when loading so `.env` has been applied. */
+  constructor(private readonly directory?: string) {}
+
+  private get dir(): string {
+    return this.directory ?? (process.env.AGENTS_DIR || 'agents');
+  }
+
+  get(id: string): Agent | undefined {
+    return this.byId.get(id);
+  }
+
+  /** File-defined agents, ordered by id. */
+  list(): Agent[] {
+    return [...this.byId.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /** Read every agent file in the directory, replacing what was loaded. */
+  load(): void {
+    let files: string[];
+    try {
+      files = fs
+        .readdirSync(this.dir)
+        .filter(file => AGENT_FILE.test(file))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error({ error, dir: this.dir }, 'Could not read agent files');
+      }
+      files = [];
+    }
+
+    const byFile = new Map<string, Agent>();
+    const byId = new Map<string, Agent>();
+    for (const file of files) {
+      let agent: Agent | undefined;
+      try {
+        agent = parseAgentDefinition(this.read(file));
+      } catch (error) {
+        agent = this.byFile.get(file);
+        logger.error(
+          { file, kept: !!agent },
+          `Invalid agent file: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+      if (!agent) {
+        continue;
+      }
+      if (byId.has(agent.id)) {
+        logger.error(
+          { file, id: agent.id },
+          'Agent file skipped: another file already defines this id',
+        );
+        continue;
+      }
+      byFile.set(file, agent);
+      byId.set(agent.id, agent);
+    }
+    this.byFile = byFile;
+    this.byId = byId;
+    if (files.length > 0) {
+      logger.info(
+        { dir: this.dir, agents: [...byId.keys()] },
+        'Loaded agent files',
+      );
+    }
+  }
+
+  /** Reload whenever a file in the directory changes. */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+    try {
+      this.watcher = fs.watch(this.dir, () => {
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.load(), RELOAD_DELAY_MS);
+        this.reloadTimer.unref();
+      });
+      this.watcher.unref();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.info(
+          { dir: this.dir },
+          'No agent directory to watch; restart after creating it to add agent files',
+        );
+      } else {
+        logger.error({ error, dir: this.dir }, 'Could not watch agent files');
+      }
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private read(file: string): unknown {
+    const source = fs.readFileSync(path.join(this.dir, file), 'utf8');
+    return file.toLowerCase().endsWith('.json')
+      ? JSON.parse(source)
+      : yaml.load(source);
+  }
+}
+
+export const agentLoader = new AgentLoader();
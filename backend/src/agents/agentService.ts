@@ -1,22 +1,54 @@
 import OpenAI from 'openai';
+import { v4 as uuidv4 } from 'uuid';
 import { providerRegistry } from '../llm';
+import { LLMMessage, LLMProvider, LLMToolCall } from '../llm/provider';
 import { routeLLMForTier } from '../llm/tierRouter';
 import type { Tier } from '../middleware/identity';
-import { toolRegistry } from '../tools';
+import { ToolContext, toolRegistry } from '../tools';
 import { MediaAttachment } from '../types';
+import { UsageContext, usageService } from '../usage/usageService';
 import { classifyMessage } from './classifier';
 import { getAgent } from './config';
-import { AgentResponse, AgentType } from './types';
-import { Message } from '../types';
+import { agentLoader } from './agentLoader';
+import {
+  Agent,
+  AgentResponse,
+  AgentId,
+  BuiltInAgentType,
+  BUILT_IN_AGENT_TYPES,
+  DEFAULT_CANNED_RESPONSE,
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  DEFAULT_VALIDATION_POLICY,
+  HandoffInfo,
+  ProcessMessageOptions,
+  ValidationPolicy,
+  ValidationStep,
+} from './types';
+import { ConversationSummary, Message } from '../types';
+import {
+  buildContextWindow,
+  ConversationSummarizer,
+  extractiveSummarizer,
+} from './contextWindow';
 import { GoalSeekingSystem, GoalAction } from './goalSeekingSystem';
-import { responseValidator } from '../validation/responseValidator';
+import {
+  responseValidator,
+  ValidationAttempt,
+  ValidationDecision,
+  ValidationIssue,
+} from '../validation/responseValidator';
 import { jokeLearningSystem } from './jokeLearningSystem';
 import {
   ConversationManager,
   ConversationContext,
 } from './conversationManager';
-import { ragService } from './ragService';
-import { dndService } from './dndService';
+import {
+  ContentItem,
+  findUsedContent,
+  ragService,
+  withCuratedContent,
+} from './ragService';
+import { userMemoryService, withMemories } from './userMemory';
 import { routeMessage, logRoutingDecision, RoutingDecision } from './router';
 import {
   createAgentSpan,
@@ -26,11 +58,74 @@ import {
   endSpan,
 } from '../tracing/tracer';
 import { metricsEmit } from '../metrics/prometheus';
+import { gameEngine } from '../games/gameEngine';
+import { quizEngine } from '../games/quizEngine';
+import {
+  moderateOutput,
+  PolicyCategory,
+  redactForTier,
+  redactForTrace,
+} from '../moderation/moderation';
+
+/** A reply written by one of the validation policy's corrective steps. */
+interface CorrectedReply {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+type ReplyCorrector = (
+  step: Exclude<ValidationStep, 'canned'>,
+  issues: ValidationIssue[],
+) => Promise<CorrectedReply>;
+
+const CORRECTIONS_HEADING =
+  'Your previous reply to this message failed a quality check. Write a new reply that fixes these problems:';
+
+/** Append the validator's findings to a system prompt for a retry. */
+export function withCorrections(
+  systemPrompt: string,
+  issues: ValidationIssue[],
+): string {
+  const lines = issues.map(
+    issue =>
+      `- ${issue.message}${issue.suggestion ? ` (${issue.suggestion})` : ''}`,
+  );
+  return `${systemPrompt}\n\n${CORRECTIONS_HEADING}\n${lines.join('\n')}`;
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts. Tools don't
+ * take a signal, so an abandoned call keeps running but its result is
+ * ignored.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new Error('Aborted'));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      err => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+    );
+  });
+}
 
 export class AgentService {
   private goalSeekingSystem: GoalSeekingSystem;
   private conversationManager: ConversationManager;
-  private activeAgents: Map<string, { agentType: AgentType; timestamp: Date }> =
+  private activeAgents: Map<string, { agentType: AgentId; timestamp: Date }> =
     new Map();
   private actionQueue: Map<string, GoalAction[]> = new Map();
   private processingQueue: Set<string> = new Set();
@@ -53,7 +148,7 @@ export class AgentService {
   }
 
   // Set an agent as active for a user
-  private setAgentActive(userId: string, agentType: AgentType): void {
+  private setAgentActive(userId: string, agentType: AgentId): void {
     this.activeAgents.set(userId, {
       agentType,
       timestamp: new Date(),
@@ -98,10 +193,11 @@ export class AgentService {
   async processMessage(
     message: string,
     conversationHistory: Message[] = [],
-    forcedAgentType?: AgentType,
+    forcedAgentType?: AgentId,
     conversationId?: string,
     userId?: string,
     tier?: Tier,
+    options: ProcessMessageOptions = {},
   ): Promise<AgentResponse> {
     const span = createAgentSpan(
       'agent_service',
@@ -117,22 +213,30 @@ export class AgentService {
     });
 
     addSpanEvent(span, 'agent.process_message_start', {
-      message_preview: message.substring(0, 50),
+      message_preview: redactForTrace(message).substring(0, 50),
     });
 
     try {
       // Classify the message to determine which agent to use
-      let agentType: AgentType;
+      let agentType: AgentId;
       let confidence: number;
 
       addSpanEvent(span, 'agent.classification_start');
 
+      // Every model call below is charged to this user's usage budgets.
+      const usageOwner = options.ownerId ?? userId;
+
       if (forcedAgentType) {
         agentType = forcedAgentType;
         confidence = 1.0;
         addSpanEvent(span, 'agent.classification_forced', { agentType });
       } else {
-        const classification = await classifyMessage(message);
+        const classification = await classifyMessage(message, {
+          tier,
+          usage: usageOwner
+            ? { userId: usageOwner, conversationId }
+            : undefined,
+        });
         agentType = classification.agentType;
         confidence = classification.confidence;
 
@@ -155,6 +259,10 @@ export class AgentService {
       const agent = getAgent(agentType);
       addSpanEvent(span, 'agent.config_loaded', { agentName: agent.name });
 
+      const usageContext: UsageContext | undefined = usageOwner
+        ? { userId: usageOwner, conversationId, agentType }
+        : undefined;
+
       // For joke agent, use adaptive prompt based on user learning data
       let systemPrompt = agent.systemPrompt;
       if (agentType === 'joke' && userId) {
@@ -165,37 +273,20 @@ export class AgentService {
         addSpanEvent(span, 'agent.adaptive_prompt_generated');
       }
 
-      // Prepare the conversation history for the agent
-      const messages: Array<{
-        role: 'system' | 'user' | 'assistant';
-        content: string;
-      }> = [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-      ];
-
-      // Add conversation history (limit to last 10 messages to avoid token limits)
-      const recentHistory = conversationHistory.slice(-10);
-      for (const msg of recentHistory) {
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
+      // Carry what we know about the user over from earlier conversations
+      if (options.ownerId) {
+        const memories = await userMemoryService.recall(
+          options.ownerId,
+          agentType,
+        );
+        if (memories.length > 0) {
+          systemPrompt = withMemories(systemPrompt, memories);
+          addSpanEvent(span, 'agent.memories_injected', {
+            count: memories.length,
+          });
+        }
       }
 
-      // Add the current message
-      messages.push({
-        role: 'user',
-        content: message,
-      });
-
-      addSpanEvent(span, 'agent.messages_prepared', {
-        messageCount: messages.length,
-        historyCount: recentHistory.length,
-      });
-
       // Generate response using the agent
       let responseContent: string;
       const attachments: MediaAttachment[] = [];
@@ -203,69 +294,132 @@ export class AgentService {
       // provider/model that was actually selected, not 'unknown'.
       let emittedProviderId: string | undefined;
       let emittedModel: string | undefined;
+      const { signal } = options;
+      let cancelled = false;
+      // Text relayed so far; kept outside the try so a cancelled request
+      // still returns what the client has already been shown.
+      let accText = '';
+      // Set when older turns were folded into a new rolling summary.
+      let updatedSummary: ConversationSummary | undefined;
+      // Curated RAG items offered to the model in the system prompt.
+      let curatedContent: ContentItem[] = [];
+      // Set when moderation withheld the reply.
+      let blocked: PolicyCategory | undefined;
+      // Writes a corrected reply for the validation policy; only set once a
+      // generation has finished, since error replies have no provider to
+      // ask again.
+      let correctReply: ReplyCorrector | undefined;
 
       addSpanEvent(span, 'agent.response_generation_start');
 
       try {
-        if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-          // Demo response when no API keys are provided
-          responseContent = this.generateDemoResponse(agent.name, message);
-          addSpanEvent(span, 'agent.demo_response_generated');
-        } else {
-          // Resolve provider (falls back to openai if preferred unavailable).
-          // Tier routing: when LLM_TIERED is on and the caller is anonymous,
-          // route to the Foundry free-tier model before asking the registry
-          // to resolve. Authenticated callers keep the agent's default.
-          const agentConfig = agent as typeof agent & {
-            provider?: string;
-            fallbackProvider?: string;
-            tools?: string[];
-            cacheSystem?: boolean;
-          };
-          const tierRoute = routeLLMForTier(
-            {
-              provider: agentConfig.provider as any,
-              fallbackProvider: agentConfig.fallbackProvider as any,
-              model: agent.model,
-            },
+        // Resolve provider (falls back to openai if preferred unavailable).
+        // Tier routing: when LLM_TIERED is on and the caller is anonymous,
+        // route to the Foundry free-tier model before asking the registry
+        // to resolve. Authenticated callers keep the agent's default.
+        const agentConfig = agent as typeof agent & {
+          provider?: string;
+          fallbackProvider?: string;
+          tools?: string[];
+          cacheSystem?: boolean;
+        };
+        const tierRoute = routeLLMForTier(
+          {
+            provider: agentConfig.provider as any,
+            fallbackProvider: agentConfig.fallbackProvider as any,
+            model: agent.model,
+          },
+          tier,
+        );
+        if (tierRoute.overrideApplied) {
+          addSpanEvent(span, 'agent.tier_override_applied', {
             tier,
-          );
-          if (tierRoute.overrideApplied) {
-            addSpanEvent(span, 'agent.tier_override_applied', {
-              tier,
-              provider: tierRoute.provider,
-              model: tierRoute.model,
-            });
-          }
-          const { provider, model: fallbackModel } = providerRegistry.resolve(
-            tierRoute.provider,
-            tierRoute.fallbackProvider,
-          );
-          const resolvedModel = fallbackModel ?? tierRoute.model;
-          emittedProviderId = provider.id;
-          emittedModel = resolvedModel;
-          const agentTools = agentConfig.tools?.length
-            ? toolRegistry.getForAgent(agentConfig.tools)
-            : [];
-
-          addSpanEvent(span, 'agent.provider_call_start', {
-            provider: provider.id,
-            model: resolvedModel,
+            provider: tierRoute.provider,
+            model: tierRoute.model,
+          });
+        }
+        const { provider, model: fallbackModel } = providerRegistry.resolve(
+          tierRoute.provider,
+          tierRoute.fallbackProvider,
+        );
+        const resolvedModel = fallbackModel ?? tierRoute.model;
+        emittedProviderId = provider.id;
+        emittedModel = resolvedModel;
+        const agentTools = agentConfig.tools?.length
+          ? toolRegistry.getForAgent(agentConfig.tools)
+          : [];
+
+        // Ground entertainment agents in the curated, rated content
+        curatedContent = await ragService.retrieveForAgent(agentType, message);
+        if (curatedContent.length > 0) {
+          systemPrompt = withCuratedContent(systemPrompt, curatedContent);
+          addSpanEvent(span, 'agent.rag_content_injected', {
+            contentIds: curatedContent.map(item => item.id).join(','),
           });
+        }
+
+        addSpanEvent(span, 'agent.provider_call_start', {
+          provider: provider.id,
+          model: resolvedModel,
+        });
 
-          // Collect streamed response + tool calls
-          const systemMsg = messages[0].content;
-          const chatMessages = messages.slice(1).map(m => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content,
-          }));
+        // Fit the history to this model's context window. Without a
+        // conversation to store it on, a model-written summary would be
+        // thrown away after this call, so fold with the extractive one.
+        const context = await buildContextWindow({
+          systemPrompt,
+          history: conversationHistory,
+          message,
+          providerId: provider.id,
+          model: resolvedModel,
+          maxOutputTokens: agent.maxTokens,
+          summary: options.summary,
+          summarize: conversationId
+            ? this.createSummarizer(
+                provider,
+                resolvedModel,
+                signal,
+                usageContext,
+              )
+            : extractiveSummarizer,
+        });
+        if (context.summaryUpdated) {
+          updatedSummary = context.summary;
+        }
+        addSpanEvent(span, 'agent.messages_prepared', {
+          messageCount: context.messages.length + 1,
+          historyCount: context.stats.keptMessages,
+          foldedCount: context.stats.foldedMessages,
+          inputBudget: context.stats.inputBudget,
+          estimatedInputTokens: context.stats.estimatedInputTokens,
+          summaryUpdated: context.summaryUpdated,
+        });
 
-          let accText = '';
-          const pendingToolCalls: Array<{
-            id: string;
-            name: string;
-            input: unknown;
-          }> = [];
+        // Agentic loop: stream a turn, execute any requested tools, feed
+        // the results back as `tool` messages and ask the model again so
+        // the final answer can talk about what the tools returned.
+        const systemMsg = context.system;
+        const chatMessages: LLMMessage[] = context.messages;
+        const maxToolIterations =
+          agent.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+
+        // Text is relayed to `onTextDelta` as it arrives so socket clients
+        // see the provider's real time-to-first-token. Text from separate
+        // turns is joined with a blank line.
+        let turnText = '';
+        const emitText = (text: string): void => {
+          const prefix = accText && !turnText ? '\n\n' : '';
+          turnText += text;
+          accText += prefix + text;
+          options.onTextDelta?.(prefix + text);
+        };
+        const toolTexts: string[] = [];
+        const streamStart = process.hrtime.bigint();
+        let firstTokenSeen = false;
+
+        for (let iteration = 0; ; iteration++) {
+          turnText = '';
+          const pendingToolCalls: LLMToolCall[] = [];
 
           for await (const evt of provider.stream({
             model: resolvedModel,
@@ -275,9 +429,22 @@ export class AgentService {
             temperature: agent.temperature,
             maxTokens: agent.maxTokens,
             cacheSystem: agentConfig.cacheSystem,
+            signal,
+            agentType,
           })) {
+            if (signal?.aborted) {
+              break;
+            }
             if (evt.type === 'text_delta') {
-              accText += evt.text;
+              if (!firstTokenSeen) {
+                firstTokenSeen = true;
+                metricsEmit.llm.timeToFirstToken(
+                  provider.id,
+                  resolvedModel,
+                  Number(process.hrtime.bigint() - streamStart) / 1e9,
+                );
+              }
+              emitText(evt.text);
             } else if (evt.type === 'tool_call') {
               pendingToolCalls.push({
                 id: evt.id,
@@ -286,11 +453,24 @@ export class AgentService {
               });
             } else if (evt.type === 'done' && evt.usage) {
               addSpanEvent(span, 'agent.provider_call_complete', {
+                iteration,
                 tokensInput: evt.usage.input,
                 tokensOutput: evt.usage.output,
               });
+              if (usageContext) {
+                void usageService.record(
+                  usageContext,
+                  evt.provider ?? provider.id,
+                  evt.model ?? resolvedModel,
+                  evt.usage,
+                );
+              }
             }
           }
+          if (signal?.aborted) {
+            cancelled = true;
+            break;
+          }
           metricsEmit.tier.llmRequest(
             tier,
             provider.id,
@@ -298,115 +478,216 @@ export class AgentService {
             'success',
           );
 
-          // Execute tool calls and collect attachments
+          if (pendingToolCalls.length === 0) {
+            break;
+          }
+          if (iteration >= maxToolIterations) {
+            console.warn(
+              `⚠️ ${agent.name} hit the tool iteration limit (${maxToolIterations}); ignoring ${pendingToolCalls.length} tool call(s)`,
+            );
+            addSpanEvent(span, 'agent.tool_iteration_limit_reached', {
+              maxToolIterations,
+              ignoredToolCalls: pendingToolCalls.length,
+            });
+            break;
+          }
+
+          chatMessages.push({
+            role: 'assistant',
+            content: turnText,
+            tool_calls: pendingToolCalls,
+          });
           for (const tc of pendingToolCalls) {
-            const tool = toolRegistry.get(tc.name);
-            if (!tool) {
-              continue;
-            }
-            try {
-              const result = await tool.execute(tc.input);
-              const results = Array.isArray(result) ? result : [result];
-              for (const r of results) {
-                attachments.push(r.attachment);
-                if (r.text) {
-                  accText += (accText ? '\n\n' : '') + r.text;
-                }
-              }
-            } catch (toolErr) {
-              console.error(`Tool execution failed: ${tc.name}`, toolErr);
+            chatMessages.push({
+              role: 'tool',
+              tool_call_id: tc.id,
+              content: await this.executeToolCall(
+                tc,
+                // Socket callers pass the socket id as `userId`; tools
+                // keep state for the resolveIdentity user.
+                { conversationId, userId: options.ownerId ?? userId },
+                attachments,
+                toolTexts,
+                signal,
+              ),
+            });
+            if (signal?.aborted) {
+              break;
             }
           }
+          if (signal?.aborted) {
+            cancelled = true;
+            break;
+          }
+          addSpanEvent(span, 'agent.tool_round_complete', {
+            iteration,
+            toolCalls: pendingToolCalls.map(tc => tc.name).join(','),
+          });
+        }
 
-          // If the LLM emitted only tool calls (no text) and tools produced
-          // attachments, synthesize a short intro. Many models emit just a
-          // tool_call and rely on a second turn to write the final text; we
-          // don't round-trip here, so we supply a sensible default keyed off
-          // the first attachment type.
+        if (cancelled) {
+          // Keep exactly what the client has already been shown.
+          responseContent = accText;
+          addSpanEvent(span, 'agent.generation_cancelled', {
+            responseLength: accText.length,
+          });
+        } else {
+          // The model may still stop without text (e.g. it hit the
+          // iteration limit); fall back to whatever the tools said about
+          // themselves.
           if (!accText && attachments.length > 0) {
-            const first = attachments[0];
-            const intros: Record<string, string> = {
-              youtube: "Here's a video for you:",
-              video: "Here's a video for you:",
-              audio: "Here's something to listen to:",
-              gif: "Here's a GIF for you:",
-              image: 'Here you go:',
-              image_gallery: 'Here are some images:',
-              dice: 'Here is your roll:',
-              card: 'Here you go:',
-            };
-            accText = intros[first.type] ?? 'Here you go:';
+            emitText(toolTexts.join('\n\n') || 'Here you go:');
           }
 
           responseContent =
             accText ||
             `I apologize, but I encountered an error while processing your request. Please try again.`;
+
+          // Corrected replies start from the same point as the rejected
+          // one, tool results included, and may not call tools again:
+          // nothing would run them. They are not streamed; the final chunk
+          // carries whichever reply is sent.
+          const policy = agent.validationPolicy ?? DEFAULT_VALIDATION_POLICY;
+          correctReply = async (step, issues) => {
+            const target =
+              step === 'fallback'
+                ? this.resolveValidationFallback(
+                    policy,
+                    provider,
+                    resolvedModel,
+                  )
+                : { provider, model: resolvedModel };
+            let text = '';
+            for await (const evt of target.provider.stream({
+              model: target.model,
+              system: withCorrections(systemMsg, issues),
+              messages: chatMessages,
+              tools: agentTools,
+              toolChoice: 'none',
+              temperature: agent.temperature,
+              maxTokens: agent.maxTokens,
+              signal,
+              agentType,
+            })) {
+              if (evt.type === 'text_delta') {
+                text += evt.text;
+              } else if (evt.type === 'done' && evt.usage && usageContext) {
+                void usageService.record(
+                  usageContext,
+                  evt.provider ?? target.provider.id,
+                  evt.model ?? target.model,
+                  evt.usage,
+                );
+              }
+            }
+            metricsEmit.tier.llmRequest(
+              tier,
+              target.provider.id,
+              target.model,
+              'success',
+            );
+            return {
+              content: text,
+              provider: target.provider.id,
+              model: target.model,
+            };
+          };
         }
       } catch (error) {
-        console.error(`Error calling LLM provider for ${agent.name}:`, error);
-        addSpanEvent(span, 'agent.provider_call_error', {
-          error: (error as Error).message,
-        });
-        metricsEmit.tier.llmRequest(
-          tier,
-          emittedProviderId ?? 'unknown',
-          emittedModel ?? 'unknown',
-          'error',
-        );
-        responseContent = `I apologize, but I encountered an error while processing your request. Please try again.`;
+        if (signal?.aborted) {
+          // The SDK rejects the pending request with an abort error; that is
+          // the cancellation itself, not a provider failure.
+          cancelled = true;
+          responseContent = accText;
+          addSpanEvent(span, 'agent.generation_cancelled', {
+            responseLength: accText.length,
+          });
+        } else {
+          console.error(`Error calling LLM provider for ${agent.name}:`, error);
+          addSpanEvent(span, 'agent.provider_call_error', {
+            error: (error as Error).message,
+          });
+          metricsEmit.tier.llmRequest(
+            tier,
+            emittedProviderId ?? 'unknown',
+            emittedModel ?? 'unknown',
+            'error',
+          );
+          responseContent = `I apologize, but I encountered an error while processing your request. Please try again.`;
+        }
       }
 
-      // Validate the response if conversationId and userId are provided
-      if (conversationId && userId) {
-        const validationSpan = createValidationSpan(conversationId, agentType);
-        addSpanEvent(validationSpan, 'validation.start');
-
-        const validationResult = responseValidator.validateResponse(
+      // Validate the response if conversationId (or the validate option)
+      // and userId are provided. A cancelled reply is deliberately
+      // incomplete, so it is not judged.
+      if ((conversationId || options.validate) && userId && !cancelled) {
+        const validated = await this.enforceValidationPolicy(
           agentType,
+          agent.validationPolicy ?? DEFAULT_VALIDATION_POLICY,
           message,
           responseContent,
-          conversationId,
+          conversationId ?? '',
           userId,
-          false, // Not a proactive message
+          correctReply,
+          signal,
         );
+        if (validated.decision === 'cancelled') {
+          // Keep exactly what the client has already been shown.
+          cancelled = true;
+          responseContent = accText;
+        } else {
+          responseContent = validated.content;
+        }
+      }
 
-        validationSpan.setAttributes({
-          'validation.issues_count': validationResult.issues.length,
-          'validation.has_high_severity': validationResult.issues.some(
-            issue => issue.severity === 'high',
-          ),
+      // Screen the reply before it is stored or sent for good. A cancelled
+      // reply is only redacted: the client has already seen it.
+      const moderated = moderateOutput(responseContent, tier);
+      if (moderated.violation && !cancelled) {
+        responseContent = moderated.text;
+        blocked = moderated.violation;
+        console.warn(
+          `🚫 Withheld ${agentType} reply: ${moderated.violation} policy`,
+        );
+        addSpanEvent(span, 'agent.output_blocked', {
+          category: moderated.violation,
         });
-
-        // Log validation issues if any
-        if (validationResult.issues.length > 0) {
-          console.warn(
-            `⚠️ Validation issues for ${agentType} response:`,
-            validationResult.issues,
-          );
-          addSpanEvent(validationSpan, 'validation.issues_found', {
-            issueCount: validationResult.issues.length,
+      } else {
+        responseContent = moderated.violation
+          ? redactForTier(responseContent, tier)
+          : moderated.text;
+        if (moderated.redacted.length > 0) {
+          addSpanEvent(span, 'agent.output_redacted', {
+            kinds: moderated.redacted.join(','),
           });
         }
+      }
 
-        // For high-severity issues, you might want to regenerate the response
-        // or provide a fallback response
-        if (validationResult.issues.some(issue => issue.severity === 'high')) {
-          console.error(
-            `❌ High severity validation issues detected for ${agentType} response`,
-          );
-          addSpanEvent(validationSpan, 'validation.high_severity_issues');
-          // Could implement fallback logic here
+      if (options.ownerId) {
+        const remembered = await userMemoryService.remember(
+          options.ownerId,
+          message,
+          agentType,
+          conversationId,
+        );
+        if (remembered.length > 0) {
+          addSpanEvent(span, 'agent.memories_stored', {
+            count: remembered.length,
+          });
         }
-
-        setSpanStatus(validationSpan, true);
-        endSpan(validationSpan);
       }
 
+      const ragContentIds = findUsedContent(responseContent, curatedContent);
+
       const result = {
         content: responseContent,
         agentUsed: agentType,
         confidence: confidence,
         ...(attachments.length > 0 && { attachments }),
+        ...(ragContentIds.length > 0 && { ragContentIds }),
+        ...(cancelled && { cancelled }),
+        ...(blocked && { blocked }),
+        ...(updatedSummary && { summary: updatedSummary }),
       };
 
       span.setAttributes({
@@ -434,156 +715,281 @@ export class AgentService {
       return {
         content:
           'I apologize, but I encountered an error while processing your request. Please try again.',
-        agentUsed: 'general' as AgentType,
+        agentUsed: 'general' as AgentId,
         confidence: 0,
       };
     }
   }
 
-  private generateDemoResponse(agentName: string, message: string): string {
-    if (agentName === 'Adaptive Joke Master') {
-      // Use RAG service for curated jokes
-      const ragContent = ragService.searchForAgent('joke', message, true);
-      if (ragContent) {
-        return `${ragContent.content} 😄
-
-🎭 *Learning from your reaction...* Want to hear another one? I'm adapting my humor based on what makes you laugh!
-
-📚 *From curated joke collection* - I have access to quality-rated jokes that are consistently entertaining!
-
-(This is demo mode with RAG - to get fresh AI-generated adaptive jokes, please set your OPENAI_API_KEY environment variable)`;
-      } else {
-        return `**Adaptive Joke Master Response** (Demo Mode)
-
-I'm your intelligent comedy companion with access to a curated joke database! I learn from your reactions and tailor my humor just for you.
-
-🎯 *I'm watching for your reaction to learn what makes you laugh!*
-
-In demo mode with RAG, I:
-- Use curated, quality-rated jokes from my database
-- Learn from your reactions (laughs, groans, etc.)
-- Adapt my joke style based on your preferences
-- Remember what works and avoid what doesn't
-- Access different joke categories: dad jokes, wordplay, tech humor, etc.
-
-To get real AI responses with adaptive learning, please set your OPENAI_API_KEY environment variable.`;
+  /**
+   * Validate a finished reply and, while it has high-severity issues, work
+   * through the agent's validation policy. Every attempt is validated, and
+   * so logged, in turn; the final decision is recorded against the last.
+   */
+  private async enforceValidationPolicy(
+    agentType: AgentId,
+    policy: ValidationPolicy,
+    message: string,
+    reply: string,
+    conversationId: string,
+    userId: string,
+    correctReply?: ReplyCorrector,
+    signal?: AbortSignal,
+  ): Promise<{ content: string; decision: ValidationDecision }> {
+    const validationSpan = createValidationSpan(conversationId, agentType);
+    addSpanEvent(validationSpan, 'validation.start');
+
+    const runId = uuidv4();
+    const steps = [...policy.steps];
+    let content = reply;
+    let attempt: ValidationAttempt = { runId, attempt: 0, action: 'initial' };
+    // Corrective steps taken (attempt numbers), and how many of them
+    // asked a model.
+    let tries = 0;
+    let generations = 0;
+    let decision: ValidationDecision;
+
+    const validate = async (): Promise<ValidationIssue[]> => {
+      const { issues, judge } = await responseValidator.evaluateResponse(
+        agentType,
+        message,
+        content,
+        conversationId,
+        userId,
+        false, // Not a proactive message
+        attempt,
+      );
+      const highSeverityCount = issues.filter(
+        issue => issue.severity === 'high',
+      ).length;
+      addSpanEvent(validationSpan, 'validation.attempt', {
+        attempt: attempt.attempt,
+        action: attempt.action,
+        ...(attempt.provider && { provider: attempt.provider }),
+        ...(attempt.model && { model: attempt.model }),
+        issueCount: issues.length,
+        highSeverityCount,
+        ...(judge && { judgeScore: judge.overall, judgePassed: judge.passed }),
+      });
+      if (issues.length > 0) {
+        console.warn(
+          `⚠️ Validation issues for ${agentType} response (attempt ${attempt.attempt}):`,
+          issues,
+        );
       }
-    } else if (agentName === 'Trivia Master') {
-      // Use RAG service for curated trivia
-      const ragContent = ragService.searchForAgent('trivia', message, true);
-      if (ragContent) {
-        return `${ragContent.content}
-
-Isn't that incredible? Want to hear another fascinating fact?
-
-📚 *From curated trivia collection* - I have access to quality-rated facts that are consistently mind-blowing!
-
-(This is demo mode with RAG - to get fresh AI-generated trivia, please set your OPENAI_API_KEY environment variable)`;
-      } else {
-        return `**Trivia Master Response** (Demo Mode)
-
-I'm your source for amazing facts with access to a curated trivia database! I love sharing knowledge that will blow your mind.
-
-📚 *From curated collection* - I have fascinating facts about science, history, nature, and more!
-
-In demo mode with RAG, I:
-- Share quality-rated facts from my curated database
-- Cover topics from space to culture to human achievements
-- Make facts engaging and memorable  
-- Encourage curiosity and learning
-- Access different categories: animals, science, history, space, etc.
-
-To get real AI responses with fresh trivia, please set your OPENAI_API_KEY environment variable.`;
+      if (highSeverityCount > 0) {
+        console.error(
+          `❌ High severity validation issues detected for ${agentType} response`,
+        );
+        addSpanEvent(validationSpan, 'validation.high_severity_issues', {
+          attempt: attempt.attempt,
+        });
       }
-    } else if (agentName === 'GIF Master') {
-      // Use RAG service for curated GIFs
-      const ragContent = ragService.searchForAgent('gif', message, true);
-      if (ragContent) {
-        return `Here's a perfect GIF for you! 🎬
-
-![${ragContent.metadata?.alt || 'Animated GIF'}](${ragContent.content})
+      return issues;
+    };
 
-*${ragContent.metadata?.description || 'Entertaining animated content'}*
+    let issues = await validate();
+    for (;;) {
+      if (attempt.action === 'canned') {
+        decision = 'canned';
+        break;
+      }
+      if (!issues.some(issue => issue.severity === 'high')) {
+        decision = 'accepted';
+        break;
+      }
 
-📚 *From curated GIF collection* - I have access to quality, entertaining GIFs that are consistently delightful!
+      // Skip steps that can't run: nothing to regenerate with, or the
+      // generation budget is spent.
+      let step: ValidationStep | undefined;
+      while ((step = steps.shift())) {
+        if (
+          step === 'canned' ||
+          (correctReply && generations < policy.maxAttempts)
+        ) {
+          break;
+        }
+      }
+      if (!step) {
+        decision = 'exhausted';
+        break;
+      }
 
-Want another one? I have GIFs for every mood and situation!
+      const next = ++tries;
+      if (step === 'canned') {
+        content = policy.cannedResponse ?? DEFAULT_CANNED_RESPONSE;
+        attempt = { runId, attempt: next, action: 'canned' };
+        issues = await validate();
+        continue;
+      }
 
-(This is demo mode with RAG - to get fresh AI-selected GIFs, please set your OPENAI_API_KEY environment variable)`;
-      } else {
-        return `**GIF Master Response** (Demo Mode)
+      generations++;
+      try {
+        const corrected = await correctReply!(step, issues);
+        if (!corrected.content.trim()) {
+          throw new Error('Corrected reply was empty');
+        }
+        content = corrected.content;
+        attempt = {
+          runId,
+          attempt: next,
+          action: step,
+          provider: corrected.provider,
+          model: corrected.model,
+        };
+        issues = await validate();
+      } catch (error) {
+        if (signal?.aborted) {
+          decision = 'cancelled';
+          break;
+        }
+        // Keep the rejected reply and move on to the next step.
+        console.warn(`⚠️ Validation ${step} attempt failed:`, error);
+        addSpanEvent(validationSpan, 'validation.attempt_failed', {
+          attempt: next,
+          action: step,
+          error: (error as Error).message,
+        });
+      }
+    }
 
-I'm your source for entertaining GIFs with access to a curated visual database! I brighten your day with perfect animated reactions.
+    responseValidator.recordDecision(runId, decision);
+    addSpanEvent(validationSpan, 'validation.decision', {
+      decision,
+      attempts: tries + 1,
+      action: attempt.action,
+    });
+    validationSpan.setAttributes({
+      'validation.decision': decision,
+      'validation.attempts': tries + 1,
+      'validation.issues_count': issues.length,
+      'validation.has_high_severity': issues.some(
+        issue => issue.severity === 'high',
+      ),
+    });
+    setSpanStatus(validationSpan, true);
+    endSpan(validationSpan);
 
-🎬 *From curated collection* - I have quality GIFs for every mood and situation!
+    return { content, decision };
+  }
 
-In demo mode with RAG, I:
-- Share quality-curated GIFs from my database
-- Provide perfect visual reactions for any situation
-- Cover different categories: funny, cute, excited, surprised, etc.
-- Make conversations more engaging with visual entertainment
-- Access GIFs for celebrations, reactions, emotions, and more
+  /**
+   * The provider/model a `fallback` step asks: the policy's fallback
+   * provider when it is configured, otherwise the one that answered.
+   */
+  private resolveValidationFallback(
+    policy: ValidationPolicy,
+    provider: LLMProvider,
+    model: string,
+  ): { provider: LLMProvider; model: string } {
+    if (!policy.fallbackProvider) {
+      return { provider, model: policy.fallbackModel ?? model };
+    }
+    const resolved = providerRegistry.resolve(policy.fallbackProvider);
+    return {
+      provider: resolved.provider,
+      model: policy.fallbackModel ?? resolved.model ?? model,
+    };
+  }
 
-To get real AI responses with fresh GIF selections, please set your OPENAI_API_KEY environment variable.`;
+  /**
+   * Summarize folded turns with the same provider/model that is answering,
+   * falling back to the extractive summary if the call fails or comes back
+   * empty. The call is charged to `usageContext` when there is one.
+   */
+  private createSummarizer(
+    provider: LLMProvider,
+    model: string,
+    signal?: AbortSignal,
+    usageContext?: UsageContext,
+  ): ConversationSummarizer {
+    return async (previous, messages, maxTokens) => {
+      const transcript = messages
+        .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+        .join('\n\n');
+      const prompt = previous
+        ? `Existing summary:\n${previous}\n\nNew turns to fold in:\n${transcript}`
+        : transcript;
+      try {
+        let summary = '';
+        for await (const evt of provider.stream({
+          model,
+          system:
+            'You maintain a running summary of a chat so it can continue after older turns are dropped. Merge the new turns into the existing summary. Keep names, facts the user shared, preferences, decisions and open questions; drop pleasantries. Reply with the summary only, as short bullet points.',
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.2,
+          maxTokens,
+          signal,
+        })) {
+          if (evt.type === 'text_delta') {
+            summary += evt.text;
+          } else if (evt.type === 'done' && evt.usage && usageContext) {
+            void usageService.record(
+              usageContext,
+              evt.provider ?? provider.id,
+              evt.model ?? model,
+              evt.usage,
+            );
+          }
+        }
+        if (summary.trim()) {
+          return summary.trim();
+        }
+      } catch (error) {
+        console.warn('⚠️ Conversation summary failed, using extract:', error);
       }
-    } else if (agentName === 'D&D Master') {
-      // Generate demo D&D content using the service
-      const character = dndService.generateCharacter();
-      const encounter = dndService.generateEncounter();
-      const diceRoll = dndService.rollDice('d20', 'Initiative roll');
-      const adventureHook = dndService.generateAdventureHook();
-
-      return `🎲 **D&D Master Response** (Demo Mode)
-
-Welcome, brave adventurer! I'm your D&D Master with full RPG capabilities! Here's a taste of what I can do:
-
-**🧙‍♂️ CHARACTER GENERATION:**
-${dndService.formatCharacter(character)}
-
-**🎲 DICE ROLLING:**
-${dndService.formatDiceRoll(diceRoll)}
-
-**⚔️ RANDOM ENCOUNTER:**
-${dndService.formatEncounter(encounter)}
-
-**🗺️ ADVENTURE HOOK:**
-${adventureHook}
-
-**🎮 What I can do in demo mode:**
-- Generate random characters with full stats and backstories
-- Roll any type of dice (d4, d6, d8, d10, d12, d20, d100) with modifiers
-- Create combat and roleplay encounters on demand
-- Handle advantage/disadvantage rolls
-- Generate adventure hooks and story elements
-- Run quick 10-15 minute RPG sessions
-- Format everything with proper D&D styling
-
-**Ready to play? Try saying:**
-- "Generate a new character"
-- "Roll a d20"
-- "Give me a combat encounter" 
-- "Start an adventure"
-- "Roll with advantage"
-
-To get full AI-powered D&D Master responses with dynamic storytelling, please set your OPENAI_API_KEY environment variable!`;
-    } else {
-      return `**General Assistant Response** (Demo Mode)
-
-Thanks for your message: "${message}"
-
-I'm here to help with general questions, casual conversation, creative tasks, and everyday assistance. In demo mode, I would:
-- Engage in natural conversation
-- Answer general knowledge questions
-- Provide helpful advice and recommendations
-- Assist with creative and everyday tasks
+      return extractiveSummarizer(previous, messages, maxTokens);
+    };
+  }
 
-To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
+  /**
+   * Run one tool call, collecting its attachments, and return the content of
+   * the `tool` message fed back to the model. Failures are reported to the
+   * model rather than thrown so it can recover in its next turn.
+   */
+  private async executeToolCall(
+    call: LLMToolCall,
+    context: ToolContext,
+    attachments: MediaAttachment[],
+    toolTexts: string[],
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const tool = toolRegistry.get(call.name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+    }
+    try {
+      const result = await raceAbort(tool.execute(call.input, context), signal);
+      const results = Array.isArray(result) ? result : [result];
+      for (const r of results) {
+        attachments.push(r.attachment);
+        if (r.text) {
+          toolTexts.push(r.text);
+        }
+      }
+      // The attachment id is an internal render key; the model only needs
+      // the payload.
+      return JSON.stringify(
+        results.map(
+          ({ attachment: { id: _id, ...attachment }, text, data }) => ({
+            ...(text && { text }),
+            attachment,
+            ...(data && { data }),
+          }),
+        ),
+      );
+    } catch (toolErr) {
+      console.error(`Tool execution failed: ${call.name}`, toolErr);
+      return JSON.stringify({
+        error: `Tool ${call.name} failed: ${(toolErr as Error).message}`,
+      });
     }
   }
 
-  // Method to get available agents info
+  // Method to get available agents info, with agent files' changes and
+  // additions
   getAvailableAgents() {
-    return [
+    const builtIn = [
       {
         id: 'general',
         name: 'General Assistant',
@@ -645,6 +1051,22 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
           'Interactive D&D RPG lite experience with character generation, dice rolling, and random encounters',
       },
     ];
+    const info = (agent: Agent) => ({
+      id: agent.id,
+      name: agent.name,
+      description: agent.description,
+    });
+    const builtInTypes: readonly string[] = BUILT_IN_AGENT_TYPES;
+    return [
+      ...builtIn.map(entry => {
+        const file = agentLoader.get(entry.id);
+        return file ? info(file) : entry;
+      }),
+      ...agentLoader
+        .list()
+        .filter(agent => !builtInTypes.includes(agent.id))
+        .map(info),
+    ];
   }
 
   // Goal-seeking system integration methods
@@ -652,13 +1074,21 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
     userId: string,
     message: string,
     conversationHistory: Message[] = [],
-    forcedAgentType?: AgentType,
+    forcedAgentType?: AgentId,
     conversationId?: string,
     tier?: Tier,
+    options: ProcessMessageOptions = {},
   ): Promise<AgentResponse & { proactiveActions?: GoalAction[] }> {
     // Set current agent as active for this user
+    const usageOwner = options.ownerId ?? userId;
     const agentType =
-      forcedAgentType || (await classifyMessage(message)).agentType;
+      forcedAgentType ||
+      (
+        await classifyMessage(message, {
+          tier,
+          usage: { userId: usageOwner, conversationId },
+        })
+      ).agentType;
     this.setAgentActive(userId, agentType);
 
     // Update user state based on their message
@@ -675,6 +1105,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       conversationId,
       userId,
       tier,
+      options,
     );
 
     // Update goal progress based on the response
@@ -811,7 +1242,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
   // Get active agent info for a user
   getActiveAgentInfo(
     userId: string,
-  ): { agentType: AgentType; timestamp: Date } | null {
+  ): { agentType: AgentId; timestamp: Date } | null {
     return this.activeAgents.get(userId) || null;
   }
 
@@ -834,6 +1265,8 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
   cleanupInactiveUsers(maxInactiveTime?: number) {
     this.goalSeekingSystem.cleanupInactiveUsers(maxInactiveTime);
     this.conversationManager.cleanup(maxInactiveTime);
+    gameEngine.cleanup(maxInactiveTime);
+    quizEngine.cleanup(maxInactiveTime);
   }
 
   // ===== CONVERSATION MANAGEMENT METHODS =====
@@ -852,9 +1285,10 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
     conversationHistory: Message[] = [],
     conversationId?: string,
     tier?: Tier,
+    options: ProcessMessageOptions = {},
   ): Promise<
     AgentResponse & {
-      handoffInfo?: { target: AgentType; reason: string; message: string };
+      handoffInfo?: HandoffInfo;
       routingDecision?: RoutingDecision;
     }
   > {
@@ -871,6 +1305,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       message,
       previousAgent,
       conversationHistory,
+      { tier, usage: { userId: options.ownerId ?? userId, conversationId } },
     );
 
     // Preserve the long-standing "hold_agent auto-handoff to entertainment
@@ -881,7 +1316,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       context.conversationDepth === 0 &&
       decision.selectedAgent === 'hold_agent'
     ) {
-      const entertainmentAgents: AgentType[] = [
+      const entertainmentAgents: BuiltInAgentType[] = [
         'joke',
         'trivia',
         'gif',
@@ -917,11 +1352,19 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
 
     // If the router chose a new agent, complete the handoff now so that
     // per-agent metrics (depth, performance) reset before dispatch.
-    if (decision.handoff) {
+    const handoffInfo: HandoffInfo | undefined = decision.handoff
+      ? {
+          target: decision.selectedAgent,
+          reason: decision.reason,
+          message: `Connecting you to our ${getAgent(decision.selectedAgent).name}.`,
+        }
+      : undefined;
+    if (handoffInfo) {
       context = this.conversationManager.completeHandoff(
         userId,
         decision.selectedAgent,
       );
+      options.onHandoff?.(handoffInfo);
     }
 
     // Dispatch with the forced agent from the routing decision. Passing
@@ -934,6 +1377,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       conversationId,
       userId,
       tier,
+      options,
     );
 
     // Update conversation context with the interaction using the agent
@@ -945,14 +1389,6 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       decision.selectedAgent,
     );
 
-    const handoffInfo = decision.handoff
-      ? {
-          target: decision.selectedAgent,
-          reason: decision.reason,
-          message: `Connecting you to our ${getAgent(decision.selectedAgent).name}.`,
-        }
-      : undefined;
-
     return {
       ...response,
       agentUsed: decision.selectedAgent,
@@ -976,7 +1412,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
    */
   forceAgentHandoff(
     userId: string,
-    targetAgent: AgentType,
+    targetAgent: AgentId,
     reason = 'Manual override',
   ): void {
     const context = this.conversationManager.getContext(userId);
@@ -991,7 +1427,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
   }
 
   // Get current agent for a user based on conversation context
-  getCurrentAgent(userId: string): AgentType {
+  getCurrentAgent(userId: string): AgentId {
     const context = this.conversationManager.getContext(userId);
     return context?.currentAgent || 'general';
   }
@@ -999,7 +1435,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
   // Initialize conversation for a user with specific agent
   initializeConversation(
     userId: string,
-    initialAgent: AgentType = 'general',
+    initialAgent: AgentId = 'general',
   ): ConversationContext {
     return this.conversationManager.initializeContext(userId, initialAgent);
   }
@@ -1010,12 +1446,13 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
     message: string,
     conversationHistory: Message[] = [],
     conversationId?: string,
-    forcedAgentType?: AgentType,
+    forcedAgentType?: AgentId,
     tier?: Tier,
+    options: ProcessMessageOptions = {},
   ): Promise<
     AgentResponse & {
       proactiveActions?: GoalAction[];
-      handoffInfo?: { target: AgentType; reason: string; message: string };
+      handoffInfo?: HandoffInfo;
       conversationContext?: ConversationContext;
     }
   > {
@@ -1028,6 +1465,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
         forcedAgentType,
         conversationId,
         tier,
+        options,
       );
 
       // Still update conversation context
@@ -1051,6 +1489,7 @@ To get real AI responses, please set your OPENAI_API_KEY environment variable.`;
       conversationHistory,
       conversationId,
       tier,
+      options,
     );
 
     // If no handoff is happening, also process with goal-seeking for proactive actions
@@ -1,23 +1,94 @@
-import OpenAI from 'openai';
-import { MessageClassification, AgentType } from './types';
+import {
+  BUILT_IN_AGENT_TYPES,
+  LLM_PROVIDER_IDS,
+  LLMProviderId,
+  MessageClassification,
+  SecondaryIntent,
+} from './types';
+import { listAgents } from './config';
 import { evaluateEngagement } from './engagementEvaluator';
+import { providerRegistry } from '../llm';
+import { routeLLMForTier } from '../llm/tierRouter';
+import type { Tier } from '../middleware/identity';
+import { metricsEmit } from '../metrics/prometheus';
+import { UsageContext, usageService } from '../usage/usageService';
 
-// Lazily initialize OpenAI client so tests can toggle API key at runtime
-let openaiClient: OpenAI | null = null;
-function getOpenAIClient(): OpenAI | null {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    // Ensure we don't keep a stale client when key is removed between tests
-    openaiClient = null;
-    return null;
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
+/**
+ * Picks the agent for a message. A model answers through the provider
+ * registry, so tier routing, failover and metrics apply, with its reply
+ * constrained to JSON matching `classificationSchema`. Keyword matching
+ * answers when no provider is configured or the model call fails.
+ *
+ *   CLASSIFIER_PROVIDER  openai | anthropic | foundry | local | mock | off
+ *                        (default: the first of openai, anthropic, foundry
+ *                        and local that is configured)
+ *   CLASSIFIER_MODEL     defaults to a small model of that provider
+ */
+
+const AUTO_PROVIDERS: LLMProviderId[] = [
+  'openai',
+  'anthropic',
+  'foundry',
+  'local',
+];
+const DEFAULT_CLASSIFIER_MODEL = 'gpt-4o-mini';
+const DEFAULT_CLASSIFIER_MODELS: Partial<Record<LLMProviderId, string>> = {
+  anthropic: 'claude-haiku-4-5',
+};
+const CLASSIFIER_MAX_TOKENS = 300;
+
+/** What classifier calls are charged as in usage reports. */
+export const CLASSIFIER_USAGE_AGENT = 'classifier';
+
+export interface ClassifyOptions {
+  /** Routes anonymous callers to the free provider, as for agents. */
+  tier?: Tier;
+  /** The user the model call is charged to. */
+  usage?: Omit<UsageContext, 'agentType'>;
 }
 
-const CLASSIFICATION_PROMPT = `You are a message classifier that determines which type of AI agent should handle a user's message.
+/**
+ * The prompt's few-shot examples. `classifierDataset.json` must not repeat
+ * them, or the evaluation would score the model on its own prompt.
+ */
+export const CLASSIFICATION_EXAMPLES: ReadonlyArray<
+  [message: string, label: string]
+> = [
+  ['How do I fix this React component?', 'website_support'],
+  ['Tell me a dad joke', 'joke'],
+  ['Tell me a random fact', 'trivia'],
+  ['Show me a funny gif', 'gif'],
+  ["I can't log into my account", 'account_support'],
+  ['My payment failed', 'billing_support'],
+  ["The website won't load", 'website_support'],
+  ['I have multiple issues to resolve', 'operator_support'],
+  ['How long is the wait time?', 'hold_agent'],
+  ["What's the weather like today?", 'general'],
+  ['Send me a reaction gif', 'gif'],
+  ['I need a meme', 'gif'],
+  ['Can you help me debug this Python code?', 'website_support'],
+  ['I need a good pun', 'joke'],
+  ['Did you know that...', 'trivia'],
+  ['What should I have for lunch?', 'general'],
+  ['Make me laugh with a cheesy joke', 'joke'],
+  ['Show me an animated image', 'gif'],
+  ['I forgot my password', 'account_support'],
+  ['Cancel my subscription', 'billing_support'],
+  ["Let's play a game", 'game_host'],
+  ['Can we play 20 questions?', 'game_host'],
+  ['Tell me a story', 'story_teller'],
+  ['Give me a riddle', 'riddle_master'],
+  ['Share a quote', 'quote_master'],
+  ['Recommend me some music', 'music_guru'],
+  ['Show me a YouTube video', 'youtube_guru'],
+  ["Let's play D&D", 'dnd_master'],
+  [
+    'Tell me a joke, then a fun fact',
+    'joke, with trivia as a secondary intent',
+  ],
+];
+
+const CLASSIFICATION_PROMPT = `You are a message classifier that determines which type of AI agent should handle the user's message.
 
 You must classify messages into one of these categories:
 1. "website_support" - for programming, coding, software development, debugging, technical documentation, website functionality issues, browser problems, page loading issues, performance problems, technical web support
@@ -35,49 +106,471 @@ You must classify messages into one of these categories:
 13. "music_guru" - for music recommendations, songs, playlists, artists
 14. "youtube_guru" - for requests to watch a YouTube video, funny videos, viral clips
 15. "dnd_master" - for D&D, dice rolls, character sheets, RPG adventures
-16. "general" - for casual conversation, general questions, creative writing, advice, entertainment, non-technical topics, etc.
+16. "general" - for casual conversation, general questions, creative writing, advice, entertainment, non-technical topics, etc.{fileAgents}
 
 Respond with a JSON object containing:
 - agentType: one of the above categories
 - confidence: a number between 0 and 1 indicating how confident you are
 - reasoning: a brief explanation of your classification
+- secondaryIntents: any other categories the message also asks for, each with its own confidence; empty when there are none
 
 Examples:
-- "How do I fix this React component?" → website_support
-- "Tell me a dad joke" → joke  
-- "Tell me a random fact" → trivia
-- "Show me a funny gif" → gif
-- "I can't log into my account" → account_support
-- "My payment failed" → billing_support
-- "The website won't load" → website_support
-- "I have multiple issues to resolve" → operator_support
-- "How long is the wait time?" → hold_agent
-- "What's the weather like today?" → general
-- "Send me a reaction gif" → gif
-- "I need a meme" → gif
-- "Can you help me debug this Python code?" → website_support
-- "I need a good pun" → joke
-- "Did you know that..." → trivia
-- "What should I have for lunch?" → general
-- "Make me laugh with a cheesy joke" → joke
-- "Show me an animated image" → gif
-- "I forgot my password" → account_support
-- "Cancel my subscription" → billing_support
-- "Let's play a game" → game_host
-- "Can we play 20 questions?" → game_host
-- "Tell me a story" → story_teller
-- "Give me a riddle" → riddle_master
-- "Share a quote" → quote_master
-- "Recommend me some music" → music_guru
-- "Show me a YouTube video" → youtube_guru
-- "Let's play D&D" → dnd_master
-
-Message to classify: "{message}"`;
+${CLASSIFICATION_EXAMPLES.map(
+  ([message, label]) => `- "${message}" → ${label}`,
+).join('\n')}`;
+
+/** Agents that only agent files define, numbered on from the built-ins. */
+function fileAgentCategories(): string {
+  const builtIn: readonly string[] = BUILT_IN_AGENT_TYPES;
+  return listAgents()
+    .filter(agent => !builtIn.includes(agent.id))
+    .map(
+      (agent, i) =>
+        `\n${builtIn.length + i + 1}. "${agent.id}" - ${agent.description}`,
+    )
+    .join('');
+}
+
+/** Scores the message against keyword lists: GIF > joke > technical > trivia. */
+export function classifyByKeywords(message: string): MessageClassification {
+  const technicalKeywords = [
+    'code',
+    'coding',
+    'programming',
+    'debug',
+    'debugging',
+    'syntax error',
+    'runtime error',
+    'compilation error',
+    'bug fix',
+    'fix this code',
+    'help me code',
+    'help me debug',
+    'help me program',
+    'javascript',
+    'python',
+    'react component',
+    'react',
+    'node.js',
+    'nodejs',
+    'css styling',
+    'css',
+    'html',
+    'web framework',
+    'framework',
+    'code library',
+    'programming library',
+    'algorithm',
+    'data structure',
+    'frontend development',
+    'backend development',
+    'git repository',
+    'github',
+    'code repository',
+    'git commit',
+    'typescript',
+    'npm package',
+    'npm install',
+    'npm',
+    'yarn',
+    'redux',
+    'axios',
+    'async await',
+    'promise',
+    'callback function',
+    'dom manipulation',
+    'webpack',
+    'babel',
+    'eslint',
+    'prettier',
+    'jest testing',
+    'unit test',
+    'integration test',
+    'ci/cd',
+    'devops',
+    'docker container',
+    'docker',
+    'kubernetes',
+    'rest api',
+    'api endpoint',
+    'graphql',
+    'websocket',
+    'jwt token',
+    'oauth',
+    'regex pattern',
+    'regular expression',
+  ];
+
+  const dadJokeKeywords = [
+    'dad joke',
+    'dad jokes',
+    'pun',
+    'puns',
+    'joke',
+    'jokes',
+    'funny',
+    'humor',
+    'cheesy',
+    'groan',
+    'laugh',
+    'make me laugh',
+    'tell me a joke',
+    'funny joke',
+    'corny',
+    'silly',
+    'witty',
+    'punchline',
+    'one-liner',
+    'wordplay',
+    'play on words',
+    'dad humor',
+    'family friendly joke',
+  ];
+
+  const triviaKeywords = [
+    'trivia',
+    'fun fact',
+    'fun facts',
+    'random fact',
+    'random facts',
+    'did you know',
+    'interesting',
+    'interesting fact',
+    'fascinating',
+    'fascinating fact',
+    'something fascinating',
+    'tell me something fascinating',
+    'amazing fact',
+    'cool fact',
+    'weird fact',
+    'strange fact',
+    'historical fact',
+    'scientific fact',
+    'world record',
+    'share trivia',
+    'tell me trivia',
+    'give me a fact',
+    'share a fact',
+    'educate me with facts',
+    "tell me something i don't know",
+    'fascinating knowledge',
+    'share fascinating knowledge',
+    'share interesting history',
+  ];
+
+  const gifKeywords = [
+    'gif',
+    'gifs',
+    'animated',
+    'animation',
+    'funny gif',
+    'reaction gif',
+    'meme',
+    'memes',
+    'funny image',
+    'visual',
+    'show me',
+    'picture',
+    'image',
+    'cute gif',
+    'cat gif',
+    'dog gif',
+    'excited gif',
+    'happy gif',
+    'sad gif',
+    'surprised gif',
+    'celebration gif',
+    'party gif',
+    'dance gif',
+    'thumbs up',
+    'applause',
+    'clapping',
+    'facepalm',
+    'eye roll',
+    'shrug',
+    'giphy',
+    'tenor',
+    'reaction',
+    'emotion',
+    'feeling',
+    'mood',
+    'vibe',
+  ];
+
+  const lowerMessage = message.toLowerCase().trim();
+
+  // Handle empty or whitespace-only messages
+  if (!lowerMessage) {
+    return {
+      agentType: 'general',
+      confidence: 0.5,
+      reasoning: 'No specific keywords detected, classifying as general',
+    };
+  }
+
+  const technicalScore = technicalKeywords.reduce((score, keyword) => {
+    return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
+  }, 0);
+
+  const dadJokeScore = dadJokeKeywords.reduce((score, keyword) => {
+    return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
+  }, 0);
+
+  const triviaScore = triviaKeywords.reduce((score, keyword) => {
+    return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
+  }, 0);
+
+  const gifScore = gifKeywords.reduce((score, keyword) => {
+    return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
+  }, 0);
+
+  // GIF has highest priority if detected
+  if (gifScore > 0) {
+    return {
+      agentType: 'gif',
+      confidence: Math.min(0.95, 0.7 + gifScore * 0.15),
+      reasoning: `Detected ${gifScore} GIF/visual content keywords in the message`,
+    };
+  }
+
+  // Joke has second priority if detected
+  if (dadJokeScore > 0) {
+    return {
+      agentType: 'joke',
+      confidence: Math.min(0.9, 0.6 + dadJokeScore * 0.15),
+      reasoning: `Detected ${dadJokeScore} joke keywords in the message`,
+    };
+  }
+
+  // Technical support for programming-related queries - higher priority than trivia
+  if (technicalScore > 0) {
+    return {
+      agentType: 'website_support',
+      confidence: Math.min(0.8, 0.5 + technicalScore * 0.1),
+      reasoning: `Detected ${technicalScore} technical keywords in the message`,
+    };
+  }
+
+  // Trivia has lower priority to reduce false positives
+  if (triviaScore > 0) {
+    return {
+      agentType: 'trivia',
+      confidence: Math.min(0.85, 0.55 + triviaScore * 0.1),
+      reasoning: `Detected ${triviaScore} trivia keywords in the message`,
+    };
+  }
+
+  // Default to general
+  return {
+    agentType: 'general',
+    confidence: 0.5,
+    reasoning: 'No specific keywords detected, classifying as general',
+  };
+}
+
+/** The provider CLASSIFIER_PROVIDER names, or the first one configured. */
+export function classifierProvider(env = process.env): LLMProviderId | null {
+  const configured = env.CLASSIFIER_PROVIDER?.toLowerCase();
+  if (configured === 'off') {
+    return null;
+  }
+  if (configured) {
+    if (LLM_PROVIDER_IDS.includes(configured as LLMProviderId)) {
+      return configured as LLMProviderId;
+    }
+    console.warn(`⚠️ Unknown CLASSIFIER_PROVIDER: ${configured}`);
+    return null;
+  }
+  return AUTO_PROVIDERS.find(id => providerRegistry.isConfigured(id)) ?? null;
+}
+
+/** CLASSIFIER_MODEL, or a small model of the provider. */
+export function classifierModel(
+  providerId: LLMProviderId,
+  env = process.env,
+): string {
+  return (
+    env.CLASSIFIER_MODEL ||
+    DEFAULT_CLASSIFIER_MODELS[providerId] ||
+    DEFAULT_CLASSIFIER_MODEL
+  );
+}
+
+/**
+ * The JSON schema the model's reply must match. Kept within what OpenAI's
+ * strict mode and Anthropic's structured outputs both accept, so bounds on
+ * `confidence` are left to `parseClassification`.
+ */
+export function classificationSchema(
+  agentIds: readonly string[],
+): Record<string, unknown> {
+  const agentType = { type: 'string', enum: [...agentIds] };
+  const confidence = { type: 'number', description: 'Between 0 and 1' };
+  return {
+    type: 'object',
+    properties: {
+      agentType,
+      confidence,
+      reasoning: { type: 'string' },
+      secondaryIntents: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { agentType, confidence },
+          required: ['agentType', 'confidence'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['agentType', 'confidence', 'reasoning', 'secondaryIntents'],
+    additionalProperties: false,
+  };
+}
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Read the model's classification, tolerating prose or code fences around
+ * the JSON for providers that ignore the schema. Confidences are clamped to
+ * 0-1; secondary intents for unknown agents, or repeating the main one, are
+ * dropped. An unknown agent or missing confidence is an error.
+ */
+export function parseClassification(
+  text: string,
+  agentIds: readonly string[],
+): MessageClassification {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Classifier reply had no JSON object');
+  }
+  const parsed = JSON.parse(text.slice(start, end + 1)) as {
+    agentType?: unknown;
+    confidence?: unknown;
+    reasoning?: unknown;
+    secondaryIntents?: unknown;
+  };
+  const { agentType, confidence, reasoning } = parsed;
+  if (typeof agentType !== 'string' || !agentIds.includes(agentType)) {
+    throw new Error(`Classifier chose an unknown agent: ${String(agentType)}`);
+  }
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+    throw new Error('Classifier reply had no confidence');
+  }
+
+  const seen = new Set<string>([agentType]);
+  const secondaryIntents: SecondaryIntent[] = (
+    Array.isArray(parsed.secondaryIntents) ? parsed.secondaryIntents : []
+  )
+    .filter(
+      (intent): intent is SecondaryIntent =>
+        agentIds.includes(intent?.agentType) &&
+        typeof intent?.confidence === 'number' &&
+        !Number.isNaN(intent.confidence),
+    )
+    .filter(intent => {
+      if (seen.has(intent.agentType)) {
+        return false;
+      }
+      seen.add(intent.agentType);
+      return true;
+    })
+    .map(intent => ({
+      agentType: intent.agentType,
+      confidence: clamp(intent.confidence),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return {
+    agentType,
+    confidence: clamp(confidence),
+    reasoning: typeof reasoning === 'string' ? reasoning : '',
+    secondaryIntents,
+  };
+}
+
+/**
+ * Ask `providerId`'s model. Null when the registry can only offer the mock
+ * provider (demo mode), which has no script for classifying.
+ */
+async function classifyWithModel(
+  message: string,
+  providerId: LLMProviderId,
+  { tier, usage }: ClassifyOptions,
+): Promise<MessageClassification | null> {
+  const route = routeLLMForTier(
+    {
+      provider: providerId,
+      fallbackProvider: undefined,
+      model: classifierModel(providerId),
+    },
+    tier,
+  );
+  const { provider, model: fallbackModel } = providerRegistry.resolve(
+    route.provider,
+    route.fallbackProvider,
+  );
+  if (provider.id === 'mock' && providerId !== 'mock') {
+    return null;
+  }
+  const model = fallbackModel ?? route.model;
+  const agentIds = listAgents().map(agent => agent.id);
+
+  const started = process.hrtime.bigint();
+  const finish = (outcome: 'success' | 'error'): void => {
+    metricsEmit.llm.request(
+      provider.id,
+      model,
+      outcome,
+      Number(process.hrtime.bigint() - started) / 1e9,
+    );
+    metricsEmit.tier.llmRequest(tier, provider.id, model, outcome);
+  };
+
+  try {
+    let text = '';
+    for await (const evt of provider.stream({
+      model,
+      system: CLASSIFICATION_PROMPT.replace(
+        '{fileAgents}',
+        fileAgentCategories(),
+      ),
+      messages: [{ role: 'user', content: message }],
+      temperature: 0,
+      maxTokens: CLASSIFIER_MAX_TOKENS,
+      responseFormat: {
+        name: 'message_classification',
+        schema: classificationSchema(agentIds),
+      },
+      agentType: CLASSIFIER_USAGE_AGENT,
+    })) {
+      if (evt.type === 'text_delta') {
+        text += evt.text;
+      } else if (evt.type === 'error') {
+        throw new Error(evt.error);
+      } else if (evt.type === 'done' && evt.usage && usage) {
+        void usageService.record(
+          { ...usage, agentType: CLASSIFIER_USAGE_AGENT },
+          evt.provider ?? provider.id,
+          evt.model ?? model,
+          evt.usage,
+        );
+      }
+    }
+    const classification = parseClassification(text, agentIds);
+    finish('success');
+    return classification;
+  } catch (error) {
+    finish('error');
+    throw error;
+  }
+}
 
 export async function classifyMessage(
   message: string,
+  options: ClassifyOptions = {},
 ): Promise<MessageClassification> {
-  // Engagement evaluator check before fallback classification
+  // Engagement evaluator check before any classification
   const engagementSignal = evaluateEngagement(message);
   if (engagementSignal === 'BOREDOM') {
     return {
@@ -88,282 +581,23 @@ export async function classifyMessage(
     };
   }
   // Note: Do not force GIF on generic entertainment requests. Allow
-  // the keyword classifier below to choose between gif/joke/trivia/general.
-
-  // Fallback classification using simple keyword matching
-  const fallbackClassification = (): MessageClassification => {
-    const technicalKeywords = [
-      'code',
-      'coding',
-      'programming',
-      'debug',
-      'debugging',
-      'syntax error',
-      'runtime error',
-      'compilation error',
-      'bug fix',
-      'fix this code',
-      'help me code',
-      'help me debug',
-      'help me program',
-      'javascript',
-      'python',
-      'react component',
-      'react',
-      'node.js',
-      'nodejs',
-      'css styling',
-      'css',
-      'html',
-      'web framework',
-      'framework',
-      'code library',
-      'programming library',
-      'algorithm',
-      'data structure',
-      'frontend development',
-      'backend development',
-      'git repository',
-      'github',
-      'code repository',
-      'git commit',
-      'typescript',
-      'npm package',
-      'npm install',
-      'npm',
-      'yarn',
-      'redux',
-      'axios',
-      'async await',
-      'promise',
-      'callback function',
-      'dom manipulation',
-      'webpack',
-      'babel',
-      'eslint',
-      'prettier',
-      'jest testing',
-      'unit test',
-      'integration test',
-      'ci/cd',
-      'devops',
-      'docker container',
-      'docker',
-      'kubernetes',
-      'rest api',
-      'api endpoint',
-      'graphql',
-      'websocket',
-      'jwt token',
-      'oauth',
-      'regex pattern',
-      'regular expression',
-    ];
-
-    const dadJokeKeywords = [
-      'dad joke',
-      'dad jokes',
-      'pun',
-      'puns',
-      'joke',
-      'jokes',
-      'funny',
-      'humor',
-      'cheesy',
-      'groan',
-      'laugh',
-      'make me laugh',
-      'tell me a joke',
-      'funny joke',
-      'corny',
-      'silly',
-      'witty',
-      'punchline',
-      'one-liner',
-      'wordplay',
-      'play on words',
-      'dad humor',
-      'family friendly joke',
-    ];
-
-    const triviaKeywords = [
-      'trivia',
-      'fun fact',
-      'fun facts',
-      'random fact',
-      'random facts',
-      'did you know',
-      'interesting',
-      'interesting fact',
-      'fascinating',
-      'fascinating fact',
-      'something fascinating',
-      'tell me something fascinating',
-      'amazing fact',
-      'cool fact',
-      'weird fact',
-      'strange fact',
-      'historical fact',
-      'scientific fact',
-      'world record',
-      'share trivia',
-      'tell me trivia',
-      'give me a fact',
-      'share a fact',
-      'educate me with facts',
-      "tell me something i don't know",
-      'fascinating knowledge',
-      'share fascinating knowledge',
-      'share interesting history',
-    ];
-
-    const gifKeywords = [
-      'gif',
-      'gifs',
-      'animated',
-      'animation',
-      'funny gif',
-      'reaction gif',
-      'meme',
-      'memes',
-      'funny image',
-      'visual',
-      'show me',
-      'picture',
-      'image',
-      'cute gif',
-      'cat gif',
-      'dog gif',
-      'excited gif',
-      'happy gif',
-      'sad gif',
-      'surprised gif',
-      'celebration gif',
-      'party gif',
-      'dance gif',
-      'thumbs up',
-      'applause',
-      'clapping',
-      'facepalm',
-      'eye roll',
-      'shrug',
-      'giphy',
-      'tenor',
-      'reaction',
-      'emotion',
-      'feeling',
-      'mood',
-      'vibe',
-    ];
-
-    const lowerMessage = message.toLowerCase().trim();
-
-    // Handle empty or whitespace-only messages
-    if (!lowerMessage) {
-      return {
-        agentType: 'general',
-        confidence: 0.5,
-        reasoning: 'No specific keywords detected, classifying as general',
-      };
-    }
-
-    const technicalScore = technicalKeywords.reduce((score, keyword) => {
-      return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
-    }, 0);
-
-    const dadJokeScore = dadJokeKeywords.reduce((score, keyword) => {
-      return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
-    }, 0);
-
-    const triviaScore = triviaKeywords.reduce((score, keyword) => {
-      return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
-    }, 0);
-
-    const gifScore = gifKeywords.reduce((score, keyword) => {
-      return score + (lowerMessage.includes(keyword.toLowerCase()) ? 1 : 0);
-    }, 0);
-
-    // GIF has highest priority if detected
-    if (gifScore > 0) {
-      return {
-        agentType: 'gif',
-        confidence: Math.min(0.95, 0.7 + gifScore * 0.15),
-        reasoning: `Detected ${gifScore} GIF/visual content keywords in the message`,
-      };
-    }
-
-    // Joke has second priority if detected
-    if (dadJokeScore > 0) {
-      return {
-        agentType: 'joke',
-        confidence: Math.min(0.9, 0.6 + dadJokeScore * 0.15),
-        reasoning: `Detected ${dadJokeScore} joke keywords in the message`,
-      };
-    }
-
-    // Technical support for programming-related queries - higher priority than trivia
-    if (technicalScore > 0) {
-      return {
-        agentType: 'website_support',
-        confidence: Math.min(0.8, 0.5 + technicalScore * 0.1),
-        reasoning: `Detected ${technicalScore} technical keywords in the message`,
-      };
-    }
-
-    // Trivia has lower priority to reduce false positives
-    if (triviaScore > 0) {
-      return {
-        agentType: 'trivia',
-        confidence: Math.min(0.85, 0.55 + triviaScore * 0.1),
-        reasoning: `Detected ${triviaScore} trivia keywords in the message`,
-      };
-    }
-
-    // Default to general
-    return {
-      agentType: 'general',
-      confidence: 0.5,
-      reasoning: 'No specific keywords detected, classifying as general',
-    };
-  };
+  // the classifiers below to choose between gif/joke/trivia/general.
 
-  // Try AI classification first
-  const openai = getOpenAIClient();
-  if (openai) {
+  const providerId = classifierProvider();
+  if (providerId && message.trim()) {
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: CLASSIFICATION_PROMPT.replace('{message}', message),
-          },
-        ],
-        max_tokens: 200,
-        temperature: 0.1,
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (response) {
-        try {
-          const classification = JSON.parse(response);
-          return {
-            agentType: classification.agentType,
-            confidence: classification.confidence,
-            reasoning: classification.reasoning,
-          };
-        } catch (parseError) {
-          console.warn(
-            'Failed to parse AI classification response:',
-            parseError,
-          );
-        }
+      const classification = await classifyWithModel(
+        message,
+        providerId,
+        options,
+      );
+      if (classification) {
+        return classification;
       }
     } catch (error) {
       console.warn('AI classification failed, using fallback:', error);
     }
   }
 
-  // Use fallback classification
-  return fallbackClassification();
+  return classifyByKeywords(message);
 }
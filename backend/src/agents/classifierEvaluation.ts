@@ -0,0 +1,287 @@
+import { readFileSync } from 'fs';
+import { AgentId, MessageClassification } from './types';
+import {
+  classifierModel,
+  classifierProvider,
+  classifyByKeywords,
+  classifyMessage,
+} from './classifier';
+import defaultDataset from './classifierDataset.json';
+
+/**
+ * Scores the classifier against a labeled dataset: precision and recall
+ * per agent, a confusion matrix and how many of the labeled secondary
+ * intents it found.
+ *
+ *   npm run eval:classifier                        # the configured model
+ *   npm run eval:classifier -- --keywords          # keyword matching only
+ *   npm run eval:classifier -- --dataset my.json   # another dataset
+ *   npm run eval:classifier -- --json              # the report as JSON
+ *
+ * A dataset is a JSON list of `{ message, agentType, secondary? }`;
+ * `classifierDataset.json` is the default one.
+ */
+
+export interface LabeledMessage {
+  message: string;
+  agentType: AgentId;
+  /** Other agents the message also asks for. */
+  secondary?: AgentId[];
+}
+
+export interface AgentScore {
+  agentType: AgentId;
+  /** Share of the messages classified as this agent that belong to it. */
+  precision: number;
+  /** Share of this agent's messages classified as it. */
+  recall: number;
+  f1: number;
+  /** Messages labeled with this agent. */
+  support: number;
+}
+
+export interface ClassifierMiss {
+  message: string;
+  expected: AgentId;
+  predicted: AgentId;
+  confidence: number;
+}
+
+export interface ClassifierEvaluation {
+  total: number;
+  accuracy: number;
+  perAgent: AgentScore[];
+  /** Counts by expected agent, then by predicted agent. */
+  confusion: Record<AgentId, Record<AgentId, number>>;
+  secondaryIntents: { expected: number; found: number; recall: number };
+  misses: ClassifierMiss[];
+}
+
+/** Check a dataset's shape, listing every problem found. */
+export function parseDataset(raw: unknown): LabeledMessage[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Classifier dataset must be a list of labeled messages');
+  }
+  const problems: string[] = [];
+  raw.forEach((entry, i) => {
+    if (typeof entry?.message !== 'string' || !entry.message.trim()) {
+      problems.push(`entry ${i} needs a "message"`);
+    }
+    if (typeof entry?.agentType !== 'string' || !entry.agentType) {
+      problems.push(`entry ${i} needs an "agentType"`);
+    }
+    if (
+      entry?.secondary !== undefined &&
+      !(
+        Array.isArray(entry.secondary) &&
+        entry.secondary.every((agent: unknown) => typeof agent === 'string')
+      )
+    ) {
+      problems.push(`entry ${i} "secondary" must be a list of agent ids`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid classifier dataset: ${problems.join('; ')}`);
+  }
+  return raw as LabeledMessage[];
+}
+
+const ratio = (part: number, whole: number): number =>
+  whole === 0 ? 0 : part / whole;
+
+/** Score `predictions`, which answer `dataset` entry for entry. */
+export function scoreClassifications(
+  dataset: LabeledMessage[],
+  predictions: MessageClassification[],
+): ClassifierEvaluation {
+  if (predictions.length !== dataset.length) {
+    throw new Error(
+      `Expected ${dataset.length} classifications, got ${predictions.length}`,
+    );
+  }
+
+  // Labeled agents in dataset order, then any only ever predicted
+  const agents: AgentId[] = [];
+  for (const agent of [
+    ...dataset.map(entry => entry.agentType),
+    ...predictions.map(prediction => prediction.agentType),
+  ]) {
+    if (!agents.includes(agent)) {
+      agents.push(agent);
+    }
+  }
+  const confusion = Object.fromEntries(
+    agents.map(expected => [
+      expected,
+      Object.fromEntries(agents.map(predicted => [predicted, 0])),
+    ]),
+  ) as ClassifierEvaluation['confusion'];
+
+  const misses: ClassifierMiss[] = [];
+  const secondary = { expected: 0, found: 0 };
+  dataset.forEach((entry, i) => {
+    const prediction = predictions[i];
+    confusion[entry.agentType][prediction.agentType]++;
+    if (prediction.agentType !== entry.agentType) {
+      misses.push({
+        message: entry.message,
+        expected: entry.agentType,
+        predicted: prediction.agentType,
+        confidence: prediction.confidence,
+      });
+    }
+    const found = new Set(
+      (prediction.secondaryIntents ?? []).map(intent => intent.agentType),
+    );
+    for (const agent of entry.secondary ?? []) {
+      secondary.expected++;
+      if (found.has(agent)) {
+        secondary.found++;
+      }
+    }
+  });
+
+  const perAgent = agents.map((agent): AgentScore => {
+    const correct = confusion[agent][agent];
+    const support = agents.reduce((n, p) => n + confusion[agent][p], 0);
+    const predicted = agents.reduce((n, e) => n + confusion[e][agent], 0);
+    const precision = ratio(correct, predicted);
+    const recall = ratio(correct, support);
+    return {
+      agentType: agent,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+      support,
+    };
+  });
+
+  return {
+    total: dataset.length,
+    accuracy: ratio(dataset.length - misses.length, dataset.length),
+    perAgent,
+    confusion,
+    secondaryIntents: {
+      ...secondary,
+      recall: ratio(secondary.found, secondary.expected),
+    },
+    misses,
+  };
+}
+
+/** Classify every message, `concurrency` at a time, and score the results. */
+export async function evaluateClassifier(
+  dataset: LabeledMessage[],
+  classify: (message: string) => Promise<MessageClassification> = message =>
+    classifyMessage(message),
+  concurrency = 4,
+): Promise<ClassifierEvaluation> {
+  const predictions: MessageClassification[] = new Array(dataset.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < dataset.length) {
+      const i = next++;
+      predictions[i] = await classify(dataset[i].message);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+  );
+  return scoreClassifications(dataset, predictions);
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+const decimal = (value: number, width: number): string =>
+  value.toFixed(2).padStart(width);
+
+/** The report as plain-text tables. */
+export function formatEvaluation(
+  evaluation: ClassifierEvaluation,
+  title: string,
+): string {
+  const agents = evaluation.perAgent.map(score => score.agentType);
+  const width = Math.max(5, ...agents.map(agent => agent.length));
+  const lines = [
+    title,
+    `${evaluation.total} messages, accuracy ${percent(evaluation.accuracy)}`,
+    '',
+    `${'agent'.padEnd(width)}  precision  recall     f1  support`,
+    ...evaluation.perAgent.map(score =>
+      [
+        score.agentType.padEnd(width),
+        decimal(score.precision, 9),
+        decimal(score.recall, 6),
+        decimal(score.f1, 5),
+        String(score.support).padStart(7),
+      ].join('  '),
+    ),
+    '',
+    'Confusion matrix (rows: expected, columns: predicted, by number)',
+    `${''.padEnd(width + 4)}${agents
+      .map((_, i) => String(i + 1).padStart(4))
+      .join('')}`,
+    ...agents.map(
+      (expected, i) =>
+        `${String(i + 1).padStart(2)}. ${expected.padEnd(width)}${agents
+          .map(predicted => {
+            const count = evaluation.confusion[expected][predicted];
+            return (count === 0 ? '.' : String(count)).padStart(4);
+          })
+          .join('')}`,
+    ),
+  ];
+  const { secondaryIntents } = evaluation;
+  if (secondaryIntents.expected > 0) {
+    lines.push(
+      '',
+      `Secondary intents: ${secondaryIntents.found}/${secondaryIntents.expected} found (${percent(secondaryIntents.recall)})`,
+    );
+  }
+  if (evaluation.misses.length > 0) {
+    lines.push(
+      '',
+      'Misses:',
+      ...evaluation.misses.map(
+        miss =>
+          `  "${miss.message}": expected ${miss.expected}, got ${miss.predicted} (${miss.confidence.toFixed(2)})`,
+      ),
+    );
+  }
+  return lines.join('\n');
+}
+
+async function main(args: string[]): Promise<void> {
+  const datasetPath = args.includes('--dataset')
+    ? args[args.indexOf('--dataset') + 1]
+    : undefined;
+  const dataset = parseDataset(
+    datasetPath
+      ? JSON.parse(readFileSync(datasetPath, 'utf8'))
+      : defaultDataset,
+  );
+  const keywordsOnly = args.includes('--keywords');
+  const provider = keywordsOnly ? null : classifierProvider();
+
+  const evaluation = keywordsOnly
+    ? await evaluateClassifier(dataset, async message =>
+        classifyByKeywords(message),
+      )
+    : await evaluateClassifier(dataset);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(evaluation, null, 2));
+    return;
+  }
+  const title = provider
+    ? `Classifier: ${provider} (${classifierModel(provider)})`
+    : 'Classifier: keyword matching';
+  console.log(formatEvaluation(evaluation, title));
+}
+
+// Run the evaluation if this file is executed directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error('❌ Classifier evaluation failed:', error);
+    process.exit(1);
+  });
+}
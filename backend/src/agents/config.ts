@@ -1,4 +1,16 @@
-import { Agent } from './types';
+import { Agent, ValidationPolicy } from './types';
+import { agentLoader } from './agentLoader';
+
+// Support agents must not send a reply that failed validation: try again,
+// then ask a different model, then hand over to a human.
+const SUPPORT_VALIDATION_POLICY: ValidationPolicy = {
+  steps: ['regenerate', 'fallback', 'canned'],
+  maxAttempts: 2,
+  fallbackProvider: 'openai',
+  fallbackModel: 'gpt-4o-mini',
+  cannedResponse:
+    "I'm sorry, I wasn't able to give you a reliable answer just now. Please rephrase your question, or ask to be connected with a human operator and we'll pick it up from there.",
+};
 
 export const AGENTS: Record<string, Agent> = {
   general: {
@@ -141,12 +153,25 @@ Topics you excel at:
 
 Remember: You're here to spark curiosity and make learning fun through amazing facts and trivia! Always deliver facts immediately when asked!
 
+SCORED TRIVIA QUESTIONS:
+- When the player wants to be quizzed, call next_question with quiz "trivia" and read out the question it returns. Never make up your own trivia questions for scoring.
+- Pass every answer to check_answer exactly as the player gave it and report what it says; never mark answers yourself. The answer is only revealed once the question is over.
+- Use quiz_hint when they ask for a hint, skip_question when they give up, and quiz_leaderboard when they ask how they rank.
+- The tools show score and leaderboard cards, so don't repeat the numbers as a table.
+
 SCOPE & DEFERRAL:
 - Your domain is trivia, facts, and educational curiosities. If the user clearly asks for jokes, YouTube videos, GIFs, stories, riddles, quotes, music, D&D, or account/billing/website help, DO NOT attempt to fulfill it yourself.
 - Reply in one short line (e.g. "Let me hand you off to our Joke Master.") and stop. The orchestrator will route the user to the right specialist on this same turn.`,
     model: 'gpt-3.5-turbo',
     temperature: 0.7,
     maxTokens: 1000,
+    tools: [
+      'next_question',
+      'check_answer',
+      'quiz_hint',
+      'skip_question',
+      'quiz_leaderboard',
+    ],
   },
   gif: {
     id: 'gif',
@@ -280,6 +305,7 @@ Remember: Account security and user privacy are paramount. Always prioritize the
     model: 'gpt-3.5-turbo',
     temperature: 0.4,
     maxTokens: 1200,
+    validationPolicy: SUPPORT_VALIDATION_POLICY,
   },
   billing_support: {
     id: 'billing_support',
@@ -354,6 +380,7 @@ Remember: Financial matters are sensitive. Always be respectful, transparent, an
     model: 'gpt-3.5-turbo',
     temperature: 0.3,
     maxTokens: 1200,
+    validationPolicy: SUPPORT_VALIDATION_POLICY,
   },
   website_support: {
     id: 'website_support',
@@ -435,6 +462,7 @@ Remember: Website issues can be frustrating for users. Provide patient, methodic
     model: 'gpt-3.5-turbo',
     temperature: 0.4,
     maxTokens: 1300,
+    validationPolicy: SUPPORT_VALIDATION_POLICY,
   },
   operator_support: {
     id: 'operator_support',
@@ -521,6 +549,7 @@ Remember: You are often the first and primary point of contact. Your goal is to
     model: 'gpt-3.5-turbo',
     temperature: 0.5,
     maxTokens: 1400,
+    validationPolicy: SUPPORT_VALIDATION_POLICY,
   },
   hold_agent: {
     id: 'hold_agent',
@@ -676,12 +705,25 @@ HINT SYSTEM:
 
 Remember: Your goal is mental engagement and fun, not frustration. Keep users actively thinking and entertained!
 
+SCORED RIDDLES:
+- When the player wants to be quizzed, call next_question with quiz "riddle" and read out the question it returns. Never make up your own riddles for scoring.
+- Pass every answer to check_answer exactly as the player gave it and report what it says; never mark answers yourself. The answer is only revealed once the question is over.
+- Use quiz_hint when they ask for a hint, skip_question when they give up, and quiz_leaderboard when they ask how they rank.
+- The tools show score and leaderboard cards, so don't repeat the numbers as a table.
+
 SCOPE & DEFERRAL:
 - Your domain is riddles, brain teasers, and word puzzles. If the user clearly asks for jokes, YouTube videos, GIFs, trivia, stories, quotes, music, D&D, or account/billing/website help, DO NOT attempt to fulfill it yourself.
 - Reply in one short line (e.g. "Let me hand you off to our specialist.") and stop. The orchestrator will route the user to the right agent on this same turn.`,
     model: 'gpt-3.5-turbo',
     temperature: 0.7,
     maxTokens: 900,
+    tools: [
+      'next_question',
+      'check_answer',
+      'quiz_hint',
+      'skip_question',
+      'quiz_leaderboard',
+    ],
   },
   quote_master: {
     id: 'quote_master',
@@ -813,10 +855,24 @@ SCORING & ENCOURAGEMENT:
 - Offer rematch opportunities
 - Keep competitive spirit light and fun
 
+SCORED GAMES (20 Questions, Quick Math, Memory Test, Trivia Sprint):
+- These are run by the game tools, which keep the score and the secret and mark every answer. Start them with start_game and present the challenge it returns.
+- Pass every answer or guess to submit_answer exactly as the player gave it and report what it says; never mark answers or keep score yourself.
+- In 20 Questions you are told the secret: answer each yes/no question truthfully, record it with ask_question, and never reveal the secret until the game is over.
+- If the player gives up or wants another game, call end_game. Use game_status if you lose track of the game.
+- The tools show score and result cards, so don't repeat the numbers as a table.
+
 Remember: Games should be immediately engaging, easy to understand, and perfectly timed for short attention spans during holds. Your energy and enthusiasm make all the difference!`,
     model: 'gpt-3.5-turbo',
     temperature: 0.8,
     maxTokens: 1000,
+    tools: [
+      'start_game',
+      'submit_answer',
+      'ask_question',
+      'game_status',
+      'end_game',
+    ],
   },
   music_guru: {
     id: 'music_guru',
@@ -1055,6 +1111,11 @@ Remember: Keep everything fast-paced, fun, and accessible for both D&D veterans
 
 Use the roll_dice, generate_character, and generate_encounter tools to produce structured results — do NOT manually format dice rolls or character sheets as text.
 
+CAMPAIGN STATE:
+- The party, their HP, inventory and XP, and any encounter are saved for this conversation. generate_character adds the new character to the party; campaign_summary shows where things stand.
+- Use skill_check for checks, apply_damage for every hit or heal, update_inventory when items are found, used or lost, and award_xp for rewards. Never track HP or XP in your head.
+- Start fights with start_encounter, call next_turn after each combatant acts, and end_encounter (with xp) once the fight is over. Narrate from the numbers the tools return.
+
 SCOPE & DEFERRAL:
 - Your domain is D&D-flavored interactive play (dice rolls, characters, encounters). If the user clearly asks for jokes, YouTube videos, GIFs, trivia, stories, riddles, quotes, music, or account/billing/website help, DO NOT attempt to fulfill it yourself.
 - Reply in one short line (e.g. "Let me hand you off to our specialist.") and stop. The orchestrator will route the user to the right agent on this same turn.`,
@@ -1063,16 +1124,52 @@ SCOPE & DEFERRAL:
     maxTokens: 1500,
     provider: 'anthropic' as const,
     fallbackProvider: 'openai' as const,
-    tools: ['roll_dice', 'generate_character', 'generate_encounter'],
+    tools: [
+      'roll_dice',
+      'generate_character',
+      'generate_encounter',
+      'apply_damage',
+      'skill_check',
+      'update_inventory',
+      'award_xp',
+      'start_encounter',
+      'next_turn',
+      'end_encounter',
+      'campaign_summary',
+    ],
     cacheSystem: true,
   },
 };
 
+// Own keys only, so 'constructor' and friends are not agents
+const builtInAgent = (type: string): Agent | undefined =>
+  Object.prototype.hasOwnProperty.call(AGENTS, type) ? AGENTS[type] : undefined;
+
+// Agent files win over the built-ins, but a file that sets no validation
+// policy keeps the built-in agent's
+const resolveAgent = (type: string): Agent | undefined => {
+  const file = agentLoader.get(type);
+  const builtIn = builtInAgent(type);
+  if (file && !file.validationPolicy && builtIn?.validationPolicy) {
+    return { ...file, validationPolicy: builtIn.validationPolicy };
+  }
+  return file ?? builtIn;
+};
+
 // Function to get an agent by type
 export const getAgent = (type: string): Agent => {
-  const agent = AGENTS[type];
+  const agent = resolveAgent(type);
   if (!agent) {
     throw new Error(`Agent type '${type}' not found`);
   }
   return agent;
 };
+
+export const isAgentType = (type: string): boolean => !!resolveAgent(type);
+
+// Every agent: the built-ins (as replaced by agent files), then the ones
+// only agent files define
+export const listAgents = (): Agent[] => [
+  ...Object.values(AGENTS).map(agent => resolveAgent(agent.id)!),
+  ...agentLoader.list().filter(agent => !builtInAgent(agent.id)),
+];
@@ -0,0 +1,205 @@
+import { LLMMessage } from '../llm/provider';
+import {
+  countMessageTokens,
+  countTokens,
+  getContextWindow,
+} from '../llm/tokens';
+import { ConversationSummary, Message } from '../types';
+import { LLMProviderId } from './types';
+
+/**
+ * Token-budgeted prompt assembly. The system prompt and the incoming
+ * message are always sent; prior turns are added newest-first while they
+ * fit, and anything older is folded into a rolling summary that rides
+ * along in the system prompt and is stored on the conversation.
+ */
+
+/** Share of the input budget set aside for the rolling summary. */
+const SUMMARY_BUDGET_SHARE = 0.15;
+const MAX_SUMMARY_TOKENS = 600;
+/** Share of the remaining history budget kept after a fold. */
+const FOLD_TARGET = 0.75;
+/** Headroom for estimate error and provider-side framing. */
+const SAFETY_MARGIN = 0.05;
+const EXTRACT_CHARS_PER_MESSAGE = 200;
+
+export const SUMMARY_HEADING = 'Summary of the earlier conversation:';
+
+/**
+ * Folds `messages` (oldest first) into `previous`, returning text that
+ * should stay within roughly `maxTokens`.
+ */
+export type ConversationSummarizer = (
+  previous: string | undefined,
+  messages: Message[],
+  maxTokens: number,
+) => Promise<string>;
+
+export interface ContextWindowInput {
+  systemPrompt: string;
+  history: Message[];
+  /** The incoming user message; always included. */
+  message: string;
+  providerId?: LLMProviderId;
+  model: string;
+  /** Tokens reserved for the reply (`Agent.maxTokens`). */
+  maxOutputTokens: number;
+  summary?: ConversationSummary;
+  summarize?: ConversationSummarizer;
+}
+
+export interface ContextWindow {
+  /** System prompt with the summary appended when one is in play. */
+  system: string;
+  /** Kept history followed by the incoming message. */
+  messages: LLMMessage[];
+  /** The summary in use; a fresh object when this call rewrote it. */
+  summary?: ConversationSummary;
+  summaryUpdated: boolean;
+  stats: {
+    inputBudget: number;
+    estimatedInputTokens: number;
+    keptMessages: number;
+    foldedMessages: number;
+  };
+}
+
+/**
+ * Input tokens available to the prompt: the model's window minus the reply
+ * reservation, optionally capped by CONTEXT_MAX_INPUT_TOKENS to bound cost
+ * on very large windows.
+ */
+export function inputBudgetFor(model: string, maxOutputTokens: number): number {
+  const available = getContextWindow(model) - maxOutputTokens;
+  const cap = Number(process.env.CONTEXT_MAX_INPUT_TOKENS);
+  const budget = cap > 0 ? Math.min(available, cap) : available;
+  return Math.max(0, Math.floor(budget * (1 - SAFETY_MARGIN)));
+}
+
+/** Cheap, deterministic summarizer: the opening of each folded message. */
+export const extractiveSummarizer: ConversationSummarizer = async (
+  previous,
+  messages,
+  maxTokens,
+) => {
+  const lines = previous ? previous.split('\n') : [];
+  for (const m of messages) {
+    const text = m.content.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      continue;
+    }
+    const clipped =
+      text.length > EXTRACT_CHARS_PER_MESSAGE
+        ? `${text.slice(0, EXTRACT_CHARS_PER_MESSAGE)}…`
+        : text;
+    lines.push(`- ${m.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`);
+  }
+  // Drop the oldest lines first until it fits.
+  while (lines.length > 1 && countTokens(lines.join('\n')) > maxTokens) {
+    lines.shift();
+  }
+  return lines.join('\n');
+};
+
+const withSummary = (systemPrompt: string, summary?: string): string =>
+  summary ? `${systemPrompt}\n\n${SUMMARY_HEADING}\n${summary}` : systemPrompt;
+
+export async function buildContextWindow({
+  systemPrompt,
+  history,
+  message,
+  providerId,
+  model,
+  maxOutputTokens,
+  summary,
+  summarize = extractiveSummarizer,
+}: ContextWindowInput): Promise<ContextWindow> {
+  const inputBudget = inputBudgetFor(model, maxOutputTokens);
+  const tokensOf = (m: LLMMessage) => countMessageTokens(m, providerId, model);
+  const latest: LLMMessage = { role: 'user', content: message };
+  const turns: LLMMessage[] = history.map(m => ({
+    role: m.role,
+    content: m.content,
+  }));
+
+  // Newest-first, keep turns while they fit in `budget`; returns the index
+  // of the oldest kept turn.
+  const fitFrom = (budget: number): number => {
+    let used = 0;
+    let start = turns.length;
+    while (start > 0) {
+      const cost = tokensOf(turns[start - 1]);
+      if (used + cost > budget) {
+        break;
+      }
+      used += cost;
+      start--;
+    }
+    return start;
+  };
+
+  const fixed =
+    countTokens(systemPrompt, providerId, model) +
+    tokensOf({ role: 'system', content: '' }) +
+    tokensOf(latest);
+  const historyBudget = Math.max(0, inputBudget - fixed);
+
+  let start = fitFrom(historyBudget);
+  let activeSummary: ConversationSummary | undefined;
+  let summaryUpdated = false;
+
+  if (start > 0) {
+    const summaryBudget = Math.min(
+      MAX_SUMMARY_TOKENS,
+      Math.floor(inputBudget * SUMMARY_BUDGET_SHARE),
+    );
+    const keptBudget = Math.max(0, historyBudget - summaryBudget);
+    // Index of the last message the stored summary covers, if it is still
+    // part of the history we were given.
+    const covered = summary
+      ? history.findIndex(m => m.id === summary.throughMessageId)
+      : -1;
+
+    if (covered !== -1 && fitFrom(keptBudget) <= covered + 1) {
+      // Everything after the summary still fits: reuse it as is.
+      start = covered + 1;
+      activeSummary = summary;
+    } else {
+      // Fold down to FOLD_TARGET of the budget so the next few turns fit
+      // without rewriting the summary again.
+      start = fitFrom(Math.floor(keptBudget * FOLD_TARGET));
+      const extendsSummary = covered !== -1 && covered < start;
+      const content = await summarize(
+        extendsSummary ? summary!.content : undefined,
+        history.slice(extendsSummary ? covered + 1 : 0, start),
+        summaryBudget,
+      );
+      activeSummary = {
+        content,
+        throughMessageId: history[start - 1].id,
+        updatedAt: new Date(),
+      };
+      summaryUpdated = true;
+    }
+  }
+
+  const system = withSummary(systemPrompt, activeSummary?.content);
+  const messages = [...turns.slice(start), latest];
+  const estimatedInputTokens =
+    countTokens(system, providerId, model) +
+    tokensOf({ role: 'system', content: '' }) +
+    messages.reduce((sum, m) => sum + tokensOf(m), 0);
+
+  return {
+    system,
+    messages,
+    ...(activeSummary && { summary: activeSummary }),
+    summaryUpdated,
+    stats: {
+      inputBudget,
+      estimatedInputTokens,
+      keptMessages: turns.length - start,
+      foldedMessages: start,
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { AgentType } from './types';
+import { AgentId } from './types';
 import { Message } from '../types';
 
 /**
@@ -10,7 +10,7 @@ import { Message } from '../types';
  */
 export interface ConversationContext {
   userId: string;
-  currentAgent: AgentType;
+  currentAgent: AgentId;
   conversationTopic: string;
   lastMessageTime: Date;
   messageCount: number;
@@ -26,7 +26,7 @@ export class ConversationManager {
   // Initialize conversation context for a user
   initializeContext(
     userId: string,
-    initialAgent: AgentType = 'general',
+    initialAgent: AgentId = 'general',
   ): ConversationContext {
     const context: ConversationContext = {
       userId,
@@ -49,7 +49,7 @@ export class ConversationManager {
     userId: string,
     userMessage: string,
     agentResponse: string,
-    currentAgent: AgentType,
+    currentAgent: AgentId,
   ): ConversationContext {
     let context = this.contexts.get(userId);
     if (!context) {
@@ -155,7 +155,7 @@ export class ConversationManager {
   }
 
   // Complete the handoff and reset context
-  completeHandoff(userId: string, newAgent: AgentType): ConversationContext {
+  completeHandoff(userId: string, newAgent: AgentId): ConversationContext {
     const context = this.contexts.get(userId);
     if (!context) {
       return this.initializeContext(userId, newAgent);
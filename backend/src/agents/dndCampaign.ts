@@ -0,0 +1,516 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Character, dndService, Encounter } from './dndService';
+import { CampaignStore, campaignStore } from '../storage/campaignStore';
+
+/**
+ * D&D campaign state for dnd_master: the party (stats, HP, inventory, XP)
+ * and the encounter being fought, with initiative. One campaign per
+ * conversation, or per user when there is no conversation, so a character
+ * made in one message is still there in the next.
+ *
+ * The tools in `tools/dnd.ts` call this service; each call loads the
+ * campaign, changes it and writes it back to the CampaignStore.
+ */
+
+export type Ability = keyof Character['stats'];
+
+export const SKILLS: Record<string, Ability> = {
+  athletics: 'STR',
+  acrobatics: 'DEX',
+  sleight_of_hand: 'DEX',
+  stealth: 'DEX',
+  arcana: 'INT',
+  history: 'INT',
+  investigation: 'INT',
+  nature: 'INT',
+  religion: 'INT',
+  animal_handling: 'WIS',
+  insight: 'WIS',
+  medicine: 'WIS',
+  perception: 'WIS',
+  survival: 'WIS',
+  deception: 'CHA',
+  intimidation: 'CHA',
+  performance: 'CHA',
+  persuasion: 'CHA',
+};
+const ABILITIES: Ability[] = ['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA'];
+
+// XP needed to reach levels 2-20 (5e SRD).
+const XP_THRESHOLDS = [
+  300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000, 85000, 100000,
+  120000, 140000, 165000, 195000, 225000, 265000, 305000, 355000,
+];
+const MAX_LEVEL = 20;
+
+const HIT_DIE: Record<string, number> = {
+  Barbarian: 12,
+  Fighter: 10,
+  Paladin: 10,
+  Ranger: 10,
+  Bard: 8,
+  Cleric: 8,
+  Rogue: 8,
+  Warlock: 8,
+  Sorcerer: 6,
+  Wizard: 6,
+};
+
+export interface CampaignCharacter {
+  id: string;
+  name: string;
+  race: string;
+  class: string;
+  level: number;
+  stats: Character['stats'];
+  hitPoints: number;
+  maxHitPoints: number;
+  armorClass: number;
+  inventory: string[];
+  xp: number;
+  trait: string;
+  background: string;
+}
+
+export interface Combatant {
+  /** The character's id for party members. */
+  id: string;
+  name: string;
+  side: 'party' | 'enemy';
+  initiative: number;
+  /** Enemies only; a party member's HP lives on their character. */
+  hitPoints?: number;
+  maxHitPoints?: number;
+  armorClass?: number;
+  attackBonus?: number;
+  /** Dice notation, e.g. `1d6+2`. */
+  damage?: string;
+}
+
+export interface ActiveEncounter {
+  title: string;
+  setting: string;
+  round: number;
+  /** Index into `order` of whoever is acting. */
+  turn: number;
+  /** Highest initiative first. */
+  order: Combatant[];
+}
+
+export interface Campaign {
+  id: string;
+  ownerId: string;
+  conversationId?: string;
+  name: string;
+  party: CampaignCharacter[];
+  encounter?: ActiveEncounter;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Whose campaign: the resolveIdentity user and, if any, the conversation. */
+export interface CampaignRef {
+  ownerId: string;
+  conversationId?: string;
+}
+
+export function campaignIdFor(ref: CampaignRef): string {
+  return ref.conversationId ?? `user_${ref.ownerId}`;
+}
+
+export interface HitPointChange {
+  name: string;
+  side: 'party' | 'enemy';
+  hitPoints: number;
+  maxHitPoints: number;
+  down: boolean;
+  /** Set once every enemy in the encounter is down. */
+  encounterWon?: boolean;
+}
+
+export interface LevelUp {
+  name: string;
+  level: number;
+}
+
+export interface SkillCheck {
+  character: string;
+  skill: string;
+  ability: Ability;
+  /** Both d20s with advantage or disadvantage, otherwise one. */
+  rolls: number[];
+  modifier: number;
+  total: number;
+  dc: number;
+  success: boolean;
+}
+
+export const abilityModifier = (score: number): number =>
+  Math.floor((score - 10) / 2);
+
+export class DndCampaignService {
+  constructor(
+    private readonly store: CampaignStore = campaignStore,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /** The campaign, or a new empty one (not stored until it changes). */
+  async get(ref: CampaignRef): Promise<Campaign> {
+    const id = campaignIdFor(ref);
+    const stored = await this.store.get(ref.ownerId, id);
+    if (stored) {
+      return stored;
+    }
+    const now = new Date();
+    return {
+      id,
+      ownerId: ref.ownerId,
+      ...(ref.conversationId && { conversationId: ref.conversationId }),
+      name: 'D&D Campaign',
+      party: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async addCharacter(
+    ref: CampaignRef,
+    character: Character = dndService.generateCharacter(),
+  ): Promise<{ campaign: Campaign; character: CampaignCharacter }> {
+    return this.update(ref, campaign => {
+      const member: CampaignCharacter = {
+        id: uuidv4(),
+        name: uniqueName(
+          character.name,
+          campaign.party.map(c => c.name),
+        ),
+        race: character.race,
+        class: character.class,
+        level: character.level,
+        stats: { ...character.stats },
+        hitPoints: character.hitPoints,
+        maxHitPoints: character.hitPoints,
+        armorClass: character.armorClass,
+        inventory: [...character.equipment],
+        xp: 0,
+        trait: character.trait,
+        background: character.background,
+      };
+      campaign.party.push(member);
+      return { campaign, character: member };
+    });
+  }
+
+  /**
+   * Damage (positive `amount`) or heal (negative) a party member or an
+   * enemy in the encounter. HP stays between 0 and the maximum.
+   */
+  async adjustHitPoints(
+    ref: CampaignRef,
+    target: string,
+    amount: number,
+  ): Promise<{ campaign: Campaign; change: HitPointChange }> {
+    return this.update(ref, campaign => {
+      const enemy = campaign.encounter?.order.find(
+        c => c.side === 'enemy' && sameName(c.name, target),
+      );
+      let change: HitPointChange;
+      if (enemy) {
+        enemy.hitPoints = clamp(enemy.hitPoints! - amount, enemy.maxHitPoints!);
+        change = {
+          name: enemy.name,
+          side: 'enemy',
+          hitPoints: enemy.hitPoints,
+          maxHitPoints: enemy.maxHitPoints!,
+          down: enemy.hitPoints === 0,
+        };
+        if (
+          campaign.encounter!.order.every(
+            c => c.side === 'party' || c.hitPoints === 0,
+          )
+        ) {
+          change.encounterWon = true;
+        }
+      } else {
+        const member = findCharacter(campaign, target);
+        member.hitPoints = clamp(
+          member.hitPoints - amount,
+          member.maxHitPoints,
+        );
+        change = {
+          name: member.name,
+          side: 'party',
+          hitPoints: member.hitPoints,
+          maxHitPoints: member.maxHitPoints,
+          down: member.hitPoints === 0,
+        };
+      }
+      return { campaign, change };
+    });
+  }
+
+  async updateInventory(
+    ref: CampaignRef,
+    characterName: string,
+    add: string[] = [],
+    remove: string[] = [],
+  ): Promise<{
+    campaign: Campaign;
+    character: CampaignCharacter;
+    /** Items asked to be removed that the character didn't have. */
+    missing: string[];
+  }> {
+    return this.update(ref, campaign => {
+      const character = findCharacter(campaign, characterName);
+      const missing: string[] = [];
+      for (const item of remove) {
+        const index = character.inventory.findIndex(i => sameName(i, item));
+        if (index === -1) {
+          missing.push(item);
+        } else {
+          character.inventory.splice(index, 1);
+        }
+      }
+      character.inventory.push(...add.map(item => item.trim()).filter(Boolean));
+      return { campaign, character, missing };
+    });
+  }
+
+  /** Give `amount` XP to one character, or to each one in the party. */
+  async awardXp(
+    ref: CampaignRef,
+    amount: number,
+    characterName?: string,
+  ): Promise<{ campaign: Campaign; levelUps: LevelUp[] }> {
+    return this.update(ref, campaign => ({
+      campaign,
+      levelUps: this.giveXp(
+        characterName
+          ? [findCharacter(campaign, characterName)]
+          : campaign.party,
+        amount,
+      ),
+    }));
+  }
+
+  /** A d20 ability check for `skill` (or an ability name) against `dc`. */
+  async skillCheck(
+    ref: CampaignRef,
+    characterName: string,
+    skill: string,
+    dc: number,
+    mode?: 'advantage' | 'disadvantage',
+  ): Promise<SkillCheck> {
+    const campaign = await this.get(ref);
+    const character = findCharacter(campaign, characterName);
+    const key = skill
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_');
+    const ability =
+      SKILLS[key] ?? ABILITIES.find(a => a === skill.trim().toUpperCase());
+    if (!ability) {
+      throw new Error(
+        `Unknown skill "${skill}"; use one of ${Object.keys(SKILLS).join(', ')} or an ability (STR, DEX, ...)`,
+      );
+    }
+    const rolls = mode ? [this.d20(), this.d20()] : [this.d20()];
+    const roll =
+      mode === 'advantage'
+        ? Math.max(...rolls)
+        : mode === 'disadvantage'
+          ? Math.min(...rolls)
+          : rolls[0];
+    const modifier = abilityModifier(character.stats[ability]);
+    const total = roll + modifier;
+    return {
+      character: character.name,
+      skill: SKILLS[key] ? key : ability,
+      ability,
+      rolls,
+      modifier,
+      total,
+      dc,
+      success: total >= dc,
+    };
+  }
+
+  /**
+   * Start combat, replacing any encounter in progress. Everyone standing
+   * rolls initiative (d20, plus DEX for the party); ties go to the party.
+   */
+  async startEncounter(
+    ref: CampaignRef,
+    encounter: Encounter = dndService.generateEncounter('combat'),
+  ): Promise<Campaign> {
+    return this.update(ref, campaign => {
+      if (campaign.party.length === 0) {
+        throw new Error('The party is empty; create a character first');
+      }
+      const names: string[] = [];
+      const party: Combatant[] = campaign.party
+        .filter(c => c.hitPoints > 0)
+        .map(c => ({
+          id: c.id,
+          name: c.name,
+          side: 'party',
+          initiative: this.d20() + abilityModifier(c.stats.DEX),
+        }));
+      const enemies: Combatant[] = (encounter.enemies ?? []).map(enemy => {
+        const name = uniqueName(enemy.name, names);
+        names.push(name);
+        return {
+          id: uuidv4(),
+          name,
+          side: 'enemy',
+          initiative: this.d20(),
+          hitPoints: enemy.hitPoints,
+          maxHitPoints: enemy.hitPoints,
+          armorClass: enemy.armorClass,
+          attackBonus: enemy.attackBonus,
+          damage: enemy.damage,
+        };
+      });
+      campaign.encounter = {
+        title: encounter.title,
+        setting: encounter.setting,
+        round: 1,
+        turn: 0,
+        order: [...party, ...enemies].sort(
+          (a, b) =>
+            b.initiative - a.initiative ||
+            (a.side === b.side ? 0 : a.side === 'party' ? -1 : 1),
+        ),
+      };
+      return campaign;
+    });
+  }
+
+  /** Pass the turn to the next combatant still standing. */
+  async nextTurn(
+    ref: CampaignRef,
+  ): Promise<{ campaign: Campaign; current: Combatant }> {
+    return this.update(ref, campaign => {
+      const encounter = campaign.encounter;
+      if (!encounter) {
+        throw new Error('No encounter in progress');
+      }
+      const standing = (c: Combatant) =>
+        c.side === 'enemy'
+          ? c.hitPoints! > 0
+          : (campaign.party.find(m => m.id === c.id)?.hitPoints ?? 0) > 0;
+      if (!encounter.order.some(standing)) {
+        throw new Error('Nobody is left standing');
+      }
+      do {
+        encounter.turn++;
+        if (encounter.turn >= encounter.order.length) {
+          encounter.turn = 0;
+          encounter.round++;
+        }
+      } while (!standing(encounter.order[encounter.turn]));
+      return { campaign, current: encounter.order[encounter.turn] };
+    });
+  }
+
+  /** End the encounter, optionally giving each survivor `xp`. */
+  async endEncounter(
+    ref: CampaignRef,
+    xp = 0,
+  ): Promise<{ campaign: Campaign; levelUps: LevelUp[] }> {
+    return this.update(ref, campaign => {
+      if (!campaign.encounter) {
+        throw new Error('No encounter in progress');
+      }
+      delete campaign.encounter;
+      const levelUps =
+        xp > 0
+          ? this.giveXp(
+              campaign.party.filter(c => c.hitPoints > 0),
+              xp,
+            )
+          : [];
+      return { campaign, levelUps };
+    });
+  }
+
+  private async update<T>(
+    ref: CampaignRef,
+    change: (campaign: Campaign) => T,
+  ): Promise<T> {
+    const campaign = await this.get(ref);
+    const result = change(campaign);
+    campaign.updatedAt = new Date();
+    await this.store.save(campaign);
+    return result;
+  }
+
+  private d20(): number {
+    return Math.floor(this.random() * 20) + 1;
+  }
+
+  /** Level up as thresholds are crossed: average hit die + CON each level. */
+  private giveXp(characters: CampaignCharacter[], amount: number): LevelUp[] {
+    const levelUps: LevelUp[] = [];
+    for (const character of characters) {
+      character.xp += amount;
+      const before = character.level;
+      while (
+        character.level < MAX_LEVEL &&
+        character.xp >= XP_THRESHOLDS[character.level - 1]
+      ) {
+        character.level++;
+        const gain = Math.max(
+          1,
+          (HIT_DIE[character.class] ?? 8) / 2 +
+            1 +
+            abilityModifier(character.stats.CON),
+        );
+        character.maxHitPoints += gain;
+        character.hitPoints += gain;
+      }
+      if (character.level > before) {
+        levelUps.push({ name: character.name, level: character.level });
+      }
+    }
+    return levelUps;
+  }
+}
+
+function clamp(hitPoints: number, max: number): number {
+  return Math.max(0, Math.min(max, hitPoints));
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** `name`, or `name 2`, `name 3`... when it is already taken. */
+function uniqueName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let n = 2; taken.some(t => sameName(t, candidate)); n++) {
+    candidate = `${name} ${n}`;
+  }
+  return candidate;
+}
+
+/** By full name, or by a first name only one party member has. */
+function findCharacter(campaign: Campaign, name: string): CampaignCharacter {
+  const exact = campaign.party.find(c => sameName(c.name, name));
+  if (exact) {
+    return exact;
+  }
+  const first = campaign.party.filter(c =>
+    sameName(c.name.split(' ')[0], name),
+  );
+  if (first.length === 1) {
+    return first[0];
+  }
+  throw new Error(
+    campaign.party.length === 0
+      ? 'The party is empty; create a character first'
+      : `No party member named "${name}"; the party is ${campaign.party.map(c => c.name).join(', ')}`,
+  );
+}
+
+export const dndCampaignService = new DndCampaignService();
@@ -0,0 +1,315 @@
+import OpenAI from 'openai';
+
+/**
+ * Text embeddings for semantic retrieval. RAGService only depends on the
+ * EmbeddingProvider interface; the default is a deterministic hashed
+ * bag-of-words that needs no network or model download, and
+ * `RAG_EMBEDDINGS=openai` switches to OpenAI's embedding API.
+ */
+
+export interface EmbeddingProvider {
+  readonly id: string;
+  /** One vector per input text, in the same order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Words too common to say anything about what a text is about. */
+export const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'can',
+  'could',
+  'do',
+  'for',
+  'from',
+  'give',
+  'have',
+  'how',
+  'i',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'me',
+  'my',
+  'of',
+  'on',
+  'one',
+  'or',
+  'please',
+  'show',
+  'some',
+  'something',
+  'tell',
+  'that',
+  'the',
+  'their',
+  'this',
+  'to',
+  'want',
+  'was',
+  'what',
+  'with',
+  'you',
+  'your',
+]);
+
+// Crude suffix stripping so "planets"/"planet" and "programmers"/
+// "programming" land on the same feature. Applied identically to queries
+// and content, so it only needs to be consistent, not linguistic.
+const SUFFIXES: Array<[suffix: string, replacement: string]> = [
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ers', ''],
+  ['er', ''],
+  ['ed', ''],
+  ['es', ''],
+  ['s', ''],
+];
+const MIN_STEM = 3;
+
+function stem(word: string): string {
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (
+      word.endsWith(suffix) &&
+      word.length - suffix.length + replacement.length >= MIN_STEM &&
+      !word.endsWith('ss')
+    ) {
+      return word.slice(0, -suffix.length) + replacement;
+    }
+  }
+  return word;
+}
+
+/** Lower-cased, stemmed content words; numbers and stop words dropped. */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w) && !/^\d+$/.test(w))
+    .map(stem);
+}
+
+// A small bundled lexicon standing in for what a trained model learns: any
+// of these words also emits a shared `concept:<name>` feature, so "outer
+// space" and "Venus orbits the Sun" overlap without sharing a word.
+const CONCEPTS: Record<string, string[]> = {
+  space: [
+    'space',
+    'outer',
+    'cosmos',
+    'cosmic',
+    'universe',
+    'galaxy',
+    'planet',
+    'planetary',
+    'venus',
+    'mars',
+    'jupiter',
+    'saturn',
+    'earth',
+    'moon',
+    'sun',
+    'star',
+    'orbit',
+    'rotation',
+    'astronomy',
+    'astronaut',
+    'nasa',
+    'rocket',
+  ],
+  animals: [
+    'animal',
+    'creature',
+    'wildlife',
+    'octopus',
+    'dolphin',
+    'shark',
+    'bear',
+    'cat',
+    'dog',
+    'bird',
+    'marine',
+    'species',
+    'zoo',
+    'pet',
+  ],
+  ocean: ['ocean', 'sea', 'marine', 'underwater', 'fish', 'reef', 'whale'],
+  food: [
+    'food',
+    'eat',
+    'cooking',
+    'cook',
+    'honey',
+    'pasta',
+    'noodle',
+    'egg',
+    'banana',
+    'fruit',
+    'snack',
+    'meal',
+    'recipe',
+  ],
+  weather: ['weather', 'cloud', 'rain', 'storm', 'snow', 'climate', 'sky'],
+  technology: [
+    'technology',
+    'tech',
+    'computer',
+    'programming',
+    'programmer',
+    'code',
+    'coding',
+    'software',
+    'developer',
+    'bug',
+    'internet',
+  ],
+  body: [
+    'body',
+    'brain',
+    'heart',
+    'blood',
+    'health',
+    'metabolism',
+    'skeleton',
+    'bone',
+    'teeth',
+  ],
+  history: [
+    'history',
+    'historical',
+    'ancient',
+    'egypt',
+    'pyramid',
+    'archaeology',
+    'myth',
+    'medieval',
+    'prehistoric',
+    'dinosaur',
+  ],
+  math: [
+    'math',
+    'mathematics',
+    'number',
+    'combination',
+    'chess',
+    'equation',
+    'physics',
+  ],
+  plants: ['plant', 'tree', 'botany', 'flower', 'forest', 'garden'],
+  humor: ['funny', 'laugh', 'hilarious', 'joke', 'pun', 'comedy', 'humor'],
+  happy: ['happy', 'celebrate', 'celebration', 'excited', 'joy', 'party'],
+};
+
+const CONCEPT_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+  for (const [concept, words] of Object.entries(CONCEPTS)) {
+    for (const word of words) {
+      const key = stem(word);
+      index.set(key, [...(index.get(key) ?? []), `concept:${concept}`]);
+    }
+  }
+  return index;
+})();
+
+// 32-bit FNV-1a; stable across runs and platforms.
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embeddings: stemmed words and their lexicon concepts
+ * are hashed into a fixed number of signed buckets, weighted by sublinear
+ * term frequency and L2-normalised. Cheap enough to embed on every query.
+ */
+export class HashedBagOfWordsEmbedder implements EmbeddingProvider {
+  readonly id = 'hashed-bow';
+
+  constructor(private readonly dimensions = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      for (const feature of [token, ...(CONCEPT_INDEX.get(token) ?? [])]) {
+        counts.set(feature, (counts.get(feature) ?? 0) + 1);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from only ever adding up.
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+/** Embeddings from OpenAI (`RAG_EMBEDDING_MODEL`, default text-embedding-3-small). */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(
+    private readonly model = process.env.RAG_EMBEDDING_MODEL ||
+      'text-embedding-3-small',
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/** Pick the provider named by `RAG_EMBEDDINGS` (`hashed` or `openai`). */
+export function createEmbeddingProvider(
+  kind = process.env.RAG_EMBEDDINGS || 'hashed',
+): EmbeddingProvider {
+  if (kind === 'openai') {
+    if (process.env.OPENAI_API_KEY) {
+      return new OpenAIEmbeddingProvider();
+    }
+    console.warn(
+      '⚠️ RAG_EMBEDDINGS=openai but OPENAI_API_KEY is not set; using hashed embeddings',
+    );
+  } else if (kind !== 'hashed') {
+    console.warn(
+      `⚠️ Unknown RAG_EMBEDDINGS "${kind}"; using hashed embeddings`,
+    );
+  }
+  return new HashedBagOfWordsEmbedder();
+}
@@ -1,5 +1,5 @@
 import { AgentService } from './agentService';
-import { AgentType } from './types';
+import { AgentId, BuiltInAgentType } from './types';
 import { Message } from '../types';
 
 export interface Goal {
@@ -32,7 +32,7 @@ export interface GoalAction {
     | 'entertainment_offer'
     | 'technical_check'
     | 'status_update';
-  agentType: AgentType;
+  agentType: AgentId;
   message: string;
   timing: 'immediate' | 'delayed';
   delayMs?: number;
@@ -294,7 +294,7 @@ export class GoalSeekingSystem {
     userState: UserState,
   ): Promise<GoalAction> {
     const preference = userState.entertainmentPreference || 'mixed';
-    let agentType: AgentType;
+    let agentType: AgentId;
     let message: string;
 
     // Calculate appropriate delay based on how long user has been waiting
@@ -312,7 +312,7 @@ export class GoalSeekingSystem {
     }
 
     // All available entertainment agents - ONLY entertainment agents can be proactive
-    const entertainmentAgents: AgentType[] = [
+    const entertainmentAgents: BuiltInAgentType[] = [
       'joke',
       'trivia',
       'gif',
@@ -366,7 +366,7 @@ export class GoalSeekingSystem {
   }
 
   // Helper method to get appropriate message for each entertainment agent
-  private getEntertainmentMessage(agentType: AgentType): string {
+  private getEntertainmentMessage(agentType: AgentId): string {
     switch (agentType) {
       case 'joke':
         return 'Tell me a joke right now. I want to hear one of your best ones!';
@@ -415,7 +415,7 @@ export class GoalSeekingSystem {
     // REMOVED ALL GENERAL AGENT PROACTIVE ACTIONS - Only entertainment agents should be proactive
     // Instead of general agent status updates, let entertainment agents handle engagement
 
-    const entertainmentAgents: AgentType[] = [
+    const entertainmentAgents: BuiltInAgentType[] = [
       'joke',
       'trivia',
       'gif',
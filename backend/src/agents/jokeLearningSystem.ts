@@ -5,6 +5,7 @@ import {
   JokeCategory,
   LearningMetrics,
 } from './learningTypes';
+import { ragService } from './ragService';
 
 export class JokeLearningSystem {
   private userProfiles: Map<string, UserJokeProfile> = new Map();
@@ -104,7 +105,7 @@ export class JokeLearningSystem {
     this.userProfiles.set(reaction.userId, userProfile);
 
     // Update joke performance
-    if (reaction.jokeCategory && reaction.jokeType) {
+    if (reaction.contentId || (reaction.jokeCategory && reaction.jokeType)) {
       this.updateJokePerformance(reaction);
     }
 
@@ -217,6 +218,11 @@ export class JokeLearningSystem {
     return { ...this.learningMetrics };
   }
 
+  // Get performance for a joke, keyed by RAG content id when known
+  getJokePerformance(jokeId: string): JokePerformance | null {
+    return this.jokePerformance.get(jokeId) || null;
+  }
+
   // Get joke categories
   getJokeCategories(): JokeCategory[] {
     return [...this.jokeCategories];
@@ -344,14 +350,20 @@ export class JokeLearningSystem {
   }
 
   private updateJokePerformance(reaction: UserReaction): void {
-    const jokeId = `${reaction.jokeCategory}_${reaction.jokeType}_${reaction.messageId}`;
+    // Curated jokes are tracked across every message that told them
+    const curated = reaction.contentId
+      ? ragService.getContentById(reaction.contentId)
+      : null;
+    const jokeId =
+      reaction.contentId ??
+      `${reaction.jokeCategory}_${reaction.jokeType}_${reaction.messageId}`;
     let performance = this.jokePerformance.get(jokeId);
 
     if (!performance) {
       performance = {
         jokeId,
-        content: '', // Would be filled from the actual joke content
-        category: reaction.jokeCategory || 'unknown',
+        content: curated?.content ?? '',
+        category: reaction.jokeCategory || curated?.category || 'unknown',
         type: reaction.jokeType || 'unknown',
         totalShows: 0,
         positiveReactions: 0,
@@ -5,6 +5,8 @@ export interface UserReaction {
   timestamp: Date;
   jokeType?: string;
   jokeCategory?: string;
+  /** RAG content id the joke came from (see Message.ragContentIds). */
+  contentId?: string;
 }
 
 export interface JokePerformance {
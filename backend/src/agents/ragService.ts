@@ -1,8 +1,29 @@
-import { AgentType } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentId, BuiltInAgentType } from './types';
+import {
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  tokenize,
+} from './embeddings';
+import { VectorIndex } from './vectorIndex';
+import {
+  RagContentStore,
+  createRagContentStore,
+} from '../storage/ragContentStore';
+import { MemoryRagContentStore } from '../storage/memoryRagContentStore';
+
+export const CONTENT_TYPES = [
+  'joke',
+  'trivia',
+  'gif',
+  'quote',
+  'riddle',
+] as const;
+export type ContentType = (typeof CONTENT_TYPES)[number];
 
 export interface ContentItem {
   id: string;
-  type: 'joke' | 'trivia' | 'gif';
+  type: ContentType;
   content: string;
   category?: string;
   tags: string[];
@@ -12,7 +33,7 @@ export interface ContentItem {
 
 export interface SearchQuery {
   text: string;
-  type?: 'joke' | 'trivia' | 'gif';
+  type?: ContentType;
   category?: string;
   tags?: string[];
   limit?: number;
@@ -23,12 +44,129 @@ export interface SearchResult {
   relevanceScore: number;
 }
 
+/** A fresh `<type>_<hex>` id for content authored without one. */
+export function newContentId(type: ContentType): string {
+  return `${type}_${uuidv4().replace(/-/g, '').slice(0, 12)}`;
+}
+
+/** Fields an edit may change; the id is fixed. */
+export type ContentUpdate = Partial<Omit<ContentItem, 'id'>>;
+
+export interface ContentImportResult {
+  added: string[];
+  updated: string[];
+  /** Items whose content duplicates another item's. */
+  skipped: string[];
+}
+
+// Hybrid ranking weights. Lexical matches on tags and categories are precise
+// when they hit; the semantic score catches paraphrases they miss.
+const LEXICAL_WEIGHT = 0.4;
+const SEMANTIC_WEIGHT = 0.6;
+const MIN_RELEVANCE = 0.1;
+
+// Which curated content each agent draws on
+const AGENT_CONTENT_TYPES: Partial<Record<BuiltInAgentType, ContentType>> = {
+  joke: 'joke',
+  trivia: 'trivia',
+  gif: 'gif',
+  quote_master: 'quote',
+  riddle_master: 'riddle',
+};
+
+// Share of an item's words a reply must repeat to count as having used it
+const USED_CONTENT_OVERLAP = 0.6;
+
+const CURATED_CONTENT_HEADING = 'Curated content you can draw on:';
+
+/**
+ * Append retrieved items to an agent's system prompt, each tagged with its
+ * id so the reply can be traced back to the content it used.
+ */
+export function withCuratedContent(
+  systemPrompt: string,
+  items: ContentItem[],
+): string {
+  if (items.length === 0) {
+    return systemPrompt;
+  }
+  const lines = items
+    .map(item => {
+      const answer = item.metadata?.answer
+        ? ` (answer: ${item.metadata.answer})`
+        : '';
+      const description = item.metadata?.description
+        ? ` (${item.metadata.description})`
+        : '';
+      return `- [${item.id}] ${item.content}${description}${answer}`;
+    })
+    .join('\n');
+  return `${systemPrompt}\n\n${CURATED_CONTENT_HEADING}\n${lines}\nThese are rated favourites. Prefer using one where it fits, word for word; don't mention the ids.`;
+}
+
+/**
+ * Ids of the `items` a reply actually used: GIFs by URL, everything else by
+ * repeating most of the item's words.
+ */
+export function findUsedContent(
+  response: string,
+  items: ContentItem[],
+): string[] {
+  const responseWords = new Set(tokenize(response));
+  return items
+    .filter(item => {
+      if (item.type === 'gif') {
+        return response.includes(item.content);
+      }
+      const words = new Set(tokenize(item.content));
+      if (words.size === 0) {
+        return false;
+      }
+      const shared = [...words].filter(w => responseWords.has(w)).length;
+      return shared / words.size >= USED_CONTENT_OVERLAP;
+    })
+    .map(item => item.id);
+}
+
 export class RAGService {
   private contentDatabase: ContentItem[] = [];
   private readonly maxResults = 10;
+  private readonly vectorIndex = new VectorIndex();
+  // Tail of the embedding queue; search waits on it so freshly added
+  // content is always rankable.
+  private indexing: Promise<void> = Promise.resolve();
+  /**
+   * Settles once the content store has been read. Until then the built-in
+   * corpus is served; reads and edits that must see stored content wait.
+   */
+  readonly ready: Promise<void>;
 
-  constructor() {
+  constructor(
+    private readonly embedder: EmbeddingProvider = createEmbeddingProvider(),
+    private readonly store: RagContentStore = new MemoryRagContentStore(),
+  ) {
     this.initializeContent();
+    this.ready = this.loadFromStore();
+  }
+
+  // The store is the source of truth once it holds anything; an empty one
+  // is seeded with the built-in corpus.
+  private async loadFromStore(): Promise<void> {
+    try {
+      const stored = await this.store.list();
+      if (stored.length === 0) {
+        await this.store.putMany(this.contentDatabase);
+      } else {
+        this.contentDatabase = stored;
+        console.log(`📚 RAG content loaded: ${stored.length} stored items`);
+      }
+    } catch (error) {
+      console.warn(
+        '⚠️ RAG content store unavailable; serving the built-in corpus',
+        error,
+      );
+    }
+    this.queueEmbedding([...this.contentDatabase]);
   }
 
   private initializeContent(): void {
@@ -132,6 +270,12 @@ export class RAGService {
         category: 'animals',
         tags: ['octopus', 'hearts', 'blood', 'marine', 'biology'],
         rating: 5,
+        metadata: {
+          question: 'How many hearts does an octopus have?',
+          answer: '3',
+          accept: ['three'],
+          hint: "It's more than you have, and two of them serve the gills.",
+        },
       },
       {
         id: 'trivia_002',
@@ -141,6 +285,12 @@ export class RAGService {
         category: 'food',
         tags: ['honey', 'ancient', 'egypt', 'preservation', 'archaeology'],
         rating: 5,
+        metadata: {
+          question:
+            'Which food never spoils? Archaeologists have found edible pots of it in Egyptian tombs.',
+          answer: 'Honey',
+          hint: 'Bees make it.',
+        },
       },
       {
         id: 'trivia_003',
@@ -150,6 +300,13 @@ export class RAGService {
         category: 'weather',
         tags: ['clouds', 'weight', 'elephants', 'weather', 'physics'],
         rating: 5,
+        metadata: {
+          question:
+            'A single cloud can weigh as much as about how many elephants?',
+          answer: '100',
+          accept: ['a hundred', 'one hundred'],
+          hint: "It's a nice round number with three digits.",
+        },
       },
       {
         id: 'trivia_004',
@@ -165,6 +322,13 @@ export class RAGService {
           'classification',
         ],
         rating: 4,
+        metadata: {
+          question:
+            'Botanically speaking, which is a berry: a banana or a strawberry?',
+          answer: 'Banana',
+          accept: ['bananas'],
+          hint: "It's the one that's yellow.",
+        },
       },
       {
         id: 'trivia_005',
@@ -174,6 +338,13 @@ export class RAGService {
         category: 'human_body',
         tags: ['brain', 'energy', 'body', 'metabolism', 'biology'],
         rating: 5,
+        metadata: {
+          question:
+            "Roughly what percentage of the body's energy does the human brain use?",
+          answer: '20',
+          accept: ['twenty'],
+          hint: 'Somewhere between a tenth and a quarter.',
+        },
       },
       {
         id: 'trivia_006',
@@ -183,6 +354,12 @@ export class RAGService {
         category: 'mathematics',
         tags: ['chess', 'mathematics', 'universe', 'atoms', 'combinations'],
         rating: 5,
+        metadata: {
+          question:
+            'There are more possible games of which board game than there are atoms in the observable universe?',
+          answer: 'Chess',
+          hint: 'Kings, queens and pawns are involved.',
+        },
       },
       {
         id: 'trivia_007',
@@ -192,6 +369,13 @@ export class RAGService {
         category: 'animals',
         tags: ['dolphins', 'communication', 'names', 'whistles', 'marine'],
         rating: 5,
+        metadata: {
+          question:
+            'Which marine mammals use unique whistles as names for each other?',
+          answer: 'Dolphins',
+          accept: ['dolphin'],
+          hint: "They're famous for their intelligence and their leaps.",
+        },
       },
       {
         id: 'trivia_008',
@@ -201,6 +385,11 @@ export class RAGService {
         category: 'space',
         tags: ['venus', 'space', 'rotation', 'orbit', 'planets'],
         rating: 5,
+        metadata: {
+          question: 'On which planet is a day longer than its year?',
+          answer: 'Venus',
+          hint: "It's the second planet from the Sun.",
+        },
       },
       {
         id: 'trivia_009',
@@ -210,6 +399,13 @@ export class RAGService {
         category: 'history',
         tags: ['great wall', 'china', 'space', 'myth', 'astronomy'],
         rating: 4,
+        metadata: {
+          question:
+            'Which famous landmark is wrongly believed to be visible from space with the naked eye?',
+          answer: 'The Great Wall of China',
+          accept: ['Great Wall'],
+          hint: "It's a very long wall in Asia.",
+        },
       },
       {
         id: 'trivia_010',
@@ -219,6 +415,151 @@ export class RAGService {
         category: 'animals',
         tags: ['sharks', 'evolution', 'trees', 'extinction', 'prehistoric'],
         rating: 5,
+        metadata: {
+          question:
+            'Which animals have been around for more than 400 million years, making them older than trees?',
+          answer: 'Sharks',
+          accept: ['shark'],
+          hint: 'They live in the ocean and never stop growing new teeth.',
+        },
+      },
+
+      // Quotes
+      {
+        id: 'quote_001',
+        type: 'quote',
+        content:
+          'The only way to do great work is to love what you do. — Steve Jobs',
+        category: 'motivation',
+        tags: ['work', 'passion', 'career', 'motivation', 'inspiration'],
+        rating: 5,
+      },
+      {
+        id: 'quote_002',
+        type: 'quote',
+        content:
+          'Patience is not the ability to wait, but the ability to keep a good attitude while waiting. — Joyce Meyer',
+        category: 'patience',
+        tags: ['patience', 'waiting', 'attitude', 'calm', 'wisdom'],
+        rating: 5,
+      },
+      {
+        id: 'quote_003',
+        type: 'quote',
+        content:
+          'In the middle of every difficulty lies opportunity. — Albert Einstein',
+        category: 'resilience',
+        tags: ['difficulty', 'opportunity', 'challenge', 'hope', 'resilience'],
+        rating: 5,
+      },
+      {
+        id: 'quote_004',
+        type: 'quote',
+        content:
+          "I'm not superstitious, but I am a little stitious. — Michael Scott",
+        category: 'funny',
+        tags: ['funny', 'humor', 'comedy', 'tv', 'wordplay'],
+        rating: 4,
+      },
+      {
+        id: 'quote_005',
+        type: 'quote',
+        content:
+          'The journey of a thousand miles begins with one step. — Lao Tzu',
+        category: 'wisdom',
+        tags: ['journey', 'beginning', 'progress', 'wisdom', 'philosophy'],
+        rating: 5,
+      },
+      {
+        id: 'quote_006',
+        type: 'quote',
+        content:
+          'Happiness is not something ready made. It comes from your own actions. — Dalai Lama',
+        category: 'happiness',
+        tags: ['happiness', 'joy', 'actions', 'positivity', 'wisdom'],
+        rating: 4,
+      },
+
+      // Riddles
+      {
+        id: 'riddle_001',
+        type: 'riddle',
+        content: "What has keys but can't open locks?",
+        category: 'wordplay',
+        tags: ['keys', 'music', 'piano', 'wordplay', 'easy'],
+        rating: 4,
+        metadata: {
+          answer: 'A piano',
+          accept: ['Piano', 'Keyboard'],
+          hint: 'You play it with your fingers.',
+        },
+      },
+      {
+        id: 'riddle_002',
+        type: 'riddle',
+        content: 'The more you take, the more you leave behind. What am I?',
+        category: 'logic',
+        tags: ['footsteps', 'walking', 'logic', 'classic', 'medium'],
+        rating: 5,
+        metadata: {
+          answer: 'Footsteps',
+          accept: ['Footprints', 'Steps'],
+          hint: 'Think about walking on a sandy beach.',
+        },
+      },
+      {
+        id: 'riddle_003',
+        type: 'riddle',
+        content:
+          'I speak without a mouth and hear without ears. I have no body, but I come alive with wind. What am I?',
+        category: 'nature',
+        tags: ['echo', 'sound', 'wind', 'nature', 'classic'],
+        rating: 5,
+        metadata: {
+          answer: 'An echo',
+          hint: "Shout in a canyon and you'll hear it.",
+        },
+      },
+      {
+        id: 'riddle_004',
+        type: 'riddle',
+        content:
+          'A man pushes his car to a hotel and tells the owner he is bankrupt. Why?',
+        category: 'lateral_thinking',
+        tags: ['monopoly', 'game', 'lateral thinking', 'puzzle', 'hard'],
+        rating: 4,
+        metadata: {
+          answer: "He's playing Monopoly",
+          accept: ['Monopoly'],
+          hint: "He isn't really driving anywhere.",
+        },
+      },
+      {
+        id: 'riddle_005',
+        type: 'riddle',
+        content: 'What has to be broken before you can use it?',
+        category: 'wordplay',
+        tags: ['egg', 'food', 'breakfast', 'wordplay', 'easy'],
+        rating: 4,
+        metadata: {
+          answer: 'An egg',
+          accept: ['Eggs'],
+          hint: 'You might find it at breakfast.',
+        },
+      },
+      {
+        id: 'riddle_006',
+        type: 'riddle',
+        content:
+          'I have cities, but no houses. I have mountains, but no trees. I have water, but no fish. What am I?',
+        category: 'logic',
+        tags: ['map', 'geography', 'travel', 'logic', 'medium'],
+        rating: 5,
+        metadata: {
+          answer: 'A map',
+          accept: ['Atlas'],
+          hint: 'Travellers unfold it.',
+        },
       },
 
       // GIF URLs (from popular services)
@@ -355,10 +696,43 @@ export class RAGService {
     );
   }
 
-  // Simple text similarity scoring (can be replaced with vector embeddings)
-  private calculateRelevanceScore(query: string, item: ContentItem): number {
+  // Text that represents an item in the vector index. GIF content is a URL,
+  // so its description carries the meaning.
+  private embeddingText(item: ContentItem): string {
+    return [
+      item.metadata?.description,
+      item.type === 'gif' ? undefined : item.content,
+      item.category?.replace(/_/g, ' '),
+      item.tags.join(' '),
+    ]
+      .filter(Boolean)
+      .join('. ');
+  }
+
+  private queueEmbedding(items: ContentItem[]): void {
+    this.indexing = this.indexing
+      .then(async () => {
+        const vectors = await this.embedder.embed(
+          items.map(item => this.embeddingText(item)),
+        );
+        items.forEach((item, i) =>
+          this.vectorIndex.upsert(item.id, vectors[i]),
+        );
+      })
+      .catch(error => {
+        // Unindexed items still rank lexically.
+        console.warn(
+          `⚠️ RAG embedding with ${this.embedder.id} failed; ranking lexically`,
+          error,
+        );
+      });
+  }
+
+  // Keyword scoring on tags, category and content
+  private calculateLexicalScore(query: string, item: ContentItem): number {
     const queryLower = query.toLowerCase();
     const contentLower = item.content.toLowerCase();
+    const categoryLower = item.category?.toLowerCase();
     let score = 0;
 
     // Exact phrase match
@@ -366,8 +740,7 @@ export class RAGService {
       score += 0.8;
     }
 
-    // Tag matching
-    const queryWords = queryLower.split(' ').filter(word => word.length > 2);
+    const queryWords = tokenize(query).filter(word => word.length > 2);
     for (const word of queryWords) {
       // Check tags
       for (const tag of item.tags) {
@@ -381,8 +754,8 @@ export class RAGService {
 
       // Check category
       if (
-        item.category?.toLowerCase().includes(word) ||
-        word.includes(item.category?.toLowerCase() || '')
+        categoryLower &&
+        (categoryLower.includes(word) || word.includes(categoryLower))
       ) {
         score += 0.2;
       }
@@ -401,8 +774,35 @@ export class RAGService {
     return Math.min(score, 1); // Cap at 1.0
   }
 
-  // Search for relevant content
-  search(query: SearchQuery): SearchResult[] {
+  // Cosine similarity of the query to each candidate, clamped to [0, 1]
+  private async calculateSemanticScores(
+    query: string,
+    candidates: ContentItem[],
+  ): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    await this.ready;
+    await this.indexing;
+
+    try {
+      const [queryVector] = await this.embedder.embed([query]);
+      const ids = new Set(candidates.map(item => item.id));
+      for (const match of this.vectorIndex.topK(queryVector, ids.size, id =>
+        ids.has(id),
+      )) {
+        scores.set(match.id, Math.max(match.score, 0));
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️ RAG query embedding with ${this.embedder.id} failed; ranking lexically`,
+        error,
+      );
+    }
+    return scores;
+  }
+
+  // Search for relevant content, ranked by lexical and semantic similarity
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    await this.ready;
     let filteredItems = this.contentDatabase;
 
     // Filter by type
@@ -424,13 +824,20 @@ export class RAGService {
       );
     }
 
+    const semanticScores = await this.calculateSemanticScores(
+      query.text,
+      filteredItems,
+    );
+
     // Calculate relevance scores
     const results: SearchResult[] = filteredItems
       .map(item => ({
         item,
-        relevanceScore: this.calculateRelevanceScore(query.text, item),
+        relevanceScore:
+          LEXICAL_WEIGHT * this.calculateLexicalScore(query.text, item) +
+          SEMANTIC_WEIGHT * (semanticScores.get(item.id) ?? 0),
       }))
-      .filter(result => result.relevanceScore > 0.1) // Minimum relevance threshold
+      .filter(result => result.relevanceScore > MIN_RELEVANCE)
       .sort((a, b) => b.relevanceScore - a.relevanceScore) // Sort by relevance
       .slice(0, query.limit || this.maxResults);
 
@@ -441,10 +848,7 @@ export class RAGService {
   }
 
   // Get random content of a specific type
-  getRandomContent(
-    type: 'joke' | 'trivia' | 'gif',
-    category?: string,
-  ): ContentItem | null {
+  getRandomContent(type: ContentType, category?: string): ContentItem | null {
     let filteredItems = this.contentDatabase.filter(item => item.type === type);
 
     if (category) {
@@ -459,22 +863,127 @@ export class RAGService {
     return filteredItems[randomIndex];
   }
 
+  /**
+   * Riddles and trivia that can be asked as quiz questions: those with a
+   * `metadata.answer` (and, for trivia, a `metadata.question`).
+   */
+  async listQuizContent(type: 'riddle' | 'trivia'): Promise<ContentItem[]> {
+    await this.ready;
+    return this.contentDatabase.filter(
+      item =>
+        item.type === type &&
+        item.metadata?.answer &&
+        (type === 'riddle' || item.metadata.question),
+    );
+  }
+
   // Get content by ID
   getContentById(id: string): ContentItem | null {
     return this.contentDatabase.find(item => item.id === id) || null;
   }
 
-  // Add new content (for dynamic expansion)
-  addContent(item: ContentItem): void {
+  // List content, optionally of one type and category
+  async listContent(
+    filter: { type?: ContentType; category?: string } = {},
+  ): Promise<ContentItem[]> {
+    await this.ready;
+    return this.contentDatabase.filter(
+      item =>
+        (!filter.type || item.type === filter.type) &&
+        (!filter.category || item.category === filter.category),
+    );
+  }
+
+  // Add new content; null when the id or content is already taken
+  async addContent(item: ContentItem): Promise<ContentItem | null> {
+    await this.ready;
     // Check for duplicates
     const existing = this.contentDatabase.find(
       existing => existing.content === item.content || existing.id === item.id,
     );
+    if (existing) {
+      return null;
+    }
 
-    if (!existing) {
-      this.contentDatabase.push(item);
-      console.log(`📚 Added new ${item.type} content: ${item.id}`);
+    await this.store.put(item);
+    this.contentDatabase.push(item);
+    this.queueEmbedding([item]);
+    console.log(`📚 Added new ${item.type} content: ${item.id}`);
+    return item;
+  }
+
+  // Edit content in place; null when the id is unknown
+  async updateContent(
+    id: string,
+    changes: ContentUpdate,
+  ): Promise<ContentItem | null> {
+    await this.ready;
+    const index = this.contentDatabase.findIndex(item => item.id === id);
+    if (index === -1) {
+      return null;
     }
+
+    const updated: ContentItem = {
+      ...this.contentDatabase[index],
+      ...changes,
+      id,
+    };
+    await this.store.put(updated);
+    this.contentDatabase[index] = updated;
+    this.queueEmbedding([updated]);
+    return updated;
+  }
+
+  async removeContent(id: string): Promise<boolean> {
+    await this.ready;
+    const index = this.contentDatabase.findIndex(item => item.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    await this.store.delete(id);
+    this.contentDatabase.splice(index, 1);
+    this.vectorIndex.remove(id);
+    return true;
+  }
+
+  /**
+   * Bulk upsert: items with a known id replace it, the rest are added under
+   * their own id or a generated `<type>_<hex>` one. Content that duplicates
+   * a different item is skipped.
+   */
+  async importContent(
+    drafts: Array<Omit<ContentItem, 'id'> & { id?: string }>,
+  ): Promise<ContentImportResult> {
+    await this.ready;
+    const result: ContentImportResult = { added: [], updated: [], skipped: [] };
+    const byId = new Map(this.contentDatabase.map(item => [item.id, item]));
+    const idByContent = new Map(
+      this.contentDatabase.map(item => [item.content, item.id]),
+    );
+    const accepted: ContentItem[] = [];
+
+    for (const draft of drafts) {
+      const id = draft.id ?? newContentId(draft.type);
+      const owner = idByContent.get(draft.content);
+      if (owner !== undefined && owner !== id) {
+        result.skipped.push(id);
+        continue;
+      }
+      const item: ContentItem = { ...draft, id };
+      (byId.has(id) ? result.updated : result.added).push(id);
+      byId.set(id, item);
+      idByContent.set(item.content, id);
+      accepted.push(item);
+    }
+
+    await this.store.putMany(accepted);
+    this.contentDatabase = [...byId.values()];
+    this.queueEmbedding(accepted);
+    console.log(
+      `📚 Imported RAG content: ${result.added.length} added, ${result.updated.length} updated, ${result.skipped.length} skipped`,
+    );
+    return result;
   }
 
   // Get content statistics
@@ -489,7 +998,7 @@ export class RAGService {
   }
 
   // Get top-rated content
-  getTopRated(type?: 'joke' | 'trivia' | 'gif', limit = 5): ContentItem[] {
+  getTopRated(type?: ContentType, limit = 5): ContentItem[] {
     let items = this.contentDatabase;
 
     if (type) {
@@ -502,30 +1011,37 @@ export class RAGService {
       .slice(0, limit);
   }
 
+  // Relevant curated items to ground an agent's reply in
+  async retrieveForAgent(
+    agentType: AgentId,
+    query: string,
+    limit = 3,
+  ): Promise<ContentItem[]> {
+    const contentType = AGENT_CONTENT_TYPES[agentType as BuiltInAgentType];
+    if (!contentType) {
+      return [];
+    }
+    const results = await this.search({
+      text: query,
+      type: contentType,
+      limit,
+    });
+    return results.map(result => result.item);
+  }
+
   // Enhanced search for entertainment agents
-  searchForAgent(
-    agentType: AgentType,
+  async searchForAgent(
+    agentType: AgentId,
     query: string,
     fallbackToRandom = true,
-  ): ContentItem | null {
-    let contentType: 'joke' | 'trivia' | 'gif';
-
-    switch (agentType) {
-      case 'joke':
-        contentType = 'joke';
-        break;
-      case 'trivia':
-        contentType = 'trivia';
-        break;
-      case 'gif':
-        contentType = 'gif';
-        break;
-      default:
-        return null;
+  ): Promise<ContentItem | null> {
+    const contentType = AGENT_CONTENT_TYPES[agentType as BuiltInAgentType];
+    if (!contentType) {
+      return null;
     }
 
     // First try to search for relevant content
-    const searchResults = this.search({
+    const searchResults = await this.search({
       text: query,
       type: contentType,
       limit: 3,
@@ -545,4 +1061,7 @@ export class RAGService {
 }
 
 // Singleton instance
-export const ragService = new RAGService();
+export const ragService = new RAGService(
+  createEmbeddingProvider(),
+  createRagContentStore(),
+);
@@ -1,6 +1,7 @@
-import { AgentType } from './types';
+import { AgentId } from './types';
 import { Message } from '../types';
-import { classifyMessage } from './classifier';
+import { ClassifyOptions, classifyMessage } from './classifier';
+import { listAgents } from './config';
 import { addSpanEvent } from '../tracing/tracer';
 import { metricsEmit } from '../metrics/prometheus';
 import type { Span } from '@opentelemetry/api';
@@ -14,7 +15,7 @@ import type { Span } from '@opentelemetry/api';
  * "handoff is one turn late" bug.
  */
 export interface RoutingDecision {
-  selectedAgent: AgentType;
+  selectedAgent: AgentId;
   handoff: boolean;
   confidence: number;
   reason: string;
@@ -23,7 +24,8 @@ export interface RoutingDecision {
 
 /**
  * Keyword tables per agent type. Ordering inside each list is irrelevant —
- * the tie-break priority below decides ordering between agents.
+ * the tie-break priority below decides ordering between agents. Agent
+ * files bring their own `keywords`, which replace these (see keywordTable).
  *
  * Only include keywords that are strong, unambiguous intent signals. When in
  * doubt, defer to the classifier.
@@ -204,7 +206,7 @@ const KEYWORDS: Record<string, string[]> = {
  *   - account/billing/website support come last; they are usually expressed
  *     with unambiguous phrases so keyword collision is unlikely.
  */
-const PRIORITY: AgentType[] = [
+const PRIORITY: AgentId[] = [
   'youtube_guru',
   'joke',
   'gif',
@@ -220,17 +222,36 @@ const PRIORITY: AgentType[] = [
   'website_support',
 ];
 
+/**
+ * The keyword lists in tie-break order: PRIORITY first, then agents only
+ * agent files define, by id. Built from the agents as loaded now, so
+ * reloaded agent files take effect on the next message.
+ */
+function keywordTable(): Array<[AgentId, string[]]> {
+  const fileKeywords = new Map<AgentId, string[]>();
+  for (const agent of listAgents()) {
+    if (agent.keywords) {
+      fileKeywords.set(agent.type, agent.keywords);
+    }
+  }
+  const order = [
+    ...PRIORITY,
+    ...[...fileKeywords.keys()].filter(agent => !PRIORITY.includes(agent)),
+  ];
+  return order.map(agent => [
+    agent,
+    fileKeywords.get(agent) ?? KEYWORDS[agent] ?? [],
+  ]);
+}
+
 function matchKeywords(lower: string): {
-  agent: AgentType;
+  agent: AgentId;
   matches: number;
 } | null {
-  const scores = new Map<AgentType, number>();
+  const scores = new Map<AgentId, number>();
+  const table = keywordTable();
 
-  for (const agent of PRIORITY) {
-    const list = KEYWORDS[agent];
-    if (!list) {
-      continue;
-    }
+  for (const [agent, list] of table) {
     let score = 0;
     for (const kw of list) {
       if (lower.includes(kw)) {
@@ -249,7 +270,7 @@ function matchKeywords(lower: string): {
   // Priority order wins on ties; earlier in PRIORITY beats later regardless
   // of raw match count (we want youtube to beat trivia when both match,
   // even if trivia matched two keywords).
-  for (const agent of PRIORITY) {
+  for (const [agent] of table) {
     const s = scores.get(agent);
     if (s !== undefined) {
       return { agent, matches: s };
@@ -271,6 +292,7 @@ function matchKeywords(lower: string): {
  * @param userMessage   The user's latest message text.
  * @param currentAgent  The agent currently owning the conversation.
  * @param _history      Conversation history (reserved for future scoring).
+ * @param classify      Tier and usage owner for the classifier's model call.
  */
 // Bare greetings / acknowledgements. For these we intentionally skip the
 // classifier — LLM classifiers tend to route neutral greetings to
@@ -280,8 +302,9 @@ const GREETING_RE =
 
 export async function routeMessage(
   userMessage: string,
-  currentAgent: AgentType,
+  currentAgent: AgentId,
   _history: Message[] = [],
+  classify: ClassifyOptions = {},
 ): Promise<RoutingDecision> {
   const trimmed = (userMessage || '').trim();
   const lower = trimmed.toLowerCase();
@@ -316,7 +339,7 @@ export async function routeMessage(
   // Step B: classifier
   if (trimmed.length > 0) {
     try {
-      const classification = await classifyMessage(trimmed);
+      const classification = await classifyMessage(trimmed, classify);
       if (
         classification.agentType &&
         classification.agentType !== 'general' &&
@@ -357,7 +380,7 @@ export function logRoutingDecision(
   ctx: {
     userId?: string;
     conversationId?: string;
-    currentAgent: AgentType;
+    currentAgent: AgentId;
     messagePreview?: string;
   },
   span?: Span,
@@ -1,27 +1,46 @@
-export type AgentType =
-  | 'general'
-  | 'joke'
-  | 'trivia'
-  | 'gif'
-  | 'account_support'
-  | 'billing_support'
-  | 'website_support'
-  | 'operator_support'
-  | 'hold_agent'
-  | 'story_teller'
-  | 'riddle_master'
-  | 'quote_master'
-  | 'game_host'
-  | 'music_guru'
-  | 'youtube_guru'
-  | 'dnd_master';
-
-export type LLMProviderId = 'openai' | 'anthropic' | 'foundry';
+/** The agents defined in config.ts. */
+export const BUILT_IN_AGENT_TYPES = [
+  'general',
+  'joke',
+  'trivia',
+  'gif',
+  'account_support',
+  'billing_support',
+  'website_support',
+  'operator_support',
+  'hold_agent',
+  'story_teller',
+  'riddle_master',
+  'quote_master',
+  'game_host',
+  'music_guru',
+  'youtube_guru',
+  'dnd_master',
+] as const;
+
+export type BuiltInAgentType = (typeof BUILT_IN_AGENT_TYPES)[number];
+
+/**
+ * A built-in agent's id, or one defined in an agent file (see
+ * agentLoader.ts). Code that only handles the built-in agents takes
+ * `BuiltInAgentType`, so the compiler checks it covers them all.
+ */
+export type AgentId = string;
+
+export const LLM_PROVIDER_IDS = [
+  'openai',
+  'anthropic',
+  'foundry',
+  'local',
+  'mock',
+] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
 
 export interface Agent {
   id: string;
   name: string;
-  type: AgentType;
+  type: AgentId;
   description: string;
   systemPrompt: string;
   model: string;
@@ -30,18 +49,129 @@ export interface Agent {
   provider?: LLMProviderId;
   fallbackProvider?: LLMProviderId;
   tools?: string[];
+  /**
+   * Phrases that route a message straight to this agent. Only agent files
+   * set these; the built-in agents' are in router.ts.
+   */
+  keywords?: string[];
+  /**
+   * Upper bound on tool-execution rounds per message. Each round feeds the
+   * tool results back to the model; defaults to
+   * DEFAULT_MAX_TOOL_ITERATIONS when unset.
+   */
+  maxToolIterations?: number;
   cacheSystem?: boolean;
+  /**
+   * What to do when a reply fails validation with high-severity issues;
+   * defaults to DEFAULT_VALIDATION_POLICY when unset.
+   */
+  validationPolicy?: ValidationPolicy;
+}
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 3;
+
+/**
+ * A corrective step taken when a reply fails validation:
+ *   - regenerate  ask the same model again with the validator's suggestions
+ *                 appended to the system prompt as corrective instructions
+ *   - fallback    the same, but on `fallbackProvider` / `fallbackModel`
+ *   - canned      replace the reply with `cannedResponse`
+ */
+export const VALIDATION_STEPS = ['regenerate', 'fallback', 'canned'] as const;
+
+export type ValidationStep = (typeof VALIDATION_STEPS)[number];
+
+export interface ValidationPolicy {
+  /**
+   * Tried in order, each once, until a reply has no high-severity issues.
+   * If they run out first the last reply is sent as it is.
+   */
+  steps: ValidationStep[];
+  /** Upper bound on extra generations (regenerate + fallback) per message. */
+  maxAttempts: number;
+  /** Defaults to the provider that wrote the rejected reply. */
+  fallbackProvider?: LLMProviderId;
+  /** Defaults to the model that wrote the rejected reply. */
+  fallbackModel?: string;
+  /** Defaults to DEFAULT_CANNED_RESPONSE. */
+  cannedResponse?: string;
 }
 
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  steps: ['regenerate'],
+  maxAttempts: 1,
+};
+
+export const DEFAULT_CANNED_RESPONSE =
+  "I'm sorry, I couldn't put together a good answer to that. Could you rephrase your question, or ask to speak with a human operator?";
+
 export interface AgentResponse {
   content: string;
-  agentUsed: AgentType;
+  agentUsed: AgentId;
   confidence: number;
   attachments?: import('../types').MediaAttachment[];
+  /** Set when `ProcessMessageOptions.signal` aborted generation part-way. */
+  cancelled?: boolean;
+  /**
+   * Set when older turns were folded into a new rolling summary; callers
+   * store it on the conversation and pass it back on the next turn.
+   */
+  summary?: import('../types').ConversationSummary;
+  /** Ids of the curated RAG items the reply used, for reaction tracking. */
+  ragContentIds?: string[];
+  /**
+   * Set when moderation withheld the reply for breaking this content
+   * policy; `content` is then the notice shown instead.
+   */
+  blocked?: import('../moderation/moderation').PolicyCategory;
+}
+
+export interface HandoffInfo {
+  target: AgentId;
+  reason: string;
+  message: string;
+}
+
+/**
+ * Per-call hooks for callers that relay the reply while it is being
+ * generated (the socket `stream_chat` path). Request/response callers
+ * simply omit them.
+ */
+export interface ProcessMessageOptions {
+  /** Called with each text fragment, in order, as the provider emits it. */
+  onTextDelta?: (text: string) => void;
+  /** Called once the router has picked a new agent, before dispatch. */
+  onHandoff?: (handoff: HandoffInfo) => void;
+  /**
+   * Stops generation when aborted: the provider request is cancelled, pending
+   * tool calls are abandoned and the text produced so far is returned with
+   * `cancelled: true`.
+   */
+  signal?: AbortSignal;
+  /** The conversation's stored rolling summary, reused while still valid. */
+  summary?: import('../types').ConversationSummary;
+  /**
+   * The resolveIdentity user id that owns the conversation. When set, the
+   * user's long-term memories are added to the system prompt and anything
+   * new they reveal is remembered. Not the socket-scoped `userId` argument.
+   */
+  ownerId?: string;
+  /**
+   * Run the agent's validation policy even without a conversation id, as
+   * for stateless API calls. Replies in a conversation are always validated.
+   */
+  validate?: boolean;
+}
+
+export interface SecondaryIntent {
+  agentType: AgentId;
+  confidence: number;
 }
 
 export interface MessageClassification {
-  agentType: AgentType;
+  agentType: AgentId;
   confidence: number;
   reasoning: string;
+  /** Other agents the message also asks for, most likely first. */
+  secondaryIntents?: SecondaryIntent[];
 }
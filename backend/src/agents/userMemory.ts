@@ -0,0 +1,236 @@
+import { UserMemory, UserMemoryKind } from '../types';
+import {
+  NewUserMemory,
+  UserMemoryStore,
+  userMemoryStore,
+} from '../storage/userMemoryStore';
+import { AgentId, BuiltInAgentType } from './types';
+
+/**
+ * Long-term memory about a user, carried across conversations. Memories are
+ * pulled out of what the user says with a few conservative patterns (no LLM
+ * call on the hot path), stored per resolveIdentity user id, and the
+ * relevant ones are appended to the agent's system prompt on later turns.
+ */
+
+/** A memory as extracted, before it is tied to a user and stored. */
+export interface MemoryCandidate {
+  kind: UserMemoryKind;
+  key: string;
+  content: string;
+  agentType?: AgentId;
+}
+
+export const MEMORY_HEADING =
+  'What you remember about this user from earlier conversations:';
+
+/** Memories appended to a single system prompt, newest first. */
+const MAX_PROMPT_MEMORIES = 12;
+/** Oldest memories beyond this are dropped when a new one is stored. */
+const MAX_MEMORIES_PER_USER = 50;
+const MAX_VALUE_CHARS = 80;
+const MAX_ISSUE_CHARS = 160;
+
+const MUSIC_TOPIC = /\b(music|genre|band|artist|singer|song|album)s?\b/i;
+const SUPPORT_AGENTS: Partial<Record<BuiltInAgentType, string>> = {
+  billing_support: 'billing',
+  account_support: 'account',
+  website_support: 'website',
+};
+const PROBLEM_WORDS =
+  /\b(charged|double[- ]charged|refund|overcharged|invoice|error|broken|bug|not working|doesn't work|does not work|can't|cannot|unable|locked out|problem|issue|wrong|failed|missing)\b/i;
+const RESOLVED_WORDS =
+  /\b(resolved|fixed|sorted|works now|working now|all set|solved)\b/i;
+// Pronoun-ish objects ("I love that", "I like how...") say nothing lasting.
+const VAGUE_OBJECT =
+  /^(that|this|it|you|them|him|her|me|when|how|what|the way|to)\b/i;
+
+const clean = (value: string, max = MAX_VALUE_CHARS): string => {
+  const text = value
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s,;:]+$/, '');
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+};
+
+const slug = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * Pull memorable statements out of one user message. `agentType` is the
+ * agent handling the turn; it decides which agent-specific patterns apply
+ * and which agent a preference is filed under.
+ */
+export function extractMemories(
+  message: string,
+  agentType: AgentId,
+): MemoryCandidate[] {
+  const found: MemoryCandidate[] = [];
+
+  // Case-sensitive so "call me later" isn't taken for a name.
+  const name = message.match(
+    /\b(?:[Mm]y name is|[Cc]all me)\s+([A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)?)/,
+  );
+  if (name) {
+    found.push({ kind: 'fact', key: 'name', content: `Name: ${name[1]}` });
+  }
+
+  const home = message.match(/\bI live in\s+([A-Z][^.!?,\n]{1,40})/);
+  if (home) {
+    found.push({
+      kind: 'fact',
+      key: 'location',
+      content: `Lives in ${clean(home[1])}`,
+    });
+  }
+
+  for (const match of message.matchAll(
+    /\bmy (?:favou?rite|fave?) ([a-z][a-z ]{1,30}?) (?:is|are) ([^.!?\n]{2,80})/gi,
+  )) {
+    const topic = clean(match[1]).toLowerCase();
+    found.push({
+      kind: 'preference',
+      key: `favorite:${slug(topic)}`,
+      content: `Favorite ${topic}: ${clean(match[2])}`,
+      ...(MUSIC_TOPIC.test(topic) && { agentType: 'music_guru' as const }),
+    });
+  }
+
+  for (const match of message.matchAll(
+    /\bI (?:really |absolutely |totally )?(love|like|enjoy|hate|dislike|can't stand) ([^.!?,\n]{3,60})/gi,
+  )) {
+    const object = clean(match[2]);
+    if (VAGUE_OBJECT.test(object)) {
+      continue;
+    }
+    const negative = /hate|dislike|can't stand/i.test(match[1]);
+    found.push({
+      kind: 'preference',
+      key: `taste:${slug(object)}`,
+      content: `${negative ? 'Dislikes' : 'Likes'} ${object}`,
+      // Said to the music guru, "I love Radiohead" is a music preference.
+      ...(agentType === 'music_guru' && { agentType }),
+    });
+  }
+
+  if (agentType === 'dnd_master') {
+    const character =
+      message.match(/\bmy character(?:'s name)? is ([^.!?\n]{2,80})/i) ||
+      message.match(/\bI(?:'m| am) playing (?:as )?(an? [^.!?\n]{2,80})/i);
+    if (character) {
+      found.push({
+        kind: 'thread',
+        key: 'dnd:character',
+        content: `D&D character: ${clean(character[1])}`,
+        agentType,
+      });
+    }
+  }
+
+  const area = SUPPORT_AGENTS[agentType as BuiltInAgentType];
+  if (area && PROBLEM_WORDS.test(message) && !RESOLVED_WORDS.test(message)) {
+    const firstSentence = message.split(/(?<=[.!?])\s/)[0];
+    found.push({
+      kind: 'thread',
+      key: `open_issue:${agentType}`,
+      content: `Open ${area} issue: ${clean(firstSentence, MAX_ISSUE_CHARS)}`,
+      agentType,
+    });
+  }
+
+  return found;
+}
+
+/** Append the memories to a system prompt; unchanged when there are none. */
+export function withMemories(
+  systemPrompt: string,
+  memories: UserMemory[],
+): string {
+  if (memories.length === 0) {
+    return systemPrompt;
+  }
+  const lines = memories.map(m => `- ${m.content}`).join('\n');
+  return `${systemPrompt}\n\n${MEMORY_HEADING}\n${lines}\nUse these where they help; don't recite them unprompted.`;
+}
+
+export class UserMemoryService {
+  constructor(private readonly store: UserMemoryStore = userMemoryStore) {}
+
+  /**
+   * Memories to show `agentType`: everything not tied to an agent plus that
+   * agent's own, newest first. A storage failure yields none rather than
+   * failing the turn.
+   */
+  async recall(userId: string, agentType: AgentId): Promise<UserMemory[]> {
+    try {
+      const memories = await this.store.list(userId);
+      return memories
+        .filter(m => !m.agentType || m.agentType === agentType)
+        .slice(0, MAX_PROMPT_MEMORIES);
+    } catch (error) {
+      console.error('❌ Failed to load user memories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store whatever `message` reveals, and close an open support issue once
+   * the user says it's been resolved. Returns the memories written.
+   */
+  async remember(
+    userId: string,
+    message: string,
+    agentType: AgentId,
+    conversationId?: string,
+  ): Promise<UserMemory[]> {
+    try {
+      if (
+        SUPPORT_AGENTS[agentType as BuiltInAgentType] &&
+        RESOLVED_WORDS.test(message)
+      ) {
+        await this.forget(userId, `open_issue:${agentType}`);
+      }
+
+      const stored: UserMemory[] = [];
+      for (const candidate of extractMemories(message, agentType)) {
+        const memory: NewUserMemory = {
+          ...candidate,
+          userId,
+          ...(conversationId && { sourceConversationId: conversationId }),
+        };
+        stored.push(await this.store.upsert(memory));
+      }
+      if (stored.length > 0) {
+        await this.prune(userId);
+        console.log(
+          `🧠 Remembered ${stored.length} thing(s) about ${userId}: ${stored
+            .map(m => m.key)
+            .join(', ')}`,
+        );
+      }
+      return stored;
+    } catch (error) {
+      console.error('❌ Failed to store user memories:', error);
+      return [];
+    }
+  }
+
+  private async forget(userId: string, key: string): Promise<void> {
+    const memories = await this.store.list(userId);
+    for (const memory of memories.filter(m => m.key === key)) {
+      await this.store.delete(userId, memory.id);
+    }
+  }
+
+  private async prune(userId: string): Promise<void> {
+    const memories = await this.store.list(userId);
+    for (const memory of memories.slice(MAX_MEMORIES_PER_USER)) {
+      await this.store.delete(userId, memory.id);
+    }
+  }
+}
+
+export const userMemoryService = new UserMemoryService();
@@ -0,0 +1,56 @@
+import { normalize } from './embeddings';
+
+export interface VectorMatch {
+  id: string;
+  /** Cosine similarity in [-1, 1]. */
+  score: number;
+}
+
+/**
+ * Brute-force in-memory vector index. Vectors are normalised on insert so
+ * cosine similarity is a dot product; at the few thousand items the content
+ * library holds, a linear scan is faster than maintaining an ANN structure.
+ */
+export class VectorIndex {
+  private readonly vectors = new Map<string, number[]>();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  upsert(id: string, vector: number[]): void {
+    this.vectors.set(id, normalize(vector));
+  }
+
+  remove(id: string): boolean {
+    return this.vectors.delete(id);
+  }
+
+  /** The `k` most similar vectors, best first, optionally among `filter`. */
+  topK(
+    query: number[],
+    k: number,
+    filter?: (id: string) => boolean,
+  ): VectorMatch[] {
+    const unit = normalize(query);
+    const matches: VectorMatch[] = [];
+    for (const [id, vector] of this.vectors) {
+      if (filter && !filter(id)) {
+        continue;
+      }
+      if (vector.length !== unit.length) {
+        continue;
+      }
+      let score = 0;
+      for (let i = 0; i < unit.length; i++) {
+        score += unit[i] * vector[i];
+      }
+      matches.push({ id, score });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
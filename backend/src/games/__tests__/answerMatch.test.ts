@@ -0,0 +1,40 @@
+import { matchesAnswer } from '../answerMatch';
+
+describe('matchesAnswer', () => {
+  it('should ignore case, punctuation, accents and articles', () => {
+    expect(matchesAnswer('its a PIANO!', ['A piano'])).toBe(true);
+    expect(matchesAnswer('Café', ['cafe'])).toBe(true);
+    expect(
+      matchesAnswer('The Great Wall', ['Great Wall of China', 'Great Wall']),
+    ).toBe(true);
+  });
+
+  it('should accept any of the accepted answers within a longer reply', () => {
+    expect(
+      matchesAnswer("I'm pretty sure it's footprints", [
+        'Footsteps',
+        'Footprints',
+      ]),
+    ).toBe(true);
+    expect(matchesAnswer('is it a map?', ['A map'])).toBe(true);
+  });
+
+  it('should forgive small typos in longer words only', () => {
+    expect(matchesAnswer('pianno', ['Piano'])).toBe(true);
+    expect(matchesAnswer('footstpes', ['Footsteps'])).toBe(true);
+    expect(matchesAnswer('mop', ['A map'])).toBe(false);
+    expect(matchesAnswer('guitar', ['Piano'])).toBe(false);
+  });
+
+  it('should match numbers exactly', () => {
+    expect(matchesAnswer('20%', ['20'])).toBe(true);
+    expect(matchesAnswer('about 200', ['20'])).toBe(false);
+    expect(matchesAnswer('three', ['3', 'three'])).toBe(true);
+  });
+
+  it('should refuse to pick between alternatives for the player', () => {
+    expect(() => matchesAnswer('piano or guitar', ['Piano'])).toThrow(
+      'Give one answer at a time',
+    );
+  });
+});
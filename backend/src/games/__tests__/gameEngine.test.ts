@@ -0,0 +1,206 @@
+import { GameEngine } from '../gameEngine';
+
+describe('GameEngine', () => {
+  // Always the first item and the low end of every range: secrets, problems
+  // and questions are predictable.
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    engine = new GameEngine(() => 0);
+  });
+
+  describe('20 Questions', () => {
+    it('should keep the secret out of the prompt', () => {
+      const { session, prompt } = engine.start(
+        'conv-1',
+        'twenty_questions',
+        'easy',
+      );
+
+      expect(session.game === 'twenty_questions' && session.secret.name).toBe(
+        'dog',
+      );
+      expect(prompt).toBe(
+        "I'm thinking of an animal. Ask yes/no questions or make a guess: 20 turns left.",
+      );
+      expect(prompt).not.toContain('dog');
+    });
+
+    it('should count questions and win on a guess naming the secret or an alias', () => {
+      engine.start('conv-1', 'twenty_questions', 'easy');
+
+      engine.ask('conv-1', 'Is it alive?', 'yes');
+      const miss = engine.answer('conv-1', 'Is it a cat?');
+      expect(miss.correct).toBe(false);
+      expect(miss.expected).toBeUndefined();
+      expect(miss.session.status).toBe('active');
+
+      const hit = engine.answer('conv-1', 'A puppy!');
+      expect(hit.correct).toBe(true);
+      expect(hit.expected).toBe('dog');
+      expect(hit.session).toMatchObject({
+        status: 'won',
+        turns: 3,
+        // 18 turns to spare, 5 points each on easy
+        score: 90,
+        questions: [{ question: 'Is it alive?', reply: 'yes' }],
+        guesses: ['Is it a cat?', 'A puppy!'],
+      });
+    });
+
+    it('should keep the last turn for a guess and lose when it misses', () => {
+      engine.start('conv-1', 'twenty_questions', 'easy');
+      for (let i = 0; i < 19; i++) {
+        engine.ask('conv-1', `Question ${i}?`, 'no');
+      }
+
+      expect(() => engine.ask('conv-1', 'One more?', 'no')).toThrow(
+        'Only one turn left',
+      );
+
+      const last = engine.answer('conv-1', 'a chair');
+      expect(last.session.status).toBe('lost');
+      expect(last.expected).toBe('dog');
+      expect(last.prompt).toBeUndefined();
+    });
+  });
+
+  describe('Quick Math', () => {
+    it('should mark answers, score streaks and finish after five rounds', () => {
+      const start = engine.start('conv-1', 'quick_math', 'medium');
+      expect(start.prompt).toBe('What is 2 × 2?');
+
+      expect(engine.answer('conv-1', '4').session).toMatchObject({
+        score: 20,
+        streak: 1,
+      });
+      expect(engine.answer('conv-1', "It's 4!").session).toMatchObject({
+        score: 45,
+        streak: 2,
+      });
+
+      const wrong = engine.answer('conv-1', '5');
+      expect(wrong).toMatchObject({ correct: false, expected: '4' });
+      expect(wrong.session).toMatchObject({
+        score: 45,
+        streak: 0,
+        bestStreak: 2,
+      });
+
+      engine.answer('conv-1', '4');
+      const last = engine.answer('conv-1', '4');
+      expect(last.session).toMatchObject({
+        status: 'completed',
+        turns: 5,
+        correct: 4,
+      });
+      expect(last.prompt).toBeUndefined();
+      expect(() => engine.answer('conv-1', '4')).toThrow('game is over');
+    });
+
+    it('should not use up a turn on an answer without a number', () => {
+      engine.start('conv-1', 'quick_math', 'easy');
+
+      expect(() => engine.answer('conv-1', 'no idea')).toThrow(
+        'has no number in it',
+      );
+      expect(engine.get('conv-1')?.turns).toBe(0);
+    });
+  });
+
+  describe('Memory Test', () => {
+    it('should grow the sequence each round and end on the first slip', () => {
+      const start = engine.start('conv-1', 'memory_test', 'easy');
+      expect(start.prompt).toContain('0 0 0');
+
+      const next = engine.answer('conv-1', '000');
+      expect(next.correct).toBe(true);
+      expect(next.prompt).toContain('0 0 0 0');
+
+      const slip = engine.answer('conv-1', '0 0 0 1');
+      expect(slip).toMatchObject({ correct: false, expected: '0 0 0 0' });
+      expect(slip.session.status).toBe('completed');
+    });
+
+    it('should compare word sequences ignoring case and punctuation', () => {
+      engine.start('conv-1', 'memory_test', 'medium');
+
+      expect(
+        engine.answer('conv-1', 'Apple, apple, apple, APPLE.').correct,
+      ).toBe(true);
+    });
+  });
+
+  describe('Trivia Sprint', () => {
+    it('should accept an option letter or its text and never repeat a question', () => {
+      const start = engine.start('conv-1', 'trivia_sprint', 'medium');
+      expect(start.prompt).toBe(
+        'Which element has the chemical symbol Au?\nA) Silver\nB) Argon\nC) Gold\nD) Aluminium',
+      );
+
+      expect(engine.answer('conv-1', 'c').correct).toBe(true);
+      expect(engine.answer('conv-1', 'Leonardo da Vinci').correct).toBe(true);
+
+      const wrong = engine.answer('conv-1', 'I think Toronto');
+      expect(wrong).toMatchObject({ correct: false, expected: 'D) Ottawa' });
+
+      const session = engine.get('conv-1');
+      expect(session?.game === 'trivia_sprint' && session.asked).toEqual([
+        'ts-au-symbol',
+        'ts-mona-lisa',
+        'ts-canada-capital',
+        'ts-bones-adult',
+      ]);
+    });
+
+    it('should mark an answer naming two options as wrong', () => {
+      engine.start('conv-1', 'trivia_sprint', 'medium');
+
+      expect(engine.answer('conv-1', 'Gold or Silver').correct).toBe(false);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should keep one game per conversation', () => {
+      engine.start('conv-1', 'quick_math', 'easy');
+      engine.start('conv-2', 'memory_test', 'easy');
+      engine.answer('conv-1', '2');
+
+      expect(engine.get('conv-1')?.turns).toBe(1);
+      expect(engine.get('conv-2')?.turns).toBe(0);
+
+      engine.start('conv-1', 'trivia_sprint');
+      expect(engine.get('conv-1')).toMatchObject({
+        game: 'trivia_sprint',
+        turns: 0,
+        score: 0,
+      });
+    });
+
+    it('should reveal the answer when a game is ended early', () => {
+      engine.start('conv-1', 'twenty_questions', 'easy');
+
+      const ended = engine.end('conv-1');
+
+      expect(ended.session.status).toBe('abandoned');
+      expect(ended.expected).toBe('dog');
+      expect(engine.status('conv-1')).toMatchObject({ expected: 'dog' });
+    });
+
+    it('should report when there is no game', () => {
+      expect(() => engine.answer('conv-1', '4')).toThrow('No game in progress');
+      expect(() => engine.status('conv-1')).toThrow('No game in progress');
+    });
+
+    it('should drop sessions idle for longer than maxAge', () => {
+      engine.start('conv-1', 'quick_math');
+      engine.get('conv-1')!.updatedAt = new Date(Date.now() - 7200000);
+      engine.start('conv-2', 'quick_math');
+
+      engine.cleanup(3600000);
+
+      expect(engine.get('conv-1')).toBeUndefined();
+      expect(engine.get('conv-2')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import userStorage from '../../storage/userStorage';
+import { MemoryQuizScoreStore } from '../../storage/memoryQuizScoreStore';
+import { getLeaderboard } from '../leaderboard';
+import { QuizScore } from '../quizEngine';
+
+jest.mock('../../storage/userStorage');
+
+const mockUsers = userStorage as jest.Mocked<typeof userStorage>;
+
+describe('getLeaderboard', () => {
+  let store: MemoryQuizScoreStore;
+
+  const score = (userId: string, points: number): QuizScore => ({
+    userId,
+    quiz: 'trivia',
+    points,
+    correct: points / 10,
+    answered: 10,
+    bestStreak: 2,
+    updatedAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockUsers.getUser.mockImplementation(async id =>
+      id === 'user-sam'
+        ? {
+            id,
+            email: 'sam@example.com',
+            name: 'Sam Smith',
+            provider: 'oauth2',
+            providerId: 'sam',
+            createdAt: new Date(),
+          }
+        : null,
+    );
+    store = new MemoryQuizScoreStore();
+    await store.save(score('user-sam', 50));
+    await store.save(score('anon_1', 30));
+    await store.save(score('anon_2', 30));
+    await store.save(score('anon_3', 10));
+  });
+
+  it('should rank by points, sharing ranks on ties, and show names not ids', async () => {
+    const board = await getLeaderboard('trivia', 'anon_3', 10, store);
+
+    expect(board.entries.map(e => [e.rank, e.name, e.points])).toEqual([
+      [1, 'Sam', 50],
+      [2, 'Guest', 30],
+      [2, 'Guest', 30],
+      [4, 'Guest', 10],
+    ]);
+    expect(JSON.stringify(board)).not.toContain('user-sam');
+    expect(board.you).toMatchObject({ rank: 4, you: true });
+  });
+
+  it("should include the caller's standing outside the top entries", async () => {
+    const board = await getLeaderboard('trivia', 'anon_3', 2, store);
+
+    expect(board.entries).toHaveLength(2);
+    expect(board.you).toMatchObject({ rank: 4, points: 10, you: true });
+  });
+
+  it('should have no standing for a caller without a score', async () => {
+    const board = await getLeaderboard('trivia', 'anon_new', 10, store);
+
+    expect(board.you).toBeNull();
+    expect(board.entries.some(e => e.you)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { ContentItem } from '../../agents/ragService';
+import { MemoryQuizScoreStore } from '../../storage/memoryQuizScoreStore';
+import { QuizEngine } from '../quizEngine';
+
+const riddles: ContentItem[] = [
+  {
+    id: 'riddle_001',
+    type: 'riddle',
+    content: "What has keys but can't open locks?",
+    tags: [],
+    metadata: {
+      answer: 'A piano',
+      accept: ['Keyboard'],
+      hint: 'You play it with your fingers.',
+    },
+  },
+  {
+    id: 'riddle_002',
+    type: 'riddle',
+    content: 'What has to be broken before you can use it?',
+    tags: [],
+    // As imported from CSV
+    metadata: { answer: 'An egg', accept: 'eggs|egg shell' },
+  },
+];
+
+const trivia: ContentItem[] = [
+  {
+    id: 'trivia_001',
+    type: 'trivia',
+    content: 'Octopuses have three hearts.',
+    tags: [],
+    metadata: {
+      question: 'How many hearts does an octopus have?',
+      answer: '3',
+    },
+  },
+];
+
+describe('QuizEngine', () => {
+  const rag = {
+    listQuizContent: jest.fn(async (type: 'riddle' | 'trivia') =>
+      type === 'riddle' ? riddles : trivia,
+    ),
+  };
+  let scores: MemoryQuizScoreStore;
+  let engine: QuizEngine;
+
+  beforeEach(() => {
+    scores = new MemoryQuizScoreStore();
+    // Always the first question not yet asked
+    engine = new QuizEngine(rag, scores, () => 0);
+  });
+
+  it('should ask riddles by their text and trivia by its question', async () => {
+    expect((await engine.next('conv-1', 'user-1', 'riddle')).question).toBe(
+      "What has keys but can't open locks?",
+    );
+    expect((await engine.next('conv-2', 'user-1', 'trivia')).question).toBe(
+      'How many hearts does an octopus have?',
+    );
+  });
+
+  it('should score correct answers with a streak bonus and save the totals', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+    const first = await engine.answer('conv-1', 'a keyboard');
+    expect(first).toMatchObject({
+      outcome: 'correct',
+      expected: 'A piano',
+      pointsAwarded: 10,
+    });
+
+    await engine.next('conv-1', 'user-1', 'riddle');
+    const second = await engine.answer('conv-1', 'Eggs!');
+    expect(second).toMatchObject({ outcome: 'correct', pointsAwarded: 15 });
+    expect(second.session).toMatchObject({ streak: 2, points: 25 });
+
+    expect(await scores.get('user-1', 'riddle')).toMatchObject({
+      points: 25,
+      correct: 2,
+      answered: 2,
+      bestStreak: 2,
+    });
+  });
+
+  it('should keep the answer back until the tries run out', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+
+    const miss = await engine.answer('conv-1', 'a door');
+    expect(miss).toMatchObject({ outcome: 'wrong', attemptsLeft: 2 });
+    expect(miss.expected).toBeUndefined();
+
+    await engine.answer('conv-1', 'a lock');
+    const last = await engine.answer('conv-1', 'a map');
+    expect(last).toMatchObject({
+      outcome: 'revealed',
+      expected: 'A piano',
+      pointsAwarded: 0,
+    });
+    expect(last.session.streak).toBe(0);
+    expect(await scores.get('user-1', 'riddle')).toMatchObject({
+      points: 0,
+      answered: 1,
+    });
+  });
+
+  it('should give the hint, then the shape of the answer, each costing points', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+
+    expect(engine.hint('conv-1').hint).toBe('You play it with your fingers.');
+    expect(engine.hint('conv-1').hint).toBe('P _ _ _ _');
+    expect(() => engine.hint('conv-1')).toThrow('No hints left');
+
+    expect((await engine.answer('conv-1', 'piano')).pointsAwarded).toBe(4);
+  });
+
+  it('should hide digits in the shape of a number', async () => {
+    await engine.next('conv-1', 'user-1', 'trivia');
+
+    expect(engine.hint('conv-1').hint).toBe('_');
+  });
+
+  it('should skip an unanswered question when asked for the next', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+    await engine.answer('conv-1', 'a door');
+
+    const next = await engine.next('conv-1', 'user-1', 'riddle');
+
+    expect(next).toMatchObject({
+      outcome: 'skipped',
+      expected: 'A piano',
+      question: 'What has to be broken before you can use it?',
+    });
+    expect(next.session).toMatchObject({ answered: 1, streak: 0 });
+  });
+
+  it('should start over once every question has been asked, without repeating the last', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+    await engine.next('conv-1', 'user-1', 'riddle');
+
+    const third = await engine.next('conv-1', 'user-1', 'riddle');
+
+    expect(third.session.current?.id).toBe('riddle_001');
+  });
+
+  it('should report when there is no question', async () => {
+    await expect(engine.answer('conv-1', 'piano')).rejects.toThrow(
+      'No quiz question in progress',
+    );
+    expect(() => engine.hint('conv-1')).toThrow('No quiz question in progress');
+  });
+
+  it('should drop sessions idle for longer than maxAge', async () => {
+    await engine.next('conv-1', 'user-1', 'riddle');
+    engine.get('conv-1')!.updatedAt = new Date(Date.now() - 7200000);
+    await engine.next('conv-2', 'user-1', 'riddle');
+
+    engine.cleanup(3600000);
+
+    expect(engine.get('conv-1')).toBeUndefined();
+    expect(engine.get('conv-2')).toBeDefined();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Forgiving answer checking for quiz questions. An answer is right when it
+ * contains one of the accepted answers, ignoring case, punctuation, accents
+ * and articles, and allowing a typo or two in longer words: "its a PIANNO!"
+ * matches "A piano". Numbers must match exactly.
+ */
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+/** Lower-case words without punctuation, accents or articles. */
+export function answerWords(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !ARTICLES.has(word));
+}
+
+/** Typos forgiven: none up to 3 letters, one up to 6, then two. */
+function allowedEdits(answer: string): number {
+  if (/\d/.test(answer) || answer.length <= 3) {
+    return 0;
+  }
+  return answer.length <= 6 ? 1 : 2;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Does any run of words in `answer` come close enough to `accepted`? */
+function containsAnswer(answer: string[], accepted: string[]): boolean {
+  if (accepted.length === 0 || accepted.length > answer.length) {
+    return false;
+  }
+  const target = accepted.join(' ');
+  const limit = allowedEdits(target);
+  for (let i = 0; i + accepted.length <= answer.length; i++) {
+    const window = answer.slice(i, i + accepted.length).join(' ');
+    if (editDistance(window, target) <= limit) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether `answer` names one of the `accepted` answers. Throws when it
+ * hedges between alternatives ("piano or guitar") so the player can be
+ * asked for one answer without it counting as a miss.
+ */
+export function matchesAnswer(answer: string, accepted: string[]): boolean {
+  const words = answerWords(answer);
+  const variants = accepted.map(answerWords);
+  if (words.includes('or') && !variants.some(v => v.includes('or'))) {
+    throw new Error('Give one answer at a time, not a choice of answers');
+  }
+  return variants.some(variant => containsAnswer(words, variant));
+}
@@ -0,0 +1,274 @@
+import type { GameDifficulty } from './gameEngine';
+
+/**
+ * Built-in content for the game engine: the things 20 Questions can be
+ * thinking of, the Trivia Sprint question bank and the Memory Test word
+ * list. Kept small and hand-checked so answers can be marked without the
+ * model's help.
+ */
+
+export interface SecretItem {
+  name: string;
+  /** Other names a guess may use ("cellphone" for "mobile phone"). */
+  aliases: string[];
+  category: 'animal' | 'food' | 'object' | 'place' | 'vehicle';
+  difficulty: GameDifficulty;
+}
+
+export const TWENTY_QUESTIONS_SECRETS: SecretItem[] = [
+  { name: 'dog', aliases: ['puppy'], category: 'animal', difficulty: 'easy' },
+  { name: 'cat', aliases: ['kitten'], category: 'animal', difficulty: 'easy' },
+  { name: 'elephant', aliases: [], category: 'animal', difficulty: 'easy' },
+  { name: 'banana', aliases: [], category: 'food', difficulty: 'easy' },
+  { name: 'pizza', aliases: [], category: 'food', difficulty: 'easy' },
+  { name: 'apple', aliases: [], category: 'food', difficulty: 'easy' },
+  {
+    name: 'car',
+    aliases: ['automobile'],
+    category: 'vehicle',
+    difficulty: 'easy',
+  },
+  { name: 'chair', aliases: [], category: 'object', difficulty: 'easy' },
+  { name: 'penguin', aliases: [], category: 'animal', difficulty: 'medium' },
+  { name: 'octopus', aliases: [], category: 'animal', difficulty: 'medium' },
+  { name: 'giraffe', aliases: [], category: 'animal', difficulty: 'medium' },
+  { name: 'sushi', aliases: [], category: 'food', difficulty: 'medium' },
+  { name: 'umbrella', aliases: [], category: 'object', difficulty: 'medium' },
+  {
+    name: 'mobile phone',
+    aliases: ['phone', 'cell phone', 'cellphone', 'smartphone'],
+    category: 'object',
+    difficulty: 'medium',
+  },
+  {
+    name: 'bicycle',
+    aliases: ['bike'],
+    category: 'vehicle',
+    difficulty: 'medium',
+  },
+  { name: 'library', aliases: [], category: 'place', difficulty: 'medium' },
+  {
+    name: 'beach',
+    aliases: ['seaside'],
+    category: 'place',
+    difficulty: 'medium',
+  },
+  {
+    name: 'hot air balloon',
+    aliases: ['balloon'],
+    category: 'vehicle',
+    difficulty: 'hard',
+  },
+  { name: 'platypus', aliases: [], category: 'animal', difficulty: 'hard' },
+  {
+    name: 'lighthouse',
+    aliases: [],
+    category: 'place',
+    difficulty: 'hard',
+  },
+  { name: 'compass', aliases: [], category: 'object', difficulty: 'hard' },
+  {
+    name: 'hourglass',
+    aliases: ['sand timer'],
+    category: 'object',
+    difficulty: 'hard',
+  },
+  { name: 'volcano', aliases: [], category: 'place', difficulty: 'hard' },
+  { name: 'submarine', aliases: [], category: 'vehicle', difficulty: 'hard' },
+];
+
+export interface TriviaSprintQuestion {
+  id: string;
+  question: string;
+  /** Four options; `answer` is the index of the right one. */
+  options: [string, string, string, string];
+  answer: number;
+  difficulty: GameDifficulty;
+}
+
+export const TRIVIA_SPRINT_QUESTIONS: TriviaSprintQuestion[] = [
+  {
+    id: 'ts-planet-red',
+    question: 'Which planet is known as the Red Planet?',
+    options: ['Venus', 'Mars', 'Jupiter', 'Mercury'],
+    answer: 1,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-spider-legs',
+    question: 'How many legs does a spider have?',
+    options: ['Six', 'Eight', 'Ten', 'Twelve'],
+    answer: 1,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-largest-ocean',
+    question: 'What is the largest ocean on Earth?',
+    options: ['Atlantic', 'Indian', 'Arctic', 'Pacific'],
+    answer: 3,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-water-boil',
+    question: 'At sea level, water boils at how many degrees Celsius?',
+    options: ['90', '100', '110', '120'],
+    answer: 1,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-rainbow-colors',
+    question: 'How many colours are traditionally listed in a rainbow?',
+    options: ['Five', 'Six', 'Seven', 'Eight'],
+    answer: 2,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-fastest-land',
+    question: 'What is the fastest land animal?',
+    options: ['Cheetah', 'Lion', 'Pronghorn', 'Greyhound'],
+    answer: 0,
+    difficulty: 'easy',
+  },
+  {
+    id: 'ts-au-symbol',
+    question: 'Which element has the chemical symbol Au?',
+    options: ['Silver', 'Argon', 'Gold', 'Aluminium'],
+    answer: 2,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-mona-lisa',
+    question: 'Who painted the Mona Lisa?',
+    options: [
+      'Michelangelo',
+      'Leonardo da Vinci',
+      'Raphael',
+      'Sandro Botticelli',
+    ],
+    answer: 1,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-canada-capital',
+    question: 'What is the capital of Canada?',
+    options: ['Toronto', 'Vancouver', 'Montreal', 'Ottawa'],
+    answer: 3,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-bones-adult',
+    question: 'How many bones are in the adult human body?',
+    options: ['186', '206', '226', '246'],
+    answer: 1,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-hardest-natural',
+    question: 'What is the hardest natural substance?',
+    options: ['Quartz', 'Titanium', 'Diamond', 'Granite'],
+    answer: 2,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-octopus-hearts',
+    question: 'How many hearts does an octopus have?',
+    options: ['One', 'Two', 'Three', 'Four'],
+    answer: 2,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-smallest-country',
+    question: 'What is the smallest country in the world by area?',
+    options: ['Monaco', 'Vatican City', 'San Marino', 'Liechtenstein'],
+    answer: 1,
+    difficulty: 'medium',
+  },
+  {
+    id: 'ts-speed-light',
+    question:
+      'Roughly how long does light from the Sun take to reach the Earth?',
+    options: ['8 seconds', '8 minutes', '8 hours', '8 days'],
+    answer: 1,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-photosynthesis',
+    question: 'Which gas do plants mainly absorb for photosynthesis?',
+    options: ['Oxygen', 'Nitrogen', 'Carbon dioxide', 'Hydrogen'],
+    answer: 2,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-shortest-war',
+    question:
+      'The shortest war in recorded history, lasting under an hour, was fought in 1896 between Britain and which sultanate?',
+    options: ['Oman', 'Zanzibar', 'Brunei', 'Johor'],
+    answer: 1,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-venus-day',
+    question: 'On which planet is a day longer than its year?',
+    options: ['Mercury', 'Venus', 'Neptune', 'Saturn'],
+    answer: 1,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-wombat',
+    question: 'Which animal is famous for producing cube-shaped droppings?',
+    options: ['Koala', 'Wombat', 'Sloth', 'Capybara'],
+    answer: 1,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-periodic-first',
+    question: 'Who is usually credited with the first periodic table?',
+    options: [
+      'Marie Curie',
+      'John Dalton',
+      'Dmitri Mendeleev',
+      'Antoine Lavoisier',
+    ],
+    answer: 2,
+    difficulty: 'hard',
+  },
+  {
+    id: 'ts-eiffel-summer',
+    question: 'Why does the Eiffel Tower grow up to 15 cm taller in summer?',
+    options: [
+      'Repainting',
+      'Thermal expansion',
+      'Wind pressure',
+      'Ground swelling',
+    ],
+    answer: 1,
+    difficulty: 'hard',
+  },
+];
+
+export const MEMORY_WORDS = [
+  'apple',
+  'river',
+  'candle',
+  'tiger',
+  'window',
+  'guitar',
+  'cloud',
+  'pepper',
+  'rocket',
+  'garden',
+  'mirror',
+  'castle',
+  'pencil',
+  'violet',
+  'anchor',
+  'forest',
+  'marble',
+  'lemon',
+  'bridge',
+  'feather',
+  'thunder',
+  'button',
+  'island',
+  'compass',
+];
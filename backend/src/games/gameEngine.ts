@@ -0,0 +1,541 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MEMORY_WORDS,
+  SecretItem,
+  TRIVIA_SPRINT_QUESTIONS,
+  TriviaSprintQuestion,
+  TWENTY_QUESTIONS_SECRETS,
+} from './gameContent';
+
+/**
+ * Server-side game sessions for game_host. The engine picks the secret,
+ * generates the problems and marks the answers, so scores survive the
+ * model forgetting or miscounting; the model only presents the game and
+ * answers 20 Questions' yes/no questions about a secret it is told.
+ *
+ * One session per conversation, held in memory like ConversationManager's
+ * contexts. Starting a game replaces whatever was being played.
+ */
+
+export const GAME_TYPES = [
+  'twenty_questions',
+  'quick_math',
+  'memory_test',
+  'trivia_sprint',
+] as const;
+export type GameType = (typeof GAME_TYPES)[number];
+
+export const GAME_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type GameDifficulty = (typeof GAME_DIFFICULTIES)[number];
+
+export type GameStatus = 'active' | 'won' | 'lost' | 'completed' | 'abandoned';
+
+export const GAME_NAMES: Record<GameType, string> = {
+  twenty_questions: '20 Questions',
+  quick_math: 'Quick Math',
+  memory_test: 'Memory Test',
+  trivia_sprint: 'Trivia Sprint',
+};
+
+export type QuestionReply = 'yes' | 'no' | 'sometimes' | 'unknown';
+export const QUESTION_REPLIES: QuestionReply[] = [
+  'yes',
+  'no',
+  'sometimes',
+  'unknown',
+];
+
+const MAX_QUESTIONS = 20;
+const ROUNDS: Record<Exclude<GameType, 'twenty_questions'>, number> = {
+  quick_math: 5,
+  memory_test: 6,
+  trivia_sprint: 5,
+};
+const POINTS: Record<GameDifficulty, number> = {
+  easy: 10,
+  medium: 20,
+  hard: 30,
+};
+/** Extra points for each correct answer in a row after the first. */
+const STREAK_BONUS = 5;
+const MEMORY_START_LENGTH: Record<GameDifficulty, number> = {
+  easy: 3,
+  medium: 4,
+  hard: 5,
+};
+// No 0/O or 1/I, which read alike.
+const MEMORY_SYMBOLS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface MathProblem {
+  text: string;
+  answer: number;
+}
+
+export type GameState =
+  | {
+      game: 'twenty_questions';
+      secret: SecretItem;
+      questions: Array<{ question: string; reply: QuestionReply }>;
+      guesses: string[];
+    }
+  | { game: 'quick_math'; problem: MathProblem }
+  | {
+      game: 'memory_test';
+      kind: 'digits' | 'words' | 'mixed';
+      sequence: string[];
+    }
+  | {
+      game: 'trivia_sprint';
+      question: TriviaSprintQuestion;
+      /** Ids of the questions asked so far, current one included. */
+      asked: string[];
+    };
+
+export type GameSession = {
+  id: string;
+  /** The conversation (or, without one, the user) playing. */
+  key: string;
+  difficulty: GameDifficulty;
+  status: GameStatus;
+  score: number;
+  streak: number;
+  bestStreak: number;
+  /** Correct answers; for 20 Questions, 1 once the secret is guessed. */
+  correct: number;
+  /** Answers given; for 20 Questions, questions asked plus guesses. */
+  turns: number;
+  maxTurns: number;
+  startedAt: Date;
+  updatedAt: Date;
+} & GameState;
+
+export interface GameMoveResult {
+  session: GameSession;
+  /** Whether the answer or guess was right; unset for starts and questions. */
+  correct?: boolean;
+  /** The right answer, once the player may know it. */
+  expected?: string;
+  /** The next challenge to put to the player, while the game is active. */
+  prompt?: string;
+}
+
+export class GameEngine {
+  private sessions: Map<string, GameSession> = new Map();
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  get(key: string): GameSession | undefined {
+    return this.sessions.get(key);
+  }
+
+  start(
+    key: string,
+    game: GameType,
+    difficulty: GameDifficulty = 'medium',
+  ): GameMoveResult {
+    const now = new Date();
+    const session = {
+      id: uuidv4(),
+      key,
+      difficulty,
+      status: 'active',
+      score: 0,
+      streak: 0,
+      bestStreak: 0,
+      correct: 0,
+      turns: 0,
+      maxTurns: game === 'twenty_questions' ? MAX_QUESTIONS : ROUNDS[game],
+      startedAt: now,
+      updatedAt: now,
+      ...this.firstState(game, difficulty),
+    } as GameSession;
+    this.sessions.set(key, session);
+    return { session, prompt: promptFor(session) };
+  }
+
+  /** Mark an answer, or in 20 Questions a guess at the secret. */
+  answer(key: string, answer: string): GameMoveResult {
+    const session = this.active(key);
+    if (session.game === 'twenty_questions') {
+      session.turns++;
+      session.updatedAt = new Date();
+      session.guesses.push(answer);
+      const correct = matchesSecret(answer, session.secret);
+      if (correct) {
+        session.correct = 1;
+        session.status = 'won';
+        session.score =
+          (session.maxTurns - session.turns + 1) *
+          (POINTS[session.difficulty] / 2);
+      } else if (session.turns >= session.maxTurns) {
+        session.status = 'lost';
+      }
+      return this.outcome(session, correct, session.secret.name);
+    }
+
+    // Marked first: an answer that can't be read doesn't use up a turn.
+    const { correct, expected } = this.mark(session, answer);
+    session.turns++;
+    session.updatedAt = new Date();
+    if (correct) {
+      session.correct++;
+      session.streak++;
+      session.bestStreak = Math.max(session.bestStreak, session.streak);
+      session.score +=
+        POINTS[session.difficulty] + STREAK_BONUS * (session.streak - 1);
+    } else {
+      session.streak = 0;
+    }
+
+    // Memory Test runs until the first slip.
+    if (
+      session.turns >= session.maxTurns ||
+      (session.game === 'memory_test' && !correct)
+    ) {
+      session.status = 'completed';
+    } else {
+      this.nextChallenge(session);
+    }
+    return this.outcome(session, correct, expected);
+  }
+
+  /**
+   * Record a 20 Questions question and the model's reply. The last turn is
+   * kept for a guess, so a question can't lose the game on its own.
+   */
+  ask(key: string, question: string, reply: QuestionReply): GameMoveResult {
+    const session = this.active(key);
+    if (session.game !== 'twenty_questions') {
+      throw new Error(`${GAME_NAMES[session.game]} has no questions to ask`);
+    }
+    if (session.turns >= session.maxTurns - 1) {
+      throw new Error(
+        'Only one turn left: ask the player for their final guess',
+      );
+    }
+    session.questions.push({ question, reply });
+    session.turns++;
+    session.updatedAt = new Date();
+    return { session, prompt: promptFor(session) };
+  }
+
+  /** The session and the current challenge, or the answer once it is over. */
+  status(key: string): GameMoveResult {
+    const session = this.sessions.get(key);
+    if (!session) {
+      throw new Error('No game in progress');
+    }
+    return session.status === 'active'
+      ? { session, prompt: promptFor(session) }
+      : { session, expected: answerOf(session) };
+  }
+
+  /** Stop the game early, revealing the answer. */
+  end(key: string): GameMoveResult {
+    const session = this.sessions.get(key);
+    if (!session) {
+      throw new Error('No game in progress');
+    }
+    if (session.status === 'active') {
+      session.status = 'abandoned';
+      session.updatedAt = new Date();
+    }
+    return { session, expected: answerOf(session) };
+  }
+
+  cleanup(maxAge = 3600000): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (now - session.updatedAt.getTime() > maxAge) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private active(key: string): GameSession {
+    const session = this.sessions.get(key);
+    if (!session) {
+      throw new Error('No game in progress');
+    }
+    if (session.status !== 'active') {
+      throw new Error(
+        `The ${GAME_NAMES[session.game]} game is over; start a new one`,
+      );
+    }
+    return session;
+  }
+
+  private outcome(
+    session: GameSession,
+    correct: boolean,
+    expected: string,
+  ): GameMoveResult {
+    const active = session.status === 'active';
+    // 20 Questions keeps the secret until the game is over.
+    const reveal = session.game === 'twenty_questions' ? !active : !correct;
+    return {
+      session,
+      correct,
+      ...(reveal && { expected }),
+      ...(active && { prompt: promptFor(session) }),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Challenges
+  // -------------------------------------------------------------------------
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  private int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private firstState(game: GameType, difficulty: GameDifficulty): GameState {
+    switch (game) {
+      case 'twenty_questions':
+        return {
+          game,
+          secret: this.pick(
+            TWENTY_QUESTIONS_SECRETS.filter(s => s.difficulty === difficulty),
+          ),
+          questions: [],
+          guesses: [],
+        };
+      case 'quick_math':
+        return { game, problem: this.mathProblem(difficulty, 0) };
+      case 'memory_test': {
+        const kind =
+          difficulty === 'easy'
+            ? 'digits'
+            : difficulty === 'medium'
+              ? 'words'
+              : 'mixed';
+        return {
+          game,
+          kind,
+          sequence: this.memorySequence(kind, MEMORY_START_LENGTH[difficulty]),
+        };
+      }
+      case 'trivia_sprint': {
+        const question = this.triviaQuestion(difficulty, []);
+        return { game, question, asked: [question.id] };
+      }
+    }
+  }
+
+  private nextChallenge(session: GameSession): void {
+    switch (session.game) {
+      case 'quick_math':
+        session.problem = this.mathProblem(session.difficulty, session.turns);
+        break;
+      case 'memory_test':
+        session.sequence = this.memorySequence(
+          session.kind,
+          MEMORY_START_LENGTH[session.difficulty] + session.turns,
+        );
+        break;
+      case 'trivia_sprint':
+        session.question = this.triviaQuestion(
+          session.difficulty,
+          session.asked,
+        );
+        session.asked.push(session.question.id);
+        break;
+    }
+  }
+
+  /** Problems get a notch harder every two rounds. */
+  private mathProblem(difficulty: GameDifficulty, round: number): MathProblem {
+    const step = Math.floor(round / 2);
+    if (difficulty === 'easy') {
+      const max = 10 + step * 5;
+      return this.sumOrDifference(this.int(1, max), this.int(1, max));
+    }
+    if (difficulty === 'medium') {
+      if (this.random() < 1 / 3) {
+        const a = this.int(2, 9 + step);
+        const b = this.int(2, 12);
+        return { text: `${a} × ${b}`, answer: a * b };
+      }
+      const max = 50 + step * 10;
+      return this.sumOrDifference(this.int(10, max), this.int(10, max));
+    }
+    const a = this.int(6, 15 + step * 3);
+    const b = this.int(6, 15 + step * 3);
+    const c = this.int(10, 99);
+    const form = this.int(0, 2);
+    if (form === 0) {
+      return { text: `${a} × ${b} + ${c}`, answer: a * b + c };
+    }
+    if (form === 1) {
+      return { text: `${a} × ${b} - ${c}`, answer: a * b - c };
+    }
+    return { text: `${a * b} ÷ ${a}`, answer: b };
+  }
+
+  private sumOrDifference(a: number, b: number): MathProblem {
+    if (this.random() < 0.5) {
+      return { text: `${a} + ${b}`, answer: a + b };
+    }
+    const [high, low] = a >= b ? [a, b] : [b, a];
+    return { text: `${high} - ${low}`, answer: high - low };
+  }
+
+  private memorySequence(
+    kind: 'digits' | 'words' | 'mixed',
+    length: number,
+  ): string[] {
+    return Array.from({ length }, () =>
+      kind === 'digits'
+        ? String(this.int(0, 9))
+        : kind === 'words'
+          ? this.pick(MEMORY_WORDS)
+          : this.pick([...MEMORY_SYMBOLS]),
+    );
+  }
+
+  private triviaQuestion(
+    difficulty: GameDifficulty,
+    asked: string[],
+  ): TriviaSprintQuestion {
+    const unasked = TRIVIA_SPRINT_QUESTIONS.filter(q => !asked.includes(q.id));
+    const pool = unasked.filter(q => q.difficulty === difficulty);
+    return this.pick(pool.length > 0 ? pool : unasked);
+  }
+
+  // -------------------------------------------------------------------------
+  // Marking
+  // -------------------------------------------------------------------------
+
+  private mark(
+    session: GameSession,
+    answer: string,
+  ): { correct: boolean; expected: string } {
+    switch (session.game) {
+      case 'quick_math':
+        return {
+          correct: parseNumber(answer) === session.problem.answer,
+          expected: String(session.problem.answer),
+        };
+      case 'memory_test':
+        return {
+          correct: sameSequence(answer, session.sequence, session.kind),
+          expected: session.sequence.join(' '),
+        };
+      case 'trivia_sprint':
+        return {
+          correct:
+            chosenOption(answer, session.question) === session.question.answer,
+          expected: optionLabel(session.question, session.question.answer),
+        };
+      default:
+        throw new Error(`${GAME_NAMES[session.game]} has no answers to mark`);
+    }
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function containsWords(text: string, words: string): boolean {
+  return ` ${text} `.includes(` ${words} `);
+}
+
+function matchesSecret(guess: string, secret: SecretItem): boolean {
+  const text = normalize(guess);
+  return [secret.name, ...secret.aliases].some(name =>
+    containsWords(text, normalize(name)),
+  );
+}
+
+/** The first number in the answer; throws when there is none. */
+function parseNumber(answer: string): number {
+  const match = answer.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  if (!match) {
+    throw new Error(
+      `"${answer}" has no number in it; ask the player for a number`,
+    );
+  }
+  return Number(match[0]);
+}
+
+function sameSequence(
+  answer: string,
+  sequence: string[],
+  kind: 'digits' | 'words' | 'mixed',
+): boolean {
+  if (kind === 'words') {
+    return normalize(answer) === sequence.join(' ');
+  }
+  return answer.toUpperCase().replace(/[^A-Z0-9]/g, '') === sequence.join('');
+}
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+
+function optionLabel(question: TriviaSprintQuestion, index: number): string {
+  return `${OPTION_LETTERS[index]}) ${question.options[index]}`;
+}
+
+/**
+ * The option an answer picks: a letter on its own ("b", "B)", "option B")
+ * or the text of exactly one option. -1 when it picks none.
+ */
+function chosenOption(answer: string, question: TriviaSprintQuestion): number {
+  const letter = answer
+    .trim()
+    .match(/^(?:(?:option|answer)\s+)?\(?([a-d])\)?[.):]?$/i);
+  if (letter) {
+    return OPTION_LETTERS.indexOf(letter[1].toUpperCase());
+  }
+  const text = normalize(answer);
+  const named = question.options
+    .map((option, index) => ({ index, words: normalize(option) }))
+    .filter(({ words }) => containsWords(text, words));
+  return named.length === 1 ? named[0].index : -1;
+}
+
+function answerOf(session: GameSession): string {
+  switch (session.game) {
+    case 'twenty_questions':
+      return session.secret.name;
+    case 'quick_math':
+      return String(session.problem.answer);
+    case 'memory_test':
+      return session.sequence.join(' ');
+    case 'trivia_sprint':
+      return optionLabel(session.question, session.question.answer);
+  }
+}
+
+/** What to put to the player next. Never gives the answer away. */
+function promptFor(session: GameSession): string {
+  switch (session.game) {
+    case 'twenty_questions': {
+      const left = session.maxTurns - session.turns;
+      const { category } = session.secret;
+      const article = /^[aeiou]/.test(category) ? 'an' : 'a';
+      return `I'm thinking of ${article} ${category}. Ask yes/no questions or make a guess: ${left} ${left === 1 ? 'turn' : 'turns'} left.`;
+    }
+    case 'quick_math':
+      return `What is ${session.problem.text}?`;
+    case 'memory_test':
+      return `Memorise this sequence, then type it back: ${session.sequence.join(' ')}`;
+    case 'trivia_sprint':
+      return [
+        session.question.question,
+        ...session.question.options.map((_, i) =>
+          optionLabel(session.question, i),
+        ),
+      ].join('\n');
+  }
+}
+
+export const gameEngine = new GameEngine();
@@ -0,0 +1,79 @@
+import userStorage from '../storage/userStorage';
+import { QuizScoreStore, quizScoreStore } from '../storage/quizScoreStore';
+import { QuizScore, QuizType } from './quizEngine';
+
+/**
+ * Quiz leaderboards as players see them. Other players appear by first
+ * name only ("Guest" for anonymous ones), never by user id.
+ */
+
+export interface LeaderboardEntry {
+  /** Players on the same points share a rank. */
+  rank: number;
+  name: string;
+  points: number;
+  correct: number;
+  answered: number;
+  bestStreak: number;
+  /** Whether this is the caller. */
+  you: boolean;
+}
+
+export interface Leaderboard {
+  quiz: QuizType;
+  entries: LeaderboardEntry[];
+  /** The caller's standing, even when outside the top entries. */
+  you: LeaderboardEntry | null;
+}
+
+export const DEFAULT_LEADERBOARD_SIZE = 10;
+
+async function displayName(userId: string): Promise<string> {
+  if (userId.startsWith('anon_')) {
+    return 'Guest';
+  }
+  const user = await userStorage.getUser(userId).catch(() => null);
+  return user?.name.trim().split(/\s+/)[0] || 'Player';
+}
+
+async function toEntry(
+  score: QuizScore,
+  rank: number,
+  userId: string,
+): Promise<LeaderboardEntry> {
+  return {
+    rank,
+    name: await displayName(score.userId),
+    points: score.points,
+    correct: score.correct,
+    answered: score.answered,
+    bestStreak: score.bestStreak,
+    you: score.userId === userId,
+  };
+}
+
+export async function getLeaderboard(
+  quiz: QuizType,
+  userId: string,
+  limit = DEFAULT_LEADERBOARD_SIZE,
+  store: QuizScoreStore = quizScoreStore,
+): Promise<Leaderboard> {
+  const top = await store.top(quiz, limit);
+  const entries: LeaderboardEntry[] = [];
+  for (const [i, score] of top.entries()) {
+    const tied = i > 0 && top[i - 1].points === score.points;
+    entries.push(
+      await toEntry(score, tied ? entries[i - 1].rank : i + 1, userId),
+    );
+  }
+
+  let you = entries.find(e => e.you) ?? null;
+  if (!you) {
+    const [mine, rank] = await Promise.all([
+      store.get(userId, quiz),
+      store.rank(userId, quiz),
+    ]);
+    you = mine && rank ? await toEntry(mine, rank, userId) : null;
+  }
+  return { quiz, entries, you };
+}
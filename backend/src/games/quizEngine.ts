@@ -0,0 +1,300 @@
+import { ContentItem, RAGService, ragService } from '../agents/ragService';
+import { QuizScoreStore, quizScoreStore } from '../storage/quizScoreStore';
+import { answerWords, matchesAnswer } from './answerMatch';
+
+/**
+ * Scored riddle and trivia quizzes for riddle_master and trivia. Questions
+ * come from RAGService's curated content: a riddle's text or a trivia
+ * item's `metadata.question`, with `metadata.answer` as the canonical
+ * answer, `metadata.accept` as other accepted answers and `metadata.hint`.
+ * The engine marks answers (see `answerMatch.ts`) and keeps score, so the
+ * model never has to judge them.
+ *
+ * The session (current question, streak) is held in memory per
+ * conversation like GameEngine's. Each player's running totals, which the
+ * leaderboard ranks, are saved to the QuizScoreStore as questions finish.
+ */
+
+export const QUIZ_TYPES = ['riddle', 'trivia'] as const;
+export type QuizType = (typeof QUIZ_TYPES)[number];
+
+export const QUIZ_NAMES: Record<QuizType, string> = {
+  riddle: 'Riddle Challenge',
+  trivia: 'Trivia Quiz',
+};
+
+const BASE_POINTS = 10;
+/** Points lost per hint taken, down to MIN_POINTS. */
+const HINT_COST = 3;
+const MIN_POINTS = 4;
+/** Extra points for each correct answer in a row after the first. */
+const STREAK_BONUS = 5;
+const MAX_STREAK_BONUS = 25;
+const MAX_ATTEMPTS = 3;
+const MAX_HINTS = 2;
+
+export interface QuizQuestion {
+  /** The RAG content id. */
+  id: string;
+  question: string;
+  answer: string;
+  accepted: string[];
+  hint?: string;
+  attempts: number;
+  hintsUsed: number;
+}
+
+export interface QuizSession {
+  quiz: QuizType;
+  /** The resolveIdentity user whose score this session adds to. */
+  userId: string;
+  /** Unset between questions. */
+  current?: QuizQuestion;
+  /** Content ids asked so far, oldest first. */
+  asked: string[];
+  streak: number;
+  bestStreak: number;
+  /** This session's tallies; lifetime totals are the QuizScore. */
+  points: number;
+  correct: number;
+  answered: number;
+  updatedAt: Date;
+}
+
+/** A player's running totals for one quiz. */
+export interface QuizScore {
+  userId: string;
+  quiz: QuizType;
+  points: number;
+  correct: number;
+  answered: number;
+  bestStreak: number;
+  updatedAt: Date;
+}
+
+export type QuizOutcome = 'correct' | 'wrong' | 'revealed' | 'skipped';
+
+export interface QuizMoveResult {
+  session: QuizSession;
+  /** The question now being asked, if any. */
+  question?: string;
+  outcome?: QuizOutcome;
+  /** The canonical answer, once a question is over. */
+  expected?: string;
+  pointsAwarded?: number;
+  attemptsLeft?: number;
+  hint?: string;
+  /** The player's totals after a question finished. */
+  total?: QuizScore;
+}
+
+export class QuizEngine {
+  private readonly sessions = new Map<string, QuizSession>();
+
+  constructor(
+    private readonly rag: Pick<RAGService, 'listQuizContent'> = ragService,
+    private readonly scores: QuizScoreStore = quizScoreStore,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  get(key: string): QuizSession | undefined {
+    return this.sessions.get(key);
+  }
+
+  /**
+   * Ask a new question, starting a session for `quiz` if needed. A
+   * question left unanswered counts as skipped.
+   */
+  async next(
+    key: string,
+    userId: string,
+    quiz: QuizType,
+  ): Promise<QuizMoveResult> {
+    let session = this.sessions.get(key);
+    let skipped: QuizMoveResult | undefined;
+    if (session?.quiz === quiz && session.userId === userId) {
+      if (session.current) {
+        skipped = await this.skip(key);
+      }
+    } else {
+      session = {
+        quiz,
+        userId,
+        asked: [],
+        streak: 0,
+        bestStreak: 0,
+        points: 0,
+        correct: 0,
+        answered: 0,
+        updatedAt: new Date(),
+      };
+      this.sessions.set(key, session);
+    }
+
+    const item = this.pick(session, await this.rag.listQuizContent(quiz));
+    const current: QuizQuestion = {
+      id: item.id,
+      question: quiz === 'riddle' ? item.content : item.metadata.question,
+      answer: String(item.metadata.answer),
+      accepted: [String(item.metadata.answer), ...acceptedVariants(item)],
+      ...(item.metadata.hint && { hint: String(item.metadata.hint) }),
+      attempts: 0,
+      hintsUsed: 0,
+    };
+    session.current = current;
+    session.asked.push(item.id);
+    session.updatedAt = new Date();
+    return {
+      session,
+      question: current.question,
+      ...(skipped && {
+        outcome: skipped.outcome,
+        expected: skipped.expected,
+        total: skipped.total,
+      }),
+    };
+  }
+
+  /** Mark an answer; the question ends when it's right or out of tries. */
+  async answer(key: string, answer: string): Promise<QuizMoveResult> {
+    const session = this.active(key);
+    const current = session.current!;
+    const correct = matchesAnswer(answer, current.accepted);
+    current.attempts++;
+    session.updatedAt = new Date();
+
+    if (correct) {
+      session.streak++;
+      session.bestStreak = Math.max(session.bestStreak, session.streak);
+      const points =
+        Math.max(MIN_POINTS, BASE_POINTS - HINT_COST * current.hintsUsed) +
+        Math.min(MAX_STREAK_BONUS, STREAK_BONUS * (session.streak - 1));
+      return this.finish(session, 'correct', points);
+    }
+
+    const attemptsLeft = MAX_ATTEMPTS - current.attempts;
+    if (attemptsLeft > 0) {
+      return {
+        session,
+        question: current.question,
+        outcome: 'wrong',
+        attemptsLeft,
+      };
+    }
+    session.streak = 0;
+    return this.finish(session, 'revealed', 0);
+  }
+
+  /** The question's own hint first, then the shape of the answer. */
+  hint(key: string): QuizMoveResult {
+    const session = this.active(key);
+    const current = session.current!;
+    if (current.hintsUsed >= MAX_HINTS) {
+      throw new Error('No hints left for this question');
+    }
+    const hint =
+      current.hintsUsed === 0 && current.hint
+        ? current.hint
+        : answerShape(current.answer);
+    current.hintsUsed++;
+    session.updatedAt = new Date();
+    return {
+      session,
+      question: current.question,
+      hint,
+      attemptsLeft: MAX_ATTEMPTS - current.attempts,
+    };
+  }
+
+  /** Give up on the question: reveal the answer and break the streak. */
+  async skip(key: string): Promise<QuizMoveResult> {
+    const session = this.active(key);
+    session.streak = 0;
+    session.updatedAt = new Date();
+    return this.finish(session, 'skipped', 0);
+  }
+
+  cleanup(maxAge = 3600000): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (now - session.updatedAt.getTime() > maxAge) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private active(key: string): QuizSession {
+    const session = this.sessions.get(key);
+    if (!session?.current) {
+      throw new Error('No quiz question in progress');
+    }
+    return session;
+  }
+
+  /** Something not asked yet; once all have been, start over. */
+  private pick(session: QuizSession, items: ContentItem[]): ContentItem {
+    if (items.length === 0) {
+      throw new Error(`No ${session.quiz} questions are available`);
+    }
+    let fresh = items.filter(item => !session.asked.includes(item.id));
+    if (fresh.length === 0) {
+      const last = session.asked[session.asked.length - 1];
+      session.asked = [];
+      fresh = items.length > 1 ? items.filter(i => i.id !== last) : items;
+    }
+    return fresh[Math.floor(this.random() * fresh.length)];
+  }
+
+  private async finish(
+    session: QuizSession,
+    outcome: QuizOutcome,
+    points: number,
+  ): Promise<QuizMoveResult> {
+    const expected = session.current!.answer;
+    delete session.current;
+    const correct = outcome === 'correct' ? 1 : 0;
+    session.points += points;
+    session.correct += correct;
+    session.answered++;
+
+    const previous = await this.scores.get(session.userId, session.quiz);
+    const total: QuizScore = {
+      userId: session.userId,
+      quiz: session.quiz,
+      points: (previous?.points ?? 0) + points,
+      correct: (previous?.correct ?? 0) + correct,
+      answered: (previous?.answered ?? 0) + 1,
+      bestStreak: Math.max(previous?.bestStreak ?? 0, session.bestStreak),
+      updatedAt: new Date(),
+    };
+    await this.scores.save(total);
+    return { session, outcome, expected, pointsAwarded: points, total };
+  }
+}
+
+/** `metadata.accept` as a list, or split on `|` or `;` from a CSV import. */
+function acceptedVariants(item: ContentItem): string[] {
+  const accept = item.metadata?.accept;
+  if (Array.isArray(accept)) {
+    return accept.map(String);
+  }
+  return typeof accept === 'string'
+    ? accept
+        .split(/[|;]/)
+        .map(a => a.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/** First letter of each word, e.g. "P _ _ _ _"; digits stay hidden. */
+function answerShape(answer: string): string {
+  return answerWords(answer)
+    .map(word =>
+      /^\d+$/.test(word)
+        ? '_ '.repeat(word.length).trim()
+        : [word[0].toUpperCase(), ...'_'.repeat(word.length - 1)].join(' '),
+    )
+    .join('   ');
+}
+
+export const quizEngine = new QuizEngine();
@@ -9,6 +9,12 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import chatRoutes from './routes/chat';
 import conversationRoutes from './routes/conversations';
+import memoryRoutes from './routes/memory';
+import usageRoutes from './routes/usage';
+import dndRoutes from './routes/dnd';
+import leaderboardRoutes from './routes/leaderboard';
+import openaiCompatRoutes from './routes/openaiCompat';
+import ragRoutes from './routes/rag';
 import reactionRoutes from './routes/reactions';
 import validationRoutes from './routes/validation';
 import agentTestBenchRoutes from './routes/agentTestBench';
@@ -17,6 +23,8 @@ import messageQueueRoutes from './routes/messageQueue';
 import authRoutes from './routes/auth';
 import embedAuthRoutes from './routes/embedAuth';
 import { setupSocketHandlers } from './socket/socketHandlers';
+import { agentLoader } from './agents/agentLoader';
+import { providerRegistry } from './llm';
 import {
   httpMetricsMiddleware,
   register,
@@ -25,11 +33,13 @@ import {
 import { createQueueService } from './messageQueue/queueService';
 import { getLogger, patchConsole } from './logger';
 import { resolveIdentity } from './middleware/identity';
+import { jsonBody } from './middleware/jsonBody';
 import {
   apiRateLimiter,
   chatRateLimiter,
   chatDailyLimiter,
   globalIpCeilingLimiter,
+  usageBudgetLimiter,
 } from './middleware/rateLimit';
 
 dotenv.config();
@@ -154,7 +164,8 @@ const PORT = process.env.PORT || 5001;
 
 // Middleware
 app.use(cors(corsOriginFn));
-app.use(express.json());
+// Conversation imports parse their own, larger bodies
+app.use(jsonBody(['/api/conversations/import']));
 app.use(cookieParser());
 
 // Prometheus metrics middleware + build info
@@ -181,20 +192,28 @@ app.use('/api/auth/embed', embedAuthRoutes);
 // Data routes — `resolveIdentity` accepts both authenticated (Istio
 // headers) and anonymous (`_chat_anon` cookie) callers. `apiRateLimiter`
 // runs after so it can tier-key on `req.tier`. Chat routes add
-// per-minute and per-day caps on top.
+// per-minute and per-day caps, and the daily usage budget, on top.
 const dataMiddleware = [resolveIdentity, apiRateLimiter];
 app.use(
   '/api/chat',
   ...dataMiddleware,
   chatRateLimiter,
   chatDailyLimiter,
+  usageBudgetLimiter,
   chatRoutes,
 );
 app.use('/api/conversations', ...dataMiddleware, conversationRoutes);
+app.use('/api/memory', ...dataMiddleware, memoryRoutes);
+app.use('/api/usage', ...dataMiddleware, usageRoutes);
+app.use('/api/dnd', ...dataMiddleware, dndRoutes);
+app.use('/api/leaderboard', ...dataMiddleware, leaderboardRoutes);
+app.use('/api/rag', ...dataMiddleware, ragRoutes);
 app.use('/api/reactions', ...dataMiddleware, reactionRoutes);
 app.use('/api/validation', ...dataMiddleware, validationRoutes);
 app.use('/api/test-bench', ...dataMiddleware, agentTestBenchRoutes);
 app.use('/api/queue', ...dataMiddleware, messageQueueRoutes);
+// OpenAI-compatible API; chat limits are applied per request (see the route).
+app.use('/v1', ...dataMiddleware, openaiCompatRoutes);
 /**
  * Swagger UI and JSON
  * UI:   /docs
@@ -224,6 +243,8 @@ registerSwaggerRoutes(app, openApiSpec);
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *                 llmProviders:
+ *                   $ref: '#/components/schemas/LLMProviderHealth'
  */
 app.get('/health', (req, res) => {
   // Keep health endpoint robust: never throw, tracer optional
@@ -236,7 +257,11 @@ app.get('/health', (req, res) => {
   } catch (_e) {
     // ignore tracing failures
   }
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    llmProviders: providerRegistry.health(),
+  });
 });
 
 /**
@@ -258,6 +283,8 @@ app.get('/health', (req, res) => {
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *                 llmProviders:
+ *                   $ref: '#/components/schemas/LLMProviderHealth'
  */
 app.get('/api/health', (req, res) => {
   try {
@@ -269,7 +296,11 @@ app.get('/api/health', (req, res) => {
   } catch (_e) {
     // ignore tracing failures
   }
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    llmProviders: providerRegistry.health(),
+  });
 });
 
 // Minimal startup health endpoint (no tracing)
@@ -343,6 +374,13 @@ debugLog('Creating queue service...');
 const queueService = createQueueService(io);
 debugLog('Queue service created');
 
+// Agent files (AGENTS_DIR) add to or replace the built-in agents; edits are
+// picked up without a restart unless AGENTS_HOT_RELOAD=false.
+agentLoader.load();
+if (process.env.AGENTS_HOT_RELOAD !== 'false') {
+  agentLoader.watch();
+}
+
 // Start server
 debugLog('Starting server on port', PORT);
 server.listen(PORT, async () => {
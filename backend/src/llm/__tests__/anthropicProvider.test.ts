@@ -0,0 +1,64 @@
+import { toAnthropicMessages } from '../anthropicProvider';
+
+describe('toAnthropicMessages', () => {
+  it('passes plain user and assistant turns through', () => {
+    expect(
+      toAnthropicMessages([
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' },
+      ]),
+    ).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+    ]);
+  });
+
+  it('turns assistant tool calls into tool_use blocks', () => {
+    const [msg] = toAnthropicMessages([
+      {
+        role: 'assistant',
+        content: 'Rolling',
+        tool_calls: [{ id: 'tu_1', name: 'roll_dice', input: { n: 'd20' } }],
+      },
+    ]);
+    expect(msg).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Rolling' },
+        {
+          type: 'tool_use',
+          id: 'tu_1',
+          name: 'roll_dice',
+          input: { n: 'd20' },
+        },
+      ],
+    });
+  });
+
+  it('merges consecutive tool results into a single user turn', () => {
+    const out = toAnthropicMessages([
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'tu_1', name: 'a', input: {} },
+          { id: 'tu_2', name: 'b', input: {} },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'tu_1', content: '{"ok":1}' },
+      { role: 'tool', tool_call_id: 'tu_2', content: '{"ok":2}' },
+    ]);
+    expect(out).toHaveLength(2);
+    expect(out[0].content).toEqual([
+      { type: 'tool_use', id: 'tu_1', name: 'a', input: {} },
+      { type: 'tool_use', id: 'tu_2', name: 'b', input: {} },
+    ]);
+    expect(out[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'tu_1', content: '{"ok":1}' },
+        { type: 'tool_result', tool_use_id: 'tu_2', content: '{"ok":2}' },
+      ],
+    });
+  });
+});
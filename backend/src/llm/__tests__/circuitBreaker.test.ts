@@ -0,0 +1,118 @@
+import { CircuitBreaker } from '../circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let time: number;
+  let changes: string[];
+
+  const breaker = (): CircuitBreaker =>
+    new CircuitBreaker(
+      {
+        errorRateThreshold: 0.5,
+        slowCallRateThreshold: 0.5,
+        slowCallMs: 1000,
+        minimumCalls: 4,
+        windowMs: 10_000,
+        openMs: 5000,
+        now: () => time,
+      },
+      state => changes.push(state),
+    );
+
+  beforeEach(() => {
+    time = 0;
+    changes = [];
+  });
+
+  it('stays closed until enough calls are in the window', () => {
+    const cb = breaker();
+    cb.recordFailure();
+    cb.recordFailure();
+    cb.recordFailure();
+
+    expect(cb.getState()).toBe('closed');
+    expect(cb.tryAcquire()).toBe(true);
+  });
+
+  it('opens when the error rate reaches the threshold', () => {
+    const cb = breaker();
+    cb.recordSuccess(10);
+    cb.recordSuccess(10);
+    cb.recordFailure();
+    cb.recordFailure();
+
+    expect(cb.getState()).toBe('open');
+    expect(cb.tryAcquire()).toBe(false);
+    expect(changes).toEqual(['open']);
+  });
+
+  it('opens when too many calls are slow', () => {
+    const cb = breaker();
+    cb.recordSuccess(10);
+    cb.recordSuccess(10);
+    cb.recordSuccess(1500);
+    cb.recordSuccess(2000);
+
+    expect(cb.getState()).toBe('open');
+  });
+
+  it('forgets calls that left the window', () => {
+    const cb = breaker();
+    cb.recordFailure();
+    cb.recordFailure();
+    cb.recordFailure();
+    time = 10_001;
+    cb.recordFailure();
+
+    expect(cb.getState()).toBe('closed');
+    expect(cb.snapshot()).toMatchObject({ calls: 1, errorRate: 1 });
+  });
+
+  it('lets a single probe through once half-open', () => {
+    const cb = breaker();
+    for (let i = 0; i < 4; i++) {
+      cb.recordFailure();
+    }
+    time = 5000;
+
+    expect(cb.getState()).toBe('half_open');
+    expect(cb.tryAcquire()).toBe(true);
+    expect(cb.tryAcquire()).toBe(false);
+
+    cb.recordSuccess(10);
+    expect(cb.getState()).toBe('closed');
+    expect(changes).toEqual(['open', 'half_open', 'closed']);
+  });
+
+  it('reopens when the probe fails or is slow', () => {
+    const cb = breaker();
+    for (let i = 0; i < 4; i++) {
+      cb.recordFailure();
+    }
+    time = 5000;
+    cb.tryAcquire();
+    cb.recordFailure();
+    expect(cb.getState()).toBe('open');
+    expect(cb.snapshot()).toMatchObject({
+      openedAt: new Date(5000).toISOString(),
+      retryAt: new Date(10_000).toISOString(),
+    });
+
+    time = 10_000;
+    cb.tryAcquire();
+    cb.recordSuccess(1500);
+    expect(cb.getState()).toBe('open');
+  });
+
+  it('frees the probe slot when a probe is released without a verdict', () => {
+    const cb = breaker();
+    for (let i = 0; i < 4; i++) {
+      cb.recordFailure();
+    }
+    time = 5000;
+    cb.tryAcquire();
+    cb.release();
+
+    expect(cb.getState()).toBe('half_open');
+    expect(cb.tryAcquire()).toBe(true);
+  });
+});
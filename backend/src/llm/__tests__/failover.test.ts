@@ -0,0 +1,359 @@
+import {
+  FailoverProvider,
+  backoffDelay,
+  isProviderFault,
+  isRetryableError,
+} from '../failover';
+import { CircuitBreaker } from '../circuitBreaker';
+import { LLMProvider, LLMStreamEvent, LLMStreamOptions } from '../provider';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+/** An error the way the provider SDKs report HTTP failures. */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+type Step = LLMStreamEvent | Error | 'hang';
+
+/**
+ * A provider that plays one script per call: events in order, an Error
+ * thrown where it appears, or 'hang' to go quiet until aborted.
+ */
+function scriptedProvider(
+  id: LLMProvider['id'],
+  ...scripts: Step[][]
+): LLMProvider & { calls: LLMStreamOptions[] } {
+  const calls: LLMStreamOptions[] = [];
+  return {
+    id,
+    calls,
+    async *stream(opts) {
+      const script = scripts[calls.length] ?? scripts[scripts.length - 1];
+      calls.push(opts);
+      for (const step of script) {
+        if (step === 'hang') {
+          await new Promise(resolve =>
+            opts.signal?.addEventListener('abort', resolve),
+          );
+          return;
+        }
+        if (step instanceof Error) {
+          throw step;
+        }
+        yield step;
+      }
+    },
+  };
+}
+
+const text = (t: string): LLMStreamEvent => ({ type: 'text_delta', text: t });
+const done: LLMStreamEvent = { type: 'done' };
+
+const request: LLMStreamOptions = {
+  model: 'claude-sonnet-4-6',
+  system: 'You are helpful.',
+  messages: [{ role: 'user', content: 'Tell me a story' }],
+};
+
+async function collect(
+  provider: LLMProvider,
+  opts: LLMStreamOptions = request,
+): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const evt of provider.stream(opts)) {
+    events.push(evt);
+  }
+  return events;
+}
+
+const textOf = (events: LLMStreamEvent[]): string =>
+  events.map(e => (e.type === 'text_delta' ? e.text : '')).join('');
+
+const options = { baseDelayMs: 0, idleTimeoutMs: 1000 };
+
+describe('error classification', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(401))).toBe(false);
+  });
+
+  it('blames the provider for auth failures but not for bad requests', () => {
+    expect(isProviderFault(httpError(401))).toBe(true);
+    expect(isProviderFault(httpError(500))).toBe(true);
+    expect(isProviderFault(httpError(400))).toBe(false);
+    expect(isProviderFault(httpError(422))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap, scaled by the jitter', () => {
+    const opts = { baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(backoffDelay(0, opts, () => 1)).toBe(100);
+    expect(backoffDelay(2, opts, () => 1)).toBe(400);
+    expect(backoffDelay(5, opts, () => 1)).toBe(1000);
+    expect(backoffDelay(2, opts, () => 0.5)).toBe(200);
+  });
+});
+
+describe('FailoverProvider', () => {
+  it('passes a healthy stream straight through', async () => {
+    const anthropic = scriptedProvider('anthropic', [text('Once'), done]);
+    const provider = new FailoverProvider(
+      [{ provider: anthropic, breaker: new CircuitBreaker() }],
+      options,
+    );
+
+    expect(provider.id).toBe('anthropic');
+    expect(await collect(provider)).toEqual([
+      text('Once'),
+      { type: 'done', provider: 'anthropic', model: 'claude-sonnet-4-6' },
+    ]);
+    expect(anthropic.calls[0].model).toBe('claude-sonnet-4-6');
+  });
+
+  it('retries a rate-limited request on the same provider', async () => {
+    const anthropic = scriptedProvider(
+      'anthropic',
+      [httpError(429)],
+      [text('Once'), done],
+    );
+    const provider = new FailoverProvider(
+      [{ provider: anthropic, breaker: new CircuitBreaker() }],
+      options,
+    );
+
+    expect(textOf(await collect(provider))).toBe('Once');
+    expect(anthropic.calls).toHaveLength(2);
+  });
+
+  it('fails over to the fallback with its own model once retries run out', async () => {
+    const anthropic = scriptedProvider('anthropic', [httpError(529)]);
+    const openai = scriptedProvider('openai', [text('Once'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker: new CircuitBreaker() },
+        {
+          provider: openai,
+          breaker: new CircuitBreaker(),
+          model: 'gpt-4o-mini',
+        },
+      ],
+      { ...options, retries: 1 },
+    );
+
+    expect(textOf(await collect(provider))).toBe('Once');
+    expect(anthropic.calls).toHaveLength(2);
+    expect(openai.calls[0].model).toBe('gpt-4o-mini');
+  });
+
+  it('continues a stream that broke part-way on the fallback', async () => {
+    const anthropic = scriptedProvider('anthropic', [
+      text('Once upon '),
+      text('a time'),
+      httpError(500),
+    ]);
+    const openai = scriptedProvider('openai', [text(', a fox'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker: new CircuitBreaker() },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      { ...options, retries: 0 },
+    );
+
+    const events = await collect(provider);
+
+    expect(textOf(events)).toBe('Once upon a time, a fox');
+    const { messages, system } = openai.calls[0];
+    expect(messages[messages.length - 1]).toEqual({
+      role: 'assistant',
+      content: 'Once upon a time',
+    });
+    expect(system).toMatch(/^You are helpful\.\n\n.*continue it/);
+  });
+
+  it('does not double the space where a stream broke', async () => {
+    const anthropic = scriptedProvider('anthropic', [
+      text('Once upon '),
+      httpError(500),
+    ]);
+    const openai = scriptedProvider('openai', [text(' a time'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker: new CircuitBreaker() },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      { ...options, retries: 0 },
+    );
+
+    expect(textOf(await collect(provider))).toBe('Once upon a time');
+    const { messages } = openai.calls[0];
+    expect(messages[messages.length - 1].content).toBe('Once upon');
+  });
+
+  it('treats a provider that goes quiet as timed out', async () => {
+    const anthropic = scriptedProvider('anthropic', [text('Once'), 'hang']);
+    const openai = scriptedProvider('openai', [text(' upon a time'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker: new CircuitBreaker() },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      { ...options, retries: 0, idleTimeoutMs: 20 },
+    );
+
+    expect(textOf(await collect(provider))).toBe('Once upon a time');
+    expect(anthropic.calls[0].signal?.aborted).toBe(true);
+  });
+
+  it('fails over on an error event', async () => {
+    const foundry = scriptedProvider('foundry', [
+      { type: 'error', error: 'Foundry client init failed' },
+    ]);
+    const openai = scriptedProvider('openai', [text('Hi'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: foundry, breaker: new CircuitBreaker() },
+        {
+          provider: openai,
+          breaker: new CircuitBreaker(),
+          model: 'gpt-4o-mini',
+        },
+      ],
+      { ...options, retries: 0 },
+    );
+
+    // `done` names who answered, so usage is charged to them
+    expect(provider.id).toBe('foundry');
+    expect(await collect(provider)).toEqual([
+      text('Hi'),
+      { type: 'done', provider: 'openai', model: 'gpt-4o-mini' },
+    ]);
+  });
+
+  it('skips a provider whose breaker is open', async () => {
+    const breaker = new CircuitBreaker();
+    jest.spyOn(breaker, 'tryAcquire').mockReturnValue(false);
+    const anthropic = scriptedProvider('anthropic', [text('Hi'), done]);
+    const openai = scriptedProvider('openai', [text('Hello'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      options,
+    );
+
+    expect(textOf(await collect(provider))).toBe('Hello');
+    expect(anthropic.calls).toHaveLength(0);
+  });
+
+  it('records outcomes on the breakers', async () => {
+    const failing = new CircuitBreaker();
+    const healthy = new CircuitBreaker();
+    const onFailure = jest.spyOn(failing, 'recordFailure');
+    const onSuccess = jest.spyOn(healthy, 'recordSuccess');
+    const provider = new FailoverProvider(
+      [
+        {
+          provider: scriptedProvider('anthropic', [httpError(503)]),
+          breaker: failing,
+        },
+        {
+          provider: scriptedProvider('openai', [text('Hi'), done]),
+          breaker: healthy,
+        },
+      ],
+      { ...options, retries: 1 },
+    );
+
+    await collect(provider);
+
+    expect(onFailure).toHaveBeenCalledTimes(2);
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a bad request without retrying or failing over', async () => {
+    const anthropic = scriptedProvider('anthropic', [httpError(400)]);
+    const openai = scriptedProvider('openai', [text('Hi'), done]);
+    const breaker = new CircuitBreaker();
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      options,
+    );
+
+    await expect(collect(provider)).rejects.toThrow('HTTP 400');
+    expect(anthropic.calls).toHaveLength(1);
+    expect(openai.calls).toHaveLength(0);
+    expect(breaker.snapshot().calls).toBe(0);
+  });
+
+  it('does not fail over once a tool call was handed out', async () => {
+    const anthropic = scriptedProvider('anthropic', [
+      { type: 'tool_call', id: 't1', name: 'roll_dice', input: {} },
+      httpError(500),
+    ]);
+    const openai = scriptedProvider('openai', [text('Hi'), done]);
+    const provider = new FailoverProvider(
+      [
+        { provider: anthropic, breaker: new CircuitBreaker() },
+        { provider: openai, breaker: new CircuitBreaker() },
+      ],
+      options,
+    );
+
+    await expect(collect(provider)).rejects.toThrow('HTTP 500');
+    expect(openai.calls).toHaveLength(0);
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    const provider = new FailoverProvider(
+      [
+        {
+          provider: scriptedProvider('anthropic', [httpError(503)]),
+          breaker: new CircuitBreaker(),
+        },
+        {
+          provider: scriptedProvider('openai', [httpError(502)]),
+          breaker: new CircuitBreaker(),
+        },
+      ],
+      { ...options, retries: 0 },
+    );
+
+    await expect(collect(provider)).rejects.toThrow('HTTP 502');
+  });
+
+  it('stops without retrying when the caller aborts', async () => {
+    const controller = new AbortController();
+    const anthropic = scriptedProvider('anthropic', [text('Once'), 'hang']);
+    const breaker = new CircuitBreaker();
+    const onFailure = jest.spyOn(breaker, 'recordFailure');
+    const provider = new FailoverProvider(
+      [{ provider: anthropic, breaker }],
+      options,
+    );
+
+    const events: LLMStreamEvent[] = [];
+    for await (const evt of provider.stream({
+      ...request,
+      signal: controller.signal,
+    })) {
+      events.push(evt);
+      controller.abort();
+    }
+
+    expect(events).toEqual([text('Once')]);
+    expect(anthropic.calls).toHaveLength(1);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { LocalProvider } from '../localProvider';
+import { LLMStreamEvent, LLMStreamOptions } from '../provider';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const roll = {
+  name: 'roll_dice',
+  description: 'Roll dice',
+  input_schema: { type: 'object' },
+};
+
+const request: LLMStreamOptions = {
+  model: 'llama3.1',
+  system: 'You are helpful.',
+  messages: [{ role: 'user', content: 'Roll a d20' }],
+  tools: [roll],
+};
+
+/** A stand-in for the OpenAI-compatible server behind the provider. */
+function fakeServer(models: string[] | Error = ['llama3.1:latest']) {
+  return {
+    listModels: jest.fn(async () => {
+      if (models instanceof Error) {
+        throw models;
+      }
+      return models;
+    }),
+    stream: jest.fn(async function* (
+      opts: LLMStreamOptions,
+    ): AsyncGenerator<LLMStreamEvent> {
+      yield { type: 'text_delta', text: `model=${opts.model}` };
+      yield { type: 'done' };
+    }),
+  };
+}
+
+async function collect(
+  provider: LocalProvider,
+  opts: LLMStreamOptions = request,
+): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const evt of provider.stream(opts)) {
+    events.push(evt);
+  }
+  return events;
+}
+
+describe('LocalProvider', () => {
+  const baseURL = 'http://localhost:11434/v1';
+
+  it('streams from the server with tools offered', async () => {
+    const server = fakeServer();
+    const provider = new LocalProvider({ baseURL }, server);
+
+    expect(provider.id).toBe('local');
+    expect(await collect(provider)).toEqual([
+      { type: 'text_delta', text: 'model=llama3.1:latest' },
+      { type: 'done' },
+    ]);
+    expect(server.stream.mock.calls[0][0].tools).toEqual([roll]);
+  });
+
+  describe('model discovery', () => {
+    it('uses LOCAL_LLM_MODEL for a model the server does not have', async () => {
+      const provider = new LocalProvider(
+        { baseURL, defaultModel: 'qwen2.5' },
+        fakeServer(['llama3.1', 'qwen2.5']),
+      );
+
+      expect(await provider.resolveModel('gpt-4o-mini')).toBe('qwen2.5');
+      expect(await provider.resolveModel('llama3.1')).toBe('llama3.1');
+    });
+
+    it('falls back to the first served model', async () => {
+      const provider = new LocalProvider(
+        { baseURL, defaultModel: 'missing' },
+        fakeServer(['mistral', 'llama3.1']),
+      );
+
+      expect(await provider.resolveModel('gpt-4o-mini')).toBe('mistral');
+    });
+
+    it('passes the requested model through when discovery fails', async () => {
+      const provider = new LocalProvider(
+        { baseURL },
+        fakeServer(new Error('ECONNREFUSED')),
+      );
+
+      expect(await provider.resolveModel('llama3.1')).toBe('llama3.1');
+      expect(provider.knownModels()).toEqual([]);
+    });
+
+    it('asks the server again only once the list is a minute old', async () => {
+      let time = 0;
+      const server = fakeServer();
+      const provider = new LocalProvider({ baseURL, now: () => time }, server);
+
+      await Promise.all([provider.listModels(), provider.listModels()]);
+      time = 59_000;
+      await provider.listModels();
+      expect(server.listModels).toHaveBeenCalledTimes(1);
+
+      time = 60_000;
+      await provider.listModels();
+      expect(server.listModels).toHaveBeenCalledTimes(2);
+      expect(provider.knownModels()).toEqual(['llama3.1:latest']);
+    });
+  });
+
+  describe('tool support', () => {
+    const rejectTools = (server: ReturnType<typeof fakeServer>): void => {
+      const original = server.stream.getMockImplementation()!;
+      server.stream.mockImplementation(opts => {
+        if (opts.tools) {
+          throw Object.assign(
+            new Error('llama3.1:latest does not support tools'),
+            { status: 400 },
+          );
+        }
+        return original(opts);
+      });
+    };
+
+    it('retries without tools when the server rejects them, and remembers', async () => {
+      const server = fakeServer();
+      rejectTools(server);
+      const provider = new LocalProvider({ baseURL }, server);
+
+      expect(await collect(provider)).toHaveLength(2);
+      await collect(provider);
+
+      expect(server.stream.mock.calls.map(([opts]) => !!opts.tools)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+    });
+
+    it('never offers tools with LOCAL_LLM_TOOLS=false', async () => {
+      const server = fakeServer();
+      const provider = new LocalProvider({ baseURL, tools: 'false' }, server);
+
+      await collect(provider);
+
+      expect(server.stream.mock.calls[0][0].tools).toBeUndefined();
+    });
+
+    it('passes the rejection on with LOCAL_LLM_TOOLS=true', async () => {
+      const server = fakeServer();
+      rejectTools(server);
+      const provider = new LocalProvider({ baseURL, tools: 'true' }, server);
+
+      await expect(collect(provider)).rejects.toThrow('does not support tools');
+    });
+
+    it('does not retry errors unrelated to tools', async () => {
+      const server = fakeServer();
+      server.stream.mockImplementation(() => {
+        throw Object.assign(new Error('Service Unavailable'), { status: 503 });
+      });
+      const provider = new LocalProvider({ baseURL }, server);
+
+      await expect(collect(provider)).rejects.toThrow('Service Unavailable');
+      expect(server.stream).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MockProvider,
+  loadMockScripts,
+  parseMockScript,
+} from '../mockProvider';
+import { DEFAULT_MOCK_SCRIPTS } from '../mockScripts';
+import { LLMStreamEvent, LLMStreamOptions } from '../provider';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const roll = {
+  name: 'roll_dice',
+  description: 'Roll dice',
+  input_schema: { type: 'object' },
+};
+
+const diceScript = parseMockScript({
+  name: 'dice',
+  agent: 'dnd_master',
+  match: '\\broll\\b',
+  turns: [
+    {
+      text: 'Rolling for you...',
+      toolCalls: [
+        { name: 'roll_dice', input: { notation: 'd20', purpose: '{{input}}' } },
+        { name: 'generate_character' },
+      ],
+    },
+    { text: '{{toolResult|The dice are lost.}}' },
+  ],
+});
+
+const request = (
+  overrides: Partial<LLMStreamOptions> = {},
+): LLMStreamOptions => ({
+  model: 'gpt-4o-mini',
+  system: 'You are a dungeon master.',
+  messages: [{ role: 'user', content: 'Roll for stealth' }],
+  tools: [roll],
+  agentType: 'dnd_master',
+  ...overrides,
+});
+
+async function collect(
+  provider: MockProvider,
+  opts: LLMStreamOptions,
+): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const evt of provider.stream(opts)) {
+    events.push(evt);
+  }
+  return events;
+}
+
+const textOf = (events: LLMStreamEvent[]): string =>
+  events.map(e => (e.type === 'text_delta' ? e.text : '')).join('');
+
+const instant = { latencyMs: 0, chunkDelayMs: 0 };
+
+describe('parseMockScript', () => {
+  it('compiles agents and the match pattern', () => {
+    expect(diceScript.agents).toEqual(['dnd_master']);
+    expect(diceScript.match?.test('ROLL a d6')).toBe(true);
+    expect(diceScript.turns[0].toolCalls?.[1].input).toEqual({});
+  });
+
+  it('reports every problem at once', () => {
+    expect(() =>
+      parseMockScript({
+        name: '',
+        match: '(',
+        colour: 'blue',
+        turns: [{ text: 'Hi {{user}}' }, {}],
+      }),
+    ).toThrow(
+      'unknown field "colour"; "name" must be a non-empty string; ' +
+        '"match" is not a valid regular expression; ' +
+        'turn 1 uses unknown placeholder "{{user}}"; ' +
+        'turn 2 needs "text" or "toolCalls"',
+    );
+  });
+
+  it('parses the default demo scripts', () => {
+    expect(DEFAULT_MOCK_SCRIPTS.length).toBeGreaterThan(0);
+    expect(DEFAULT_MOCK_SCRIPTS[DEFAULT_MOCK_SCRIPTS.length - 1].agents).toBe(
+      undefined,
+    );
+  });
+});
+
+describe('loadMockScripts', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-scripts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads every script file in a directory and skips invalid ones', () => {
+    fs.writeFileSync(
+      path.join(dir, 'a.yaml'),
+      '- name: one\n  turns: [{ text: One }]\n- name: two\n  turns: [{ text: Two }]\n',
+    );
+    fs.writeFileSync(
+      path.join(dir, 'b.json'),
+      JSON.stringify({ name: 'three', turns: [{ text: 'Three' }] }),
+    );
+    fs.writeFileSync(path.join(dir, 'c.yaml'), 'name: broken\n');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a script');
+
+    expect(loadMockScripts(dir).map(script => script.name)).toEqual([
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  it('returns no scripts for a missing location', () => {
+    expect(loadMockScripts(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
+
+describe('MockProvider', () => {
+  it('picks the first script that fits the agent and message', () => {
+    const fallback = parseMockScript({
+      name: 'fallback',
+      turns: [{ text: 'Hello' }],
+    });
+    const provider = new MockProvider([diceScript, fallback], instant);
+
+    expect(provider.id).toBe('mock');
+    expect(provider.findScript('dnd_master', 'roll it')).toBe(diceScript);
+    expect(provider.findScript('joke', 'roll it')).toBe(fallback);
+    expect(provider.findScript('dnd_master', 'hello')).toBe(fallback);
+  });
+
+  it('streams the text word by word, then the offered tool calls', async () => {
+    const provider = new MockProvider([diceScript], instant);
+
+    const events = await collect(provider, request());
+
+    expect(events.filter(e => e.type === 'text_delta')).toHaveLength(3);
+    expect(textOf(events)).toBe('Rolling for you...');
+    expect(events.filter(e => e.type === 'tool_call')).toEqual([
+      {
+        type: 'tool_call',
+        id: 'mock_0_0',
+        name: 'roll_dice',
+        input: { notation: 'd20', purpose: 'Roll for stealth' },
+      },
+    ]);
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+    expect(done.type === 'done' && done.usage?.input).toBeGreaterThan(0);
+    expect(done.type === 'done' && done.usage?.output).toBeGreaterThan(0);
+  });
+
+  it('makes no tool calls when told not to', async () => {
+    const provider = new MockProvider([diceScript], instant);
+
+    const events = await collect(provider, request({ toolChoice: 'none' }));
+
+    expect(textOf(events)).toBe('Rolling for you...');
+    expect(events.filter(e => e.type === 'tool_call')).toEqual([]);
+  });
+
+  it('answers the tool results with the next turn', async () => {
+    const provider = new MockProvider([diceScript], instant);
+
+    const events = await collect(
+      provider,
+      request({
+        messages: [
+          { role: 'user', content: 'Roll for stealth' },
+          {
+            role: 'assistant',
+            content: 'Rolling for you...',
+            tool_calls: [{ id: 'mock_0_0', name: 'roll_dice', input: {} }],
+          },
+          {
+            role: 'tool',
+            tool_call_id: 'mock_0_0',
+            content: JSON.stringify({ text: 'You rolled a 17.' }),
+          },
+        ],
+      }),
+    );
+
+    expect(textOf(events)).toBe('You rolled a 17.');
+  });
+
+  it('uses the fallback when a placeholder has no value', async () => {
+    const provider = new MockProvider(
+      [
+        parseMockScript({
+          name: 'curated',
+          turns: [{ text: '{{curated|No jokes today.}}' }],
+        }),
+      ],
+      instant,
+    );
+
+    expect(textOf(await collect(provider, request()))).toBe('No jokes today.');
+    expect(
+      textOf(
+        await collect(
+          provider,
+          request({
+            system:
+              'Tell jokes.\n\n- [joke-1] Why did the scarecrow win an award? (answer: He was outstanding in his field)',
+          }),
+        ),
+      ),
+    ).toBe('Why did the scarecrow win an award?');
+  });
+
+  it('says so when no script matches', async () => {
+    const provider = new MockProvider([diceScript], instant);
+
+    expect(
+      textOf(await collect(provider, request({ agentType: 'joke' }))),
+    ).toBe('No mock script matches this message.');
+  });
+
+  it('stops streaming when the caller aborts', async () => {
+    const controller = new AbortController();
+    const provider = new MockProvider([diceScript], {
+      latencyMs: 0,
+      chunkDelayMs: 1000,
+    });
+
+    const events: LLMStreamEvent[] = [];
+    for await (const evt of provider.stream(
+      request({ signal: controller.signal }),
+    )) {
+      events.push(evt);
+      controller.abort();
+    }
+
+    expect(events).toEqual([{ type: 'text_delta', text: 'Rolling ' }]);
+  });
+});
@@ -0,0 +1,79 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } },
+  })),
+}));
+
+import { OpenAIProvider } from '../openaiProvider';
+import { LLMStreamEvent, LLMStreamOptions } from '../provider';
+
+async function* chunks(...items: object[]): AsyncGenerator<object> {
+  yield* items;
+}
+
+async function collect(
+  provider: OpenAIProvider,
+  overrides: Partial<LLMStreamOptions> = {},
+): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const evt of provider.stream({
+    model: 'gpt-4o-mini',
+    system: 'You are helpful.',
+    messages: [{ role: 'user', content: 'Hi' }],
+    ...overrides,
+  })) {
+    events.push(evt);
+  }
+  return events;
+}
+
+describe('OpenAIProvider', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  it('asks for usage and reports it from the final chunk', async () => {
+    mockCreate.mockResolvedValue(
+      chunks(
+        { choices: [{ delta: { content: 'Hello' }, finish_reason: null }] },
+        { choices: [{ delta: {}, finish_reason: 'stop' }] },
+        // With include_usage the last chunk has no choices, only usage
+        { choices: [], usage: { prompt_tokens: 42, completion_tokens: 7 } },
+      ),
+    );
+
+    const events = await collect(new OpenAIProvider('test-key'));
+
+    expect(mockCreate.mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    );
+    expect(events).toEqual([
+      { type: 'text_delta', text: 'Hello' },
+      { type: 'done', usage: { input: 42, output: 7 } },
+    ]);
+  });
+
+  it('passes the tool choice along with the tools', async () => {
+    mockCreate.mockResolvedValue(
+      chunks({ choices: [{ delta: {}, finish_reason: 'stop' }] }),
+    );
+    const tools = [
+      { name: 'roll_dice', description: 'Roll dice', input_schema: {} },
+    ];
+
+    await collect(new OpenAIProvider('test-key'), { tools });
+    await collect(new OpenAIProvider('test-key'), {
+      tools,
+      toolChoice: 'none',
+    });
+
+    expect(mockCreate.mock.calls[0][0].tool_choice).toBe('auto');
+    expect(mockCreate.mock.calls[1][0].tool_choice).toBe('none');
+  });
+});
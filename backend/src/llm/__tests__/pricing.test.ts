@@ -0,0 +1,71 @@
+import { costOf, priceFor } from '../pricing';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('pricing', () => {
+  it('matches the most specific model prefix', () => {
+    expect(priceFor('openai', 'gpt-4o-mini-2024-07-18')?.input).toBe(0.15);
+    expect(priceFor('openai', 'gpt-4o-2024-08-06')?.input).toBe(2.5);
+    expect(priceFor('anthropic', 'claude-sonnet-4-6')?.output).toBe(15);
+  });
+
+  it('charges per million tokens, cache reads at their own price', () => {
+    expect(
+      costOf('anthropic', 'claude-sonnet-4-6', {
+        input: 1_000_000,
+        output: 100_000,
+        cacheRead: 1_000_000,
+      }),
+    ).toBeCloseTo(3 + 1.5 + 0.3);
+    // No cache price: cache reads cost the same as input
+    expect(
+      costOf('openai', 'gpt-3.5-turbo', {
+        input: 0,
+        output: 0,
+        cacheRead: 1_000_000,
+      }),
+    ).toBeCloseTo(0.5);
+  });
+
+  it('charges nothing for local, mock or unknown models', () => {
+    const usage = { input: 1000, output: 1000 };
+    expect(costOf('local', 'gpt-4o', usage)).toBe(0);
+    expect(costOf('mock', 'gpt-4o', usage)).toBe(0);
+    expect(costOf('foundry', 'my-deployment', usage)).toBe(0);
+  });
+
+  describe('LLM_PRICES', () => {
+    const withPrices = (raw: string): typeof import('../pricing') => {
+      process.env.LLM_PRICES = raw;
+      let pricing!: typeof import('../pricing');
+      jest.isolateModules(() => {
+        pricing = require('../pricing');
+      });
+      return pricing;
+    };
+
+    afterEach(() => {
+      delete process.env.LLM_PRICES;
+    });
+
+    it('adds and overrides entries', () => {
+      const pricing = withPrices(
+        '{"gpt-4o-mini":{"input":1,"output":2},"my-deployment":{"input":3,"output":4}}',
+      );
+
+      expect(pricing.priceFor('openai', 'gpt-4o-mini')).toEqual({
+        input: 1,
+        output: 2,
+      });
+      expect(pricing.priceFor('foundry', 'my-deployment')?.output).toBe(4);
+    });
+
+    it('ignores an invalid setting', () => {
+      const pricing = withPrices('{"gpt-4o-mini":{"input":"free"}}');
+
+      expect(pricing.priceFor('openai', 'gpt-4o-mini')?.input).toBe(0.15);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import type { LLMStreamOptions } from '../provider';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// Stand-ins that record the model each request asked for.
+const mockRequests: Array<{ provider: string; model: string }> = [];
+const fakeProvider = (id: string) =>
+  jest.fn().mockImplementation(() => ({
+    id,
+    async *stream(opts: LLMStreamOptions) {
+      mockRequests.push({ provider: id, model: opts.model });
+      if (opts.model === 'unauthorized') {
+        throw Object.assign(new Error('bad key'), { status: 401 });
+      }
+      yield { type: 'done' };
+    },
+  }));
+jest.mock('../anthropicProvider', () => ({
+  AnthropicProvider: fakeProvider('anthropic'),
+}));
+jest.mock('../foundryProvider', () => ({
+  FoundryProvider: fakeProvider('foundry'),
+}));
+
+const ENV_KEYS = [
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'AZURE_FOUNDRY_API_KEY',
+  'AZURE_FOUNDRY_ENDPOINT',
+  'AZURE_FOUNDRY_PROJECT_ENDPOINT',
+  'LOCAL_LLM_BASE_URL',
+  'LLM_MOCK',
+];
+
+describe('providerRegistry.resolve', () => {
+  const saved = Object.fromEntries(
+    ENV_KEYS.map(key => [key, process.env[key]]),
+  );
+
+  const registryWith = (env: Record<string, string>) => {
+    ENV_KEYS.forEach(key => delete process.env[key]);
+    Object.assign(process.env, env);
+    let registry!: typeof import('..').providerRegistry;
+    jest.isolateModules(() => {
+      registry = require('..').providerRegistry;
+    });
+    return registry;
+  };
+
+  const ask = async (
+    resolved: ReturnType<typeof import('..').providerRegistry.resolve>,
+    model: string,
+  ): Promise<void> => {
+    for await (const evt of resolved.provider.stream({
+      model: resolved.model ?? model,
+      system: '',
+      messages: [],
+    })) {
+      if (evt.type === 'error') {
+        throw new Error(evt.error);
+      }
+    }
+  };
+
+  beforeEach(() => {
+    mockRequests.length = 0;
+  });
+
+  afterAll(() => {
+    ENV_KEYS.forEach(key => delete process.env[key]);
+    Object.assign(
+      process.env,
+      Object.fromEntries(Object.entries(saved).filter(([, v]) => v)),
+    );
+  });
+
+  it("gives a missing provider's fallback its own model", async () => {
+    const registry = registryWith({
+      AZURE_FOUNDRY_PROJECT_ENDPOINT: 'https://foundry.example',
+    });
+
+    const resolved = registry.resolve('anthropic', 'foundry');
+    await ask(resolved, 'claude-sonnet-4-6');
+
+    expect(resolved.model).toBe('gpt-4o-mini');
+    expect(mockRequests).toEqual([
+      { provider: 'foundry', model: 'gpt-4o-mini' },
+    ]);
+  });
+
+  it('keeps the agent model for the preferred provider', async () => {
+    const registry = registryWith({
+      ANTHROPIC_API_KEY: 'test-key',
+      AZURE_FOUNDRY_PROJECT_ENDPOINT: 'https://foundry.example',
+    });
+
+    const resolved = registry.resolve('foundry', 'anthropic');
+    await ask(resolved, 'my-deployment');
+
+    expect(resolved.model).toBeUndefined();
+    expect(mockRequests).toEqual([
+      { provider: 'foundry', model: 'my-deployment' },
+    ]);
+  });
+
+  it('fails over to the fallback with its own model', async () => {
+    const registry = registryWith({
+      ANTHROPIC_API_KEY: 'test-key',
+      AZURE_FOUNDRY_PROJECT_ENDPOINT: 'https://foundry.example',
+    });
+
+    await ask(registry.resolve('foundry', 'anthropic'), 'unauthorized');
+
+    expect(mockRequests).toEqual([
+      { provider: 'foundry', model: 'unauthorized' },
+      { provider: 'anthropic', model: 'claude-haiku-4-5' },
+    ]);
+  });
+});
@@ -10,6 +10,7 @@ describe('routeLLMForTier', () => {
   afterEach(() => {
     delete process.env.LLM_TIERED;
     delete process.env.LLM_FREE_MODEL;
+    delete process.env.LLM_FREE_PROVIDER;
   });
 
   it('is a no-op when LLM_TIERED is unset', () => {
@@ -42,6 +43,15 @@ describe('routeLLMForTier', () => {
     expect(result.model).toBe('gpt-4o-mini-free');
   });
 
+  it('routes anonymous callers to LLM_FREE_PROVIDER when it is set', () => {
+    process.env.LLM_TIERED = 'true';
+    process.env.LLM_FREE_PROVIDER = 'local';
+    expect(routeLLMForTier(baseConfig, 'anonymous').provider).toBe('local');
+
+    process.env.LLM_FREE_PROVIDER = 'cohere';
+    expect(routeLLMForTier(baseConfig, 'anonymous').provider).toBe('foundry');
+  });
+
   it('is a no-op when tier is undefined', () => {
     process.env.LLM_TIERED = 'true';
     const result = routeLLMForTier(baseConfig, undefined);
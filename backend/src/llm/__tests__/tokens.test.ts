@@ -0,0 +1,54 @@
+import {
+  countMessageTokens,
+  countTokens,
+  DEFAULT_CONTEXT_WINDOW,
+  getContextWindow,
+} from '../tokens';
+
+describe('tokens', () => {
+  describe('countTokens', () => {
+    it('should return 0 for empty text', () => {
+      expect(countTokens('')).toBe(0);
+    });
+
+    it('should estimate Claude models more densely than OpenAI ones', () => {
+      const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+
+      const openai = countTokens(text, 'openai', 'gpt-4o-mini');
+      const claude = countTokens(text, 'anthropic', 'claude-sonnet-4-6');
+      const claudeViaFoundry = countTokens(text, 'foundry', 'claude-haiku');
+
+      expect(openai).toBe(Math.ceil(text.length / 3.8));
+      expect(claude).toBeGreaterThan(openai);
+      expect(claudeViaFoundry).toBe(claude);
+    });
+  });
+
+  describe('countMessageTokens', () => {
+    it('should add per-message framing and tool calls', () => {
+      const plain = countMessageTokens({ content: 'hello' }, 'openai');
+      const withTools = countMessageTokens(
+        {
+          content: 'hello',
+          tool_calls: [{ id: 't1', name: 'roll_dice', input: { sides: 20 } }],
+        },
+        'openai',
+      );
+
+      expect(plain).toBe(4 + countTokens('hello'));
+      expect(withTools).toBeGreaterThan(plain);
+    });
+  });
+
+  describe('getContextWindow', () => {
+    it.each([
+      ['gpt-3.5-turbo', 16_385],
+      ['gpt-4o-mini', 128_000],
+      ['gpt-4', 8_192],
+      ['claude-sonnet-4-6', 200_000],
+      ['my-custom-deployment', DEFAULT_CONTEXT_WINDOW],
+    ])('should know the window for %s', (model, tokens) => {
+      expect(getContextWindow(model)).toBe(tokens);
+    });
+  });
+});
@@ -1,4 +1,6 @@
+import type Anthropic from '@anthropic-ai/sdk';
 import {
+  LLMMessage,
   LLMProvider,
   LLMStreamOptions,
   LLMStreamEvent,
@@ -41,6 +43,57 @@ interface AnthropicStreamEvent {
   };
 }
 
+/**
+ * Anthropic has no `tool` role: tool calls are `tool_use` blocks on the
+ * assistant turn and results are `tool_result` blocks on the following
+ * user turn. Consecutive tool results are merged into one user message.
+ */
+export function toAnthropicMessages(
+  messages: LLMMessage[],
+): Anthropic.MessageParam[] {
+  const out: Anthropic.MessageParam[] = [];
+  for (const m of messages) {
+    if (m.role === 'system') {
+      continue;
+    }
+    if (m.role === 'tool') {
+      const block = {
+        type: 'tool_result' as const,
+        tool_use_id: m.tool_call_id ?? '',
+        content: m.content,
+      };
+      const prev = out[out.length - 1];
+      if (
+        prev?.role === 'user' &&
+        Array.isArray(prev.content) &&
+        prev.content.every(b => b.type === 'tool_result')
+      ) {
+        prev.content.push(block);
+      } else {
+        out.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      out.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+          ...m.tool_calls.map(tc => ({
+            type: 'tool_use' as const,
+            id: tc.id,
+            name: tc.name,
+            input: tc.input ?? {},
+          })),
+        ],
+      });
+      continue;
+    }
+    out.push({ role: m.role, content: m.content });
+  }
+  return out;
+}
+
 export class AnthropicProvider implements LLMProvider {
   readonly id = 'anthropic' as const;
   private apiKey: string;
@@ -80,25 +133,34 @@ export class AnthropicProvider implements LLMProvider {
         ]
       : opts.system;
 
-    const messages = opts.messages.map(m => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content,
-    }));
+    const messages = toAnthropicMessages(opts.messages);
 
-    const stream = await client.messages.create({
-      model: opts.model,
-      max_tokens: opts.maxTokens ?? 1024,
-      temperature: opts.temperature,
-      system: systemContent as string,
-      messages,
-      ...(opts.tools &&
-        opts.tools.length > 0 && {
-          // Cast needed because Anthropic SDK InputSchema requires 'type' but
-          // we add it dynamically in toAnthropicTools.
-          tools: this.toAnthropicTools(opts.tools) as any,
+    const stream = await client.messages.create(
+      {
+        model: opts.model,
+        max_tokens: opts.maxTokens ?? 1024,
+        temperature: opts.temperature,
+        system: systemContent as string,
+        messages,
+        ...(opts.tools &&
+          opts.tools.length > 0 && {
+            // Cast needed because Anthropic SDK InputSchema requires 'type' but
+            // we add it dynamically in toAnthropicTools.
+            tools: this.toAnthropicTools(opts.tools) as any,
+            tool_choice: { type: opts.toolChoice ?? 'auto' },
+          }),
+        ...(opts.responseFormat && {
+          output_config: {
+            format: {
+              type: 'json_schema' as const,
+              schema: opts.responseFormat.schema,
+            },
+          },
         }),
-      stream: true,
-    });
+        stream: true,
+      },
+      { signal: opts.signal },
+    );
 
     // Accumulate tool input JSON per block index
     const toolAccumulators: Map<
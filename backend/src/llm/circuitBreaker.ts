@@ -0,0 +1,190 @@
+/**
+ * Per-provider circuit breaker.
+ *
+ * A closed breaker lets every call through and keeps the outcome of the
+ * calls made in the last `windowMs`. Once at least `minimumCalls` are in
+ * the window, it opens when too many of them failed or were slow (their
+ * first event took `slowCallMs` or longer). An open breaker refuses calls
+ * for `openMs`, then turns half-open and lets one probe through at a time:
+ * `halfOpenProbes` quick successes in a row close it again, while a
+ * failure or a slow probe opens it for another `openMs`.
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Share of failed calls in the window that opens the breaker. */
+  errorRateThreshold: number;
+  /** Share of slow calls in the window that opens the breaker. */
+  slowCallRateThreshold: number;
+  slowCallMs: number;
+  /** Calls needed in the window before either rate is judged. */
+  minimumCalls: number;
+  windowMs: number;
+  openMs: number;
+  halfOpenProbes: number;
+  now: () => number;
+}
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  /** Calls in the current window (always 0 unless closed). */
+  calls: number;
+  errorRate: number;
+  slowCallRate: number;
+  /** ISO time the breaker opened, while open or half-open. */
+  openedAt?: string;
+  /** ISO time the next probe is allowed, while open. */
+  retryAt?: string;
+}
+
+export const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  errorRateThreshold: 0.5,
+  slowCallRateThreshold: 0.8,
+  slowCallMs: 15_000,
+  minimumCalls: 5,
+  windowMs: 60_000,
+  openMs: 30_000,
+  halfOpenProbes: 1,
+  now: Date.now,
+};
+
+interface CallOutcome {
+  at: number;
+  failed: boolean;
+  slow: boolean;
+}
+
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private state: BreakerState = 'closed';
+  private calls: CallOutcome[] = [];
+  private openedAt = 0;
+  private probeInFlight = false;
+  private probeSuccesses = 0;
+
+  constructor(
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly onStateChange?: (state: BreakerState) => void,
+  ) {
+    this.options = { ...DEFAULT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): BreakerState {
+    if (
+      this.state === 'open' &&
+      this.options.now() - this.openedAt >= this.options.openMs
+    ) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go ahead now. A half-open breaker admits a single
+   * probe; every admitted call must end in `recordSuccess`,
+   * `recordFailure` or `release`.
+   */
+  tryAcquire(): boolean {
+    switch (this.getState()) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.probeInFlight) {
+          return false;
+        }
+        this.probeInFlight = true;
+        return true;
+    }
+  }
+
+  /** @param latencyMs Time until the provider's first event. */
+  recordSuccess(latencyMs: number): void {
+    const slow = latencyMs >= this.options.slowCallMs;
+    if (this.state === 'half_open') {
+      this.probeInFlight = false;
+      if (slow) {
+        this.trip();
+      } else if (++this.probeSuccesses >= this.options.halfOpenProbes) {
+        this.transition('closed');
+      }
+      return;
+    }
+    this.record({ at: this.options.now(), failed: false, slow });
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half_open') {
+      this.probeInFlight = false;
+      this.trip();
+      return;
+    }
+    this.record({ at: this.options.now(), failed: true, slow: false });
+  }
+
+  /** Give back an admitted call that ended without a verdict (e.g. aborted). */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  snapshot(): BreakerSnapshot {
+    const state = this.getState();
+    this.prune();
+    const calls = this.calls.length;
+    const rate = (count: number): number =>
+      calls === 0 ? 0 : Math.round((count / calls) * 1000) / 1000;
+    return {
+      state,
+      calls,
+      errorRate: rate(this.calls.filter(c => c.failed).length),
+      slowCallRate: rate(this.calls.filter(c => c.slow).length),
+      ...(state !== 'closed' && {
+        openedAt: new Date(this.openedAt).toISOString(),
+      }),
+      ...(state === 'open' && {
+        retryAt: new Date(this.openedAt + this.options.openMs).toISOString(),
+      }),
+    };
+  }
+
+  private record(outcome: CallOutcome): void {
+    this.calls.push(outcome);
+    this.prune();
+    const calls = this.calls.length;
+    if (calls < this.options.minimumCalls) {
+      return;
+    }
+    const failed = this.calls.filter(c => c.failed).length;
+    const slow = this.calls.filter(c => c.slow).length;
+    if (
+      failed / calls >= this.options.errorRateThreshold ||
+      slow / calls >= this.options.slowCallRateThreshold
+    ) {
+      this.trip();
+    }
+  }
+
+  private prune(): void {
+    const since = this.options.now() - this.options.windowMs;
+    while (this.calls.length > 0 && this.calls[0].at <= since) {
+      this.calls.shift();
+    }
+  }
+
+  private trip(): void {
+    this.openedAt = this.options.now();
+    this.transition('open');
+  }
+
+  private transition(state: BreakerState): void {
+    this.calls = [];
+    this.probeInFlight = false;
+    this.probeSuccesses = 0;
+    if (state !== this.state) {
+      this.state = state;
+      this.onStateChange?.(state);
+    }
+  }
+}
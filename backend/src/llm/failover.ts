@@ -0,0 +1,281 @@
+import { LLMProvider, LLMStreamEvent, LLMStreamOptions } from './provider';
+import { CircuitBreaker } from './circuitBreaker';
+import { metricsEmit } from '../metrics/prometheus';
+import { logger } from '../logger';
+
+/**
+ * Retries and failover across providers.
+ *
+ * `FailoverProvider` asks its candidates in order: the agent's provider,
+ * then its `fallbackProvider`. Each candidate has a circuit breaker; one
+ * whose breaker is open is skipped. An attempt that fails with a 429, a
+ * 5xx, a network error or a timeout is retried on the same provider with
+ * jittered backoff; once the retries are used up, or the error says the
+ * provider itself is unusable (e.g. a 401), the next candidate takes over.
+ * A request the provider rejected as invalid (e.g. a 400) is not retried:
+ * another provider would reject it too.
+ *
+ * Text already streamed to the caller stays sent. The next attempt gets
+ * it back as the start of the assistant's reply and is told to carry on
+ * from there, so the caller's stream continues where it stopped instead
+ * of starting over. A failure after a tool call was handed out is not
+ * retried, since the caller may already be running the tool.
+ */
+
+export interface FailoverCandidate {
+  provider: LLMProvider;
+  breaker: CircuitBreaker;
+  /** The model to ask this provider for; the caller's model when unset. */
+  model?: string;
+}
+
+export interface RetryOptions {
+  /** Further attempts on the same provider after a retryable error. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** An attempt that sends nothing for this long has timed out. */
+  idleTimeoutMs: number;
+  now: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 2_000,
+  idleTimeoutMs: 30_000,
+  now: Date.now,
+};
+
+const CONTINUE_INSTRUCTION =
+  'Your reply was cut off. The last assistant message is the part the user has already seen: continue it from exactly where it stops, without repeating any of it or mentioning the interruption.';
+
+/** Status codes that say the request was fine but the provider was not. */
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+/** Client errors that are the provider's problem rather than the request's. */
+const PROVIDER_FAULT_STATUSES = new Set([401, 403, 408, 409, 429]);
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/** Network errors, timeouts and stream errors carry no status. */
+export function isRetryableError(error: unknown): boolean {
+  const status = statusOf(error);
+  return (
+    status === undefined || status >= 500 || RETRYABLE_STATUSES.has(status)
+  );
+}
+
+/** Whether the error counts against the provider's circuit breaker. */
+export function isProviderFault(error: unknown): boolean {
+  const status = statusOf(error);
+  return (
+    status === undefined || status >= 500 || PROVIDER_FAULT_STATUSES.has(status)
+  );
+}
+
+/** "Full jitter": a random delay up to the capped exponential backoff. */
+export function backoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+async function nextWithin<T>(
+  iterator: AsyncIterator<T>,
+  ms: number,
+  providerId: string,
+): Promise<IteratorResult<T>> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${providerId} sent nothing for ${ms}ms`)),
+      ms,
+    );
+  });
+  try {
+    return await Promise.race([iterator.next(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The request to send after `sent` has already reached the caller. */
+function continuation(opts: LLMStreamOptions, sent: string): LLMStreamOptions {
+  // Anthropic rejects an assistant prefill that ends in whitespace.
+  const prefill = sent.trimEnd();
+  if (!prefill) {
+    return opts;
+  }
+  return {
+    ...opts,
+    system: `${opts.system}\n\n${CONTINUE_INSTRUCTION}`,
+    messages: [...opts.messages, { role: 'assistant', content: prefill }],
+  };
+}
+
+export class FailoverProvider implements LLMProvider {
+  readonly id: LLMProvider['id'];
+  private readonly options: RetryOptions;
+
+  constructor(
+    private readonly candidates: FailoverCandidate[],
+    options: Partial<RetryOptions> = {},
+  ) {
+    if (candidates.length === 0) {
+      throw new Error('FailoverProvider needs at least one provider');
+    }
+    this.id = candidates[0].provider.id;
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  async *stream(opts: LLMStreamOptions): AsyncIterable<LLMStreamEvent> {
+    const { now } = this.options;
+    let sent = '';
+    let sentToolCall = false;
+    let lastError: unknown;
+    let lastProvider: LLMProvider | undefined;
+
+    for (const { provider, breaker, model } of this.candidates) {
+      for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+        if (!breaker.tryAcquire()) {
+          lastError ??= new Error(`${provider.id} circuit breaker is open`);
+          break;
+        }
+        if (lastProvider && lastProvider !== provider) {
+          logger.warn(
+            {
+              from: lastProvider.id,
+              to: provider.id,
+              error: String(lastError),
+              sentChars: sent.length,
+            },
+            '[llm] failing over to the fallback provider',
+          );
+          metricsEmit.llm.failover(lastProvider.id, provider.id);
+        }
+        lastProvider = provider;
+
+        const controller = new AbortController();
+        const onAbort = (): void => controller.abort();
+        opts.signal?.addEventListener('abort', onAbort, { once: true });
+        const iterator = provider
+          .stream({
+            ...continuation(opts, sent),
+            model: model ?? opts.model,
+            signal: controller.signal,
+          })
+          [Symbol.asyncIterator]();
+        const startedAt = now();
+        let firstEventAt: number | undefined;
+        // The prefill lost its trailing whitespace; don't let it double up.
+        let trimStart = /\s$/.test(sent);
+        let verdict: 'success' | 'failure' | undefined;
+        let error: unknown;
+
+        try {
+          for (;;) {
+            const next = await nextWithin(
+              iterator,
+              this.options.idleTimeoutMs,
+              provider.id,
+            );
+            if (next.done) {
+              break;
+            }
+            const evt = next.value;
+            firstEventAt ??= now();
+            if (evt.type === 'error') {
+              throw new Error(evt.error);
+            }
+            if (evt.type === 'text_delta') {
+              const text = trimStart ? evt.text.trimStart() : evt.text;
+              if (!text) {
+                continue;
+              }
+              trimStart = false;
+              sent += text;
+              yield { type: 'text_delta', text };
+            } else if (evt.type === 'done') {
+              yield {
+                ...evt,
+                provider: evt.provider ?? provider.id,
+                model: evt.model ?? model ?? opts.model,
+              };
+            } else {
+              if (evt.type === 'tool_call') {
+                sentToolCall = true;
+              }
+              yield evt;
+            }
+          }
+          verdict = 'success';
+        } catch (caught) {
+          error = caught;
+          if (isProviderFault(caught)) {
+            verdict = 'failure';
+          }
+        } finally {
+          opts.signal?.removeEventListener('abort', onAbort);
+          if (verdict !== 'success') {
+            controller.abort();
+            Promise.resolve(iterator.return?.()).catch(() => undefined);
+          }
+          if (opts.signal?.aborted) {
+            breaker.release();
+          } else if (verdict === 'success') {
+            breaker.recordSuccess((firstEventAt ?? now()) - startedAt);
+          } else if (verdict === 'failure') {
+            breaker.recordFailure();
+          } else {
+            breaker.release();
+          }
+        }
+
+        if (verdict === 'success' || opts.signal?.aborted) {
+          return;
+        }
+        lastError = error;
+        if (!isProviderFault(error) || sentToolCall) {
+          throw error;
+        }
+        if (!isRetryableError(error) || attempt === this.options.retries) {
+          break;
+        }
+        logger.warn(
+          { provider: provider.id, attempt: attempt + 1, error: String(error) },
+          '[llm] retrying provider request',
+        );
+        metricsEmit.llm.retry(provider.id);
+        await sleep(backoffDelay(attempt, this.options), opts.signal);
+        if (opts.signal?.aborted) {
+          return;
+        }
+      }
+    }
+
+    throw lastError ?? new Error('No LLM provider is available');
+  }
+}
@@ -2,15 +2,69 @@ import { LLMProvider } from './provider';
 import { OpenAIProvider } from './openaiProvider';
 import { AnthropicProvider } from './anthropicProvider';
 import { FoundryProvider } from './foundryProvider';
-import { LLMProviderId } from '../agents/types';
+import { LocalProvider, LocalToolSupport } from './localProvider';
+import { MockProvider, loadMockScripts } from './mockProvider';
+import { DEFAULT_MOCK_SCRIPTS } from './mockScripts';
+import {
+  BreakerSnapshot,
+  CircuitBreaker,
+  CircuitBreakerOptions,
+} from './circuitBreaker';
+import { FailoverCandidate, FailoverProvider, RetryOptions } from './failover';
+import { LLM_PROVIDER_IDS, LLMProviderId } from '../agents/types';
+import { metricsEmit } from '../metrics/prometheus';
 import { logger } from '../logger';
 
-const FALLBACK_OPENAI_MODEL = 'gpt-4o-mini';
+/**
+ * The model each provider answers with when it stands in for another
+ * provider's agent, whose own model name it would not know.
+ */
+const FALLBACK_MODELS: Record<LLMProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-haiku-4-5',
+  foundry: 'gpt-4o-mini',
+  // The local provider maps a model it doesn't serve to LOCAL_LLM_MODEL
+  local: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+export interface ProviderHealth {
+  configured: boolean;
+  /** Models a local server offers, as last discovered. */
+  models?: string[];
+  circuitBreaker?: BreakerSnapshot;
+}
+
+/** A number from the environment, or undefined to keep the default. */
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
 
 class ProviderRegistry {
   private openai: OpenAIProvider | null = null;
   private anthropic: AnthropicProvider | null = null;
   private foundry: FoundryProvider | null = null;
+  private local: LocalProvider | null = null;
+  private mock: MockProvider | null = null;
+  private readonly breakers = new Map<LLMProviderId, CircuitBreaker>();
+  private readonly retryOptions: Partial<RetryOptions> = withoutUndefined({
+    retries: envNumber('LLM_RETRIES'),
+    idleTimeoutMs: envNumber('LLM_STREAM_TIMEOUT_MS'),
+  });
+  private readonly breakerOptions: Partial<CircuitBreakerOptions> =
+    withoutUndefined({
+      errorRateThreshold: envNumber('LLM_BREAKER_ERROR_RATE'),
+      slowCallMs: envNumber('LLM_BREAKER_SLOW_CALL_MS'),
+      openMs: envNumber('LLM_BREAKER_OPEN_MS'),
+    });
 
   constructor() {
     if (process.env.OPENAI_API_KEY) {
@@ -37,30 +91,139 @@ class ProviderRegistry {
         process.env.AZURE_FOUNDRY_PROJECT_ENDPOINT,
       );
     }
+    if (process.env.LOCAL_LLM_BASE_URL) {
+      const tools = process.env.LOCAL_LLM_TOOLS?.toLowerCase();
+      this.local = new LocalProvider({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        defaultModel: process.env.LOCAL_LLM_MODEL,
+        tools:
+          tools === 'true' || tools === 'false'
+            ? (tools as LocalToolSupport)
+            : 'auto',
+      });
+      // Discover the served models up front so /health can show them.
+      void this.local.listModels();
+    }
   }
 
+  /**
+   * The provider to call for an agent. The result retries and fails over
+   * to `fallback` (default OpenAI) on its own; see failover.ts. The
+   * fallback answers with its FALLBACK_MODELS entry; when the preferred
+   * provider isn't configured at all, that model is returned as `model`.
+   * With neither configured, or with LLM_MOCK=true, the scripted mock
+   * provider answers (demo mode).
+   */
   resolve(
     providerId: LLMProviderId | undefined,
     fallback?: LLMProviderId,
   ): { provider: LLMProvider; model?: string } {
-    const preferred = this.get(providerId);
+    if (process.env.LLM_MOCK === 'true') {
+      return {
+        provider: new FailoverProvider(
+          [this.candidate('mock')!],
+          this.retryOptions,
+        ),
+      };
+    }
+    const fallbackId = fallback ?? 'openai';
+    const fallbackModel = FALLBACK_MODELS[fallbackId];
+    // The agent's model belongs to its own provider; the fallback gets
+    // its own fallback model instead.
+    const fallbackCandidate =
+      fallbackId !== providerId
+        ? this.candidate(fallbackId, fallbackModel)
+        : null;
+    const preferred = providerId ? this.candidate(providerId) : null;
     if (preferred) {
-      return { provider: preferred };
+      return {
+        provider: new FailoverProvider(
+          fallbackCandidate ? [preferred, fallbackCandidate] : [preferred],
+          this.retryOptions,
+        ),
+      };
     }
 
-    const fallbackProvider = this.get(fallback ?? 'openai');
-    if (fallbackProvider) {
+    if (fallbackCandidate) {
       logger.info(
-        `[llm] fallback: ${providerId} → ${fallback ?? 'openai'} (model=${FALLBACK_OPENAI_MODEL})`,
+        `[llm] fallback: ${providerId} → ${fallbackId} (model=${fallbackModel})`,
       );
-      return { provider: fallbackProvider, model: FALLBACK_OPENAI_MODEL };
+      return {
+        provider: new FailoverProvider([fallbackCandidate], this.retryOptions),
+        model: fallbackModel,
+      };
     }
 
-    // Last resort: always return openai even if no key (will fail at call time)
     logger.warn(
-      '[llm] no configured providers; will attempt OpenAI without key',
+      `[llm] neither ${providerId} nor ${fallbackId} is configured; answering from the mock provider (demo mode)`,
+    );
+    return {
+      provider: new FailoverProvider(
+        [this.candidate('mock')!],
+        this.retryOptions,
+      ),
+    };
+  }
+
+  /** Whether `id` can be called; the mock provider always can. */
+  isConfigured(id: LLMProviderId): boolean {
+    return !!this.get(id);
+  }
+
+  /** Every provider, whether it is configured and its breaker's state. */
+  health(): Record<LLMProviderId, ProviderHealth> {
+    return Object.fromEntries(
+      LLM_PROVIDER_IDS.map(id => {
+        const breaker = this.get(id) ? this.breakerFor(id) : undefined;
+        return [
+          id,
+          {
+            configured: !!breaker,
+            ...(id === 'local' &&
+              this.local && { models: this.local.knownModels() }),
+            ...(breaker && { circuitBreaker: breaker.snapshot() }),
+          },
+        ];
+      }),
+    ) as Record<LLMProviderId, ProviderHealth>;
+  }
+
+  private candidate(
+    id: LLMProviderId,
+    model?: string,
+  ): FailoverCandidate | null {
+    const provider = this.get(id);
+    return provider
+      ? { provider, breaker: this.breakerFor(id), ...(model && { model }) }
+      : null;
+  }
+
+  private breakerFor(id: LLMProviderId): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerOptions, state => {
+        logger.warn({ provider: id, state }, '[llm] circuit breaker changed');
+        metricsEmit.llm.circuitState(id, state);
+      });
+      this.breakers.set(id, breaker);
+      metricsEmit.llm.circuitState(id, 'closed');
+    }
+    return breaker;
+  }
+
+  /** Created on first use, so the scripts are read once `.env` is loaded. */
+  private createMock(): MockProvider {
+    const scripts = process.env.LLM_MOCK_SCRIPTS
+      ? loadMockScripts(process.env.LLM_MOCK_SCRIPTS)
+      : [];
+    return new MockProvider(
+      [...scripts, ...DEFAULT_MOCK_SCRIPTS],
+      withoutUndefined({
+        latencyMs: envNumber('LLM_MOCK_LATENCY_MS'),
+        chunkDelayMs: envNumber('LLM_MOCK_CHUNK_DELAY_MS'),
+      }),
     );
-    return { provider: new OpenAIProvider(''), model: FALLBACK_OPENAI_MODEL };
   }
 
   private get(id: LLMProviderId | undefined): LLMProvider | null {
@@ -71,6 +234,11 @@ class ProviderRegistry {
         return this.anthropic;
       case 'foundry':
         return this.foundry;
+      case 'local':
+        return this.local;
+      case 'mock':
+        this.mock ??= this.createMock();
+        return this.mock;
       default:
         return null;
     }
@@ -0,0 +1,158 @@
+import { LLMProvider, LLMStreamOptions, LLMStreamEvent } from './provider';
+import { OpenAIProvider } from './openaiProvider';
+import { logger } from '../logger';
+
+/**
+ * A self-hosted, OpenAI-compatible server: Ollama, llama.cpp's
+ * `llama-server`, vLLM, LM Studio and the like.
+ *
+ *   LOCAL_LLM_BASE_URL  e.g. http://localhost:11434/v1 (unset = off)
+ *   LOCAL_LLM_API_KEY   only if the server checks one
+ *   LOCAL_LLM_MODEL     model to use when the requested one isn't served
+ *   LOCAL_LLM_TOOLS     auto (default), true or false
+ *
+ * The served models are discovered from `GET /models`. A request for a
+ * model the server doesn't have (say, an agent's `gpt-4o-mini` when local
+ * is its fallback) goes to LOCAL_LLM_MODEL, or else the first served one.
+ *
+ * Not every server or model can call tools. With LOCAL_LLM_TOOLS=auto,
+ * tools are offered; if the server rejects the request for it, the model
+ * is remembered as tool-less and the request is sent again without them.
+ */
+
+export type LocalToolSupport = 'auto' | 'true' | 'false';
+
+export interface LocalProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  defaultModel?: string;
+  tools?: LocalToolSupport;
+  now?: () => number;
+}
+
+type ModelSource = Pick<OpenAIProvider, 'stream' | 'listModels'>;
+
+/** How long a model list is trusted before asking the server again. */
+const MODELS_TTL_MS = 60_000;
+/** The OpenAI SDK refuses to send a request without some key. */
+const NO_API_KEY = 'local';
+
+/** A 400-style rejection, or any error that mentions tools. */
+function rejectedTools(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return (
+    status === 400 ||
+    status === 422 ||
+    /tool/i.test(error instanceof Error ? error.message : String(error))
+  );
+}
+
+export class LocalProvider implements LLMProvider {
+  readonly id = 'local' as const;
+  private readonly server: ModelSource;
+  private readonly defaultModel?: string;
+  private readonly tools: LocalToolSupport;
+  private readonly now: () => number;
+  private models: string[] = [];
+  private modelsFetchedAt?: number;
+  private modelsRequest?: Promise<string[]>;
+  private readonly toolless = new Set<string>();
+
+  constructor(options: LocalProviderOptions, server?: ModelSource) {
+    this.server =
+      server ??
+      new OpenAIProvider(options.apiKey || NO_API_KEY, options.baseURL);
+    this.defaultModel = options.defaultModel;
+    this.tools = options.tools ?? 'auto';
+    this.now = options.now ?? Date.now;
+  }
+
+  /** The models discovered so far, without asking the server. */
+  knownModels(): string[] {
+    return [...this.models];
+  }
+
+  /**
+   * The served model ids, refreshed at most once a minute. When the server
+   * can't be reached, the last list (possibly empty) is kept.
+   */
+  async listModels(): Promise<string[]> {
+    if (
+      this.modelsFetchedAt !== undefined &&
+      this.now() - this.modelsFetchedAt < MODELS_TTL_MS
+    ) {
+      return this.models;
+    }
+    this.modelsRequest ??= this.server
+      .listModels()
+      .then(models => {
+        this.models = models;
+        logger.info({ models }, '[local] discovered served models');
+        return models;
+      })
+      .catch(error => {
+        logger.warn(
+          { error: String(error) },
+          '[local] could not list the served models',
+        );
+        return this.models;
+      })
+      .finally(() => {
+        this.modelsFetchedAt = this.now();
+        this.modelsRequest = undefined;
+      });
+    return this.modelsRequest;
+  }
+
+  /** The served model to use for a request for `requested`. */
+  async resolveModel(requested: string): Promise<string> {
+    const served = await this.listModels();
+    if (served.length === 0) {
+      return requested;
+    }
+    // Ollama lists `llama3.1:latest` for a model pulled as `llama3.1`.
+    const match = served.find(
+      id => id === requested || id === `${requested}:latest`,
+    );
+    if (match) {
+      return match;
+    }
+    return this.defaultModel && served.includes(this.defaultModel)
+      ? this.defaultModel
+      : served[0];
+  }
+
+  async *stream(opts: LLMStreamOptions): AsyncIterable<LLMStreamEvent> {
+    const model = await this.resolveModel(opts.model);
+    const offerTools =
+      !!opts.tools?.length &&
+      this.tools !== 'false' &&
+      !this.toolless.has(model);
+    let yielded = false;
+    try {
+      for await (const evt of this.server.stream({
+        ...opts,
+        model,
+        tools: offerTools ? opts.tools : undefined,
+      })) {
+        yielded = true;
+        yield evt;
+      }
+    } catch (error) {
+      if (
+        !offerTools ||
+        yielded ||
+        this.tools !== 'auto' ||
+        !rejectedTools(error)
+      ) {
+        throw error;
+      }
+      logger.warn(
+        { model, error: String(error) },
+        '[local] server rejected tool calling; continuing without tools',
+      );
+      this.toolless.add(model);
+      yield* this.server.stream({ ...opts, model, tools: undefined });
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMStreamEvent,
+  LLMStreamOptions,
+} from './provider';
+import { countMessageTokens, countTokens } from './tokens';
+import { logger } from '../logger';
+
+/**
+ * A deterministic, offline provider that plays fixture scripts, so demo
+ * mode, e2e tests and the test bench run the real pipeline (provider,
+ * tools, validation, moderation) with no network.
+ *
+ * A script picks the reply for an agent and message:
+ *
+ *   - name: dnd-roll
+ *     agent: dnd_master           # optional; one agent type or a list
+ *     match: '\broll\b'           # optional regex on the user's message
+ *     turns:
+ *       - text: Rolling for you...
+ *         toolCalls:
+ *           - name: roll_dice
+ *             input: { notation: d20, purpose: '{{input}}' }
+ *         latencyMs: 400          # optional first-event delay
+ *       - text: The dice have spoken!
+ *
+ * The first script whose agent and match fit is used. Each turn answers
+ * one model call: the first the user's message, the next the results of
+ * the first turn's tool calls, and so on. Tool calls for tools the agent
+ * doesn't have are left out. Text may use `{{input}}` (the user's
+ * message), `{{curated}}` (the first curated item in the system prompt)
+ * and `{{toolResult}}` (the text the last tools returned), each with an
+ * optional fallback: `{{curated|A default joke}}`.
+ *
+ * Text streams word by word after the turn's latency, and `done` reports
+ * token usage estimated the same way the context window does.
+ */
+
+export interface MockToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface MockTurn {
+  text?: string;
+  toolCalls?: MockToolCall[];
+  latencyMs?: number;
+}
+
+export interface MockScript {
+  name: string;
+  agents?: string[];
+  match?: RegExp;
+  turns: MockTurn[];
+}
+
+export interface MockProviderOptions {
+  /** Delay before the first event of a turn without its own latencyMs. */
+  latencyMs: number;
+  /** Delay between streamed words. */
+  chunkDelayMs: number;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  latencyMs: 250,
+  chunkDelayMs: 15,
+};
+
+const SCRIPT_FILE = /\.(ya?ml|json)$/i;
+const SCRIPT_FIELDS = new Set(['name', 'agent', 'match', 'turns']);
+const TURN_FIELDS = new Set(['text', 'toolCalls', 'latencyMs']);
+const PLACEHOLDER = /\{\{(\w+)(?:\|([^}]*))?\}\}/g;
+const PLACEHOLDERS = new Set(['input', 'curated', 'toolResult']);
+/** A line of the curated content list withCuratedContent() adds. */
+const CURATED_ITEM = /^- \[[^\]]+\] (.+)$/m;
+const NO_SCRIPT_REPLY = 'No mock script matches this message.';
+
+function placeholderProblems(text: string, where: string): string[] {
+  return [...text.matchAll(PLACEHOLDER)]
+    .map(([, name]) => name)
+    .filter(name => !PLACEHOLDERS.has(name))
+    .map(name => `${where} uses unknown placeholder "{{${name}}}"`);
+}
+
+/** Problems with one turn of a script, prefixed with its position. */
+function turnProblems(raw: unknown, where: string): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return [`${where} must be an object`];
+  }
+  const turn = raw as Record<string, unknown>;
+  const problems = Object.keys(turn)
+    .filter(key => !TURN_FIELDS.has(key))
+    .map(key => `${where} has unknown field "${key}"`);
+  if (turn.text === undefined && turn.toolCalls === undefined) {
+    problems.push(`${where} needs "text" or "toolCalls"`);
+  }
+  if (turn.text !== undefined) {
+    if (typeof turn.text !== 'string') {
+      problems.push(`${where} "text" must be a string`);
+    } else {
+      problems.push(...placeholderProblems(turn.text, where));
+    }
+  }
+  if (
+    turn.toolCalls !== undefined &&
+    !(
+      Array.isArray(turn.toolCalls) &&
+      turn.toolCalls.every(
+        call =>
+          call &&
+          typeof call === 'object' &&
+          typeof call.name === 'string' &&
+          (call.input === undefined ||
+            (typeof call.input === 'object' && !Array.isArray(call.input))),
+      )
+    )
+  ) {
+    problems.push(
+      `${where} "toolCalls" must be a list of { name, input? } objects`,
+    );
+  }
+  if (
+    turn.latencyMs !== undefined &&
+    !(typeof turn.latencyMs === 'number' && turn.latencyMs >= 0)
+  ) {
+    problems.push(`${where} "latencyMs" must be a number from 0`);
+  }
+  return problems;
+}
+
+/**
+ * Check one script from a fixture file and compile it. Throws with every
+ * problem found.
+ */
+export function parseMockScript(raw: unknown): MockScript {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('A mock script must be an object');
+  }
+  const def = raw as Record<string, unknown>;
+  const problems = Object.keys(def)
+    .filter(key => !SCRIPT_FIELDS.has(key))
+    .map(key => `unknown field "${key}"`);
+
+  if (typeof def.name !== 'string' || def.name.trim() === '') {
+    problems.push('"name" must be a non-empty string');
+  }
+  const agents =
+    typeof def.agent === 'string' ? [def.agent] : (def.agent as unknown);
+  if (
+    agents !== undefined &&
+    !(
+      Array.isArray(agents) &&
+      agents.length > 0 &&
+      agents.every(agent => typeof agent === 'string')
+    )
+  ) {
+    problems.push('"agent" must be an agent type or a list of them');
+  }
+  let match: RegExp | undefined;
+  if (typeof def.match === 'string') {
+    try {
+      match = new RegExp(def.match, 'i');
+    } catch {
+      problems.push('"match" is not a valid regular expression');
+    }
+  } else if (def.match !== undefined) {
+    problems.push('"match" must be a regular expression');
+  }
+  if (!Array.isArray(def.turns) || def.turns.length === 0) {
+    problems.push('"turns" must be a non-empty list');
+  } else {
+    def.turns.forEach((turn, i) =>
+      problems.push(...turnProblems(turn, `turn ${i + 1}`)),
+    );
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  return {
+    name: def.name as string,
+    ...(agents !== undefined && { agents: agents as string[] }),
+    ...(match && { match }),
+    turns: (def.turns as Array<Record<string, unknown>>).map(turn => ({
+      ...(turn.text !== undefined && { text: turn.text as string }),
+      ...(turn.toolCalls !== undefined && {
+        toolCalls: (
+          turn.toolCalls as Array<{ name: string; input?: object }>
+        ).map(call => ({
+          name: call.name,
+          input: { ...(call.input ?? {}) } as Record<string, unknown>,
+        })),
+      }),
+      ...(turn.latencyMs !== undefined && {
+        latencyMs: turn.latencyMs as number,
+      }),
+    })),
+  };
+}
+
+/**
+ * Scripts from a fixture file, or from every `.yaml`, `.yml` and `.json`
+ * file in a directory. A file holds one script or a list of them; an
+ * invalid file is skipped and the problems are logged.
+ */
+export function loadMockScripts(location: string): MockScript[] {
+  let files: string[];
+  try {
+    files = fs.statSync(location).isDirectory()
+      ? fs
+          .readdirSync(location)
+          .filter(file => SCRIPT_FILE.test(file))
+          .sort()
+          .map(file => path.join(location, file))
+      : [location];
+  } catch (error) {
+    logger.error({ error, location }, 'Could not read mock scripts');
+    return [];
+  }
+
+  const scripts: MockScript[] = [];
+  for (const file of files) {
+    try {
+      const source = fs.readFileSync(file, 'utf8');
+      const raw = file.toLowerCase().endsWith('.json')
+        ? JSON.parse(source)
+        : yaml.load(source);
+      scripts.push(
+        ...(Array.isArray(raw) ? raw : [raw]).map((script, i) => {
+          try {
+            return parseMockScript(script);
+          } catch (error) {
+            throw new Error(`script ${i + 1}: ${(error as Error).message}`);
+          }
+        }),
+      );
+    } catch (error) {
+      logger.error(
+        { file },
+        `Invalid mock script file: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  return scripts;
+}
+
+/** The text the tools answering the last tool calls returned. */
+function lastToolText(messages: LLMMessage[]): string {
+  const texts: string[] = [];
+  for (
+    let i = messages.length - 1;
+    i >= 0 && messages[i].role === 'tool';
+    i--
+  ) {
+    try {
+      const results = JSON.parse(messages[i].content) as unknown;
+      for (const result of Array.isArray(results) ? results : [results]) {
+        if (typeof result?.text === 'string') {
+          texts.unshift(result.text);
+        }
+      }
+    } catch {
+      // A tool that failed reports plain text
+    }
+  }
+  return texts.join('\n\n');
+}
+
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(
+    PLACEHOLDER,
+    (_all, name: string, fallback?: string) => values[name] || fallback || '',
+  );
+}
+
+function fillInput(value: unknown, values: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return fill(value, values);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillInput(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        fillInput(item, values),
+      ]),
+    );
+  }
+  return value;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+  private readonly options: MockProviderOptions;
+
+  constructor(
+    private readonly scripts: MockScript[],
+    options: Partial<MockProviderOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_MOCK_OPTIONS, ...options };
+  }
+
+  /** The script that answers `input` for `agentType`, if any. */
+  findScript(agentType: string | undefined, input: string): MockScript | null {
+    return (
+      this.scripts.find(
+        script =>
+          (!script.agents ||
+            (agentType !== undefined && script.agents.includes(agentType))) &&
+          (!script.match || script.match.test(input)),
+      ) ?? null
+    );
+  }
+
+  async *stream(opts: LLMStreamOptions): AsyncIterable<LLMStreamEvent> {
+    const lastUser = opts.messages.map(m => m.role).lastIndexOf('user');
+    const input = lastUser >= 0 ? opts.messages[lastUser].content : '';
+    // Each answered round of tool calls moves the script on a turn.
+    const turnIndex = opts.messages
+      .slice(lastUser + 1)
+      .filter(m => m.role === 'assistant' && m.tool_calls?.length).length;
+    const script = this.findScript(opts.agentType, input);
+    const turn: MockTurn | undefined = script
+      ? script.turns[turnIndex]
+      : turnIndex === 0
+        ? { text: NO_SCRIPT_REPLY }
+        : undefined;
+
+    const values = {
+      input,
+      curated:
+        CURATED_ITEM.exec(opts.system)?.[1].replace(/ \(answer: .*\)$/, '') ??
+        '',
+      toolResult: lastToolText(opts.messages),
+    };
+    const text = turn?.text ? fill(turn.text, values) : '';
+    const offered = new Set(
+      opts.toolChoice === 'none' ? [] : opts.tools?.map(tool => tool.name),
+    );
+    const toolCalls = (turn?.toolCalls ?? []).filter(call =>
+      offered.has(call.name),
+    );
+
+    await sleep(turn?.latencyMs ?? this.options.latencyMs, opts.signal);
+    const words = text.match(/\s*\S+\s*/g) ?? [];
+    for (const [i, word] of words.entries()) {
+      if (opts.signal?.aborted) {
+        return;
+      }
+      if (i > 0) {
+        await sleep(this.options.chunkDelayMs, opts.signal);
+      }
+      yield { type: 'text_delta', text: word };
+    }
+    for (const [i, call] of toolCalls.entries()) {
+      yield {
+        type: 'tool_call',
+        id: `mock_${turnIndex}_${i}`,
+        name: call.name,
+        input: fillInput(call.input, values),
+      };
+    }
+    yield {
+      type: 'done',
+      usage: {
+        input:
+          countTokens(opts.system, this.id, opts.model) +
+          opts.messages.reduce(
+            (sum, m) => sum + countMessageTokens(m, this.id, opts.model),
+            0,
+          ),
+        output:
+          countTokens(text, this.id, opts.model) +
+          countTokens(JSON.stringify(toolCalls), this.id, opts.model),
+      },
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { MockScript, parseMockScript } from './mockProvider';
+
+/**
+ * The scripts the mock provider plays in demo mode, after any loaded from
+ * LLM_MOCK_SCRIPTS. They lean on the real tools and curated content so a
+ * demo shows the same cards and media a live model would produce; the
+ * last one answers anything the others don't.
+ */
+const DEMO_SCRIPTS: unknown[] = [
+  {
+    name: 'dnd-character',
+    agent: 'dnd_master',
+    match: '\\bcharacter\\b',
+    turns: [
+      {
+        text: 'A new hero steps out of the mist...',
+        toolCalls: [{ name: 'generate_character' }],
+      },
+      {
+        text: 'There they are! Shall we roll for initiative, or would you like a different hero?',
+      },
+    ],
+  },
+  {
+    name: 'dnd-encounter',
+    agent: 'dnd_master',
+    match: '\\b(encounter|fight|combat|adventure)\\b',
+    turns: [
+      {
+        text: 'Something stirs in the shadows ahead...',
+        toolCalls: [{ name: 'generate_encounter' }],
+      },
+      { text: 'What do you do, adventurer?' },
+    ],
+  },
+  {
+    name: 'dnd-roll',
+    agent: 'dnd_master',
+    turns: [
+      {
+        text: 'Let the dice decide!',
+        toolCalls: [
+          {
+            name: 'roll_dice',
+            input: { notation: 'd20', purpose: 'Demo roll' },
+          },
+        ],
+      },
+      {
+        text: 'The dice have spoken. Ask me for a character or an encounter to keep the adventure going!',
+      },
+    ],
+  },
+  {
+    name: 'quiz-answer',
+    agent: ['trivia', 'riddle_master'],
+    match:
+      '^(?!.*\\b(trivia|riddles?|questions?|quiz|facts?|puzzles?|teasers?|another|next|hint|skip)\\b).+',
+    turns: [
+      {
+        toolCalls: [{ name: 'check_answer', input: { answer: '{{input}}' } }],
+      },
+      { text: '{{toolResult|Want another one?}}' },
+    ],
+  },
+  {
+    name: 'trivia-question',
+    agent: 'trivia',
+    turns: [
+      {
+        text: 'Here is one for you:',
+        toolCalls: [{ name: 'next_question', input: { quiz: 'trivia' } }],
+      },
+      { text: 'Take your best guess!' },
+    ],
+  },
+  {
+    name: 'riddle-question',
+    agent: 'riddle_master',
+    turns: [
+      {
+        text: 'Try this riddle:',
+        toolCalls: [{ name: 'next_question', input: { quiz: 'riddle' } }],
+      },
+      { text: 'Think it over; ask for a hint if you get stuck.' },
+    ],
+  },
+  {
+    name: 'game-start',
+    agent: 'game_host',
+    match: '\\b(play|game|start)\\b',
+    turns: [
+      {
+        text: "Let's play some quick math!",
+        toolCalls: [{ name: 'start_game', input: { game: 'quick_math' } }],
+      },
+      { text: 'Answer as fast as you can!' },
+    ],
+  },
+  {
+    name: 'game-answer',
+    agent: 'game_host',
+    turns: [
+      {
+        toolCalls: [{ name: 'submit_answer', input: { answer: '{{input}}' } }],
+      },
+      { text: '{{toolResult|Keep going!}}' },
+    ],
+  },
+  {
+    name: 'gif-search',
+    agent: 'gif',
+    turns: [
+      {
+        text: 'Here is a GIF for that!',
+        toolCalls: [{ name: 'gif_search', input: { query: '{{input}}' } }],
+      },
+      { text: 'Want another one?' },
+    ],
+  },
+  {
+    name: 'youtube-search',
+    agent: 'youtube_guru',
+    turns: [
+      {
+        text: 'Let me find some videos for you.',
+        toolCalls: [{ name: 'youtube_search', input: { query: '{{input}}' } }],
+      },
+      { text: 'Enjoy! Tell me if you want something different.' },
+    ],
+  },
+  {
+    name: 'music-search',
+    agent: 'music_guru',
+    turns: [
+      {
+        text: 'Here are a few tracks you might like.',
+        toolCalls: [{ name: 'music_search', input: { term: '{{input}}' } }],
+      },
+      { text: 'Want more in the same style?' },
+    ],
+  },
+  {
+    name: 'curated',
+    agent: ['joke', 'quote_master', 'story_teller'],
+    turns: [
+      {
+        text: "{{curated|Why don't scientists trust atoms? Because they make up everything!}}",
+      },
+    ],
+  },
+  {
+    name: 'demo-fallback',
+    turns: [
+      {
+        text: 'Thanks for your message! This is demo mode, so I am answering from a script rather than a live model. Set OPENAI_API_KEY (or another provider) for real AI replies.',
+      },
+    ],
+  },
+];
+
+export const DEFAULT_MOCK_SCRIPTS: MockScript[] =
+  DEMO_SCRIPTS.map(parseMockScript);
@@ -21,8 +21,18 @@ export class OpenAIProvider implements LLMProvider {
   readonly id = 'openai' as const;
   private client: OpenAI;
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey });
+  /** `baseURL` points the client at any OpenAI-compatible server. */
+  constructor(apiKey: string, baseURL?: string) {
+    this.client = new OpenAI({ apiKey, ...(baseURL && { baseURL }) });
+  }
+
+  /** Ids of the models the server offers (`GET /models`). */
+  async listModels(): Promise<string[]> {
+    const ids: string[] = [];
+    for await (const model of this.client.models.list()) {
+      ids.push(model.id);
+    }
+    return ids;
   }
 
   async *stream(opts: LLMStreamOptions): AsyncIterable<LLMStreamEvent> {
@@ -37,6 +47,20 @@ export class OpenAIProvider implements LLMProvider {
           };
         }
         if (m.role === 'assistant') {
+          if (m.tool_calls?.length) {
+            return {
+              role: 'assistant',
+              content: m.content || null,
+              tool_calls: m.tool_calls.map(tc => ({
+                id: tc.id,
+                type: 'function' as const,
+                function: {
+                  name: tc.name,
+                  arguments: JSON.stringify(tc.input ?? {}),
+                },
+              })),
+            };
+          }
           return { role: 'assistant', content: m.content };
         }
         return { role: 'user', content: m.content };
@@ -49,14 +73,29 @@ export class OpenAIProvider implements LLMProvider {
       temperature: opts.temperature,
       max_tokens: opts.maxTokens,
       stream: true,
+      // Without this the stream carries no usage, and nothing is charged
+      // to the usage budgets.
+      stream_options: { include_usage: true },
       ...(opts.tools &&
         opts.tools.length > 0 && {
           tools: toOpenAITools(opts.tools),
-          tool_choice: 'auto' as const,
+          tool_choice: opts.toolChoice ?? 'auto',
         }),
+      ...(opts.responseFormat && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: {
+            name: opts.responseFormat.name,
+            schema: opts.responseFormat.schema,
+            strict: true,
+          },
+        },
+      }),
     };
 
-    const stream = await this.client.chat.completions.create(params);
+    const stream = await this.client.chat.completions.create(params, {
+      signal: opts.signal,
+    });
 
     // Accumulate tool call fragments (OpenAI streams them incrementally per index)
     const toolCallAccumulators: Map<
@@ -0,0 +1,120 @@
+import type { LLMProviderId } from '../agents/types';
+import { logger } from '../logger';
+
+/**
+ * What model calls cost, for usage accounting and the cost budgets.
+ *
+ * Prices are USD per million tokens, looked up by model-name prefix like
+ * the context windows in `tokens.ts`: the first match wins, so more
+ * specific prefixes come first. `LLM_PRICES` adds or replaces entries with
+ * a JSON object of the same shape, e.g.
+ *
+ *   LLM_PRICES='{"gpt-4o-mini":{"input":0.15,"output":0.6,"cacheRead":0.075}}'
+ *
+ * Models no entry matches, and anything served locally or by the mock
+ * provider, cost nothing.
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Cached prompt tokens; the input price when unset. */
+  cacheRead?: number;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead?: number;
+}
+
+const DEFAULT_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6, cacheRead: 0.075 }],
+  ['gpt-4o', { input: 2.5, output: 10, cacheRead: 1.25 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4, cacheRead: 0.025 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6, cacheRead: 0.1 }],
+  ['gpt-4.1', { input: 2, output: 8, cacheRead: 0.5 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['o3-mini', { input: 1.1, output: 4.4, cacheRead: 0.55 }],
+  ['o3', { input: 2, output: 8, cacheRead: 0.5 }],
+  ['claude-opus', { input: 15, output: 75, cacheRead: 1.5 }],
+  ['claude-sonnet', { input: 3, output: 15, cacheRead: 0.3 }],
+  ['claude-haiku', { input: 1, output: 5, cacheRead: 0.1 }],
+  ['Phi-4', { input: 0.125, output: 0.5 }],
+];
+
+const FREE_PROVIDERS = new Set<string>(['local', 'mock']);
+
+function isPrice(value: unknown): value is ModelPrice {
+  const price = value as Record<string, unknown> | null;
+  return (
+    !!price &&
+    typeof price === 'object' &&
+    ['input', 'output', 'cacheRead'].every(
+      key =>
+        (key === 'cacheRead' && price[key] === undefined) ||
+        (typeof price[key] === 'number' && (price[key] as number) >= 0),
+    )
+  );
+}
+
+/** `LLM_PRICES` entries; an invalid setting is logged and ignored. */
+function configuredPrices(
+  raw = process.env.LLM_PRICES,
+): Array<[string, ModelPrice]> {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of model prices');
+    }
+    const entries = Object.entries(parsed);
+    const invalid = entries.filter(([, price]) => !isPrice(price));
+    if (invalid.length > 0) {
+      throw new Error(
+        `invalid price for ${invalid.map(([model]) => model).join(', ')}`,
+      );
+    }
+    return entries as Array<[string, ModelPrice]>;
+  } catch (error) {
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Ignoring LLM_PRICES',
+    );
+    return [];
+  }
+}
+
+// Configured entries come first so they win over the defaults.
+const PRICES = [...configuredPrices(), ...DEFAULT_PRICES];
+
+/** The price of `model`, or undefined when it isn't charged for. */
+export function priceFor(
+  providerId: LLMProviderId | string,
+  model: string,
+): ModelPrice | undefined {
+  if (FREE_PROVIDERS.has(providerId)) {
+    return undefined;
+  }
+  return PRICES.find(([prefix]) => model.startsWith(prefix))?.[1];
+}
+
+/** What a call that used `usage` cost, in USD. */
+export function costOf(
+  providerId: LLMProviderId | string,
+  model: string,
+  usage: TokenUsage,
+): number {
+  const price = priceFor(providerId, model);
+  if (!price) {
+    return 0;
+  }
+  return (
+    (usage.input * price.input +
+      usage.output * price.output +
+      (usage.cacheRead ?? 0) * (price.cacheRead ?? price.input)) /
+    1_000_000
+  );
+}
@@ -1,8 +1,19 @@
+import type { LLMProviderId } from '../agents/types';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   name?: string;
+  /** Set on `tool` messages: the id of the call this result answers. */
   tool_call_id?: string;
+  /** Set on `assistant` messages that requested tool calls. */
+  tool_calls?: LLMToolCall[];
 }
 
 export interface LLMTool {
@@ -11,14 +22,35 @@ export interface LLMTool {
   input_schema: Record<string, unknown>;
 }
 
+/**
+ * Constrains the reply text to a JSON document matching `schema`. Keep the
+ * schema to what every provider's structured output accepts: objects with
+ * `additionalProperties: false` and every property required, strings,
+ * numbers, enums and arrays.
+ */
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
 export interface LLMStreamOptions {
   model: string;
   system: string;
   messages: LLMMessage[];
   tools?: LLMTool[];
+  /**
+   * `none` keeps the tools in the request, so a history with tool calls
+   * stays valid, but the model must answer in text. Defaults to `auto`.
+   */
+  toolChoice?: 'auto' | 'none';
   temperature?: number;
   maxTokens?: number;
   cacheSystem?: boolean;
+  responseFormat?: LLMResponseFormat;
+  /** Aborts the in-flight request; the stream then ends early. */
+  signal?: AbortSignal;
+  /** The agent asking. Real providers ignore it; the mock picks its script. */
+  agentType?: string;
 }
 
 export type LLMStreamEvent =
@@ -27,10 +59,16 @@ export type LLMStreamEvent =
   | {
       type: 'done';
       usage?: { input: number; output: number; cacheRead?: number };
+      /**
+       * Set by FailoverProvider: the provider and model that answered,
+       * which after a failover are not the ones asked for.
+       */
+      provider?: LLMProviderId;
+      model?: string;
     }
   | { type: 'error'; error: string };
 
 export interface LLMProvider {
-  readonly id: 'openai' | 'anthropic' | 'foundry';
+  readonly id: LLMProviderId;
   stream(opts: LLMStreamOptions): AsyncIterable<LLMStreamEvent>;
 }
@@ -1,5 +1,5 @@
 import type { Tier } from '../middleware/identity';
-import type { LLMProviderId } from '../agents/types';
+import { LLM_PROVIDER_IDS, LLMProviderId } from '../agents/types';
 
 /**
  * Tier-aware overrides for LLM provider selection.
@@ -10,9 +10,11 @@ import type { LLMProviderId } from '../agents/types';
  * there — so uncredentialed traffic cannot burn premium-provider
  * quota. The behaviour is gated on `LLM_TIERED=true` so production
  * can roll it out independently of the rest of the anon work.
+ * `LLM_FREE_PROVIDER=local` sends them to a self-hosted model instead
+ * (see localProvider.ts).
  *
- * When Foundry is not configured, the registry falls back to the
- * agent's configured `fallbackProvider`, which keeps local dev
+ * When the free provider is not configured, the registry falls back to
+ * the agent's configured `fallbackProvider`, which keeps local dev
  * working without Foundry credentials.
  */
 
@@ -33,6 +35,11 @@ export function isTieredLLMEnabled(): boolean {
   return (process.env.LLM_TIERED || '').toLowerCase() === 'true';
 }
 
+function freeProvider(): LLMProviderId {
+  const configured = process.env.LLM_FREE_PROVIDER as LLMProviderId;
+  return LLM_PROVIDER_IDS.includes(configured) ? configured : 'foundry';
+}
+
 export function routeLLMForTier(
   agent: TierRouteConfig,
   tier: Tier | undefined,
@@ -48,7 +55,7 @@ export function routeLLMForTier(
 
   const freeModel = process.env.LLM_FREE_MODEL || 'gpt-4o-mini';
   return {
-    provider: 'foundry',
+    provider: freeProvider(),
     // OpenAI is the safe last-resort; local dev without Foundry credentials
     // still gets a working model.
     fallbackProvider: agent.fallbackProvider ?? 'openai',
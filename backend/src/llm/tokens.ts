@@ -0,0 +1,81 @@
+import type { LLMProviderId } from '../agents/types';
+import type { LLMMessage } from './provider';
+
+/**
+ * Approximate token accounting for context budgeting.
+ *
+ * We don't ship provider tokenizers, so counts are estimated from the text
+ * with a per-family characters-per-token ratio plus the fixed framing each
+ * API adds per message. The ratios lean slightly high so a budget computed
+ * from them errs towards leaving headroom rather than overflowing.
+ */
+
+interface TokenProfile {
+  charsPerToken: number;
+  /** Role/framing tokens the API adds around every message. */
+  perMessage: number;
+}
+
+const TOKEN_PROFILES: Record<'openai' | 'anthropic', TokenProfile> = {
+  openai: { charsPerToken: 3.8, perMessage: 4 },
+  anthropic: { charsPerToken: 3.4, perMessage: 5 },
+};
+
+// Context sizes by model-name prefix; the first match wins, so more
+// specific prefixes come first.
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4o', 128_000],
+  ['gpt-4.1', 1_000_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4-32k', 32_768],
+  ['gpt-4', 8_192],
+  ['gpt-3.5-turbo', 16_385],
+  ['o1', 128_000],
+  ['o3', 200_000],
+  ['claude', 200_000],
+];
+
+/** Used for models we don't recognise, e.g. a custom Foundry deployment. */
+export const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+function profileFor(providerId?: LLMProviderId, model?: string): TokenProfile {
+  // Claude tokenises the same whether it's reached directly or via Foundry.
+  if (providerId === 'anthropic' || model?.startsWith('claude')) {
+    return TOKEN_PROFILES.anthropic;
+  }
+  return TOKEN_PROFILES.openai;
+}
+
+/** Estimated tokens for a bare string. */
+export function countTokens(
+  text: string,
+  providerId?: LLMProviderId,
+  model?: string,
+): number {
+  if (!text) {
+    return 0;
+  }
+  return Math.ceil(text.length / profileFor(providerId, model).charsPerToken);
+}
+
+/** Estimated tokens for a message, including its framing and tool calls. */
+export function countMessageTokens(
+  message: Pick<LLMMessage, 'content' | 'tool_calls'>,
+  providerId?: LLMProviderId,
+  model?: string,
+): number {
+  const toolCalls = message.tool_calls?.length
+    ? JSON.stringify(message.tool_calls)
+    : '';
+  return (
+    profileFor(providerId, model).perMessage +
+    countTokens(message.content, providerId, model) +
+    countTokens(toolCalls, providerId, model)
+  );
+}
+
+/** Total context (input + output) the model accepts. */
+export function getContextWindow(model: string): number {
+  const match = CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
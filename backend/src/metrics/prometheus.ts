@@ -52,6 +52,7 @@ const WS_EVENTS = new Set<string>([
   'stream_chunk',
   'stream_complete',
   'stream_error',
+  'stream_cancelled',
   'new_message',
   'proactive_message',
   'proactive_error',
@@ -64,7 +65,14 @@ const WS_EVENTS = new Set<string>([
   'disconnect',
 ]);
 
-const LLM_PROVIDERS = new Set<string>(['anthropic', 'openai', 'foundry']);
+const LLM_PROVIDERS = new Set<string>([
+  'anthropic',
+  'openai',
+  'foundry',
+  'local',
+  'mock',
+]);
+const CIRCUIT_STATE_VALUES = { closed: 0, half_open: 1, open: 2 } as const;
 const DB_OPS = new Set<string>([
   'get',
   'set',
@@ -126,13 +134,20 @@ const ERROR_KINDS = new Set<string>([
 
 const TIERS = new Set<string>(['anonymous', 'authenticated']);
 const CHAT_ROLES = new Set<string>(['user', 'assistant', 'proactive']);
-const RATE_LIMIT_SCOPES = new Set<string>(['http', 'socket', 'socket-http']);
+const RATE_LIMIT_SCOPES = new Set<string>([
+  'http',
+  'socket',
+  'socket-http',
+  'openai',
+]);
 const RATE_LIMIT_BUCKETS = new Set<string>([
   'api',
   'minute',
   'day',
   'global',
   'connection',
+  'tokens',
+  'cost',
 ]);
 
 function whitelist(value: unknown, set: Set<string>): string {
@@ -330,6 +345,12 @@ const llmTokensTotal = new promClient.Counter({
   labelNames: ['service', 'provider', 'model', 'direction'], // direction: input|output
 });
 
+const llmCostTotal = new promClient.Counter({
+  name: 'llm_cost_usd_total',
+  help: 'Estimated LLM spend in USD, from the model price table.',
+  labelNames: ['service', 'provider', 'model'],
+});
+
 const llmTimeToFirstToken = new promClient.Histogram({
   name: 'llm_time_to_first_token_seconds',
   help: 'LLM streaming time to first token.',
@@ -337,6 +358,24 @@ const llmTimeToFirstToken = new promClient.Histogram({
   buckets: [...TTFT_BUCKETS],
 });
 
+const llmRetriesTotal = new promClient.Counter({
+  name: 'llm_retries_total',
+  help: 'LLM provider requests retried after a retryable error.',
+  labelNames: ['service', 'provider'],
+});
+
+const llmFailoversTotal = new promClient.Counter({
+  name: 'llm_failovers_total',
+  help: 'LLM requests handed from a failing provider to its fallback.',
+  labelNames: ['service', 'from_provider', 'to_provider'],
+});
+
+const llmCircuitBreakerState = new promClient.Gauge({
+  name: 'llm_circuit_breaker_state',
+  help: 'LLM provider circuit breaker state: 0 closed, 1 half-open, 2 open.',
+  labelNames: ['service', 'provider'],
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // §6 DB client (Redis + future mongo)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -521,7 +560,11 @@ const allMetrics: Array<
   llmRequestsTotal,
   llmRequestDuration,
   llmTokensTotal,
+  llmCostTotal,
   llmTimeToFirstToken,
+  llmRetriesTotal,
+  llmFailoversTotal,
+  llmCircuitBreakerState,
   dbClientOperationsTotal,
   dbClientOperationDuration,
   dbClientConnectionsActive,
@@ -725,6 +768,17 @@ export const metricsEmit = {
           Math.max(0, count),
         ),
       ),
+    cost: (provider: string, model: string, usd: number) =>
+      safeEmit(() =>
+        llmCostTotal.inc(
+          {
+            service: SERVICE_LABEL,
+            provider: whitelist(provider, LLM_PROVIDERS),
+            model: (model ?? 'unknown').toString(),
+          },
+          Math.max(0, usd),
+        ),
+      ),
     timeToFirstToken: (provider: string, model: string, seconds: number) =>
       safeEmit(() =>
         llmTimeToFirstToken.observe(
@@ -736,6 +790,31 @@ export const metricsEmit = {
           Math.max(0, seconds),
         ),
       ),
+    retry: (provider: string) =>
+      safeEmit(() =>
+        llmRetriesTotal.inc({
+          service: SERVICE_LABEL,
+          provider: whitelist(provider, LLM_PROVIDERS),
+        }),
+      ),
+    failover: (fromProvider: string, toProvider: string) =>
+      safeEmit(() =>
+        llmFailoversTotal.inc({
+          service: SERVICE_LABEL,
+          from_provider: whitelist(fromProvider, LLM_PROVIDERS),
+          to_provider: whitelist(toProvider, LLM_PROVIDERS),
+        }),
+      ),
+    circuitState: (provider: string, state: 'closed' | 'half_open' | 'open') =>
+      safeEmit(() =>
+        llmCircuitBreakerState.set(
+          {
+            service: SERVICE_LABEL,
+            provider: whitelist(provider, LLM_PROVIDERS),
+          },
+          CIRCUIT_STATE_VALUES[state],
+        ),
+      ),
   },
 
   db: {
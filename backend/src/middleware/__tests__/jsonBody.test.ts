@@ -0,0 +1,33 @@
+import request from 'supertest';
+import express from 'express';
+import { jsonBody } from '../jsonBody';
+
+describe('jsonBody', () => {
+  const app = express();
+  app.use(jsonBody(['/import']));
+  app.post('/import', (req, res) => {
+    res.json({ parsed: req.body !== undefined });
+  });
+  app.post('/other', (req, res) => {
+    res.json({ parsed: req.body !== undefined });
+  });
+
+  it('should parse JSON everywhere else with the default limit', async () => {
+    const small = await request(app).post('/other').send({ text: 'hi' });
+    const large = await request(app)
+      .post('/other')
+      .send({ text: 'x'.repeat(150 * 1024) });
+
+    expect(small.body).toEqual({ parsed: true });
+    expect(large.status).toBe(413);
+  });
+
+  it('should leave the listed paths to their own parser', async () => {
+    const response = await request(app)
+      .post('/import/')
+      .send({ text: 'x'.repeat(150 * 1024) });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ parsed: false });
+  });
+});
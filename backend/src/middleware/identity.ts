@@ -152,6 +152,17 @@ export const requireAuthenticated = (
   next();
 };
 
+/**
+ * The caller's id as set by resolveIdentity. Throws when the middleware did
+ * not run, so routes that scope data to the caller fail closed.
+ */
+export const requireUserId = (req: Request): string => {
+  if (!req.userId) {
+    throw new Error('resolveIdentity must run before this route');
+  }
+  return req.userId;
+};
+
 export const ANON_COOKIE = {
   name: ANON_COOKIE_NAME,
   maxAgeMs: ANON_COOKIE_MAX_AGE_MS,
@@ -0,0 +1,17 @@
+import express, { NextFunction, Request, Response } from 'express';
+
+/**
+ * The app-wide JSON body parser, with express's default 100 kB limit.
+ * Requests to `ownParserPaths` are left unparsed: their routes parse
+ * larger bodies themselves, after identity and rate limiting.
+ */
+export const jsonBody = (ownParserPaths: string[]) => {
+  const parse = express.json();
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (ownParserPaths.includes(req.path.replace(/\/$/, ''))) {
+      next();
+      return;
+    }
+    parse(req, res, next);
+  };
+};
@@ -1,9 +1,13 @@
 import rateLimit, { Options, ipKeyGenerator } from 'express-rate-limit';
 import RedisStore from 'rate-limit-redis';
-import { Request } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { logger } from '../logger';
 import { getRateLimitRedis } from '../rateLimit/redisClient';
 import { TIER_LIMITS } from '../rateLimit/tierLimits';
+import {
+  checkUsageBudget,
+  usageBudgetMessage,
+} from '../rateLimit/checkUsageBudget';
 import { metricsEmit } from '../metrics/prometheus';
 
 /**
@@ -17,6 +21,7 @@ import { metricsEmit } from '../metrics/prometheus';
  * Layered buckets:
  *   - per-minute   — smoothes bursts
  *   - per-day      — caps total cost per visitor
+ *   - usage budget — daily tokens and spend per visitor
  *   - global ceiling — DoS protection across the entire service
  *
  * Redis is used when available (see `rateLimit/redisClient`). When
@@ -190,6 +195,38 @@ export const chatDailyLimiter = rateLimit({
   },
 });
 
+/**
+ * Daily token and cost budgets (see `rateLimit/checkUsageBudget`). Runs
+ * after the message quotas on the `/api/chat` routes.
+ */
+export async function usageBudgetLimiter(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  const tier = tierOf(req);
+  const result = await checkUsageBudget(identityKey(req), tier);
+  if (result.allowed) {
+    return next();
+  }
+  logger.warn(
+    { identifier: identityKey(req), tier, bucket: result.bucket },
+    'Daily usage budget exceeded',
+  );
+  metricsEmit.tier.rateLimitHit('http', tier, result.bucket);
+  res.setHeader('Retry-After', String(result.retryAfterSec));
+  res.status(429).json({
+    error: 'Daily usage budget exceeded',
+    message: usageBudgetMessage(tier),
+    tier,
+    budget: result.bucket,
+    limit: result.limit,
+    used: result.used,
+    window: '1 day (UTC)',
+    retryAfter: String(result.retryAfterSec),
+  });
+}
+
 /**
  * Absolute per-pod DoS ceiling on IP. Blunt instrument sitting above
  * the tiered limits; scoped narrowly to protect the pod from a single
@@ -0,0 +1,370 @@
+import type { Tier } from '../middleware/identity';
+
+/**
+ * Moderation for what users send and what agents return.
+ *
+ *   - PII (emails, phone numbers, card numbers, credentials) is replaced
+ *     with `[REDACTED_<KIND>]` placeholders before a message is stored or
+ *     handed to an agent. Which kinds are redacted from stored content is
+ *     configured per tier; tracing attributes and logs always get all of
+ *     them redacted, because they leave the service.
+ *   - Policy violations are caught by phrase patterns, in the same spirit
+ *     as the validator's keyword checks: a cheap first line, not a
+ *     classifier. A blocked user message never reaches an agent; a blocked
+ *     reply is withheld and replaced with a notice.
+ */
+
+export type PIIKind = 'email' | 'phone' | 'card' | 'credential';
+export type PolicyCategory = 'harassment' | 'hate' | 'violence' | 'sexual';
+
+export interface ModerationRules {
+  /** PII kinds redacted from stored messages. */
+  redact: PIIKind[];
+  /** Categories that stop a user message before classification. */
+  blockInput: PolicyCategory[];
+  /** Categories that withhold an agent reply. */
+  blockOutput: PolicyCategory[];
+}
+
+const ALL_PII: PIIKind[] = ['email', 'phone', 'card', 'credential'];
+const ALL_CATEGORIES: PolicyCategory[] = [
+  'harassment',
+  'hate',
+  'violence',
+  'sexual',
+];
+
+function rulesFromEnv(
+  tier: string,
+  defaults: ModerationRules,
+): ModerationRules {
+  const read = <T extends string>(
+    name: string,
+    allowed: T[],
+    fallback: T[],
+  ): T[] => {
+    const raw = process.env[`${name}_${tier}`]?.trim().toLowerCase();
+    if (!raw) {
+      return fallback;
+    }
+    if (raw === 'none') {
+      return [];
+    }
+    const values = raw.split(',').map(value => value.trim());
+    return values.every(value => (allowed as string[]).includes(value))
+      ? (values as T[])
+      : fallback;
+  };
+  return {
+    redact: read('MODERATION_REDACT', ALL_PII, defaults.redact),
+    blockInput: read(
+      'MODERATION_BLOCK_INPUT',
+      ALL_CATEGORIES,
+      defaults.blockInput,
+    ),
+    blockOutput: read(
+      'MODERATION_BLOCK_OUTPUT',
+      ALL_CATEGORIES,
+      defaults.blockOutput,
+    ),
+  };
+}
+
+/**
+ * Per-tier moderation rules. `MODERATION_REDACT_<TIER>`,
+ * `MODERATION_BLOCK_INPUT_<TIER>` and `MODERATION_BLOCK_OUTPUT_<TIER>`
+ * override them with comma-separated PII kinds or policy categories;
+ * `none` turns a rule off. A list with an unknown entry is ignored.
+ *
+ * Violence is left out of the output rules: story_teller and dnd_master
+ * villains threaten people as a matter of course.
+ */
+export const MODERATION_RULES: Record<Tier, ModerationRules> = {
+  anonymous: rulesFromEnv('ANONYMOUS', {
+    redact: ALL_PII,
+    blockInput: ['harassment', 'hate', 'violence', 'sexual'],
+    blockOutput: ['harassment', 'hate', 'sexual'],
+  }),
+  authenticated: rulesFromEnv('AUTHENTICATED', {
+    // Signed-in users share their own email and phone number with the
+    // support agents, in a conversation only they can read.
+    redact: ['card', 'credential'],
+    blockInput: ['hate', 'violence', 'sexual'],
+    blockOutput: ['harassment', 'hate', 'sexual'],
+  }),
+};
+
+/** `stream_error` / HTTP error code for blocked content. */
+export const CONTENT_BLOCKED = 'CONTENT_BLOCKED';
+
+export const BLOCKED_INPUT_MESSAGE =
+  "This message can't be sent because it goes against our content policy.";
+export const BLOCKED_OUTPUT_MESSAGE =
+  'The reply to this message was withheld because it went against our content policy. Please try asking in a different way.';
+
+export interface ModerationResult {
+  /** The text to use from here on: redacted, or the notice if blocked. */
+  text: string;
+  /** PII kinds that were found and redacted. */
+  redacted: PIIKind[];
+  /** Set when the text was blocked. */
+  violation?: PolicyCategory;
+}
+
+// ---------------------------------------------------------------------------
+// PII
+// ---------------------------------------------------------------------------
+
+const placeholder = (kind: PIIKind): string =>
+  `[REDACTED_${kind.toUpperCase()}]`;
+
+// Each credential pattern's first group, when present, is kept so the
+// reader can still tell what was there ("password: [REDACTED_CREDENTIAL]").
+const CREDENTIAL_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g,
+  /(\bbearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+  /(\b(?:password|passwd|pwd|passcode|secret|api[_-]?key|access[_-]?token|token)\s*[:=]\s*)\S+/gi,
+  /(\b(?:password|passcode|pin)\s+is\s+)\S+/gi,
+];
+
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+// Digit runs broken up by spaces or dashes; tested for Luhn below.
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Grouped numbers such as (415) 555-0100 or +44 20 7946 0958, or
+// unbroken runs of 10 digits (more with a leading +). Numbers with fewer
+// than 10 digits in all are left alone.
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b|\+\d{10,14}\b|\b\d{10}\b/g;
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Replace the given PII kinds in `text` with placeholders. Credentials go
+ * first since tokens can contain digit runs and `@`.
+ */
+export function redactPII(
+  text: string,
+  kinds: PIIKind[] = ALL_PII,
+): { text: string; redacted: PIIKind[] } {
+  const found = new Set<PIIKind>();
+  let out = text;
+  const replace = (
+    kind: PIIKind,
+    pattern: RegExp,
+    accept: (match: string) => boolean = () => true,
+  ) => {
+    out = out.replace(pattern, (match, prefix?: unknown) => {
+      if (!accept(match)) {
+        return match;
+      }
+      found.add(kind);
+      return `${typeof prefix === 'string' ? prefix : ''}${placeholder(kind)}`;
+    });
+  };
+
+  if (kinds.includes('credential')) {
+    CREDENTIAL_PATTERNS.forEach(pattern => replace('credential', pattern));
+  }
+  if (kinds.includes('card')) {
+    replace('card', CARD_PATTERN, match => passesLuhn(digitsOf(match)));
+  }
+  if (kinds.includes('email')) {
+    replace('email', EMAIL_PATTERN);
+  }
+  if (kinds.includes('phone')) {
+    replace('phone', PHONE_PATTERN, match => {
+      const digits = digitsOf(match).length;
+      return digits >= 10 && digits <= 15;
+    });
+  }
+  return { text: out, redacted: ALL_PII.filter(kind => found.has(kind)) };
+}
+
+/** Every PII kind redacted, for span attributes and log lines. */
+export function redactForTrace(text: string): string {
+  return redactPII(text).text;
+}
+
+/** The tier's stored-content redaction, for text that skipped moderation. */
+export function redactForTier(text: string, tier?: Tier): string {
+  return redactPII(text, rulesFor(tier).redact).text;
+}
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+const GROUPS =
+  '(?:jews|muslims|christians|immigrants|refugees|gays|lesbians|trans people|black people|white people|asians|mexicans|women|men)';
+
+const POLICY_PATTERNS: Record<PolicyCategory, RegExp[]> = {
+  harassment: [
+    /\b(?:go\s+)?(?:kill|hang)\s+yourself\b/i,
+    /\bkys\b/i,
+    /\byou(?:'re| are)\s+(?:a\s+)?(?:worthless|pathetic|waste of (?:space|oxygen))\b/i,
+    /\bnobody (?:would|will) (?:care|miss you) if you died\b/i,
+  ],
+  hate: [
+    new RegExp(
+      `\\b(?:all\\s+)?${GROUPS}\\s+(?:are|is)\\s+(?:vermin|subhuman|animals|a disease)\\b`,
+      'i',
+    ),
+    new RegExp(
+      `\\b${GROUPS}\\s+should\\s+(?:all\\s+)?(?:be\\s+)?(?:killed|exterminated|wiped out|gassed)\\b`,
+      'i',
+    ),
+    new RegExp(`\\b(?:death to|exterminate)\\s+(?:all\\s+)?${GROUPS}\\b`, 'i'),
+  ],
+  violence: [
+    /\bi(?:'ll| will| am going to|'m going to|'m gonna| want to| wanna)\s+(?:kill|shoot|stab|murder|bomb)\s+(?:you|him|her|them|my\s+\w+|everyone)\b/i,
+    /\bhow\s+(?:do\s+i|to|can\s+i)\s+(?:make|build)\s+(?:a\s+)?(?:pipe\s+)?(?:bomb|explosive|molotov)/i,
+    /\b(?:shoot up|bomb)\s+(?:a|the|my)\s+(?:school|church|mosque|synagogue|office|mall)\b/i,
+  ],
+  sexual: [
+    /\b(?:explicit|graphic|hardcore)\s+(?:sex|porn)/i,
+    /\b(?:nudes?|naked)\s+(?:pics?|photos?|images?)\s+of\b/i,
+    /\bsexual\w*\b.{0,40}\b(?:child|children|minors?|kids?|underage)\b/i,
+    /\b(?:child|children|minors?|kids?|underage)\b.{0,40}\bsexual\w*\b/i,
+  ],
+};
+
+/** The first of `categories` whose patterns match `text`. */
+export function findViolation(
+  text: string,
+  categories: PolicyCategory[],
+): PolicyCategory | undefined {
+  return categories.find(category =>
+    POLICY_PATTERNS[category].some(pattern => pattern.test(text)),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Stages
+// ---------------------------------------------------------------------------
+
+// Callers without a resolved tier get the strictest rules.
+function rulesFor(tier?: Tier): ModerationRules {
+  return MODERATION_RULES[tier ?? 'anonymous'];
+}
+
+/** Screen a user message before it is classified, stored or answered. */
+export function moderateInput(text: string, tier?: Tier): ModerationResult {
+  return moderate(text, rulesFor(tier).blockInput, BLOCKED_INPUT_MESSAGE, tier);
+}
+
+/** Screen an agent reply before it is stored or sent for good. */
+export function moderateOutput(text: string, tier?: Tier): ModerationResult {
+  return moderate(
+    text,
+    rulesFor(tier).blockOutput,
+    BLOCKED_OUTPUT_MESSAGE,
+    tier,
+  );
+}
+
+function moderate(
+  text: string,
+  block: PolicyCategory[],
+  notice: string,
+  tier?: Tier,
+): ModerationResult {
+  const violation = findViolation(text, block);
+  if (violation) {
+    return { text: notice, redacted: [], violation };
+  }
+  const { text: redactedText, redacted } = redactPII(
+    text,
+    rulesFor(tier).redact,
+  );
+  return { text: redactedText, redacted };
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+// Text kept back from the end of a streaming reply. It is longer than any
+// phone or card number, so a number split across deltas has arrived whole
+// before any of it is sent.
+const STREAM_HOLD_BACK = 64;
+
+/** How much of redacted streaming text can be sent without splitting PII. */
+function releasableLength(text: string): number {
+  let end = text.length - STREAM_HOLD_BACK;
+  // A private key is only redacted once its END line arrives.
+  const key = text.indexOf('-----BEGIN');
+  if (key !== -1) {
+    end = Math.min(end, key);
+  }
+  // End on whitespace, so an email or token still arriving isn't split.
+  while (end > 0 && !/\s/.test(text[end - 1])) {
+    end--;
+  }
+  return Math.max(end, 0);
+}
+
+/**
+ * Screens a reply while it streams, so its deltas can go out before
+ * `moderateOutput` has seen the whole of it. `push` returns the part of
+ * the reply that is now safe to send: redacted for the tier, and short of
+ * the end, which may be the start of PII. Once the text so far matches a
+ * blocked category nothing more is released; the final, moderated reply
+ * replaces what was streamed.
+ */
+export class OutputStreamModerator {
+  private text = '';
+  private released = '';
+  private stopped = false;
+
+  constructor(private readonly tier?: Tier) {}
+
+  /** The text released so far. */
+  get sent(): string {
+    return this.released;
+  }
+
+  /** Add a delta; returns the text it makes safe to send, possibly ''. */
+  push(delta: string): string {
+    this.text += delta;
+    if (this.stopped) {
+      return '';
+    }
+    const rules = rulesFor(this.tier);
+    const redacted = redactPII(this.text, rules.redact).text;
+    // A redaction reaching back into text already sent can't be undone
+    if (
+      findViolation(this.text, rules.blockOutput) ||
+      !redacted.startsWith(this.released)
+    ) {
+      this.stopped = true;
+      return '';
+    }
+    const next = redacted.slice(
+      this.released.length,
+      releasableLength(redacted),
+    );
+    this.released += next;
+    return next;
+  }
+}
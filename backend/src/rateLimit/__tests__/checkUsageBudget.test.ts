@@ -0,0 +1,79 @@
+jest.mock('../../logger');
+jest.mock('../../storage/usageStore', () => ({
+  usageStore: { totals: jest.fn() },
+}));
+
+import { checkUsageBudget, startOfUsageDay } from '../checkUsageBudget';
+import { USAGE_BUDGETS } from '../tierLimits';
+import { usageStore } from '../../storage/usageStore';
+
+const mockTotals = usageStore.totals as jest.Mock;
+
+const used = (tokens: number, costUsd = 0) => ({
+  requests: 1,
+  inputTokens: tokens,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  costUsd,
+});
+
+describe('checkUsageBudget', () => {
+  const now = new Date('2024-03-05T18:00:00Z');
+
+  beforeEach(() => {
+    mockTotals.mockReset();
+  });
+
+  it("reads today's usage since midnight UTC", async () => {
+    mockTotals.mockResolvedValue(used(0));
+
+    expect(await checkUsageBudget('anon_1', 'anonymous', now)).toEqual({
+      allowed: true,
+    });
+    expect(mockTotals).toHaveBeenCalledWith(
+      'anon_1',
+      new Date('2024-03-05T00:00:00Z'),
+    );
+    expect(startOfUsageDay(now)).toEqual(new Date('2024-03-05T00:00:00Z'));
+  });
+
+  it('blocks once the token budget is used up, until midnight', async () => {
+    mockTotals.mockResolvedValue(used(USAGE_BUDGETS.anonymous.tokensPerDay));
+
+    expect(await checkUsageBudget('anon_1', 'anonymous', now)).toEqual({
+      allowed: false,
+      bucket: 'tokens',
+      limit: USAGE_BUDGETS.anonymous.tokensPerDay,
+      used: USAGE_BUDGETS.anonymous.tokensPerDay,
+      retryAfterSec: 6 * 60 * 60,
+    });
+  });
+
+  it('blocks once the cost budget is used up', async () => {
+    mockTotals.mockResolvedValue(
+      used(10, USAGE_BUDGETS.authenticated.costUsdPerDay),
+    );
+
+    const result = await checkUsageBudget('user-1', 'authenticated', now);
+
+    expect(result).toEqual(
+      expect.objectContaining({ allowed: false, bucket: 'cost' }),
+    );
+  });
+
+  it("applies each tier's own budget", async () => {
+    mockTotals.mockResolvedValue(used(USAGE_BUDGETS.anonymous.tokensPerDay));
+
+    expect(await checkUsageBudget('user-1', 'authenticated', now)).toEqual({
+      allowed: true,
+    });
+  });
+
+  it('fails open when the usage store is unavailable', async () => {
+    mockTotals.mockRejectedValue(new Error('redis down'));
+
+    expect(await checkUsageBudget('anon_1', 'anonymous', now)).toEqual({
+      allowed: true,
+    });
+  });
+});
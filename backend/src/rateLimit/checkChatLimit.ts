@@ -5,7 +5,8 @@ import { getRateLimitRedis } from './redisClient';
 
 /**
  * Shared tiered chat rate-limit check for code paths that sit outside
- * Express (Socket.IO in particular). The HTTP routes use
+ * Express (Socket.IO in particular) or share its buckets (the
+ * OpenAI-compatible /v1 API). The /api/chat routes use
  * `express-rate-limit`; this helper applies the same per-minute and
  * per-day buckets so a caller can't bypass the quota by switching
  * transports.
@@ -0,0 +1,89 @@
+import type { Tier } from '../middleware/identity';
+import type { UsageTotals } from '../types';
+import { USAGE_BUDGETS } from './tierLimits';
+import { logger } from '../logger';
+import { usageStore } from '../storage/usageStore';
+
+/**
+ * Daily token and cost budgets, checked before a chat message is handed
+ * to an agent on every path that already applies the message quotas
+ * (`/api/chat`, Socket.IO and `/v1`). Usage is read back from the usage
+ * store, so a call that is still streaming counts once it finishes; one
+ * reply can overshoot a budget, the next message is refused.
+ *
+ * Days are UTC calendar days. Like the message quotas this fails open:
+ * a usage store outage must not break chat.
+ */
+
+export type UsageBudgetBucket = 'tokens' | 'cost';
+
+export type UsageBudgetResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      bucket: UsageBudgetBucket;
+      limit: number;
+      used: number;
+      retryAfterSec: number;
+    };
+
+/** Midnight UTC at the start of `now`'s day. */
+export function startOfUsageDay(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+}
+
+export async function checkUsageBudget(
+  identity: string,
+  tier: Tier,
+  now = new Date(),
+): Promise<UsageBudgetResult> {
+  const budget = USAGE_BUDGETS[tier];
+  if (!budget.tokensPerDay && !budget.costUsdPerDay) {
+    return { allowed: true };
+  }
+
+  const dayStart = startOfUsageDay(now);
+  let used: UsageTotals;
+  try {
+    used = await usageStore.totals(identity, dayStart);
+  } catch (err) {
+    logger.warn(
+      { err, identity, tier },
+      'Usage budget check failed; allowing request',
+    );
+    return { allowed: true };
+  }
+
+  const retryAfterSec = Math.ceil(
+    (dayStart.getTime() + 24 * 60 * 60 * 1000 - now.getTime()) / 1000,
+  );
+  const tokens = used.inputTokens + used.outputTokens;
+  if (budget.tokensPerDay && tokens >= budget.tokensPerDay) {
+    return {
+      allowed: false,
+      bucket: 'tokens',
+      limit: budget.tokensPerDay,
+      used: tokens,
+      retryAfterSec,
+    };
+  }
+  if (budget.costUsdPerDay && used.costUsd >= budget.costUsdPerDay) {
+    return {
+      allowed: false,
+      bucket: 'cost',
+      limit: budget.costUsdPerDay,
+      used: used.costUsd,
+      retryAfterSec,
+    };
+  }
+  return { allowed: true };
+}
+
+/** What to tell a caller whose budget ran out. */
+export function usageBudgetMessage(tier: Tier): string {
+  return tier === 'anonymous'
+    ? 'Daily guest usage budget reached. Sign in for a higher limit.'
+    : 'Daily usage budget reached. Try again tomorrow.';
+}
@@ -21,3 +21,37 @@ export const TIER_LIMITS = {
 } as const;
 
 export type TierLimitKey = keyof typeof TIER_LIMITS;
+
+export interface UsageBudget {
+  /** Input plus output tokens; cached prompt tokens only count as cost. */
+  tokensPerDay: number;
+  costUsdPerDay: number;
+}
+
+function budgetFromEnv(tier: string, defaults: UsageBudget): UsageBudget {
+  const read = (name: string, fallback: number): number => {
+    const raw = process.env[`${name}_${tier}`];
+    const value = Number(raw);
+    return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    tokensPerDay: read('USAGE_TOKENS_PER_DAY', defaults.tokensPerDay),
+    costUsdPerDay: read('USAGE_COST_PER_DAY', defaults.costUsdPerDay),
+  };
+}
+
+/**
+ * Per-tier daily model usage budgets, enforced next to the chat message
+ * quotas and reset at midnight UTC. `USAGE_TOKENS_PER_DAY_<TIER>` and
+ * `USAGE_COST_PER_DAY_<TIER>` (USD) override them; 0 turns a budget off.
+ */
+export const USAGE_BUDGETS: Record<TierLimitKey, UsageBudget> = {
+  anonymous: budgetFromEnv('ANONYMOUS', {
+    tokensPerDay: 100_000,
+    costUsdPerDay: 0.1,
+  }),
+  authenticated: budgetFromEnv('AUTHENTICATED', {
+    tokensPerDay: 2_000_000,
+    costUsdPerDay: 2,
+  }),
+};
@@ -2,20 +2,28 @@ import request from 'supertest';
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import chatRouter from '../chat';
-import { storage } from '../../storage/memoryStorage';
+import { conversationStore } from '../../storage/conversationStore';
 import { agentService } from '../../agents/agentService';
+import {
+  BLOCKED_INPUT_MESSAGE,
+  BLOCKED_OUTPUT_MESSAGE,
+} from '../../moderation/moderation';
 
 // Mock dependencies
-jest.mock('../../storage/memoryStorage');
+jest.mock('../../storage/conversationStore');
 jest.mock('../../agents/agentService');
 jest.mock('../../tracing/tracer');
 
-const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockStorage = conversationStore as jest.Mocked<typeof conversationStore>;
 const mockAgentService = agentService as jest.Mocked<typeof agentService>;
 
-// Create Express app for testing
+// Create Express app for testing (the middleware stands in for resolveIdentity)
 const app = express();
 app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = 'user-1';
+  next();
+});
 app.use('/api/chat', chatRouter);
 
 describe('Chat Routes', () => {
@@ -30,6 +38,7 @@ describe('Chat Routes', () => {
   describe('POST /api/chat', () => {
     const mockConversation = {
       id: 'conv-123',
+      ownerId: 'user-1',
       title: 'Test conversation',
       messages: [],
       createdAt: new Date('2023-01-01'),
@@ -47,12 +56,11 @@ describe('Chat Routes', () => {
     });
 
     it('should create a new conversation and process message', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
+      mockStorage.getConversation.mockResolvedValue(undefined);
       let capturedConversation: any;
-      mockStorage.addConversation.mockImplementation(conv => {
+      mockStorage.addConversation.mockImplementation(async conv => {
         // Capture a deep copy of the conversation at the time it's stored
         capturedConversation = JSON.parse(JSON.stringify(conv));
-        return conv;
       });
 
       const response = await request(app).post('/api/chat').send({
@@ -68,6 +76,7 @@ describe('Chat Routes', () => {
       // Verify conversation was created with empty messages initially
       expect(capturedConversation).toMatchObject({
         id: expect.any(String),
+        ownerId: 'user-1',
         title: 'Tell me a joke',
         messages: [],
         createdAt: expect.any(String), // JSON.stringify converts Date to string
@@ -83,8 +92,9 @@ describe('Chat Routes', () => {
         [],
         undefined,
         expect.any(String),
+        'user-1',
         undefined,
-        undefined,
+        { summary: undefined, ownerId: 'user-1' },
       );
     });
 
@@ -104,7 +114,7 @@ describe('Chat Routes', () => {
         messages: [...existingMessages], // Create a copy to avoid mutation issues
       };
 
-      mockStorage.getConversation.mockReturnValue(conversationWithMessages);
+      mockStorage.getConversation.mockResolvedValue(conversationWithMessages);
 
       const response = await request(app).post('/api/chat').send({
         message: 'Another message',
@@ -112,23 +122,40 @@ describe('Chat Routes', () => {
       });
 
       expect(response.status).toBe(200);
-      expect(mockStorage.getConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockStorage.getConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-1',
+      );
       expect(mockStorage.addConversation).not.toHaveBeenCalled();
 
+      // The user turn and the reply are written back to the store
+      expect(mockStorage.updateConversation).toHaveBeenCalledWith(
+        'conv-123',
+        expect.objectContaining({
+          messages: [
+            ...existingMessages,
+            expect.objectContaining({ content: 'Another message' }),
+            expect.objectContaining({ role: 'assistant', agentUsed: 'joke' }),
+          ],
+        }),
+        'user-1',
+      );
+
       // Verify agent service was called with previous messages (the code calls slice(0, -1) to exclude the just-added user message)
       expect(mockAgentService.processMessage).toHaveBeenCalledWith(
         'Another message',
         existingMessages,
         undefined,
         'conv-123',
+        'user-1',
         undefined,
-        undefined,
+        { summary: undefined, ownerId: 'user-1' },
       );
     });
 
     it('should handle forceAgent parameter', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
-      mockStorage.addConversation.mockImplementation(conv => conv);
+      mockStorage.getConversation.mockResolvedValue(undefined);
+      mockStorage.addConversation.mockResolvedValue();
 
       const response = await request(app).post('/api/chat').send({
         message: 'Tell me a joke',
@@ -141,8 +168,48 @@ describe('Chat Routes', () => {
         [],
         'trivia',
         expect.any(String),
+        'user-1',
+        undefined,
+        { summary: undefined, ownerId: 'user-1' },
+      );
+    });
+
+    it('should pass the stored summary through and save the updated one', async () => {
+      const summary = {
+        content: '- User: likes puns',
+        throughMessageId: 'msg-1',
+        updatedAt: new Date('2023-01-02'),
+      };
+      const updatedSummary = { ...summary, throughMessageId: 'msg-3' };
+      mockStorage.getConversation.mockResolvedValue({
+        ...mockConversation,
+        messages: [],
+        summary,
+      });
+      mockAgentService.processMessage.mockResolvedValue({
+        ...mockAgentResponse,
+        summary: updatedSummary,
+      });
+
+      const response = await request(app).post('/api/chat').send({
+        message: 'Another one',
+        conversationId: 'conv-123',
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockAgentService.processMessage).toHaveBeenCalledWith(
+        'Another one',
+        [],
         undefined,
+        'conv-123',
+        'user-1',
         undefined,
+        { summary, ownerId: 'user-1' },
+      );
+      expect(mockStorage.updateConversation).toHaveBeenCalledWith(
+        'conv-123',
+        expect.objectContaining({ summary: updatedSummary }),
+        'user-1',
       );
     });
 
@@ -172,8 +239,65 @@ describe('Chat Routes', () => {
       });
     });
 
+    it('should return 422 when the message is blocked by moderation', async () => {
+      const response = await request(app).post('/api/chat').send({
+        message: 'go kill yourself',
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({
+        message: BLOCKED_INPUT_MESSAGE,
+        code: 'CONTENT_BLOCKED',
+      });
+      expect(mockStorage.addConversation).not.toHaveBeenCalled();
+      expect(mockAgentService.processMessage).not.toHaveBeenCalled();
+    });
+
+    it('should redact PII before the message is stored or answered', async () => {
+      mockStorage.getConversation.mockResolvedValue(undefined);
+      mockStorage.addConversation.mockResolvedValue();
+
+      const response = await request(app).post('/api/chat').send({
+        message: 'My card is 4242 4242 4242 4242',
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockAgentService.processMessage.mock.calls[0][0]).toBe(
+        'My card is [REDACTED_CARD]',
+      );
+      const [, update] = mockStorage.updateConversation.mock.calls[0];
+      expect(update.messages![0].content).toBe('My card is [REDACTED_CARD]');
+    });
+
+    it('should return 422 and drop the reply when it is blocked', async () => {
+      mockStorage.getConversation.mockResolvedValue(undefined);
+      mockStorage.addConversation.mockResolvedValue();
+      mockAgentService.processMessage.mockResolvedValue({
+        content: BLOCKED_OUTPUT_MESSAGE,
+        agentUsed: 'joke',
+        confidence: 0.9,
+        blocked: 'hate',
+      });
+
+      const response = await request(app).post('/api/chat').send({
+        message: 'Tell me a joke',
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({
+        message: BLOCKED_OUTPUT_MESSAGE,
+        code: 'CONTENT_BLOCKED',
+      });
+      const [, update] = mockStorage.updateConversation.mock.calls[0];
+      expect(update.messages).toHaveLength(1);
+      expect(update.messages![0]).toMatchObject({
+        role: 'user',
+        content: 'Tell me a joke',
+      });
+    });
+
     it('should return 404 when conversationId not found', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
+      mockStorage.getConversation.mockResolvedValue(undefined);
 
       const response = await request(app).post('/api/chat').send({
         message: 'Hello',
@@ -190,8 +314,8 @@ describe('Chat Routes', () => {
     });
 
     it('should return 500 when agent service throws error', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
-      mockStorage.addConversation.mockImplementation(conv => conv);
+      mockStorage.getConversation.mockResolvedValue(undefined);
+      mockStorage.addConversation.mockResolvedValue();
       mockAgentService.processMessage.mockRejectedValue(
         new Error('Agent service error'),
       );
@@ -208,11 +332,10 @@ describe('Chat Routes', () => {
     });
 
     it('should generate proper conversation title', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
+      mockStorage.getConversation.mockResolvedValue(undefined);
       let capturedConversation: any;
-      mockStorage.addConversation.mockImplementation(conv => {
+      mockStorage.addConversation.mockImplementation(async conv => {
         capturedConversation = conv;
-        return conv;
       });
 
       // Test with short message
@@ -1,16 +1,22 @@
 import request from 'supertest';
 import express from 'express';
 import conversationsRouter from '../conversations';
-import { storage } from '../../storage/memoryStorage';
+import { conversationStore } from '../../storage/conversationStore';
+import { jsonBody } from '../../middleware/jsonBody';
 
 // Mock dependencies
-jest.mock('../../storage/memoryStorage');
+jest.mock('../../storage/conversationStore');
 
-const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockStorage = conversationStore as jest.Mocked<typeof conversationStore>;
 
-// Create Express app for testing
+// Create Express app for testing. Stands in for resolveIdentity: the caller
+// is `user-1` unless the test names another one.
 const app = express();
-app.use(express.json());
+app.use(jsonBody(['/api/conversations/import']));
+app.use((req, _res, next) => {
+  req.userId = (req.headers['x-test-user'] as string) || 'user-1';
+  next();
+});
 app.use('/api/conversations', conversationsRouter);
 
 describe('Conversations Routes', () => {
@@ -20,6 +26,7 @@ describe('Conversations Routes', () => {
 
   const mockConversation = {
     id: 'conv-123',
+    ownerId: 'user-1',
     title: 'Test Conversation',
     messages: [
       {
@@ -46,7 +53,7 @@ describe('Conversations Routes', () => {
   describe('GET /api/conversations', () => {
     it('should return all conversations with last message only', async () => {
       const conversations = [mockConversation];
-      mockStorage.getSortedConversations.mockReturnValue(conversations);
+      mockStorage.getSortedConversations.mockResolvedValue(conversations);
 
       const response = await request(app).get('/api/conversations');
 
@@ -72,11 +79,19 @@ describe('Conversations Routes', () => {
 
       // Should only have last message
       expect(response.body[0].messages).toHaveLength(1);
-      expect(mockStorage.getSortedConversations).toHaveBeenCalled();
+      expect(mockStorage.getSortedConversations).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should list only the calling user conversations', async () => {
+      mockStorage.getSortedConversations.mockResolvedValue([]);
+
+      await request(app).get('/api/conversations').set('x-test-user', 'anon_x');
+
+      expect(mockStorage.getSortedConversations).toHaveBeenCalledWith('anon_x');
     });
 
     it('should handle empty conversations list', async () => {
-      mockStorage.getSortedConversations.mockReturnValue([]);
+      mockStorage.getSortedConversations.mockResolvedValue([]);
 
       const response = await request(app).get('/api/conversations');
 
@@ -85,9 +100,9 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 500 when storage throws error', async () => {
-      mockStorage.getSortedConversations.mockImplementation(() => {
-        throw new Error('Storage error');
-      });
+      mockStorage.getSortedConversations.mockRejectedValue(
+        new Error('Storage error'),
+      );
 
       const response = await request(app).get('/api/conversations');
 
@@ -101,7 +116,7 @@ describe('Conversations Routes', () => {
 
   describe('GET /api/conversations/:id', () => {
     it('should return specific conversation with all messages', async () => {
-      mockStorage.getConversation.mockReturnValue(mockConversation);
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
 
       const response = await request(app).get('/api/conversations/conv-123');
 
@@ -115,11 +130,30 @@ describe('Conversations Routes', () => {
         ]),
       });
 
-      expect(mockStorage.getConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockStorage.getConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-1',
+      );
+    });
+
+    it("should return 404 for another user's conversation", async () => {
+      mockStorage.getConversation.mockImplementation(async (id, ownerId) =>
+        ownerId === mockConversation.ownerId ? mockConversation : undefined,
+      );
+
+      const response = await request(app)
+        .get('/api/conversations/conv-123')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        message: 'Conversation not found',
+        code: 'CONVERSATION_NOT_FOUND',
+      });
     });
 
     it('should return 404 when conversation not found', async () => {
-      mockStorage.getConversation.mockReturnValue(undefined);
+      mockStorage.getConversation.mockResolvedValue(undefined);
 
       const response = await request(app).get('/api/conversations/nonexistent');
 
@@ -131,9 +165,7 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 500 when storage throws error', async () => {
-      mockStorage.getConversation.mockImplementation(() => {
-        throw new Error('Storage error');
-      });
+      mockStorage.getConversation.mockRejectedValue(new Error('Storage error'));
 
       const response = await request(app).get('/api/conversations/conv-123');
 
@@ -147,9 +179,7 @@ describe('Conversations Routes', () => {
 
   describe('POST /api/conversations', () => {
     it('should create new conversation with valid title', async () => {
-      mockStorage.addConversation.mockImplementation(conv => {
-        return conv;
-      });
+      mockStorage.addConversation.mockResolvedValue();
 
       const response = await request(app).post('/api/conversations').send({
         title: 'New Conversation',
@@ -167,6 +197,7 @@ describe('Conversations Routes', () => {
       expect(mockStorage.addConversation).toHaveBeenCalledWith(
         expect.objectContaining({
           id: expect.any(String),
+          ownerId: 'user-1',
           title: 'New Conversation',
           messages: [],
           createdAt: expect.any(Date),
@@ -176,7 +207,7 @@ describe('Conversations Routes', () => {
     });
 
     it('should trim whitespace from title', async () => {
-      mockStorage.addConversation.mockImplementation(conv => conv);
+      mockStorage.addConversation.mockResolvedValue();
 
       const response = await request(app).post('/api/conversations').send({
         title: '  Trimmed Title  ',
@@ -219,9 +250,7 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 500 when storage throws error', async () => {
-      mockStorage.addConversation.mockImplementation(() => {
-        throw new Error('Storage error');
-      });
+      mockStorage.addConversation.mockRejectedValue(new Error('Storage error'));
 
       const response = await request(app).post('/api/conversations').send({
         title: 'Valid Title',
@@ -243,7 +272,7 @@ describe('Conversations Routes', () => {
         updatedAt: new Date('2023-01-02'),
       };
 
-      mockStorage.updateConversation.mockReturnValue(updatedConversation);
+      mockStorage.updateConversation.mockResolvedValue(updatedConversation);
 
       const response = await request(app)
         .put('/api/conversations/conv-123')
@@ -264,6 +293,7 @@ describe('Conversations Routes', () => {
           title: 'Updated Title',
           updatedAt: expect.any(Date),
         }),
+        'user-1',
       );
     });
 
@@ -274,7 +304,7 @@ describe('Conversations Routes', () => {
         updatedAt: new Date('2023-01-02'),
       };
 
-      mockStorage.updateConversation.mockReturnValue(updatedConversation);
+      mockStorage.updateConversation.mockResolvedValue(updatedConversation);
 
       const response = await request(app)
         .put('/api/conversations/conv-123')
@@ -290,6 +320,7 @@ describe('Conversations Routes', () => {
         expect.objectContaining({
           title: 'Trimmed Update',
         }),
+        'user-1',
       );
     });
 
@@ -310,7 +341,7 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 404 when conversation not found', async () => {
-      mockStorage.updateConversation.mockReturnValue(null);
+      mockStorage.updateConversation.mockResolvedValue(null);
 
       const response = await request(app)
         .put('/api/conversations/nonexistent')
@@ -326,9 +357,9 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 500 when storage throws error', async () => {
-      mockStorage.updateConversation.mockImplementation(() => {
-        throw new Error('Storage error');
-      });
+      mockStorage.updateConversation.mockRejectedValue(
+        new Error('Storage error'),
+      );
 
       const response = await request(app)
         .put('/api/conversations/conv-123')
@@ -346,18 +377,35 @@ describe('Conversations Routes', () => {
 
   describe('DELETE /api/conversations/:id', () => {
     it('should delete conversation successfully', async () => {
-      mockStorage.deleteConversation.mockReturnValue(true);
+      mockStorage.deleteConversation.mockResolvedValue(true);
 
       const response = await request(app).delete('/api/conversations/conv-123');
 
       expect(response.status).toBe(204);
       expect(response.body).toEqual({});
 
-      expect(mockStorage.deleteConversation).toHaveBeenCalledWith('conv-123');
+      expect(mockStorage.deleteConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-1',
+      );
+    });
+
+    it("should not delete another user's conversation", async () => {
+      mockStorage.deleteConversation.mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete('/api/conversations/conv-123')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(mockStorage.deleteConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-2',
+      );
     });
 
     it('should return 404 when conversation not found', async () => {
-      mockStorage.deleteConversation.mockReturnValue(false);
+      mockStorage.deleteConversation.mockResolvedValue(false);
 
       const response = await request(app).delete(
         '/api/conversations/nonexistent',
@@ -371,9 +419,9 @@ describe('Conversations Routes', () => {
     });
 
     it('should return 500 when storage throws error', async () => {
-      mockStorage.deleteConversation.mockImplementation(() => {
-        throw new Error('Storage error');
-      });
+      mockStorage.deleteConversation.mockRejectedValue(
+        new Error('Storage error'),
+      );
 
       const response = await request(app).delete('/api/conversations/conv-123');
 
@@ -384,4 +432,307 @@ describe('Conversations Routes', () => {
       });
     });
   });
+
+  describe('GET /api/conversations/search', () => {
+    it('should search only the caller conversations', async () => {
+      mockStorage.getConversations.mockResolvedValue([mockConversation]);
+
+      const response = await request(app).get(
+        '/api/conversations/search?q=hi%20there',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        expect.objectContaining({
+          conversationId: 'conv-123',
+          titleMatch: false,
+          matchCount: 1,
+          matches: [
+            expect.objectContaining({
+              messageId: 'msg-2',
+              agentUsed: 'general',
+              snippet: 'Hi there!',
+            }),
+          ],
+        }),
+      ]);
+      expect(mockStorage.getConversations).toHaveBeenCalledWith('user-1');
+      expect(mockStorage.getConversation).not.toHaveBeenCalled();
+    });
+
+    it('should apply agent and date filters', async () => {
+      mockStorage.getConversations.mockResolvedValue([mockConversation]);
+
+      const byAgent = await request(app).get(
+        '/api/conversations/search?q=hello&agentUsed=general',
+      );
+      const byDate = await request(app).get(
+        '/api/conversations/search?q=hello&from=2023-06-01',
+      );
+
+      expect(byAgent.body).toEqual([]);
+      expect(byDate.body).toEqual([]);
+    });
+
+    it.each([
+      ['a missing query', ''],
+      ['an invalid date', 'q=hello&from=not-a-date'],
+      ['an out-of-range limit', 'q=hello&limit=0'],
+    ])('should reject %s', async (_label, query) => {
+      const response = await request(app).get(
+        `/api/conversations/search?${query}`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_REQUEST');
+      expect(mockStorage.getConversations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/conversations/:id/messages', () => {
+    it('should return the newest page by default', async () => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+
+      const response = await request(app).get(
+        '/api/conversations/conv-123/messages?limit=1',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.messages.map((m: { id: string }) => m.id)).toEqual([
+        'msg-2',
+      ]);
+      expect(response.body.pageInfo).toEqual({
+        hasOlder: true,
+        hasNewer: false,
+        oldestId: 'msg-2',
+        newestId: 'msg-2',
+      });
+      expect(mockStorage.getConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-1',
+      );
+    });
+
+    it('should page back from a before cursor', async () => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+
+      const response = await request(app).get(
+        '/api/conversations/conv-123/messages?before=msg-2',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.messages.map((m: { id: string }) => m.id)).toEqual([
+        'msg-1',
+      ]);
+      expect(response.body.pageInfo.hasOlder).toBe(false);
+    });
+
+    it('should reject an unknown cursor', async () => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+
+      const response = await request(app).get(
+        '/api/conversations/conv-123/messages?before=msg-404',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        message: 'Cursor message not found in this conversation',
+        code: 'INVALID_CURSOR',
+      });
+    });
+
+    it('should reject both cursors at once', async () => {
+      const response = await request(app).get(
+        '/api/conversations/conv-123/messages?before=msg-2&after=msg-1',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_REQUEST');
+      expect(mockStorage.getConversation).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for another user's conversation", async () => {
+      mockStorage.getConversation.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/api/conversations/conv-123/messages')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('CONVERSATION_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/conversations/:id/export', () => {
+    it('should download a JSON transcript by default', async () => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+
+      const response = await request(app).get(
+        '/api/conversations/conv-123/export',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.headers['content-disposition']).toBe(
+        'attachment; filename="conversation-conv-123.json"',
+      );
+      expect(JSON.parse(response.text).conversation).toMatchObject({
+        id: 'conv-123',
+        title: 'Test Conversation',
+        messages: [
+          { id: 'msg-1' },
+          { id: 'msg-2', agentUsed: 'general', confidence: 0.8 },
+        ],
+      });
+      expect(mockStorage.getConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-1',
+      );
+    });
+
+    it.each([
+      ['markdown', /^text\/markdown/, 'md'],
+      ['jsonl', /^application\/x-ndjson/, 'jsonl'],
+    ])('should download a %s transcript', async (format, type, ext) => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+
+      const response = await request(app).get(
+        `/api/conversations/conv-123/export?format=${format}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(type);
+      expect(response.headers['content-disposition']).toContain(
+        `conversation-conv-123.${ext}`,
+      );
+      expect(response.text).toContain('Hi there!');
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app).get(
+        '/api/conversations/conv-123/export?format=pdf',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        message: 'format must be one of: json, markdown, jsonl',
+        code: 'INVALID_REQUEST',
+      });
+      expect(mockStorage.getConversation).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for another user's conversation", async () => {
+      mockStorage.getConversation.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/api/conversations/conv-123/export')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(mockStorage.getConversation).toHaveBeenCalledWith(
+        'conv-123',
+        'user-2',
+      );
+    });
+  });
+
+  describe('POST /api/conversations/import', () => {
+    const exportAs = async (format: string): Promise<string> => {
+      mockStorage.getConversation.mockResolvedValue(mockConversation);
+      const response = await request(app).get(
+        `/api/conversations/conv-123/export?format=${format}`,
+      );
+      return response.text;
+    };
+
+    it.each(['json', 'markdown', 'jsonl'])(
+      'should import a %s export as a new conversation for the caller',
+      async format => {
+        const data = await exportAs(format);
+        mockStorage.addConversation.mockResolvedValue();
+
+        const response = await request(app)
+          .post('/api/conversations/import')
+          .set('x-test-user', 'user-2')
+          .send({ format, data });
+
+        expect(response.status).toBe(201);
+        expect(response.body.id).not.toBe('conv-123');
+        expect(response.body).toMatchObject({
+          ownerId: 'user-2',
+          title: 'Test Conversation',
+          createdAt: '2023-01-01T00:00:00.000Z',
+        });
+        expect(response.body.messages).toEqual([
+          expect.objectContaining({
+            id: 'msg-1',
+            content: 'Hello',
+            conversationId: response.body.id,
+          }),
+          expect.objectContaining({
+            id: 'msg-2',
+            agentUsed: 'general',
+            confidence: 0.8,
+            conversationId: response.body.id,
+          }),
+        ]);
+        expect(mockStorage.addConversation).toHaveBeenCalledWith(
+          expect.objectContaining({
+            id: response.body.id,
+            ownerId: 'user-2',
+          }),
+        );
+      },
+    );
+
+    it('should import transcripts larger than the default body limit', async () => {
+      mockStorage.getConversation.mockResolvedValue({
+        ...mockConversation,
+        messages: Array.from({ length: 300 }, (_, i) => ({
+          ...mockConversation.messages[i % 2],
+          id: `msg-${i}`,
+          content: `Message ${i}: ${'x'.repeat(500)}`,
+        })),
+      });
+      const data = (
+        await request(app).get('/api/conversations/conv-123/export')
+      ).text;
+      mockStorage.addConversation.mockResolvedValue();
+      expect(data.length).toBeGreaterThan(100 * 1024);
+
+      const response = await request(app)
+        .post('/api/conversations/import')
+        .send({ format: 'json', data });
+
+      expect(response.status).toBe(201);
+      expect(response.body.messages).toHaveLength(300);
+    });
+
+    it('should reject an invalid transcript', async () => {
+      const response = await request(app)
+        .post('/api/conversations/import')
+        .send({ format: 'jsonl', data: 'not json' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        message: 'Invalid transcript: Line 1 is not valid JSON',
+        code: 'INVALID_TRANSCRIPT',
+      });
+      expect(mockStorage.addConversation).not.toHaveBeenCalled();
+    });
+
+    it('should require transcript data and a known format', async () => {
+      const missing = await request(app)
+        .post('/api/conversations/import')
+        .send({ format: 'json' });
+      const unknown = await request(app)
+        .post('/api/conversations/import')
+        .send({ format: 'xml', data: '<x/>' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.body.code).toBe('INVALID_REQUEST');
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.code).toBe('INVALID_REQUEST');
+    });
+  });
 });
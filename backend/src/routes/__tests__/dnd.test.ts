@@ -0,0 +1,97 @@
+import request from 'supertest';
+import express from 'express';
+import dndRouter from '../dnd';
+import { campaignStore } from '../../storage/campaignStore';
+import type { Campaign } from '../../agents/dndCampaign';
+
+jest.mock('../../storage/campaignStore');
+
+const mockStore = campaignStore as jest.Mocked<typeof campaignStore>;
+
+// Stands in for resolveIdentity: the caller is `user-1` unless the test
+// names another one.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = (req.headers['x-test-user'] as string) || 'user-1';
+  next();
+});
+app.use('/api/dnd', dndRouter);
+
+describe('D&D Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const campaign: Campaign = {
+    id: 'conv-1',
+    ownerId: 'user-1',
+    conversationId: 'conv-1',
+    name: 'D&D Campaign',
+    party: [],
+    encounter: {
+      title: 'Goblin Ambush',
+      setting: 'Forest path',
+      round: 2,
+      turn: 0,
+      order: [{ id: 'g1', name: 'Goblin', side: 'enemy', initiative: 14 }],
+    },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  describe('GET /api/dnd/campaigns', () => {
+    it("should list the caller's campaigns", async () => {
+      mockStore.list.mockResolvedValue([campaign]);
+
+      const response = await request(app)
+        .get('/api/dnd/campaigns')
+        .set('x-test-user', 'anon_42');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        expect.objectContaining({ id: 'conv-1' }),
+      ]);
+      expect(mockStore.list).toHaveBeenCalledWith('anon_42');
+    });
+  });
+
+  describe('GET /api/dnd/campaigns/:id', () => {
+    it('should return the party and encounter', async () => {
+      mockStore.get.mockResolvedValue(campaign);
+
+      const response = await request(app).get('/api/dnd/campaigns/conv-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.encounter).toMatchObject({
+        round: 2,
+        order: [{ name: 'Goblin', initiative: 14 }],
+      });
+      expect(mockStore.get).toHaveBeenCalledWith('user-1', 'conv-1');
+    });
+
+    it("should answer 404 for a missing or another user's campaign", async () => {
+      mockStore.get.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/dnd/campaigns/conv-1')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        message: 'Campaign not found',
+        code: 'CAMPAIGN_NOT_FOUND',
+      });
+      expect(mockStore.get).toHaveBeenCalledWith('user-2', 'conv-1');
+    });
+
+    it('should handle storage errors', async () => {
+      mockStore.get.mockRejectedValue(new Error('down'));
+
+      const response = await request(app).get('/api/dnd/campaigns/conv-1');
+
+      expect(response.status).toBe(500);
+      expect(response.body.code).toBe('INTERNAL_ERROR');
+    });
+  });
+});
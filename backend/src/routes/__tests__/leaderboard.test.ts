@@ -0,0 +1,95 @@
+import request from 'supertest';
+import express from 'express';
+import leaderboardRouter from '../leaderboard';
+import { getLeaderboard } from '../../games/leaderboard';
+
+jest.mock('../../games/leaderboard', () => ({
+  ...jest.requireActual('../../games/leaderboard'),
+  getLeaderboard: jest.fn(),
+}));
+
+const mockGetLeaderboard = getLeaderboard as jest.MockedFunction<
+  typeof getLeaderboard
+>;
+
+// Stands in for resolveIdentity: the caller is `user-1` unless the test
+// names another one.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = (req.headers['x-test-user'] as string) || 'user-1';
+  next();
+});
+app.use('/api/leaderboard', leaderboardRouter);
+
+describe('Leaderboard Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const entry = {
+    rank: 1,
+    name: 'Guest',
+    points: 40,
+    correct: 4,
+    answered: 5,
+    bestStreak: 3,
+    you: true,
+  };
+
+  it("should return the trivia leaderboard with the caller's standing by default", async () => {
+    mockGetLeaderboard.mockResolvedValue({
+      quiz: 'trivia',
+      entries: [entry],
+      you: entry,
+    });
+
+    const response = await request(app)
+      .get('/api/leaderboard')
+      .set('x-test-user', 'anon_42');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      quiz: 'trivia',
+      entries: [entry],
+      you: entry,
+    });
+    expect(mockGetLeaderboard).toHaveBeenCalledWith('trivia', 'anon_42', 10);
+  });
+
+  it('should take the quiz and size from the query', async () => {
+    mockGetLeaderboard.mockResolvedValue({
+      quiz: 'riddle',
+      entries: [],
+      you: null,
+    });
+
+    const response = await request(app).get(
+      '/api/leaderboard?quiz=riddle&limit=25',
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockGetLeaderboard).toHaveBeenCalledWith('riddle', 'user-1', 25);
+  });
+
+  it('should reject an unknown quiz or a bad limit', async () => {
+    const quiz = await request(app).get('/api/leaderboard?quiz=chess');
+    expect(quiz.status).toBe(400);
+    expect(quiz.body.code).toBe('INVALID_QUIZ');
+
+    const limit = await request(app).get('/api/leaderboard?limit=500');
+    expect(limit.status).toBe(400);
+    expect(limit.body.code).toBe('INVALID_LIMIT');
+
+    expect(mockGetLeaderboard).not.toHaveBeenCalled();
+  });
+
+  it('should handle storage errors', async () => {
+    mockGetLeaderboard.mockRejectedValue(new Error('down'));
+
+    const response = await request(app).get('/api/leaderboard');
+
+    expect(response.status).toBe(500);
+    expect(response.body.code).toBe('INTERNAL_ERROR');
+  });
+});
@@ -0,0 +1,122 @@
+import request from 'supertest';
+import express from 'express';
+import memoryRouter from '../memory';
+import { userMemoryStore } from '../../storage/userMemoryStore';
+import { UserMemory } from '../../types';
+
+jest.mock('../../storage/userMemoryStore');
+
+const mockStore = userMemoryStore as jest.Mocked<typeof userMemoryStore>;
+
+// Stands in for resolveIdentity: the caller is `user-1` unless the test
+// names another one.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = (req.headers['x-test-user'] as string) || 'user-1';
+  next();
+});
+app.use('/api/memory', memoryRouter);
+
+describe('Memory Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const memory = (overrides: Partial<UserMemory>): UserMemory => ({
+    id: 'mem-1',
+    userId: 'user-1',
+    kind: 'fact',
+    key: 'name',
+    content: 'Name: Sam',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  });
+
+  describe('GET /api/memory', () => {
+    it("should list the caller's memories", async () => {
+      mockStore.list.mockResolvedValue([memory({})]);
+
+      const response = await request(app)
+        .get('/api/memory')
+        .set('x-test-user', 'anon_42');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        expect.objectContaining({ id: 'mem-1', content: 'Name: Sam' }),
+      ]);
+      expect(mockStore.list).toHaveBeenCalledWith('anon_42');
+    });
+
+    it('should narrow to what one agent is shown', async () => {
+      mockStore.list.mockResolvedValue([
+        memory({ id: 'shared' }),
+        memory({ id: 'music', agentType: 'music_guru' }),
+        memory({ id: 'dnd', agentType: 'dnd_master' }),
+      ]);
+
+      const response = await request(app).get(
+        '/api/memory?agentType=music_guru',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((m: UserMemory) => m.id)).toEqual([
+        'shared',
+        'music',
+      ]);
+    });
+
+    it('should reject an unknown agentType', async () => {
+      const response = await request(app).get('/api/memory?agentType=wizard');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_AGENT_TYPE');
+      expect(mockStore.list).not.toHaveBeenCalled();
+    });
+
+    it('should handle storage errors', async () => {
+      mockStore.list.mockRejectedValue(new Error('down'));
+
+      const response = await request(app).get('/api/memory');
+
+      expect(response.status).toBe(500);
+      expect(response.body.code).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('DELETE /api/memory/:id', () => {
+    it('should delete one of the caller memories', async () => {
+      mockStore.delete.mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/memory/mem-1');
+
+      expect(response.status).toBe(204);
+      expect(mockStore.delete).toHaveBeenCalledWith('user-1', 'mem-1');
+    });
+
+    it('should 404 for a memory the caller does not own', async () => {
+      mockStore.delete.mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete('/api/memory/mem-1')
+        .set('x-test-user', 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('MEMORY_NOT_FOUND');
+      expect(mockStore.delete).toHaveBeenCalledWith('user-2', 'mem-1');
+    });
+  });
+
+  describe('DELETE /api/memory', () => {
+    it('should clear every memory for the caller', async () => {
+      mockStore.clear.mockResolvedValue(3);
+
+      const response = await request(app).delete('/api/memory');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ deleted: 3 });
+      expect(mockStore.clear).toHaveBeenCalledWith('user-1');
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import request from 'supertest';
+import express from 'express';
+import openaiCompatRouter from '../openaiCompat';
+import { agentService } from '../../agents/agentService';
+import { AgentResponse } from '../../agents/types';
+import { checkChatRateLimit } from '../../rateLimit/checkChatLimit';
+import {
+  BLOCKED_INPUT_MESSAGE,
+  BLOCKED_OUTPUT_MESSAGE,
+} from '../../moderation/moderation';
+
+jest.mock('../../agents/agentService');
+jest.mock('../../rateLimit/checkChatLimit');
+
+const mockAgentService = agentService as jest.Mocked<typeof agentService>;
+const mockCheckLimit = checkChatRateLimit as jest.MockedFunction<
+  typeof checkChatRateLimit
+>;
+
+// The middleware stands in for resolveIdentity.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = 'user-1';
+  req.tier = 'authenticated';
+  next();
+});
+app.use('/v1', openaiCompatRouter);
+
+/** The JSON payloads of an SSE body, with `[DONE]` kept as a string. */
+function events(text: string): any[] {
+  return text
+    .split('\n\n')
+    .filter(frame => frame.startsWith('data: '))
+    .map(frame => frame.slice('data: '.length))
+    .map(data => (data === '[DONE]' ? data : JSON.parse(data)));
+}
+
+describe('OpenAI-compatible routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCheckLimit.mockResolvedValue({ allowed: true });
+    mockAgentService.processMessage.mockResolvedValue({
+      content: 'Why did the chicken cross the road?',
+      agentUsed: 'joke',
+      confidence: 0.9,
+    });
+  });
+
+  describe('GET /v1/models', () => {
+    it('lists auto and every agent as a model', async () => {
+      const response = await request(app).get('/v1/models');
+
+      expect(response.status).toBe(200);
+      expect(response.body.object).toBe('list');
+      const ids = response.body.data.map((m: { id: string }) => m.id);
+      expect(ids[0]).toBe('auto');
+      expect(ids).toEqual(expect.arrayContaining(['general', 'joke']));
+      expect(response.body.data[0]).toMatchObject({
+        object: 'model',
+        created: expect.any(Number),
+        owned_by: expect.any(String),
+      });
+    });
+  });
+
+  describe('POST /v1/chat/completions', () => {
+    it('returns a chat.completion from the agent service', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Tell me a joke' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        id: expect.stringMatching(/^chatcmpl-/),
+        object: 'chat.completion',
+        model: 'auto',
+        agent: 'joke',
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'Why did the chicken cross the road?',
+            },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+      expect(mockCheckLimit).toHaveBeenCalledWith('user-1', 'authenticated');
+      expect(mockAgentService.processMessage).toHaveBeenCalledWith(
+        'Tell me a joke',
+        [],
+        undefined,
+        undefined,
+        'user-1',
+        'authenticated',
+        { ownerId: 'user-1', validate: true },
+      );
+    });
+
+    it('forces the agent named by the model and passes earlier turns as history', async () => {
+      await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'trivia',
+          messages: [
+            { role: 'system', content: 'You are a pirate.' },
+            { role: 'user', content: 'Hi' },
+            { role: 'assistant', content: 'Hello!' },
+            {
+              role: 'user',
+              content: [{ type: 'text', text: 'A fact, please' }],
+            },
+          ],
+        });
+
+      const [message, history, forceAgent] =
+        mockAgentService.processMessage.mock.calls[0];
+      expect(message).toBe('A fact, please');
+      expect(forceAgent).toBe('trivia');
+      expect(history!.map(m => [m.role, m.content])).toEqual([
+        ['user', 'Hi'],
+        ['assistant', 'Hello!'],
+      ]);
+    });
+
+    it('rejects an unknown model', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          model: 'gpt-4o',
+          messages: [{ role: 'user', content: 'Hi' }],
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toMatchObject({
+        code: 'model_not_found',
+        param: 'model',
+      });
+      expect(mockAgentService.processMessage).not.toHaveBeenCalled();
+    });
+
+    it('requires the last message to be from the user', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'assistant', content: 'Hello!' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.type).toBe('invalid_request_error');
+    });
+
+    it('returns 429 with Retry-After when the chat limit is reached', async () => {
+      mockCheckLimit.mockResolvedValue({
+        allowed: false,
+        bucket: 'minute',
+        limit: 10,
+        retryAfterSec: 42,
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('42');
+      expect(response.body.error.code).toBe('rate_limit_exceeded');
+      expect(mockAgentService.processMessage).not.toHaveBeenCalled();
+    });
+
+    it('blocks a message that fails moderation', async () => {
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({
+          messages: [
+            { role: 'user', content: "I'm going to shoot him tomorrow" },
+          ],
+        });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error).toMatchObject({
+        code: 'CONTENT_BLOCKED',
+        message: BLOCKED_INPUT_MESSAGE,
+      });
+      expect(mockAgentService.processMessage).not.toHaveBeenCalled();
+    });
+
+    it('finishes a withheld reply with content_filter', async () => {
+      mockAgentService.processMessage.mockResolvedValue({
+        content: 'That reply was withheld.',
+        agentUsed: 'joke',
+        confidence: 0.9,
+        blocked: 'hate',
+      });
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.choices[0].finish_reason).toBe('content_filter');
+    });
+
+    it('returns an OpenAI-style 500 when the agent service fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockAgentService.processMessage.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app)
+        .post('/v1/chat/completions')
+        .send({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toMatchObject({
+        type: 'server_error',
+        code: 'INTERNAL_ERROR',
+      });
+      consoleSpy.mockRestore();
+    });
+
+    describe('with stream: true', () => {
+      const LINE = 'The quick brown fox jumps over the lazy dog. ';
+
+      /** Have the agent stream `deltas`, then return `reply`. */
+      const streamReply = (
+        deltas: string[],
+        reply: Partial<AgentResponse> & { content: string },
+      ) =>
+        mockAgentService.processMessage.mockImplementation(
+          async (_message, _history, _agent, _conv, _user, _tier, options) => {
+            deltas.forEach(delta => options?.onTextDelta?.(delta));
+            return { agentUsed: 'joke', confidence: 0.9, ...reply };
+          },
+        );
+
+      it('streams cleared text deltas as chat.completion.chunk events', async () => {
+        streamReply([LINE, LINE, LINE], { content: LINE.repeat(3) });
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            model: 'joke',
+            stream: true,
+            messages: [{ role: 'user', content: 'Tell me a joke' }],
+          });
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toMatch(/text\/event-stream/);
+        const frames = events(response.text);
+        expect(frames[frames.length - 1]).toBe('[DONE]');
+        const chunks = frames.slice(0, -1);
+        expect(chunks.every(c => c.object === 'chat.completion.chunk')).toBe(
+          true,
+        );
+        expect(chunks[0].choices[0].delta).toEqual({
+          role: 'assistant',
+          content: '',
+        });
+        // Text is held back until it is clear of a possible redaction; the
+        // rest of the moderated reply follows once it is done.
+        expect(chunks.map(c => c.choices[0].delta.content)).toEqual([
+          '',
+          'The quick brown fox jumps ',
+          'over the lazy dog. The quick brown fox jumps ',
+          `over the lazy dog. ${LINE}`,
+          undefined,
+        ]);
+        expect(chunks[chunks.length - 1]).toMatchObject({
+          agent: 'joke',
+          choices: [{ delta: {}, finish_reason: 'stop' }],
+        });
+        const [, , , conversationId, , , options] =
+          mockAgentService.processMessage.mock.calls[0];
+        expect(conversationId).toBeUndefined();
+        expect(options).toMatchObject({ ownerId: 'user-1', validate: true });
+        expect(options?.signal).toBeInstanceOf(AbortSignal);
+      });
+
+      it('sends a reply that was not streamed as one delta', async () => {
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            stream: true,
+            messages: [{ role: 'user', content: 'Tell me a joke' }],
+          });
+
+        const chunks = events(response.text).slice(0, -1);
+        expect(chunks.map(c => c.choices[0].delta.content)).toEqual([
+          '',
+          'Why did the chicken cross the road?',
+          undefined,
+        ]);
+      });
+
+      it('streams a redacted reply, never the raw provider text', async () => {
+        streamReply(
+          [
+            'Sure! The card on file for this booking is 4242 4242 ',
+            '4242 4242, and it will be charged the day before the trip, ',
+            'so there is nothing more to pay when you arrive at the hotel.',
+          ],
+          {
+            content:
+              'Sure! The card on file for this booking is [REDACTED_CARD], and it will be charged the day before the trip, so there is nothing more to pay when you arrive at the hotel.',
+          },
+        );
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            stream: true,
+            messages: [{ role: 'user', content: 'Which card did I use?' }],
+          });
+
+        const chunks = events(response.text).slice(0, -1);
+        const deltas = chunks.map(c => c.choices[0].delta.content ?? '');
+        expect(deltas.length).toBeGreaterThan(3);
+        for (const delta of deltas) {
+          expect(delta).not.toMatch(/4242/);
+        }
+        expect(deltas.join('')).toBe(
+          'Sure! The card on file for this booking is [REDACTED_CARD], and it will be charged the day before the trip, so there is nothing more to pay when you arrive at the hotel.',
+        );
+      });
+
+      it('stops a withheld reply before the offending text', async () => {
+        streamReply(
+          [LINE, LINE, 'Honestly, all refugees are ', 'subhuman. ', LINE],
+          { content: BLOCKED_OUTPUT_MESSAGE, blocked: 'hate' },
+        );
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            stream: true,
+            messages: [{ role: 'user', content: 'Tell me a joke' }],
+          });
+
+        expect(response.text).not.toContain('subhuman');
+        const chunks = events(response.text).slice(0, -1);
+        const content = chunks
+          .map(c => c.choices[0].delta.content ?? '')
+          .join('');
+        expect(content.startsWith(LINE)).toBe(true);
+        expect(content).not.toContain(BLOCKED_OUTPUT_MESSAGE);
+        expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe(
+          'content_filter',
+        );
+      });
+
+      it('sends only the notice for a reply withheld before any text', async () => {
+        streamReply(['Honestly, all refugees are subhuman.'], {
+          content: BLOCKED_OUTPUT_MESSAGE,
+          blocked: 'hate',
+        });
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            stream: true,
+            messages: [{ role: 'user', content: 'Tell me a joke' }],
+          });
+
+        expect(response.text).not.toContain('subhuman');
+        const chunks = events(response.text).slice(0, -1);
+        expect(chunks.map(c => c.choices[0].delta.content)).toEqual([
+          '',
+          BLOCKED_OUTPUT_MESSAGE,
+          undefined,
+        ]);
+        expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe(
+          'content_filter',
+        );
+      });
+
+      it('reports a failure inside the stream', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+        mockAgentService.processMessage.mockRejectedValue(new Error('boom'));
+
+        const response = await request(app)
+          .post('/v1/chat/completions')
+          .send({
+            stream: true,
+            messages: [{ role: 'user', content: 'Hi' }],
+          });
+
+        expect(response.status).toBe(200);
+        const frames = events(response.text);
+        expect(frames[frames.length - 1]).toMatchObject({
+          error: { code: 'INTERNAL_ERROR' },
+        });
+        expect(frames).not.toContain('[DONE]');
+        consoleSpy.mockRestore();
+      });
+    });
+  });
+});
@@ -55,6 +55,19 @@ describe('Reactions Routes', () => {
       );
     });
 
+    it('should pass the curated content id through', async () => {
+      mockJokeLearningSystem.recordReaction.mockImplementation(() => {});
+
+      const response = await request(app)
+        .post('/api/reactions/record')
+        .send({ ...validReaction, contentId: 'joke_007' });
+
+      expect(response.status).toBe(200);
+      expect(mockJokeLearningSystem.recordReaction).toHaveBeenCalledWith(
+        expect.objectContaining({ contentId: 'joke_007' }),
+      );
+    });
+
     it('should return 400 when messageId is missing', async () => {
       const invalidReaction = {
         userId: validReaction.userId,
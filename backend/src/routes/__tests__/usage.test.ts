@@ -0,0 +1,123 @@
+import request from 'supertest';
+import express from 'express';
+import usageRouter from '../usage';
+import { usageService } from '../../usage/usageService';
+import { usageStore } from '../../storage/usageStore';
+import { USAGE_BUDGETS } from '../../rateLimit/tierLimits';
+
+jest.mock('../../usage/usageService');
+jest.mock('../../storage/usageStore');
+
+const mockService = usageService as jest.Mocked<typeof usageService>;
+const mockStore = usageStore as jest.Mocked<typeof usageStore>;
+
+// Stands in for resolveIdentity: the caller is `user-1` unless the test
+// names another one.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.userId = (req.headers['x-test-user'] as string) || 'user-1';
+  req.tier = 'authenticated';
+  next();
+});
+app.use('/api/usage', usageRouter);
+
+const totals = {
+  requests: 2,
+  inputTokens: 300,
+  outputTokens: 40,
+  cacheReadTokens: 0,
+  costUsd: 0.01,
+};
+
+describe('Usage Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.USAGE_ADMIN_USER_IDS = 'admin-1, admin-2';
+    mockService.report.mockImplementation(async (since, userId) => ({
+      ...(userId !== undefined && { userId }),
+      since,
+      totals,
+      byModel: [],
+      byAgent: [],
+      byConversation: [],
+    }));
+    mockStore.totals.mockResolvedValue(totals);
+  });
+
+  afterEach(() => {
+    delete process.env.USAGE_ADMIN_USER_IDS;
+  });
+
+  describe('GET /api/usage', () => {
+    it("should report the caller's last 30 days with today's budget", async () => {
+      const response = await request(app).get('/api/usage');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          userId: 'user-1',
+          totals,
+          budget: expect.objectContaining({
+            tier: 'authenticated',
+            tokensPerDay: USAGE_BUDGETS.authenticated.tokensPerDay,
+            today: totals,
+          }),
+        }),
+      );
+      const [since, userId] = mockService.report.mock.calls[0];
+      expect(userId).toBe('user-1');
+      expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(
+        30 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should reject an invalid number of days', async () => {
+      const response = await request(app).get('/api/usage?days=0');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DAYS');
+    });
+
+    it("should not show a user someone else's usage", async () => {
+      const other = await request(app).get('/api/usage?userId=user-2');
+      const everyone = await request(app).get('/api/usage?all=true');
+
+      expect(other.status).toBe(403);
+      expect(everyone.status).toBe(403);
+      expect(mockService.report).not.toHaveBeenCalled();
+    });
+
+    it("should let an admin see another user's usage", async () => {
+      const response = await request(app)
+        .get('/api/usage?userId=user-2&days=7')
+        .set('x-test-user', 'admin-2');
+
+      expect(response.status).toBe(200);
+      expect(response.body.userId).toBe('user-2');
+      expect(response.body.budget).toBeUndefined();
+      expect(mockService.report).toHaveBeenCalledWith(
+        expect.any(Date),
+        'user-2',
+      );
+    });
+
+    it("should let an admin see everyone's usage", async () => {
+      const response = await request(app)
+        .get('/api/usage?all=true')
+        .set('x-test-user', 'admin-1');
+
+      expect(response.status).toBe(200);
+      expect(mockService.report).toHaveBeenCalledWith(expect.any(Date));
+    });
+
+    it('should answer 500 when the store fails', async () => {
+      mockService.report.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app).get('/api/usage');
+
+      expect(response.status).toBe(500);
+      expect(response.body.code).toBe('INTERNAL_ERROR');
+    });
+  });
+});
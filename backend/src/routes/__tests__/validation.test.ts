@@ -694,6 +694,57 @@ describe('Validation Routes', () => {
       });
     });
 
+    it('should add judge agreement for agents with judged responses', async () => {
+      const judged = (
+        heuristic: { score: number; isValid: boolean },
+        overall: number,
+        passed: boolean,
+      ) => ({
+        ...mockLogs[2],
+        validationResult: {
+          ...mockLogs[2].validationResult,
+          heuristic,
+          judge: {
+            provider: 'openai',
+            model: 'gpt-4o-mini',
+            scores: {
+              coherence: 0.9,
+              appropriateness: 0.8,
+              technicalAccuracy: 0.8,
+              helpfulness: overall,
+            },
+            overall,
+            passed,
+            issues: [],
+          },
+        },
+      });
+      mockResponseValidator.getValidationLogs.mockReturnValue([
+        ...mockLogs,
+        judged({ score: 0.8, isValid: true }, 0.9, true),
+        judged({ score: 0.8, isValid: true }, 0.4, false),
+      ]);
+
+      const response = await request(app).get('/api/validation/summary');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.joke.judge).toBeUndefined();
+      expect(response.body.data.dnd_master.judge).toEqual({
+        judged: 2,
+        verdictAgreement: 0.5,
+        bothPassed: 1,
+        bothFailed: 0,
+        judgeOnlyFailed: 1,
+        heuristicOnlyFailed: 0,
+        meanScoreGap: expect.closeTo(0.25),
+        dimensionGaps: {
+          coherence: expect.closeTo(0.2),
+          appropriateness: 0,
+          technicalAccuracy: 0,
+        },
+      });
+    });
+
     it('should handle empty logs', async () => {
       mockResponseValidator.getValidationLogs.mockReturnValue([]);
 
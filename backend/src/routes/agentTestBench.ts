@@ -1,6 +1,6 @@
 import express from 'express';
 import { agentService } from '../agents/agentService';
-import { AgentType } from '../agents/types';
+import { AgentId, BuiltInAgentType } from '../agents/types';
 import { classifyMessage } from '../agents/classifier';
 import { ragService } from '../agents/ragService';
 import { responseValidator } from '../validation/responseValidator';
@@ -55,7 +55,7 @@ router.post('/agent/:agentType/test', async (req, res): Promise<void> => {
     }
 
     // Validate agent type
-    const validAgentTypes: AgentType[] = [
+    const validAgentTypes: BuiltInAgentType[] = [
       'general',
       'joke',
       'trivia',
@@ -72,7 +72,7 @@ router.post('/agent/:agentType/test', async (req, res): Promise<void> => {
       'music_guru',
     ];
 
-    if (!validAgentTypes.includes(agentType as AgentType)) {
+    if (!validAgentTypes.includes(agentType as BuiltInAgentType)) {
       res.status(400).json({ error: 'Invalid agent type' });
       return;
     }
@@ -80,7 +80,7 @@ router.post('/agent/:agentType/test', async (req, res): Promise<void> => {
     const response = await agentService.processMessage(
       message,
       conversationHistory,
-      agentType as AgentType,
+      agentType as AgentId,
       `test-conversation-${Date.now()}`,
       userId,
     );
@@ -138,7 +138,9 @@ router.post('/classifier/test', async (req, res): Promise<void> => {
       return;
     }
 
-    const classification = await classifyMessage(message);
+    const classification = await classifyMessage(message, {
+      tier: req.tier,
+    });
 
     res.json({
       success: true,
@@ -189,7 +191,7 @@ router.post('/rag/test', async (req, res): Promise<void> => {
       return;
     }
 
-    const ragResult = ragService.searchForAgent(
+    const ragResult = await ragService.searchForAgent(
       agentType,
       query,
       useFullSearch,
@@ -260,7 +262,7 @@ router.post('/validator/test', async (req, res): Promise<void> => {
     }
 
     const validationResult = responseValidator.validateResponse(
-      agentType as AgentType,
+      agentType as AgentId,
       userMessage,
       agentResponse,
       conversationId,
@@ -533,7 +535,7 @@ router.post('/conversation-manager/test', async (req, res): Promise<void> => {
         result = {
           context: agentService.initializeConversation(
             userId,
-            agentType as AgentType,
+            agentType as AgentId,
           ),
         };
         break;
@@ -626,7 +628,7 @@ router.post('/comprehensive/test', async (req, res): Promise<void> => {
       message,
       conversationHistory,
       `test-conversation-${Date.now()}`,
-      forcedAgentType as AgentType,
+      forcedAgentType as AgentId,
     );
 
     const comprehensiveState = agentService.getComprehensiveUserState(userId);
@@ -756,7 +758,7 @@ router.post('/bulk-test', async (req, res): Promise<void> => {
       return;
     }
 
-    const validAgentTypes: AgentType[] = [
+    const validAgentTypes: BuiltInAgentType[] = [
       'general',
       'joke',
       'trivia',
@@ -777,7 +779,7 @@ router.post('/bulk-test', async (req, res): Promise<void> => {
     const results: any[] = [];
 
     for (const agentType of testAgents) {
-      if (!validAgentTypes.includes(agentType)) {
+      if (!validAgentTypes.includes(agentType as BuiltInAgentType)) {
         results.push({
           agentType,
           success: false,
@@ -790,7 +792,7 @@ router.post('/bulk-test', async (req, res): Promise<void> => {
         const response = await agentService.processMessage(
           message,
           [],
-          agentType as AgentType,
+          agentType as AgentId,
           `bulk-test-${Date.now()}-${agentType}`,
           userId,
         );
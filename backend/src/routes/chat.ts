@@ -1,9 +1,11 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { ChatRequest, ChatResponse, Message, Conversation } from '../types';
-import { storage } from '../storage/memoryStorage';
+import { conversationStore } from '../storage/conversationStore';
+import { requireUserId } from '../middleware/identity';
 import { agentService } from '../agents/agentService';
 import { metricsEmit } from '../metrics/prometheus';
+import { CONTENT_BLOCKED, moderateInput } from '../moderation/moderation';
 import {
   tracer,
   createConversationSpan,
@@ -46,6 +48,10 @@ const generateConversationTitle = (message: string): string => {
  *         description: Invalid request
  *       '404':
  *         description: Conversation not found
+ *       '422':
+ *         description: >-
+ *           The message, or the reply to it, was blocked by content moderation
+ *           (code CONTENT_BLOCKED)
  *       '500':
  *         description: Internal server error
  */
@@ -53,15 +59,20 @@ router.post('/', async (req, res) => {
   const span = createConversationSpan('chat-new', 'process_message');
 
   try {
-    const { message, conversationId, forceAgent }: ChatRequest = req.body;
+    const {
+      message: rawMessage,
+      conversationId,
+      forceAgent,
+    }: ChatRequest = req.body;
+    const ownerId = requireUserId(req);
 
     addSpanEvent(span, 'chat.request_received', {
-      hasMessage: !!message,
+      hasMessage: !!rawMessage,
       hasConversationId: !!conversationId,
       forceAgent: forceAgent,
     });
 
-    if (!message || message.trim() === '') {
+    if (!rawMessage || rawMessage.trim() === '') {
       setSpanStatus(span, false, 'Invalid request - message required');
       endSpan(span);
       return res.status(400).json({
@@ -70,10 +81,36 @@ router.post('/', async (req, res) => {
       });
     }
 
+    // Moderate before anything is classified or stored; from here on the
+    // message is the redacted one.
+    const screened = moderateInput(rawMessage, req.tier);
+    if (screened.violation) {
+      addSpanEvent(span, 'moderation.blocked', {
+        stage: 'input',
+        category: screened.violation,
+      });
+      setSpanStatus(span, false, 'Message blocked');
+      endSpan(span);
+      return res.status(422).json({
+        message: screened.text,
+        code: CONTENT_BLOCKED,
+      });
+    }
+    if (screened.redacted.length > 0) {
+      addSpanEvent(span, 'moderation.redacted', {
+        stage: 'input',
+        kinds: screened.redacted.join(','),
+      });
+    }
+    const message = screened.text;
+
     // Find or create conversation
     let conversation: Conversation;
     if (conversationId) {
-      const foundConversation = storage.getConversation(conversationId);
+      const foundConversation = await conversationStore.getConversation(
+        conversationId,
+        ownerId,
+      );
       if (!foundConversation) {
         setSpanStatus(span, false, 'Conversation not found');
         endSpan(span);
@@ -88,12 +125,13 @@ router.post('/', async (req, res) => {
       // Create new conversation
       conversation = {
         id: uuidv4(),
+        ownerId,
         title: generateConversationTitle(message),
         messages: [],
         createdAt: new Date(),
         updatedAt: new Date(),
       };
-      storage.addConversation(conversation);
+      await conversationStore.addConversation(conversation);
       addSpanEvent(span, 'conversation.created', {
         conversationId: conversation.id,
       });
@@ -126,14 +164,35 @@ router.post('/', async (req, res) => {
       conversation.messages.slice(0, -1), // Exclude the user message we just added
       forceAgent,
       conversation.id,
-      req.userId,
+      ownerId,
       req.tier,
+      { summary: conversation.summary, ownerId },
     );
     addSpanEvent(span, 'agent.processing_complete', {
       agentUsed: agentResponse.agentUsed,
       confidence: agentResponse.confidence,
     });
 
+    if (agentResponse.blocked) {
+      // Keep the user's message; the withheld reply is not stored.
+      conversation.updatedAt = new Date();
+      await conversationStore.updateConversation(
+        conversation.id,
+        { messages: conversation.messages, updatedAt: conversation.updatedAt },
+        ownerId,
+      );
+      addSpanEvent(span, 'moderation.blocked', {
+        stage: 'output',
+        category: agentResponse.blocked,
+      });
+      setSpanStatus(span, true);
+      endSpan(span);
+      return res.status(422).json({
+        message: agentResponse.content,
+        code: CONTENT_BLOCKED,
+      });
+    }
+
     // Add AI response
     const aiMessage: Message = {
       id: uuidv4(),
@@ -143,9 +202,24 @@ router.post('/', async (req, res) => {
       conversationId: conversation.id,
       agentUsed: agentResponse.agentUsed,
       confidence: agentResponse.confidence,
+      ...(agentResponse.ragContentIds && {
+        ragContentIds: agentResponse.ragContentIds,
+      }),
     };
     conversation.messages.push(aiMessage);
     conversation.updatedAt = new Date();
+    if (agentResponse.summary) {
+      conversation.summary = agentResponse.summary;
+    }
+    await conversationStore.updateConversation(
+      conversation.id,
+      {
+        messages: conversation.messages,
+        summary: conversation.summary,
+        updatedAt: conversation.updatedAt,
+      },
+      ownerId,
+    );
     metricsEmit.tier.chatMessage(req.tier, 'assistant');
 
     const response: ChatResponse = {
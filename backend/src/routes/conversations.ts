@@ -1,17 +1,66 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { Conversation } from '../types';
-import { storage } from '../storage/memoryStorage';
+import { conversationStore } from '../storage/conversationStore';
+import { requireUserId } from '../middleware/identity';
+import {
+  TRANSCRIPT_FORMATS,
+  exportConversation,
+  isTranscriptFormat,
+  parseTranscript,
+  transcriptContentType,
+  transcriptFilename,
+} from '../storage/conversationTranscript';
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_MESSAGE_PAGE_SIZE,
+  MAX_SEARCH_LIMIT,
+  paginateMessages,
+  searchConversations,
+} from '../storage/conversationQuery';
 
 const router = express.Router();
 
-// GET /api/conversations - Get all conversations
+/** Archived transcripts run well past the app's default 100 kB body limit. */
+export const IMPORT_BODY_LIMIT = '10mb';
+
+// Every route is scoped to the caller resolved by `resolveIdentity`.
+// Conversations owned by someone else answer 404, exactly like ids that
+// don't exist, so ids can't be probed.
+
+// Query-string helpers: undefined when absent, null when malformed.
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+function parseLimit(
+  value: unknown,
+  fallback: number,
+  max: number,
+): number | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : null;
+}
+
+function parseDate(value: unknown): Date | undefined | null {
+  const raw = optionalString(value);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/conversations - Get the caller's conversations
 /**
  * @openapi
  * /api/conversations:
  *   get:
  *     tags: [conversations]
- *     summary: Get all conversations (last message only for list view)
+ *     summary: Get the caller's conversations (last message only for list view)
  *     responses:
  *       '200':
  *         description: List of conversations with last message
@@ -24,9 +73,11 @@ const router = express.Router();
  *       '500':
  *         description: Internal server error
  */
-router.get('/', (req, res) => {
+router.get('/', async (req, res) => {
   try {
-    const sortedConversations = storage.getSortedConversations().map(conv => ({
+    const sortedConversations = (
+      await conversationStore.getSortedConversations(requireUserId(req))
+    ).map(conv => ({
       ...conv,
       messages: conv.messages.slice(-1), // Only include the last message for the list view
     }));
@@ -41,6 +92,103 @@ router.get('/', (req, res) => {
   }
 });
 
+// GET /api/conversations/search - Full-text search over the caller's conversations
+/**
+ * @openapi
+ * /api/conversations/search:
+ *   get:
+ *     tags: [conversations]
+ *     summary: Search conversation titles and message content
+ *     description: >
+ *       Case-insensitive; every word of `q` must appear in the same title or
+ *       message. Results are ordered by their most recent match.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: agentUsed
+ *         description: Only count messages answered by this agent
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       '200':
+ *         description: Matching conversations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ConversationSearchHit'
+ *       '400':
+ *         description: Missing query or invalid filter
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const q = optionalString(req.query.q)?.trim();
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    const limit = parseLimit(
+      req.query.limit,
+      DEFAULT_SEARCH_LIMIT,
+      MAX_SEARCH_LIMIT,
+    );
+
+    if (!q) {
+      return res.status(400).json({
+        message: 'Search query q is required',
+        code: 'INVALID_REQUEST',
+      });
+    }
+    if (from === null || to === null || limit === null) {
+      return res.status(400).json({
+        message: `from/to must be dates and limit between 1 and ${MAX_SEARCH_LIMIT}`,
+        code: 'INVALID_REQUEST',
+      });
+    }
+
+    const conversations = await conversationStore.getConversations(
+      requireUserId(req),
+    );
+    return res.json(
+      searchConversations(conversations, {
+        q,
+        agentUsed: optionalString(req.query.agentUsed),
+        from,
+        to,
+        limit,
+      }),
+    );
+  } catch (error) {
+    console.error('Search conversations error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
 // GET /api/conversations/:id - Get a specific conversation
 /**
  * @openapi
@@ -62,14 +210,17 @@ router.get('/', (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Conversation'
  *       '404':
- *         description: Conversation not found
+ *         description: Conversation not found or owned by another user
  *       '500':
  *         description: Internal server error
  */
-router.get('/:id', (req, res) => {
+router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const conversation = storage.getConversation(id);
+    const conversation = await conversationStore.getConversation(
+      id,
+      requireUserId(req),
+    );
 
     if (!conversation) {
       return res.status(404).json({
@@ -88,6 +239,263 @@ router.get('/:id', (req, res) => {
   }
 });
 
+// GET /api/conversations/:id/messages - Page through a conversation's messages
+/**
+ * @openapi
+ * /api/conversations/{id}/messages:
+ *   get:
+ *     tags: [conversations]
+ *     summary: Cursor-paginated messages, oldest first within a page
+ *     description: >
+ *       Without a cursor, returns the newest `limit` messages. Pass the
+ *       page's `oldestId` as `before` to load older history, or its
+ *       `newestId` as `after` to catch up.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       '200':
+ *         description: One page of messages
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessagePage'
+ *       '400':
+ *         description: Invalid limit, both cursors given, or unknown cursor
+ *       '404':
+ *         description: Conversation not found or owned by another user
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/:id/messages', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = optionalString(req.query.before);
+    const after = optionalString(req.query.after);
+    const limit = parseLimit(
+      req.query.limit,
+      DEFAULT_MESSAGE_PAGE_SIZE,
+      MAX_MESSAGE_PAGE_SIZE,
+    );
+
+    if (limit === null || (before && after)) {
+      return res.status(400).json({
+        message: `Use at most one of before/after, and a limit between 1 and ${MAX_MESSAGE_PAGE_SIZE}`,
+        code: 'INVALID_REQUEST',
+      });
+    }
+
+    const conversation = await conversationStore.getConversation(
+      id,
+      requireUserId(req),
+    );
+
+    if (!conversation) {
+      return res.status(404).json({
+        message: 'Conversation not found',
+        code: 'CONVERSATION_NOT_FOUND',
+      });
+    }
+
+    const page = paginateMessages(conversation.messages, {
+      before,
+      after,
+      limit,
+    });
+    if (!page) {
+      return res.status(400).json({
+        message: 'Cursor message not found in this conversation',
+        code: 'INVALID_CURSOR',
+      });
+    }
+
+    return res.json(page);
+  } catch (error) {
+    console.error('Get conversation messages error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+// GET /api/conversations/:id/export - Download a conversation transcript
+/**
+ * @openapi
+ * /api/conversations/{id}/export:
+ *   get:
+ *     tags: [conversations]
+ *     summary: Export a conversation as JSON, Markdown or JSONL
+ *     description: >
+ *       Every format keeps agentUsed, confidence, isProactive, status and
+ *       attachments, and can be fed back to POST /api/conversations/import.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, markdown, jsonl]
+ *           default: json
+ *     responses:
+ *       '200':
+ *         description: Transcript file
+ *         content:
+ *           application/json: {}
+ *           text/markdown: {}
+ *           application/x-ndjson: {}
+ *       '400':
+ *         description: Unknown format
+ *       '404':
+ *         description: Conversation not found or owned by another user
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/:id/export', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const format = req.query.format ?? 'json';
+
+    if (!isTranscriptFormat(format)) {
+      return res.status(400).json({
+        message: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`,
+        code: 'INVALID_REQUEST',
+      });
+    }
+
+    const conversation = await conversationStore.getConversation(
+      id,
+      requireUserId(req),
+    );
+
+    if (!conversation) {
+      return res.status(404).json({
+        message: 'Conversation not found',
+        code: 'CONVERSATION_NOT_FOUND',
+      });
+    }
+
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${transcriptFilename(conversation, format)}"`,
+    );
+    return res
+      .type(transcriptContentType(format))
+      .send(exportConversation(conversation, format));
+  } catch (error) {
+    console.error('Export conversation error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+// POST /api/conversations/import - Create a conversation from a transcript
+/**
+ * @openapi
+ * /api/conversations/import:
+ *   post:
+ *     tags: [conversations]
+ *     summary: Import a transcript produced by the export endpoint
+ *     description: >
+ *       The imported conversation gets a new id and belongs to the caller;
+ *       messages, timestamps and attachments are kept as exported. Bodies
+ *       may be up to 10 MB.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ConversationImportRequest'
+ *     responses:
+ *       '201':
+ *         description: Conversation imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Conversation'
+ *       '400':
+ *         description: Unknown format or invalid transcript
+ *       '413':
+ *         description: The transcript is over 10 MB
+ *       '500':
+ *         description: Internal server error
+ */
+router.post(
+  '/import',
+  express.json({ limit: IMPORT_BODY_LIMIT }),
+  async (req, res) => {
+    try {
+      const { format = 'json', data } = req.body ?? {};
+
+      if (!isTranscriptFormat(format)) {
+        return res.status(400).json({
+          message: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`,
+          code: 'INVALID_REQUEST',
+        });
+      }
+
+      if (data === undefined || data === null) {
+        return res.status(400).json({
+          message: 'Transcript data is required',
+          code: 'INVALID_REQUEST',
+        });
+      }
+
+      const parsed = parseTranscript(data, format);
+      if (!parsed.ok) {
+        return res.status(400).json({
+          message: `Invalid transcript: ${parsed.error}`,
+          code: 'INVALID_TRANSCRIPT',
+        });
+      }
+
+      const id = uuidv4();
+      const imported: Conversation = {
+        ...parsed.conversation,
+        id,
+        ownerId: requireUserId(req),
+        messages: parsed.conversation.messages.map(message => ({
+          ...message,
+          conversationId: id,
+        })),
+      };
+
+      await conversationStore.addConversation(imported);
+      return res.status(201).json(imported);
+    } catch (error) {
+      console.error('Import conversation error:', error);
+      return res.status(500).json({
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  },
+);
+
 // POST /api/conversations - Create a new conversation
 /**
  * @openapi
@@ -116,7 +524,7 @@ router.get('/:id', (req, res) => {
  *       '500':
  *         description: Internal server error
  */
-router.post('/', (req, res) => {
+router.post('/', async (req, res) => {
   try {
     const { title } = req.body;
 
@@ -129,13 +537,14 @@ router.post('/', (req, res) => {
 
     const newConversation: Conversation = {
       id: uuidv4(),
+      ownerId: requireUserId(req),
       title: title.trim(),
       messages: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    storage.addConversation(newConversation);
+    await conversationStore.addConversation(newConversation);
     return res.status(201).json(newConversation);
   } catch (error) {
     console.error('Create conversation error:', error);
@@ -178,11 +587,11 @@ router.post('/', (req, res) => {
  *       '400':
  *         description: Invalid request
  *       '404':
- *         description: Conversation not found
+ *         description: Conversation not found or owned by another user
  *       '500':
  *         description: Internal server error
  */
-router.put('/:id', (req, res) => {
+router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const { title } = req.body;
@@ -194,10 +603,14 @@ router.put('/:id', (req, res) => {
       });
     }
 
-    const updatedConversation = storage.updateConversation(id, {
-      title: title.trim(),
-      updatedAt: new Date(),
-    });
+    const updatedConversation = await conversationStore.updateConversation(
+      id,
+      {
+        title: title.trim(),
+        updatedAt: new Date(),
+      },
+      requireUserId(req),
+    );
 
     if (!updatedConversation) {
       return res.status(404).json({
@@ -233,14 +646,17 @@ router.put('/:id', (req, res) => {
  *       '204':
  *         description: Conversation deleted
  *       '404':
- *         description: Conversation not found
+ *         description: Conversation not found or owned by another user
  *       '500':
  *         description: Internal server error
  */
-router.delete('/:id', (req, res) => {
+router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const deleted = storage.deleteConversation(id);
+    const deleted = await conversationStore.deleteConversation(
+      id,
+      requireUserId(req),
+    );
 
     if (!deleted) {
       return res.status(404).json({
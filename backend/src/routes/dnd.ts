@@ -0,0 +1,90 @@
+import express from 'express';
+import { campaignStore } from '../storage/campaignStore';
+import { requireUserId } from '../middleware/identity';
+
+const router = express.Router();
+
+// D&D campaigns dnd_master keeps for the caller (the `resolveIdentity`
+// user). The D&D tools write them as the user plays; these routes only read
+// them. Another user's campaign ids answer 404.
+
+// GET /api/dnd/campaigns - List the caller's campaigns
+/**
+ * @openapi
+ * /api/dnd/campaigns:
+ *   get:
+ *     tags: [dnd]
+ *     summary: List the caller's D&D campaigns
+ *     description: Newest first. A campaign's id is its conversation id.
+ *     responses:
+ *       '200':
+ *         description: The caller's campaigns
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Campaign'
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/campaigns', async (req, res) => {
+  try {
+    return res.json(await campaignStore.list(requireUserId(req)));
+  } catch (error) {
+    console.error('List campaigns error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+// GET /api/dnd/campaigns/:id - One campaign's party and encounter
+/**
+ * @openapi
+ * /api/dnd/campaigns/{id}:
+ *   get:
+ *     tags: [dnd]
+ *     summary: Get a D&D campaign
+ *     description: The party (stats, HP, inventory, XP) and the encounter in progress with its initiative order.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: The campaign
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Campaign'
+ *       '404':
+ *         description: Campaign not found or owned by another user
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/campaigns/:id', async (req, res) => {
+  try {
+    const campaign = await campaignStore.get(requireUserId(req), req.params.id);
+
+    if (!campaign) {
+      return res.status(404).json({
+        message: 'Campaign not found',
+        code: 'CAMPAIGN_NOT_FOUND',
+      });
+    }
+
+    return res.json(campaign);
+  } catch (error) {
+    console.error('Get campaign error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+export default router;
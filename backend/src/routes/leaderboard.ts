@@ -0,0 +1,77 @@
+import express from 'express';
+import { requireUserId } from '../middleware/identity';
+import { QUIZ_TYPES, QuizType } from '../games/quizEngine';
+import { DEFAULT_LEADERBOARD_SIZE, getLeaderboard } from '../games/leaderboard';
+
+const router = express.Router();
+
+const MAX_LEADERBOARD_SIZE = 50;
+
+// Riddle and trivia quiz rankings. Scores are written by the quiz tools as
+// players answer; other players are shown by first name only.
+
+// GET /api/leaderboard - Top quiz scores and the caller's rank
+/**
+ * @openapi
+ * /api/leaderboard:
+ *   get:
+ *     tags: [leaderboard]
+ *     summary: Get a quiz leaderboard
+ *     description: Players ranked by all-time points. `you` is the caller's standing, even outside the top entries.
+ *     parameters:
+ *       - in: query
+ *         name: quiz
+ *         schema:
+ *           type: string
+ *           enum: [riddle, trivia]
+ *           default: trivia
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *     responses:
+ *       '200':
+ *         description: The leaderboard
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Leaderboard'
+ *       '400':
+ *         description: Unknown quiz or invalid limit
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { quiz = 'trivia', limit } = req.query;
+    if (typeof quiz !== 'string' || !QUIZ_TYPES.includes(quiz as QuizType)) {
+      return res.status(400).json({
+        message: `quiz must be one of ${QUIZ_TYPES.join(', ')}`,
+        code: 'INVALID_QUIZ',
+      });
+    }
+
+    const size = limit === undefined ? DEFAULT_LEADERBOARD_SIZE : Number(limit);
+    if (!Number.isInteger(size) || size < 1 || size > MAX_LEADERBOARD_SIZE) {
+      return res.status(400).json({
+        message: `limit must be an integer from 1 to ${MAX_LEADERBOARD_SIZE}`,
+        code: 'INVALID_LIMIT',
+      });
+    }
+
+    return res.json(
+      await getLeaderboard(quiz as QuizType, requireUserId(req), size),
+    );
+  } catch (error) {
+    console.error('Get leaderboard error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+export default router;
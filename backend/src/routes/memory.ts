@@ -0,0 +1,145 @@
+import express from 'express';
+import { userMemoryStore } from '../storage/userMemoryStore';
+import { requireUserId } from '../middleware/identity';
+import { isAgentType } from '../agents/config';
+
+const router = express.Router();
+
+// What the agents remember about the caller (the `resolveIdentity` user).
+// Memories are written by AgentService as the user chats; these routes only
+// let the user see and forget them. Another user's memory ids answer 404.
+
+// GET /api/memory - List the caller's memories
+/**
+ * @openapi
+ * /api/memory:
+ *   get:
+ *     tags: [memory]
+ *     summary: List what the agents remember about the caller
+ *     description: Newest first. With `agentType`, only the memories that agent is shown (its own plus those shared by every agent).
+ *     parameters:
+ *       - in: query
+ *         name: agentType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: The caller's memories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UserMemory'
+ *       '400':
+ *         description: Unknown agentType
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { agentType } = req.query;
+    if (
+      agentType !== undefined &&
+      (typeof agentType !== 'string' || !isAgentType(agentType))
+    ) {
+      return res.status(400).json({
+        message: 'Unknown agentType',
+        code: 'INVALID_AGENT_TYPE',
+      });
+    }
+
+    const memories = await userMemoryStore.list(requireUserId(req));
+    return res.json(
+      agentType === undefined
+        ? memories
+        : memories.filter(m => !m.agentType || m.agentType === agentType),
+    );
+  } catch (error) {
+    console.error('List memories error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+// DELETE /api/memory - Forget everything about the caller
+/**
+ * @openapi
+ * /api/memory:
+ *   delete:
+ *     tags: [memory]
+ *     summary: Delete all of the caller's memories
+ *     responses:
+ *       '200':
+ *         description: Memories deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deleted:
+ *                   type: integer
+ *       '500':
+ *         description: Internal server error
+ */
+router.delete('/', async (req, res) => {
+  try {
+    const deleted = await userMemoryStore.clear(requireUserId(req));
+    return res.json({ deleted });
+  } catch (error) {
+    console.error('Clear memories error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+// DELETE /api/memory/:id - Forget one memory
+/**
+ * @openapi
+ * /api/memory/{id}:
+ *   delete:
+ *     tags: [memory]
+ *     summary: Delete one memory
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '204':
+ *         description: Memory deleted
+ *       '404':
+ *         description: Memory not found or owned by another user
+ *       '500':
+ *         description: Internal server error
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await userMemoryStore.delete(
+      requireUserId(req),
+      req.params.id,
+    );
+
+    if (!deleted) {
+      return res.status(404).json({
+        message: 'Memory not found',
+        code: 'MEMORY_NOT_FOUND',
+      });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Delete memory error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+export default router;
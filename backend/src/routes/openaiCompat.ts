@@ -0,0 +1,397 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Message } from '../types';
+import { isAgentType, listAgents } from '../agents/config';
+import { requireUserId } from '../middleware/identity';
+import { agentService } from '../agents/agentService';
+import { checkChatRateLimit } from '../rateLimit/checkChatLimit';
+import {
+  checkUsageBudget,
+  usageBudgetMessage,
+} from '../rateLimit/checkUsageBudget';
+import { metricsEmit } from '../metrics/prometheus';
+import {
+  CONTENT_BLOCKED,
+  moderateInput,
+  OutputStreamModerator,
+} from '../moderation/moderation';
+
+/**
+ * OpenAI-compatible chat API, so OpenAI SDKs and CLI tools can talk to the
+ * agents directly. Each agent is a model; `auto` lets the classifier pick.
+ *
+ * Requests are stateless like OpenAI's: the client sends the whole
+ * conversation each time and nothing is stored, though replies are still
+ * validated. System messages are
+ * ignored, as every agent brings its own system prompt. Limits are the
+ * same tiered chat buckets and usage budgets the socket path uses
+ * (`checkChatRateLimit`, `checkUsageBudget`).
+ */
+
+const router = express.Router();
+
+export const AUTO_MODEL = 'auto';
+const MODEL_OWNER = 'multi-agent-chat';
+/** Reported as every model's creation time. */
+const MODELS_CREATED = Math.floor(Date.now() / 1000);
+
+interface CompletionMessage {
+  role: string;
+  content?: string | Array<{ type: string; text?: string }> | null;
+}
+
+interface CompletionRequest {
+  model?: string;
+  messages?: CompletionMessage[];
+  stream?: boolean;
+}
+
+type FinishReason = 'stop' | 'content_filter';
+
+/** An error body in OpenAI's format. */
+function sendError(
+  res: express.Response,
+  status: number,
+  message: string,
+  type: string,
+  code: string,
+  param: string | null = null,
+): express.Response {
+  return res.status(status).json({ error: { message, type, param, code } });
+}
+
+/** Text content; content-part arrays keep only their text parts. */
+function textOf(content: CompletionMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter(part => part?.type === 'text' && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('\n');
+  }
+  return '';
+}
+
+/** Earlier user and assistant turns as conversation history. */
+function toHistory(messages: CompletionMessage[]): Message[] {
+  return messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => ({
+      id: uuidv4(),
+      content: textOf(m.content),
+      role: m.role as Message['role'],
+      timestamp: new Date(),
+      conversationId: '',
+    }))
+    .filter(m => m.content.trim() !== '');
+}
+
+function modelEntry(id: string) {
+  return {
+    id,
+    object: 'model',
+    created: MODELS_CREATED,
+    owned_by: MODEL_OWNER,
+  };
+}
+
+// GET /v1/models - List agents as models
+/**
+ * @openapi
+ * /v1/models:
+ *   get:
+ *     tags: [openai]
+ *     summary: List the agents as OpenAI models
+ *     description: >-
+ *       One model per agent, plus `auto`, which lets the classifier choose
+ *       the agent for each message.
+ *     responses:
+ *       '200':
+ *         description: Model list
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OpenAIModelList'
+ */
+router.get('/models', (_req, res) => {
+  return res.json({
+    object: 'list',
+    data: [AUTO_MODEL, ...listAgents().map(agent => agent.id)].map(modelEntry),
+  });
+});
+
+// POST /v1/chat/completions - OpenAI-compatible chat
+/**
+ * @openapi
+ * /v1/chat/completions:
+ *   post:
+ *     tags: [openai]
+ *     summary: Create an OpenAI-compatible chat completion
+ *     description: >-
+ *       The last message must be from the user; earlier user and assistant
+ *       messages are the history. With `stream: true` the reply is sent as
+ *       Server-Sent Events of `chat.completion.chunk` objects, ending with
+ *       `data: [DONE]`. A reply withheld by moderation finishes with
+ *       `finish_reason: content_filter`.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OpenAIChatCompletionRequest'
+ *     responses:
+ *       '200':
+ *         description: >-
+ *           The completion, or a text/event-stream of chunks when streaming
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OpenAIChatCompletion'
+ *       '400':
+ *         description: Invalid request
+ *       '404':
+ *         description: Unknown model (code model_not_found)
+ *       '422':
+ *         description: >-
+ *           The message was blocked by content moderation (code
+ *           CONTENT_BLOCKED)
+ *       '429':
+ *         description: Chat rate limit reached (see the Retry-After header)
+ *       '500':
+ *         description: Internal server error
+ */
+router.post('/chat/completions', async (req, res) => {
+  const {
+    model = AUTO_MODEL,
+    messages,
+    stream = false,
+  }: CompletionRequest = req.body ?? {};
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return sendError(
+      res,
+      400,
+      'messages must be a non-empty array',
+      'invalid_request_error',
+      'invalid_messages',
+      'messages',
+    );
+  }
+  const last = messages[messages.length - 1];
+  const rawMessage = textOf(last?.content);
+  if (last?.role !== 'user' || rawMessage.trim() === '') {
+    return sendError(
+      res,
+      400,
+      'The last message must be a non-empty user message',
+      'invalid_request_error',
+      'invalid_messages',
+      'messages',
+    );
+  }
+  if (model !== AUTO_MODEL && !isAgentType(model)) {
+    return sendError(
+      res,
+      404,
+      `The model '${model}' does not exist`,
+      'invalid_request_error',
+      'model_not_found',
+      'model',
+    );
+  }
+
+  try {
+    const ownerId = requireUserId(req);
+    const tier = req.tier ?? 'anonymous';
+
+    const limit = await checkChatRateLimit(ownerId, tier);
+    if (!limit.allowed) {
+      metricsEmit.tier.rateLimitHit('openai', tier, limit.bucket);
+      res.setHeader('Retry-After', String(limit.retryAfterSec));
+      return sendError(
+        res,
+        429,
+        limit.bucket === 'minute'
+          ? 'You are sending messages too quickly. Please wait a moment.'
+          : tier === 'anonymous'
+            ? 'Daily guest quota reached. Sign in for a higher limit.'
+            : 'Daily chat quota reached. Try again tomorrow.',
+        'requests',
+        'rate_limit_exceeded',
+      );
+    }
+
+    const budget = await checkUsageBudget(ownerId, tier);
+    if (!budget.allowed) {
+      metricsEmit.tier.rateLimitHit('openai', tier, budget.bucket);
+      res.setHeader('Retry-After', String(budget.retryAfterSec));
+      return sendError(
+        res,
+        429,
+        usageBudgetMessage(tier),
+        'insufficient_quota',
+        'insufficient_quota',
+      );
+    }
+
+    // Moderate before anything is classified; from here on the message is
+    // the redacted one.
+    const screened = moderateInput(rawMessage, tier);
+    if (screened.violation) {
+      return sendError(
+        res,
+        422,
+        screened.text,
+        'invalid_request_error',
+        CONTENT_BLOCKED,
+        'messages',
+      );
+    }
+    metricsEmit.tier.chatMessage(req.tier, 'user');
+
+    const id = `chatcmpl-${uuidv4()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const history = toHistory(messages.slice(0, -1));
+    const forceAgent = model === AUTO_MODEL ? undefined : model;
+
+    if (!stream) {
+      const agentResponse = await agentService.processMessage(
+        screened.text,
+        history,
+        forceAgent,
+        undefined,
+        ownerId,
+        req.tier,
+        { ownerId, validate: true },
+      );
+      const finishReason: FinishReason = agentResponse.blocked
+        ? 'content_filter'
+        : 'stop';
+      if (!agentResponse.blocked) {
+        metricsEmit.tier.chatMessage(req.tier, 'assistant');
+      }
+      return res.json({
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        agent: agentResponse.agentUsed,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: agentResponse.content },
+            finish_reason: finishReason,
+          },
+        ],
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (payload: unknown): void => {
+      res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    };
+    const chunk = (
+      delta: { role?: 'assistant'; content?: string },
+      finishReason: FinishReason | null = null,
+      extra: Record<string, unknown> = {},
+    ) => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      ...extra,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    // Stop generating when the client goes away.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    // Relay provider text deltas once output moderation has cleared them:
+    // the raw text is only screened as a whole after generation, and a
+    // delta can't take back what the client already has.
+    send(chunk({ role: 'assistant', content: '' }));
+    const outputStream = new OutputStreamModerator(req.tier);
+    try {
+      const agentResponse = await agentService.processMessage(
+        screened.text,
+        history,
+        forceAgent,
+        undefined,
+        ownerId,
+        req.tier,
+        {
+          ownerId,
+          signal: controller.signal,
+          validate: true,
+          onTextDelta: text => {
+            const cleared = controller.signal.aborted
+              ? ''
+              : outputStream.push(text);
+            if (cleared) {
+              send(chunk({ content: cleared }));
+            }
+          },
+        },
+      );
+      if (controller.signal.aborted || agentResponse.cancelled) {
+        return res.end();
+      }
+
+      // Send the part of the moderated reply the client hasn't seen. A
+      // reply that no longer continues the streamed text (replaced by
+      // validation, or withheld) can't be taken back, so it ends there.
+      const { sent } = outputStream;
+      const rest = agentResponse.content.startsWith(sent)
+        ? agentResponse.content.slice(sent.length)
+        : '';
+      if (rest) {
+        send(chunk({ content: rest }));
+      }
+      if (!agentResponse.blocked) {
+        metricsEmit.tier.chatMessage(req.tier, 'assistant');
+      }
+      send(
+        chunk({}, agentResponse.blocked ? 'content_filter' : 'stop', {
+          agent: agentResponse.agentUsed,
+        }),
+      );
+      res.write('data: [DONE]\n\n');
+      return res.end();
+    } catch (error) {
+      // Headers are gone; report the failure in-stream the way OpenAI does.
+      console.error('Chat completion stream error:', error);
+      send({
+        error: {
+          message: 'Internal server error',
+          type: 'server_error',
+          param: null,
+          code: 'INTERNAL_ERROR',
+        },
+      });
+      return res.end();
+    }
+  } catch (error) {
+    console.error('Chat completion error:', error);
+    return sendError(
+      res,
+      500,
+      'Internal server error',
+      'server_error',
+      'INTERNAL_ERROR',
+    );
+  }
+});
+
+export default router;
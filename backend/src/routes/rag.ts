@@ -0,0 +1,565 @@
+import express from 'express';
+import { ContentUpdate, newContentId, ragService } from '../agents/ragService';
+import { requireAuthenticated } from '../middleware/identity';
+import {
+  RAG_IMPORT_FORMATS,
+  isContentType,
+  isRagImportFormat,
+  isTagList,
+  isValidRating,
+  normalizeTags,
+  parseContentImport,
+  validateContentDraft,
+} from '../storage/ragContentImport';
+
+const router = express.Router();
+
+// Curated content behind the entertainment agents. Anyone may read it;
+// edits take effect without a redeploy and are limited to the content
+// authors listed in RAG_CONTENT_AUTHOR_USER_IDS, since the content goes
+// into every user's system prompt.
+
+function isContentAuthor(userId: string | undefined): boolean {
+  return (
+    userId !== undefined &&
+    (process.env.RAG_CONTENT_AUTHOR_USER_IDS ?? '')
+      .split(',')
+      .map(id => id.trim())
+      .includes(userId)
+  );
+}
+
+const requireContentAuthor = (
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+): void => {
+  if (!isContentAuthor(req.userId)) {
+    res.status(403).json({
+      message: 'Only content authors can change curated content',
+      code: 'FORBIDDEN',
+    });
+    return;
+  }
+  next();
+};
+
+const notFound = (res: express.Response) =>
+  res.status(404).json({
+    message: 'Content not found',
+    code: 'CONTENT_NOT_FOUND',
+  });
+
+const invalid = (res: express.Response, message: string) =>
+  res.status(400).json({ message, code: 'INVALID_REQUEST' });
+
+const serverError = (res: express.Response, action: string, error: unknown) => {
+  console.error(`${action} error:`, error);
+  return res.status(500).json({
+    message: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+  });
+};
+
+// GET /api/rag/content - List content
+/**
+ * @openapi
+ * /api/rag/content:
+ *   get:
+ *     tags: [rag]
+ *     summary: List curated RAG content
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [joke, trivia, gif, quote, riddle]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: Matching content, ordered by id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ContentItem'
+ *       '400':
+ *         description: Unknown type
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/content', async (req, res) => {
+  try {
+    const { type, category } = req.query;
+    if (type !== undefined && !isContentType(type)) {
+      return invalid(res, 'Unknown content type');
+    }
+    if (category !== undefined && typeof category !== 'string') {
+      return invalid(res, 'category must be a string');
+    }
+
+    return res.json(await ragService.listContent({ type, category }));
+  } catch (error) {
+    return serverError(res, 'List RAG content', error);
+  }
+});
+
+// GET /api/rag/categories - Item counts per type and category
+/**
+ * @openapi
+ * /api/rag/categories:
+ *   get:
+ *     tags: [rag]
+ *     summary: Count content per type and category
+ *     responses:
+ *       '200':
+ *         description: "`{ [type]: { [category]: count } }`; uncategorised items count under `uncategorized`"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               additionalProperties:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: integer
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/categories', async (_req, res) => {
+  try {
+    const counts: Record<string, Record<string, number>> = {};
+    for (const item of await ragService.listContent()) {
+      const category = item.category ?? 'uncategorized';
+      counts[item.type] ??= {};
+      counts[item.type][category] = (counts[item.type][category] ?? 0) + 1;
+    }
+    return res.json(counts);
+  } catch (error) {
+    return serverError(res, 'Count RAG categories', error);
+  }
+});
+
+// GET /api/rag/content/:id - One item
+/**
+ * @openapi
+ * /api/rag/content/{id}:
+ *   get:
+ *     tags: [rag]
+ *     summary: Get one content item
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: The item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentItem'
+ *       '404':
+ *         description: Content not found
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/content/:id', async (req, res) => {
+  try {
+    await ragService.ready;
+    const item = ragService.getContentById(req.params.id);
+    return item ? res.json(item) : notFound(res);
+  } catch (error) {
+    return serverError(res, 'Get RAG content', error);
+  }
+});
+
+// POST /api/rag/content - Add one item
+/**
+ * @openapi
+ * /api/rag/content:
+ *   post:
+ *     tags: [rag]
+ *     summary: Add a content item
+ *     description: Without an id one is generated as `<type>_<hex>`. Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ContentItem'
+ *     responses:
+ *       '201':
+ *         description: Item added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentItem'
+ *       '400':
+ *         description: Invalid item
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '409':
+ *         description: The id or content already exists
+ *       '500':
+ *         description: Internal server error
+ */
+router.post(
+  '/content',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      const draft = validateContentDraft(req.body);
+      if (typeof draft === 'string') {
+        return invalid(res, draft);
+      }
+
+      const added = await ragService.addContent({
+        ...draft,
+        id: draft.id ?? newContentId(draft.type),
+      });
+      if (!added) {
+        return res.status(409).json({
+          message: 'Content with this id or text already exists',
+          code: 'CONTENT_EXISTS',
+        });
+      }
+      return res.status(201).json(added);
+    } catch (error) {
+      return serverError(res, 'Add RAG content', error);
+    }
+  },
+);
+
+// POST /api/rag/content/import - Bulk import
+/**
+ * @openapi
+ * /api/rag/content/import:
+ *   post:
+ *     tags: [rag]
+ *     summary: Bulk import content from JSONL or CSV
+ *     description: >
+ *       JSONL holds one ContentItem per line. CSV needs a header naming
+ *       `type` and `content`, optionally `id`, `category`, `tags` (split on
+ *       `|` or `;`) and `rating`; other columns become metadata fields.
+ *       Items with a known id replace it; content that duplicates another
+ *       item is skipped; invalid rows are reported and the rest imported.
+ *       Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [jsonl, csv]
+ *               data:
+ *                 type: string
+ *             required: [format, data]
+ *     responses:
+ *       '200':
+ *         description: Import summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 added: { type: array, items: { type: string } }
+ *                 updated: { type: array, items: { type: string } }
+ *                 skipped: { type: array, items: { type: string } }
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       line: { type: integer }
+ *                       error: { type: string }
+ *       '400':
+ *         description: Unknown format or missing data
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '500':
+ *         description: Internal server error
+ */
+router.post(
+  '/content/import',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      const { format, data } = req.body ?? {};
+      if (!isRagImportFormat(format)) {
+        return invalid(
+          res,
+          `format must be one of: ${RAG_IMPORT_FORMATS.join(', ')}`,
+        );
+      }
+      if (typeof data !== 'string') {
+        return invalid(res, 'data must be the file contents as a string');
+      }
+
+      const { items, errors } = parseContentImport(data, format);
+      const result = await ragService.importContent(items);
+      return res.json({ ...result, errors });
+    } catch (error) {
+      return serverError(res, 'Import RAG content', error);
+    }
+  },
+);
+
+// PATCH /api/rag/content/:id - Edit fields, including rating and tags
+/**
+ * @openapi
+ * /api/rag/content/{id}:
+ *   patch:
+ *     tags: [rag]
+ *     summary: Edit a content item
+ *     description: Replaces the given fields; the id cannot change. Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type: { type: string, enum: [joke, trivia, gif, quote, riddle] }
+ *               content: { type: string }
+ *               category: { type: string }
+ *               tags: { type: array, items: { type: string } }
+ *               rating: { type: integer, minimum: 1, maximum: 5 }
+ *               metadata: { type: object }
+ *     responses:
+ *       '200':
+ *         description: The updated item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentItem'
+ *       '400':
+ *         description: Invalid fields
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '404':
+ *         description: Content not found
+ *       '500':
+ *         description: Internal server error
+ */
+router.patch(
+  '/content/:id',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      await ragService.ready;
+      const current = ragService.getContentById(req.params.id);
+      if (!current) {
+        return notFound(res);
+      }
+
+      // Validate the merged item so partial edits get the same checks as
+      // new content.
+      const { id: _id, ...changes } = req.body ?? {};
+      const draft = validateContentDraft({ ...current, ...changes });
+      if (typeof draft === 'string') {
+        return invalid(res, draft);
+      }
+
+      const { id: _draftId, ...update } = draft;
+      return res.json(await ragService.updateContent(current.id, update));
+    } catch (error) {
+      return serverError(res, 'Update RAG content', error);
+    }
+  },
+);
+
+// PUT /api/rag/content/:id/rating - Set the quality rating
+/**
+ * @openapi
+ * /api/rag/content/{id}/rating:
+ *   put:
+ *     tags: [rag]
+ *     summary: Set an item's quality rating
+ *     description: Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating: { type: integer, minimum: 1, maximum: 5 }
+ *             required: [rating]
+ *     responses:
+ *       '200':
+ *         description: The updated item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentItem'
+ *       '400':
+ *         description: Rating is not 1-5
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '404':
+ *         description: Content not found
+ *       '500':
+ *         description: Internal server error
+ */
+router.put(
+  '/content/:id/rating',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      const { rating } = req.body ?? {};
+      if (!isValidRating(rating)) {
+        return invalid(res, 'rating must be a whole number from 1 to 5');
+      }
+
+      const updated = await ragService.updateContent(req.params.id, { rating });
+      return updated ? res.json(updated) : notFound(res);
+    } catch (error) {
+      return serverError(res, 'Rate RAG content', error);
+    }
+  },
+);
+
+// POST /api/rag/content/:id/tags - Add and remove tags
+/**
+ * @openapi
+ * /api/rag/content/{id}/tags:
+ *   post:
+ *     tags: [rag]
+ *     summary: Add and remove an item's tags
+ *     description: Tags are trimmed and lower-cased; removals apply after additions. Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               add: { type: array, items: { type: string } }
+ *               remove: { type: array, items: { type: string } }
+ *     responses:
+ *       '200':
+ *         description: The updated item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ContentItem'
+ *       '400':
+ *         description: add/remove are not lists of strings
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '404':
+ *         description: Content not found
+ *       '500':
+ *         description: Internal server error
+ */
+router.post(
+  '/content/:id/tags',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      const { add = [], remove = [] } = req.body ?? {};
+      if (!isTagList(add) || !isTagList(remove)) {
+        return invalid(res, 'add and remove must be lists of strings');
+      }
+
+      await ragService.ready;
+      const current = ragService.getContentById(req.params.id);
+      if (!current) {
+        return notFound(res);
+      }
+
+      const removed = new Set(normalizeTags(remove));
+      const changes: ContentUpdate = {
+        tags: normalizeTags([...current.tags, ...add]).filter(
+          tag => !removed.has(tag),
+        ),
+      };
+      return res.json(await ragService.updateContent(current.id, changes));
+    } catch (error) {
+      return serverError(res, 'Edit RAG content tags', error);
+    }
+  },
+);
+
+// DELETE /api/rag/content/:id - Remove an item
+/**
+ * @openapi
+ * /api/rag/content/{id}:
+ *   delete:
+ *     tags: [rag]
+ *     summary: Delete a content item
+ *     description: Requires a content author (RAG_CONTENT_AUTHOR_USER_IDS).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '204':
+ *         description: Item deleted
+ *       '401':
+ *         description: Authentication required
+ *       '403':
+ *         description: The caller is not a content author
+ *       '404':
+ *         description: Content not found
+ *       '500':
+ *         description: Internal server error
+ */
+router.delete(
+  '/content/:id',
+  requireAuthenticated,
+  requireContentAuthor,
+  async (req, res) => {
+    try {
+      const removed = await ragService.removeContent(req.params.id);
+      return removed ? res.status(204).send() : notFound(res);
+    } catch (error) {
+      return serverError(res, 'Delete RAG content', error);
+    }
+  },
+);
+
+export default router;
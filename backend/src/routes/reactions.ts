@@ -31,6 +31,10 @@ const router = express.Router();
  *               jokeCategory:
  *                 type: string
  *                 nullable: true
+ *               contentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Curated RAG content id from the message's ragContentIds
  *     responses:
  *       '200':
  *         description: Reaction recorded successfully
@@ -48,8 +52,14 @@ const router = express.Router();
  */
 router.post('/record', async (req, res) => {
   try {
-    const { messageId, userId, reactionType, jokeType, jokeCategory } =
-      req.body;
+    const {
+      messageId,
+      userId,
+      reactionType,
+      jokeType,
+      jokeCategory,
+      contentId,
+    } = req.body;
 
     if (!messageId || !userId || !reactionType) {
       return res.status(400).json({
@@ -73,6 +83,7 @@ router.post('/record', async (req, res) => {
       timestamp: new Date(),
       jokeType,
       jokeCategory,
+      contentId,
     };
 
     jokeLearningSystem.recordReaction(reaction);
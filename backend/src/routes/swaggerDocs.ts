@@ -49,9 +49,18 @@ export function createSwaggerSpec(): OpenAPIV3.Document {
       tags: [
         { name: 'chat', description: 'Chat endpoints' },
         { name: 'conversations', description: 'Conversation management' },
+        { name: 'memory', description: 'Long-term user memory' },
+        { name: 'usage', description: 'Token usage, cost and budgets' },
+        { name: 'dnd', description: 'D&D campaign state' },
+        { name: 'leaderboard', description: 'Quiz leaderboards' },
+        { name: 'rag', description: 'Curated RAG content management' },
         { name: 'reactions', description: 'Reactions endpoints' },
         { name: 'validation', description: 'Validation and quality' },
         { name: 'test-bench', description: 'Agent test bench' },
+        {
+          name: 'openai',
+          description: 'OpenAI-compatible chat API (agents as models)',
+        },
         { name: 'queue', description: 'Message queue operations' },
         { name: 'Message Queue', description: 'Message queue operations' },
         { name: 'health', description: 'Health checks' },
@@ -68,6 +77,34 @@ export function createSwaggerSpec(): OpenAPIV3.Document {
               conversationId: { type: 'string', format: 'uuid' },
               agentUsed: { type: 'string', nullable: true },
               confidence: { type: 'number', nullable: true },
+              isProactive: { type: 'boolean', nullable: true },
+              status: {
+                type: 'string',
+                enum: ['complete', 'cancelled'],
+                nullable: true,
+              },
+              ragContentIds: {
+                type: 'array',
+                nullable: true,
+                items: { type: 'string' },
+                description:
+                  'Curated RAG content the reply used; pass one as contentId when recording a reaction',
+              },
+              attachments: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  description:
+                    'MediaAttachment: youtube, video, audio, image, image_gallery, gif, dice or card',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string' },
+                  },
+                  required: ['id', 'type'],
+                  additionalProperties: true,
+                },
+              },
             },
             required: ['id', 'content', 'role', 'timestamp', 'conversationId'],
           },
@@ -75,15 +112,499 @@ export function createSwaggerSpec(): OpenAPIV3.Document {
             type: 'object',
             properties: {
               id: { type: 'string', format: 'uuid' },
+              ownerId: { type: 'string' },
               title: { type: 'string' },
               messages: {
                 type: 'array',
                 items: { $ref: '#/components/schemas/Message' },
               },
+              summary: {
+                type: 'object',
+                description:
+                  'Rolling summary of turns that no longer fit in the model context window',
+                properties: {
+                  content: { type: 'string' },
+                  throughMessageId: { type: 'string' },
+                  updatedAt: { type: 'string', format: 'date-time' },
+                },
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
             },
-            required: ['id', 'title', 'messages', 'createdAt', 'updatedAt'],
+            required: [
+              'id',
+              'ownerId',
+              'title',
+              'messages',
+              'createdAt',
+              'updatedAt',
+            ],
+          },
+          ContentItem: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Generated as `<type>_<hex>` when omitted',
+              },
+              type: {
+                type: 'string',
+                enum: ['joke', 'trivia', 'gif', 'quote', 'riddle'],
+              },
+              content: {
+                type: 'string',
+                description: 'The text, or the URL for a gif',
+              },
+              category: { type: 'string', nullable: true },
+              tags: { type: 'array', items: { type: 'string' } },
+              rating: {
+                type: 'integer',
+                minimum: 1,
+                maximum: 5,
+                nullable: true,
+              },
+              metadata: {
+                type: 'object',
+                nullable: true,
+                description:
+                  'Type-specific extras, e.g. `answer` for riddles or `description` and `alt` for gifs',
+              },
+            },
+            required: ['type', 'content'],
+          },
+          UserMemory: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              userId: { type: 'string' },
+              kind: { type: 'string', enum: ['fact', 'preference', 'thread'] },
+              key: {
+                type: 'string',
+                description:
+                  'Slot the memory fills; restating it replaces the old value',
+              },
+              content: { type: 'string' },
+              agentType: {
+                type: 'string',
+                nullable: true,
+                description: 'Only this agent is shown it; unset means all',
+              },
+              sourceConversationId: { type: 'string', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+            required: [
+              'id',
+              'userId',
+              'kind',
+              'key',
+              'content',
+              'createdAt',
+              'updatedAt',
+            ],
+          },
+          Campaign: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description:
+                  'The conversation id, or `user_<ownerId>` outside a conversation',
+              },
+              ownerId: { type: 'string' },
+              conversationId: { type: 'string', nullable: true },
+              name: { type: 'string' },
+              party: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    race: { type: 'string' },
+                    class: { type: 'string' },
+                    level: { type: 'integer' },
+                    stats: {
+                      type: 'object',
+                      additionalProperties: { type: 'integer' },
+                      description: 'STR, DEX, CON, INT, WIS and CHA scores',
+                    },
+                    hitPoints: { type: 'integer' },
+                    maxHitPoints: { type: 'integer' },
+                    armorClass: { type: 'integer' },
+                    inventory: { type: 'array', items: { type: 'string' } },
+                    xp: { type: 'integer' },
+                    trait: { type: 'string' },
+                    background: { type: 'string' },
+                  },
+                },
+              },
+              encounter: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  title: { type: 'string' },
+                  setting: { type: 'string' },
+                  round: { type: 'integer' },
+                  turn: {
+                    type: 'integer',
+                    description: 'Index into `order` of whoever is acting',
+                  },
+                  order: {
+                    type: 'array',
+                    description: 'Highest initiative first',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        side: { type: 'string', enum: ['party', 'enemy'] },
+                        initiative: { type: 'integer' },
+                        hitPoints: { type: 'integer', nullable: true },
+                        maxHitPoints: { type: 'integer', nullable: true },
+                        armorClass: { type: 'integer', nullable: true },
+                      },
+                    },
+                  },
+                },
+              },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+            required: [
+              'id',
+              'ownerId',
+              'name',
+              'party',
+              'createdAt',
+              'updatedAt',
+            ],
+          },
+          LeaderboardEntry: {
+            type: 'object',
+            properties: {
+              rank: {
+                type: 'integer',
+                description: 'Players on the same points share a rank',
+              },
+              name: {
+                type: 'string',
+                description: 'First name, or Guest for anonymous players',
+              },
+              points: { type: 'integer' },
+              correct: { type: 'integer' },
+              answered: { type: 'integer' },
+              bestStreak: { type: 'integer' },
+              you: {
+                type: 'boolean',
+                description: 'Whether this is the caller',
+              },
+            },
+          },
+          Leaderboard: {
+            type: 'object',
+            properties: {
+              quiz: { type: 'string', enum: ['riddle', 'trivia'] },
+              entries: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/LeaderboardEntry' },
+              },
+              you: {
+                allOf: [{ $ref: '#/components/schemas/LeaderboardEntry' }],
+                nullable: true,
+                description: "The caller's standing; null before they score",
+              },
+            },
+            required: ['quiz', 'entries', 'you'],
+          },
+          UsageTotals: {
+            type: 'object',
+            properties: {
+              requests: { type: 'integer' },
+              inputTokens: { type: 'integer' },
+              outputTokens: { type: 'integer' },
+              cacheReadTokens: { type: 'integer' },
+              costUsd: {
+                type: 'number',
+                description: 'Estimated from the model price table',
+              },
+            },
+            required: [
+              'requests',
+              'inputTokens',
+              'outputTokens',
+              'cacheReadTokens',
+              'costUsd',
+            ],
+          },
+          UsageReport: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: 'Unset when the report covers every user',
+              },
+              since: { type: 'string', format: 'date-time' },
+              totals: { $ref: '#/components/schemas/UsageTotals' },
+              byModel: {
+                type: 'array',
+                items: {
+                  allOf: [
+                    { $ref: '#/components/schemas/UsageTotals' },
+                    {
+                      type: 'object',
+                      properties: {
+                        provider: { type: 'string' },
+                        model: { type: 'string' },
+                      },
+                    },
+                  ],
+                },
+              },
+              byAgent: {
+                type: 'array',
+                items: {
+                  allOf: [
+                    { $ref: '#/components/schemas/UsageTotals' },
+                    {
+                      type: 'object',
+                      properties: { agentType: { type: 'string' } },
+                    },
+                  ],
+                },
+              },
+              byConversation: {
+                type: 'array',
+                items: {
+                  allOf: [
+                    { $ref: '#/components/schemas/UsageTotals' },
+                    {
+                      type: 'object',
+                      properties: { conversationId: { type: 'string' } },
+                    },
+                  ],
+                },
+              },
+              byUser: {
+                type: 'array',
+                description: 'Only in the every-user report',
+                items: {
+                  allOf: [
+                    { $ref: '#/components/schemas/UsageTotals' },
+                    {
+                      type: 'object',
+                      properties: { userId: { type: 'string' } },
+                    },
+                  ],
+                },
+              },
+              budget: {
+                type: 'object',
+                description: "Only in the caller's own report",
+                properties: {
+                  tier: {
+                    type: 'string',
+                    enum: ['anonymous', 'authenticated'],
+                  },
+                  tokensPerDay: {
+                    type: 'integer',
+                    description: 'Input plus output tokens; 0 is no limit',
+                  },
+                  costUsdPerDay: {
+                    type: 'number',
+                    description: '0 is no limit',
+                  },
+                  today: { $ref: '#/components/schemas/UsageTotals' },
+                  resetsAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            required: [
+              'since',
+              'totals',
+              'byModel',
+              'byAgent',
+              'byConversation',
+            ],
+          },
+          LLMProviderHealth: {
+            type: 'object',
+            description:
+              'Per LLM provider: whether it is configured and, if so, its circuit breaker',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                configured: { type: 'boolean' },
+                circuitBreaker: {
+                  type: 'object',
+                  properties: {
+                    state: {
+                      type: 'string',
+                      enum: ['closed', 'half_open', 'open'],
+                    },
+                    calls: {
+                      type: 'integer',
+                      description: 'Calls in the current window',
+                    },
+                    errorRate: { type: 'number' },
+                    slowCallRate: { type: 'number' },
+                    openedAt: { type: 'string', format: 'date-time' },
+                    retryAt: {
+                      type: 'string',
+                      format: 'date-time',
+                      description: 'When an open breaker lets a probe through',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          OpenAIModelList: {
+            type: 'object',
+            properties: {
+              object: { type: 'string', enum: ['list'] },
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: {
+                      type: 'string',
+                      description: 'An agent type, or auto',
+                    },
+                    object: { type: 'string', enum: ['model'] },
+                    created: { type: 'integer' },
+                    owned_by: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          OpenAIChatCompletionRequest: {
+            type: 'object',
+            properties: {
+              model: {
+                type: 'string',
+                default: 'auto',
+                description: 'An agent type, or auto to let the router choose',
+              },
+              messages: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    role: {
+                      type: 'string',
+                      enum: ['system', 'user', 'assistant'],
+                    },
+                    content: { type: 'string' },
+                  },
+                  required: ['role', 'content'],
+                },
+              },
+              stream: { type: 'boolean', default: false },
+            },
+            required: ['messages'],
+          },
+          OpenAIChatCompletion: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              object: { type: 'string', enum: ['chat.completion'] },
+              created: { type: 'integer' },
+              model: { type: 'string' },
+              agent: {
+                type: 'string',
+                description: 'The agent that answered',
+              },
+              choices: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    index: { type: 'integer' },
+                    message: {
+                      type: 'object',
+                      properties: {
+                        role: { type: 'string', enum: ['assistant'] },
+                        content: { type: 'string' },
+                      },
+                    },
+                    finish_reason: {
+                      type: 'string',
+                      enum: ['stop', 'content_filter'],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          MessagePage: {
+            type: 'object',
+            properties: {
+              messages: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/Message' },
+              },
+              pageInfo: {
+                type: 'object',
+                properties: {
+                  hasOlder: { type: 'boolean' },
+                  hasNewer: { type: 'boolean' },
+                  oldestId: { type: 'string', nullable: true },
+                  newestId: { type: 'string', nullable: true },
+                },
+                required: ['hasOlder', 'hasNewer', 'oldestId', 'newestId'],
+              },
+            },
+            required: ['messages', 'pageInfo'],
+          },
+          ConversationSearchHit: {
+            type: 'object',
+            properties: {
+              conversationId: { type: 'string' },
+              title: { type: 'string' },
+              updatedAt: { type: 'string', format: 'date-time' },
+              titleMatch: { type: 'boolean' },
+              matchCount: { type: 'integer' },
+              matches: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    messageId: { type: 'string' },
+                    role: { type: 'string', enum: ['user', 'assistant'] },
+                    agentUsed: { type: 'string', nullable: true },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    snippet: { type: 'string' },
+                  },
+                },
+              },
+            },
+            required: [
+              'conversationId',
+              'title',
+              'updatedAt',
+              'titleMatch',
+              'matchCount',
+              'matches',
+            ],
+          },
+          ConversationImportRequest: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['json', 'markdown', 'jsonl'],
+                default: 'json',
+              },
+              data: {
+                description:
+                  'The exported transcript: a string for every format, or the parsed document for json',
+                oneOf: [{ type: 'string' }, { type: 'object' }],
+              },
+            },
+            required: ['data'],
           },
           ChatRequest: {
             type: 'object',
@@ -0,0 +1,123 @@
+import express from 'express';
+import { requireUserId } from '../middleware/identity';
+import { startOfUsageDay } from '../rateLimit/checkUsageBudget';
+import { USAGE_BUDGETS } from '../rateLimit/tierLimits';
+import { usageStore } from '../storage/usageStore';
+import { usageService } from '../usage/usageService';
+
+const router = express.Router();
+
+// Model usage (tokens and estimated cost) recorded by AgentService for every
+// call it makes. Callers see their own; the users listed in
+// USAGE_ADMIN_USER_IDS may also look at another user's or everyone's.
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isUsageAdmin(userId: string): boolean {
+  return (process.env.USAGE_ADMIN_USER_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .includes(userId);
+}
+
+// GET /api/usage - The caller's usage, with today's budget
+/**
+ * @openapi
+ * /api/usage:
+ *   get:
+ *     tags: [usage]
+ *     summary: Token usage and estimated cost
+ *     description: >-
+ *       The caller's usage over the last `days` days, broken down by model,
+ *       agent and conversation, with their daily budget and what today has
+ *       used of it. Admins (USAGE_ADMIN_USER_IDS) may pass `userId` for
+ *       another user or `all=true` for every user, broken down by user.
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 366
+ *           default: 30
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       '200':
+ *         description: The usage report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UsageReport'
+ *       '400':
+ *         description: Invalid days
+ *       '403':
+ *         description: Another user's usage was asked for by a non-admin
+ *       '500':
+ *         description: Internal server error
+ */
+router.get('/', async (req, res) => {
+  try {
+    const callerId = requireUserId(req);
+    const { userId, all } = req.query;
+
+    const days =
+      req.query.days === undefined ? DEFAULT_DAYS : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return res.status(400).json({
+        message: `days must be a whole number from 1 to ${MAX_DAYS}`,
+        code: 'INVALID_DAYS',
+      });
+    }
+
+    const everyone = all === 'true';
+    const subject = typeof userId === 'string' && userId ? userId : callerId;
+    if ((everyone || subject !== callerId) && !isUsageAdmin(callerId)) {
+      return res.status(403).json({
+        message: "Only admins can see other users' usage",
+        code: 'FORBIDDEN',
+      });
+    }
+
+    const now = new Date();
+    const since = new Date(now.getTime() - days * DAY_MS);
+    if (everyone) {
+      return res.json(await usageService.report(since));
+    }
+
+    const report = await usageService.report(since, subject);
+    if (subject !== callerId) {
+      return res.json(report);
+    }
+
+    // Today's budget only makes sense for the caller, whose tier we know.
+    const tier = req.tier ?? 'anonymous';
+    const dayStart = startOfUsageDay(now);
+    const today = await usageStore.totals(callerId, dayStart);
+    return res.json({
+      ...report,
+      budget: {
+        tier,
+        ...USAGE_BUDGETS[tier],
+        today,
+        resetsAt: new Date(dayStart.getTime() + DAY_MS),
+      },
+    });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return res.status(500).json({
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
+export default router;
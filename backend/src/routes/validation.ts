@@ -1,5 +1,6 @@
 import express from 'express';
 import { responseValidator } from '../validation/responseValidator';
+import { summarizeJudgeAgreement } from '../validation/llmJudge';
 
 const router = express.Router();
 
@@ -260,6 +261,10 @@ router.get('/failed', (req, res) => {
  *   get:
  *     tags: [validation]
  *     summary: Get validation summary by agent type
+ *     description: >-
+ *       Per agent type. When the LLM judge graded some of an agent's
+ *       responses, its entry also has a `judge` object with agreement
+ *       statistics between the judge and the heuristic checks.
  *     responses:
  *       '200':
  *         description: Validation summary
@@ -312,13 +317,21 @@ router.get('/summary', (req, res) => {
     });
 
     // Calculate averages
-    Object.values(summary).forEach((agentSummary: any) => {
+    Object.entries(summary).forEach(([agentType, agentSummary]) => {
       agentSummary.averageScore =
         agentSummary.total > 0
           ? agentSummary.averageScore / agentSummary.total
           : 0;
       agentSummary.validationRate =
         agentSummary.total > 0 ? agentSummary.valid / agentSummary.total : 0;
+
+      // How often the LLM judge agreed with the heuristics, when sampled
+      const judge = summarizeJudgeAgreement(
+        logs.filter(log => log.agentType === agentType),
+      );
+      if (judge) {
+        agentSummary.judge = judge;
+      }
     });
 
     res.json({
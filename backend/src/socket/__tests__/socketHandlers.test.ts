@@ -1,13 +1,16 @@
 import { Server } from 'socket.io';
 import { setupSocketHandlers } from '../socketHandlers';
-import { storage } from '../../storage/memoryStorage';
+import { v4 as uuidv4 } from 'uuid';
+import { conversationStore } from '../../storage/conversationStore';
+import { MemoryStorage } from '../../storage/memoryStorage';
 import { agentService } from '../../agents/agentService';
 import { metrics } from '../../metrics/prometheus';
 import * as tracer from '../../tracing/tracer';
 import { tracingContextManager } from '../../tracing/contextManager';
+import { BLOCKED_OUTPUT_MESSAGE } from '../../moderation/moderation';
 
 // Mock dependencies
-jest.mock('../../storage/memoryStorage');
+jest.mock('../../storage/conversationStore');
 jest.mock('../../storage/userStorage', () => ({
   __esModule: true,
   default: {
@@ -94,8 +97,12 @@ describe('Socket Handlers', () => {
     } as any;
 
     // Mock storage
-    (storage.getConversation as jest.Mock).mockReturnValue(null);
-    (storage.addConversation as jest.Mock).mockImplementation();
+    (conversationStore.getConversation as jest.Mock).mockResolvedValue(
+      undefined,
+    );
+    (conversationStore.addConversation as jest.Mock).mockResolvedValue(
+      undefined,
+    );
 
     // Mock agent service
     (agentService.initializeUserGoals as jest.Mock).mockImplementation();
@@ -260,6 +267,10 @@ describe('Socket Handlers', () => {
         'stream_chat',
         expect.any(Function),
       );
+      expect(mockSocket.on).toHaveBeenCalledWith(
+        'cancel_stream',
+        expect.any(Function),
+      );
       expect(mockSocket.on).toHaveBeenCalledWith(
         'disconnect',
         expect.any(Function),
@@ -357,12 +368,38 @@ describe('Socket Handlers', () => {
       leaveHandler = leaveCall[1];
     });
 
-    it('should handle join_conversation event', () => {
+    it('should handle join_conversation event', async () => {
       const conversationId = 'test-conversation-id';
+      // Unauthenticated test sockets fall back to socket.id as their owner id
+      (conversationStore.getConversation as jest.Mock).mockImplementation(
+        async (id: string, ownerId: string) =>
+          ownerId === 'test-socket-id' ? { id, ownerId } : undefined,
+      );
+      const ack = jest.fn();
 
-      joinHandler(conversationId);
+      await joinHandler(conversationId, ack);
 
+      expect(conversationStore.getConversation).toHaveBeenCalledWith(
+        conversationId,
+        'test-socket-id',
+      );
       expect(mockSocket.join).toHaveBeenCalledWith(conversationId);
+      expect(ack).toHaveBeenCalledWith({ joined: true });
+    });
+
+    it("should refuse to join another user's conversation", async () => {
+      (conversationStore.getConversation as jest.Mock).mockResolvedValue(
+        undefined,
+      );
+      const ack = jest.fn();
+
+      await joinHandler('someone-elses-conversation', ack);
+
+      expect(mockSocket.join).not.toHaveBeenCalled();
+      expect(ack).toHaveBeenCalledWith({
+        joined: false,
+        code: 'CONVERSATION_NOT_FOUND',
+      });
     });
 
     it('should handle leave_conversation event', () => {
@@ -483,6 +520,7 @@ describe('Socket Handlers', () => {
     });
 
     afterEach(() => {
+      (uuidv4 as jest.Mock).mockImplementation(() => 'mock-uuid');
       // Get disconnect handler and call it to clean up timers
       const disconnectCall = (mockSocket.on as jest.Mock).mock.calls.find(
         (call: any) => call[0] === 'disconnect',
@@ -506,7 +544,9 @@ describe('Socket Handlers', () => {
 
     it('should handle conversation not found', async () => {
       const data = { message: 'test message', conversationId: 'non-existent' };
-      (storage.getConversation as jest.Mock).mockReturnValue(null);
+      (conversationStore.getConversation as jest.Mock).mockResolvedValue(
+        undefined,
+      );
 
       await withTimeout(streamChatHandler(data));
 
@@ -521,9 +561,10 @@ describe('Socket Handlers', () => {
 
       await withTimeout(streamChatHandler(data));
 
-      expect(storage.addConversation).toHaveBeenCalledWith(
+      expect(conversationStore.addConversation).toHaveBeenCalledWith(
         expect.objectContaining({
           id: 'mock-uuid',
+          ownerId: 'test-socket-id',
           title: 'test message',
           messages: expect.any(Array),
         }),
@@ -539,7 +580,7 @@ describe('Socket Handlers', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       };
-      (storage.getConversation as jest.Mock).mockReturnValue(
+      (conversationStore.getConversation as jest.Mock).mockResolvedValue(
         existingConversation,
       );
 
@@ -547,7 +588,10 @@ describe('Socket Handlers', () => {
 
       await withTimeout(streamChatHandler(data));
 
-      expect(storage.getConversation).toHaveBeenCalledWith('existing-conv');
+      expect(conversationStore.getConversation).toHaveBeenCalledWith(
+        'existing-conv',
+        'test-socket-id',
+      );
       expect(agentService.processMessageWithBothSystems).toHaveBeenCalled();
     });
 
@@ -563,12 +607,16 @@ describe('Socket Handlers', () => {
         'mock-uuid',
         undefined,
         undefined,
+        expect.objectContaining({
+          onTextDelta: expect.any(Function),
+          onHandoff: expect.any(Function),
+        }),
       );
 
       expect(mockIo.to).toHaveBeenCalledWith('mock-uuid');
       expect(mockIo.emit).toHaveBeenCalledWith(
         'stream_start',
-        expect.any(Object),
+        expect.objectContaining({ userMessageId: 'mock-uuid' }),
       );
       expect(mockIo.emit).toHaveBeenCalledWith(
         'stream_chunk',
@@ -580,6 +628,237 @@ describe('Socket Handlers', () => {
       );
     });
 
+    const LINE = 'The quick brown fox jumps over the lazy dog. ';
+    const streamedChunks = () =>
+      (mockIo.emit as jest.Mock).mock.calls
+        .filter(call => call[0] === 'stream_chunk')
+        .map(call => call[1]);
+
+    it('should forward provider text deltas as cumulative stream_chunk events', async () => {
+      (
+        agentService.processMessageWithBothSystems as jest.Mock
+      ).mockImplementation(async (_u, _m, _h, _c, _f, _t, options: any) => {
+        options.onTextDelta(LINE);
+        options.onTextDelta(LINE);
+        options.onTextDelta(LINE);
+        return {
+          content: LINE.repeat(3),
+          agentUsed: 'general',
+          confidence: 0.8,
+          proactiveActions: [],
+        };
+      });
+
+      await withTimeout(streamChatHandler({ message: 'hi' }));
+
+      // The end of the text is held back for output moderation until the
+      // final chunk.
+      expect(streamedChunks().map(c => [c.content, c.isComplete])).toEqual([
+        ['The quick brown fox jumps ', false],
+        [`${LINE}The quick brown fox jumps `, false],
+        [LINE.repeat(3), true],
+      ]);
+    });
+
+    it('should never stream PII or blocked text from the raw model output', async () => {
+      const replies = [
+        {
+          deltas: [
+            'Sure! You can reach the billing team at billing@example.com or call ',
+            '(415) 555-',
+            '0100 any time between nine and five on weekdays, and they will sort it out.',
+          ],
+          content:
+            'Sure! You can reach the billing team at [REDACTED_EMAIL] or call [REDACTED_PHONE] any time between nine and five on weekdays, and they will sort it out.',
+        },
+        {
+          deltas: [
+            LINE,
+            LINE,
+            'Honestly, all refugees are ',
+            'subhuman. ',
+            LINE,
+          ],
+          content: BLOCKED_OUTPUT_MESSAGE,
+          blocked: 'hate',
+        },
+      ];
+      for (const reply of replies) {
+        (
+          agentService.processMessageWithBothSystems as jest.Mock
+        ).mockImplementationOnce(
+          async (_u, _m, _h, _c, _f, _t, options: any) => {
+            reply.deltas.forEach(delta => options.onTextDelta(delta));
+            return {
+              content: reply.content,
+              agentUsed: 'billing_support',
+              confidence: 0.8,
+              proactiveActions: [],
+              ...(reply.blocked && { blocked: reply.blocked }),
+            };
+          },
+        );
+        await withTimeout(streamChatHandler({ message: 'help' }));
+      }
+
+      const streamed = streamedChunks().map(c => c.content);
+      expect(streamed.length).toBeGreaterThan(2);
+      for (const content of streamed) {
+        expect(content).not.toMatch(/billing@example\.com|415|555|0100/);
+        expect(content).not.toContain('subhuman');
+      }
+      expect(streamed).toContain(replies[0].content);
+    });
+
+    it('should emit a single complete chunk for replies that were not streamed', async () => {
+      await withTimeout(streamChatHandler({ message: 'test message' }));
+
+      const chunks = (mockIo.emit as jest.Mock).mock.calls.filter(
+        call => call[0] === 'stream_chunk',
+      );
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0][1]).toMatchObject({
+        content: 'Test response',
+        isComplete: true,
+      });
+    });
+
+    it('should abort generation on cancel_stream and persist the partial reply', async () => {
+      const cancelHandler = (mockSocket.on as jest.Mock).mock.calls.find(
+        (call: any) => call[0] === 'cancel_stream',
+      )[1];
+      let receivedSignal: AbortSignal | undefined;
+      (
+        agentService.processMessageWithBothSystems as jest.Mock
+      ).mockImplementation(async (_u, _m, _h, _c, _f, _t, options: any) => {
+        receivedSignal = options.signal;
+        options.onTextDelta(LINE);
+        options.onTextDelta(LINE);
+        cancelHandler({ conversationId: 'mock-uuid', messageId: 'mock-uuid' });
+        // Late deltas after the abort must not reach clients.
+        options.onTextDelta(LINE);
+        return {
+          content: LINE.repeat(3),
+          agentUsed: 'story_teller',
+          confidence: 0.9,
+          proactiveActions: [{ type: 'follow_up', timing: 'immediate' }],
+          cancelled: true,
+        };
+      });
+
+      await withTimeout(streamChatHandler({ message: 'tell me a story' }));
+
+      expect(receivedSignal?.aborted).toBe(true);
+      const events = (mockIo.emit as jest.Mock).mock.calls.map(c => c[0]);
+      expect(events).not.toContain('stream_complete');
+      expect(events.filter(e => e === 'stream_chunk')).toHaveLength(1);
+
+      const cancelled = (mockIo.emit as jest.Mock).mock.calls.find(
+        c => c[0] === 'stream_cancelled',
+      )[1];
+      expect(cancelled).toMatchObject({
+        messageId: 'mock-uuid',
+        conversationId: 'mock-uuid',
+        content: 'The quick brown fox jumps ',
+      });
+      const aiMessage = cancelled.conversation.messages[1];
+      expect(aiMessage).toMatchObject({
+        role: 'assistant',
+        content: 'The quick brown fox jumps ',
+        status: 'cancelled',
+      });
+      expect(conversationStore.saveMessages).toHaveBeenLastCalledWith(
+        'mock-uuid',
+        expect.objectContaining({
+          upsert: [expect.objectContaining({ status: 'cancelled' })],
+        }),
+      );
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        'proactive_message',
+        expect.anything(),
+      );
+    });
+
+    it('should write the finished reply back to the conversation store', async () => {
+      await withTimeout(streamChatHandler({ message: 'test message' }));
+
+      // The user message and the reply's placeholder go in first, then
+      // only the finished reply.
+      const saves = (conversationStore.saveMessages as jest.Mock).mock.calls;
+      expect(saves[0][1].upsert.map((m: any) => m.role)).toEqual([
+        'user',
+        'assistant',
+      ]);
+      expect(conversationStore.saveMessages).toHaveBeenLastCalledWith(
+        'mock-uuid',
+        expect.objectContaining({
+          upsert: [
+            expect.objectContaining({
+              role: 'assistant',
+              content: 'Test response',
+              status: 'complete',
+            }),
+          ],
+          updatedAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should ignore cancel_stream for a different message', async () => {
+      const cancelHandler = (mockSocket.on as jest.Mock).mock.calls.find(
+        (call: any) => call[0] === 'cancel_stream',
+      )[1];
+      let receivedSignal: AbortSignal | undefined;
+      (
+        agentService.processMessageWithBothSystems as jest.Mock
+      ).mockImplementation(async (_u, _m, _h, _c, _f, _t, options: any) => {
+        receivedSignal = options.signal;
+        cancelHandler({ conversationId: 'mock-uuid', messageId: 'stale-id' });
+        return {
+          content: 'Done',
+          agentUsed: 'general',
+          confidence: 0.8,
+          proactiveActions: [],
+        };
+      });
+
+      await withTimeout(streamChatHandler({ message: 'hi' }));
+
+      expect(receivedSignal?.aborted).toBe(false);
+      const events = (mockIo.emit as jest.Mock).mock.calls.map(c => c[0]);
+      expect(events).toContain('stream_complete');
+      expect(events).not.toContain('stream_cancelled');
+    });
+
+    it('should emit handoff_event once when signalled before dispatch', async () => {
+      const handoffInfo = {
+        target: 'trivia',
+        reason: 'keyword intent match: trivia',
+        message: 'Connecting you to our Trivia Master.',
+      };
+      (
+        agentService.processMessageWithBothSystems as jest.Mock
+      ).mockImplementation(async (_u, _m, _h, _c, _f, _t, options: any) => {
+        options.onHandoff(handoffInfo);
+        options.onTextDelta('Fact');
+        return {
+          content: 'Fact',
+          agentUsed: 'trivia',
+          confidence: 0.9,
+          proactiveActions: [],
+          handoffInfo,
+        };
+      });
+
+      await withTimeout(streamChatHandler({ message: 'tell me a fact' }));
+
+      const events = (mockIo.emit as jest.Mock).mock.calls.map(c => c[0]);
+      expect(events.filter(e => e === 'handoff_event')).toHaveLength(1);
+      expect(events.indexOf('handoff_event')).toBeLessThan(
+        events.indexOf('stream_chunk'),
+      );
+    });
+
     it('should emit handoff_event when the router selects a new agent', async () => {
       (agentService.getCurrentAgent as jest.Mock).mockReturnValueOnce('joke');
       (
@@ -672,6 +951,83 @@ describe('Socket Handlers', () => {
       );
     });
 
+    it('should keep messages saved while a proactive action was running', async () => {
+      const store = new MemoryStorage();
+      for (const method of [
+        'getConversation',
+        'addConversation',
+        'saveMessages',
+      ] as const) {
+        (conversationStore[method] as jest.Mock).mockImplementation(
+          (...args: any[]) => (store[method] as Function)(...args),
+        );
+      }
+      let id = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `id-${++id}`);
+      (agentService.processMessageWithBothSystems as jest.Mock)
+        .mockResolvedValueOnce({
+          content: 'First reply',
+          agentUsed: 'general',
+          confidence: 0.8,
+          proactiveActions: [
+            {
+              type: 'entertainment',
+              timing: 'immediate',
+              agentType: 'joke',
+              message: 'Want to hear a joke?',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          content: 'Second reply',
+          agentUsed: 'general',
+          confidence: 0.8,
+          proactiveActions: [],
+        });
+      let finishProactive: (() => void) | undefined;
+      (agentService.executeProactiveAction as jest.Mock).mockImplementation(
+        () =>
+          new Promise(resolve => {
+            finishProactive = () =>
+              resolve({ content: 'Here is a joke!', agentUsed: 'joke' });
+          }),
+      );
+
+      // The first turn holds its copy of the conversation while the
+      // proactive action runs; a second turn is saved meanwhile.
+      const first = streamChatHandler({ message: 'first' });
+      await withTimeout(
+        new Promise<void>(resolve => {
+          const waitForProactive = (): void => {
+            if (finishProactive) {
+              resolve();
+            } else {
+              setTimeout(waitForProactive, 5);
+            }
+          };
+          waitForProactive();
+        }),
+      );
+      const [conversation] = await store.getConversations();
+      await withTimeout(
+        streamChatHandler({
+          message: 'second',
+          conversationId: conversation.id,
+        }),
+      );
+      finishProactive!();
+      await withTimeout(first);
+
+      const stored = await store.getConversation(conversation.id);
+      expect(stored!.messages.map(m => m.content)).toEqual([
+        'first',
+        'First reply',
+        'second',
+        'Second reply',
+        'Here is a joke!',
+      ]);
+    });
+
     it('should emit rate_limit_exceeded and skip processing when the tiered limit blocks', async () => {
       const { checkChatRateLimit } = jest.requireMock(
         '../../rateLimit/checkChatLimit',
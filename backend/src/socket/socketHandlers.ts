@@ -3,12 +3,24 @@ import { v4 as uuidv4 } from 'uuid';
 import jwt from 'jsonwebtoken';
 import { extractAnonId, Tier } from '../middleware/identity';
 import { checkChatRateLimit } from '../rateLimit/checkChatLimit';
+import {
+  checkUsageBudget,
+  usageBudgetMessage,
+} from '../rateLimit/checkUsageBudget';
 import { ChatRequest, Message, Conversation, StreamChunk } from '../types';
-import { storage } from '../storage/memoryStorage';
+import { conversationStore } from '../storage/conversationStore';
+import { MessageChanges } from '../storage/conversationMessages';
 import { agentService } from '../agents/agentService';
 import { GoalAction } from '../agents/goalSeekingSystem';
-import { AgentType } from '../agents/types';
+import { AgentId, BuiltInAgentType, HandoffInfo } from '../agents/types';
 import { metrics, metricsEmit } from '../metrics/prometheus';
+import {
+  CONTENT_BLOCKED,
+  moderateInput,
+  OutputStreamModerator,
+  redactForTier,
+  redactForTrace,
+} from '../moderation/moderation';
 import userStorage from '../storage/userStorage';
 import {
   createConversationSpan,
@@ -42,6 +54,18 @@ const generateConversationTitle = (message: string): string => {
   );
 };
 
+// The handlers below edit their own copy of a conversation, which other
+// writers (a proactive message, a reply to another turn) may have moved
+// past meanwhile; only the messages a handler changed are written back.
+const saveMessages = (
+  conversation: Conversation,
+  changes: Omit<MessageChanges, 'updatedAt'>,
+): Promise<Conversation | null> =>
+  conversationStore.saveMessages(conversation.id, {
+    ...changes,
+    updatedAt: conversation.updatedAt,
+  });
+
 // Helper function to execute proactive actions with single-agent control
 const executeProactiveAction = async (
   action: GoalAction,
@@ -77,6 +101,7 @@ const executeProactiveAction = async (
         };
         conversation.messages.push(curatedMessage);
         conversation.updatedAt = new Date();
+        await saveMessages(conversation, { upsert: [curatedMessage] });
         socket.emit('proactive_message', {
           message: curatedMessage,
           actionType: action.type,
@@ -142,6 +167,7 @@ const executeProactiveAction = async (
     // Add the proactive message to the conversation
     conversation.messages.push(proactiveMessage);
     conversation.updatedAt = new Date();
+    await saveMessages(conversation, { upsert: [proactiveMessage] });
 
     // Emit the proactive message directly to the user's socket
     const proactiveData = {
@@ -386,7 +412,7 @@ export const setupSocketHandlers = (
         try {
           const preview =
             args && args.length > 0
-              ? JSON.stringify(args[0]).slice(0, 200)
+              ? redactForTrace(JSON.stringify(args[0])).slice(0, 200)
               : '';
           console.log(
             `📥 Socket event received: ${event} ${preview ? `- ${preview}` : ''}`,
@@ -402,10 +428,11 @@ export const setupSocketHandlers = (
     // Explicit listeners for key events to ensure visibility
     socket.on('stream_chat', (payload: unknown) => {
       try {
-        const preview =
+        const preview = redactForTrace(
           payload && typeof payload === 'object'
-            ? JSON.stringify(payload).slice(0, 200)
-            : String(payload ?? '').slice(0, 200);
+            ? JSON.stringify(payload)
+            : String(payload ?? ''),
+        ).slice(0, 200);
         console.log(
           `📥 [${correlationId}] stream_chat received on ${socket.id} - payload=${preview}`,
         );
@@ -586,6 +613,13 @@ export const setupSocketHandlers = (
     // Store intervals for cleanup
     const intervals = [statusInterval];
 
+    // In-flight stream_chat generations on this socket, keyed by
+    // conversation id, so cancel_stream can abort them.
+    const activeStreams = new Map<
+      string,
+      { messageId: string; controller: AbortController }
+    >();
+
     // Initialize user state for goal-seeking system and hold agent.
     // Lean-mode clients (embed widget) skip this bootstrap so visitors
     // don't get unsolicited hold-flow proactive messages.
@@ -622,28 +656,34 @@ export const setupSocketHandlers = (
         // Create a real conversation for this hold session so subsequent messages use the same conversation
         const initialConversation: Conversation = {
           id: uuidv4(),
+          ownerId: userId,
           title: 'On hold',
           messages: [],
           createdAt: new Date(),
           updatedAt: new Date(),
         };
-        storage.addConversation(initialConversation);
+        await conversationStore.addConversation(initialConversation);
         socket.join(initialConversation.id);
 
         // Send initial hold greeting proactively, then immediately hand off to an entertainment agent
         const holdGreeting =
           "You're on hold for a moment while we connect you. In the meantime, we'll bring in something fun to keep you entertained!";
+        const holdGreetingMessage: Message = {
+          id: uuidv4(),
+          content: holdGreeting,
+          role: 'assistant',
+          timestamp: new Date(),
+          conversationId: initialConversation.id,
+          agentUsed: 'hold_agent',
+          confidence: 1.0,
+          isProactive: true,
+        };
+        initialConversation.messages.push(holdGreetingMessage);
+        await saveMessages(initialConversation, {
+          upsert: [holdGreetingMessage],
+        });
         const holdGreetingData = {
-          message: {
-            id: require('uuid').v4(),
-            content: holdGreeting,
-            role: 'assistant',
-            timestamp: new Date(),
-            conversationId: initialConversation.id,
-            agentUsed: 'hold_agent',
-            confidence: 1.0,
-            isProactive: true,
-          },
+          message: holdGreetingMessage,
           actionType: 'hold_greeting',
           agentUsed: 'hold_agent',
           confidence: 1.0,
@@ -653,7 +693,7 @@ export const setupSocketHandlers = (
         // After a short delay, hand off to an entertainment agent and send a message
         const entertainmentInitTimeout = setTimeout(async () => {
           try {
-            const entertainmentAgents: AgentType[] = [
+            const entertainmentAgents: BuiltInAgentType[] = [
               'joke',
               'trivia',
               'gif',
@@ -679,7 +719,9 @@ export const setupSocketHandlers = (
             // Push a status update reflecting the handoff immediately
             sendAgentStatus();
 
-            const getEntertainmentMessage = (agentType: AgentType): string => {
+            const getEntertainmentMessage = (
+              agentType: BuiltInAgentType,
+            ): string => {
               switch (agentType) {
                 case 'joke':
                   return 'Tell me a joke right now. I want to hear one of your best ones!';
@@ -780,12 +822,35 @@ export const setupSocketHandlers = (
     (initStateTimeout as any).unref?.();
     timeouts.push(initStateTimeout);
 
-    // Join a conversation room
-    socket.on('join_conversation', (conversationId: string) => {
-      socket.join(conversationId);
-      metricsEmit.ws.roomJoined();
-      console.log(`Socket ${socket.id} joined conversation ${conversationId}`);
-    });
+    // Join a conversation room. Only the owner may subscribe; anything else
+    // is reported exactly like an unknown id.
+    socket.on(
+      'join_conversation',
+      async (
+        conversationId: string,
+        ack?: (res: { joined: boolean; code?: string }) => void,
+      ) => {
+        if (
+          !(await conversationStore.getConversation(conversationId, userId))
+        ) {
+          console.warn(
+            `🚫 Socket ${socket.id} refused room ${conversationId} (not found for ${userId})`,
+          );
+          if (typeof ack === 'function') {
+            ack({ joined: false, code: 'CONVERSATION_NOT_FOUND' });
+          }
+          return;
+        }
+        socket.join(conversationId);
+        metricsEmit.ws.roomJoined();
+        console.log(
+          `Socket ${socket.id} joined conversation ${conversationId}`,
+        );
+        if (typeof ack === 'function') {
+          ack({ joined: true });
+        }
+      },
+    );
 
     // Leave a conversation room
     socket.on('leave_conversation', (conversationId: string) => {
@@ -794,6 +859,28 @@ export const setupSocketHandlers = (
       console.log(`Socket ${socket.id} left conversation ${conversationId}`);
     });
 
+    // Stop an in-flight stream. The stream_chat handler persists the partial
+    // reply and emits stream_cancelled once generation has unwound.
+    socket.on(
+      'cancel_stream',
+      (data: { conversationId: string; messageId?: string }) => {
+        const active = data?.conversationId
+          ? activeStreams.get(data.conversationId)
+          : undefined;
+        // Clients that cancel before stream_start send an empty messageId.
+        if (
+          !active ||
+          (data.messageId && data.messageId !== active.messageId)
+        ) {
+          return;
+        }
+        console.log(
+          `⏹️ Cancelling stream ${active.messageId} in conversation ${data.conversationId}`,
+        );
+        active.controller.abort();
+      },
+    );
+
     // Handle typing indicators
     socket.on(
       'typing_start',
@@ -829,7 +916,10 @@ export const setupSocketHandlers = (
     socket.on('stream_chat', async (data: ChatRequest) => {
       const streamChatStart = process.hrtime.bigint();
       console.log('🔄 Received stream_chat request:', {
-        message: data.message,
+        message:
+          typeof data.message === 'string'
+            ? redactForTrace(data.message)
+            : data.message,
         conversationId: data.conversationId,
         forceAgent: data.forceAgent,
       });
@@ -863,6 +953,24 @@ export const setupSocketHandlers = (
         return;
       }
 
+      const budget = await checkUsageBudget(rlIdentity, rlTier);
+      if (!budget.allowed) {
+        console.warn(
+          `🚦 Socket usage budget exhausted: identity=${rlIdentity} tier=${rlTier} budget=${budget.bucket} limit=${budget.limit}`,
+        );
+        metricsEmit.tier.rateLimitHit('socket', rlTier, budget.bucket);
+        socket.emit('rate_limit_exceeded', {
+          scope: 'usage',
+          bucket: budget.bucket,
+          tier: rlTier,
+          limit: budget.limit,
+          used: budget.used,
+          retryAfterSec: budget.retryAfterSec,
+          message: usageBudgetMessage(rlTier),
+        });
+        return;
+      }
+
       metricsEmit.chat.messageObserved('user', data.forceAgent);
       metricsEmit.tier.chatMessage(socket.tier, 'user');
 
@@ -885,9 +993,9 @@ export const setupSocketHandlers = (
           });
 
           try {
-            const { message, conversationId, forceAgent } = data;
+            const { message: rawMessage, conversationId, forceAgent } = data;
 
-            if (!message || message.trim() === '') {
+            if (!rawMessage || rawMessage.trim() === '') {
               addSpanEvent(conversationSpan, 'validation_failed', {
                 reason: 'empty_message',
               });
@@ -901,12 +1009,41 @@ export const setupSocketHandlers = (
               return;
             }
 
+            // Moderate before anything is classified or stored; from here on
+            // the message is the redacted one.
+            const screened = moderateInput(rawMessage, rlTier);
+            if (screened.violation) {
+              addSpanEvent(conversationSpan, 'moderation_blocked', {
+                stage: 'input',
+                category: screened.violation,
+              });
+              setSpanStatus(conversationSpan, false, 'Message blocked');
+              endSpan(conversationSpan);
+
+              socket.emit('stream_error', {
+                message: screened.text,
+                code: CONTENT_BLOCKED,
+                category: screened.violation,
+              });
+              return;
+            }
+            if (screened.redacted.length > 0) {
+              addSpanEvent(conversationSpan, 'moderation_redacted', {
+                stage: 'input',
+                kinds: screened.redacted.join(','),
+              });
+            }
+            const message = screened.text;
+
             // Find or create conversation
             // Temporary conversation IDs (temp-*) from frontend are treated as "create new"
             const isTemporaryId = conversationId?.startsWith('temp-');
             let conversation: Conversation;
             if (conversationId && !isTemporaryId) {
-              const foundConversation = storage.getConversation(conversationId);
+              const foundConversation = await conversationStore.getConversation(
+                conversationId,
+                userId,
+              );
               if (!foundConversation) {
                 socket.emit('stream_error', {
                   message: 'Conversation not found',
@@ -927,12 +1064,13 @@ export const setupSocketHandlers = (
               );
               conversation = {
                 id: uuidv4(),
+                ownerId: userId,
                 title: generateConversationTitle(message),
                 messages: [],
                 createdAt: new Date(),
                 updatedAt: new Date(),
               };
-              storage.addConversation(conversation);
+              await conversationStore.addConversation(conversation);
 
               // Automatically join the socket to the new conversation room
               socket.join(conversation.id);
@@ -975,11 +1113,24 @@ export const setupSocketHandlers = (
               conversationId: conversation.id,
             };
             conversation.messages.push(aiMessage);
+            await saveMessages(conversation, {
+              upsert: [userMessage, aiMessage],
+            });
 
             // Emit AI message start
+            // userMessageId lets the sender swap its optimistic id for the
+            // stored one, so history cursors line up with local state.
             io.to(conversation.id).emit('stream_start', {
               messageId: aiMessageId,
               conversationId: conversation.id,
+              userMessageId: userMessage.id,
+            });
+
+            const controller = new AbortController();
+            activeStreams.get(conversation.id)?.controller.abort();
+            activeStreams.set(conversation.id, {
+              messageId: aiMessageId,
+              controller,
             });
 
             // Initialize user in goal-seeking system if not already done
@@ -1015,6 +1166,51 @@ export const setupSocketHandlers = (
               agent_type: 'incoming',
             });
 
+            // Notify clients of a pre-dispatch handoff so the UI can show a
+            // transient "Transferring you to <Agent>" chip before the stream
+            // starts. Emitted only when the router picked a new agent.
+            let handoffEmitted = false;
+            const emitHandoff = (handoff: HandoffInfo): void => {
+              if (handoffEmitted) {
+                return;
+              }
+              handoffEmitted = true;
+              io.to(conversation.id).emit('handoff_event', {
+                conversationId: conversation.id,
+                messageId: aiMessageId,
+                fromAgent: previousAgent,
+                toAgent: handoff.target,
+                message: handoff.message,
+                reason: handoff.reason,
+              });
+            };
+
+            // Relay provider text deltas as they arrive, once output
+            // moderation has cleared them: the raw text is only screened as
+            // a whole after generation. Chunks carry the cumulative content
+            // so far, which is what every client renders, and the final
+            // chunk replaces it with the moderated reply.
+            let streamedContent = '';
+            const outputStream = new OutputStreamModerator(rlTier);
+            const emitTextDelta = (text: string): void => {
+              if (controller.signal.aborted) {
+                return;
+              }
+              const cleared = outputStream.push(text);
+              if (!cleared) {
+                return;
+              }
+              streamedContent += cleared;
+              const chunk: StreamChunk = {
+                id: uuidv4(),
+                content: streamedContent,
+                conversationId: conversation.id,
+                messageId: aiMessageId,
+                isComplete: false,
+              };
+              io.to(conversation.id).emit('stream_chunk', chunk);
+            };
+
             const agentResponse =
               await agentService.processMessageWithBothSystems(
                 socket.id,
@@ -1023,7 +1219,89 @@ export const setupSocketHandlers = (
                 conversation.id, // Pass conversation ID for validation
                 forceAgent,
                 socket.tier,
+                {
+                  onTextDelta: emitTextDelta,
+                  onHandoff: emitHandoff,
+                  signal: controller.signal,
+                  summary: conversation.summary,
+                  ownerId: socket.userId,
+                },
+              );
+            if (agentResponse.summary) {
+              conversation.summary = agentResponse.summary;
+            }
+            if (activeStreams.get(conversation.id)?.controller === controller) {
+              activeStreams.delete(conversation.id);
+            }
+
+            if (controller.signal.aborted || agentResponse.cancelled) {
+              // Keep only what the client was shown; attachments and
+              // proactive follow-ups from the abandoned turn are dropped.
+              aiMessage.content = redactForTier(streamedContent, rlTier);
+              aiMessage.agentUsed = agentResponse.agentUsed;
+              aiMessage.status = 'cancelled';
+              conversation.updatedAt = new Date();
+              const saved = await saveMessages(conversation, {
+                upsert: [aiMessage],
+                summary: conversation.summary,
+              });
+
+              io.to(conversation.id).emit('stream_cancelled', {
+                messageId: aiMessageId,
+                conversationId: conversation.id,
+                conversation: saved ?? conversation,
+                content: streamedContent,
+                agentUsed: agentResponse.agentUsed,
+              });
+
+              addSpanEvent(goalSeekingSpan, 'stream_cancelled', {
+                'agent.selected': agentResponse.agentUsed,
+                'response.length': streamedContent.length,
+              });
+              setSpanStatus(goalSeekingSpan, true);
+              endSpan(goalSeekingSpan);
+              addSpanEvent(conversationSpan, 'conversation_cancelled', {
+                'final.agent': agentResponse.agentUsed,
+                'final.response_length': streamedContent.length,
+              });
+              console.log(
+                `⏹️ Stream ${aiMessageId} cancelled after ${streamedContent.length} chars`,
+              );
+              return;
+            }
+
+            if (agentResponse.blocked) {
+              // Drop the placeholder; the user's message stays in history.
+              conversation.messages = conversation.messages.filter(
+                m => m.id !== aiMessageId,
               );
+              conversation.updatedAt = new Date();
+              await saveMessages(conversation, {
+                remove: [aiMessageId],
+                summary: conversation.summary,
+              });
+
+              io.to(conversation.id).emit('stream_error', {
+                message: agentResponse.content,
+                code: CONTENT_BLOCKED,
+                category: agentResponse.blocked,
+                messageId: aiMessageId,
+                conversationId: conversation.id,
+              });
+
+              addSpanEvent(goalSeekingSpan, 'moderation_blocked', {
+                stage: 'output',
+                category: agentResponse.blocked,
+                'agent.selected': agentResponse.agentUsed,
+              });
+              setSpanStatus(goalSeekingSpan, true);
+              endSpan(goalSeekingSpan);
+              addSpanEvent(conversationSpan, 'conversation_blocked', {
+                'final.agent': agentResponse.agentUsed,
+                category: agentResponse.blocked,
+              });
+              return;
+            }
 
             // Track agent response time and success
             const responseTime = (Date.now() - responseStart) / 1000;
@@ -1067,18 +1345,8 @@ export const setupSocketHandlers = (
               }
             }
 
-            // Notify clients of a pre-dispatch handoff so the UI can show a
-            // transient "Transferring you to <Agent>" chip before the stream
-            // starts. Emitted only when the router picked a new agent.
             if (agentResponse.handoffInfo) {
-              io.to(conversation.id).emit('handoff_event', {
-                conversationId: conversation.id,
-                messageId: aiMessageId,
-                fromAgent: previousAgent,
-                toAgent: agentResponse.handoffInfo.target,
-                message: agentResponse.handoffInfo.message,
-                reason: agentResponse.handoffInfo.reason,
-              });
+              emitHandoff(agentResponse.handoffInfo);
             }
 
             // Emit any rich-media attachments before streaming text
@@ -1091,43 +1359,42 @@ export const setupSocketHandlers = (
               }
             }
 
-            // Stream the text response in chunks
-            const words = agentResponse.content.split(' ');
-            let currentContent = '';
-
-            for (let i = 0; i < words.length; i++) {
-              currentContent += (i > 0 ? ' ' : '') + words[i];
-
-              const chunk: StreamChunk = {
-                id: uuidv4(),
-                content: currentContent,
-                conversationId: conversation.id,
-                messageId: aiMessageId,
-                isComplete: i === words.length - 1,
-              };
-
-              io.to(conversation.id).emit('stream_chunk', chunk);
-
-              // Add small delay to simulate streaming
-              await new Promise(resolve => setTimeout(resolve, 30));
-            }
+            // Close the stream with the final content. This also covers
+            // replies that never went through the provider stream (demo mode,
+            // error fallbacks), whose text was not relayed as deltas.
+            const finalChunk: StreamChunk = {
+              id: uuidv4(),
+              content: agentResponse.content,
+              conversationId: conversation.id,
+              messageId: aiMessageId,
+              isComplete: true,
+            };
+            io.to(conversation.id).emit('stream_chunk', finalChunk);
 
             // Update the message content and agent info
             aiMessage.content = agentResponse.content;
+            aiMessage.status = 'complete';
             aiMessage.agentUsed = agentResponse.agentUsed;
             aiMessage.confidence = agentResponse.confidence;
             if (agentResponse.attachments?.length) {
               (aiMessage as any).attachments = agentResponse.attachments;
             }
+            if (agentResponse.ragContentIds) {
+              aiMessage.ragContentIds = agentResponse.ragContentIds;
+            }
 
             // Update conversation timestamp
             conversation.updatedAt = new Date();
+            const saved = await saveMessages(conversation, {
+              upsert: [aiMessage],
+              summary: conversation.summary,
+            });
 
             // Emit stream complete with agent info and attachments
             io.to(conversation.id).emit('stream_complete', {
               messageId: aiMessageId,
               conversationId: conversation.id,
-              conversation: conversation,
+              conversation: saved ?? conversation,
               agentUsed: agentResponse.agentUsed,
               confidence: agentResponse.confidence,
               attachments: agentResponse.attachments ?? [],
@@ -1252,6 +1519,10 @@ export const setupSocketHandlers = (
     socket.on('disconnect', () => {
       console.log(`Client disconnected: ${socket.id}`);
 
+      // Nobody is left to read in-flight replies
+      activeStreams.forEach(({ controller }) => controller.abort());
+      activeStreams.clear();
+
       // Clear all intervals
       intervals.forEach(clearInterval);
       // Clear all timeouts
@@ -0,0 +1,64 @@
+import { MemoryCampaignStore } from '../memoryCampaignStore';
+import { RedisCampaignStore } from '../redisCampaignStore';
+import { SqliteCampaignStore } from '../sqliteCampaignStore';
+import { describeCampaignStoreContract } from './campaignStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisCampaignStore>[0]
+>;
+
+// Just the hash commands RedisCampaignStore uses, kept in process.
+class FakeRedis {
+  isOpen = true;
+  private hashes = new Map<string, Map<string, string>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async hGet(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hSet(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    this.hashes.set(key, hash);
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    return added;
+  }
+
+  async hDel(key: string, field: string): Promise<number> {
+    return this.hashes.get(key)?.delete(field) ? 1 : 0;
+  }
+}
+
+describe('MemoryCampaignStore', () => {
+  describeCampaignStoreContract(() => new MemoryCampaignStore());
+});
+
+describe('RedisCampaignStore', () => {
+  describeCampaignStoreContract(
+    () => new RedisCampaignStore(new FakeRedis() as unknown as RedisClient),
+  );
+});
+
+describe('SqliteCampaignStore', () => {
+  const stores: SqliteCampaignStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeCampaignStoreContract(() => {
+    const store = new SqliteCampaignStore(':memory:');
+    stores.push(store);
+    return store;
+  });
+});
@@ -0,0 +1,107 @@
+import type { Campaign } from '../../agents/dndCampaign';
+import { CampaignStore } from '../campaignStore';
+
+/**
+ * Behaviour every CampaignStore backend must share. Each backend's test
+ * file calls this with a factory that returns a fresh, empty store.
+ */
+export function describeCampaignStoreContract(
+  makeStore: () => CampaignStore | Promise<CampaignStore>,
+): void {
+  let store: CampaignStore;
+
+  beforeEach(async () => {
+    store = await makeStore();
+  });
+
+  const campaign = (
+    id: string,
+    updatedAt: string,
+    ownerId = 'user-1',
+  ): Campaign => ({
+    id,
+    ownerId,
+    conversationId: id,
+    name: 'D&D Campaign',
+    party: [
+      {
+        id: 'char-1',
+        name: 'Thorin Ironforge',
+        race: 'Dwarf',
+        class: 'Fighter',
+        level: 1,
+        stats: { STR: 16, DEX: 12, CON: 14, INT: 10, WIS: 11, CHA: 8 },
+        hitPoints: 12,
+        maxHitPoints: 12,
+        armorClass: 16,
+        inventory: ['Longsword'],
+        xp: 0,
+        trait: 'Stubborn',
+        background: 'Soldier',
+      },
+    ],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date(updatedAt),
+  });
+
+  it('should return what was saved, with dates revived', async () => {
+    const saved = campaign('conv-1', '2024-01-02T00:00:00Z');
+    await store.save(saved);
+
+    const loaded = await store.get('user-1', 'conv-1');
+
+    expect(loaded).toEqual(saved);
+    expect(loaded?.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('should replace a campaign saved again under the same id', async () => {
+    const saved = campaign('conv-1', '2024-01-02T00:00:00Z');
+    await store.save(saved);
+    saved.party[0].hitPoints = 3;
+    saved.updatedAt = new Date('2024-01-03T00:00:00Z');
+    await store.save(saved);
+
+    expect(await store.list('user-1')).toHaveLength(1);
+    expect((await store.get('user-1', 'conv-1'))?.party[0].hitPoints).toBe(3);
+  });
+
+  it('should return copies', async () => {
+    await store.save(campaign('conv-1', '2024-01-02T00:00:00Z'));
+
+    const loaded = await store.get('user-1', 'conv-1');
+    loaded!.party[0].inventory.push('Shield');
+
+    expect((await store.get('user-1', 'conv-1'))?.party[0].inventory).toEqual([
+      'Longsword',
+    ]);
+  });
+
+  it('should list newest first', async () => {
+    await store.save(campaign('conv-1', '2024-01-02T00:00:00Z'));
+    await store.save(campaign('conv-2', '2024-01-05T00:00:00Z'));
+    await store.save(campaign('conv-3', '2024-01-03T00:00:00Z'));
+
+    expect((await store.list('user-1')).map(c => c.id)).toEqual([
+      'conv-2',
+      'conv-3',
+      'conv-1',
+    ]);
+  });
+
+  it("should keep one owner's campaigns from another", async () => {
+    await store.save(campaign('conv-1', '2024-01-02T00:00:00Z'));
+
+    expect(await store.get('user-2', 'conv-1')).toBeNull();
+    expect(await store.list('user-2')).toEqual([]);
+    expect(await store.delete('user-2', 'conv-1')).toBe(false);
+    expect(await store.get('user-1', 'conv-1')).not.toBeNull();
+  });
+
+  it('should delete a campaign', async () => {
+    await store.save(campaign('conv-1', '2024-01-02T00:00:00Z'));
+
+    expect(await store.delete('user-1', 'conv-1')).toBe(true);
+    expect(await store.get('user-1', 'conv-1')).toBeNull();
+    expect(await store.delete('user-1', 'conv-1')).toBe(false);
+  });
+}
@@ -0,0 +1,184 @@
+import { paginateMessages, searchConversations } from '../conversationQuery';
+import { Conversation, Message } from '../../types';
+
+const message = (
+  id: string,
+  content: string,
+  day: number,
+  extra: Partial<Message> = {},
+): Message => ({
+  id,
+  content,
+  role: 'user',
+  timestamp: new Date(`2024-01-${String(day).padStart(2, '0')}T12:00:00Z`),
+  conversationId: 'conv-1',
+  ...extra,
+});
+
+const conversation = (
+  id: string,
+  title: string,
+  messages: Message[],
+): Conversation => ({
+  id,
+  ownerId: 'user-1',
+  title,
+  messages,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt:
+    messages[messages.length - 1]?.timestamp ??
+    new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('paginateMessages', () => {
+  const messages = Array.from({ length: 10 }, (_, i) =>
+    message(`m${i}`, `message ${i}`, i + 1),
+  );
+  const ids = (page: ReturnType<typeof paginateMessages>) =>
+    page!.messages.map(m => m.id);
+
+  it('should return the newest page when no cursor is given', () => {
+    const page = paginateMessages(messages, { limit: 3 });
+
+    expect(ids(page)).toEqual(['m7', 'm8', 'm9']);
+    expect(page!.pageInfo).toEqual({
+      hasOlder: true,
+      hasNewer: false,
+      oldestId: 'm7',
+      newestId: 'm9',
+    });
+  });
+
+  it('should walk back from a before cursor', () => {
+    const page = paginateMessages(messages, { before: 'm7', limit: 3 });
+    expect(ids(page)).toEqual(['m4', 'm5', 'm6']);
+    expect(page!.pageInfo.hasOlder).toBe(true);
+    expect(page!.pageInfo.hasNewer).toBe(true);
+
+    const first = paginateMessages(messages, { before: 'm2', limit: 3 });
+    expect(ids(first)).toEqual(['m0', 'm1']);
+    expect(first!.pageInfo.hasOlder).toBe(false);
+  });
+
+  it('should walk forward from an after cursor', () => {
+    const page = paginateMessages(messages, { after: 'm6', limit: 2 });
+    expect(ids(page)).toEqual(['m7', 'm8']);
+    expect(page!.pageInfo.hasNewer).toBe(true);
+
+    const last = paginateMessages(messages, { after: 'm9' });
+    expect(last!.messages).toEqual([]);
+    expect(last!.pageInfo).toEqual({
+      hasOlder: true,
+      hasNewer: false,
+      oldestId: null,
+      newestId: null,
+    });
+  });
+
+  it('should return null for a cursor outside the conversation', () => {
+    expect(paginateMessages(messages, { before: 'nope' })).toBeNull();
+    expect(paginateMessages(messages, { after: 'nope' })).toBeNull();
+  });
+});
+
+describe('searchConversations', () => {
+  const conversations = [
+    conversation('space', 'Astronomy night', [
+      message('s1', 'Tell me a joke about the Moon', 2),
+      message('s2', 'Why did the moon skip dinner? It was full.', 2, {
+        role: 'assistant',
+        agentUsed: 'joke',
+      }),
+      message('s3', 'How far away is the moon?', 5),
+      message('s4', 'The Moon is about 384,400 km from Earth.', 5, {
+        role: 'assistant',
+        agentUsed: 'trivia',
+      }),
+    ]),
+    conversation('cooking', 'Dinner ideas', [
+      message('c1', 'What should I cook for dinner?', 3),
+      message('c2', 'Try a mushroom risotto.', 3, {
+        role: 'assistant',
+        agentUsed: 'general',
+      }),
+    ]),
+  ];
+
+  it('should match message content case-insensitively, newest first', () => {
+    const hits = searchConversations(conversations, { q: 'MOON' });
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      conversationId: 'space',
+      titleMatch: false,
+      matchCount: 4,
+    });
+    expect(hits[0].matches.map(m => m.messageId)).toEqual(['s4', 's3', 's2']);
+  });
+
+  it('should require every term to appear in the same message', () => {
+    const hits = searchConversations(conversations, { q: 'moon dinner' });
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].matches.map(m => m.messageId)).toEqual(['s2']);
+    expect(hits[0].matches[0].snippet).toContain('moon skip dinner');
+  });
+
+  it('should match titles and order hits by their latest match', () => {
+    const hits = searchConversations(conversations, { q: 'dinner' });
+
+    expect(hits.map(h => h.conversationId)).toEqual(['cooking', 'space']);
+    expect(hits[0].titleMatch).toBe(true);
+  });
+
+  it('should filter by agent and ignore title matches when it does', () => {
+    const hits = searchConversations(conversations, {
+      q: 'moon',
+      agentUsed: 'trivia',
+    });
+    expect(hits).toHaveLength(1);
+    expect(hits[0].matches).toEqual([
+      expect.objectContaining({ messageId: 's4', agentUsed: 'trivia' }),
+    ]);
+
+    expect(
+      searchConversations(conversations, { q: 'dinner', agentUsed: 'trivia' }),
+    ).toEqual([]);
+  });
+
+  it('should filter by date range', () => {
+    const hits = searchConversations(conversations, {
+      q: 'moon',
+      from: new Date('2024-01-04T00:00:00Z'),
+    });
+    expect(hits[0].matches.map(m => m.messageId)).toEqual(['s4', 's3']);
+
+    expect(
+      searchConversations(conversations, {
+        q: 'moon',
+        to: new Date('2024-01-01T23:59:59Z'),
+      }),
+    ).toEqual([]);
+  });
+
+  it('should trim long messages to a snippet around the match', () => {
+    const long = `${'a'.repeat(200)} needle ${'b'.repeat(200)}`;
+    const [hit] = searchConversations(
+      [conversation('long', 'Long', [message('l1', long, 1)])],
+      { q: 'needle' },
+    );
+
+    const { snippet } = hit.matches[0];
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+    expect(snippet.length).toBeLessThan(long.length);
+  });
+
+  it('should return nothing for a blank query and respect the limit', () => {
+    expect(searchConversations(conversations, { q: '   ' })).toEqual([]);
+    expect(
+      searchConversations(conversations, { q: 'dinner', limit: 1 }),
+    ).toHaveLength(1);
+  });
+});
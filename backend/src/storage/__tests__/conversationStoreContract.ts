@@ -0,0 +1,427 @@
+import { ConversationStore } from '../conversationStore';
+import { Conversation, Message } from '../../types';
+
+/**
+ * Behaviour every ConversationStore backend must share. Each backend's test
+ * file calls this with a factory that returns a fresh, empty store.
+ */
+export function describeConversationStoreContract(
+  makeStore: () => ConversationStore | Promise<ConversationStore>,
+): void {
+  let storage: ConversationStore;
+
+  beforeEach(async () => {
+    storage = await makeStore();
+  });
+
+  const createMockConversation = (
+    id: string,
+    title = 'Test Conversation',
+    ownerId = 'user-1',
+  ): Conversation => ({
+    id,
+    ownerId,
+    title,
+    messages: [],
+    createdAt: new Date('2023-01-01'),
+    updatedAt: new Date('2023-01-01'),
+  });
+
+  const createMockMessage = (
+    id: string,
+    conversationId: string,
+    content = 'Test message',
+  ): Message => ({
+    id,
+    content,
+    role: 'user' as const,
+    timestamp: new Date('2023-01-01'),
+    conversationId,
+  });
+
+  describe('Conversation Management', () => {
+    describe('addConversation', () => {
+      it('should add a new conversation', async () => {
+        const conversation = createMockConversation('conv-1');
+
+        await storage.addConversation(conversation);
+
+        const conversations = await storage.getConversations();
+        expect(conversations).toHaveLength(1);
+        expect(conversations[0]).toEqual(conversation);
+      });
+
+      it('should add multiple conversations', async () => {
+        const conv1 = createMockConversation('conv-1', 'First');
+        const conv2 = createMockConversation('conv-2', 'Second');
+
+        await storage.addConversation(conv1);
+        await storage.addConversation(conv2);
+
+        const conversations = await storage.getConversations();
+        expect(conversations).toHaveLength(2);
+        expect(conversations).toContainEqual(conv1);
+        expect(conversations).toContainEqual(conv2);
+      });
+    });
+
+    describe('getConversations', () => {
+      it('should return empty array when no conversations exist', async () => {
+        const conversations = await storage.getConversations();
+        expect(conversations).toEqual([]);
+      });
+
+      it('should return all conversations', async () => {
+        await storage.addConversation(createMockConversation('conv-1'));
+        await storage.addConversation(createMockConversation('conv-2'));
+
+        const conversations = await storage.getConversations();
+        expect(conversations).toHaveLength(2);
+      });
+    });
+
+    describe('getConversation', () => {
+      it('should return conversation by id', async () => {
+        const conversation = createMockConversation('conv-1');
+        await storage.addConversation(conversation);
+
+        const found = await storage.getConversation('conv-1');
+        expect(found).toEqual(conversation);
+      });
+
+      it('should return undefined for non-existent conversation', async () => {
+        const found = await storage.getConversation('nonexistent');
+        expect(found).toBeUndefined();
+      });
+
+      it('should round-trip messages with their dates and attachments', async () => {
+        const conversation = createMockConversation('conv-1');
+        conversation.messages = [
+          {
+            ...createMockMessage('msg-1', 'conv-1'),
+            role: 'assistant',
+            agentUsed: 'joke',
+            confidence: 0.9,
+            isProactive: true,
+            status: 'complete',
+            attachments: [
+              {
+                id: 'att-1',
+                type: 'youtube',
+                videoId: 'abc123',
+                title: 'Clip',
+                thumbnail: 'https://img.youtube.com/vi/abc123/0.jpg',
+              },
+            ],
+          },
+        ];
+        await storage.addConversation(conversation);
+
+        const found = await storage.getConversation('conv-1');
+        expect(found).toEqual(conversation);
+        expect(found!.messages[0].timestamp).toBeInstanceOf(Date);
+        expect(found!.createdAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('updateConversation', () => {
+      it('should update existing conversation', async () => {
+        await storage.addConversation(
+          createMockConversation('conv-1', 'Original Title'),
+        );
+
+        const updated = await storage.updateConversation('conv-1', {
+          title: 'Updated Title',
+          updatedAt: new Date('2023-01-02'),
+        });
+
+        expect(updated).not.toBeNull();
+        expect(updated!.title).toBe('Updated Title');
+        expect(updated!.updatedAt).toEqual(new Date('2023-01-02'));
+
+        // Verify the conversation in storage is updated
+        const stored = await storage.getConversation('conv-1');
+        expect(stored!.title).toBe('Updated Title');
+      });
+
+      it('should return null for non-existent conversation', async () => {
+        const updated = await storage.updateConversation('nonexistent', {
+          title: 'New Title',
+        });
+        expect(updated).toBeNull();
+      });
+
+      it('should partially update conversation', async () => {
+        const conversation = createMockConversation('conv-1', 'Original');
+        conversation.messages = [createMockMessage('msg-1', 'conv-1')];
+        await storage.addConversation(conversation);
+
+        const updated = await storage.updateConversation('conv-1', {
+          title: 'Updated Only Title',
+        });
+
+        expect(updated).not.toBeNull();
+        expect(updated!.title).toBe('Updated Only Title');
+        expect(updated!.messages).toHaveLength(1); // Messages should remain unchanged
+        expect(updated!.createdAt).toEqual(conversation.createdAt); // CreatedAt should remain unchanged
+      });
+    });
+
+    describe('saveMessages', () => {
+      it('should replace, append and remove messages by id', async () => {
+        const conversation = createMockConversation('conv-1');
+        conversation.messages = [
+          createMockMessage('msg-1', 'conv-1', 'Hello'),
+          createMockMessage('msg-2', 'conv-1', ''),
+          createMockMessage('msg-3', 'conv-1', 'Placeholder'),
+        ];
+        await storage.addConversation(conversation);
+
+        const saved = await storage.saveMessages('conv-1', {
+          upsert: [
+            createMockMessage('msg-2', 'conv-1', 'Reply'),
+            createMockMessage('msg-4', 'conv-1', 'Follow-up'),
+          ],
+          remove: ['msg-3'],
+          updatedAt: new Date('2023-01-02'),
+        });
+
+        const stored = await storage.getConversation('conv-1');
+        expect(stored).toEqual(saved);
+        expect(stored!.messages.map(m => [m.id, m.content])).toEqual([
+          ['msg-1', 'Hello'],
+          ['msg-2', 'Reply'],
+          ['msg-4', 'Follow-up'],
+        ]);
+        expect(stored!.updatedAt).toEqual(new Date('2023-01-02'));
+        expect(stored!.title).toBe(conversation.title);
+      });
+
+      it('should keep messages saved by writers holding older copies', async () => {
+        await storage.addConversation(createMockConversation('conv-1'));
+        const older = (await storage.getConversation('conv-1'))!;
+
+        await Promise.all([
+          storage.saveMessages('conv-1', {
+            upsert: [createMockMessage('msg-1', 'conv-1', 'User')],
+          }),
+          storage.saveMessages(older.id, {
+            upsert: [createMockMessage('msg-2', 'conv-1', 'Proactive')],
+          }),
+        ]);
+        await storage.saveMessages('conv-1', {
+          upsert: [createMockMessage('msg-3', 'conv-1', 'Reply')],
+        });
+
+        expect(
+          (await storage.getConversation('conv-1'))!.messages.map(m => m.id),
+        ).toEqual(['msg-1', 'msg-2', 'msg-3']);
+      });
+
+      it('should return null for non-existent conversation', async () => {
+        expect(
+          await storage.saveMessages('nonexistent', {
+            upsert: [createMockMessage('msg-1', 'nonexistent')],
+          }),
+        ).toBeNull();
+      });
+    });
+
+    describe('deleteConversation', () => {
+      it('should delete existing conversation', async () => {
+        await storage.addConversation(createMockConversation('conv-1'));
+
+        const deleted = await storage.deleteConversation('conv-1');
+        expect(deleted).toBe(true);
+
+        const found = await storage.getConversation('conv-1');
+        expect(found).toBeUndefined();
+
+        const conversations = await storage.getConversations();
+        expect(conversations).toHaveLength(0);
+      });
+
+      it('should return false for non-existent conversation', async () => {
+        const deleted = await storage.deleteConversation('nonexistent');
+        expect(deleted).toBe(false);
+      });
+
+      it('should not affect other conversations when deleting one', async () => {
+        const conv1 = createMockConversation('conv-1');
+        const conv2 = createMockConversation('conv-2');
+        await storage.addConversation(conv1);
+        await storage.addConversation(conv2);
+
+        const deleted = await storage.deleteConversation('conv-1');
+        expect(deleted).toBe(true);
+
+        const conversations = await storage.getConversations();
+        expect(conversations).toHaveLength(1);
+        expect(conversations[0]).toEqual(conv2);
+      });
+    });
+  });
+
+  describe('Helper Methods', () => {
+    describe('getSortedConversations', () => {
+      it('should return conversations sorted by updatedAt (newest first)', async () => {
+        const conv1 = createMockConversation('conv-1', 'First');
+        conv1.updatedAt = new Date('2023-01-01');
+
+        const conv2 = createMockConversation('conv-2', 'Second');
+        conv2.updatedAt = new Date('2023-01-03');
+
+        const conv3 = createMockConversation('conv-3', 'Third');
+        conv3.updatedAt = new Date('2023-01-02');
+
+        await storage.addConversation(conv1);
+        await storage.addConversation(conv2);
+        await storage.addConversation(conv3);
+
+        const sorted = await storage.getSortedConversations();
+        expect(sorted).toHaveLength(3);
+        expect(sorted[0]).toEqual(conv2); // 2023-01-03 (newest)
+        expect(sorted[1]).toEqual(conv3); // 2023-01-02
+        expect(sorted[2]).toEqual(conv1); // 2023-01-01 (oldest)
+      });
+
+      it('should return empty array when no conversations exist', async () => {
+        const sorted = await storage.getSortedConversations();
+        expect(sorted).toEqual([]);
+      });
+
+      it('should re-sort after an update bumps updatedAt', async () => {
+        await storage.addConversation(createMockConversation('conv-1'));
+        const conv2 = createMockConversation('conv-2');
+        conv2.updatedAt = new Date('2023-01-02');
+        await storage.addConversation(conv2);
+
+        await storage.updateConversation('conv-1', {
+          updatedAt: new Date('2023-01-03'),
+        });
+
+        const sorted = await storage.getSortedConversations();
+        expect(sorted.map(c => c.id)).toEqual(['conv-1', 'conv-2']);
+      });
+    });
+
+    describe('getConversationWithLastMessage', () => {
+      it('should return conversation with only the last message', async () => {
+        const conversation = createMockConversation('conv-1');
+        const msg1 = createMockMessage('msg-1', 'conv-1', 'First message');
+        const msg2 = createMockMessage('msg-2', 'conv-1', 'Second message');
+        const msg3 = createMockMessage('msg-3', 'conv-1', 'Last message');
+
+        conversation.messages = [msg1, msg2, msg3];
+        await storage.addConversation(conversation);
+
+        const result = await storage.getConversationWithLastMessage('conv-1');
+
+        expect(result).not.toBeNull();
+        expect(result!.messages).toHaveLength(1);
+        expect(result!.messages[0]).toEqual(msg3);
+        expect(result!.id).toBe('conv-1');
+        expect(result!.title).toBe(conversation.title);
+      });
+
+      it('should return conversation with empty messages array if no messages exist', async () => {
+        await storage.addConversation(createMockConversation('conv-1'));
+
+        const result = await storage.getConversationWithLastMessage('conv-1');
+
+        expect(result).not.toBeNull();
+        expect(result!.messages).toEqual([]);
+      });
+
+      it('should return null for non-existent conversation', async () => {
+        const result =
+          await storage.getConversationWithLastMessage('nonexistent');
+        expect(result).toBeNull();
+      });
+    });
+  });
+
+  describe('Ownership scoping', () => {
+    beforeEach(async () => {
+      await storage.addConversation(createMockConversation('mine', 'Mine'));
+      await storage.addConversation(
+        createMockConversation('theirs', 'Theirs', 'anon_other'),
+      );
+    });
+
+    it('should list only the owner conversations', async () => {
+      expect((await storage.getConversations('user-1')).map(c => c.id)).toEqual(
+        ['mine'],
+      );
+      expect(
+        (await storage.getSortedConversations('anon_other')).map(c => c.id),
+      ).toEqual(['theirs']);
+    });
+
+    it('should hide other owners conversations from lookups', async () => {
+      expect(await storage.getConversation('theirs', 'user-1')).toBeUndefined();
+      expect(
+        await storage.getConversationWithLastMessage('theirs', 'user-1'),
+      ).toBeNull();
+      expect(
+        (await storage.getConversation('theirs', 'anon_other'))?.title,
+      ).toBe('Theirs');
+    });
+
+    it('should refuse to update or delete other owners conversations', async () => {
+      expect(
+        await storage.updateConversation(
+          'theirs',
+          { title: 'Hijacked' },
+          'user-1',
+        ),
+      ).toBeNull();
+      expect(
+        await storage.saveMessages(
+          'theirs',
+          { upsert: [createMockMessage('msg-1', 'theirs')] },
+          'user-1',
+        ),
+      ).toBeNull();
+      expect(await storage.deleteConversation('theirs', 'user-1')).toBe(false);
+      expect((await storage.getConversation('theirs'))?.title).toBe('Theirs');
+    });
+  });
+
+  describe('Data Integrity', () => {
+    it('should return snapshots that only change the store when written back', async () => {
+      const conversation = createMockConversation('conv-1', 'Test');
+      await storage.addConversation(conversation);
+
+      // Editing the caller's copy does not reach the store
+      const copy = (await storage.getConversation('conv-1'))!;
+      const msg1 = createMockMessage('msg-1', 'conv-1', 'Hello');
+      const msg2 = createMockMessage('msg-2', 'conv-1', 'World');
+      copy.messages.push(msg1, msg2);
+      conversation.title = 'Mutated';
+      expect((await storage.getConversation('conv-1'))!.messages).toEqual([]);
+      expect((await storage.getConversation('conv-1'))!.title).toBe('Test');
+
+      // Writing it back does
+      const updated = await storage.updateConversation('conv-1', {
+        title: 'Updated Test',
+        messages: copy.messages,
+        updatedAt: new Date('2023-01-02'),
+      });
+
+      expect(updated).not.toBeNull();
+      expect(updated!.messages).toHaveLength(2);
+      expect(updated!.messages[0]).toEqual(msg1);
+      expect(updated!.messages[1]).toEqual(msg2);
+
+      // Verify through different access methods
+      const direct = await storage.getConversation('conv-1');
+      const withLastMessage =
+        await storage.getConversationWithLastMessage('conv-1');
+
+      expect(direct!.title).toBe('Updated Test');
+      expect(withLastMessage!.title).toBe('Updated Test');
+      expect(withLastMessage!.messages[0]).toEqual(msg2);
+    });
+  });
+}
@@ -0,0 +1,246 @@
+import {
+  TRANSCRIPT_FORMATS,
+  exportConversation,
+  parseTranscript,
+} from '../conversationTranscript';
+import { Conversation, MediaAttachment } from '../../types';
+
+describe('conversationTranscript', () => {
+  // One of every MediaAttachment variant, so a new variant that the
+  // importer doesn't know about fails here.
+  const attachments: MediaAttachment[] = [
+    {
+      id: 'a-yt',
+      type: 'youtube',
+      videoId: 'dQw4w9WgXcQ',
+      title: 'Hold music',
+      channel: 'Lobby',
+      thumbnail: 'https://img.youtube.com/vi/dQw4w9WgXcQ/0.jpg',
+      duration: '3:32',
+    },
+    {
+      id: 'a-video',
+      type: 'video',
+      url: 'https://cdn.example.com/clip.mp4',
+      title: 'Clip',
+      poster: 'https://cdn.example.com/clip.jpg',
+    },
+    {
+      id: 'a-audio',
+      type: 'audio',
+      url: 'https://cdn.example.com/song.mp3',
+      title: 'Song',
+      artist: 'Band',
+      durationSec: 180,
+    },
+    {
+      id: 'a-image',
+      type: 'image',
+      url: 'https://cdn.example.com/cat.png',
+      alt: 'A cat',
+      width: 640,
+      height: 480,
+    },
+    {
+      id: 'a-gallery',
+      type: 'image_gallery',
+      images: [
+        { url: 'https://cdn.example.com/1.png', alt: 'One' },
+        { url: 'https://cdn.example.com/2.png', alt: 'Two' },
+      ],
+    },
+    {
+      id: 'a-gif',
+      type: 'gif',
+      url: 'https://media.giphy.com/media/x/giphy.gif',
+      title: 'Dancing',
+      width: 200,
+      height: 200,
+    },
+    {
+      id: 'a-dice',
+      type: 'dice',
+      notation: '2d6+1',
+      rolls: [3, 5],
+      total: 9,
+      purpose: 'damage',
+    },
+    {
+      id: 'a-card',
+      type: 'card',
+      kind: 'character',
+      title: 'Thorin',
+      fields: [
+        { label: 'HP', value: '12/12' },
+        { label: 'Class', value: 'Fighter' },
+      ],
+      accentColor: '#aa3300',
+    },
+  ];
+
+  const conversation: Conversation = {
+    id: 'conv-1',
+    ownerId: 'user-1',
+    title: 'On hold',
+    createdAt: new Date('2024-05-01T10:00:00.000Z'),
+    updatedAt: new Date('2024-05-01T10:05:00.000Z'),
+    messages: [
+      {
+        id: 'm-1',
+        content: "You're on hold.\n\n## Not a heading, just content",
+        role: 'assistant',
+        timestamp: new Date('2024-05-01T10:00:00.000Z'),
+        conversationId: 'conv-1',
+        agentUsed: 'hold_agent',
+        confidence: 1,
+        isProactive: true,
+      },
+      {
+        id: 'm-2',
+        content: 'show me everything',
+        role: 'user',
+        timestamp: new Date('2024-05-01T10:01:00.000Z'),
+        conversationId: 'conv-1',
+      },
+      {
+        id: 'm-3',
+        content: 'Here you go -->',
+        role: 'assistant',
+        timestamp: new Date('2024-05-01T10:02:00.000Z'),
+        conversationId: 'conv-1',
+        agentUsed: 'gif',
+        confidence: 0.87,
+        status: 'complete',
+        attachments,
+      },
+      {
+        id: 'm-4',
+        content: '',
+        role: 'assistant',
+        timestamp: new Date('2024-05-01T10:03:00.000Z'),
+        conversationId: 'conv-1',
+        agentUsed: 'story_teller',
+        status: 'cancelled',
+      },
+    ],
+  };
+
+  const { ownerId: _ownerId, ...portable } = conversation;
+
+  it.each(TRANSCRIPT_FORMATS)('should round-trip through %s', format => {
+    const parsed = parseTranscript(
+      exportConversation(conversation, format),
+      format,
+    );
+
+    expect(parsed).toEqual({ ok: true, conversation: portable });
+  });
+
+  it('should accept an already-parsed JSON document', () => {
+    const doc = JSON.parse(exportConversation(conversation, 'json'));
+
+    expect(parseTranscript(doc, 'json')).toEqual({
+      ok: true,
+      conversation: portable,
+    });
+  });
+
+  it('should leave the owner out of every format', () => {
+    for (const format of TRANSCRIPT_FORMATS) {
+      expect(exportConversation(conversation, format)).not.toContain('user-1');
+    }
+  });
+
+  it('should write one JSONL line per message after the header', () => {
+    const lines = exportConversation(conversation, 'jsonl').trim().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      type: 'conversation',
+      id: 'conv-1',
+      title: 'On hold',
+    });
+    expect(JSON.parse(lines[3])).toMatchObject({
+      type: 'message',
+      id: 'm-3',
+      agentUsed: 'gif',
+      attachments,
+    });
+  });
+
+  it('should render a readable Markdown transcript', () => {
+    const markdown = exportConversation(conversation, 'markdown');
+
+    expect(markdown).toContain('# On hold');
+    expect(markdown).toContain(
+      '## Assistant (hold_agent, confidence 1.00, proactive) · 2024-05-01T10:00:00.000Z',
+    );
+    expect(markdown).toContain('## User · 2024-05-01T10:01:00.000Z');
+    expect(markdown).toContain(
+      '- YouTube: [Hold music](https://www.youtube.com/watch?v=dQw4w9WgXcQ)',
+    );
+    expect(markdown).toContain('- Dice: 2d6+1 → [3, 5] = 9');
+    expect(markdown).toContain(
+      '- Card (character): Thorin — HP: 12/12; Class: Fighter',
+    );
+  });
+
+  describe('invalid transcripts', () => {
+    it('should reject malformed JSON', () => {
+      const parsed = parseTranscript('{nope', 'json');
+      expect(parsed.ok).toBe(false);
+    });
+
+    it('should reject a JSONL file without a header line', () => {
+      expect(parseTranscript('{"type":"message","id":"m"}\n', 'jsonl')).toEqual(
+        {
+          ok: false,
+          error: 'First line must be the conversation header',
+        },
+      );
+    });
+
+    it('should reject Markdown without the conversation comment', () => {
+      expect(parseTranscript('# Just notes', 'markdown')).toEqual({
+        ok: false,
+        error: 'Missing conversation header comment',
+      });
+    });
+
+    it('should reject unknown or incomplete attachments', () => {
+      const doc = JSON.parse(exportConversation(conversation, 'json'));
+      doc.conversation.messages[2].attachments[0] = {
+        id: 'x',
+        type: 'hologram',
+      };
+      const unknown = parseTranscript(doc, 'json');
+
+      doc.conversation.messages[2].attachments[0] = { id: 'x', type: 'dice' };
+      const incomplete = parseTranscript(doc, 'json');
+
+      for (const parsed of [unknown, incomplete]) {
+        expect(parsed).toEqual({
+          ok: false,
+          error:
+            'messages[2].attachments contains an unknown or incomplete attachment',
+        });
+      }
+    });
+
+    it('should reject messages with a bad role or timestamp', () => {
+      const doc = JSON.parse(exportConversation(conversation, 'json'));
+      doc.conversation.messages[0].role = 'system';
+      expect(parseTranscript(doc, 'json')).toEqual({
+        ok: false,
+        error: 'messages[0].role must be "user" or "assistant"',
+      });
+
+      doc.conversation.messages[0].role = 'user';
+      doc.conversation.messages[0].timestamp = 'yesterday';
+      expect(parseTranscript(doc, 'json')).toEqual({
+        ok: false,
+        error: 'messages[0].timestamp is not a date',
+      });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { MemoryQuizScoreStore } from '../memoryQuizScoreStore';
+import { RedisQuizScoreStore } from '../redisQuizScoreStore';
+import { SqliteQuizScoreStore } from '../sqliteQuizScoreStore';
+import { describeQuizScoreStoreContract } from './quizScoreStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisQuizScoreStore>[0]
+>;
+
+// Just the hash and sorted set commands RedisQuizScoreStore uses, kept in
+// process.
+class FakeRedis {
+  isOpen = true;
+  private hashes = new Map<string, Map<string, string>>();
+  private sets = new Map<string, Map<string, number>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async hGet(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hmGet(key: string, fields: string[]): Promise<(string | null)[]> {
+    return fields.map(field => this.hashes.get(key)?.get(field) ?? null);
+  }
+
+  async hSet(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    this.hashes.set(key, hash);
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    return added;
+  }
+
+  async zAdd(
+    key: string,
+    { score, value }: { score: number; value: string },
+  ): Promise<number> {
+    const set = this.sets.get(key) ?? new Map<string, number>();
+    this.sets.set(key, set);
+    const added = set.has(value) ? 0 : 1;
+    set.set(value, score);
+    return added;
+  }
+
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { REV?: boolean },
+  ): Promise<string[]> {
+    const members = [...(this.sets.get(key) ?? [])]
+      .sort((a, b) => a[1] - b[1])
+      .map(([member]) => member);
+    if (options?.REV) {
+      members.reverse();
+    }
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async zScore(key: string, member: string): Promise<number | null> {
+    return this.sets.get(key)?.get(member) ?? null;
+  }
+
+  // Only the `(min` exclusive, `+inf` max form the store sends
+  async zCount(key: string, min: string): Promise<number> {
+    const floor = Number(min.slice(1));
+    return [...(this.sets.get(key)?.values() ?? [])].filter(s => s > floor)
+      .length;
+  }
+}
+
+describe('MemoryQuizScoreStore', () => {
+  describeQuizScoreStoreContract(() => new MemoryQuizScoreStore());
+});
+
+describe('RedisQuizScoreStore', () => {
+  describeQuizScoreStoreContract(
+    () => new RedisQuizScoreStore(new FakeRedis() as unknown as RedisClient),
+  );
+});
+
+describe('SqliteQuizScoreStore', () => {
+  const stores: SqliteQuizScoreStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeQuizScoreStoreContract(() => {
+    const store = new SqliteQuizScoreStore(':memory:');
+    stores.push(store);
+    return store;
+  });
+});
@@ -0,0 +1,73 @@
+import type { QuizScore } from '../../games/quizEngine';
+import { QuizScoreStore } from '../quizScoreStore';
+
+/**
+ * Behaviour every QuizScoreStore backend must share. Each backend's test
+ * file calls this with a factory that returns a fresh, empty store.
+ */
+export function describeQuizScoreStoreContract(
+  makeStore: () => QuizScoreStore | Promise<QuizScoreStore>,
+): void {
+  let store: QuizScoreStore;
+
+  beforeEach(async () => {
+    store = await makeStore();
+  });
+
+  const score = (
+    userId: string,
+    points: number,
+    quiz: QuizScore['quiz'] = 'trivia',
+  ): QuizScore => ({
+    userId,
+    quiz,
+    points,
+    correct: 3,
+    answered: 5,
+    bestStreak: 2,
+    updatedAt: new Date('2024-01-02T00:00:00Z'),
+  });
+
+  it('should return what was saved, with dates revived', async () => {
+    await store.save(score('user-1', 40));
+
+    const loaded = await store.get('user-1', 'trivia');
+
+    expect(loaded).toEqual(score('user-1', 40));
+    expect(loaded?.updatedAt).toBeInstanceOf(Date);
+    expect(await store.get('user-1', 'riddle')).toBeNull();
+  });
+
+  it("should replace a user's score for the quiz", async () => {
+    await store.save(score('user-1', 40));
+    await store.save(score('user-1', 55));
+
+    expect((await store.get('user-1', 'trivia'))?.points).toBe(55);
+    expect(await store.top('trivia', 10)).toHaveLength(1);
+  });
+
+  it('should list the top scores for one quiz, most points first', async () => {
+    await store.save(score('user-1', 40));
+    await store.save(score('user-2', 90));
+    await store.save(score('user-3', 10));
+    await store.save(score('user-4', 500, 'riddle'));
+
+    expect((await store.top('trivia', 2)).map(s => s.userId)).toEqual([
+      'user-2',
+      'user-1',
+    ]);
+  });
+
+  it('should rank by how many players have more points', async () => {
+    await store.save(score('user-1', 40));
+    await store.save(score('user-2', 90));
+    await store.save(score('user-3', 40));
+    await store.save(score('user-4', 10));
+
+    expect(await store.rank('user-2', 'trivia')).toBe(1);
+    expect(await store.rank('user-1', 'trivia')).toBe(2);
+    expect(await store.rank('user-3', 'trivia')).toBe(2);
+    expect(await store.rank('user-4', 'trivia')).toBe(4);
+    expect(await store.rank('user-5', 'trivia')).toBeNull();
+  });
+}
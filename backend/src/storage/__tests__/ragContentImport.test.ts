@@ -0,0 +1,89 @@
+import { parseContentImport, validateContentDraft } from '../ragContentImport';
+
+describe('parseContentImport', () => {
+  it('should read one item per JSONL line and report bad lines', () => {
+    const data = [
+      JSON.stringify({
+        id: 'quote_100',
+        type: 'quote',
+        content: 'Stay hungry, stay foolish.',
+        tags: ['Motivation', ' motivation '],
+        rating: 5,
+      }),
+      '',
+      '{not json',
+      JSON.stringify({ type: 'poem', content: 'Roses are red' }),
+    ].join('\n');
+
+    const { items, errors } = parseContentImport(data, 'jsonl');
+
+    expect(items).toEqual([
+      {
+        id: 'quote_100',
+        type: 'quote',
+        content: 'Stay hungry, stay foolish.',
+        tags: ['motivation'],
+        rating: 5,
+      },
+    ]);
+    expect(errors).toEqual([
+      { line: 3, error: 'Not valid JSON' },
+      {
+        line: 4,
+        error: '`type` must be one of: joke, trivia, gif, quote, riddle',
+      },
+    ]);
+  });
+
+  it('should read CSV with quoted cells, tag lists and metadata columns', () => {
+    const data = [
+      'type,content,category,tags,rating,answer',
+      'riddle,"What has a neck, but no head?",wordplay,bottle|easy,4,A bottle',
+      'riddle,"A ""quoted""',
+      'riddle",logic,,,',
+      '',
+      'joke,Only five cells,misc,,3',
+      'joke,Bad rating,misc,,9,',
+    ].join('\r\n');
+
+    const { items, errors } = parseContentImport(data, 'csv');
+
+    expect(items).toEqual([
+      {
+        type: 'riddle',
+        content: 'What has a neck, but no head?',
+        category: 'wordplay',
+        tags: ['bottle', 'easy'],
+        rating: 4,
+        metadata: { answer: 'A bottle' },
+      },
+      {
+        type: 'riddle',
+        content: 'A "quoted"\nriddle',
+        category: 'logic',
+        tags: [],
+      },
+    ]);
+    expect(errors).toEqual([
+      { line: 6, error: 'Expected 6 columns, found 5' },
+      { line: 7, error: '`rating` must be a whole number from 1 to 5' },
+    ]);
+  });
+
+  it('should require the type and content columns', () => {
+    expect(parseContentImport('id,text\n1,hi', 'csv').errors).toEqual([
+      { line: 1, error: 'Header must name the `type` and `content` columns' },
+    ]);
+  });
+});
+
+describe('validateContentDraft', () => {
+  it('should reject missing content and non-string tags', () => {
+    expect(validateContentDraft({ type: 'joke', content: ' ' })).toBe(
+      '`content` is required',
+    );
+    expect(
+      validateContentDraft({ type: 'joke', content: 'Hi', tags: [1] }),
+    ).toBe('`tags` must be a list of strings');
+  });
+});
@@ -0,0 +1,67 @@
+import { MemoryRagContentStore } from '../memoryRagContentStore';
+import { RedisRagContentStore } from '../redisRagContentStore';
+import { SqliteRagContentStore } from '../sqliteRagContentStore';
+import { describeRagContentStoreContract } from './ragContentStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisRagContentStore>[0]
+>;
+
+// Just the hash commands RedisRagContentStore uses, kept in process.
+class FakeRedis {
+  isOpen = true;
+  private hashes = new Map<string, Map<string, string>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hGet(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hSet(key: string, fields: Record<string, string>): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    this.hashes.set(key, hash);
+    let added = 0;
+    for (const [field, value] of Object.entries(fields)) {
+      added += hash.has(field) ? 0 : 1;
+      hash.set(field, value);
+    }
+    return added;
+  }
+
+  async hDel(key: string, field: string): Promise<number> {
+    return this.hashes.get(key)?.delete(field) ? 1 : 0;
+  }
+}
+
+describe('MemoryRagContentStore', () => {
+  describeRagContentStoreContract(() => new MemoryRagContentStore());
+});
+
+describe('RedisRagContentStore', () => {
+  describeRagContentStoreContract(
+    () => new RedisRagContentStore(new FakeRedis() as unknown as RedisClient),
+  );
+});
+
+describe('SqliteRagContentStore', () => {
+  const stores: SqliteRagContentStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeRagContentStoreContract(() => {
+    const store = new SqliteRagContentStore(':memory:');
+    stores.push(store);
+    return store;
+  });
+});
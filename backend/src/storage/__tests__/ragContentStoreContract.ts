@@ -0,0 +1,71 @@
+import type { ContentItem } from '../../agents/ragService';
+import { RagContentStore } from '../ragContentStore';
+
+/**
+ * Behaviour every RagContentStore backend must share. Each backend's test
+ * file calls this with a factory that returns a fresh, empty store.
+ */
+export function describeRagContentStoreContract(
+  makeStore: () => RagContentStore | Promise<RagContentStore>,
+): void {
+  let store: RagContentStore;
+
+  beforeEach(async () => {
+    store = await makeStore();
+  });
+
+  const item = (id: string, content = `Content of ${id}`): ContentItem => ({
+    id,
+    type: 'riddle',
+    content,
+    category: 'logic',
+    tags: ['classic'],
+    rating: 4,
+    metadata: { answer: 'An echo' },
+  });
+
+  it('should start empty', async () => {
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('riddle_001')).toBeNull();
+  });
+
+  it('should round-trip every field', async () => {
+    await store.put(item('riddle_001'));
+
+    expect(await store.get('riddle_001')).toEqual(item('riddle_001'));
+    expect(await store.list()).toEqual([item('riddle_001')]);
+  });
+
+  it('should replace an item with the same id', async () => {
+    await store.put(item('riddle_001'));
+    await store.put(item('riddle_001', 'Rewritten'));
+
+    const listed = await store.list();
+    expect(listed).toHaveLength(1);
+    expect(listed[0].content).toBe('Rewritten');
+  });
+
+  it('should put many and list them by id', async () => {
+    await store.putMany([item('b'), item('c'), item('a')]);
+    await store.putMany([]);
+
+    expect((await store.list()).map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should delete by id', async () => {
+    await store.putMany([item('a'), item('b')]);
+
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect((await store.list()).map(i => i.id)).toEqual(['b']);
+  });
+
+  it('should hand out copies', async () => {
+    await store.put(item('a'));
+
+    const fetched = (await store.get('a'))!;
+    fetched.tags.push('mutated');
+
+    expect((await store.get('a'))!.tags).toEqual(['classic']);
+  });
+}
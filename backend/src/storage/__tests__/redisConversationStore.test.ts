@@ -0,0 +1,164 @@
+import { RedisConversationStore } from '../redisConversationStore';
+import { describeConversationStoreContract } from './conversationStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisConversationStore>[0]
+>;
+
+// Just enough of the node-redis client for RedisConversationStore, kept in
+// process so the contract runs without a server.
+class FakeRedis {
+  isOpen = true;
+  isReady = true;
+  private strings = new Map<string, string>();
+  private zsets = new Map<string, Map<string, number>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    return keys.map(key => this.strings.get(key) ?? null);
+  }
+
+  async set(key: string, value: string): Promise<'OK'> {
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+
+  async zAdd(
+    key: string,
+    member: { score: number; value: string },
+  ): Promise<number> {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    this.zsets.set(key, zset);
+    const added = zset.has(member.value) ? 0 : 1;
+    zset.set(member.value, member.score);
+    return added;
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    return this.zsets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zRange(
+    key: string,
+    _start: number,
+    _stop: number,
+    options?: { REV?: boolean },
+  ): Promise<string[]> {
+    const entries = [...(this.zsets.get(key) ?? new Map<string, number>())];
+    entries.sort((a, b) => a[1] - b[1]);
+    if (options?.REV) {
+      entries.reverse();
+    }
+    return entries.map(([member]) => member);
+  }
+}
+
+describe('RedisConversationStore', () => {
+  describeConversationStoreContract(
+    () => new RedisConversationStore(new FakeRedis() as unknown as RedisClient),
+  );
+
+  it('should fall back to memory when Redis cannot be reached', async () => {
+    const client = new FakeRedis();
+    client.isOpen = false;
+    client.connect = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const store = new RedisConversationStore(client as unknown as RedisClient);
+
+    await store.addConversation({
+      id: 'conv-1',
+      ownerId: 'user-1',
+      title: 'Offline',
+      messages: [],
+      createdAt: new Date('2023-01-01'),
+      updatedAt: new Date('2023-01-01'),
+    });
+
+    expect((await store.getConversation('conv-1', 'user-1'))?.title).toBe(
+      'Offline',
+    );
+    expect(client.connect).toHaveBeenCalledTimes(1);
+  });
+
+  describe('after falling back', () => {
+    const conversation = {
+      id: 'conv-1',
+      ownerId: 'user-1',
+      title: 'Offline',
+      messages: [],
+      createdAt: new Date('2023-01-01'),
+      updatedAt: new Date('2023-01-01'),
+    };
+    let now: number;
+
+    beforeEach(() => {
+      now = Date.parse('2024-01-01T00:00:00Z');
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should try Redis again with backoff', async () => {
+      const client = new FakeRedis();
+      client.isOpen = false;
+      client.connect = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+      const store = new RedisConversationStore(
+        client as unknown as RedisClient,
+      );
+
+      await store.getConversations();
+      await store.getConversations();
+      expect(client.connect).toHaveBeenCalledTimes(1);
+
+      now += 1000;
+      await store.getConversations();
+      expect(client.connect).toHaveBeenCalledTimes(2);
+
+      // The wait doubles after a failed try
+      now += 1000;
+      await store.getConversations();
+      expect(client.connect).toHaveBeenCalledTimes(2);
+      now += 1000;
+      await store.getConversations();
+      expect(client.connect).toHaveBeenCalledTimes(3);
+    });
+
+    it('should move what it kept in memory into Redis once it is back', async () => {
+      const client = new FakeRedis();
+      client.isOpen = false;
+      client.connect = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockImplementation(async () => {
+          client.isOpen = true;
+        });
+      const store = new RedisConversationStore(
+        client as unknown as RedisClient,
+      );
+      await store.addConversation(conversation);
+      expect(await client.get('conversation:conv-1')).toBeNull();
+
+      now += 1000;
+      const listed = await store.getConversations('user-1');
+
+      expect(listed.map(c => c.title)).toEqual(['Offline']);
+      expect(await client.get('conversation:conv-1')).not.toBeNull();
+      await store.deleteConversation('conv-1', 'user-1');
+      expect(await store.getConversations('user-1')).toEqual([]);
+    });
+  });
+});
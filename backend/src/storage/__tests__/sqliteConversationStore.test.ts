@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteConversationStore } from '../sqliteConversationStore';
+import { describeConversationStoreContract } from './conversationStoreContract';
+import { Conversation } from '../../types';
+
+describe('SqliteConversationStore', () => {
+  const stores: SqliteConversationStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeConversationStoreContract(() => {
+    const store = new SqliteConversationStore(':memory:');
+    stores.push(store);
+    return store;
+  });
+
+  it('should keep conversations across reopening the file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+    const filename = path.join(dir, 'nested', 'conversations.db');
+    const conversation: Conversation = {
+      id: 'conv-1',
+      ownerId: 'user-1',
+      title: 'Persistent',
+      messages: [],
+      createdAt: new Date('2023-01-01'),
+      updatedAt: new Date('2023-01-01'),
+    };
+
+    try {
+      const first = new SqliteConversationStore(filename);
+      await first.addConversation(conversation);
+      first.close();
+
+      const second = new SqliteConversationStore(filename);
+      stores.push(second);
+      expect(await second.getConversation('conv-1', 'user-1')).toEqual(
+        conversation,
+      );
+    } finally {
+      stores.splice(0).forEach(store => store.close());
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
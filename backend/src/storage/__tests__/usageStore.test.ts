@@ -0,0 +1,93 @@
+import { MemoryUsageStore } from '../memoryUsageStore';
+import { RedisUsageStore } from '../redisUsageStore';
+import { SqliteUsageStore } from '../sqliteUsageStore';
+import {
+  CONTRACT_RETENTION_MS,
+  describeUsageStoreContract,
+} from './usageStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisUsageStore>[1]
+>;
+
+const toScore = (bound: number | string): number =>
+  bound === '-inf' ? -Infinity : bound === '+inf' ? Infinity : Number(bound);
+
+// Just the sorted-set commands RedisUsageStore uses, kept in process.
+class FakeRedis {
+  isOpen = true;
+  private sets = new Map<string, Map<string, number>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async zAdd(
+    key: string,
+    member: { score: number; value: string },
+  ): Promise<number> {
+    const set = this.sets.get(key) ?? new Map<string, number>();
+    this.sets.set(key, set);
+    const added = set.has(member.value) ? 0 : 1;
+    set.set(member.value, member.score);
+    return added;
+  }
+
+  async zRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])]
+      .filter(([, score]) => score >= toScore(min) && score <= toScore(max))
+      .sort(([, a], [, b]) => a - b)
+      .map(([value]) => value);
+  }
+
+  async zRemRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<number> {
+    const set = this.sets.get(key);
+    const doomed = [...(set ?? [])].filter(
+      ([, score]) => score >= toScore(min) && score <= toScore(max),
+    );
+    doomed.forEach(([value]) => set?.delete(value));
+    return doomed.length;
+  }
+
+  async pExpire(): Promise<number> {
+    return 1;
+  }
+}
+
+describe('MemoryUsageStore', () => {
+  describeUsageStoreContract(() => new MemoryUsageStore(CONTRACT_RETENTION_MS));
+});
+
+describe('RedisUsageStore', () => {
+  describeUsageStoreContract(
+    () =>
+      new RedisUsageStore(
+        CONTRACT_RETENTION_MS,
+        new FakeRedis() as unknown as RedisClient,
+      ),
+  );
+});
+
+describe('SqliteUsageStore', () => {
+  const stores: SqliteUsageStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeUsageStoreContract(() => {
+    const store = new SqliteUsageStore(':memory:', CONTRACT_RETENTION_MS);
+    stores.push(store);
+    return store;
+  });
+});
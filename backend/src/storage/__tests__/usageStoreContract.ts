@@ -0,0 +1,125 @@
+import { UsageRecord } from '../../types';
+import { UsageStore } from '../usageStore';
+
+/** The retention every backend is built with for the contract. */
+export const CONTRACT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Behaviour every UsageStore backend must share. Each backend's test file
+ * calls this with a factory that returns a fresh, empty store kept for
+ * CONTRACT_RETENTION_MS.
+ */
+export function describeUsageStoreContract(
+  makeStore: () => UsageStore | Promise<UsageStore>,
+): void {
+  let store: UsageStore;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-10T12:00:00Z') });
+    store = await makeStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const usage = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+    userId: 'user-1',
+    conversationId: 'conv-1',
+    agentType: 'joke',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    inputTokens: 100,
+    outputTokens: 20,
+    cacheReadTokens: 0,
+    costUsd: 0.001,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const since = new Date('2024-01-01T00:00:00Z');
+
+  it('should return nothing for an unknown user', async () => {
+    expect(await store.list({ userId: 'nobody', since })).toEqual([]);
+    expect(await store.totals('nobody', since)).toEqual({
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      costUsd: 0,
+    });
+  });
+
+  it('should round-trip a record', async () => {
+    const record = usage();
+    await store.record(record);
+
+    const [listed] = await store.list({ userId: 'user-1', since });
+    expect(listed).toEqual(record);
+    expect(listed.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should keep identical records apart', async () => {
+    await store.record(usage());
+    await store.record(usage());
+
+    expect(await store.list({ userId: 'user-1', since })).toHaveLength(2);
+  });
+
+  it('should list oldest first, from `since`', async () => {
+    await store.record(usage({ createdAt: new Date('2024-01-09T00:00:00Z') }));
+    await store.record(usage({ createdAt: new Date('2024-01-05T00:00:00Z') }));
+    await store.record(usage({ createdAt: new Date('2024-01-10T00:00:00Z') }));
+
+    const listed = await store.list({
+      userId: 'user-1',
+      since: new Date('2024-01-06T00:00:00Z'),
+    });
+    expect(listed.map(r => r.createdAt.toISOString())).toEqual([
+      '2024-01-09T00:00:00.000Z',
+      '2024-01-10T00:00:00.000Z',
+    ]);
+  });
+
+  it("should keep users apart, and list everyone's without a user", async () => {
+    await store.record(usage());
+    await store.record(usage({ userId: 'user-2', model: 'gpt-4o' }));
+
+    expect(await store.list({ userId: 'user-1', since })).toHaveLength(1);
+    expect((await store.list({ since })).map(r => r.userId).sort()).toEqual([
+      'user-1',
+      'user-2',
+    ]);
+  });
+
+  it('should sum the records since a time', async () => {
+    await store.record(
+      usage({ createdAt: new Date('2024-01-09T00:00:00Z'), costUsd: 5 }),
+    );
+    await store.record(usage({ cacheReadTokens: 50 }));
+    await store.record(usage({ outputTokens: 30, costUsd: 0.002 }));
+    await store.record(usage({ userId: 'user-2' }));
+
+    const totals = await store.totals(
+      'user-1',
+      new Date('2024-01-10T00:00:00Z'),
+    );
+    expect(totals).toEqual({
+      requests: 2,
+      inputTokens: 200,
+      outputTokens: 50,
+      cacheReadTokens: 50,
+      costUsd: expect.closeTo(0.003, 10),
+    });
+  });
+
+  it('should drop records past the retention as new ones arrive', async () => {
+    await store.record(usage());
+    jest.advanceTimersByTime(CONTRACT_RETENTION_MS + 1000);
+    await store.record(usage({ userId: 'user-2' }));
+
+    expect(await store.list({ since })).toEqual([
+      expect.objectContaining({ userId: 'user-2' }),
+    ]);
+  });
+}
@@ -0,0 +1,68 @@
+import { MemoryUserMemoryStore } from '../memoryUserMemoryStore';
+import { RedisUserMemoryStore } from '../redisUserMemoryStore';
+import { SqliteUserMemoryStore } from '../sqliteUserMemoryStore';
+import { describeUserMemoryStoreContract } from './userMemoryStoreContract';
+
+type RedisClient = NonNullable<
+  ConstructorParameters<typeof RedisUserMemoryStore>[0]
+>;
+
+// Just the hash commands RedisUserMemoryStore uses, kept in process.
+class FakeRedis {
+  isOpen = true;
+  private hashes = new Map<string, Map<string, string>>();
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {}
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hSet(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    this.hashes.set(key, hash);
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    return added;
+  }
+
+  async hDel(key: string, field: string): Promise<number> {
+    return this.hashes.get(key)?.delete(field) ? 1 : 0;
+  }
+
+  async hLen(key: string): Promise<number> {
+    return this.hashes.get(key)?.size ?? 0;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.hashes.delete(key) ? 1 : 0;
+  }
+}
+
+describe('MemoryUserMemoryStore', () => {
+  describeUserMemoryStoreContract(() => new MemoryUserMemoryStore());
+});
+
+describe('RedisUserMemoryStore', () => {
+  describeUserMemoryStoreContract(
+    () => new RedisUserMemoryStore(new FakeRedis() as unknown as RedisClient),
+  );
+});
+
+describe('SqliteUserMemoryStore', () => {
+  const stores: SqliteUserMemoryStore[] = [];
+
+  afterEach(() => {
+    stores.splice(0).forEach(store => store.close());
+  });
+
+  describeUserMemoryStoreContract(() => {
+    const store = new SqliteUserMemoryStore(':memory:');
+    stores.push(store);
+    return store;
+  });
+});
@@ -0,0 +1,107 @@
+import { NewUserMemory, UserMemoryStore } from '../userMemoryStore';
+
+/**
+ * Behaviour every UserMemoryStore backend must share. Each backend's test
+ * file calls this with a factory that returns a fresh, empty store.
+ */
+export function describeUserMemoryStoreContract(
+  makeStore: () => UserMemoryStore | Promise<UserMemoryStore>,
+): void {
+  let store: UserMemoryStore;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    store = await makeStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const memory = (
+    key: string,
+    content: string,
+    userId = 'user-1',
+  ): NewUserMemory => ({
+    userId,
+    kind: 'preference',
+    key,
+    content,
+    agentType: 'music_guru',
+    sourceConversationId: 'conv-1',
+  });
+
+  const later = () => jest.advanceTimersByTime(1000);
+
+  it('should return an empty list for an unknown user', async () => {
+    expect(await store.list('nobody')).toEqual([]);
+  });
+
+  it('should assign an id and timestamps and round-trip the memory', async () => {
+    const stored = await store.upsert(memory('favorite:genre', 'Likes jazz'));
+
+    expect(stored).toEqual({
+      ...memory('favorite:genre', 'Likes jazz'),
+      id: expect.any(String),
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+    const [listed] = await store.list('user-1');
+    expect(listed).toEqual(stored);
+    expect(listed.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('should replace the memory with the same key in place', async () => {
+    const first = await store.upsert(memory('favorite:genre', 'Likes jazz'));
+    later();
+    const second = await store.upsert(memory('favorite:genre', 'Likes punk'));
+
+    expect(second.id).toBe(first.id);
+    expect(second.createdAt).toEqual(first.createdAt);
+    expect(second.updatedAt.getTime()).toBeGreaterThan(
+      first.updatedAt.getTime(),
+    );
+    const listed = await store.list('user-1');
+    expect(listed).toHaveLength(1);
+    expect(listed[0].content).toBe('Likes punk');
+  });
+
+  it('should list newest first', async () => {
+    await store.upsert(memory('a', 'first'));
+    later();
+    await store.upsert(memory('b', 'second'));
+    later();
+    await store.upsert(memory('a', 'first, restated'));
+
+    expect((await store.list('user-1')).map(m => m.key)).toEqual(['a', 'b']);
+  });
+
+  it('should keep users apart', async () => {
+    const mine = await store.upsert(memory('name', 'Called Sam'));
+    await store.upsert(memory('name', 'Called Alex', 'user-2'));
+
+    expect(await store.list('user-1')).toHaveLength(1);
+    expect(await store.delete('user-2', mine.id)).toBe(false);
+    expect(await store.list('user-1')).toHaveLength(1);
+  });
+
+  it('should delete one memory by id', async () => {
+    const kept = await store.upsert(memory('a', 'keep'));
+    const dropped = await store.upsert(memory('b', 'drop'));
+
+    expect(await store.delete('user-1', dropped.id)).toBe(true);
+    expect(await store.delete('user-1', dropped.id)).toBe(false);
+    expect(await store.list('user-1')).toEqual([kept]);
+  });
+
+  it('should clear every memory for a user', async () => {
+    await store.upsert(memory('a', 'one'));
+    await store.upsert(memory('b', 'two'));
+    await store.upsert(memory('a', 'other user', 'user-2'));
+
+    expect(await store.clear('user-1')).toBe(2);
+    expect(await store.list('user-1')).toEqual([]);
+    expect(await store.list('user-2')).toHaveLength(1);
+    expect(await store.clear('user-1')).toBe(0);
+  });
+}
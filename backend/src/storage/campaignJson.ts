@@ -0,0 +1,20 @@
+import type { Campaign } from '../agents/dndCampaign';
+
+// JSON codec for stored campaigns, plus the newest-first ordering every
+// CampaignStore backend lists in.
+
+export function serializeCampaign(campaign: Campaign): string {
+  return JSON.stringify(campaign);
+}
+
+export function deserializeCampaign(json: string): Campaign {
+  const raw = JSON.parse(json) as Campaign;
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+export const byNewest = (a: Campaign, b: Campaign): number =>
+  b.updatedAt.getTime() - a.updatedAt.getTime();
@@ -0,0 +1,52 @@
+import type { Campaign } from '../agents/dndCampaign';
+import { logger } from '../logger';
+import { MemoryCampaignStore } from './memoryCampaignStore';
+import { RedisCampaignStore } from './redisCampaignStore';
+import { SqliteCampaignStore } from './sqliteCampaignStore';
+
+/**
+ * Where D&D campaigns live. Every backend honours the same contract (see
+ * `__tests__/campaignStoreContract.ts`):
+ *
+ *   - Campaigns are scoped to `ownerId`; one user can never read or delete
+ *     another's, even knowing its id.
+ *   - `save` inserts or replaces by id. Returned campaigns are copies, so
+ *     changing one changes nothing until it is saved.
+ */
+export interface CampaignStore {
+  get(ownerId: string, id: string): Promise<Campaign | null>;
+  /** Newest `updatedAt` first. */
+  list(ownerId: string): Promise<Campaign[]>;
+  save(campaign: Campaign): Promise<void>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Build the store named by `CAMPAIGN_STORE`, which defaults to the
+ * `CONVERSATION_STORE` setting. SQLite writes to `CAMPAIGN_SQLITE_PATH`
+ * (default `data/campaigns.db`).
+ */
+export function createCampaignStore(
+  kind = process.env.CAMPAIGN_STORE ||
+    process.env.CONVERSATION_STORE ||
+    'memory',
+): CampaignStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryCampaignStore();
+    case 'redis':
+      return new RedisCampaignStore();
+    case 'sqlite':
+      return new SqliteCampaignStore(
+        process.env.CAMPAIGN_SQLITE_PATH || 'data/campaigns.db',
+      );
+    default:
+      logger.warn(
+        { kind },
+        '⚠️ Unknown CAMPAIGN_STORE, using in-memory campaigns',
+      );
+      return new MemoryCampaignStore();
+  }
+}
+
+export const campaignStore = createCampaignStore();
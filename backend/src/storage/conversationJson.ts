@@ -0,0 +1,24 @@
+import { Conversation } from '../types';
+
+// JSON codec shared by the stores that keep conversations as documents.
+// Dates don't survive JSON.stringify, so they are revived on the way back.
+
+export function serializeConversation(conversation: Conversation): string {
+  return JSON.stringify(conversation);
+}
+
+export function deserializeConversation(json: string): Conversation {
+  const raw = JSON.parse(json) as Conversation;
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    messages: raw.messages.map(m => ({
+      ...m,
+      timestamp: new Date(m.timestamp),
+    })),
+    ...(raw.summary && {
+      summary: { ...raw.summary, updatedAt: new Date(raw.summary.updatedAt) },
+    }),
+  };
+}
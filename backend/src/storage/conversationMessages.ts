@@ -0,0 +1,39 @@
+import { Conversation, ConversationSummary, Message } from '../types';
+
+// Message-level writes shared by the conversation stores. Writers that
+// only touch their own messages (a streamed reply, a proactive message
+// landing meanwhile) keep each other's messages, which whole-array
+// writes from an older copy would drop.
+
+export interface MessageChanges {
+  /** Each replaces the stored message with its id, or is appended. */
+  upsert?: Message[];
+  /** Ids of messages to drop. */
+  remove?: string[];
+  /** Replaces the stored summary when set. */
+  summary?: ConversationSummary;
+  /** Defaults to now. */
+  updatedAt?: Date;
+}
+
+export function applyMessageChanges(
+  conversation: Conversation,
+  changes: MessageChanges,
+): Conversation {
+  const remove = new Set(changes.remove ?? []);
+  const messages = conversation.messages.filter(m => !remove.has(m.id));
+  for (const message of changes.upsert ?? []) {
+    const index = messages.findIndex(m => m.id === message.id);
+    if (index === -1) {
+      messages.push(message);
+    } else {
+      messages[index] = message;
+    }
+  }
+  return {
+    ...conversation,
+    messages,
+    ...(changes.summary && { summary: changes.summary }),
+    updatedAt: changes.updatedAt ?? new Date(),
+  };
+}
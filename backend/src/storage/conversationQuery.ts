@@ -0,0 +1,188 @@
+import { Conversation, Message } from '../types';
+
+// Read-side helpers over conversations already loaded from the store:
+// cursor pagination of a conversation's messages and full-text search
+// across a caller's conversations.
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+export interface MessagePageQuery {
+  /** Return messages older than this message id. */
+  before?: string;
+  /** Return messages newer than this message id. */
+  after?: string;
+  limit?: number;
+}
+
+export interface MessagePage {
+  /** Oldest first, like `Conversation.messages`. */
+  messages: Message[];
+  pageInfo: {
+    hasOlder: boolean;
+    hasNewer: boolean;
+    /** Cursors for the next page in either direction. */
+    oldestId: string | null;
+    newestId: string | null;
+  };
+}
+
+/**
+ * Slice one page out of `messages`. With no cursor the page is the newest
+ * `limit` messages; `before` walks back from a message and `after` walks
+ * forward. Returns null when the cursor id isn't in the conversation.
+ */
+export function paginateMessages(
+  messages: Message[],
+  { before, after, limit = DEFAULT_MESSAGE_PAGE_SIZE }: MessagePageQuery,
+): MessagePage | null {
+  let start: number;
+  let end: number;
+  if (after !== undefined) {
+    const index = messages.findIndex(m => m.id === after);
+    if (index === -1) {
+      return null;
+    }
+    start = index + 1;
+    end = Math.min(messages.length, start + limit);
+  } else {
+    end = messages.length;
+    if (before !== undefined) {
+      end = messages.findIndex(m => m.id === before);
+      if (end === -1) {
+        return null;
+      }
+    }
+    start = Math.max(0, end - limit);
+  }
+
+  const page = messages.slice(start, end);
+  return {
+    messages: page,
+    pageInfo: {
+      hasOlder: start > 0,
+      hasNewer: end < messages.length,
+      oldestId: page[0]?.id ?? null,
+      newestId: page[page.length - 1]?.id ?? null,
+    },
+  };
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+const MATCHES_PER_CONVERSATION = 3;
+const SNIPPET_RADIUS = 60;
+
+export interface ConversationSearchQuery {
+  q: string;
+  /** Only messages answered by this agent count as matches. */
+  agentUsed?: string;
+  /** Inclusive bounds on message timestamps (or `updatedAt` for titles). */
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface ConversationSearchMatch {
+  messageId: string;
+  role: Message['role'];
+  agentUsed?: Message['agentUsed'];
+  timestamp: Date;
+  snippet: string;
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  title: string;
+  updatedAt: Date;
+  titleMatch: boolean;
+  /** Every matching message; `matches` holds only the most recent few. */
+  matchCount: number;
+  matches: ConversationSearchMatch[];
+}
+
+const searchTerms = (q: string): string[] =>
+  q.toLowerCase().split(/\s+/).filter(Boolean);
+
+const containsAll = (text: string, terms: string[]): boolean => {
+  const haystack = text.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+function snippet(content: string, term: string): string {
+  const at = content.toLowerCase().indexOf(term);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(content.length, at + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).trim()}${
+    end < content.length ? '…' : ''
+  }`;
+}
+
+/**
+ * Case-insensitive search over titles and message content. Every term in
+ * `q` must appear in the same title or message. Results are ordered by
+ * their most recent match.
+ */
+export function searchConversations(
+  conversations: Conversation[],
+  {
+    q,
+    agentUsed,
+    from,
+    to,
+    limit = DEFAULT_SEARCH_LIMIT,
+  }: ConversationSearchQuery,
+): ConversationSearchHit[] {
+  const terms = searchTerms(q);
+  if (terms.length === 0) {
+    return [];
+  }
+  const inRange = (date: Date): boolean => {
+    const time = new Date(date).getTime();
+    return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+  };
+
+  const hits: Array<ConversationSearchHit & { lastMatchAt: number }> = [];
+  for (const conversation of conversations) {
+    const matching = conversation.messages.filter(
+      m =>
+        (!agentUsed || m.agentUsed === agentUsed) &&
+        inRange(m.timestamp) &&
+        containsAll(m.content, terms),
+    );
+    // A title says nothing about which agent answered, so it only counts
+    // on its own when no agent filter is set.
+    const titleMatch =
+      !agentUsed &&
+      inRange(conversation.updatedAt) &&
+      containsAll(conversation.title, terms);
+    if (!titleMatch && matching.length === 0) {
+      continue;
+    }
+
+    const recent = matching.slice(-MATCHES_PER_CONVERSATION).reverse();
+    const lastMatchAt = recent.length
+      ? new Date(recent[0].timestamp).getTime()
+      : new Date(conversation.updatedAt).getTime();
+    hits.push({
+      conversationId: conversation.id,
+      title: conversation.title,
+      updatedAt: conversation.updatedAt,
+      titleMatch,
+      matchCount: matching.length,
+      matches: recent.map(m => ({
+        messageId: m.id,
+        role: m.role,
+        ...(m.agentUsed && { agentUsed: m.agentUsed }),
+        timestamp: m.timestamp,
+        snippet: snippet(m.content, terms[0]),
+      })),
+      lastMatchAt,
+    });
+  }
+
+  return hits
+    .sort((a, b) => b.lastMatchAt - a.lastMatchAt)
+    .slice(0, limit)
+    .map(({ lastMatchAt: _lastMatchAt, ...hit }) => hit);
+}
@@ -0,0 +1,75 @@
+import { Conversation } from '../types';
+import { logger } from '../logger';
+import { MessageChanges } from './conversationMessages';
+import { MemoryStorage } from './memoryStorage';
+import { RedisConversationStore } from './redisConversationStore';
+import { SqliteConversationStore } from './sqliteConversationStore';
+
+/**
+ * Where conversations live. Every backend honours the same contract
+ * (see `__tests__/conversationStoreContract.ts`):
+ *
+ *   - Lookups that take an `ownerId` treat other owners' conversations as
+ *     missing, so callers can answer 404 without leaking that an id exists.
+ *   - Returned conversations are snapshots. Mutating one changes nothing
+ *     until it is written back with `updateConversation`.
+ *   - `saveMessages` changes only the messages it names, so writers holding
+ *     older snapshots of the same conversation don't undo each other.
+ */
+export interface ConversationStore {
+  getConversations(ownerId?: string): Promise<Conversation[]>;
+  getConversation(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | undefined>;
+  addConversation(conversation: Conversation): Promise<void>;
+  updateConversation(
+    id: string,
+    updates: Partial<Conversation>,
+    ownerId?: string,
+  ): Promise<Conversation | null>;
+  /** Apply `changes` to the stored messages; null if the id is unknown. */
+  saveMessages(
+    id: string,
+    changes: MessageChanges,
+    ownerId?: string,
+  ): Promise<Conversation | null>;
+  deleteConversation(id: string, ownerId?: string): Promise<boolean>;
+  /** Newest `updatedAt` first. */
+  getSortedConversations(ownerId?: string): Promise<Conversation[]>;
+  getConversationWithLastMessage(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | null>;
+}
+
+export type ConversationStoreKind = 'memory' | 'redis' | 'sqlite';
+
+/**
+ * Build the store named by `CONVERSATION_STORE` (default `memory`).
+ * Redis reuses the `REDIS_URL` / `REDIS_HOST` settings of the other
+ * Redis-backed stores; SQLite writes to `CONVERSATION_SQLITE_PATH`
+ * (default `data/conversations.db`).
+ */
+export function createConversationStore(
+  kind = process.env.CONVERSATION_STORE || 'memory',
+): ConversationStore {
+  switch (kind) {
+    case 'memory':
+      return MemoryStorage.getInstance();
+    case 'redis':
+      return new RedisConversationStore();
+    case 'sqlite':
+      return new SqliteConversationStore(
+        process.env.CONVERSATION_SQLITE_PATH || 'data/conversations.db',
+      );
+    default:
+      logger.warn(
+        { kind },
+        '⚠️ Unknown CONVERSATION_STORE, using in-memory conversations',
+      );
+      return MemoryStorage.getInstance();
+  }
+}
+
+export const conversationStore = createConversationStore();
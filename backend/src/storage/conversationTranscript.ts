@@ -0,0 +1,388 @@
+import { Conversation, MediaAttachment, Message } from '../types';
+
+/**
+ * Conversation transcripts for export/import.
+ *
+ * All three formats carry every Message field (agentUsed, confidence,
+ * isProactive, status, attachments), so an exported conversation imports
+ * back unchanged apart from its id and owner:
+ *
+ *   - json      one document: `{ format, version, conversation }`
+ *   - jsonl     a `conversation` header line, then one `message` line each
+ *   - markdown  readable transcript; each message's fields ride along in an
+ *               HTML comment so the file can be imported again
+ */
+
+export const TRANSCRIPT_FORMATS = ['json', 'markdown', 'jsonl'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export const TRANSCRIPT_VERSION = 1;
+
+/** A conversation as it travels in a transcript: no owner. */
+export type TranscriptConversation = Omit<Conversation, 'ownerId'>;
+
+export type TranscriptParseResult =
+  | { ok: true; conversation: TranscriptConversation }
+  | { ok: false; error: string };
+
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return TRANSCRIPT_FORMATS.includes(value as TranscriptFormat);
+}
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+  jsonl: 'application/x-ndjson',
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  jsonl: 'jsonl',
+};
+
+export function transcriptContentType(format: TranscriptFormat): string {
+  return `${CONTENT_TYPES[format]}; charset=utf-8`;
+}
+
+export function transcriptFilename(
+  conversation: Pick<Conversation, 'id'>,
+  format: TranscriptFormat,
+): string {
+  return `conversation-${conversation.id}.${EXTENSIONS[format]}`;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function exportConversation(
+  conversation: Conversation,
+  format: TranscriptFormat,
+): string {
+  const { ownerId: _ownerId, ...portable } = conversation;
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        {
+          format: 'conversation',
+          version: TRANSCRIPT_VERSION,
+          conversation: portable,
+        },
+        null,
+        2,
+      );
+    case 'jsonl':
+      return toJsonl(portable);
+    case 'markdown':
+      return toMarkdown(portable);
+  }
+}
+
+function toJsonl(conversation: TranscriptConversation): string {
+  const { messages, ...header } = conversation;
+  const lines = [
+    JSON.stringify({
+      type: 'conversation',
+      version: TRANSCRIPT_VERSION,
+      ...header,
+    }),
+    ...messages.map(message => JSON.stringify({ type: 'message', ...message })),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+const MESSAGE_OPEN = '<!-- message ';
+const MESSAGE_CLOSE = '<!-- /message -->';
+const CONVERSATION_OPEN = '<!-- conversation ';
+
+// Comment payloads are JSON; escaping `-->` keeps a stray sequence in a
+// title or attachment field from closing the comment early.
+const commentJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/-->/g, '--\\u003e');
+
+function toMarkdown(conversation: TranscriptConversation): string {
+  const { messages, ...header } = conversation;
+  const out = [
+    `# ${conversation.title}`,
+    '',
+    `${CONVERSATION_OPEN}${commentJson({ version: TRANSCRIPT_VERSION, ...header })} -->`,
+    '',
+  ];
+  for (const message of messages) {
+    const { content, ...meta } = message;
+    out.push(`## ${markdownHeading(message)}`, '');
+    out.push(`${MESSAGE_OPEN}${commentJson(meta)} -->`, '');
+    out.push(content, '');
+    out.push(MESSAGE_CLOSE, '');
+    if (message.attachments?.length) {
+      out.push(...message.attachments.map(a => `- ${describeAttachment(a)}`));
+      out.push('');
+    }
+  }
+  return out.join('\n');
+}
+
+function markdownHeading(message: Message): string {
+  const who = message.role === 'user' ? 'User' : 'Assistant';
+  const details: string[] = [];
+  if (message.agentUsed) {
+    details.push(message.agentUsed);
+  }
+  if (message.confidence !== undefined) {
+    details.push(`confidence ${message.confidence.toFixed(2)}`);
+  }
+  if (message.isProactive) {
+    details.push('proactive');
+  }
+  if (message.status === 'cancelled') {
+    details.push('cancelled');
+  }
+  const suffix = details.length ? ` (${details.join(', ')})` : '';
+  return `${who}${suffix} · ${new Date(message.timestamp).toISOString()}`;
+}
+
+function describeAttachment(attachment: MediaAttachment): string {
+  switch (attachment.type) {
+    case 'youtube':
+      return `YouTube: [${attachment.title}](https://www.youtube.com/watch?v=${attachment.videoId})`;
+    case 'video':
+      return `Video: [${attachment.title}](${attachment.url})`;
+    case 'audio':
+      return `Audio: [${attachment.title}](${attachment.url})`;
+    case 'image':
+      return `Image: ![${attachment.alt}](${attachment.url})`;
+    case 'image_gallery':
+      return `Gallery: ${attachment.images
+        .map(image => `![${image.alt}](${image.url})`)
+        .join(' ')}`;
+    case 'gif':
+      return `GIF: ![${attachment.title ?? 'gif'}](${attachment.url})`;
+    case 'dice':
+      return `Dice: ${attachment.notation} → [${attachment.rolls.join(', ')}] = ${attachment.total}`;
+    case 'card':
+      return `Card (${attachment.kind}): ${attachment.title} — ${attachment.fields
+        .map(field => `${field.label}: ${field.value}`)
+        .join('; ')}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export function parseTranscript(
+  data: unknown,
+  format: TranscriptFormat,
+): TranscriptParseResult {
+  try {
+    switch (format) {
+      case 'json':
+        return fromJson(data);
+      case 'jsonl':
+        return fromJsonl(data);
+      case 'markdown':
+        return fromMarkdown(data);
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unreadable transcript',
+    };
+  }
+}
+
+function fromJson(data: unknown): TranscriptParseResult {
+  const doc = typeof data === 'string' ? JSON.parse(data) : data;
+  if (!isRecord(doc) || !isRecord(doc.conversation)) {
+    return { ok: false, error: 'Expected a `conversation` object' };
+  }
+  return validateConversation(doc.conversation);
+}
+
+function fromJsonl(data: unknown): TranscriptParseResult {
+  if (typeof data !== 'string') {
+    return { ok: false, error: 'JSONL transcripts must be a string' };
+  }
+  const lines = data
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+    });
+  const [header, ...rest] = lines;
+  if (!isRecord(header) || header.type !== 'conversation') {
+    return { ok: false, error: 'First line must be the conversation header' };
+  }
+  const { type: _type, version: _version, ...fields } = header;
+  const messages = rest.map(line => {
+    if (!isRecord(line) || line.type !== 'message') {
+      throw new Error('Every line after the header must be a message');
+    }
+    const { type: _lineType, ...message } = line;
+    return message;
+  });
+  return validateConversation({ ...fields, messages });
+}
+
+function fromMarkdown(data: unknown): TranscriptParseResult {
+  if (typeof data !== 'string') {
+    return { ok: false, error: 'Markdown transcripts must be a string' };
+  }
+  const text = data.replace(/\r\n/g, '\n');
+  const headerMatch = text.match(/<!-- conversation (.*?) -->/);
+  if (!headerMatch) {
+    return { ok: false, error: 'Missing conversation header comment' };
+  }
+  const { version: _version, ...fields } = JSON.parse(headerMatch[1]);
+
+  const messages: unknown[] = [];
+  const blocks = /<!-- message (.*?) -->\n\n([\s\S]*?)\n\n<!-- \/message -->/g;
+  for (const match of text.matchAll(blocks)) {
+    messages.push({ ...JSON.parse(match[1]), content: match[2] });
+  }
+  return validateConversation({ ...fields, messages });
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function toDate(value: unknown): Date | null {
+  if (!isString(value) && !(value instanceof Date)) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Fields each attachment variant must carry, by type.
+const ATTACHMENT_FIELDS: Record<
+  MediaAttachment['type'],
+  Record<string, (value: unknown) => boolean>
+> = {
+  youtube: { videoId: isString, title: isString, thumbnail: isString },
+  video: { url: isString, title: isString },
+  audio: { url: isString, title: isString },
+  image: { url: isString, alt: isString },
+  image_gallery: {
+    images: v =>
+      Array.isArray(v) &&
+      v.every(image => isRecord(image) && isString(image.url)),
+  },
+  gif: { url: isString },
+  dice: {
+    notation: isString,
+    rolls: v => Array.isArray(v) && v.every(isNumber),
+    total: isNumber,
+  },
+  card: {
+    kind: isString,
+    title: isString,
+    fields: v =>
+      Array.isArray(v) &&
+      v.every(f => isRecord(f) && isString(f.label) && isString(f.value)),
+  },
+};
+
+function isMediaAttachment(value: unknown): value is MediaAttachment {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.type)) {
+    return false;
+  }
+  const fields =
+    ATTACHMENT_FIELDS[value.type as MediaAttachment['type']] ?? null;
+  return (
+    fields !== null &&
+    Object.entries(fields).every(([key, check]) => check(value[key]))
+  );
+}
+
+function validateMessage(value: unknown, index: number): Message | string {
+  const where = `messages[${index}]`;
+  if (!isRecord(value)) {
+    return `${where} must be an object`;
+  }
+  if (!isString(value.id) || !isString(value.content)) {
+    return `${where} needs a string id and content`;
+  }
+  if (value.role !== 'user' && value.role !== 'assistant') {
+    return `${where}.role must be "user" or "assistant"`;
+  }
+  const timestamp = toDate(value.timestamp);
+  if (!timestamp) {
+    return `${where}.timestamp is not a date`;
+  }
+  if (value.attachments !== undefined) {
+    if (
+      !Array.isArray(value.attachments) ||
+      !value.attachments.every(isMediaAttachment)
+    ) {
+      return `${where}.attachments contains an unknown or incomplete attachment`;
+    }
+  }
+  return {
+    id: value.id,
+    content: value.content,
+    role: value.role,
+    timestamp,
+    conversationId: isString(value.conversationId) ? value.conversationId : '',
+    ...(isString(value.agentUsed) && {
+      agentUsed: value.agentUsed as Message['agentUsed'],
+    }),
+    ...(isNumber(value.confidence) && { confidence: value.confidence }),
+    ...(typeof value.isProactive === 'boolean' && {
+      isProactive: value.isProactive,
+    }),
+    ...(value.attachments !== undefined && {
+      attachments: value.attachments as MediaAttachment[],
+    }),
+    ...((value.status === 'complete' || value.status === 'cancelled') && {
+      status: value.status,
+    }),
+  };
+}
+
+function validateConversation(value: unknown): TranscriptParseResult {
+  if (!isRecord(value)) {
+    return { ok: false, error: 'Conversation must be an object' };
+  }
+  if (!isString(value.title) || value.title.trim() === '') {
+    return { ok: false, error: 'Conversation title is required' };
+  }
+  if (!Array.isArray(value.messages)) {
+    return { ok: false, error: 'Conversation messages must be an array' };
+  }
+  const messages: Message[] = [];
+  for (const [index, raw] of value.messages.entries()) {
+    const message = validateMessage(raw, index);
+    if (typeof message === 'string') {
+      return { ok: false, error: message };
+    }
+    messages.push(message);
+  }
+  const createdAt = toDate(value.createdAt) ?? new Date();
+  const updatedAt = toDate(value.updatedAt) ?? createdAt;
+  return {
+    ok: true,
+    conversation: {
+      id: isString(value.id) ? value.id : '',
+      title: value.title,
+      messages,
+      createdAt,
+      updatedAt,
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { Campaign } from '../agents/dndCampaign';
+import { CampaignStore } from './campaignStore';
+import {
+  byNewest,
+  deserializeCampaign,
+  serializeCampaign,
+} from './campaignJson';
+
+/**
+ * In-process campaigns: the default for local dev and tests, and the
+ * fallback when Redis is unreachable. Lost on restart. Campaigns are kept
+ * as JSON so callers never share the nested party and encounter objects.
+ */
+export class MemoryCampaignStore implements CampaignStore {
+  private readonly byOwner = new Map<string, Map<string, string>>();
+
+  async get(ownerId: string, id: string): Promise<Campaign | null> {
+    const json = this.byOwner.get(ownerId)?.get(id);
+    return json ? deserializeCampaign(json) : null;
+  }
+
+  async list(ownerId: string): Promise<Campaign[]> {
+    return [...(this.byOwner.get(ownerId)?.values() ?? [])]
+      .map(deserializeCampaign)
+      .sort(byNewest);
+  }
+
+  async save(campaign: Campaign): Promise<void> {
+    const campaigns = this.byOwner.get(campaign.ownerId) ?? new Map();
+    campaigns.set(campaign.id, serializeCampaign(campaign));
+    this.byOwner.set(campaign.ownerId, campaigns);
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return this.byOwner.get(ownerId)?.delete(id) ?? false;
+  }
+}
@@ -0,0 +1,44 @@
+import type { QuizScore, QuizType } from '../games/quizEngine';
+import { QuizScoreStore } from './quizScoreStore';
+import { byPoints } from './quizScoreJson';
+
+/**
+ * In-process quiz scores: the default for local dev and tests, and the
+ * fallback when Redis is unreachable. Lost on restart.
+ */
+export class MemoryQuizScoreStore implements QuizScoreStore {
+  private readonly byQuiz = new Map<QuizType, Map<string, QuizScore>>();
+
+  async get(userId: string, quiz: QuizType): Promise<QuizScore | null> {
+    const score = this.scores(quiz).get(userId);
+    return score ? { ...score } : null;
+  }
+
+  async save(score: QuizScore): Promise<void> {
+    const scores = this.scores(score.quiz);
+    scores.set(score.userId, { ...score });
+    this.byQuiz.set(score.quiz, scores);
+  }
+
+  async top(quiz: QuizType, limit: number): Promise<QuizScore[]> {
+    return [...this.scores(quiz).values()]
+      .sort(byPoints)
+      .slice(0, limit)
+      .map(score => ({ ...score }));
+  }
+
+  async rank(userId: string, quiz: QuizType): Promise<number | null> {
+    const score = this.scores(quiz).get(userId);
+    if (!score) {
+      return null;
+    }
+    return (
+      [...this.scores(quiz).values()].filter(s => s.points > score.points)
+        .length + 1
+    );
+  }
+
+  private scores(quiz: QuizType): Map<string, QuizScore> {
+    return this.byQuiz.get(quiz) ?? new Map();
+  }
+}
@@ -0,0 +1,40 @@
+import type { ContentItem } from '../agents/ragService';
+import { RagContentStore } from './ragContentStore';
+import {
+  byId,
+  deserializeContentItem,
+  serializeContentItem,
+} from './ragContentJson';
+
+/**
+ * In-process RAG content: the default for local dev and tests, and the
+ * fallback when Redis is unreachable. Lost on restart, when the built-in
+ * corpus is seeded again.
+ */
+export class MemoryRagContentStore implements RagContentStore {
+  // Serialized so callers can never alias what is stored.
+  private readonly items = new Map<string, string>();
+
+  async list(): Promise<ContentItem[]> {
+    return [...this.items.values()].map(deserializeContentItem).sort(byId);
+  }
+
+  async get(id: string): Promise<ContentItem | null> {
+    const json = this.items.get(id);
+    return json ? deserializeContentItem(json) : null;
+  }
+
+  async put(item: ContentItem): Promise<void> {
+    this.items.set(item.id, serializeContentItem(item));
+  }
+
+  async putMany(items: ContentItem[]): Promise<void> {
+    for (const item of items) {
+      await this.put(item);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.items.delete(id);
+  }
+}
@@ -1,13 +1,21 @@
 import { Conversation } from '../types';
+import { ConversationStore } from './conversationStore';
+import { applyMessageChanges, MessageChanges } from './conversationMessages';
+import {
+  deserializeConversation,
+  serializeConversation,
+} from './conversationJson';
 
-// In-memory storage for demo purposes
-// In a real application, this would be replaced with a database
-export class MemoryStorage {
+const copy = (conversation: Conversation): Conversation =>
+  deserializeConversation(serializeConversation(conversation));
+
+// In-memory conversation store: the default for local dev and tests, and
+// the fallback when Redis is unreachable. Conversations are copied in and
+// out so callers see the same snapshot semantics as the persistent stores.
+export class MemoryStorage implements ConversationStore {
   private static instance: MemoryStorage;
   private conversations: Conversation[] = [];
 
-  private constructor() {}
-
   static getInstance(): MemoryStorage {
     if (!MemoryStorage.instance) {
       MemoryStorage.instance = new MemoryStorage();
@@ -15,34 +23,60 @@ export class MemoryStorage {
     return MemoryStorage.instance;
   }
 
-  // Conversation methods
-  getConversations(): Conversation[] {
-    return this.conversations;
+  // Conversation methods. Lookups that take an `ownerId` treat other
+  // owners' conversations as missing, so callers can answer with a 404
+  // without leaking that the id exists.
+  async getConversations(ownerId?: string): Promise<Conversation[]> {
+    return this.owned(ownerId).map(copy);
   }
 
-  getConversation(id: string): Conversation | undefined {
-    return this.conversations.find(c => c.id === id);
+  async getConversation(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | undefined> {
+    const index = this.findIndex(id, ownerId);
+    return index === -1 ? undefined : copy(this.conversations[index]);
   }
 
-  addConversation(conversation: Conversation): void {
-    this.conversations.push(conversation);
+  async addConversation(conversation: Conversation): Promise<void> {
+    this.conversations.push(copy(conversation));
   }
 
-  updateConversation(
+  async updateConversation(
     id: string,
     updates: Partial<Conversation>,
-  ): Conversation | null {
-    const index = this.conversations.findIndex(c => c.id === id);
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const index = this.findIndex(id, ownerId);
     if (index === -1) {
       return null;
     }
 
-    this.conversations[index] = { ...this.conversations[index], ...updates };
-    return this.conversations[index];
+    this.conversations[index] = copy({
+      ...this.conversations[index],
+      ...updates,
+    });
+    return copy(this.conversations[index]);
   }
 
-  deleteConversation(id: string): boolean {
-    const index = this.conversations.findIndex(c => c.id === id);
+  async saveMessages(
+    id: string,
+    changes: MessageChanges,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const index = this.findIndex(id, ownerId);
+    if (index === -1) {
+      return null;
+    }
+
+    this.conversations[index] = copy(
+      applyMessageChanges(this.conversations[index], changes),
+    );
+    return copy(this.conversations[index]);
+  }
+
+  async deleteConversation(id: string, ownerId?: string): Promise<boolean> {
+    const index = this.findIndex(id, ownerId);
     if (index === -1) {
       return false;
     }
@@ -52,15 +86,18 @@ export class MemoryStorage {
   }
 
   // Helper methods
-  getSortedConversations(): Conversation[] {
-    return [...this.conversations].sort(
+  async getSortedConversations(ownerId?: string): Promise<Conversation[]> {
+    return (await this.getConversations(ownerId)).sort(
       (a, b) =>
         new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
     );
   }
 
-  getConversationWithLastMessage(id: string): Conversation | null {
-    const conversation = this.getConversation(id);
+  async getConversationWithLastMessage(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const conversation = await this.getConversation(id, ownerId);
     if (!conversation) {
       return null;
     }
@@ -70,6 +107,17 @@ export class MemoryStorage {
       messages: conversation.messages.slice(-1),
     };
   }
-}
 
-export const storage = MemoryStorage.getInstance();
+  private owned(ownerId?: string): Conversation[] {
+    if (ownerId === undefined) {
+      return this.conversations;
+    }
+    return this.conversations.filter(c => c.ownerId === ownerId);
+  }
+
+  private findIndex(id: string, ownerId?: string): number {
+    return this.conversations.findIndex(
+      c => c.id === id && (ownerId === undefined || c.ownerId === ownerId),
+    );
+  }
+}
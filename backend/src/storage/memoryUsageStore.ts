@@ -0,0 +1,34 @@
+import { UsageRecord, UsageTotals } from '../types';
+import { UsageQuery, UsageStore } from './usageStore';
+import { byOldest, sumUsage } from './usageJson';
+
+/**
+ * In-process usage records: the default for local dev and tests, and the
+ * fallback when Redis is unreachable. Lost on restart.
+ */
+export class MemoryUsageStore implements UsageStore {
+  private records: UsageRecord[] = [];
+
+  constructor(private readonly retentionMs: number) {}
+
+  async record(record: UsageRecord): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs;
+    this.records = this.records.filter(r => r.createdAt.getTime() >= cutoff);
+    this.records.push({ ...record });
+  }
+
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    return this.records
+      .filter(
+        r =>
+          (query.userId === undefined || r.userId === query.userId) &&
+          r.createdAt >= query.since,
+      )
+      .map(r => ({ ...r }))
+      .sort(byOldest);
+  }
+
+  async totals(userId: string, since: Date): Promise<UsageTotals> {
+    return sumUsage(await this.list({ userId, since }));
+  }
+}
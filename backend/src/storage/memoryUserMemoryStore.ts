@@ -0,0 +1,60 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UserMemory } from '../types';
+import { NewUserMemory, UserMemoryStore } from './userMemoryStore';
+import { byNewest } from './userMemoryJson';
+
+/**
+ * In-process user memory: the default for local dev and tests, and the
+ * fallback when Redis is unreachable. Lost on restart.
+ */
+export class MemoryUserMemoryStore implements UserMemoryStore {
+  private readonly byUser = new Map<string, UserMemory[]>();
+
+  async list(userId: string): Promise<UserMemory[]> {
+    return this.memories(userId)
+      .map(m => ({ ...m }))
+      .sort(byNewest);
+  }
+
+  async upsert(memory: NewUserMemory): Promise<UserMemory> {
+    const memories = this.memories(memory.userId);
+    const now = new Date();
+    const index = memories.findIndex(m => m.key === memory.key);
+    const stored: UserMemory =
+      index === -1
+        ? { ...memory, id: uuidv4(), createdAt: now, updatedAt: now }
+        : {
+            ...memory,
+            id: memories[index].id,
+            createdAt: memories[index].createdAt,
+            updatedAt: now,
+          };
+    if (index === -1) {
+      memories.push(stored);
+    } else {
+      memories[index] = stored;
+    }
+    this.byUser.set(memory.userId, memories);
+    return { ...stored };
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const memories = this.memories(userId);
+    const index = memories.findIndex(m => m.id === id);
+    if (index === -1) {
+      return false;
+    }
+    memories.splice(index, 1);
+    return true;
+  }
+
+  async clear(userId: string): Promise<number> {
+    const count = this.memories(userId).length;
+    this.byUser.delete(userId);
+    return count;
+  }
+
+  private memories(userId: string): UserMemory[] {
+    return this.byUser.get(userId) ?? [];
+  }
+}
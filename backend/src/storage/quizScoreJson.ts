@@ -0,0 +1,16 @@
+import type { QuizScore } from '../games/quizEngine';
+
+// JSON codec for stored quiz scores, plus the most-points-first ordering
+// every QuizScoreStore backend ranks by.
+
+export function serializeQuizScore(score: QuizScore): string {
+  return JSON.stringify(score);
+}
+
+export function deserializeQuizScore(json: string): QuizScore {
+  const raw = JSON.parse(json) as QuizScore;
+  return { ...raw, updatedAt: new Date(raw.updatedAt) };
+}
+
+export const byPoints = (a: QuizScore, b: QuizScore): number =>
+  b.points - a.points;
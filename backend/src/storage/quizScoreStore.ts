@@ -0,0 +1,53 @@
+import type { QuizScore, QuizType } from '../games/quizEngine';
+import { logger } from '../logger';
+import { MemoryQuizScoreStore } from './memoryQuizScoreStore';
+import { RedisQuizScoreStore } from './redisQuizScoreStore';
+import { SqliteQuizScoreStore } from './sqliteQuizScoreStore';
+
+/**
+ * Where players' running quiz totals live, one per user and quiz. Every
+ * backend honours the same contract (see
+ * `__tests__/quizScoreStoreContract.ts`):
+ *
+ *   - `save` inserts or replaces the user's score for that quiz.
+ *   - Leaderboards order by points, most first; players on the same points
+ *     share a rank and come back in any order.
+ */
+export interface QuizScoreStore {
+  get(userId: string, quiz: QuizType): Promise<QuizScore | null>;
+  save(score: QuizScore): Promise<void>;
+  /** The `limit` highest scores. */
+  top(quiz: QuizType, limit: number): Promise<QuizScore[]>;
+  /** 1 + how many players have more points; null without a score. */
+  rank(userId: string, quiz: QuizType): Promise<number | null>;
+}
+
+/**
+ * Build the store named by `QUIZ_SCORE_STORE`, which defaults to the
+ * `CONVERSATION_STORE` setting. SQLite writes to `QUIZ_SCORE_SQLITE_PATH`
+ * (default `data/quiz-scores.db`).
+ */
+export function createQuizScoreStore(
+  kind = process.env.QUIZ_SCORE_STORE ||
+    process.env.CONVERSATION_STORE ||
+    'memory',
+): QuizScoreStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryQuizScoreStore();
+    case 'redis':
+      return new RedisQuizScoreStore();
+    case 'sqlite':
+      return new SqliteQuizScoreStore(
+        process.env.QUIZ_SCORE_SQLITE_PATH || 'data/quiz-scores.db',
+      );
+    default:
+      logger.warn(
+        { kind },
+        '⚠️ Unknown QUIZ_SCORE_STORE, using in-memory quiz scores',
+      );
+      return new MemoryQuizScoreStore();
+  }
+}
+
+export const quizScoreStore = createQuizScoreStore();
@@ -0,0 +1,262 @@
+import { CONTENT_TYPES, ContentItem, ContentType } from '../agents/ragService';
+
+/**
+ * Bulk import of curated RAG content.
+ *
+ *   - jsonl  one ContentItem object per line
+ *   - csv    a header row naming `type`, `content` and optionally `id`,
+ *            `category`, `tags` (separated by `|` or `;`) and `rating`;
+ *            any other column becomes a `metadata` field (e.g. `answer`
+ *            for riddles, `description` and `alt` for GIFs)
+ *
+ * Rows are validated one by one so a single bad row doesn't sink a file;
+ * its line number and reason come back in `errors`.
+ */
+
+export const RAG_IMPORT_FORMATS = ['jsonl', 'csv'] as const;
+export type RagImportFormat = (typeof RAG_IMPORT_FORMATS)[number];
+
+/** An item as authored: the id is optional and assigned on import. */
+export type ContentDraft = Omit<ContentItem, 'id'> & { id?: string };
+
+export interface RagImportError {
+  line: number;
+  error: string;
+}
+
+export interface RagImportParseResult {
+  items: ContentDraft[];
+  errors: RagImportError[];
+}
+
+export function isRagImportFormat(value: unknown): value is RagImportFormat {
+  return RAG_IMPORT_FORMATS.includes(value as RagImportFormat);
+}
+
+export function parseContentImport(
+  data: string,
+  format: RagImportFormat,
+): RagImportParseResult {
+  return format === 'csv' ? fromCsv(data) : fromJsonl(data);
+}
+
+function fromJsonl(data: string): RagImportParseResult {
+  const result: RagImportParseResult = { items: [], errors: [] };
+  data.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) {
+      return;
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      result.errors.push({ line: index + 1, error: 'Not valid JSON' });
+      return;
+    }
+    collect(result, validateContentDraft(value), index + 1);
+  });
+  return result;
+}
+
+const CSV_FIELDS = new Set([
+  'id',
+  'type',
+  'content',
+  'category',
+  'tags',
+  'rating',
+]);
+
+function fromCsv(data: string): RagImportParseResult {
+  const result: RagImportParseResult = { items: [], errors: [] };
+  const rows = parseCsvRows(data);
+  const header = rows.shift();
+  if (!header) {
+    return result;
+  }
+  const columns = header.cells.map(cell => cell.trim());
+  if (!columns.includes('type') || !columns.includes('content')) {
+    result.errors.push({
+      line: header.line,
+      error: 'Header must name the `type` and `content` columns',
+    });
+    return result;
+  }
+
+  for (const row of rows) {
+    if (row.cells.length !== columns.length) {
+      result.errors.push({
+        line: row.line,
+        error: `Expected ${columns.length} columns, found ${row.cells.length}`,
+      });
+      continue;
+    }
+    const draft: Record<string, unknown> = {};
+    const metadata: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const cell = row.cells[i].trim();
+      if (!cell) {
+        return;
+      }
+      if (column === 'tags') {
+        draft.tags = cell
+          .split(/[|;]/)
+          .map(tag => tag.trim())
+          .filter(Boolean);
+      } else if (column === 'rating') {
+        draft.rating = Number(cell);
+      } else if (CSV_FIELDS.has(column)) {
+        draft[column] = cell;
+      } else {
+        metadata[column] = cell;
+      }
+    });
+    if (Object.keys(metadata).length > 0) {
+      draft.metadata = metadata;
+    }
+    collect(result, validateContentDraft({ tags: [], ...draft }), row.line);
+  }
+  return result;
+}
+
+function collect(
+  result: RagImportParseResult,
+  draft: ContentDraft | string,
+  line: number,
+): void {
+  if (typeof draft === 'string') {
+    result.errors.push({ line, error: draft });
+  } else {
+    result.items.push(draft);
+  }
+}
+
+interface CsvRow {
+  /** 1-based line the row starts on. */
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes.
+// Blank lines are skipped.
+function parseCsvRows(data: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  const text = data.replace(/\r\n/g, '\n');
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim()) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') {
+          line++;
+        }
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n') {
+      line++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || cells.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isContentType(value: unknown): value is ContentType {
+  return CONTENT_TYPES.includes(value as ContentType);
+}
+
+export function isValidRating(value: unknown): value is number {
+  return (
+    Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5
+  );
+}
+
+export function isTagList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every(tag => typeof tag === 'string' && tag.trim() !== '')
+  );
+}
+
+/**
+ * Check an authored item, returning it normalised (tags trimmed and
+ * lower-cased) or the reason it was rejected.
+ */
+export function validateContentDraft(value: unknown): ContentDraft | string {
+  if (!isRecord(value)) {
+    return 'Expected an object';
+  }
+  const { id, type, content, category, tags = [], rating, metadata } = value;
+  if (id !== undefined && (typeof id !== 'string' || !id.trim())) {
+    return '`id` must be a non-empty string';
+  }
+  if (!isContentType(type)) {
+    return `\`type\` must be one of: ${CONTENT_TYPES.join(', ')}`;
+  }
+  if (typeof content !== 'string' || !content.trim()) {
+    return '`content` is required';
+  }
+  if (category !== undefined && typeof category !== 'string') {
+    return '`category` must be a string';
+  }
+  if (!isTagList(tags)) {
+    return '`tags` must be a list of strings';
+  }
+  if (rating !== undefined && !isValidRating(rating)) {
+    return '`rating` must be a whole number from 1 to 5';
+  }
+  if (metadata !== undefined && !isRecord(metadata)) {
+    return '`metadata` must be an object';
+  }
+  return {
+    ...(id !== undefined && { id: id.trim() }),
+    type,
+    content: content.trim(),
+    ...(category && { category }),
+    tags: normalizeTags(tags),
+    ...(rating !== undefined && { rating }),
+    ...(metadata !== undefined && { metadata }),
+  };
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()))];
+}
@@ -0,0 +1,15 @@
+import type { ContentItem } from '../agents/ragService';
+
+// JSON codec for stored RAG content, plus the by-id ordering every
+// RagContentStore backend lists in.
+
+export function serializeContentItem(item: ContentItem): string {
+  return JSON.stringify(item);
+}
+
+export function deserializeContentItem(json: string): ContentItem {
+  return JSON.parse(json) as ContentItem;
+}
+
+export const byId = (a: ContentItem, b: ContentItem): number =>
+  a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
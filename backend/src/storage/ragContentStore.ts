@@ -0,0 +1,51 @@
+import type { ContentItem } from '../agents/ragService';
+import { logger } from '../logger';
+import { MemoryRagContentStore } from './memoryRagContentStore';
+import { RedisRagContentStore } from './redisRagContentStore';
+import { SqliteRagContentStore } from './sqliteRagContentStore';
+
+/**
+ * Where RAGService's curated content lives. Every backend honours the same
+ * contract (see `__tests__/ragContentStoreContract.ts`):
+ *
+ *   - Items are keyed by `id`; `put` inserts or replaces.
+ *   - Returned items are copies. Changing one changes nothing until it is
+ *     written back with `put`.
+ */
+export interface RagContentStore {
+  /** Every item, ordered by id. */
+  list(): Promise<ContentItem[]>;
+  get(id: string): Promise<ContentItem | null>;
+  put(item: ContentItem): Promise<void>;
+  /** Same as `put` for each item, in one round trip where possible. */
+  putMany(items: ContentItem[]): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Build the store named by `RAG_CONTENT_STORE`, which defaults to the
+ * `CONVERSATION_STORE` setting. SQLite writes to `RAG_CONTENT_SQLITE_PATH`
+ * (default `data/rag-content.db`).
+ */
+export function createRagContentStore(
+  kind = process.env.RAG_CONTENT_STORE ||
+    process.env.CONVERSATION_STORE ||
+    'memory',
+): RagContentStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryRagContentStore();
+    case 'redis':
+      return new RedisRagContentStore();
+    case 'sqlite':
+      return new SqliteRagContentStore(
+        process.env.RAG_CONTENT_SQLITE_PATH || 'data/rag-content.db',
+      );
+    default:
+      logger.warn(
+        { kind },
+        '⚠️ Unknown RAG_CONTENT_STORE, using in-memory RAG content',
+      );
+      return new MemoryRagContentStore();
+  }
+}
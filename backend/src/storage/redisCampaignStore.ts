@@ -0,0 +1,128 @@
+import { createClient } from 'redis';
+import type { Campaign } from '../agents/dndCampaign';
+import { logger } from '../logger';
+import { CampaignStore } from './campaignStore';
+import {
+  byNewest,
+  deserializeCampaign,
+  serializeCampaign,
+} from './campaignJson';
+import { MemoryCampaignStore } from './memoryCampaignStore';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// One hash per owner, `dnd_campaigns:<ownerId>`, mapping campaign id to its
+// JSON document, so another user's campaign id finds nothing.
+const ownerKey = (ownerId: string): string => `dnd_campaigns:${ownerId}`;
+
+/**
+ * CampaignStore backed by Redis, falling back to memory like
+ * RedisConversationStore when Redis can't be reached.
+ */
+export class RedisCampaignStore implements CampaignStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory = new MemoryCampaignStore();
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(client?: RedisClient) {
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (CampaignStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('CampaignStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null once we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (this.useMemory || !this.client) {
+      return null;
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (CampaignStore)');
+      this.activateFallback('connect-failure');
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    logger.warn(
+      { reason },
+      '⚠️ Falling back to in-memory CampaignStore; campaigns will not persist',
+    );
+  }
+
+  async get(ownerId: string, id: string): Promise<Campaign | null> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.get(ownerId, id);
+    }
+    const json = await client.hGet(ownerKey(ownerId), id);
+    return json ? deserializeCampaign(json) : null;
+  }
+
+  async list(ownerId: string): Promise<Campaign[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.list(ownerId);
+    }
+    const docs = await client.hGetAll(ownerKey(ownerId));
+    return Object.values(docs).map(deserializeCampaign).sort(byNewest);
+  }
+
+  async save(campaign: Campaign): Promise<void> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.save(campaign);
+    }
+    await client.hSet(
+      ownerKey(campaign.ownerId),
+      campaign.id,
+      serializeCampaign(campaign),
+    );
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.delete(ownerId, id);
+    }
+    return (await client.hDel(ownerKey(ownerId), id)) > 0;
+  }
+}
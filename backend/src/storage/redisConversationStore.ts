@@ -0,0 +1,289 @@
+import { createClient } from 'redis';
+import { Conversation } from '../types';
+import { logger } from '../logger';
+import { ConversationStore } from './conversationStore';
+import { MemoryStorage } from './memoryStorage';
+import { applyMessageChanges, MessageChanges } from './conversationMessages';
+import {
+  deserializeConversation,
+  serializeConversation,
+} from './conversationJson';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Each conversation is one JSON document under `conversation:<id>`. Two
+// sorted sets scored by `updatedAt` index them: one across all owners and
+// one per owner, so listings never scan the keyspace.
+const conversationKey = (id: string): string => `conversation:${id}`;
+const ALL_INDEX = 'conversations:all';
+const ownerIndex = (ownerId: string): string =>
+  `conversations:owner:${ownerId}`;
+
+// After falling back, wait this long before trying Redis again, doubling
+// the wait after each failed try up to the maximum.
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 60_000;
+
+/**
+ * ConversationStore backed by Redis, with the same graceful in-memory
+ * fallback as UserStorage when Redis can't be reached. The fallback is
+ * temporary: Redis is tried again with backoff, and once it answers the
+ * conversations kept in memory meanwhile are moved into it.
+ */
+export class RedisConversationStore implements ConversationStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory = new MemoryStorage();
+  private retryDelayMs = RECONNECT_MIN_MS;
+  private retryAt = 0;
+  // saveMessages reads then writes; this queues them per conversation so
+  // two in this process don't interleave.
+  private readonly messageWrites = new Map<string, Promise<unknown>>();
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(client?: RedisClient) {
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (ConversationStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('ConversationStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null while we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (!this.client) {
+      return null;
+    }
+    if (this.useMemory) {
+      if (Date.now() < this.retryAt) {
+        return null;
+      }
+      // node-redis reconnects an open client on its own; wait for it
+      if (this.client.isOpen && !this.client.isReady) {
+        this.retryLater();
+        return null;
+      }
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      if (this.useMemory) {
+        await this.resume(this.client);
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (ConversationStore)');
+      if (this.useMemory) {
+        this.retryLater();
+      } else {
+        this.activateFallback('connect-failure');
+      }
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    this.retryDelayMs = RECONNECT_MIN_MS;
+    this.retryAt = Date.now() + this.retryDelayMs;
+    logger.warn(
+      { reason, retryInMs: this.retryDelayMs },
+      '⚠️ Falling back to in-memory ConversationStore until Redis is reachable again',
+    );
+  }
+
+  private retryLater(): void {
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, RECONNECT_MAX_MS);
+    this.retryAt = Date.now() + this.retryDelayMs;
+  }
+
+  /** Move what was stored in memory into Redis and use Redis again. */
+  private async resume(client: RedisClient): Promise<void> {
+    const kept = await this.memory.getSortedConversations();
+    for (const conversation of kept) {
+      await this.write(client, conversation);
+      await this.memory.deleteConversation(conversation.id);
+    }
+    this.useMemory = false;
+    logger.info(
+      { moved: kept.length },
+      'ConversationStore Redis reachable again; moved in-memory conversations to it',
+    );
+  }
+
+  async getConversations(ownerId?: string): Promise<Conversation[]> {
+    return this.getSortedConversations(ownerId);
+  }
+
+  async getConversation(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | undefined> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.getConversation(id, ownerId);
+    }
+    const json = await client.get(conversationKey(id));
+    if (!json) {
+      return undefined;
+    }
+    const conversation = deserializeConversation(json);
+    if (ownerId !== undefined && conversation.ownerId !== ownerId) {
+      return undefined;
+    }
+    return conversation;
+  }
+
+  async addConversation(conversation: Conversation): Promise<void> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.addConversation(conversation);
+    }
+    await this.write(client, conversation);
+  }
+
+  async updateConversation(
+    id: string,
+    updates: Partial<Conversation>,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.updateConversation(id, updates, ownerId);
+    }
+    const existing = await this.getConversation(id, ownerId);
+    if (!existing) {
+      return null;
+    }
+    const updated = { ...existing, ...updates };
+    if (updated.ownerId !== existing.ownerId) {
+      await client.zRem(ownerIndex(existing.ownerId), id);
+    }
+    await this.write(client, updated);
+    return updated;
+  }
+
+  async saveMessages(
+    id: string,
+    changes: MessageChanges,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const previous = this.messageWrites.get(id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const client = await this.connect();
+        if (!client) {
+          return this.memory.saveMessages(id, changes, ownerId);
+        }
+        const existing = await this.getConversation(id, ownerId);
+        if (!existing) {
+          return null;
+        }
+        const updated = applyMessageChanges(existing, changes);
+        await this.write(client, updated);
+        return updated;
+      });
+    this.messageWrites.set(id, write);
+    try {
+      return await write;
+    } finally {
+      if (this.messageWrites.get(id) === write) {
+        this.messageWrites.delete(id);
+      }
+    }
+  }
+
+  async deleteConversation(id: string, ownerId?: string): Promise<boolean> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.deleteConversation(id, ownerId);
+    }
+    const existing = await this.getConversation(id, ownerId);
+    if (!existing) {
+      return false;
+    }
+    await client.del(conversationKey(id));
+    await client.zRem(ALL_INDEX, id);
+    await client.zRem(ownerIndex(existing.ownerId), id);
+    return true;
+  }
+
+  async getSortedConversations(ownerId?: string): Promise<Conversation[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.getSortedConversations(ownerId);
+    }
+    const index = ownerId === undefined ? ALL_INDEX : ownerIndex(ownerId);
+    const ids = await client.zRange(index, 0, -1, { REV: true });
+    if (ids.length === 0) {
+      return [];
+    }
+    const docs = await client.mGet(ids.map(id => conversationKey(id)));
+    // An id can briefly outlive its document if a delete was interrupted.
+    return docs
+      .filter((json): json is string => typeof json === 'string')
+      .map(deserializeConversation);
+  }
+
+  async getConversationWithLastMessage(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const conversation = await this.getConversation(id, ownerId);
+    if (!conversation) {
+      return null;
+    }
+    return {
+      ...conversation,
+      messages: conversation.messages.slice(-1),
+    };
+  }
+
+  private async write(
+    client: RedisClient,
+    conversation: Conversation,
+  ): Promise<void> {
+    const score = new Date(conversation.updatedAt).getTime();
+    await client.set(
+      conversationKey(conversation.id),
+      serializeConversation(conversation),
+    );
+    await client.zAdd(ALL_INDEX, { score, value: conversation.id });
+    await client.zAdd(ownerIndex(conversation.ownerId), {
+      score,
+      value: conversation.id,
+    });
+  }
+}
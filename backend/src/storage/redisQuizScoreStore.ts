@@ -0,0 +1,143 @@
+import { createClient } from 'redis';
+import type { QuizScore, QuizType } from '../games/quizEngine';
+import { logger } from '../logger';
+import { MemoryQuizScoreStore } from './memoryQuizScoreStore';
+import { QuizScoreStore } from './quizScoreStore';
+import { deserializeQuizScore, serializeQuizScore } from './quizScoreJson';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Per quiz, a hash `quiz_scores:<quiz>` of user id to the score's JSON and
+// a sorted set `quiz_leaderboard:<quiz>` of user ids by points to rank with.
+const scoresKey = (quiz: QuizType): string => `quiz_scores:${quiz}`;
+const leaderboardKey = (quiz: QuizType): string => `quiz_leaderboard:${quiz}`;
+
+/**
+ * QuizScoreStore backed by Redis, falling back to memory like
+ * RedisConversationStore when Redis can't be reached.
+ */
+export class RedisQuizScoreStore implements QuizScoreStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory = new MemoryQuizScoreStore();
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(client?: RedisClient) {
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (QuizScoreStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('QuizScoreStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null once we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (this.useMemory || !this.client) {
+      return null;
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (QuizScoreStore)');
+      this.activateFallback('connect-failure');
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    logger.warn(
+      { reason },
+      '⚠️ Falling back to in-memory QuizScoreStore; quiz scores will not persist',
+    );
+  }
+
+  async get(userId: string, quiz: QuizType): Promise<QuizScore | null> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.get(userId, quiz);
+    }
+    const json = await client.hGet(scoresKey(quiz), userId);
+    return json ? deserializeQuizScore(json) : null;
+  }
+
+  async save(score: QuizScore): Promise<void> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.save(score);
+    }
+    await client.hSet(
+      scoresKey(score.quiz),
+      score.userId,
+      serializeQuizScore(score),
+    );
+    await client.zAdd(leaderboardKey(score.quiz), {
+      score: score.points,
+      value: score.userId,
+    });
+  }
+
+  async top(quiz: QuizType, limit: number): Promise<QuizScore[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.top(quiz, limit);
+    }
+    const userIds = await client.zRange(leaderboardKey(quiz), 0, limit - 1, {
+      REV: true,
+    });
+    if (userIds.length === 0) {
+      return [];
+    }
+    const docs = await client.hmGet(scoresKey(quiz), userIds);
+    return docs
+      .filter((doc): doc is string => typeof doc === 'string')
+      .map(deserializeQuizScore);
+  }
+
+  async rank(userId: string, quiz: QuizType): Promise<number | null> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.rank(userId, quiz);
+    }
+    const points = await client.zScore(leaderboardKey(quiz), userId);
+    if (points === null) {
+      return null;
+    }
+    return (
+      (await client.zCount(leaderboardKey(quiz), `(${points}`, '+inf')) + 1
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { createClient } from 'redis';
+import type { ContentItem } from '../agents/ragService';
+import { logger } from '../logger';
+import { MemoryRagContentStore } from './memoryRagContentStore';
+import { RagContentStore } from './ragContentStore';
+import {
+  byId,
+  deserializeContentItem,
+  serializeContentItem,
+} from './ragContentJson';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// One hash, `rag_content`, mapping item id to its JSON document. The corpus
+// is a few thousand items at most, so listing reads the whole hash.
+const CONTENT_KEY = 'rag_content';
+
+/**
+ * RagContentStore backed by Redis, falling back to memory like
+ * RedisConversationStore when Redis can't be reached.
+ */
+export class RedisRagContentStore implements RagContentStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory = new MemoryRagContentStore();
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(client?: RedisClient) {
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (RagContentStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('RagContentStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null once we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (this.useMemory || !this.client) {
+      return null;
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (RagContentStore)');
+      this.activateFallback('connect-failure');
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    logger.warn(
+      { reason },
+      '⚠️ Falling back to in-memory RagContentStore; content edits will not persist',
+    );
+  }
+
+  async list(): Promise<ContentItem[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.list();
+    }
+    const docs = await client.hGetAll(CONTENT_KEY);
+    return Object.values(docs).map(deserializeContentItem).sort(byId);
+  }
+
+  async get(id: string): Promise<ContentItem | null> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.get(id);
+    }
+    const json = await client.hGet(CONTENT_KEY, id);
+    return json ? deserializeContentItem(json) : null;
+  }
+
+  async put(item: ContentItem): Promise<void> {
+    await this.putMany([item]);
+  }
+
+  async putMany(items: ContentItem[]): Promise<void> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.putMany(items);
+    }
+    if (items.length === 0) {
+      return;
+    }
+    await client.hSet(
+      CONTENT_KEY,
+      Object.fromEntries(
+        items.map(item => [item.id, serializeContentItem(item)]),
+      ),
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.delete(id);
+    }
+    return (await client.hDel(CONTENT_KEY, id)) > 0;
+  }
+}
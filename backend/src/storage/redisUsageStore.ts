@@ -0,0 +1,138 @@
+import { createClient } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { UsageRecord, UsageTotals } from '../types';
+import { logger } from '../logger';
+import { MemoryUsageStore } from './memoryUsageStore';
+import { UsageQuery, UsageStore } from './usageStore';
+import {
+  byOldest,
+  deserializeUsageRecord,
+  serializeUsageRecord,
+  sumUsage,
+} from './usageJson';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Each record is written to two sorted sets scored by its time: one per
+// user, `usage:<userId>`, for the budget checks, and `usage:all` for the
+// admin view. Members are `<uuid> <json>` so two identical records in the
+// same millisecond don't collapse into one.
+const ALL_KEY = 'usage:all';
+const userKey = (userId: string): string => `usage:${userId}`;
+
+const toMember = (record: UsageRecord): string =>
+  `${uuidv4()} ${serializeUsageRecord(record)}`;
+const fromMember = (member: string): UsageRecord =>
+  deserializeUsageRecord(member.slice(member.indexOf(' ') + 1));
+
+/**
+ * UsageStore backed by Redis, falling back to memory like
+ * RedisConversationStore when Redis can't be reached.
+ */
+export class RedisUsageStore implements UsageStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory: MemoryUsageStore;
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(
+    private readonly retentionMs: number,
+    client?: RedisClient,
+  ) {
+    this.memory = new MemoryUsageStore(retentionMs);
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (UsageStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('UsageStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null once we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (this.useMemory || !this.client) {
+      return null;
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (UsageStore)');
+      this.activateFallback('connect-failure');
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    logger.warn(
+      { reason },
+      '⚠️ Falling back to in-memory UsageStore; usage will not persist',
+    );
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.record(record);
+    }
+    const member = toMember(record);
+    const score = record.createdAt.getTime();
+    const cutoff = Date.now() - this.retentionMs;
+    await client.zAdd(userKey(record.userId), { score, value: member });
+    await client.zAdd(ALL_KEY, { score, value: member });
+    // A user who stops chatting has nothing left to prune on; let the
+    // whole set expire instead.
+    await client.pExpire(userKey(record.userId), this.retentionMs);
+    await client.zRemRangeByScore(userKey(record.userId), '-inf', cutoff);
+    await client.zRemRangeByScore(ALL_KEY, '-inf', cutoff);
+  }
+
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.list(query);
+    }
+    const members = await client.zRangeByScore(
+      query.userId === undefined ? ALL_KEY : userKey(query.userId),
+      query.since.getTime(),
+      '+inf',
+    );
+    return members.map(fromMember).sort(byOldest);
+  }
+
+  async totals(userId: string, since: Date): Promise<UsageTotals> {
+    return sumUsage(await this.list({ userId, since }));
+  }
+}
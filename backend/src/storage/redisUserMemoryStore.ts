@@ -0,0 +1,149 @@
+import { createClient } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { UserMemory } from '../types';
+import { logger } from '../logger';
+import { MemoryUserMemoryStore } from './memoryUserMemoryStore';
+import { NewUserMemory, UserMemoryStore } from './userMemoryStore';
+import {
+  byNewest,
+  deserializeUserMemory,
+  serializeUserMemory,
+} from './userMemoryJson';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// One hash per user, `user_memory:<userId>`, mapping memory id to its JSON
+// document. A user holds a few dozen memories at most, so reading the whole
+// hash to match on `key` is cheaper than keeping a second index.
+const userKey = (userId: string): string => `user_memory:${userId}`;
+
+/**
+ * UserMemoryStore backed by Redis, falling back to memory like
+ * RedisConversationStore when Redis can't be reached.
+ */
+export class RedisUserMemoryStore implements UserMemoryStore {
+  private client: RedisClient | null = null;
+  private useMemory = false;
+  private readonly memory = new MemoryUserMemoryStore();
+
+  /** `client` is for tests; normally one is built from the environment. */
+  constructor(client?: RedisClient) {
+    if (client) {
+      this.client = client;
+    } else {
+      this.setupRedis();
+    }
+  }
+
+  private setupRedis(): void {
+    const urlFromEnv = process.env.REDIS_URL;
+    try {
+      if (urlFromEnv) {
+        this.client = createClient({ url: urlFromEnv });
+      } else {
+        const host = process.env.REDIS_HOST || 'localhost';
+        const port = process.env.REDIS_PORT || '6379';
+        const password = process.env.REDIS_PASSWORD || '';
+        const authSegment = password ? `:${encodeURIComponent(password)}@` : '';
+        const url = `redis://${authSegment}${host}:${port}`;
+        this.client = createClient({ url });
+      }
+      this.client.on('error', err => {
+        logger.error({ err }, 'Redis error (UserMemoryStore)');
+        this.activateFallback('runtime-error');
+      });
+      this.client.on('connect', () => {
+        logger.info('UserMemoryStore Redis connected');
+      });
+      void this.connect();
+    } catch (error) {
+      logger.error({ error }, 'Failed constructing Redis client');
+      this.activateFallback('construction-error');
+    }
+  }
+
+  /** The live client, or null once we've fallen back to memory. */
+  private async connect(): Promise<RedisClient | null> {
+    if (this.useMemory || !this.client) {
+      return null;
+    }
+    try {
+      if (!this.client.isOpen) {
+        await this.client.connect();
+      }
+      return this.client;
+    } catch (error) {
+      logger.error({ error }, 'Redis connect failed (UserMemoryStore)');
+      this.activateFallback('connect-failure');
+      return null;
+    }
+  }
+
+  private activateFallback(reason: string): void {
+    if (this.useMemory) {
+      return;
+    }
+    this.useMemory = true;
+    logger.warn(
+      { reason },
+      '⚠️ Falling back to in-memory UserMemoryStore; user memories will not persist',
+    );
+  }
+
+  async list(userId: string): Promise<UserMemory[]> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.list(userId);
+    }
+    return this.readAll(client, userId);
+  }
+
+  async upsert(memory: NewUserMemory): Promise<UserMemory> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.upsert(memory);
+    }
+    const existing = (await this.readAll(client, memory.userId)).find(
+      m => m.key === memory.key,
+    );
+    const now = new Date();
+    const stored: UserMemory = {
+      ...memory,
+      id: existing?.id ?? uuidv4(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await client.hSet(
+      userKey(memory.userId),
+      stored.id,
+      serializeUserMemory(stored),
+    );
+    return stored;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.delete(userId, id);
+    }
+    return (await client.hDel(userKey(userId), id)) > 0;
+  }
+
+  async clear(userId: string): Promise<number> {
+    const client = await this.connect();
+    if (!client) {
+      return this.memory.clear(userId);
+    }
+    const count = await client.hLen(userKey(userId));
+    await client.del(userKey(userId));
+    return count;
+  }
+
+  private async readAll(
+    client: RedisClient,
+    userId: string,
+  ): Promise<UserMemory[]> {
+    const docs = await client.hGetAll(userKey(userId));
+    return Object.values(docs).map(deserializeUserMemory).sort(byNewest);
+  }
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Campaign } from '../agents/dndCampaign';
+import { logger } from '../logger';
+import { CampaignStore } from './campaignStore';
+import { deserializeCampaign, serializeCampaign } from './campaignJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS campaigns (
+    owner_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (owner_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS campaigns_owner_updated
+    ON campaigns (owner_id, updated_at DESC);
+`;
+
+interface Row {
+  data: string;
+}
+
+/**
+ * CampaignStore in an embedded SQLite file. Each campaign is a JSON
+ * document, with `owner_id` and `updated_at` copied into columns for
+ * lookups and ordering.
+ */
+export class SqliteCampaignStore implements CampaignStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'CampaignStore SQLite opened');
+  }
+
+  async get(ownerId: string, id: string): Promise<Campaign | null> {
+    const row = this.db
+      .prepare('SELECT data FROM campaigns WHERE owner_id = ? AND id = ?')
+      .get(ownerId, id) as Row | undefined;
+    return row ? deserializeCampaign(row.data) : null;
+  }
+
+  async list(ownerId: string): Promise<Campaign[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT data FROM campaigns WHERE owner_id = ? ORDER BY updated_at DESC',
+      )
+      .all(ownerId) as Row[];
+    return rows.map(row => deserializeCampaign(row.data));
+  }
+
+  async save(campaign: Campaign): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO campaigns (owner_id, id, updated_at, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (owner_id, id)
+         DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`,
+      )
+      .run(
+        campaign.ownerId,
+        campaign.id,
+        campaign.updatedAt.getTime(),
+        serializeCampaign(campaign),
+      );
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return (
+      this.db
+        .prepare('DELETE FROM campaigns WHERE owner_id = ? AND id = ?')
+        .run(ownerId, id).changes > 0
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
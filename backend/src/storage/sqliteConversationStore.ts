@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Conversation } from '../types';
+import { logger } from '../logger';
+import { ConversationStore } from './conversationStore';
+import { applyMessageChanges, MessageChanges } from './conversationMessages';
+import {
+  deserializeConversation,
+  serializeConversation,
+} from './conversationJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS conversations_owner_updated
+    ON conversations (owner_id, updated_at DESC);
+`;
+
+interface Row {
+  data: string;
+}
+
+/**
+ * ConversationStore in an embedded SQLite file, for single-replica
+ * deployments that want history to survive restarts without running Redis.
+ * The conversation is stored as a JSON document; `owner_id` and
+ * `updated_at` are copied into columns so listings can use the index.
+ */
+export class SqliteConversationStore implements ConversationStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'ConversationStore SQLite opened');
+  }
+
+  async getConversations(ownerId?: string): Promise<Conversation[]> {
+    return this.getSortedConversations(ownerId);
+  }
+
+  async getConversation(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | undefined> {
+    const row = (
+      ownerId === undefined
+        ? this.db.prepare('SELECT data FROM conversations WHERE id = ?').get(id)
+        : this.db
+            .prepare(
+              'SELECT data FROM conversations WHERE id = ? AND owner_id = ?',
+            )
+            .get(id, ownerId)
+    ) as Row | undefined;
+    return row ? deserializeConversation(row.data) : undefined;
+  }
+
+  async addConversation(conversation: Conversation): Promise<void> {
+    this.db
+      .prepare(
+        'INSERT INTO conversations (id, owner_id, updated_at, data) VALUES (?, ?, ?, ?)',
+      )
+      .run(...this.columns(conversation));
+  }
+
+  async updateConversation(
+    id: string,
+    updates: Partial<Conversation>,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const existing = await this.getConversation(id, ownerId);
+    if (!existing) {
+      return null;
+    }
+    const updated = { ...existing, ...updates };
+    const [, owner, updatedAt, data] = this.columns(updated);
+    this.db
+      .prepare(
+        'UPDATE conversations SET owner_id = ?, updated_at = ?, data = ? WHERE id = ?',
+      )
+      .run(owner, updatedAt, data, id);
+    return updated;
+  }
+
+  async saveMessages(
+    id: string,
+    changes: MessageChanges,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    // Read and write in one transaction so no other write lands between.
+    return this.db.transaction((): Conversation | null => {
+      const row = this.db
+        .prepare('SELECT data FROM conversations WHERE id = ?')
+        .get(id) as Row | undefined;
+      const existing = row ? deserializeConversation(row.data) : undefined;
+      if (
+        !existing ||
+        (ownerId !== undefined && existing.ownerId !== ownerId)
+      ) {
+        return null;
+      }
+      const updated = applyMessageChanges(existing, changes);
+      const [, , updatedAt, data] = this.columns(updated);
+      this.db
+        .prepare(
+          'UPDATE conversations SET updated_at = ?, data = ? WHERE id = ?',
+        )
+        .run(updatedAt, data, id);
+      return updated;
+    })();
+  }
+
+  async deleteConversation(id: string, ownerId?: string): Promise<boolean> {
+    const result =
+      ownerId === undefined
+        ? this.db.prepare('DELETE FROM conversations WHERE id = ?').run(id)
+        : this.db
+            .prepare('DELETE FROM conversations WHERE id = ? AND owner_id = ?')
+            .run(id, ownerId);
+    return result.changes > 0;
+  }
+
+  async getSortedConversations(ownerId?: string): Promise<Conversation[]> {
+    const rows = (
+      ownerId === undefined
+        ? this.db
+            .prepare('SELECT data FROM conversations ORDER BY updated_at DESC')
+            .all()
+        : this.db
+            .prepare(
+              'SELECT data FROM conversations WHERE owner_id = ? ORDER BY updated_at DESC',
+            )
+            .all(ownerId)
+    ) as Row[];
+    return rows.map(row => deserializeConversation(row.data));
+  }
+
+  async getConversationWithLastMessage(
+    id: string,
+    ownerId?: string,
+  ): Promise<Conversation | null> {
+    const conversation = await this.getConversation(id, ownerId);
+    if (!conversation) {
+      return null;
+    }
+    return {
+      ...conversation,
+      messages: conversation.messages.slice(-1),
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private columns(
+    conversation: Conversation,
+  ): [string, string, number, string] {
+    return [
+      conversation.id,
+      conversation.ownerId,
+      new Date(conversation.updatedAt).getTime(),
+      serializeConversation(conversation),
+    ];
+  }
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { QuizScore, QuizType } from '../games/quizEngine';
+import { logger } from '../logger';
+import { QuizScoreStore } from './quizScoreStore';
+import { deserializeQuizScore, serializeQuizScore } from './quizScoreJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS quiz_scores (
+    quiz TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    points INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (quiz, user_id)
+  );
+  CREATE INDEX IF NOT EXISTS quiz_scores_points
+    ON quiz_scores (quiz, points DESC);
+`;
+
+interface Row {
+  data: string;
+}
+
+/**
+ * QuizScoreStore in an embedded SQLite file. Each score is a JSON
+ * document, with `quiz`, `user_id` and `points` copied into columns for
+ * lookups and ranking.
+ */
+export class SqliteQuizScoreStore implements QuizScoreStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'QuizScoreStore SQLite opened');
+  }
+
+  async get(userId: string, quiz: QuizType): Promise<QuizScore | null> {
+    const row = this.db
+      .prepare('SELECT data FROM quiz_scores WHERE quiz = ? AND user_id = ?')
+      .get(quiz, userId) as Row | undefined;
+    return row ? deserializeQuizScore(row.data) : null;
+  }
+
+  async save(score: QuizScore): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO quiz_scores (quiz, user_id, points, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (quiz, user_id)
+         DO UPDATE SET points = excluded.points, data = excluded.data`,
+      )
+      .run(score.quiz, score.userId, score.points, serializeQuizScore(score));
+  }
+
+  async top(quiz: QuizType, limit: number): Promise<QuizScore[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT data FROM quiz_scores WHERE quiz = ? ORDER BY points DESC LIMIT ?',
+      )
+      .all(quiz, limit) as Row[];
+    return rows.map(row => deserializeQuizScore(row.data));
+  }
+
+  async rank(userId: string, quiz: QuizType): Promise<number | null> {
+    const row = this.db
+      .prepare(
+        `SELECT 1 + (
+           SELECT COUNT(*) FROM quiz_scores other
+           WHERE other.quiz = mine.quiz AND other.points > mine.points
+         ) AS rank
+         FROM quiz_scores mine WHERE quiz = ? AND user_id = ?`,
+      )
+      .get(quiz, userId) as { rank: number } | undefined;
+    return row?.rank ?? null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
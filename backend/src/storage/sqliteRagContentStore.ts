@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ContentItem } from '../agents/ragService';
+import { logger } from '../logger';
+import { RagContentStore } from './ragContentStore';
+import { deserializeContentItem, serializeContentItem } from './ragContentJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rag_content (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+interface Row {
+  data: string;
+}
+
+/**
+ * RagContentStore in an embedded SQLite file, one JSON document per item.
+ * Filtering by type or category happens in RAGService's cache, so only the
+ * id needs a column.
+ */
+export class SqliteRagContentStore implements RagContentStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'RagContentStore SQLite opened');
+  }
+
+  async list(): Promise<ContentItem[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM rag_content ORDER BY id')
+      .all() as Row[];
+    return rows.map(row => deserializeContentItem(row.data));
+  }
+
+  async get(id: string): Promise<ContentItem | null> {
+    const row = this.db
+      .prepare('SELECT data FROM rag_content WHERE id = ?')
+      .get(id) as Row | undefined;
+    return row ? deserializeContentItem(row.data) : null;
+  }
+
+  async put(item: ContentItem): Promise<void> {
+    await this.putMany([item]);
+  }
+
+  async putMany(items: ContentItem[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO rag_content (id, data) VALUES (?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+    );
+    this.db.transaction((batch: ContentItem[]) => {
+      for (const item of batch) {
+        insert.run(item.id, serializeContentItem(item));
+      }
+    })(items);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (
+      this.db.prepare('DELETE FROM rag_content WHERE id = ?').run(id).changes >
+      0
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
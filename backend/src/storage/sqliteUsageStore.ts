@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { UsageRecord, UsageTotals } from '../types';
+import { logger } from '../logger';
+import { UsageQuery, UsageStore } from './usageStore';
+import { deserializeUsageRecord, serializeUsageRecord } from './usageJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS usage_records (
+    user_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cache_read_tokens INTEGER NOT NULL,
+    cost_usd REAL NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS usage_records_user_created
+    ON usage_records (user_id, created_at);
+  CREATE INDEX IF NOT EXISTS usage_records_created
+    ON usage_records (created_at);
+`;
+
+interface Row {
+  data: string;
+}
+
+interface TotalsRow {
+  requests: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_read_tokens: number | null;
+  cost_usd: number | null;
+}
+
+/**
+ * UsageStore in an embedded SQLite file. Each record is a JSON document,
+ * with the user, time and counts copied into columns so the budget checks
+ * sum in SQL.
+ */
+export class SqliteUsageStore implements UsageStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(
+    filename: string,
+    private readonly retentionMs: number,
+  ) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'UsageStore SQLite opened');
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    this.db
+      .prepare('DELETE FROM usage_records WHERE created_at < ?')
+      .run(Date.now() - this.retentionMs);
+    this.db
+      .prepare(
+        `INSERT INTO usage_records (user_id, created_at, input_tokens,
+           output_tokens, cache_read_tokens, cost_usd, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        record.userId,
+        record.createdAt.getTime(),
+        record.inputTokens,
+        record.outputTokens,
+        record.cacheReadTokens,
+        record.costUsd,
+        serializeUsageRecord(record),
+      );
+  }
+
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    const rows = (
+      query.userId === undefined
+        ? this.db
+            .prepare(
+              'SELECT data FROM usage_records WHERE created_at >= ? ORDER BY created_at, rowid',
+            )
+            .all(query.since.getTime())
+        : this.db
+            .prepare(
+              'SELECT data FROM usage_records WHERE user_id = ? AND created_at >= ? ORDER BY created_at, rowid',
+            )
+            .all(query.userId, query.since.getTime())
+    ) as Row[];
+    return rows.map(row => deserializeUsageRecord(row.data));
+  }
+
+  async totals(userId: string, since: Date): Promise<UsageTotals> {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS requests,
+           SUM(input_tokens) AS input_tokens,
+           SUM(output_tokens) AS output_tokens,
+           SUM(cache_read_tokens) AS cache_read_tokens,
+           SUM(cost_usd) AS cost_usd
+         FROM usage_records WHERE user_id = ? AND created_at >= ?`,
+      )
+      .get(userId, since.getTime()) as TotalsRow;
+    return {
+      requests: row.requests,
+      inputTokens: row.input_tokens ?? 0,
+      outputTokens: row.output_tokens ?? 0,
+      cacheReadTokens: row.cache_read_tokens ?? 0,
+      costUsd: row.cost_usd ?? 0,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
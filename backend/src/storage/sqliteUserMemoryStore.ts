@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { UserMemory } from '../types';
+import { logger } from '../logger';
+import { NewUserMemory, UserMemoryStore } from './userMemoryStore';
+import { deserializeUserMemory, serializeUserMemory } from './userMemoryJson';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS user_memories (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (user_id, key)
+  );
+  CREATE INDEX IF NOT EXISTS user_memories_user_updated
+    ON user_memories (user_id, updated_at DESC);
+`;
+
+interface Row {
+  data: string;
+}
+
+/**
+ * UserMemoryStore in an embedded SQLite file. Like SqliteConversationStore
+ * each memory is a JSON document, with `user_id`, `key` and `updated_at`
+ * copied into columns for lookups and ordering.
+ */
+export class SqliteUserMemoryStore implements UserMemoryStore {
+  private readonly db: Database.Database;
+
+  /** Pass `:memory:` for a throwaway database. */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    logger.info({ filename }, 'UserMemoryStore SQLite opened');
+  }
+
+  async list(userId: string): Promise<UserMemory[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT data FROM user_memories WHERE user_id = ? ORDER BY updated_at DESC',
+      )
+      .all(userId) as Row[];
+    return rows.map(row => deserializeUserMemory(row.data));
+  }
+
+  async upsert(memory: NewUserMemory): Promise<UserMemory> {
+    const row = this.db
+      .prepare('SELECT data FROM user_memories WHERE user_id = ? AND key = ?')
+      .get(memory.userId, memory.key) as Row | undefined;
+    const existing = row ? deserializeUserMemory(row.data) : undefined;
+    const now = new Date();
+    const stored: UserMemory = {
+      ...memory,
+      id: existing?.id ?? uuidv4(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.db
+      .prepare(
+        `INSERT INTO user_memories (id, user_id, key, updated_at, data)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, key)
+         DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`,
+      )
+      .run(
+        stored.id,
+        stored.userId,
+        stored.key,
+        now.getTime(),
+        serializeUserMemory(stored),
+      );
+    return stored;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM user_memories WHERE id = ? AND user_id = ?')
+      .run(id, userId);
+    return result.changes > 0;
+  }
+
+  async clear(userId: string): Promise<number> {
+    return this.db
+      .prepare('DELETE FROM user_memories WHERE user_id = ?')
+      .run(userId).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,35 @@
+import { UsageRecord, UsageTotals } from '../types';
+
+// JSON codec for stored usage records, plus the oldest-first ordering and
+// the summing every UsageStore backend shares.
+
+export function serializeUsageRecord(record: UsageRecord): string {
+  return JSON.stringify(record);
+}
+
+export function deserializeUsageRecord(json: string): UsageRecord {
+  const raw = JSON.parse(json) as UsageRecord;
+  return { ...raw, createdAt: new Date(raw.createdAt) };
+}
+
+export const byOldest = (a: UsageRecord, b: UsageRecord): number =>
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>(
+    (totals, record) => ({
+      requests: totals.requests + 1,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      cacheReadTokens: totals.cacheReadTokens + record.cacheReadTokens,
+      costUsd: totals.costUsd + record.costUsd,
+    }),
+    {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      costUsd: 0,
+    },
+  );
+}
@@ -0,0 +1,60 @@
+import { UsageRecord, UsageTotals } from '../types';
+import { logger } from '../logger';
+import { MemoryUsageStore } from './memoryUsageStore';
+import { RedisUsageStore } from './redisUsageStore';
+import { SqliteUsageStore } from './sqliteUsageStore';
+
+/** Records older than this are dropped as new ones are written. */
+export const DEFAULT_USAGE_RETENTION_DAYS = 90;
+
+export interface UsageQuery {
+  /** Every user's records when unset. */
+  userId?: string;
+  since: Date;
+}
+
+/**
+ * Where per-call token usage lives. Every backend honours the same
+ * contract (see `__tests__/usageStoreContract.ts`):
+ *
+ *   - Records are append-only and listed oldest first.
+ *   - `totals` sums the same records `list` returns for one user, and is
+ *     what the budgets check on every chat message, so backends answer it
+ *     without loading every record where they can.
+ *   - Records older than the retention are pruned as new ones arrive.
+ */
+export interface UsageStore {
+  record(record: UsageRecord): Promise<void>;
+  list(query: UsageQuery): Promise<UsageRecord[]>;
+  totals(userId: string, since: Date): Promise<UsageTotals>;
+}
+
+/**
+ * Build the store named by `USAGE_STORE`, which defaults to the
+ * `CONVERSATION_STORE` setting. SQLite writes to `USAGE_SQLITE_PATH`
+ * (default `data/usage.db`); `USAGE_RETENTION_DAYS` sets how long
+ * records are kept.
+ */
+export function createUsageStore(
+  kind = process.env.USAGE_STORE || process.env.CONVERSATION_STORE || 'memory',
+): UsageStore {
+  const retentionDays =
+    Number(process.env.USAGE_RETENTION_DAYS) || DEFAULT_USAGE_RETENTION_DAYS;
+  const retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  switch (kind) {
+    case 'memory':
+      return new MemoryUsageStore(retentionMs);
+    case 'redis':
+      return new RedisUsageStore(retentionMs);
+    case 'sqlite':
+      return new SqliteUsageStore(
+        process.env.USAGE_SQLITE_PATH || 'data/usage.db',
+        retentionMs,
+      );
+    default:
+      logger.warn({ kind }, '⚠️ Unknown USAGE_STORE, using in-memory usage');
+      return new MemoryUsageStore(retentionMs);
+  }
+}
+
+export const usageStore = createUsageStore();
@@ -0,0 +1,20 @@
+import { UserMemory } from '../types';
+
+// JSON codec for stored user memories, plus the newest-first ordering every
+// UserMemoryStore backend lists in.
+
+export function serializeUserMemory(memory: UserMemory): string {
+  return JSON.stringify(memory);
+}
+
+export function deserializeUserMemory(json: string): UserMemory {
+  const raw = JSON.parse(json) as UserMemory;
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+export const byNewest = (a: UserMemory, b: UserMemory): number =>
+  b.updatedAt.getTime() - a.updatedAt.getTime();
@@ -0,0 +1,57 @@
+import { UserMemory } from '../types';
+import { logger } from '../logger';
+import { MemoryUserMemoryStore } from './memoryUserMemoryStore';
+import { RedisUserMemoryStore } from './redisUserMemoryStore';
+import { SqliteUserMemoryStore } from './sqliteUserMemoryStore';
+
+/** What a caller supplies; the store assigns `id` and the timestamps. */
+export type NewUserMemory = Omit<UserMemory, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Where long-term user memories live. Every backend honours the same
+ * contract (see `__tests__/userMemoryStoreContract.ts`):
+ *
+ *   - Memories are scoped to `userId`; one user can never read or delete
+ *     another's.
+ *   - `upsert` replaces the user's memory with the same `key`, keeping its
+ *     id and `createdAt`, so restating a preference doesn't duplicate it.
+ */
+export interface UserMemoryStore {
+  /** Newest `updatedAt` first. */
+  list(userId: string): Promise<UserMemory[]>;
+  upsert(memory: NewUserMemory): Promise<UserMemory>;
+  delete(userId: string, id: string): Promise<boolean>;
+  /** Returns how many memories were removed. */
+  clear(userId: string): Promise<number>;
+}
+
+/**
+ * Build the store named by `USER_MEMORY_STORE`, which defaults to the
+ * `CONVERSATION_STORE` setting so memories persist wherever conversations
+ * do. SQLite writes to `USER_MEMORY_SQLITE_PATH` (default
+ * `data/user-memory.db`).
+ */
+export function createUserMemoryStore(
+  kind = process.env.USER_MEMORY_STORE ||
+    process.env.CONVERSATION_STORE ||
+    'memory',
+): UserMemoryStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryUserMemoryStore();
+    case 'redis':
+      return new RedisUserMemoryStore();
+    case 'sqlite':
+      return new SqliteUserMemoryStore(
+        process.env.USER_MEMORY_SQLITE_PATH || 'data/user-memory.db',
+      );
+    default:
+      logger.warn(
+        { kind },
+        '⚠️ Unknown USER_MEMORY_STORE, using in-memory user memory',
+      );
+      return new MemoryUserMemoryStore();
+  }
+}
+
+export const userMemoryStore = createUserMemoryStore();
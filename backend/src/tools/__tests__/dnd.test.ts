@@ -0,0 +1,86 @@
+import {
+  applyDamageTool,
+  campaignSummaryTool,
+  generateCharacterTool,
+  nextTurnTool,
+  skillCheckTool,
+  startEncounterTool,
+} from '../dnd';
+
+const context = { conversationId: 'conv-dnd', userId: 'user-1' };
+
+const first = <T>(result: T | T[]): T =>
+  Array.isArray(result) ? result[0] : result;
+
+describe('D&D campaign tools', () => {
+  it('should need a user to keep the campaign for', async () => {
+    await expect(campaignSummaryTool.execute({})).rejects.toThrow(
+      'D&D campaigns need a user',
+    );
+  });
+
+  it('should still show a character sheet without a user', async () => {
+    const result = first(await generateCharacterTool.execute({}));
+
+    expect(result.attachment).toMatchObject({
+      type: 'card',
+      kind: 'character',
+    });
+  });
+
+  it('should add generated characters to the party and summarize it on a card', async () => {
+    const created = first(await generateCharacterTool.execute({}, context));
+    const summary = first(await campaignSummaryTool.execute({}, context));
+
+    expect(summary.attachment).toMatchObject({
+      type: 'card',
+      kind: 'campaign',
+    });
+    const [member] =
+      summary.attachment.type === 'card' ? summary.attachment.fields : [];
+    expect(member.value).toMatch(/ L1 · HP (\d+)\/\1 · AC \d+ · XP 0$/);
+    expect(created.attachment).toMatchObject({
+      title: expect.stringContaining(`${member.label} the `),
+    });
+  });
+
+  it('should run combat on an initiative card', async () => {
+    const started = first(await startEncounterTool.execute({}, context));
+    expect(started.attachment).toMatchObject({
+      kind: 'initiative',
+      title: expect.stringMatching(/: Round 1$/),
+    });
+    const card = started.attachment.type === 'card' ? started.attachment : null;
+    expect(card?.fields[0].label).toMatch(/^▶ /);
+
+    const enemy = (
+      started.data?.encounter as { order: { name: string; side: string }[] }
+    ).order.find(c => c.side === 'enemy')!;
+    const hit = first(
+      await applyDamageTool.execute({ target: enemy.name, amount: 3 }, context),
+    );
+    expect(hit.data?.change).toMatchObject({ name: enemy.name, side: 'enemy' });
+
+    const next = first(await nextTurnTool.execute({}, context));
+    expect(next.attachment).toMatchObject({ kind: 'initiative' });
+  });
+
+  it('should show a skill check as a dice roll', async () => {
+    const summary = first(await campaignSummaryTool.execute({}, context));
+    const name = (summary.data?.party as { name: string }[])[0].name;
+
+    const result = first(
+      await skillCheckTool.execute(
+        { character: name, skill: 'stealth', dc: 12 },
+        context,
+      ),
+    );
+
+    expect(result.attachment).toMatchObject({
+      type: 'dice',
+      notation: expect.stringMatching(/^d20[+-]\d+$/),
+      purpose: expect.stringContaining('stealth check, DC 12'),
+    });
+    expect(result.data).toMatchObject({ ability: 'DEX', dc: 12 });
+  });
+});
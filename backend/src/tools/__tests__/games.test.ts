@@ -0,0 +1,91 @@
+import {
+  askQuestionTool,
+  endGameTool,
+  gameStatusTool,
+  startGameTool,
+  submitAnswerTool,
+} from '../games';
+
+const context = { conversationId: 'conv-games', userId: 'user-1' };
+
+describe('game tools', () => {
+  it('should need a conversation or user to keep the game in', async () => {
+    await expect(startGameTool.execute({ game: 'quick_math' })).rejects.toThrow(
+      'Games need a conversation',
+    );
+  });
+
+  it('should reject unknown games', async () => {
+    await expect(
+      startGameTool.execute({ game: 'chess' }, context),
+    ).rejects.toThrow('Unknown game: chess');
+  });
+
+  it('should show a score card and tell only the model the secret', async () => {
+    const start = await startGameTool.execute(
+      { game: 'twenty_questions', difficulty: 'hard' },
+      context,
+    );
+    const result = Array.isArray(start) ? start[0] : start;
+    const secret = result.data?.secret as string;
+
+    expect(secret).toEqual(expect.any(String));
+    expect(result.attachment).toMatchObject({
+      type: 'card',
+      kind: 'game_score',
+      title: '20 Questions',
+    });
+    expect(JSON.stringify(result.attachment)).not.toContain(secret);
+    expect(result.text).toBeUndefined();
+
+    const asked = await askQuestionTool.execute(
+      { question: 'Is it alive?', reply: 'no' },
+      context,
+    );
+    expect(Array.isArray(asked) ? asked[0].data : asked.data).toMatchObject({
+      turns: 1,
+      questions: [{ question: 'Is it alive?', reply: 'no' }],
+    });
+  });
+
+  it('should show a result card with the answer once the game ends', async () => {
+    await startGameTool.execute({ game: 'twenty_questions' }, context);
+    const status = await gameStatusTool.execute({}, context);
+    const secret = (Array.isArray(status) ? status[0] : status).data
+      ?.secret as string;
+
+    const ended = await endGameTool.execute({}, context);
+    const result = Array.isArray(ended) ? ended[0] : ended;
+
+    expect(result.attachment).toMatchObject({
+      type: 'card',
+      kind: 'game_result',
+      title: '20 Questions: Game ended',
+      fields: expect.arrayContaining([{ label: 'Answer', value: secret }]),
+    });
+    expect(result.data).toMatchObject({
+      status: 'abandoned',
+      expected: secret,
+    });
+    expect(result.data).not.toHaveProperty('secret');
+  });
+
+  it('should report the marking on the card', async () => {
+    await startGameTool.execute({ game: 'quick_math' }, context);
+
+    const answered = await submitAnswerTool.execute({ answer: '-1' }, context);
+    const result = Array.isArray(answered) ? answered[0] : answered;
+
+    expect(result.data).toMatchObject({ correct: false, turns: 1 });
+    expect(result.attachment).toMatchObject({
+      kind: 'game_score',
+      fields: expect.arrayContaining([
+        { label: 'Round', value: '1/5' },
+        {
+          label: 'Last answer',
+          value: `❌ Answer: ${result.data?.expected}`,
+        },
+      ]),
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  checkAnswerTool,
+  nextQuestionTool,
+  quizHintTool,
+  quizLeaderboardTool,
+  skipQuestionTool,
+} from '../quiz';
+
+const context = { conversationId: 'conv-quiz', userId: 'anon_quiz' };
+
+const first = <T>(result: T | T[]): T =>
+  Array.isArray(result) ? result[0] : result;
+
+describe('quiz tools', () => {
+  it('should need a user to keep score for', async () => {
+    await expect(nextQuestionTool.execute({ quiz: 'riddle' })).rejects.toThrow(
+      'Quizzes need a user',
+    );
+  });
+
+  it('should reject unknown quizzes', async () => {
+    await expect(
+      nextQuestionTool.execute({ quiz: 'chess' }, context),
+    ).rejects.toThrow('Unknown quiz: chess');
+  });
+
+  it('should ask a question without telling anyone the answer', async () => {
+    const result = first(
+      await nextQuestionTool.execute({ quiz: 'trivia' }, context),
+    );
+
+    expect(result.data).toMatchObject({
+      quiz: 'trivia',
+      question: expect.any(String),
+      streak: 0,
+    });
+    expect(result.data).not.toHaveProperty('expected');
+    expect(result.attachment).toMatchObject({
+      type: 'card',
+      kind: 'quiz_score',
+      title: 'Trivia Quiz',
+    });
+  });
+
+  it('should mark answers, give hints and reveal the answer on a skip', async () => {
+    await nextQuestionTool.execute({ quiz: 'riddle' }, context);
+
+    const wrong = first(
+      await checkAnswerTool.execute({ answer: 'a xylophone' }, context),
+    );
+    expect(wrong.data).toMatchObject({ outcome: 'wrong', attemptsLeft: 2 });
+    expect(wrong.attachment).toMatchObject({
+      fields: expect.arrayContaining([
+        { label: 'Last answer', value: '❌ 2 tries left' },
+      ]),
+    });
+
+    const hint = first(await quizHintTool.execute({}, context));
+    expect(hint.data?.hint).toEqual(expect.any(String));
+
+    const skipped = first(await skipQuestionTool.execute({}, context));
+    expect(skipped.data).toMatchObject({
+      outcome: 'skipped',
+      expected: expect.any(String),
+      allTimePoints: 0,
+    });
+  });
+
+  it("should show the leaderboard with the player's rank", async () => {
+    const result = first(
+      await quizLeaderboardTool.execute({ quiz: 'riddle' }, context),
+    );
+
+    expect(result.attachment).toMatchObject({
+      type: 'card',
+      kind: 'leaderboard',
+      title: 'Riddle Challenge Leaderboard',
+      fields: expect.arrayContaining([
+        {
+          label: expect.stringMatching(/^#\d+ Guest \(you\)$/),
+          value: '0 pts · 0/1 correct',
+        },
+      ]),
+    });
+    expect(result.data).toMatchObject({ rank: expect.any(Number) });
+  });
+});
@@ -1,7 +1,124 @@
-import { ToolDefinition, ToolResult } from './index';
+import { ToolContext, ToolDefinition, ToolResult } from './index';
 import { dndService } from '../agents/dndService';
+import {
+  Campaign,
+  CampaignRef,
+  LevelUp,
+  SKILLS,
+  dndCampaignService,
+} from '../agents/dndCampaign';
+import { MediaAttachment } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
+function campaignRef(context?: ToolContext): CampaignRef {
+  if (!context?.userId) {
+    throw new Error('D&D campaigns need a user to belong to');
+  }
+  return { ownerId: context.userId, conversationId: context.conversationId };
+}
+
+/** The party, one line each, and the encounter if there is one. */
+export function campaignCard(campaign: Campaign): MediaAttachment {
+  const { encounter } = campaign;
+  return {
+    id: uuidv4(),
+    type: 'card',
+    kind: 'campaign',
+    title: campaign.name,
+    fields: [
+      ...campaign.party.map(c => ({
+        label: c.name,
+        value: `${c.race} ${c.class} L${c.level} · HP ${c.hitPoints}/${c.maxHitPoints} · AC ${c.armorClass} · XP ${c.xp}`,
+      })),
+      ...(campaign.party.length === 0
+        ? [{ label: 'Party', value: 'No characters yet' }]
+        : []),
+      ...(encounter
+        ? [
+            {
+              label: 'Encounter',
+              value: `${encounter.title} (round ${encounter.round}, ${encounter.order[encounter.turn].name} to act)`,
+            },
+          ]
+        : []),
+    ],
+    accentColor: '#7c3aed',
+  };
+}
+
+/** Turn order, highest initiative first, with ▶ on whoever is acting. */
+export function initiativeCard(campaign: Campaign): MediaAttachment {
+  const encounter = campaign.encounter!;
+  const hitPoints = (id: string, side: 'party' | 'enemy'): string => {
+    if (side === 'enemy') {
+      const enemy = encounter.order.find(c => c.id === id)!;
+      return `HP ${enemy.hitPoints}/${enemy.maxHitPoints}`;
+    }
+    const member = campaign.party.find(c => c.id === id);
+    return member ? `HP ${member.hitPoints}/${member.maxHitPoints}` : '';
+  };
+  return {
+    id: uuidv4(),
+    type: 'card',
+    kind: 'initiative',
+    title: `${encounter.title}: Round ${encounter.round}`,
+    fields: encounter.order.map((c, i) => ({
+      label: `${i === encounter.turn ? '▶ ' : ''}${c.name}`,
+      value: `Initiative ${c.initiative} · ${hitPoints(c.id, c.side)}${
+        c.side === 'enemy' && c.hitPoints === 0 ? ' · down' : ''
+      }`,
+    })),
+    accentColor: '#b91c1c',
+  };
+}
+
+/** Campaign state for the model, so it narrates from the real numbers. */
+function campaignData(campaign: Campaign): Record<string, unknown> {
+  return {
+    campaignId: campaign.id,
+    party: campaign.party.map(c => ({
+      name: c.name,
+      class: c.class,
+      level: c.level,
+      hitPoints: c.hitPoints,
+      maxHitPoints: c.maxHitPoints,
+      armorClass: c.armorClass,
+      stats: c.stats,
+      inventory: c.inventory,
+      xp: c.xp,
+    })),
+    ...(campaign.encounter && {
+      encounter: {
+        title: campaign.encounter.title,
+        round: campaign.encounter.round,
+        current: campaign.encounter.order[campaign.encounter.turn].name,
+        order: campaign.encounter.order.map(c => ({
+          name: c.name,
+          side: c.side,
+          initiative: c.initiative,
+          ...(c.side === 'enemy' && {
+            hitPoints: c.hitPoints,
+            armorClass: c.armorClass,
+            attackBonus: c.attackBonus,
+            damage: c.damage,
+          }),
+        })),
+      },
+    }),
+  };
+}
+
+function campaignResult(
+  campaign: Campaign,
+  extra: Record<string, unknown> = {},
+  attachment = campaignCard(campaign),
+): ToolResult {
+  return { attachment, data: { ...extra, ...campaignData(campaign) } };
+}
+
+const levelUpData = (levelUps: LevelUp[]) =>
+  levelUps.length > 0 ? { levelUps } : {};
+
 export const rollDiceTool: ToolDefinition = {
   name: 'roll_dice',
   description: 'Roll one or more dice and show the result as a dice card.',
@@ -41,13 +158,25 @@ export const rollDiceTool: ToolDefinition = {
 export const generateCharacterTool: ToolDefinition = {
   name: 'generate_character',
   description:
-    'Generate a random D&D character with stats, class, race, and equipment.',
+    "Generate a random D&D character with stats, class, race, and equipment, and add them to this conversation's party.",
   input_schema: {
     type: 'object',
     properties: {},
   },
-  async execute(_input: unknown): Promise<ToolResult> {
-    const char = dndService.generateCharacter();
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const generated = dndService.generateCharacter();
+    // Without a user there is no campaign to join; just show the sheet.
+    const char = context?.userId
+      ? {
+          ...generated,
+          name: (
+            await dndCampaignService.addCharacter(
+              campaignRef(context),
+              generated,
+            )
+          ).character.name,
+        }
+      : generated;
     return {
       attachment: {
         id: uuidv4(),
@@ -105,3 +234,237 @@ export const generateEncounterTool: ToolDefinition = {
     };
   },
 };
+
+export const applyDamageTool: ToolDefinition = {
+  name: 'apply_damage',
+  description:
+    'Apply damage to, or heal, a party member or an enemy in the current encounter. HP never drops below 0 or rises above the maximum.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      target: {
+        type: 'string',
+        description:
+          'Character or enemy name as shown on the cards, e.g. "Goblin 2"',
+      },
+      amount: { type: 'number', description: 'Hit points, a positive number' },
+      healing: {
+        type: 'boolean',
+        description: 'Heal instead of damaging',
+      },
+    },
+    required: ['target', 'amount'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { target, amount, healing } = input as {
+      target: string;
+      amount: number;
+      healing?: boolean;
+    };
+    const points = Math.abs(Math.round(Number(amount)));
+    if (!Number.isFinite(points)) {
+      throw new Error(`Invalid amount: ${amount}`);
+    }
+    const { campaign, change } = await dndCampaignService.adjustHitPoints(
+      campaignRef(context),
+      String(target),
+      healing ? -points : points,
+    );
+    return campaignResult(
+      campaign,
+      { change },
+      campaign.encounter ? initiativeCard(campaign) : campaignCard(campaign),
+    );
+  },
+};
+
+export const skillCheckTool: ToolDefinition = {
+  name: 'skill_check',
+  description:
+    'Roll a d20 skill or ability check for a party member, adding the modifier from their stats, against a DC. Shows the roll as a dice card.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      character: { type: 'string', description: 'Party member name' },
+      skill: {
+        type: 'string',
+        description: `One of ${Object.keys(SKILLS).join(', ')}, or an ability (STR, DEX, CON, INT, WIS, CHA)`,
+      },
+      dc: {
+        type: 'number',
+        description: 'Difficulty class: 10 easy, 15 medium, 20 hard',
+      },
+      advantage: {
+        type: 'string',
+        enum: ['advantage', 'disadvantage'],
+        description: 'Roll two d20s and keep the higher or lower',
+      },
+    },
+    required: ['character', 'skill', 'dc'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { character, skill, dc, advantage } = input as {
+      character: string;
+      skill: string;
+      dc: number;
+      advantage?: 'advantage' | 'disadvantage';
+    };
+    const check = await dndCampaignService.skillCheck(
+      campaignRef(context),
+      String(character),
+      String(skill),
+      Number(dc) || 10,
+      advantage === 'advantage' || advantage === 'disadvantage'
+        ? advantage
+        : undefined,
+    );
+    const sign = check.modifier < 0 ? '-' : '+';
+    return {
+      attachment: {
+        id: uuidv4(),
+        type: 'dice',
+        notation: `${check.rolls.length > 1 ? '2d20' : 'd20'}${sign}${Math.abs(check.modifier)}`,
+        rolls: check.rolls,
+        total: check.total,
+        purpose: `${check.character}: ${check.skill.replace(/_/g, ' ')} check, DC ${check.dc}: ${check.success ? 'success' : 'failure'}`,
+      },
+      data: { ...check, ...(advantage && { mode: advantage }) },
+    };
+  },
+};
+
+export const updateInventoryTool: ToolDefinition = {
+  name: 'update_inventory',
+  description: "Add items to or remove items from a party member's inventory.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      character: { type: 'string', description: 'Party member name' },
+      add: { type: 'array', items: { type: 'string' } },
+      remove: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['character'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { character, add, remove } = input as {
+      character: string;
+      add?: string[];
+      remove?: string[];
+    };
+    const result = await dndCampaignService.updateInventory(
+      campaignRef(context),
+      String(character),
+      Array.isArray(add) ? add.map(String) : [],
+      Array.isArray(remove) ? remove.map(String) : [],
+    );
+    return campaignResult(result.campaign, {
+      character: result.character.name,
+      inventory: result.character.inventory,
+      ...(result.missing.length > 0 && { notCarried: result.missing }),
+    });
+  },
+};
+
+export const awardXpTool: ToolDefinition = {
+  name: 'award_xp',
+  description:
+    'Award experience points to one party member, or to everyone in the party. Characters level up automatically.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      amount: { type: 'number', description: 'XP for each character' },
+      character: {
+        type: 'string',
+        description: 'Leave out to award the whole party',
+      },
+    },
+    required: ['amount'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { amount, character } = input as {
+      amount: number;
+      character?: string;
+    };
+    const xp = Math.round(Number(amount));
+    if (!(xp > 0)) {
+      throw new Error(`Invalid XP amount: ${amount}`);
+    }
+    const { campaign, levelUps } = await dndCampaignService.awardXp(
+      campaignRef(context),
+      xp,
+      character ? String(character) : undefined,
+    );
+    return campaignResult(campaign, levelUpData(levelUps));
+  },
+};
+
+export const startEncounterTool: ToolDefinition = {
+  name: 'start_encounter',
+  description:
+    'Start a combat encounter for the party: generates enemies, rolls initiative for everyone and shows the turn order. Replaces any encounter in progress.',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const encounter = dndService.generateEncounter('combat');
+    const campaign = await dndCampaignService.startEncounter(
+      campaignRef(context),
+      encounter,
+    );
+    return campaignResult(
+      campaign,
+      { description: encounter.description, options: encounter.options },
+      initiativeCard(campaign),
+    );
+  },
+};
+
+export const nextTurnTool: ToolDefinition = {
+  name: 'next_turn',
+  description:
+    'Advance the encounter to the next combatant still standing, starting a new round after the last one.',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { campaign } = await dndCampaignService.nextTurn(
+      campaignRef(context),
+    );
+    return campaignResult(campaign, {}, initiativeCard(campaign));
+  },
+};
+
+export const endEncounterTool: ToolDefinition = {
+  name: 'end_encounter',
+  description:
+    'End the current encounter, optionally awarding XP to each party member still standing.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      xp: { type: 'number', description: 'XP for each surviving character' },
+    },
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { xp } = (input ?? {}) as { xp?: number };
+    const { campaign, levelUps } = await dndCampaignService.endEncounter(
+      campaignRef(context),
+      Math.max(0, Math.round(Number(xp) || 0)),
+    );
+    return campaignResult(campaign, levelUpData(levelUps));
+  },
+};
+
+export const campaignSummaryTool: ToolDefinition = {
+  name: 'campaign_summary',
+  description:
+    "Show the party's current state (HP, level, XP, inventory) and any encounter in progress.",
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    return campaignResult(await dndCampaignService.get(campaignRef(context)));
+  },
+};
@@ -0,0 +1,242 @@
+import { ToolContext, ToolDefinition, ToolResult } from './index';
+import {
+  GAME_DIFFICULTIES,
+  GAME_NAMES,
+  GAME_TYPES,
+  GameDifficulty,
+  GameMoveResult,
+  GameType,
+  QUESTION_REPLIES,
+  QuestionReply,
+  gameEngine,
+} from '../games/gameEngine';
+import { MediaAttachment } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+function sessionKey(context?: ToolContext): string {
+  const key = context?.conversationId ?? context?.userId;
+  if (!key) {
+    throw new Error('Games need a conversation to keep score in');
+  }
+  return key;
+}
+
+const OUTCOMES = {
+  won: { title: 'You won!', accentColor: '#16a34a' },
+  lost: { title: 'Game over', accentColor: '#dc2626' },
+  completed: { title: 'Final score', accentColor: '#7c3aed' },
+  abandoned: { title: 'Game ended', accentColor: '#6b7280' },
+};
+
+/**
+ * A `game_score` card while the game is on, a `game_result` card once it is
+ * over. 20 Questions' secret only appears on the result card.
+ */
+export function gameCard(move: GameMoveResult): MediaAttachment {
+  const { session, correct, expected } = move;
+  const name = GAME_NAMES[session.game];
+  const twentyQuestions = session.game === 'twenty_questions';
+  const progress = {
+    label: twentyQuestions ? 'Questions' : 'Round',
+    value: `${session.turns}/${session.maxTurns}`,
+  };
+
+  if (session.status === 'active') {
+    const last =
+      correct === undefined
+        ? []
+        : [
+            {
+              label: 'Last answer',
+              value: correct
+                ? '✅ Correct'
+                : `❌ ${expected ? `Answer: ${expected}` : 'Not it'}`,
+            },
+          ];
+    return {
+      id: uuidv4(),
+      type: 'card',
+      kind: 'game_score',
+      title: name,
+      fields: [
+        { label: 'Difficulty', value: session.difficulty },
+        progress,
+        { label: 'Score', value: String(session.score) },
+        ...(twentyQuestions
+          ? []
+          : [{ label: 'Streak', value: String(session.streak) }]),
+        ...last,
+      ],
+      accentColor: '#0ea5e9',
+    };
+  }
+
+  const outcome = OUTCOMES[session.status];
+  return {
+    id: uuidv4(),
+    type: 'card',
+    kind: 'game_result',
+    title: `${name}: ${outcome.title}`,
+    fields: [
+      { label: 'Final score', value: String(session.score) },
+      ...(twentyQuestions
+        ? [
+            { label: 'Answer', value: session.secret.name },
+            { label: 'Questions used', value: String(session.turns) },
+          ]
+        : [
+            {
+              label: 'Correct',
+              value: `${session.correct}/${session.turns}`,
+            },
+            { label: 'Best streak', value: String(session.bestStreak) },
+          ]),
+      { label: 'Difficulty', value: session.difficulty },
+    ],
+    accentColor: outcome.accentColor,
+  };
+}
+
+/**
+ * The card for the player and, for the model, what to say next. While 20
+ * Questions is on the model is told the secret and the questions so far so
+ * its yes/no answers stay consistent.
+ */
+function toResult(move: GameMoveResult): ToolResult {
+  const { session, correct, expected, prompt } = move;
+  return {
+    attachment: gameCard(move),
+    data: {
+      game: session.game,
+      status: session.status,
+      ...(correct !== undefined && { correct }),
+      ...(expected && { expected }),
+      ...(prompt && { prompt }),
+      score: session.score,
+      turns: session.turns,
+      maxTurns: session.maxTurns,
+      ...(session.game === 'twenty_questions' &&
+        session.status === 'active' && {
+          secret: session.secret.name,
+          questions: session.questions,
+        }),
+    },
+  };
+}
+
+export const startGameTool: ToolDefinition = {
+  name: 'start_game',
+  description:
+    'Start a scored game for this conversation, replacing any game in progress. Returns the first challenge to present.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      game: {
+        type: 'string',
+        enum: [...GAME_TYPES],
+        description: 'Which game to start',
+      },
+      difficulty: {
+        type: 'string',
+        enum: [...GAME_DIFFICULTIES],
+        description: 'Defaults to medium',
+      },
+    },
+    required: ['game'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { game, difficulty } = input as {
+      game: GameType;
+      difficulty?: GameDifficulty;
+    };
+    if (!GAME_TYPES.includes(game)) {
+      throw new Error(`Unknown game: ${game}`);
+    }
+    return toResult(
+      gameEngine.start(
+        sessionKey(context),
+        game,
+        difficulty && GAME_DIFFICULTIES.includes(difficulty)
+          ? difficulty
+          : undefined,
+      ),
+    );
+  },
+};
+
+export const submitAnswerTool: ToolDefinition = {
+  name: 'submit_answer',
+  description:
+    "Mark the player's answer to the current challenge (in 20 Questions, their guess at the secret). Returns whether it was right, the score and the next challenge.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      answer: {
+        type: 'string',
+        description: "The player's answer, exactly as they gave it",
+      },
+    },
+    required: ['answer'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { answer } = input as { answer: string };
+    return toResult(gameEngine.answer(sessionKey(context), String(answer)));
+  },
+};
+
+export const askQuestionTool: ToolDefinition = {
+  name: 'ask_question',
+  description:
+    "20 Questions only: record the player's yes/no question and your truthful answer about the secret. Uses up one of their turns.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      question: { type: 'string', description: "The player's question" },
+      reply: {
+        type: 'string',
+        enum: QUESTION_REPLIES,
+        description: 'Your answer about the secret',
+      },
+    },
+    required: ['question', 'reply'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { question, reply } = input as {
+      question: string;
+      reply: QuestionReply;
+    };
+    return toResult(
+      gameEngine.ask(
+        sessionKey(context),
+        String(question),
+        QUESTION_REPLIES.includes(reply) ? reply : 'unknown',
+      ),
+    );
+  },
+};
+
+export const gameStatusTool: ToolDefinition = {
+  name: 'game_status',
+  description:
+    'Show the score card for the game in this conversation and the current challenge.',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    return toResult(gameEngine.status(sessionKey(context)));
+  },
+};
+
+export const endGameTool: ToolDefinition = {
+  name: 'end_game',
+  description:
+    'Stop the game in progress, e.g. when the player gives up, and reveal the answer.',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    return toResult(gameEngine.end(sessionKey(context)));
+  },
+};
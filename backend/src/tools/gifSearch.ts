@@ -43,8 +43,8 @@ async function searchGiphy(query: string): Promise<ToolResult> {
   };
 }
 
-function ragFallback(query: string): ToolResult {
-  const rag = ragService.searchForAgent('gif', query, true);
+async function ragFallback(query: string): Promise<ToolResult> {
+  const rag = await ragService.searchForAgent('gif', query, true);
   return {
     attachment: {
       id: uuidv4(),
@@ -4,10 +4,22 @@ import { LLMTool } from '../llm/provider';
 export interface ToolResult {
   attachment: MediaAttachment;
   text?: string;
+  /** Extra details for the model only; never shown to the user. */
+  data?: Record<string, unknown>;
+}
+
+/** Who a tool is running for, so stateful tools can keep per-chat state. */
+export interface ToolContext {
+  conversationId?: string;
+  /** The resolveIdentity user (authenticated id or `anon_<uuid>`). */
+  userId?: string;
 }
 
 export interface ToolDefinition extends LLMTool {
-  execute(input: unknown): Promise<ToolResult | ToolResult[]>;
+  execute(
+    input: unknown,
+    context?: ToolContext,
+  ): Promise<ToolResult | ToolResult[]>;
 }
 
 class ToolRegistry {
@@ -46,4 +58,26 @@ import('./dnd').then(m => {
   toolRegistry.register(m.rollDiceTool);
   toolRegistry.register(m.generateCharacterTool);
   toolRegistry.register(m.generateEncounterTool);
+  toolRegistry.register(m.applyDamageTool);
+  toolRegistry.register(m.skillCheckTool);
+  toolRegistry.register(m.updateInventoryTool);
+  toolRegistry.register(m.awardXpTool);
+  toolRegistry.register(m.startEncounterTool);
+  toolRegistry.register(m.nextTurnTool);
+  toolRegistry.register(m.endEncounterTool);
+  toolRegistry.register(m.campaignSummaryTool);
+});
+import('./games').then(m => {
+  toolRegistry.register(m.startGameTool);
+  toolRegistry.register(m.submitAnswerTool);
+  toolRegistry.register(m.askQuestionTool);
+  toolRegistry.register(m.gameStatusTool);
+  toolRegistry.register(m.endGameTool);
+});
+import('./quiz').then(m => {
+  toolRegistry.register(m.nextQuestionTool);
+  toolRegistry.register(m.checkAnswerTool);
+  toolRegistry.register(m.quizHintTool);
+  toolRegistry.register(m.skipQuestionTool);
+  toolRegistry.register(m.quizLeaderboardTool);
 });
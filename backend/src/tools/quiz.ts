@@ -0,0 +1,211 @@
+import { ToolContext, ToolDefinition, ToolResult } from './index';
+import {
+  QUIZ_NAMES,
+  QUIZ_TYPES,
+  QuizMoveResult,
+  QuizType,
+  quizEngine,
+} from '../games/quizEngine';
+import { Leaderboard, getLeaderboard } from '../games/leaderboard';
+import { MediaAttachment } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const LEADERBOARD_CARD_SIZE = 5;
+
+function quizKeys(context?: ToolContext): { key: string; userId: string } {
+  if (!context?.userId) {
+    throw new Error('Quizzes need a user to keep score for');
+  }
+  return {
+    key: context.conversationId ?? context.userId,
+    userId: context.userId,
+  };
+}
+
+function lastAnswer(move: QuizMoveResult): string | undefined {
+  switch (move.outcome) {
+    case 'correct':
+      return `✅ +${move.pointsAwarded} points`;
+    case 'wrong':
+      return `❌ ${move.attemptsLeft} ${move.attemptsLeft === 1 ? 'try' : 'tries'} left`;
+    case 'revealed':
+    case 'skipped':
+      return `Answer: ${move.expected}`;
+    default:
+      return undefined;
+  }
+}
+
+/** A `quiz_score` card: the session's points, streak and last answer. */
+export function quizCard(move: QuizMoveResult): MediaAttachment {
+  const { session } = move;
+  const last = lastAnswer(move);
+  return {
+    id: uuidv4(),
+    type: 'card',
+    kind: 'quiz_score',
+    title: QUIZ_NAMES[session.quiz],
+    fields: [
+      {
+        label: 'Question',
+        value: String(session.answered + (session.current ? 1 : 0)),
+      },
+      { label: 'Points', value: String(session.points) },
+      { label: 'Streak', value: String(session.streak) },
+      { label: 'Correct', value: `${session.correct}/${session.answered}` },
+      ...(last ? [{ label: 'Last answer', value: last }] : []),
+      ...(move.total
+        ? [{ label: 'All-time points', value: String(move.total.points) }]
+        : []),
+    ],
+    accentColor: '#f59e0b',
+  };
+}
+
+/**
+ * The card, and for the model the question to read out and how the last
+ * answer went. The answer is only included once the question is over.
+ */
+function toResult(move: QuizMoveResult): ToolResult {
+  const { session } = move;
+  return {
+    attachment: quizCard(move),
+    data: {
+      quiz: session.quiz,
+      ...(move.question && { question: move.question }),
+      ...(move.outcome && { outcome: move.outcome }),
+      ...(move.expected && { expected: move.expected }),
+      ...(move.pointsAwarded !== undefined && {
+        pointsAwarded: move.pointsAwarded,
+      }),
+      ...(move.attemptsLeft !== undefined && {
+        attemptsLeft: move.attemptsLeft,
+      }),
+      ...(move.hint && { hint: move.hint }),
+      streak: session.streak,
+      points: session.points,
+      ...(move.total && { allTimePoints: move.total.points }),
+    },
+  };
+}
+
+/** A `leaderboard` card of the top players, plus the caller if lower. */
+export function leaderboardCard(board: Leaderboard): MediaAttachment {
+  const line = (e: Leaderboard['entries'][number]) => ({
+    label: `#${e.rank} ${e.name}${e.you ? ' (you)' : ''}`,
+    value: `${e.points} pts · ${e.correct}/${e.answered} correct`,
+  });
+  const you = board.you;
+  return {
+    id: uuidv4(),
+    type: 'card',
+    kind: 'leaderboard',
+    title: `${QUIZ_NAMES[board.quiz]} Leaderboard`,
+    fields:
+      board.entries.length === 0
+        ? [{ label: 'No scores yet', value: 'Be the first!' }]
+        : [
+            ...board.entries.map(line),
+            ...(you && !board.entries.some(e => e.you) ? [line(you)] : []),
+          ],
+    accentColor: '#f59e0b',
+  };
+}
+
+const quizInput = {
+  type: 'string',
+  enum: [...QUIZ_TYPES],
+  description: 'riddle for riddles, trivia for trivia questions',
+};
+
+export const nextQuestionTool: ToolDefinition = {
+  name: 'next_question',
+  description:
+    'Ask the player a new scored quiz question. Returns the question to read out; a question left unanswered is skipped and its answer returned.',
+  input_schema: {
+    type: 'object',
+    properties: { quiz: quizInput },
+    required: ['quiz'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { quiz } = input as { quiz: QuizType };
+    if (!QUIZ_TYPES.includes(quiz)) {
+      throw new Error(`Unknown quiz: ${quiz}`);
+    }
+    const { key, userId } = quizKeys(context);
+    return toResult(await quizEngine.next(key, userId, quiz));
+  },
+};
+
+export const checkAnswerTool: ToolDefinition = {
+  name: 'check_answer',
+  description:
+    "Mark the player's answer to the current quiz question. Says whether it was right, how many tries are left and, once the question is over, the answer.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      answer: {
+        type: 'string',
+        description: "The player's answer, exactly as they gave it",
+      },
+    },
+    required: ['answer'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { answer } = input as { answer: string };
+    return toResult(
+      await quizEngine.answer(quizKeys(context).key, String(answer)),
+    );
+  },
+};
+
+export const quizHintTool: ToolDefinition = {
+  name: 'quiz_hint',
+  description:
+    'Get a hint for the current quiz question (up to two; each costs points).',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    return toResult(quizEngine.hint(quizKeys(context).key));
+  },
+};
+
+export const skipQuestionTool: ToolDefinition = {
+  name: 'skip_question',
+  description:
+    'Give up on the current quiz question and reveal its answer. Ends the streak.',
+  input_schema: {
+    type: 'object',
+    properties: {},
+  },
+  async execute(_input: unknown, context?: ToolContext): Promise<ToolResult> {
+    return toResult(await quizEngine.skip(quizKeys(context).key));
+  },
+};
+
+export const quizLeaderboardTool: ToolDefinition = {
+  name: 'quiz_leaderboard',
+  description: "Show the quiz leaderboard and the player's rank.",
+  input_schema: {
+    type: 'object',
+    properties: { quiz: quizInput },
+    required: ['quiz'],
+  },
+  async execute(input: unknown, context?: ToolContext): Promise<ToolResult> {
+    const { quiz } = input as { quiz: QuizType };
+    if (!QUIZ_TYPES.includes(quiz)) {
+      throw new Error(`Unknown quiz: ${quiz}`);
+    }
+    const board = await getLeaderboard(
+      quiz,
+      quizKeys(context).userId,
+      LEADERBOARD_CARD_SIZE,
+    );
+    return {
+      attachment: leaderboardCard(board),
+      data: { rank: board.you?.rank ?? null, players: board.entries.length },
+    };
+  },
+};
@@ -218,8 +218,8 @@ export function __resetCuratedYouTubePoolForTests(): void {
   curatedPoolInflight = null;
 }
 
-function ragFallback(query: string): ToolResult {
-  const rag = ragService.searchForAgent('youtube_guru', query, true);
+async function ragFallback(query: string): Promise<ToolResult> {
+  const rag = await ragService.searchForAgent('youtube_guru', query, true);
   const videoId = (rag?.metadata?.videoId as string) ?? 'dQw4w9WgXcQ';
   return {
     attachment: {
@@ -257,7 +257,7 @@ export const youtubeSearchTool: ToolDefinition = {
         { err },
         '[youtube_search] API unavailable, using RAG fallback',
       );
-      return [ragFallback(query)];
+      return [await ragFallback(query)];
     }
   },
 };
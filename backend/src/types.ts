@@ -1,4 +1,4 @@
-import { AgentType } from './agents/types';
+import { AgentId } from './agents/types';
 
 export type MediaAttachment =
   | {
@@ -63,20 +63,83 @@ export interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   conversationId: string;
-  agentUsed?: AgentType;
+  agentUsed?: AgentId;
   confidence?: number;
   isProactive?: boolean;
   attachments?: MediaAttachment[];
+  /** `cancelled` when the client stopped the stream part-way. */
+  status?: 'complete' | 'cancelled';
+  /** Curated RAG content the reply used (see AgentResponse). */
+  ragContentIds?: string[];
+}
+
+/**
+ * Rolling summary of the turns that no longer fit in the model's context
+ * window. Covers every message up to and including `throughMessageId`.
+ */
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string;
+  updatedAt: Date;
 }
 
 export interface Conversation {
   id: string;
+  /** Who may see it: an authenticated user id or an `anon_<uuid>` id. */
+  ownerId: string;
   title: string;
   messages: Message[];
+  summary?: ConversationSummary;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type UserMemoryKind = 'fact' | 'preference' | 'thread';
+
+/**
+ * Something worth remembering about a user across conversations: a fact
+ * ("name is Sam"), a preference ("favorite genre: jazz") or an ongoing
+ * thread ("open billing issue: double charge"). `key` identifies the slot
+ * so a newer statement replaces an older one instead of piling up.
+ */
+export interface UserMemory {
+  id: string;
+  /** The resolveIdentity user id (authenticated id or `anon_<uuid>`). */
+  userId: string;
+  kind: UserMemoryKind;
+  key: string;
+  content: string;
+  /** Only injected for this agent; unset means every agent sees it. */
+  agentType?: AgentId;
+  sourceConversationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** The tokens one model call used, recorded for quotas and `/api/usage`. */
+export interface UsageRecord {
+  /** The resolveIdentity user id (authenticated id or `anon_<uuid>`). */
+  userId: string;
+  conversationId?: string;
+  agentType: AgentId;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  /** From the price table; 0 for a model it doesn't list. */
+  costUsd: number;
+  createdAt: Date;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -88,13 +151,13 @@ export interface ChatRequest {
   message: string;
   conversationId?: string;
   stream?: boolean;
-  forceAgent?: AgentType;
+  forceAgent?: AgentId;
 }
 
 export interface ChatResponse {
   message: Message;
   conversation: Conversation;
-  agentUsed: AgentType;
+  agentUsed: AgentId;
   confidence: number;
 }
 
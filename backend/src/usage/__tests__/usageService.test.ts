@@ -0,0 +1,117 @@
+import { UsageContext, UsageService } from '../usageService';
+import { MemoryUsageStore } from '../../storage/memoryUsageStore';
+import { UsageStore } from '../../storage/usageStore';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('UsageService', () => {
+  const since = new Date(0);
+  let store: MemoryUsageStore;
+  let service: UsageService;
+
+  beforeEach(() => {
+    store = new MemoryUsageStore(24 * 60 * 60 * 1000);
+    service = new UsageService(store);
+  });
+
+  it('records a call priced from the table', async () => {
+    await service.record(
+      { userId: 'user-1', conversationId: 'conv-1', agentType: 'joke' },
+      'openai',
+      'gpt-4o-mini',
+      { input: 1_000_000, output: 1_000_000 },
+    );
+
+    expect(await store.list({ userId: 'user-1', since })).toEqual([
+      {
+        userId: 'user-1',
+        conversationId: 'conv-1',
+        agentType: 'joke',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        cacheReadTokens: 0,
+        costUsd: expect.closeTo(0.75, 10),
+        createdAt: expect.any(Date),
+      },
+    ]);
+  });
+
+  it('does not throw when the store fails', async () => {
+    const failing: UsageStore = {
+      record: jest.fn().mockRejectedValue(new Error('disk full')),
+      list: jest.fn(),
+      totals: jest.fn(),
+    };
+
+    await expect(
+      new UsageService(failing).record(
+        { userId: 'user-1', agentType: 'joke' },
+        'openai',
+        'gpt-4o-mini',
+        { input: 10, output: 10 },
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it('breaks a report down by model, agent and conversation, biggest first', async () => {
+    const joke: UsageContext = {
+      userId: 'user-1',
+      conversationId: 'c1',
+      agentType: 'joke',
+    };
+    await service.record(joke, 'openai', 'gpt-4o-mini', {
+      input: 100,
+      output: 10,
+    });
+    await service.record(
+      { userId: 'user-1', agentType: 'dnd_master' },
+      'anthropic',
+      'claude-sonnet-4-6',
+      { input: 1000, output: 100 },
+    );
+    await service.record(joke, 'openai', 'gpt-4o-mini', {
+      input: 100,
+      output: 10,
+    });
+
+    const report = await service.report(since, 'user-1');
+
+    expect(report.userId).toBe('user-1');
+    expect(report.totals).toEqual(
+      expect.objectContaining({ requests: 3, inputTokens: 1200 }),
+    );
+    expect(report.byModel.map(m => [m.model, m.requests])).toEqual([
+      ['claude-sonnet-4-6', 1],
+      ['gpt-4o-mini', 2],
+    ]);
+    expect(report.byAgent.map(a => a.agentType)).toEqual([
+      'dnd_master',
+      'joke',
+    ]);
+    expect(report.byConversation).toEqual([
+      expect.objectContaining({ conversationId: 'c1', requests: 2 }),
+    ]);
+    expect(report.byUser).toBeUndefined();
+  });
+
+  it("breaks everyone's report down by user", async () => {
+    for (const userId of ['user-1', 'user-2', 'user-2']) {
+      await service.record({ userId, agentType: 'joke' }, 'openai', 'gpt-4o', {
+        input: 100,
+        output: 10,
+      });
+    }
+
+    const report = await service.report(since);
+
+    expect(report.userId).toBeUndefined();
+    expect(report.byUser?.map(u => [u.userId, u.requests])).toEqual([
+      ['user-2', 2],
+      ['user-1', 1],
+    ]);
+  });
+});
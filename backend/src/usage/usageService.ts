@@ -0,0 +1,126 @@
+import { AgentId } from '../agents/types';
+import { costOf, TokenUsage } from '../llm/pricing';
+import { logger } from '../logger';
+import { metricsEmit } from '../metrics/prometheus';
+import { UsageStore, usageStore } from '../storage/usageStore';
+import { sumUsage } from '../storage/usageJson';
+import { UsageRecord, UsageTotals } from '../types';
+
+/** Who and what a model call was for. */
+export interface UsageContext {
+  /** The resolveIdentity user id the budgets are keyed on. */
+  userId: string;
+  conversationId?: string;
+  agentType: AgentId;
+}
+
+export type UsageByModel = UsageTotals & { provider: string; model: string };
+export type UsageByAgent = UsageTotals & { agentType: AgentId };
+export type UsageByConversation = UsageTotals & { conversationId: string };
+export type UsageByUser = UsageTotals & { userId: string };
+
+/** What `GET /api/usage` reports, largest spend first in every list. */
+export interface UsageReport {
+  /** Unset when the report covers every user. */
+  userId?: string;
+  since: Date;
+  totals: UsageTotals;
+  byModel: UsageByModel[];
+  byAgent: UsageByAgent[];
+  byConversation: UsageByConversation[];
+  /** Only in the every-user report. */
+  byUser?: UsageByUser[];
+}
+
+const bySpend = (a: UsageTotals, b: UsageTotals): number =>
+  b.costUsd - a.costUsd ||
+  b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+
+/** Group records by `keyOf`, summing each group. */
+function breakdown<T extends object>(
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => T | undefined,
+): Array<UsageTotals & T> {
+  const groups = new Map<string, { key: T; records: UsageRecord[] }>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (!key) {
+      continue;
+    }
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { key, records: [] };
+    group.records.push(record);
+    groups.set(id, group);
+  }
+  return [...groups.values()]
+    .map(({ key, records: grouped }) => ({ ...key, ...sumUsage(grouped) }))
+    .sort(bySpend);
+}
+
+/**
+ * Records what every model call used, priced with the table in
+ * `llm/pricing.ts`, for the usage budgets and `GET /api/usage`.
+ */
+export class UsageService {
+  constructor(private readonly store: UsageStore = usageStore) {}
+
+  /**
+   * Store one call's usage and count it in the token and cost metrics.
+   * Never throws: losing a record must not fail the reply it belongs to.
+   */
+  async record(
+    context: UsageContext,
+    provider: string,
+    model: string,
+    usage: TokenUsage,
+  ): Promise<void> {
+    const costUsd = costOf(provider, model, usage);
+    metricsEmit.llm.tokens(provider, model, 'input', usage.input);
+    metricsEmit.llm.tokens(provider, model, 'output', usage.output);
+    metricsEmit.llm.cost(provider, model, costUsd);
+    try {
+      await this.store.record({
+        userId: context.userId,
+        ...(context.conversationId && {
+          conversationId: context.conversationId,
+        }),
+        agentType: context.agentType,
+        provider,
+        model,
+        inputTokens: usage.input,
+        outputTokens: usage.output,
+        cacheReadTokens: usage.cacheRead ?? 0,
+        costUsd,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      logger.error(
+        { error, userId: context.userId, provider, model },
+        'Failed to record LLM usage',
+      );
+    }
+  }
+
+  /** One user's usage since `since`, or every user's without `userId`. */
+  async report(since: Date, userId?: string): Promise<UsageReport> {
+    const records = await this.store.list({ userId, since });
+    return {
+      ...(userId !== undefined && { userId }),
+      since,
+      totals: sumUsage(records),
+      byModel: breakdown(records, r => ({
+        provider: r.provider,
+        model: r.model,
+      })),
+      byAgent: breakdown(records, r => ({ agentType: r.agentType })),
+      byConversation: breakdown(records, r =>
+        r.conversationId ? { conversationId: r.conversationId } : undefined,
+      ),
+      ...(userId === undefined && {
+        byUser: breakdown(records, r => ({ userId: r.userId })),
+      }),
+    };
+  }
+}
+
+export const usageService = new UsageService();
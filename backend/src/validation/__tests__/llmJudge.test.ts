@@ -0,0 +1,269 @@
+import {
+  createLLMJudge,
+  LLMJudge,
+  parseJudgeReply,
+  summarizeJudgeAgreement,
+} from '../llmJudge';
+import { ValidationLog } from '../responseValidator';
+import { LLMStreamOptions, LLMProvider } from '../../llm/provider';
+
+jest.mock('../../llm', () => ({
+  providerRegistry: {
+    resolve: jest.fn(() => ({
+      provider: { id: 'anthropic', stream: jest.fn() },
+    })),
+  },
+}));
+
+// Fake provider: records each request and streams back a canned reply in
+// two chunks.
+const fakeProvider = (reply: string) => {
+  const requests: LLMStreamOptions[] = [];
+  const provider: LLMProvider = {
+    id: 'openai',
+    async *stream(opts) {
+      requests.push(opts);
+      yield { type: 'text_delta', text: reply.slice(0, 10) };
+      yield { type: 'text_delta', text: reply.slice(10) };
+      yield { type: 'done' };
+    },
+  };
+  return { provider, requests };
+};
+
+const GOOD_REPLY = JSON.stringify({
+  scores: {
+    coherence: 0.9,
+    appropriateness: 1,
+    technicalAccuracy: 0.8,
+    helpfulness: 0.7,
+  },
+  issues: [],
+});
+
+describe('LLMJudge', () => {
+  it('should grade against the agent rubric and return a verdict', async () => {
+    const { provider, requests } = fakeProvider(GOOD_REPLY);
+    const judge = new LLMJudge(provider, 'judge-model');
+
+    const verdict = await judge.judge(
+      'trivia',
+      'Tell me a fact',
+      'Octopuses have three hearts.',
+    );
+
+    expect(verdict).toEqual({
+      provider: 'openai',
+      model: 'judge-model',
+      scores: {
+        coherence: 0.9,
+        appropriateness: 1,
+        technicalAccuracy: 0.8,
+        helpfulness: 0.7,
+      },
+      overall: expect.closeTo(0.85),
+      passed: true,
+      issues: [],
+    });
+    expect(requests[0]).toMatchObject({ model: 'judge-model', temperature: 0 });
+    const prompt = requests[0].messages[0].content;
+    expect(prompt).toContain('Agent: trivia');
+    expect(prompt).toContain('rather than common knowledge');
+    expect(prompt).toContain('Octopuses have three hearts.');
+  });
+
+  it('should fail the reply on a high severity issue', async () => {
+    const { provider } = fakeProvider(
+      JSON.stringify({
+        scores: {
+          coherence: 1,
+          appropriateness: 0.9,
+          technicalAccuracy: 1,
+          helpfulness: 1,
+        },
+        issues: [
+          {
+            type: 'technical',
+            severity: 'high',
+            message: 'Invents a refund policy',
+            suggestion: 'Point to the billing team',
+          },
+        ],
+      }),
+    );
+
+    const verdict = await new LLMJudge(provider, 'm').judge(
+      'billing_support',
+      'Can I get a refund?',
+      'Yes, refunds are always instant.',
+    );
+
+    expect(verdict.passed).toBe(false);
+    expect(verdict.issues).toEqual([
+      {
+        type: 'technical',
+        severity: 'high',
+        message: 'Invents a refund policy',
+        suggestion: 'Point to the billing team',
+        source: 'judge',
+      },
+    ]);
+  });
+
+  it('should surface provider stream errors', async () => {
+    const provider: LLMProvider = {
+      id: 'openai',
+      async *stream() {
+        yield { type: 'error', error: 'overloaded' };
+      },
+    };
+
+    await expect(
+      new LLMJudge(provider, 'm').judge('joke', 'hi', 'hello'),
+    ).rejects.toThrow('overloaded');
+  });
+
+  it('should sample replies at the configured rate', () => {
+    const rolls = [0.05, 0.5, 0.24];
+    const judge = new LLMJudge(
+      fakeProvider(GOOD_REPLY).provider,
+      'm',
+      0.25,
+      () => rolls.shift()!,
+    );
+
+    expect([
+      judge.shouldSample(),
+      judge.shouldSample(),
+      judge.shouldSample(),
+    ]).toEqual([true, false, true]);
+  });
+});
+
+describe('parseJudgeReply', () => {
+  it('should read JSON wrapped in prose and clamp scores', () => {
+    const verdict = parseJudgeReply(
+      `Here is my review:\n\`\`\`json\n${JSON.stringify({
+        scores: {
+          coherence: 1.4,
+          appropriateness: -1,
+          technicalAccuracy: 0.5,
+          helpfulness: 0.5,
+        },
+        issues: [
+          { type: 'coherence', severity: 'low', message: 'Rambles' },
+          { type: 'vibes', severity: 'low', message: 'Unknown type' },
+          { severity: 'high' },
+        ],
+      })}\n\`\`\``,
+      'openai',
+      'm',
+    );
+
+    expect(verdict.scores).toEqual({
+      coherence: 1,
+      appropriateness: 0,
+      technicalAccuracy: 0.5,
+      helpfulness: 0.5,
+    });
+    expect(verdict.issues).toEqual([
+      {
+        type: 'coherence',
+        severity: 'low',
+        message: 'Rambles',
+        source: 'judge',
+      },
+    ]);
+  });
+
+  it('should reject replies without scores', () => {
+    expect(() => parseJudgeReply('Looks fine to me!', 'openai', 'm')).toThrow(
+      'no JSON object',
+    );
+    expect(() =>
+      parseJudgeReply('{"scores": {"coherence": 1}}', 'openai', 'm'),
+    ).toThrow('no appropriateness score');
+  });
+});
+
+describe('createLLMJudge', () => {
+  it('should be off unless a judge provider is configured', () => {
+    expect(createLLMJudge({})).toBeNull();
+    expect(createLLMJudge({ VALIDATION_JUDGE_PROVIDER: 'mystery' })).toBeNull();
+  });
+
+  it('should read the model and sample rate', () => {
+    const judge = createLLMJudge({
+      VALIDATION_JUDGE_PROVIDER: 'anthropic',
+      VALIDATION_JUDGE_MODEL: 'claude-sonnet-4-6',
+      VALIDATION_JUDGE_SAMPLE_RATE: '0.5',
+    });
+
+    expect(judge?.sampleRate).toBe(0.5);
+    expect(
+      createLLMJudge({
+        VALIDATION_JUDGE_PROVIDER: 'anthropic',
+        VALIDATION_JUDGE_SAMPLE_RATE: '7',
+      })?.sampleRate,
+    ).toBe(0.1);
+  });
+});
+
+describe('summarizeJudgeAgreement', () => {
+  const log = (heuristicValid: boolean, judgePassed: boolean): ValidationLog =>
+    ({
+      agentType: 'joke',
+      validationResult: {
+        isValid: heuristicValid && judgePassed,
+        score: 0.7,
+        issues: [],
+        metrics: {
+          coherenceScore: 0.5,
+          appropriatenessScore: 1,
+          technicalAccuracy: 1,
+        },
+        heuristic: {
+          score: heuristicValid ? 0.8 : 0.4,
+          isValid: heuristicValid,
+        },
+        judge: {
+          scores: { coherence: 1, appropriateness: 1, technicalAccuracy: 0.5 },
+          overall: judgePassed ? 0.8 : 0.4,
+          passed: judgePassed,
+        },
+      },
+    }) as unknown as ValidationLog;
+
+  it('should count agreement over judged logs only', () => {
+    const unjudged = {
+      validationResult: { isValid: true, score: 1, issues: [] },
+    } as unknown as ValidationLog;
+
+    expect(
+      summarizeJudgeAgreement([
+        log(true, true),
+        log(false, false),
+        log(true, false),
+        log(false, true),
+        unjudged,
+      ]),
+    ).toEqual({
+      judged: 4,
+      verdictAgreement: 0.5,
+      bothPassed: 1,
+      bothFailed: 1,
+      judgeOnlyFailed: 1,
+      heuristicOnlyFailed: 1,
+      meanScoreGap: expect.closeTo(0.2),
+      dimensionGaps: {
+        coherence: 0.5,
+        appropriateness: 0,
+        technicalAccuracy: 0.5,
+      },
+    });
+  });
+
+  it('should return null when nothing was judged', () => {
+    expect(summarizeJudgeAgreement([])).toBeNull();
+  });
+});
@@ -3,7 +3,7 @@ import {
   ValidationResult,
   ValidationIssue,
 } from '../responseValidator';
-import { AgentType } from '../../agents/types';
+import { AgentId } from '../../agents/types';
 import * as tracer from '../../tracing/tracer';
 import { tracingContextManager } from '../../tracing/contextManager';
 
@@ -46,7 +46,7 @@ describe('ResponseValidator', () => {
 
   describe('validateResponse', () => {
     const defaultParams = {
-      agentType: 'general' as AgentType,
+      agentType: 'general' as AgentId,
       userMessage: 'Hello, how are you?',
       conversationId: 'test-conv-id',
       userId: 'test-user-id',
@@ -466,6 +466,144 @@ describe('ResponseValidator', () => {
       // Restore original max log size
       (validator as any).maxLogSize = originalMaxLogSize;
     });
+    it('should record policy attempts and the final decision', () => {
+      const initial = {
+        runId: 'run-1',
+        attempt: 0,
+        action: 'initial' as const,
+      };
+      const retry = {
+        runId: 'run-1',
+        attempt: 1,
+        action: 'regenerate' as const,
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      };
+      validator.validateResponse(
+        'general',
+        'Test message',
+        'Shut up.',
+        'test-conv',
+        'test-user',
+        false,
+        initial,
+      );
+      validator.validateResponse(
+        'general',
+        'Test message',
+        'Happy to help with that.',
+        'test-conv',
+        'test-user',
+        false,
+        retry,
+      );
+      validator.recordDecision('run-1', 'accepted');
+      validator.recordDecision('unknown-run', 'canned');
+
+      const logs = validator.getValidationLogs();
+      expect(logs.map(log => log.attempt)).toEqual([initial, retry]);
+      expect(logs[0].decision).toBeUndefined();
+      expect(logs[1].decision).toBe('accepted');
+    });
+  });
+
+  describe('Judge Evaluation', () => {
+    const verdict = (overrides = {}) => ({
+      provider: 'openai',
+      model: 'judge-model',
+      scores: {
+        coherence: 0.4,
+        appropriateness: 0.6,
+        technicalAccuracy: 0.6,
+        helpfulness: 0.4,
+      },
+      overall: 0.5,
+      passed: false,
+      issues: [
+        {
+          type: 'content' as const,
+          severity: 'high' as const,
+          message: 'Does not answer the question',
+          suggestion: 'Answer what was asked',
+          source: 'judge' as const,
+        },
+      ],
+      ...overrides,
+    });
+
+    const fakeJudge = (sampled: boolean, judge: jest.Mock) =>
+      ({ shouldSample: () => sampled, judge }) as any;
+
+    const goodResponse =
+      'Hello! I am doing well, thank you for asking. How can I help you today?';
+
+    it('should merge the judge verdict into the result and its log', async () => {
+      const judge = jest.fn().mockResolvedValue(verdict());
+      validator = new ResponseValidator(fakeJudge(true, judge));
+
+      const heuristic = new ResponseValidator().validateResponse(
+        'general',
+        'How are you?',
+        goodResponse,
+        'conv',
+        'user',
+      );
+      const result = await validator.evaluateResponse(
+        'general',
+        'How are you?',
+        goodResponse,
+        'conv',
+        'user',
+      );
+
+      expect(judge).toHaveBeenCalledWith(
+        'general',
+        'How are you?',
+        goodResponse,
+      );
+      expect(result.heuristic).toEqual({
+        score: heuristic.score,
+        isValid: true,
+      });
+      expect(result.score).toBeCloseTo((heuristic.score + 0.5) / 2);
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toContainEqual(verdict().issues[0]);
+      expect(result.judge).toEqual(verdict());
+      expect(validator.getValidationLogs()[0].validationResult).toBe(result);
+    });
+
+    it('should skip the judge for unsampled responses', async () => {
+      const judge = jest.fn();
+      validator = new ResponseValidator(fakeJudge(false, judge));
+
+      const result = await validator.evaluateResponse(
+        'general',
+        'How are you?',
+        goodResponse,
+        'conv',
+        'user',
+      );
+
+      expect(judge).not.toHaveBeenCalled();
+      expect(result.judge).toBeUndefined();
+    });
+
+    it('should keep the heuristic result when the judge fails', async () => {
+      const judge = jest.fn().mockRejectedValue(new Error('timeout'));
+      validator = new ResponseValidator(fakeJudge(true, judge));
+
+      const result = await validator.evaluateResponse(
+        'general',
+        'How are you?',
+        goodResponse,
+        'conv',
+        'user',
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.judge).toBeUndefined();
+      expect(validator.getValidationLogs()).toHaveLength(1);
+    });
   });
 
   describe('Validation Statistics', () => {
@@ -0,0 +1,322 @@
+import { providerRegistry } from '../llm';
+import { LLMProvider } from '../llm/provider';
+import {
+  AgentId,
+  BuiltInAgentType,
+  LLM_PROVIDER_IDS,
+  LLMProviderId,
+} from '../agents/types';
+import { ValidationIssue, ValidationLog } from './responseValidator';
+
+/**
+ * LLM-as-judge grading for ResponseValidator. A configured provider grades
+ * a sample of replies against an agent-specific rubric; its scores and
+ * issues are merged into the heuristic ValidationResult.
+ *
+ *   VALIDATION_JUDGE_PROVIDER     openai | anthropic | foundry | local (unset = off)
+ *   VALIDATION_JUDGE_MODEL        defaults to the provider's fallback model
+ *   VALIDATION_JUDGE_SAMPLE_RATE  share of replies judged, 0-1 (default 0.1)
+ */
+
+export const DEFAULT_JUDGE_SAMPLE_RATE = 0.1;
+const DEFAULT_JUDGE_MODEL = 'gpt-4o-mini';
+const JUDGE_MAX_TOKENS = 600;
+
+/** Same bar the heuristics use for `isValid`. */
+export const JUDGE_PASS_SCORE = 0.7;
+
+export interface JudgeScores {
+  coherence: number;
+  appropriateness: number;
+  technicalAccuracy: number;
+  helpfulness: number;
+}
+
+export interface JudgeVerdict {
+  provider: string;
+  model: string;
+  /** Each 0-1. */
+  scores: JudgeScores;
+  /** Mean of `scores`. */
+  overall: number;
+  passed: boolean;
+  issues: ValidationIssue[];
+}
+
+const SCORE_KEYS: (keyof JudgeScores)[] = [
+  'coherence',
+  'appropriateness',
+  'technicalAccuracy',
+  'helpfulness',
+];
+
+const SUPPORT_RUBRIC = `- Addresses the user's actual problem with concrete, correct next steps
+- Never invents account details, prices, policies or outcomes it cannot know
+- Stays professional and calm, even with a frustrated user
+- Escalates to a human or another specialist when it cannot help`;
+
+const ENTERTAINMENT_RUBRIC = `- Delivers what was asked for straight away instead of asking what the user wants
+- Is genuinely entertaining and stays in character
+- Anything presented as fact is true
+- Is suitable for a general audience`;
+
+const JUDGE_RUBRICS: Record<BuiltInAgentType, string> = {
+  general: `- Understands what the user wants and points them to the right specialist
+- Answers simple questions directly and briefly
+- Stays friendly and professional`,
+  joke: `${ENTERTAINMENT_RUBRIC}
+- The joke has a clear setup and punchline and is not mean-spirited`,
+  trivia: `${ENTERTAINMENT_RUBRIC}
+- The fact is accurate, specific and surprising rather than common knowledge`,
+  gif: `${ENTERTAINMENT_RUBRIC}
+- Describes or links a GIF that fits the mood of the request`,
+  account_support: SUPPORT_RUBRIC,
+  billing_support: SUPPORT_RUBRIC,
+  website_support: `${SUPPORT_RUBRIC}
+- Technical advice is accurate and safe to follow`,
+  operator_support: SUPPORT_RUBRIC,
+  hold_agent: `- Keeps the user informed and reassured while they wait
+- Does not promise wait times or outcomes it cannot know`,
+  story_teller: `${ENTERTAINMENT_RUBRIC}
+- The story has a beginning, middle and end and follows the user's prompt`,
+  riddle_master: `${ENTERTAINMENT_RUBRIC}
+- Riddles are solvable and answers are only revealed when asked`,
+  quote_master: `${ENTERTAINMENT_RUBRIC}
+- Quotes are attributed to the person who actually said them`,
+  game_host: `${ENTERTAINMENT_RUBRIC}
+- Game rules are clear and the game state is tracked consistently`,
+  music_guru: `${ENTERTAINMENT_RUBRIC}
+- Recommended songs and artists exist and fit the user's taste`,
+  youtube_guru: `${ENTERTAINMENT_RUBRIC}
+- Recommended videos fit the request and are not made up`,
+  dnd_master: `${ENTERTAINMENT_RUBRIC}
+- Follows D&D rules, keeps characters and the story consistent and ends on a prompt for the player`,
+};
+
+const JUDGE_SYSTEM_PROMPT = `You review replies written by a chat assistant. Grade the reply against the rubric and answer with JSON only, in this shape:
+{"scores": {"coherence": 0-1, "appropriateness": 0-1, "technicalAccuracy": 0-1, "helpfulness": 0-1}, "issues": [{"type": "content" | "technical" | "appropriateness" | "length" | "coherence", "severity": "low" | "medium" | "high", "message": "what is wrong", "suggestion": "how to fix it"}]}
+Use "high" severity only for replies that should not be sent. Leave "issues" empty when the reply is fine.`;
+
+export class LLMJudge {
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly model: string,
+    readonly sampleRate = DEFAULT_JUDGE_SAMPLE_RATE,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /** Whether to spend a judge call on the next reply. */
+  shouldSample(): boolean {
+    return this.random() < this.sampleRate;
+  }
+
+  async judge(
+    agentType: AgentId,
+    userMessage: string,
+    aiResponse: string,
+  ): Promise<JudgeVerdict> {
+    const prompt = `Agent: ${agentType}
+
+Rubric:
+${JUDGE_RUBRICS[agentType as BuiltInAgentType] ?? JUDGE_RUBRICS.general}
+
+User message:
+${userMessage}
+
+Reply:
+${aiResponse}`;
+
+    let text = '';
+    for await (const evt of this.provider.stream({
+      model: this.model,
+      system: JUDGE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+      maxTokens: JUDGE_MAX_TOKENS,
+    })) {
+      if (evt.type === 'text_delta') {
+        text += evt.text;
+      } else if (evt.type === 'error') {
+        throw new Error(evt.error);
+      }
+    }
+    return parseJudgeReply(text, this.provider.id, this.model);
+  }
+}
+
+const ISSUE_TYPES = new Set<ValidationIssue['type']>([
+  'content',
+  'technical',
+  'appropriateness',
+  'length',
+  'coherence',
+]);
+const SEVERITIES = new Set<ValidationIssue['severity']>([
+  'low',
+  'medium',
+  'high',
+]);
+
+/**
+ * Read the judge's JSON, tolerating prose or code fences around it. Scores
+ * are clamped to 0-1 and malformed issues dropped; a reply without scores
+ * is an error.
+ */
+export function parseJudgeReply(
+  text: string,
+  provider: string,
+  model: string,
+): JudgeVerdict {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Judge reply had no JSON object');
+  }
+  const parsed = JSON.parse(text.slice(start, end + 1)) as {
+    scores?: Record<string, unknown>;
+    issues?: unknown;
+  };
+
+  const scores = {} as JudgeScores;
+  for (const key of SCORE_KEYS) {
+    const value = parsed.scores?.[key];
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      throw new Error(`Judge reply had no ${key} score`);
+    }
+    scores[key] = Math.max(0, Math.min(1, value));
+  }
+  const overall =
+    SCORE_KEYS.reduce((sum, key) => sum + scores[key], 0) / SCORE_KEYS.length;
+
+  const issues: ValidationIssue[] = (
+    Array.isArray(parsed.issues) ? parsed.issues : []
+  )
+    .filter(
+      (issue): issue is ValidationIssue =>
+        ISSUE_TYPES.has(issue?.type) &&
+        SEVERITIES.has(issue?.severity) &&
+        typeof issue?.message === 'string',
+    )
+    .map(({ type, severity, message, suggestion }) => ({
+      type,
+      severity,
+      message,
+      ...(typeof suggestion === 'string' && { suggestion }),
+      source: 'judge' as const,
+    }));
+
+  return {
+    provider,
+    model,
+    scores,
+    overall,
+    passed:
+      overall >= JUDGE_PASS_SCORE && !issues.some(i => i.severity === 'high'),
+    issues,
+  };
+}
+
+export function createLLMJudge(env = process.env): LLMJudge | null {
+  const providerId = env.VALIDATION_JUDGE_PROVIDER as LLMProviderId | undefined;
+  if (!providerId) {
+    return null;
+  }
+  if (!LLM_PROVIDER_IDS.includes(providerId)) {
+    console.warn(`⚠️ Unknown VALIDATION_JUDGE_PROVIDER: ${providerId}`);
+    return null;
+  }
+  const rate = Number(env.VALIDATION_JUDGE_SAMPLE_RATE);
+  const sampleRate =
+    env.VALIDATION_JUDGE_SAMPLE_RATE && rate >= 0 && rate <= 1
+      ? rate
+      : DEFAULT_JUDGE_SAMPLE_RATE;
+  const { provider, model } = providerRegistry.resolve(providerId);
+  return new LLMJudge(
+    provider,
+    env.VALIDATION_JUDGE_MODEL || model || DEFAULT_JUDGE_MODEL,
+    sampleRate,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Agreement between judge and heuristics
+// ---------------------------------------------------------------------------
+
+export interface JudgeAgreement {
+  judged: number;
+  /** Share of judged replies where both passed or both failed them. */
+  verdictAgreement: number;
+  bothPassed: number;
+  bothFailed: number;
+  judgeOnlyFailed: number;
+  heuristicOnlyFailed: number;
+  /** Mean absolute gap between the heuristic and judge overall scores. */
+  meanScoreGap: number;
+  /** Mean absolute gap for each dimension both of them score. */
+  dimensionGaps: {
+    coherence: number;
+    appropriateness: number;
+    technicalAccuracy: number;
+  };
+}
+
+/** Agreement over the judged logs, or null when none were judged. */
+export function summarizeJudgeAgreement(
+  logs: ValidationLog[],
+): JudgeAgreement | null {
+  const judged = logs.filter(
+    log => log.validationResult.judge && log.validationResult.heuristic,
+  );
+  if (judged.length === 0) {
+    return null;
+  }
+
+  const counts = {
+    bothPassed: 0,
+    bothFailed: 0,
+    judgeOnlyFailed: 0,
+    heuristicOnlyFailed: 0,
+  };
+  const gaps = {
+    score: 0,
+    coherence: 0,
+    appropriateness: 0,
+    technicalAccuracy: 0,
+  };
+  for (const { validationResult: result } of judged) {
+    const judge = result.judge!;
+    const heuristic = result.heuristic!;
+    if (judge.passed && heuristic.isValid) {
+      counts.bothPassed++;
+    } else if (!judge.passed && !heuristic.isValid) {
+      counts.bothFailed++;
+    } else if (!judge.passed) {
+      counts.judgeOnlyFailed++;
+    } else {
+      counts.heuristicOnlyFailed++;
+    }
+    gaps.score += Math.abs(heuristic.score - judge.overall);
+    gaps.coherence += Math.abs(
+      result.metrics.coherenceScore - judge.scores.coherence,
+    );
+    gaps.appropriateness += Math.abs(
+      result.metrics.appropriatenessScore - judge.scores.appropriateness,
+    );
+    gaps.technicalAccuracy += Math.abs(
+      result.metrics.technicalAccuracy - judge.scores.technicalAccuracy,
+    );
+  }
+
+  const n = judged.length;
+  return {
+    judged: n,
+    verdictAgreement: (counts.bothPassed + counts.bothFailed) / n,
+    ...counts,
+    meanScoreGap: gaps.score / n,
+    dimensionGaps: {
+      coherence: gaps.coherence / n,
+      appropriateness: gaps.appropriateness / n,
+      technicalAccuracy: gaps.technicalAccuracy / n,
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { AgentType } from '../agents/types';
+import { AgentId, BuiltInAgentType, ValidationStep } from '../agents/types';
 import {
   createValidationSpan,
   addSpanEvent,
@@ -6,12 +6,25 @@ import {
   endSpan,
 } from '../tracing/tracer';
 import { metrics } from '../metrics/prometheus';
+import {
+  createLLMJudge,
+  JUDGE_PASS_SCORE,
+  JudgeVerdict,
+  LLMJudge,
+} from './llmJudge';
 
 export interface ValidationResult {
   isValid: boolean;
   score: number; // 0-1 quality score
   issues: ValidationIssue[];
   metrics: ValidationMetrics;
+  /**
+   * Set when the LLM judge graded this response. `score`, `isValid` and
+   * `issues` above already include its findings; `metrics` are heuristic.
+   */
+  judge?: JudgeVerdict;
+  /** The heuristic-only score and verdict, kept alongside `judge`. */
+  heuristic?: { score: number; isValid: boolean };
 }
 
 export interface ValidationIssue {
@@ -19,6 +32,8 @@ export interface ValidationIssue {
   severity: 'low' | 'medium' | 'high';
   message: string;
   suggestion?: string;
+  /** Who raised it; unset for the heuristic checks. */
+  source?: 'judge';
 }
 
 export interface ValidationMetrics {
@@ -30,30 +45,120 @@ export interface ValidationMetrics {
   coherenceScore: number;
 }
 
+/** Where a validation sits in AgentService's validation policy run. */
+export interface ValidationAttempt {
+  /** Shared by every attempt at answering the same message. */
+  runId: string;
+  /** 0 for the original reply, then 1, 2, ... for each corrective step. */
+  attempt: number;
+  action: 'initial' | ValidationStep;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * How a policy run ended: a reply passed, the canned response was sent,
+ * the steps ran out and the last reply was sent anyway, or the client
+ * cancelled while a corrected reply was being generated.
+ */
+export type ValidationDecision =
+  | 'accepted'
+  | 'canned'
+  | 'exhausted'
+  | 'cancelled';
+
 export interface ValidationLog {
   id: string;
   timestamp: Date;
-  agentType: AgentType;
+  agentType: AgentId;
   userMessage: string;
   aiResponse: string;
   validationResult: ValidationResult;
   conversationId: string;
   userId: string;
   isProactive: boolean;
+  attempt?: ValidationAttempt;
+  /** Set on the last attempt of a run once the policy has decided. */
+  decision?: ValidationDecision;
 }
 
 export class ResponseValidator {
   private validationLogs: ValidationLog[] = [];
   private readonly maxLogSize = 1000; // Keep last 1000 validations
 
+  constructor(private readonly judge: LLMJudge | null = null) {}
+
+  /**
+   * validateResponse, plus a grade from the LLM judge when one is
+   * configured and this response is sampled. The judge's scores and issues
+   * are merged into the result and its log; if the judge call fails the
+   * heuristic result stands.
+   */
+  async evaluateResponse(
+    agentType: AgentId,
+    userMessage: string,
+    aiResponse: string,
+    conversationId: string,
+    userId: string,
+    isProactive = false,
+    attempt?: ValidationAttempt,
+  ): Promise<ValidationResult> {
+    const result = this.validateResponse(
+      agentType,
+      userMessage,
+      aiResponse,
+      conversationId,
+      userId,
+      isProactive,
+      attempt,
+    );
+    if (!this.judge?.shouldSample()) {
+      return result;
+    }
+
+    let verdict: JudgeVerdict;
+    try {
+      verdict = await this.judge.judge(agentType, userMessage, aiResponse);
+    } catch (error) {
+      console.warn(
+        '⚠️ Judge evaluation failed, keeping heuristic result:',
+        error,
+      );
+      return result;
+    }
+
+    const score = (result.score + verdict.overall) / 2;
+    const issues = [...result.issues, ...verdict.issues];
+    const merged: ValidationResult = {
+      ...result,
+      score,
+      isValid:
+        score >= JUDGE_PASS_SCORE && !issues.some(i => i.severity === 'high'),
+      issues,
+      judge: verdict,
+      heuristic: { score: result.score, isValid: result.isValid },
+    };
+    const log = this.validationLogs.find(
+      entry => entry.validationResult === result,
+    );
+    if (log) {
+      log.validationResult = merged;
+    }
+    console.log(
+      `⚖️ Judge Result [${agentType}] Score: ${verdict.overall.toFixed(2)}, Passed: ${verdict.passed}, Heuristic: ${result.score.toFixed(2)}`,
+    );
+    return merged;
+  }
+
   // Main validation method
   validateResponse(
-    agentType: AgentType,
+    agentType: AgentId,
     userMessage: string,
     aiResponse: string,
     conversationId: string,
     userId: string,
     isProactive = false,
+    attempt?: ValidationAttempt,
   ): ValidationResult {
     const validationSpan = createValidationSpan(
       conversationId,
@@ -149,6 +254,7 @@ export class ResponseValidator {
         conversationId,
         userId,
         isProactive,
+        ...(attempt && { attempt }),
       });
 
       setSpanStatus(validationSpan, true);
@@ -252,7 +358,7 @@ export class ResponseValidator {
   }
 
   private validateTechnicalAccuracy(
-    agentType: AgentType,
+    agentType: AgentId,
     userMessage: string,
     aiResponse: string,
     issues: ValidationIssue[],
@@ -362,10 +468,13 @@ export class ResponseValidator {
 
   private validateLength(
     response: string,
-    agentType: AgentType,
+    agentType: AgentId,
     issues: ValidationIssue[],
   ): void {
-    const expectedLengths: Record<AgentType, { min: number; max: number }> = {
+    const expectedLengths: Record<
+      BuiltInAgentType,
+      { min: number; max: number }
+    > = {
       joke: { min: 10, max: 500 },
       trivia: { min: 20, max: 800 },
       general: { min: 10, max: 1000 },
@@ -384,7 +493,9 @@ export class ResponseValidator {
       dnd_master: { min: 30, max: 1500 },
     };
 
-    const expected = expectedLengths[agentType];
+    // Agents from agent files are held to the general assistant's limits.
+    const expected =
+      expectedLengths[agentType as BuiltInAgentType] ?? expectedLengths.general;
     const length = response.length;
 
     if (length < expected.min) {
@@ -736,6 +847,16 @@ export class ResponseValidator {
     }
   }
 
+  /** Record how a policy run ended on the log of its last attempt. */
+  recordDecision(runId: string, decision: ValidationDecision): void {
+    const last = this.validationLogs
+      .filter(log => log.attempt?.runId === runId)
+      .pop();
+    if (last) {
+      last.decision = decision;
+    }
+  }
+
   private generateId(): string {
     return `val_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -792,4 +913,4 @@ export class ResponseValidator {
   }
 }
 
-export const responseValidator = new ResponseValidator();
+export const responseValidator = new ResponseValidator(createLLMJudge());
@@ -131,6 +131,7 @@ export const widgetCss = /* css */ `
   border: 1px solid #2a2a2a;
   border-bottom-left-radius: 4px;
 }
+.msg.assistant.cancelled { opacity: 0.7; }
 .msg .agent-badge {
   display: inline-block;
   font-size: 10px;
@@ -104,6 +104,9 @@ export class ChatWidget {
   private socket: Socket | null = null;
   private conversationId: string | null = null;
   private streamingMessages = new Map<string, HTMLDivElement>();
+  /** Reply currently streaming; while set the send button acts as Stop. */
+  private activeStream: { messageId: string; conversationId: string } | null =
+    null;
   private auth: AuthManager | null = null;
 
   constructor(opts: ChatWidgetOptions) {
@@ -257,11 +260,13 @@ export class ChatWidget {
     this.inputEl.placeholder = this.opts.placeholder;
 
     this.inputEl.addEventListener('input', () => {
+      if (this.activeStream) return;
       this.sendBtn.disabled = this.inputEl.value.trim().length === 0;
     });
     inputRow.addEventListener('submit', e => {
       e.preventDefault();
-      this.handleSend();
+      if (this.activeStream) this.handleStop();
+      else this.handleSend();
     });
     this.inputRowEl = inputRow;
     panel.appendChild(inputRow);
@@ -318,11 +323,15 @@ export class ChatWidget {
       this.setStatus('error', `Connection error: ${err.message}`);
     });
 
-    this.socket.on('stream_start', (data: { messageId: string }) => {
-      this.removeTyping();
-      const el = this.createAssistantBubble('');
-      this.streamingMessages.set(data.messageId, el);
-    });
+    this.socket.on(
+      'stream_start',
+      (data: { messageId: string; conversationId: string }) => {
+        this.removeTyping();
+        const el = this.createAssistantBubble('');
+        this.streamingMessages.set(data.messageId, el);
+        this.setActiveStream(data);
+      },
+    );
 
     this.socket.on('stream_chunk', (chunk: StreamChunk) => {
       const el = this.streamingMessages.get(chunk.messageId);
@@ -343,7 +352,24 @@ export class ChatWidget {
         const el = this.streamingMessages.get(data.messageId);
         if (el && data.agentUsed) this.applyAgentBadge(el, data.agentUsed);
         this.streamingMessages.delete(data.messageId);
-        this.sendBtn.disabled = this.inputEl.value.trim().length === 0;
+        this.setActiveStream(null);
+      },
+    );
+
+    this.socket.on(
+      'stream_cancelled',
+      (data: {
+        messageId: string;
+        conversationId: string;
+        content: string;
+      }) => {
+        const el = this.streamingMessages.get(data.messageId);
+        if (el) {
+          this.setAssistantText(el, data.content);
+          el.classList.add('cancelled');
+        }
+        this.streamingMessages.delete(data.messageId);
+        this.setActiveStream(null);
       },
     );
 
@@ -359,7 +385,7 @@ export class ChatWidget {
           role: 'assistant',
           content: `Sorry, something went wrong: ${err.message}`,
         });
-        this.sendBtn.disabled = this.inputEl.value.trim().length === 0;
+        this.setActiveStream(null);
       },
     );
 
@@ -448,6 +474,24 @@ export class ChatWidget {
     });
   }
 
+  private handleStop(): void {
+    if (!this.activeStream || !this.socket) return;
+    this.sendBtn.disabled = true;
+    this.socket.emit('cancel_stream', this.activeStream);
+  }
+
+  private setActiveStream(
+    stream: { messageId: string; conversationId: string } | null,
+  ): void {
+    this.activeStream = stream
+      ? { messageId: stream.messageId, conversationId: stream.conversationId }
+      : null;
+    this.sendBtn.textContent = stream ? 'Stop' : 'Send';
+    this.sendBtn.disabled = stream
+      ? false
+      : this.inputEl.value.trim().length === 0;
+  }
+
   private appendUserMessage(text: string): void {
     const el = document.createElement('div');
     el.className = 'msg user';
@@ -9,6 +9,8 @@ import {
 import { socketService } from './services/socketService';
 import ChatScreen from './components/ChatScreen';
 import MessageInput from './components/MessageInput';
+import { adoptUserMessageId } from './services/conversationService';
+import { useMessageHistory } from './hooks/useMessageHistory';
 import type { Conversation, Message } from './types';
 import { logger } from './services/logger';
 
@@ -18,6 +20,10 @@ export default function App() {
   const [error, setError] = useState<string | null>(null);
   const [_lastUpdateTime, setLastUpdateTime] = useState<Date>(new Date());
   const [isConnected, setIsConnected] = useState(false);
+  const { hasOlder, isLoadingOlder, loadOlder } = useMessageHistory(
+    conversation,
+    setConversation,
+  );
 
   // Initialize socket connection on app start
   useEffect(() => {
@@ -118,9 +124,22 @@ export default function App() {
     const handleStreamStart = (data: {
       messageId: string;
       conversationId: string;
+      userMessageId?: string;
     }) => {
       logger.info('🔄 Stream start received:', data);
 
+      // Re-key our optimistic user message to the stored id
+      const { userMessageId } = data;
+      if (userMessageId) {
+        setConversation(
+          prev =>
+            prev && {
+              ...prev,
+              messages: adoptUserMessageId(prev.messages, userMessageId),
+            },
+        );
+      }
+
       // Add streaming message placeholder
       setConversation(prev => {
         if (!prev) {
@@ -290,6 +309,29 @@ export default function App() {
       });
     };
 
+    const handleStreamCancelled = (data: {
+      messageId: string;
+      conversationId: string;
+      content: string;
+    }) => {
+      logger.info('⏹️ Stream cancelled received:', data);
+
+      // Keep the partial reply the server persisted
+      setConversation(prev => {
+        if (!prev) return prev;
+
+        return {
+          ...prev,
+          messages: prev.messages.map(m =>
+            m.id === data.messageId
+              ? { ...m, content: data.content, status: 'cancelled' as const }
+              : m,
+          ),
+          updatedAt: new Date(),
+        };
+      });
+    };
+
     const handleProactiveMessage = (data: {
       message: Message;
       actionType: string;
@@ -348,6 +390,7 @@ export default function App() {
     socketService.onStreamStart(handleStreamStart);
     socketService.onStreamChunk(handleStreamChunk);
     socketService.onStreamComplete(handleStreamComplete);
+    socketService.onStreamCancelled(handleStreamCancelled);
     socketService.onProactiveMessage(handleProactiveMessage);
 
     return () => {
@@ -355,6 +398,7 @@ export default function App() {
       socketService.removeListener('stream_start');
       socketService.removeListener('stream_chunk');
       socketService.removeListener('stream_complete');
+      socketService.removeListener('stream_cancelled');
       socketService.removeListener('proactive_message');
     };
   }, [conversation]);
@@ -422,6 +466,10 @@ export default function App() {
     );
   }
 
+  const streamingMessageId = conversation?.messages.find(
+    m => m.status === 'pending' || m.status === 'streaming',
+  )?.id;
+
   return (
     <PaperProvider>
       <StatusBar barStyle='light-content' backgroundColor='#1976d2' />
@@ -443,7 +491,12 @@ export default function App() {
 
         {/* Chat Area */}
         <View style={styles.chatContainer}>
-          <ChatScreen conversation={conversation} />
+          <ChatScreen
+            conversation={conversation}
+            onLoadOlder={loadOlder}
+            hasOlderMessages={hasOlder}
+            isLoadingOlder={isLoadingOlder}
+          />
         </View>
 
         {/* Message Input */}
@@ -451,6 +504,7 @@ export default function App() {
           conversationId={conversation?.id}
           onMessageSent={handleMessageSent}
           disabled={!isConnected}
+          streamingMessageId={streamingMessageId}
         />
       </View>
     </PaperProvider>
@@ -202,4 +202,18 @@ describe('MessageInput', () => {
       );
     });
   });
+
+  it('should show a stop button that cancels the streaming reply', () => {
+    const { getByTestId, queryByTestId } = render(
+      <MessageInput {...defaultProps} streamingMessageId='ai-msg-1' />,
+    );
+
+    expect(queryByTestId('send-button')).toBeNull();
+    fireEvent.press(getByTestId('stop-button'));
+
+    expect(mockSocketService.cancelStream).toHaveBeenCalledWith(
+      'test-conv-id',
+      'ai-msg-1',
+    );
+  });
 });
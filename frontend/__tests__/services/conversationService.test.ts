@@ -0,0 +1,105 @@
+import {
+  adoptUserMessageId,
+  conversationService,
+  prependMessages,
+} from '../../services/conversationService';
+import type { Message } from '../../types';
+
+const message = (id: string, role: Message['role'] = 'user'): Message => ({
+  id,
+  content: id,
+  role,
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  conversationId: 'conv-1',
+});
+
+describe('conversationService', () => {
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    global.fetch = mockFetch as unknown as typeof fetch;
+    mockFetch.mockReset();
+  });
+
+  describe('fetchMessagePage', () => {
+    it('should request the page before a cursor and revive timestamps', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          messages: [
+            { ...message('m1'), timestamp: '2024-01-01T00:00:00.000Z' },
+          ],
+          pageInfo: {
+            hasOlder: false,
+            hasNewer: true,
+            oldestId: 'm1',
+            newestId: 'm1',
+          },
+        }),
+      });
+
+      const page = await conversationService.fetchMessagePage('conv-1', {
+        before: 'm2',
+        limit: 10,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:5001/api/conversations/conv-1/messages?limit=10&before=m2',
+        { credentials: 'include' },
+      );
+      expect(page).not.toBeNull();
+      if (!page) return;
+      expect(page.messages[0].timestamp).toBeInstanceOf(Date);
+      expect(page.messages[0].status).toBe('complete');
+      expect(page.pageInfo.hasOlder).toBe(false);
+    });
+
+    it.each([400, 404])(
+      'should return null when the server answers %i',
+      async status => {
+        mockFetch.mockResolvedValue({ ok: false, status });
+
+        await expect(
+          conversationService.fetchMessagePage('conv-1', { before: 'x' }),
+        ).resolves.toBeNull();
+      },
+    );
+
+    it('should throw on server errors', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await expect(
+        conversationService.fetchMessagePage('conv-1', {}),
+      ).rejects.toThrow('Failed to load messages (500)');
+    });
+  });
+
+  describe('prependMessages', () => {
+    it('should put older messages first and drop duplicates', () => {
+      const result = prependMessages(
+        [message('m2'), message('m3')],
+        [message('m1'), message('m2')],
+      );
+
+      expect(result.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+    });
+  });
+
+  describe('adoptUserMessageId', () => {
+    it('should re-key the latest optimistic user message', () => {
+      const result = adoptUserMessageId(
+        [message('user-1'), message('a1', 'assistant'), message('user-2')],
+        'server-id',
+      );
+
+      expect(result.map(m => m.id)).toEqual(['user-1', 'a1', 'server-id']);
+    });
+
+    it('should leave messages alone when the id is already known', () => {
+      const messages = [message('server-id'), message('user-2')];
+
+      expect(adoptUserMessageId(messages, 'server-id')).toBe(messages);
+    });
+  });
+});
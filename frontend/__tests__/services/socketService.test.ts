@@ -219,6 +219,23 @@ describe('SocketService', () => {
       expect(mockSocket.on).toHaveBeenCalledWith('stream_complete', callback);
     });
 
+    it('should set up stream cancelled listener', () => {
+      const callback = jest.fn();
+
+      socketService.onStreamCancelled(callback);
+
+      expect(mockSocket.on).toHaveBeenCalledWith('stream_cancelled', callback);
+    });
+
+    it('should emit cancel_stream for the streaming message', () => {
+      socketService.cancelStream('test-conversation-id', 'msg-1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('cancel_stream', {
+        conversationId: 'test-conversation-id',
+        messageId: 'msg-1',
+      });
+    });
+
     it('should set up stream error listener', () => {
       const callback = jest.fn();
 
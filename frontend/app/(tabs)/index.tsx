@@ -10,6 +10,8 @@ import { DiscordColors } from '../../constants/Colors';
 import { socketService } from '../../services/socketService';
 import ChatScreen from '../../components/ChatScreen';
 import MessageInput from '../../components/MessageInput';
+import { adoptUserMessageId } from '../../services/conversationService';
+import { useMessageHistory } from '../../hooks/useMessageHistory';
 import { UserProfile } from '../../components/UserProfile';
 import { HandoffChip } from '../../components/HandoffChip';
 import type { Conversation, Message, MediaAttachment } from '../../types';
@@ -20,6 +22,10 @@ export default function HomeScreen() {
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [handoffMessage, setHandoffMessage] = useState<string | null>(null);
+  const { hasOlder, isLoadingOlder, loadOlder } = useMessageHistory(
+    conversation,
+    setConversation,
+  );
 
   // Initialize socket connection on app start
   useEffect(() => {
@@ -111,7 +117,20 @@ export default function HomeScreen() {
     const handleStreamStart = (data: {
       messageId: string;
       conversationId: string;
+      userMessageId?: string;
     }) => {
+      // Re-key our optimistic user message to the stored id
+      const { userMessageId } = data;
+      if (userMessageId) {
+        setConversation(
+          prev =>
+            prev && {
+              ...prev,
+              messages: adoptUserMessageId(prev.messages, userMessageId),
+            },
+        );
+      }
+
       // Add streaming message placeholder
       setConversation(prev => {
         if (!prev) {
@@ -258,6 +277,27 @@ export default function HomeScreen() {
       });
     };
 
+    const handleStreamCancelled = (data: {
+      messageId: string;
+      conversationId: string;
+      content: string;
+    }) => {
+      // Keep the partial reply the server persisted
+      setConversation(prev => {
+        if (!prev) return prev;
+
+        return {
+          ...prev,
+          messages: prev.messages.map(m =>
+            m.id === data.messageId
+              ? { ...m, content: data.content, status: 'cancelled' as const }
+              : m,
+          ),
+          updatedAt: new Date(),
+        };
+      });
+    };
+
     const handleProactiveMessage = (data: {
       message: Message;
       actionType: string;
@@ -339,6 +379,7 @@ export default function HomeScreen() {
     socketService.onStreamStart(handleStreamStart);
     socketService.onStreamChunk(handleStreamChunk);
     socketService.onStreamComplete(handleStreamComplete);
+    socketService.onStreamCancelled(handleStreamCancelled);
     socketService.onProactiveMessage(handleProactiveMessage);
     socketService.onAttachment(handleAttachment);
     socketService.onHandoffEvent(handleHandoffEvent);
@@ -348,6 +389,7 @@ export default function HomeScreen() {
       socketService.removeListener('stream_start');
       socketService.removeListener('stream_chunk');
       socketService.removeListener('stream_complete');
+      socketService.removeListener('stream_cancelled');
       socketService.removeListener('proactive_message');
       socketService.removeListener('attachment');
       socketService.removeListener('handoff_event');
@@ -405,13 +447,22 @@ export default function HomeScreen() {
     );
   }
 
+  const streamingMessageId = conversation?.messages.find(
+    m => m.status === 'pending' || m.status === 'streaming',
+  )?.id;
+
   return (
     <View style={styles.container}>
       <UserProfile />
       {handoffMessage && <HandoffChip message={handoffMessage} />}
       {/* Chat Area with Combined Menu/Status Bar */}
       <View style={styles.chatContainer}>
-        <ChatScreen conversation={conversation} />
+        <ChatScreen
+          conversation={conversation}
+          onLoadOlder={loadOlder}
+          hasOlderMessages={hasOlder}
+          isLoadingOlder={isLoadingOlder}
+        />
       </View>
 
       {/* Message Input */}
@@ -419,6 +470,7 @@ export default function HomeScreen() {
         conversationId={conversation?.id}
         onMessageSent={handleMessageSent}
         disabled={!isConnected}
+        streamingMessageId={streamingMessageId}
       />
     </View>
   );
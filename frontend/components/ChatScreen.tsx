@@ -11,6 +11,7 @@ import {
   TouchableOpacity,
   Image,
 } from 'react-native';
+import type { NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
 import { Avatar, Chip } from 'react-native-paper';
 import Markdown from 'react-native-markdown-display';
 import * as WebBrowser from 'expo-web-browser';
@@ -20,8 +21,15 @@ import type { Conversation, Message, AgentStatus } from '../types';
 
 interface ChatScreenProps {
   conversation: Conversation | null;
+  /** Called when the user scrolls to the top and older history may exist. */
+  onLoadOlder?: () => void;
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
 }
 
+// How close to the top (in px) a scroll must get to load older messages
+const LOAD_OLDER_THRESHOLD = 40;
+
 // YouTube Embed Component
 const YouTubeEmbed: React.FC<{
   videoId: string;
@@ -116,7 +124,12 @@ const parseMessageContent = (content: string) => {
   return parts;
 };
 
-const ChatScreen: React.FC<ChatScreenProps> = ({ conversation }) => {
+const ChatScreen: React.FC<ChatScreenProps> = ({
+  conversation,
+  onLoadOlder,
+  hasOlderMessages = false,
+  isLoadingOlder = false,
+}) => {
   const scrollViewRef = useRef<ScrollView>(null);
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const [isHeaderCollapsed, setIsHeaderCollapsed] = useState(false);
@@ -128,14 +141,31 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ conversation }) => {
   const agentPulseAnim = useRef(new Animated.Value(1)).current;
   const slideAnim = useRef(new Animated.Value(0)).current;
 
+  // Key auto-scroll on the newest message so prepending older history
+  // doesn't yank the view back to the bottom
+  const lastMessage = conversation?.messages[conversation.messages.length - 1];
+  const lastMessageId = lastMessage?.id;
+  const lastMessageContent = lastMessage?.content;
+
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
-    if (conversation?.messages.length) {
+    if (lastMessageId) {
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [conversation?.messages]);
+  }, [lastMessageId, lastMessageContent]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (
+      onLoadOlder &&
+      hasOlderMessages &&
+      !isLoadingOlder &&
+      event.nativeEvent.contentOffset.y < LOAD_OLDER_THRESHOLD
+    ) {
+      onLoadOlder();
+    }
+  };
 
   // Combined Agent Status & Menu Setup
   useEffect(() => {
@@ -746,7 +776,17 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ conversation }) => {
         style={styles.messagesContainer}
         contentContainerStyle={styles.messagesContent}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
       >
+        {isLoadingOlder && (
+          <ActivityIndicator
+            size='small'
+            color={ForestColors.textSecondary}
+            style={styles.loadingOlder}
+          />
+        )}
         {conversation.messages.map(message => {
           const isStreaming = message.status === 'streaming';
           const isPending = message.status === 'pending';
@@ -973,6 +1013,9 @@ const styles = StyleSheet.create({
   messagesContainer: {
     flex: 1,
   },
+  loadingOlder: {
+    paddingVertical: 8,
+  },
   messagesContent: {
     paddingTop: 8,
     paddingBottom: 8,
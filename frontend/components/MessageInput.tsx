@@ -16,12 +16,15 @@ interface MessageInputProps {
   conversationId?: string;
   onMessageSent: (message: Message) => void;
   disabled?: boolean;
+  /** Id of the assistant reply being streamed; shows a stop button. */
+  streamingMessageId?: string;
 }
 
 const MessageInput: React.FC<MessageInputProps> = ({
   conversationId,
   onMessageSent,
   disabled = false,
+  streamingMessageId,
 }) => {
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -89,6 +92,12 @@ const MessageInput: React.FC<MessageInputProps> = ({
     handleSend();
   };
 
+  const handleStop = () => {
+    if (conversationId && streamingMessageId) {
+      socketService.cancelStream(conversationId, streamingMessageId);
+    }
+  };
+
   const canSend = message.trim().length > 0 && !isLoading && !disabled;
 
   return (
@@ -116,6 +125,15 @@ const MessageInput: React.FC<MessageInputProps> = ({
           <View style={styles.sendButtonContainer}>
             {isLoading ? (
               <ActivityIndicator size='small' color='#2196F3' />
+            ) : streamingMessageId ? (
+              <IconButton
+                icon='stop'
+                size={24}
+                iconColor='#2196F3'
+                style={[styles.sendButton, styles.sendButtonEnabled]}
+                onPress={handleStop}
+                testID='stop-button'
+              />
             ) : (
               <IconButton
                 icon='send'
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import {
+  conversationService,
+  prependMessages,
+} from '@/services/conversationService';
+import type { Conversation } from '@/types';
+
+/**
+ * Lazy-load older messages for the open conversation. `loadOlder` fetches
+ * the page before the oldest message on screen and prepends it; once the
+ * server reports no more history it becomes a no-op.
+ */
+export function useMessageHistory(
+  conversation: Conversation | null,
+  setConversation: Dispatch<SetStateAction<Conversation | null>>,
+) {
+  const [hasOlder, setHasOlder] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const loadingRef = useRef(false);
+
+  const conversationId = conversation?.id;
+  const oldestId = conversation?.messages[0]?.id;
+
+  useEffect(() => {
+    setHasOlder(true);
+  }, [conversationId]);
+
+  const loadOlder = useCallback(async () => {
+    if (
+      !conversationId ||
+      !oldestId ||
+      // Not stored server-side yet, so there is nothing to page from
+      conversationId.startsWith('temp-') ||
+      oldestId.startsWith('user-') ||
+      !hasOlder ||
+      loadingRef.current
+    ) {
+      return;
+    }
+
+    loadingRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await conversationService.fetchMessagePage(conversationId, {
+        before: oldestId,
+      });
+      if (!page) {
+        setHasOlder(false);
+        return;
+      }
+
+      setConversation(prev =>
+        prev && prev.id === conversationId
+          ? { ...prev, messages: prependMessages(prev.messages, page.messages) }
+          : prev,
+      );
+      setHasOlder(page.pageInfo.hasOlder);
+    } catch (error) {
+      console.error(
+        '[useMessageHistory] Failed to load older messages:',
+        error,
+      );
+    } finally {
+      loadingRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [conversationId, oldestId, hasOlder, setConversation]);
+
+  return { hasOlder, isLoadingOlder, loadOlder };
+}
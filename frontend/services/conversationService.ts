@@ -0,0 +1,88 @@
+import type { Message, MessagePage } from '../types';
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:5001';
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+/**
+ * Conversation Service for reading stored history over REST.
+ * Live messages still arrive over the socket; this only backfills.
+ */
+class ConversationService {
+  /**
+   * Fetch the page of messages just before `before` (or the newest page).
+   *
+   * Returns null when the server can't page from here — the conversation
+   * isn't stored yet, belongs to someone else, or the cursor is a local
+   * id the server never saw. Callers treat that as "no older history".
+   */
+  async fetchMessagePage(
+    conversationId: string,
+    { before, limit = MESSAGE_PAGE_SIZE }: { before?: string; limit?: number },
+  ): Promise<MessagePage | null> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (before) {
+      params.set('before', before);
+    }
+
+    const response = await fetch(
+      `${API_URL}/api/conversations/${encodeURIComponent(
+        conversationId,
+      )}/messages?${params}`,
+      { credentials: 'include' },
+    );
+
+    if (response.status === 400 || response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load messages (${response.status})`);
+    }
+
+    const page: MessagePage = await response.json();
+    return {
+      ...page,
+      messages: page.messages.map(m => ({
+        ...m,
+        timestamp: new Date(m.timestamp),
+        status: 'complete',
+      })),
+    };
+  }
+}
+
+/**
+ * Prepend an older page, skipping anything already on screen.
+ */
+export function prependMessages(
+  current: Message[],
+  older: Message[],
+): Message[] {
+  const seen = new Set(current.map(m => m.id));
+  return [...older.filter(m => !seen.has(m.id)), ...current];
+}
+
+/**
+ * Swap the optimistic `user-…` id of the latest local user message for the
+ * id the server stored it under, so it can serve as a history cursor.
+ */
+export function adoptUserMessageId(
+  messages: Message[],
+  userMessageId: string,
+): Message[] {
+  if (messages.some(m => m.id === userMessageId)) {
+    return messages;
+  }
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user' && message.id.startsWith('user-')) {
+      const next = [...messages];
+      next[i] = { ...message, id: userMessageId };
+      return next;
+    }
+  }
+  return messages;
+}
+
+export const conversationService = new ConversationService();
+export default conversationService;
@@ -15,6 +15,8 @@ import authService from './authService';
 type StreamStartCallback = (data: {
   messageId: string;
   conversationId: string;
+  /** Server id for the user message that started this stream. */
+  userMessageId?: string;
 }) => void;
 type StreamChunkCallback = (chunk: StreamChunk) => void;
 type StreamCompleteCallback = (data: {
@@ -22,6 +24,13 @@ type StreamCompleteCallback = (data: {
   conversationId: string;
   conversation: Conversation;
 }) => void;
+type StreamCancelledCallback = (data: {
+  messageId: string;
+  conversationId: string;
+  conversation: Conversation;
+  content: string;
+  agentUsed?: string;
+}) => void;
 type NewMessageCallback = (message: Message) => void;
 type ProactiveMessageCallback = (data: { message: Message }) => void;
 type StreamErrorCallback = (error: { code: string; message: string }) => void;
@@ -49,6 +58,7 @@ class SocketService {
     stream_start?: StreamStartCallback;
     stream_chunk?: StreamChunkCallback;
     stream_complete?: StreamCompleteCallback;
+    stream_cancelled?: StreamCancelledCallback;
     new_message?: NewMessageCallback;
     proactive_message?: ProactiveMessageCallback;
     stream_error?: StreamErrorCallback;
@@ -245,6 +255,13 @@ class SocketService {
   }
 
   // Event listeners - callbacks are stored and re-registered on reconnect
+  // Stop the in-flight reply; the server answers with stream_cancelled
+  cancelStream(conversationId: string, messageId: string): void {
+    if (this.socket) {
+      this.socket.emit('cancel_stream', { conversationId, messageId });
+    }
+  }
+
   onNewMessage(callback: (message: Message) => void): void {
     this.storedCallbacks.new_message = callback;
     if (this.socket) {
@@ -260,9 +277,7 @@ class SocketService {
     }
   }
 
-  onStreamStart(
-    callback: (data: { messageId: string; conversationId: string }) => void,
-  ): void {
+  onStreamStart(callback: StreamStartCallback): void {
     // Wrap callback to add debug logging
     const wrappedCallback: StreamStartCallback = data => {
       console.log(
@@ -323,6 +338,13 @@ class SocketService {
     }
   }
 
+  onStreamCancelled(callback: StreamCancelledCallback): void {
+    this.storedCallbacks.stream_cancelled = callback;
+    if (this.socket) {
+      this.socket.on('stream_cancelled', callback);
+    }
+  }
+
   onStreamError(
     callback: (error: { message: string; code: string }) => void,
   ): void {
@@ -64,7 +64,7 @@ export interface Message {
   agentUsed?: string;
   confidence?: number;
   isProactive?: boolean;
-  status?: 'pending' | 'streaming' | 'complete';
+  status?: 'pending' | 'streaming' | 'complete' | 'cancelled';
   attachments?: MediaAttachment[];
   user?: {
     name: string;
@@ -75,12 +75,25 @@ export interface Message {
 
 export interface Conversation {
   id: string;
+  /** Set by the server; absent on client-side placeholder conversations. */
+  ownerId?: string;
   title: string;
   messages: Message[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** One page of `GET /api/conversations/:id/messages`. */
+export interface MessagePage {
+  messages: Message[];
+  pageInfo: {
+    hasOlder: boolean;
+    hasNewer: boolean;
+    oldestId: string | null;
+    newestId: string | null;
+  };
+}
+
 export interface User {
   id: string;
   email: string;
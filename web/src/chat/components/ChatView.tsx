@@ -3,6 +3,7 @@ import { AssistantRuntimeProvider, useLocalRuntime } from '@assistant-ui/react';
 import { SocketChatAdapter } from '@/chat/runtime/SocketChatAdapter';
 import { getSocketClient } from '@/chat/runtime/socketClient';
 import type { ConnectionStatus } from '@/chat/runtime/types';
+import { MessageHistory } from './MessageHistory';
 
 interface ChatViewProps {
   conversationId: string;
@@ -31,14 +32,14 @@ export function ChatView({ conversationId }: ChatViewProps) {
     <AssistantRuntimeProvider runtime={runtime}>
       <div className='chat'>
         <ConnectionBanner status={status} />
-        <div className='chat__body'>
+        <MessageHistory conversationId={conversationId}>
           <p className='muted'>
             Chat UI primitives (Thread, MessageList, Composer) land with
             Workstreams B &amp; C. Runtime is wired — open devtools to see
             socket events flowing for conversation <code>{conversationId}</code>
             .
           </p>
-        </div>
+        </MessageHistory>
       </div>
     </AssistantRuntimeProvider>
   );
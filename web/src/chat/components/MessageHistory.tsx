@@ -0,0 +1,92 @@
+import { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import { useMessageHistory } from '@/chat/history/useMessageHistory';
+
+// How close to the top (in px) a scroll must get to load older messages.
+const LOAD_OLDER_THRESHOLD = 48;
+
+interface MessageHistoryProps {
+  conversationId: string;
+  /** Rendered below the stored history, e.g. the live thread. */
+  children?: ReactNode;
+}
+
+/**
+ * Scrollable stored history for a conversation. Scrolling near the top
+ * loads the next older page and keeps the visible messages in place.
+ */
+export function MessageHistory({
+  conversationId,
+  children,
+}: MessageHistoryProps) {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isPending } =
+    useMessageHistory(conversationId);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // scrollHeight before an older page was requested; null once settled.
+  const heightBeforeLoad = useRef<number | null>(null);
+
+  // Pages arrive newest first; each page is oldest first within itself.
+  const messages = useMemo(
+    () => (data ? [...data.pages].reverse().flatMap(p => p.messages) : []),
+    [data],
+  );
+
+  const loadOlder = () => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    heightBeforeLoad.current = scrollRef.current?.scrollHeight ?? null;
+    void fetchNextPage();
+  };
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !data) return;
+    if (heightBeforeLoad.current !== null) {
+      // Hold the view still as older messages are prepended above it.
+      el.scrollTop += el.scrollHeight - heightBeforeLoad.current;
+      heightBeforeLoad.current = null;
+    } else if (data.pages.length === 1) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [data]);
+
+  // If the history doesn't fill the view there's nothing to scroll, so
+  // keep loading until it does or the history runs out.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && el.scrollHeight <= el.clientHeight) loadOlder();
+  });
+
+  const onScroll = () => {
+    const el = scrollRef.current;
+    if (el && el.scrollTop < LOAD_OLDER_THRESHOLD) loadOlder();
+  };
+
+  return (
+    <div className='chat__body' ref={scrollRef} onScroll={onScroll}>
+      {isFetchingNextPage && <p className='muted'>Loading older messages…</p>}
+      {data && !hasNextPage && messages.length > 0 && (
+        <p className='muted'>Beginning of conversation</p>
+      )}
+      {!isPending && (
+        <ol className='message-history'>
+          {messages.map(m => (
+            <li
+              key={m.id}
+              className={cn(
+                'message-history__item',
+                `message-history__item--${m.role}`,
+              )}
+            >
+              {m.agentUsed && (
+                <span className='message-history__agent'>{m.agentUsed}</span>
+              )}
+              <p className='message-history__content'>{m.content}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+      {children}
+    </div>
+  );
+}
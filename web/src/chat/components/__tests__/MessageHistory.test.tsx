@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MessageHistory } from '../MessageHistory';
+import type { ChatMessage, MessagePage } from '@/chat/runtime/types';
+
+function renderWithClient(ui: ReactNode) {
+  const client = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+  return render(
+    <QueryClientProvider client={client}>{ui}</QueryClientProvider>,
+  );
+}
+
+const message = (id: string, role: ChatMessage['role']): ChatMessage => ({
+  id,
+  content: `content ${id}`,
+  role,
+  timestamp: '2024-01-01T00:00:00.000Z',
+  conversationId: 'conv-1',
+  ...(role === 'assistant' && { agentUsed: 'joke' }),
+});
+
+const page = (ids: string[], hasOlder: boolean): MessagePage => ({
+  messages: ids.map((id, i) => message(id, i % 2 ? 'assistant' : 'user')),
+  pageInfo: {
+    hasOlder,
+    hasNewer: false,
+    oldestId: ids[0],
+    newestId: ids[ids.length - 1],
+  },
+});
+
+function mockFetch(pages: Record<string, MessagePage | number>) {
+  const fn = vi.fn(async (url: string) => {
+    const before = new URL(url, 'http://test').searchParams.get('before');
+    const result = pages[before ?? 'newest'];
+    return typeof result === 'number'
+      ? { ok: false, status: result, json: async () => ({}) }
+      : { ok: true, status: 200, json: async () => result };
+  });
+  vi.stubGlobal('fetch', fn);
+  return fn;
+}
+
+describe('MessageHistory', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('walks back through older pages and renders them oldest first', async () => {
+    const fetchFn = mockFetch({
+      newest: page(['m3', 'm4'], true),
+      m3: page(['m1', 'm2'], false),
+    });
+
+    renderWithClient(<MessageHistory conversationId='conv-1' />);
+
+    await waitFor(() =>
+      expect(screen.getByText('Beginning of conversation')).toBeInTheDocument(),
+    );
+    const items = screen.getAllByRole('listitem');
+    expect(items.map(li => li.textContent)).toEqual([
+      'content m1',
+      'jokecontent m2',
+      'content m3',
+      'jokecontent m4',
+    ]);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn.mock.calls[0][0]).toBe(
+      '/api/conversations/conv-1/messages?limit=30',
+    );
+    expect(fetchFn.mock.calls[1][0]).toBe(
+      '/api/conversations/conv-1/messages?limit=30&before=m3',
+    );
+  });
+
+  it('treats an unknown conversation as empty history', async () => {
+    const fetchFn = mockFetch({ newest: 404 });
+
+    renderWithClient(
+      <MessageHistory conversationId='conv-1'>
+        <p>live thread</p>
+      </MessageHistory>,
+    );
+
+    await waitFor(() => expect(fetchFn).toHaveBeenCalled());
+    expect(screen.getByText('live thread')).toBeInTheDocument();
+    expect(screen.queryAllByRole('listitem')).toHaveLength(0);
+    expect(screen.queryByText('Beginning of conversation')).toBeNull();
+  });
+});
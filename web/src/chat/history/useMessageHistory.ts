@@ -0,0 +1,59 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { MessagePage } from '@/chat/runtime/types';
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export const messageHistoryQueryKey = (conversationId: string) =>
+  ['conversations', conversationId, 'messages'] as const;
+
+const EMPTY_PAGE: MessagePage = {
+  messages: [],
+  pageInfo: {
+    hasOlder: false,
+    hasNewer: false,
+    oldestId: null,
+    newestId: null,
+  },
+};
+
+/**
+ * Fetch the page of stored messages before `before` (or the newest page).
+ * A 400/404 — conversation not stored yet, or a cursor the server never
+ * saw — reads as an empty history rather than an error.
+ */
+export async function fetchMessagePage(
+  conversationId: string,
+  before?: string,
+  signal?: AbortSignal,
+): Promise<MessagePage> {
+  const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+  if (before) params.set('before', before);
+
+  const res = await fetch(
+    `/api/conversations/${encodeURIComponent(conversationId)}/messages?${params}`,
+    { credentials: 'include', signal },
+  );
+  if (res.status === 400 || res.status === 404) return EMPTY_PAGE;
+  if (!res.ok) {
+    throw new Error(`Message history fetch failed: ${res.status}`);
+  }
+  return (await res.json()) as MessagePage;
+}
+
+/**
+ * Stored history for a conversation, newest page first. Each further page
+ * walks back from the oldest message loaded so far.
+ */
+export function useMessageHistory(conversationId: string) {
+  return useInfiniteQuery({
+    queryKey: messageHistoryQueryKey(conversationId),
+    queryFn: ({ pageParam, signal }) =>
+      fetchMessagePage(conversationId, pageParam, signal),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: last =>
+      last.pageInfo.hasOlder
+        ? (last.pageInfo.oldestId ?? undefined)
+        : undefined,
+    staleTime: Infinity,
+  });
+}
@@ -27,8 +27,9 @@ type Reject = (e: unknown) => void;
  *   stream_start        → { status: 'running' }
  *   stream_chunk        → { content: [{ type: 'text', text: cumulative }], status: 'running' }
  *   stream_complete     → { status: 'complete', metadata.custom: { agentUsed, confidence, attachments, handoff } }
+ *   stream_cancelled    → { status: 'incomplete', reason: 'cancelled' } with the server's partial text
  *   stream_error        → { status: 'incomplete', reason: 'error', error }
- *   abortSignal         → emits cancel_stream (backend no-op today; follow-up)
+ *   abortSignal         → resolves cancelled; emits cancel_stream for the in-flight message, held until stream_start if it has not arrived
  *   handoff_event       → stored; merged into final metadata
  *   attachment          → accumulated; merged into final metadata
  */
@@ -46,6 +47,7 @@ export class SocketChatAdapter implements ChatModelAdapter {
     const attachments: MediaAttachment[] = [];
     let handoff: HandoffEvent | null = null;
     let currentText = '';
+    let messageId = '';
     let settled = false;
 
     return new Promise<ChatModelRunResult>((resolve, reject) => {
@@ -66,6 +68,7 @@ export class SocketChatAdapter implements ChatModelAdapter {
         client.on('stream_start', e => {
           if (e.conversationId !== conversationId) return;
           currentText = '';
+          messageId = e.messageId;
         }),
       );
 
@@ -111,6 +114,22 @@ export class SocketChatAdapter implements ChatModelAdapter {
         }),
       );
 
+      unsubs.push(
+        client.on('stream_cancelled', e => {
+          if (e.conversationId !== conversationId) return;
+          finalize(
+            {
+              content: [{ type: 'text', text: e.content }],
+              status: { type: 'incomplete', reason: 'cancelled' },
+              metadata: {
+                custom: { agentUsed: e.agentUsed, attachments, handoff },
+              },
+            },
+            true,
+          );
+        }),
+      );
+
       unsubs.push(
         client.on('stream_error', e => {
           if (e.conversationId && e.conversationId !== conversationId) return;
@@ -128,12 +147,24 @@ export class SocketChatAdapter implements ChatModelAdapter {
         }),
       );
 
-      const onAbort = () => {
+      // Aborted before stream_start: the server has not registered the
+      // stream yet and would drop a cancel, so hold it until stream_start
+      // names the message (or the stream fails first).
+      const heldCancel: Array<() => void> = [];
+      const dropHeldCancel = () => {
+        while (heldCancel.length) heldCancel.pop()?.();
+      };
+      const sendCancel = (id: string) => {
         try {
-          client.emit('cancel_stream', { conversationId, messageId: '' });
+          client.emit('cancel_stream', { conversationId, messageId: id });
         } catch {
-          // backend may not support cancel yet; no-op
+          // socket already gone; nothing left to cancel
         }
+      };
+
+      const onAbort = () => {
+        const started = messageId !== '';
+        if (started) sendCancel(messageId);
         finalize(
           {
             content: [{ type: 'text', text: currentText }],
@@ -141,6 +172,18 @@ export class SocketChatAdapter implements ChatModelAdapter {
           },
           true,
         );
+        if (started) return;
+        heldCancel.push(
+          client.on('stream_start', e => {
+            if (e.conversationId !== conversationId) return;
+            dropHeldCancel();
+            sendCancel(e.messageId);
+          }),
+          client.on('stream_error', e => {
+            if (e.conversationId && e.conversationId !== conversationId) return;
+            dropHeldCancel();
+          }),
+        );
       };
       if (abortSignal.aborted) onAbort();
       else abortSignal.addEventListener('abort', onAbort, { once: true });
@@ -151,6 +194,7 @@ export class SocketChatAdapter implements ChatModelAdapter {
           { message: userText, conversationId },
           ack => {
             if (ack && ack.accepted === false) {
+              dropHeldCancel();
               finalize(
                 {
                   content: [{ type: 'text', text: '' }],
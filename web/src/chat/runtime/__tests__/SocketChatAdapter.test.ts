@@ -167,8 +167,8 @@ describe('SocketChatAdapter', () => {
     expect(r.status).toMatchObject({ type: 'incomplete', reason: 'error' });
   });
 
-  it('emits cancel_stream and resolves cancelled on abort', async () => {
-    const { client, emitted } = makeFakeClient();
+  it('resolves cancelled on abort and holds cancel_stream until stream_start', async () => {
+    const { client, fire, emitted } = makeFakeClient();
     const adapter = new SocketChatAdapter({ conversationId, client });
     const ac = new AbortController();
     const runP = adapter.run({
@@ -182,7 +182,86 @@ describe('SocketChatAdapter', () => {
     ac.abort();
     const r = await runP;
     expect(r.status).toMatchObject({ type: 'incomplete', reason: 'cancelled' });
-    expect(emitted.find(e => e.event === 'cancel_stream')).toBeDefined();
+    expect(emitted.find(e => e.event === 'cancel_stream')).toBeUndefined();
+
+    fire('stream_start', { messageId: 'a1', conversationId });
+    fire('stream_start', { messageId: 'a2', conversationId });
+    expect(
+      emitted.filter(e => e.event === 'cancel_stream').map(e => e.args[0]),
+    ).toEqual([{ conversationId, messageId: 'a1' }]);
+  });
+
+  it('drops a held cancel when the stream fails before starting', async () => {
+    const { client, fire, emitted } = makeFakeClient();
+    const adapter = new SocketChatAdapter({ conversationId, client });
+    const ac = new AbortController();
+    const runP = adapter.run({
+      messages: [baseMessage as never],
+      abortSignal: ac.signal,
+      runConfig: {},
+      config: {} as never,
+      context: {} as never,
+      unstable_getMessage: () => baseMessage as never,
+    });
+    ac.abort();
+    await runP;
+    fire('stream_error', { conversationId, message: 'Rate limited' });
+    fire('stream_start', { messageId: 'a1', conversationId });
+    expect(emitted.find(e => e.event === 'cancel_stream')).toBeUndefined();
+  });
+
+  it('sends the streaming message id with cancel_stream', async () => {
+    const { client, fire, emitted } = makeFakeClient();
+    const adapter = new SocketChatAdapter({ conversationId, client });
+    const ac = new AbortController();
+    const runP = adapter.run({
+      messages: [baseMessage as never],
+      abortSignal: ac.signal,
+      runConfig: {},
+      config: {} as never,
+      context: {} as never,
+      unstable_getMessage: () => baseMessage as never,
+    });
+    fire('stream_start', { messageId: 'a1', conversationId });
+    fire('stream_chunk', {
+      id: 'c1',
+      messageId: 'a1',
+      conversationId,
+      content: 'Once upon',
+      isComplete: false,
+    });
+    ac.abort();
+    const r = await runP;
+    expect(r.content?.[0]).toEqual({ type: 'text', text: 'Once upon' });
+    expect(emitted.find(e => e.event === 'cancel_stream')?.args[0]).toEqual({
+      conversationId,
+      messageId: 'a1',
+    });
+  });
+
+  it('resolves cancelled when the server reports stream_cancelled', async () => {
+    const { client, fire } = makeFakeClient();
+    const adapter = new SocketChatAdapter({ conversationId, client });
+    const ac = new AbortController();
+    const runP = adapter.run({
+      messages: [baseMessage as never],
+      abortSignal: ac.signal,
+      runConfig: {},
+      config: {} as never,
+      context: {} as never,
+      unstable_getMessage: () => baseMessage as never,
+    });
+    fire('stream_start', { messageId: 'a1', conversationId });
+    fire('stream_cancelled', {
+      messageId: 'a1',
+      conversationId,
+      conversation: { id: conversationId, messages: [] },
+      content: 'Partial',
+      agentUsed: 'story_teller',
+    });
+    const r = await runP;
+    expect(r.status).toMatchObject({ type: 'incomplete', reason: 'cancelled' });
+    expect(r.content?.[0]).toEqual({ type: 'text', text: 'Partial' });
   });
 
   it('ignores events for other conversations', async () => {
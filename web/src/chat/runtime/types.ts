@@ -14,7 +14,7 @@ export interface ChatMessage {
   agentUsed?: string;
   confidence?: number;
   isProactive?: boolean;
-  status?: 'pending' | 'streaming' | 'complete' | 'error';
+  status?: 'pending' | 'streaming' | 'complete' | 'cancelled' | 'error';
   attachments?: MediaAttachment[];
   user?: { name: string; email?: string; avatar?: string };
 }
@@ -22,6 +22,19 @@ export interface ChatMessage {
 export interface StreamStartEvent {
   messageId: string;
   conversationId: string;
+  /** Server id for the user message that started this stream. */
+  userMessageId?: string;
+}
+
+/** One page of `GET /api/conversations/:id/messages`. */
+export interface MessagePage {
+  messages: ChatMessage[];
+  pageInfo: {
+    hasOlder: boolean;
+    hasNewer: boolean;
+    oldestId: string | null;
+    newestId: string | null;
+  };
 }
 
 export interface StreamChunkEvent {
@@ -41,6 +54,15 @@ export interface StreamCompleteEvent {
   attachments?: MediaAttachment[];
 }
 
+export interface StreamCancelledEvent {
+  messageId: string;
+  conversationId: string;
+  conversation: { id: string; messages: ChatMessage[] };
+  /** The partial reply the server kept. */
+  content: string;
+  agentUsed?: string;
+}
+
 export interface StreamErrorEvent {
   messageId?: string;
   conversationId?: string;
@@ -87,6 +109,7 @@ export interface ServerToClientEvents {
   stream_start: (e: StreamStartEvent) => void;
   stream_chunk: (e: StreamChunkEvent) => void;
   stream_complete: (e: StreamCompleteEvent) => void;
+  stream_cancelled: (e: StreamCancelledEvent) => void;
   stream_error: (e: StreamErrorEvent) => void;
   new_message: (m: ChatMessage) => void;
   proactive_message: (e: ProactiveMessageEvent) => void;
@@ -116,7 +139,10 @@ export interface ClientToServerEvents {
     ack?: (res: { accepted: boolean; error?: string }) => void,
   ) => void;
   cancel_stream: (e: { conversationId: string; messageId: string }) => void;
-  join_conversation: (conversationId: string) => void;
+  join_conversation: (
+    conversationId: string,
+    ack?: (res: { joined: boolean; code?: string }) => void,
+  ) => void;
   leave_conversation: (conversationId: string) => void;
   typing_start: (e: { conversationId: string }) => void;
   typing_stop: (e: { conversationId: string }) => void;